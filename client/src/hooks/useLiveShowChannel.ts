@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  SHOW_CHANNEL_MESSAGES,
+  reduceShowChannelFrame,
+  type ShowChannelClientState,
+  type ShowChannelState,
+} from "@shared/live-show-channel";
+
+interface UseLiveShowChannelOptions {
+  url?: string;
+  // Reconnect backoff; viewers keep retrying for as long as the page is open
+  minReconnectDelay?: number;
+  maxReconnectDelay?: number;
+}
+
+function defaultChannelUrl() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return import.meta.env.VITE_WS_URL || `${protocol}//${window.location.hostname}:8080`;
+}
+
+/**
+ * Subscribe to a show's typed viewer channel. Applies sequenced events on
+ * top of the last snapshot, re-subscribes with the last applied sequence
+ * after a gap or reconnect, and tracks the server clock offset so
+ * countdowns match the server.
+ */
+export function useLiveShowChannel(
+  showId: string | undefined,
+  options: UseLiveShowChannelOptions = {}
+) {
+  const {
+    url = defaultChannelUrl(),
+    minReconnectDelay = 1000,
+    maxReconnectDelay = 15000,
+  } = options;
+
+  const [state, setState] = useState<ShowChannelState | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+
+  const channelRef = useRef<ShowChannelClientState | null>(null);
+  const wsRef = useRef<WebSocket | null>(null);
+  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectDelayRef = useRef(minReconnectDelay);
+  const closedRef = useRef(false);
+
+  const subscribe = useCallback(
+    (ws: WebSocket) => {
+      if (!showId || ws.readyState !== WebSocket.OPEN) return;
+      ws.send(
+        JSON.stringify({
+          type: SHOW_CHANNEL_MESSAGES.subscribe,
+          payload: { showId, lastEpoch: channelRef.current?.epoch, lastSeq: channelRef.current?.seq },
+          timestamp: Date.now(),
+        })
+      );
+    },
+    [showId]
+  );
+
+  const connect = useCallback(() => {
+    if (!showId || closedRef.current) return;
+
+    const ws = new WebSocket(url);
+    wsRef.current = ws;
+
+    ws.onopen = () => {
+      setIsConnected(true);
+      reconnectDelayRef.current = minReconnectDelay;
+      subscribe(ws);
+    };
+
+    ws.onmessage = (message) => {
+      let frame: any;
+      try {
+        frame = JSON.parse(message.data);
+      } catch (error) {
+        console.error("[ShowChannel] Error parsing message:", error);
+        return;
+      }
+
+      if (
+        frame.type !== SHOW_CHANNEL_MESSAGES.event &&
+        frame.type !== SHOW_CHANNEL_MESSAGES.snapshot
+      ) {
+        return;
+      }
+      if (frame.payload?.showId !== showId) return;
+
+      setClockOffsetMs(Date.parse(frame.payload.serverTime) - Date.now());
+
+      const { next, needsResync } = reduceShowChannelFrame(channelRef.current, frame);
+      if (next !== channelRef.current) {
+        channelRef.current = next;
+        setState(next?.state ?? null);
+      }
+      if (needsResync) {
+        subscribe(ws);
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error("[ShowChannel] Error:", error);
+    };
+
+    ws.onclose = () => {
+      setIsConnected(false);
+      if (wsRef.current === ws) wsRef.current = null;
+      if (closedRef.current) return;
+
+      const delay = reconnectDelayRef.current;
+      reconnectDelayRef.current = Math.min(delay * 2, maxReconnectDelay);
+      reconnectTimeoutRef.current = setTimeout(connect, delay);
+    };
+  }, [showId, url, minReconnectDelay, maxReconnectDelay, subscribe]);
+
+  useEffect(() => {
+    closedRef.current = false;
+    channelRef.current = null;
+    setState(null);
+    connect();
+
+    return () => {
+      closedRef.current = true;
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
+      const ws = wsRef.current;
+      if (ws) {
+        if (ws.readyState === WebSocket.OPEN && showId) {
+          ws.send(
+            JSON.stringify({
+              type: SHOW_CHANNEL_MESSAGES.unsubscribe,
+              payload: { showId },
+              timestamp: Date.now(),
+            })
+          );
+        }
+        ws.close();
+        wsRef.current = null;
+      }
+    };
+  }, [connect, showId]);
+
+  return {
+    state,
+    seq: channelRef.current?.seq ?? null,
+    isConnected,
+    // Add to Date.now() to get the server's clock
+    clockOffsetMs,
+  };
+}
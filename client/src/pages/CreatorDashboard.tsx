@@ -498,6 +498,8 @@ function CreatorDashboardContent() {
               </Table>
             </CardContent>
           </Card>
+
+          <PayoutStatementCard />
         </TabsContent>
 
         <TabsContent value="performance" className="space-y-4">
@@ -580,3 +582,218 @@ function CreatorDashboardContent() {
     </div>
   );
 }
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function downloadFile(filename: string, mimeType: string, content: BlobPart) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function PayoutStatementCard() {
+  const [selected, setSelected] = useState<{ channelId: string; payoutId: string } | null>(null);
+  const [disputeLine, setDisputeLine] = useState<{ lineId: string; description: string } | null>(null);
+  const [disputeReason, setDisputeReason] = useState("");
+
+  const channelId = selected?.channelId ?? "";
+  const payoutId = selected?.payoutId ?? "";
+
+  const payoutsQuery = trpc.lsnCreatorEconomy.listPayouts.useQuery();
+  const statementQuery = trpc.lsnCreatorEconomy.getPayoutStatement.useQuery(
+    { channelId, payoutId },
+    { enabled: !!selected }
+  );
+  const exportMutation = trpc.lsnCreatorEconomy.exportPayoutStatement.useMutation();
+  const disputeMutation = trpc.lsnCreatorEconomy.disputePayoutLine.useMutation();
+
+  const statement = statementQuery.data;
+
+  const handleExport = async (format: "csv" | "pdf") => {
+    try {
+      const file = await exportMutation.mutateAsync({ channelId, payoutId, format });
+      if (file.encoding === "base64") {
+        const binary = atob(file.content);
+        const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        downloadFile(file.filename, file.mimeType, bytes);
+      } else {
+        downloadFile(file.filename, file.mimeType, file.content);
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Failed to export statement");
+    }
+  };
+
+  const handleDispute = async () => {
+    if (!disputeLine) return;
+    try {
+      await disputeMutation.mutateAsync({
+        channelId,
+        payoutId,
+        payoutItemId: disputeLine.lineId,
+        reason: disputeReason,
+      });
+      toast.success("Dispute sent to operations for review");
+      setDisputeLine(null);
+      setDisputeReason("");
+      statementQuery.refetch();
+      payoutsQuery.refetch();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to dispute line");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payout Statement</CardTitle>
+        <CardDescription>Pick a payout for its line-item breakdown, with export and disputes</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {payoutsQuery.isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : payoutsQuery.error ? (
+          <p className="text-sm text-destructive">{payoutsQuery.error.message}</p>
+        ) : payoutsQuery.data?.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Creator</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Net</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payoutsQuery.data.map((payout) => (
+                <TableRow
+                  key={payout.id}
+                  className="cursor-pointer"
+                  data-state={payout.id === payoutId ? "selected" : undefined}
+                  onClick={() => setSelected({ channelId: payout.channelId, payoutId: payout.id })}
+                >
+                  <TableCell className="font-medium">{payout.creatorName ?? payout.creatorId}</TableCell>
+                  <TableCell>
+                    {new Date(payout.periodStart).toLocaleDateString()} - {new Date(payout.periodEnd).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCents(payout.netCents)}</TableCell>
+                  <TableCell>
+                    <Badge variant={payout.status === "HELD" ? "destructive" : "secondary"}>{payout.status}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No payouts yet</p>
+        )}
+
+        {selected && (
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={!statement || exportMutation.isPending} onClick={() => handleExport("csv")}>
+              Download CSV
+            </Button>
+            <Button variant="outline" disabled={!statement || exportMutation.isPending} onClick={() => handleExport("pdf")}>
+              Download PDF
+            </Button>
+          </div>
+        )}
+
+        {statementQuery.isLoading && selected ? (
+          <Skeleton className="h-32 w-full" />
+        ) : statementQuery.error ? (
+          <p className="text-sm text-destructive">{statementQuery.error.message}</p>
+        ) : statement ? (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="font-medium">{statement.creatorName}</span>
+              <span>{statement.tier} · {(statement.commissionRate * 100).toFixed(2)}% ({statement.rateSource === "TIER" ? "tier rate" : "creator rate"})</span>
+              <Badge variant={statement.payoutStatus === "HELD" ? "destructive" : "secondary"}>{statement.payoutStatus}</Badge>
+              {statement.holds.map((hold) => (
+                <Badge key={hold} variant="outline">{hold}</Badge>
+              ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Base</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.lines.map((line) => (
+                  <TableRow key={line.lineId}>
+                    <TableCell>{line.date ? new Date(line.date).toLocaleDateString() : ""}</TableCell>
+                    <TableCell>
+                      <Badge variant={line.type === "CLAWBACK" ? "destructive" : "outline"}>{line.type}</Badge>
+                    </TableCell>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell className="text-right">{line.baseCents === null ? "" : formatCents(line.baseCents)}</TableCell>
+                    <TableCell className="text-right">{line.rate === null ? "" : `${(line.rate * 100).toFixed(2)}%`}</TableCell>
+                    <TableCell className="text-right">{formatCents(line.amountCents)}</TableCell>
+                    <TableCell className="text-right">
+                      {line.disputeStatus ? (
+                        <Badge variant={line.disputeStatus === "OPEN" ? "secondary" : "outline"}>{line.disputeStatus}</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={statement.payoutStatus !== "PENDING" && statement.payoutStatus !== "HELD"}
+                          onClick={() => setDisputeLine({ lineId: line.lineId, description: line.description })}
+                        >
+                          Dispute
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="grid gap-2 md:grid-cols-4 text-sm">
+              <div>Commission: {formatCents(statement.totals.commissionCents)}</div>
+              <div>Incentives: {formatCents(statement.totals.incentivesCents)}</div>
+              <div>Clawbacks: -{formatCents(statement.totals.clawbacksCents)}</div>
+              <div>Adjustments: {formatCents(statement.totals.adjustmentsCents)}</div>
+              <div>Earned: {formatCents(statement.totals.earnedCents)}</div>
+              <div>Payout fee: -{formatCents(statement.totals.feeCents)}</div>
+              <div className="font-bold">Net: {formatCents(statement.totals.netCents)}</div>
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+
+      <Dialog open={!!disputeLine} onOpenChange={(open) => !open && setDisputeLine(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dispute Statement Line</DialogTitle>
+            <DialogDescription>{disputeLine?.description}</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label>Reason</Label>
+            <Textarea
+              value={disputeReason}
+              onChange={(e) => setDisputeReason(e.target.value)}
+              placeholder="What is wrong with this line?"
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleDispute} disabled={!disputeReason.trim() || disputeMutation.isPending}>
+              Submit Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
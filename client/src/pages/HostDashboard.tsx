@@ -20,7 +20,8 @@ import {
   Edit,
   Trash2,
   Copy,
-  Eye
+  Eye,
+  RefreshCw
 } from 'lucide-react';
 import {
   Dialog,
@@ -57,6 +58,27 @@ export default function HostDashboard() {
     { refetchInterval: 10000 }
   );
   
+  // Stream key: only its prefix comes back after it is first shown
+  const [revealedStreamKey, setRevealedStreamKey] = useState<string | null>(null);
+  const { data: streamKeyInfo, refetch: refetchStreamKey } = trpc.liveStreaming.getStreamKey.useQuery();
+  const rotateStreamKeyMutation = trpc.liveStreaming.rotateStreamKey.useMutation({
+    onSuccess: (data) => {
+      setRevealedStreamKey(data.streamKey);
+      toast({
+        title: 'New stream key',
+        description: 'Copy it now; it will not be shown again',
+      });
+      refetchStreamKey();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
   // Create show mutation
   const createShowMutation = trpc.liveStreaming.createShow.useMutation({
     onSuccess: () => {
@@ -229,6 +251,46 @@ export default function HostDashboard() {
           </Dialog>
         </div>
         
+        {/* Stream Key */}
+        <Card className="p-6 mb-8">
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <h2 className="text-lg font-bold">Stream Key</h2>
+              <p className="text-sm text-muted-foreground">
+                Works from 30 minutes before each scheduled show. Rotating cuts any stream using the old key.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => rotateStreamKeyMutation.mutate()}
+              disabled={rotateStreamKeyMutation.isPending}
+            >
+              <RefreshCw className="w-4 h-4" />
+              {streamKeyInfo?.key ? 'Rotate Key' : 'Create Key'}
+            </Button>
+          </div>
+          
+          {streamKeyInfo?.ingestUrl && (
+            <p className="text-xs text-muted-foreground mb-2">
+              Server: <code className="font-mono">{streamKeyInfo.ingestUrl}</code>
+            </p>
+          )}
+          
+          {revealedStreamKey ? (
+            <div className="bg-muted p-3 rounded flex items-center justify-between">
+              <code className="text-xs font-mono break-all">{revealedStreamKey}</code>
+              <Button variant="ghost" size="sm" onClick={() => copyStreamKey(revealedStreamKey)}>
+                <Copy className="w-3 h-3" />
+              </Button>
+            </div>
+          ) : streamKeyInfo?.key ? (
+            <code className="text-xs font-mono text-muted-foreground">{streamKeyInfo.key.keyPrefix}…</code>
+          ) : (
+            <p className="text-sm text-muted-foreground">No stream key yet</p>
+          )}
+        </Card>
+        
         {/* Stats Overview */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
           <Card className="p-6">
@@ -362,22 +424,6 @@ export default function HostDashboard() {
                     </div>
                   </div>
                   
-                  {show.streamKey && (
-                    <div className="bg-muted p-3 rounded mb-4">
-                      <div className="flex items-center justify-between mb-1">
-                        <span className="text-xs font-medium">Stream Key</span>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => copyStreamKey(show.streamKey!)}
-                        >
-                          <Copy className="w-3 h-3" />
-                        </Button>
-                      </div>
-                      <code className="text-xs font-mono">{show.streamKey}</code>
-                    </div>
-                  )}
-                  
                   <div className="flex gap-2">
                     <Button
                       className="flex-1 gap-2"
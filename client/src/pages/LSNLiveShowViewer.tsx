@@ -3,7 +3,7 @@
  * 
  * Complete live shopping experience with:
  * - Video player with HLS streaming
- * - Real-time viewer count
+ * - Real-time viewer count, pins, price drops and stock over the show channel
  * - Live chat with reactions
  * - Pinned products carousel
  * - Price drop alerts with countdown
@@ -55,6 +55,7 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
+import { useLiveShowChannel } from "@/hooks/useLiveShowChannel";
 
 export default function LSNLiveShowViewer() {
   const { showId } = useParams<{ showId: string }>();
@@ -71,18 +72,30 @@ export default function LSNLiveShowViewer() {
   const chatScrollRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Fetch show data
-  const { data: show, isLoading } = trpc.liveShows.getById.useQuery(
+  // Fetch show data (live changes arrive over the show channel)
+  const { data: show, isLoading, refetch: refetchShow } = trpc.liveShows.getById.useQuery(
     { id: showId! },
-    { enabled: !!showId, refetchInterval: 5000 } // Refresh every 5s
+    { enabled: !!showId }
   );
 
   // Fetch live stock
   const { data: liveStock } = trpc.liveShows.getLiveStock.useQuery(
     { showId: showId! },
-    { enabled: !!showId, refetchInterval: 3000 } // Refresh every 3s
+    { enabled: !!showId }
   );
 
+  // Pushed show state: pins, price drops, stock, viewer count
+  const { state: channel, clockOffsetMs } = useLiveShowChannel(showId);
+
+  // Product details for a newly pinned product come from the show query
+  useEffect(() => {
+    if (!channel || !show) return;
+    const known = new Set((show.pinnedProducts || []).map((p: any) => p.productId));
+    if (channel.pinnedProducts.some((p) => !known.has(p.productId))) {
+      refetchShow();
+    }
+  }, [channel?.pinnedProducts, show]);
+
   // Track viewer join
   const trackViewerMutation = trpc.liveShows.trackViewerJoin.useMutation();
 
@@ -181,7 +194,6 @@ export default function LSNLiveShowViewer() {
       trackPurchaseMutation.mutate({
         showId,
         orderId: "ORDER_ID", // Would be real order ID
-        userId: user.id,
       });
     }
 
@@ -207,8 +219,29 @@ export default function LSNLiveShowViewer() {
     );
   }
 
-  const pinnedProducts = show.pinnedProducts || [];
-  const priceDrops = show.priceDrops || [];
+  const pinnedProducts = channel
+    ? (show.pinnedProducts || []).filter((pinned: any) =>
+        channel.pinnedProducts.some((p) => p.productId === pinned.productId)
+      )
+    : show.pinnedProducts || [];
+  const priceDrops = channel
+    ? channel.priceDrops.map((drop) => ({
+        id: drop.dropId,
+        product: (show.pinnedProducts || []).find((p: any) => p.productId === drop.productId)?.product,
+        dropPrice: (drop.dropPriceCents ?? 0) / 100,
+        originalPrice: (drop.originalPriceCents ?? 0) / 100,
+        expiresAt: drop.endsAt,
+        stockLimit: drop.remainingQuantity !== null,
+        remainingStock: drop.remainingQuantity,
+      }))
+    : show.priceDrops || [];
+  const countdown = channel?.countdowns[0];
+  const viewerCount = channel?.viewerCount ?? show.currentViewers ?? 0;
+  const stockFor = (productId: string) => {
+    const polled = liveStock?.find((s: any) => s.productId === productId);
+    const pushed = channel?.stock[productId];
+    return pushed === undefined ? polled : { ...polled, productId, available: pushed };
+  };
 
   return (
     <div
@@ -245,16 +278,20 @@ export default function LSNLiveShowViewer() {
                 <div className="absolute top-4 right-4 bg-background/70 backdrop-blur-sm px-4 py-2 rounded-full flex items-center gap-2 text-foreground">
                   <Eye className="h-5 w-5 text-red-400" />
                   <span className="text-lg font-bold">
-                    {show.currentViewers?.toLocaleString() || 0}
+                    {viewerCount.toLocaleString()}
                   </span>
                 </div>
 
                 {/* Price drop alert */}
-                {priceDrops.length > 0 && (
+                {priceDrops.length > 0 ? (
+                  <div className="absolute top-20 left-1/2 -translate-x-1/2 w-full max-w-md">
+                    <PriceDropAlert priceDrop={priceDrops[0]} clockOffsetMs={clockOffsetMs} />
+                  </div>
+                ) : countdown ? (
                   <div className="absolute top-20 left-1/2 -translate-x-1/2 w-full max-w-md">
-                    <PriceDropAlert priceDrop={priceDrops[0]} />
+                    <PriceDropCountdown firesAt={countdown.firesAt} clockOffsetMs={clockOffsetMs} />
                   </div>
-                )}
+                ) : null}
 
                 {/* Video controls */}
                 <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/30 to-transparent p-4">
@@ -372,9 +409,7 @@ export default function LSNLiveShowViewer() {
                     <PinnedProductCard
                       key={pinned.id}
                       pinned={pinned}
-                      liveStock={liveStock?.find(
-                        (s: any) => s.productId === pinned.productId
-                      )}
+                      liveStock={stockFor(pinned.productId)}
                       onAddToCart={handleAddToCart}
                       onBuyNow={handleBuyNow}
                     />
@@ -433,7 +468,7 @@ export default function LSNLiveShowViewer() {
                   <Users className="h-5 w-5 text-red-400" />
                   Live Chat
                   <Badge variant="outline" className="ml-auto">
-                    {show.currentViewers || 0} online
+                    {viewerCount} online
                   </Badge>
                 </h3>
               </div>
@@ -496,19 +531,33 @@ export default function LSNLiveShowViewer() {
 // COMPONENT: Price Drop Alert
 // ============================================================================
 
-function PriceDropAlert({ priceDrop }: { priceDrop: any }) {
+function useSecondsUntil(target: string | Date | undefined, clockOffsetMs: number) {
   const [timeLeft, setTimeLeft] = useState(0);
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      const now = Date.now();
-      const end = new Date(priceDrop.expiresAt).getTime();
-      const diff = Math.max(0, end - now);
-      setTimeLeft(Math.floor(diff / 1000));
-    }, 1000);
+    const tick = () => {
+      // Count against the server clock so every viewer sees the same time
+      const now = Date.now() + clockOffsetMs;
+      const end = target ? new Date(target).getTime() : now;
+      setTimeLeft(Math.ceil(Math.max(0, end - now) / 1000));
+    };
+    tick();
+    const interval = setInterval(tick, 250);
 
     return () => clearInterval(interval);
-  }, [priceDrop]);
+  }, [target, clockOffsetMs]);
+
+  return timeLeft;
+}
+
+function PriceDropAlert({
+  priceDrop,
+  clockOffsetMs = 0,
+}: {
+  priceDrop: any;
+  clockOffsetMs?: number;
+}) {
+  const timeLeft = useSecondsUntil(priceDrop.expiresAt, clockOffsetMs);
 
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
@@ -558,6 +607,34 @@ function PriceDropAlert({ priceDrop }: { priceDrop: any }) {
   );
 }
 
+// ============================================================================
+// COMPONENT: Price Drop Countdown
+// ============================================================================
+
+function PriceDropCountdown({
+  firesAt,
+  clockOffsetMs,
+}: {
+  firesAt: string;
+  clockOffsetMs: number;
+}) {
+  const timeLeft = useSecondsUntil(firesAt, clockOffsetMs);
+  const minutes = Math.floor(timeLeft / 60);
+  const seconds = timeLeft % 60;
+
+  return (
+    <Card className="border-yellow-500 border-2 bg-background/90 backdrop-blur-sm text-foreground">
+      <CardContent className="p-4 flex items-center justify-center gap-3">
+        <Zap className="h-5 w-5 text-yellow-400" />
+        <span className="font-bold">Price drop in</span>
+        <span className="text-xl font-bold text-yellow-400">
+          {minutes}:{seconds.toString().padStart(2, "0")}
+        </span>
+      </CardContent>
+    </Card>
+  );
+}
+
 // ============================================================================
 // COMPONENT: Pinned Product Card
 // ============================================================================
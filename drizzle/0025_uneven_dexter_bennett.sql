@@ -0,0 +1,17 @@
+CREATE TABLE `live_show_checkpoints` (
+	`show_id` varchar(64) NOT NULL,
+	`channel_id` varchar(64) NOT NULL,
+	`creator_id` varchar(64) NOT NULL,
+	`status` varchar(32) NOT NULL,
+	`last_transition` varchar(64) NOT NULL,
+	`current_segment_id` varchar(64),
+	`segment_started_at` timestamp,
+	`viewer_count` int NOT NULL DEFAULT 0,
+	`pinned_products` json NOT NULL,
+	`active_price_drops` json NOT NULL,
+	`version` int NOT NULL DEFAULT 1,
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `live_show_checkpoints_show_id` PRIMARY KEY(`show_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `live_show_checkpoints_status_idx` ON `live_show_checkpoints` (`status`);
\ No newline at end of file
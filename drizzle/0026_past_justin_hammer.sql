@@ -0,0 +1,25 @@
+CREATE TABLE `show_lifecycle_events` (
+	`id` varchar(64) NOT NULL,
+	`show_id` varchar(64) NOT NULL,
+	`from_state` varchar(32) NOT NULL,
+	`to_state` varchar(32) NOT NULL,
+	`trigger` varchar(32) NOT NULL,
+	`actor_id` varchar(64),
+	`guard_id` varchar(64),
+	`metadata` json,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `show_lifecycle_events_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `show_lifecycle_states` (
+	`show_id` varchar(64) NOT NULL,
+	`channel_id` varchar(64),
+	`state` enum('SCHEDULED','PRE_LIVE','LIVE','PAUSED','ENDED','ARCHIVED','CANCELED') NOT NULL DEFAULT 'SCHEDULED',
+	`version` int NOT NULL DEFAULT 1,
+	`entered_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `show_lifecycle_states_show_id` PRIMARY KEY(`show_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `show_lifecycle_events_show_idx` ON `show_lifecycle_events` (`show_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `show_lifecycle_states_state_idx` ON `show_lifecycle_states` (`state`);
\ No newline at end of file
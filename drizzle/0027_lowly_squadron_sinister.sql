@@ -0,0 +1,4 @@
+ALTER TABLE `live_price_drops` ADD `trigger_type` enum('MANUAL','AT_TIME','VIEWER_THRESHOLD','COUNTDOWN') DEFAULT 'MANUAL' NOT NULL;--> statement-breakpoint
+ALTER TABLE `live_price_drops` ADD `trigger_config` json;--> statement-breakpoint
+ALTER TABLE `live_price_drops` ADD `stock_buffer` int;--> statement-breakpoint
+ALTER TABLE `live_price_drops` ADD `end_reason` varchar(32);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `ledger_period_closes` (
+	`id` varchar(64) NOT NULL,
+	`channel_id` varchar(64) NOT NULL,
+	`period` varchar(7) NOT NULL,
+	`period_end` timestamp NOT NULL,
+	`trial_balance` json,
+	`closed_by` varchar(64),
+	`closed_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ledger_period_closes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `channel_period_idx` UNIQUE(`channel_id`,`period`)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `settlements` ADD `file_hash` varchar(64);--> statement-breakpoint
+CREATE INDEX `channel_file_hash_idx` ON `settlements` (`channel_id`,`file_hash`);
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `creator_payout_disputes` (
+	`id` varchar(64) NOT NULL,
+	`channel_id` varchar(64) NOT NULL,
+	`payout_id` varchar(64) NOT NULL,
+	`payout_item_id` varchar(64) NOT NULL,
+	`creator_id` varchar(64) NOT NULL,
+	`status` enum('OPEN','UPHELD','REJECTED') NOT NULL DEFAULT 'OPEN',
+	`reason` text NOT NULL,
+	`raised_by` varchar(64),
+	`adjustment_cents` bigint NOT NULL DEFAULT 0,
+	`resolution` text,
+	`resolved_by` varchar(64),
+	`resolved_at` timestamp,
+	`review_queue_item_id` varchar(64),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `creator_payout_disputes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `creator_payout_disputes` ADD CONSTRAINT `creator_payout_disputes_payout_id_creator_payouts_id_fk` FOREIGN KEY (`payout_id`) REFERENCES `creator_payouts`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `creator_payout_disputes` ADD CONSTRAINT `creator_payout_disputes_payout_item_id_creator_payout_items_id_fk` FOREIGN KEY (`payout_item_id`) REFERENCES `creator_payout_items`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `payout_dispute_status_idx` ON `creator_payout_disputes` (`payout_id`,`status`);--> statement-breakpoint
+CREATE INDEX `payout_dispute_channel_status_idx` ON `creator_payout_disputes` (`channel_id`,`status`);
\ No newline at end of file
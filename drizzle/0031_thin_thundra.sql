@@ -0,0 +1,4 @@
+ALTER TABLE `workflow_runs` ADD `paused_step_id` varchar(64);--> statement-breakpoint
+ALTER TABLE `workflow_runs` ADD `approval_id` varchar(64);--> statement-breakpoint
+ALTER TABLE `workflow_runs` ADD `paused_at` timestamp;--> statement-breakpoint
+CREATE INDEX `approval_idx` ON `workflow_runs` (`approval_id`);
\ No newline at end of file
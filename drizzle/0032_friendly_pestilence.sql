@@ -0,0 +1,15 @@
+CREATE TABLE `policy_checks` (
+	`id` varchar(64) NOT NULL,
+	`org_unit_id` varchar(64),
+	`agent_id` varchar(64),
+	`workflow_id` varchar(64),
+	`action` varchar(255) NOT NULL,
+	`data` json NOT NULL,
+	`outcome` enum('allow','deny','require_approval') NOT NULL,
+	`matched_rule_ids` json,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `policy_checks_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `org_unit_idx` ON `policy_checks` (`org_unit_id`);--> statement-breakpoint
+CREATE INDEX `created_at_idx` ON `policy_checks` (`created_at`);
\ No newline at end of file
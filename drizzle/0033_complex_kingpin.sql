@@ -0,0 +1 @@
+ALTER TABLE `workflow_runs` ADD `mode` enum('live','dry_run') DEFAULT 'live' NOT NULL;
\ No newline at end of file
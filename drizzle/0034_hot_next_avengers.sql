@@ -0,0 +1,3 @@
+ALTER TABLE `evidence_packs` ADD `narrative` text;--> statement-breakpoint
+ALTER TABLE `evidence_packs` ADD `provider_evidence` json;--> statement-breakpoint
+ALTER TABLE `evidence_packs` ADD `validation` json;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `inventory_reservations` MODIFY COLUMN `order_id` varchar(64);--> statement-breakpoint
+ALTER TABLE `inventory_reservations` ADD `cart_id` varchar(128);--> statement-breakpoint
+ALTER TABLE `inventory_reservations` ADD `released_at` timestamp;--> statement-breakpoint
+CREATE INDEX `inventory_reservations_cart_idx` ON `inventory_reservations` (`cart_id`);--> statement-breakpoint
+CREATE INDEX `inventory_reservations_status_expires_idx` ON `inventory_reservations` (`status`,`expires_at`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `warehouses` ADD `fulfillment_provider_id` varchar(64);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `stream_keys` (
+	`id` varchar(64) NOT NULL,
+	`creator_id` int NOT NULL,
+	`key_hash` varchar(64) NOT NULL,
+	`key_prefix` varchar(16) NOT NULL,
+	`status` enum('active','rotated','revoked') NOT NULL DEFAULT 'active',
+	`last_used_at` timestamp,
+	`revoked_at` timestamp,
+	`revoked_by` int,
+	`revoke_reason` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `stream_keys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `stream_keys_key_hash_unique` UNIQUE(`key_hash`)
+);
+--> statement-breakpoint
+ALTER TABLE `stream_keys` ADD CONSTRAINT `stream_keys_creator_id_users_id_fk` FOREIGN KEY (`creator_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `creator_status_idx` ON `stream_keys` (`creator_id`,`status`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `live_price_drops` MODIFY COLUMN `variant_id` varchar(64);--> statement-breakpoint
+ALTER TABLE `live_price_drops` ADD `product_id` varchar(64) NOT NULL;--> statement-breakpoint
+CREATE INDEX `live_price_drops_session_product_idx` ON `live_price_drops` (`live_session_id`,`product_id`);
\ No newline at end of file
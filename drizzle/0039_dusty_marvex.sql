@@ -0,0 +1,2 @@
+DROP INDEX `channel_file_hash_idx` ON `settlements`;--> statement-breakpoint
+ALTER TABLE `settlements` ADD CONSTRAINT `channel_file_hash_idx` UNIQUE(`channel_id`,`file_hash`);
\ No newline at end of file
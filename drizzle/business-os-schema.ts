@@ -213,6 +213,22 @@ export const policies = mysqlTable("policies", {
   statusIdx: index("status_idx").on(table.status),
 }));
 
+// Every governor decision with the context it saw, for replaying draft policies
+export const policyChecks = mysqlTable("policy_checks", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  orgUnitId: varchar("org_unit_id", { length: 64 }),
+  agentId: varchar("agent_id", { length: 64 }),
+  workflowId: varchar("workflow_id", { length: 64 }),
+  action: varchar("action", { length: 255 }).notNull(),
+  data: json("data").$type<Record<string, any>>().notNull(),
+  outcome: mysqlEnum("outcome", ["allow", "deny", "require_approval"]).notNull(),
+  matchedRuleIds: json("matched_rule_ids").$type<string[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  orgUnitIdx: index("org_unit_idx").on(table.orgUnitId),
+  createdAtIdx: index("created_at_idx").on(table.createdAt),
+}));
+
 export const approvals = mysqlTable("approvals", {
   id: varchar("id", { length: 64 }).primaryKey(),
   type: mysqlEnum("type", ["task", "action", "plan", "policy_change", "budget", "payout"]).notNull(),
@@ -425,6 +441,8 @@ export const workflowRuns = mysqlTable("workflow_runs", {
   id: varchar("id", { length: 64 }).primaryKey(),
   workflowId: varchar("workflow_id", { length: 64 }).notNull(),
   eventId: varchar("event_id", { length: 64 }),
+  // Dry runs simulate tool calls instead of executing them
+  mode: mysqlEnum("mode", ["live", "dry_run"]).default("live").notNull(),
   status: mysqlEnum("status", ["pending", "running", "paused", "completed", "failed", "cancelled"]).default("pending").notNull(),
   inputs: json("inputs").$type<Record<string, any>>(),
   outputs: json("outputs").$type<Record<string, any>>(),
@@ -435,6 +453,10 @@ export const workflowRuns = mysqlTable("workflow_runs", {
     data: Record<string, any>;
   }>>(),
   errorMessage: text("error_message"),
+  // Gate step the run is parked at while paused, and the approval it waits on
+  pausedStepId: varchar("paused_step_id", { length: 64 }),
+  approvalId: varchar("approval_id", { length: 64 }),
+  pausedAt: timestamp("paused_at"),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -442,6 +464,7 @@ export const workflowRuns = mysqlTable("workflow_runs", {
   workflowIdx: index("workflow_idx").on(table.workflowId),
   statusIdx: index("status_idx").on(table.status),
   startedAtIdx: index("started_at_idx").on(table.startedAt),
+  approvalIdx: index("approval_idx").on(table.approvalId),
 }));
 
 // ============================================================================
@@ -93,6 +93,9 @@ export const evidencePacks = mysqlTable("evidence_packs", {
   refundPolicy: text("refund_policy"),
   termsOfService: text("terms_of_service"),
   attachments: json("attachments").$type<Array<{ url: string; type: string; name: string }>>(),
+  narrative: text("narrative"),
+  providerEvidence: json("provider_evidence"),
+  validation: json("validation").$type<{ valid: boolean; missing: string[]; errors: string[] }>(),
   submittedAt: timestamp("submitted_at"),
   submittedBy: varchar("submitted_by", { length: 64 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -426,7 +429,8 @@ export const livePriceDrops = mysqlTable("live_price_drops", {
   id: varchar("id", { length: 64 }).primaryKey(),
   channelId: varchar("channel_id", { length: 64 }).notNull(),
   liveSessionId: varchar("live_session_id", { length: 64 }).notNull(),
-  variantId: varchar("variant_id", { length: 64 }).notNull(),
+  productId: varchar("product_id", { length: 64 }).notNull(),
+  variantId: varchar("variant_id", { length: 64 }),
   originalPriceCents: bigint("original_price_cents", { mode: "number" }).notNull(),
   dropPriceCents: bigint("drop_price_cents", { mode: "number" }).notNull(),
   discountPercent: decimal("discount_percent", { precision: 5, scale: 2 }).notNull(),
@@ -436,12 +440,20 @@ export const livePriceDrops = mysqlTable("live_price_drops", {
   quantitySold: int("quantity_sold").default(0).notNull(),
   status: mysqlEnum("status", ["SCHEDULED", "ACTIVE", "ENDED", "CANCELED"]).default("SCHEDULED").notNull(),
   urgencyMessage: varchar("urgency_message", { length: 255 }),
+  triggerType: mysqlEnum("trigger_type", ["MANUAL", "AT_TIME", "VIEWER_THRESHOLD", "COUNTDOWN"]).default("MANUAL").notNull(),
+  triggerConfig: json("trigger_config"),
+  stockBuffer: int("stock_buffer"),
+  endReason: varchar("end_reason", { length: 32 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   sessionStatusIdx: index("live_price_drops_session_status_idx").on(
     table.liveSessionId,
     table.status
   ),
+  sessionProductIdx: index("live_price_drops_session_product_idx").on(
+    table.liveSessionId,
+    table.productId
+  ),
 }));
 
 export const liveHighlights = mysqlTable("live_highlights", {
@@ -464,6 +476,56 @@ export const liveHighlights = mysqlTable("live_highlights", {
   clipStatusIdx: index("live_highlights_clip_status_idx").on(table.clipStatus),
 }));
 
+export const liveShowCheckpoints = mysqlTable("live_show_checkpoints", {
+  showId: varchar("show_id", { length: 64 }).primaryKey(),
+  channelId: varchar("channel_id", { length: 64 }).notNull(),
+  creatorId: varchar("creator_id", { length: 64 }).notNull(),
+  status: varchar("status", { length: 32 }).notNull(),
+  lastTransition: varchar("last_transition", { length: 64 }).notNull(),
+  currentSegmentId: varchar("current_segment_id", { length: 64 }),
+  segmentStartedAt: timestamp("segment_started_at"),
+  viewerCount: int("viewer_count").default(0).notNull(),
+  pinnedProducts: json("pinned_products").$type<Array<{ productId: string; unpinAt: string | null }>>().notNull(),
+  activePriceDrops: json("active_price_drops").$type<Array<{ dropId: string; productId: string; endsAt: string }>>().notNull(),
+  version: int("version").default(1).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  statusIdx: index("live_show_checkpoints_status_idx").on(table.status),
+}));
+
+export const showLifecycleStates = mysqlTable("show_lifecycle_states", {
+  showId: varchar("show_id", { length: 64 }).primaryKey(),
+  channelId: varchar("channel_id", { length: 64 }),
+  state: mysqlEnum("state", [
+    "SCHEDULED",
+    "PRE_LIVE",
+    "LIVE",
+    "PAUSED",
+    "ENDED",
+    "ARCHIVED",
+    "CANCELED",
+  ]).default("SCHEDULED").notNull(),
+  version: int("version").default(1).notNull(),
+  enteredAt: timestamp("entered_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  stateIdx: index("show_lifecycle_states_state_idx").on(table.state),
+}));
+
+export const showLifecycleEvents = mysqlTable("show_lifecycle_events", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  showId: varchar("show_id", { length: 64 }).notNull(),
+  fromState: varchar("from_state", { length: 32 }).notNull(),
+  toState: varchar("to_state", { length: 32 }).notNull(),
+  trigger: varchar("trigger", { length: 32 }).notNull(),
+  actorId: varchar("actor_id", { length: 64 }),
+  guardId: varchar("guard_id", { length: 64 }),
+  metadata: json("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  showIdx: index("show_lifecycle_events_show_idx").on(table.showId, table.createdAt),
+}));
+
 // ============================================================================
 // PRICING & PROMOTIONS ENGINE
 // ============================================================================
@@ -1107,6 +1169,32 @@ export const ledgerEntries = mysqlTable("ledger_entries", {
   accountIdx: index("account_idx").on(table.channelId, table.accountId),
 }));
 
+export const ledgerPeriodCloses = mysqlTable("ledger_period_closes", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  channelId: varchar("channel_id", { length: 64 }).notNull(),
+  period: varchar("period", { length: 7 }).notNull(), // YYYY-MM (UTC)
+  periodEnd: timestamp("period_end").notNull(),
+  
+  // Trial balance at close, used to detect later changes to the period
+  trialBalance: json("trial_balance").$type<{
+    asOf: string | null;
+    lines: Array<{
+      account: string;
+      currency: string;
+      debitCents: number;
+      creditCents: number;
+      balanceCents: number;
+    }>;
+    totals: Record<string, { debitCents: number; creditCents: number }>;
+    isBalanced: boolean;
+  }>(),
+  
+  closedBy: varchar("closed_by", { length: 64 }),
+  closedAt: timestamp("closed_at").defaultNow().notNull(),
+}, (table) => ({
+  channelPeriodIdx: uniqueIndex("channel_period_idx").on(table.channelId, table.period),
+}));
+
 export const creatorPayouts = mysqlTable("creator_payouts", {
   id: varchar("id", { length: 64 }).primaryKey(),
   channelId: varchar("channel_id", { length: 64 }).notNull(),
@@ -1178,6 +1266,34 @@ export const creatorPayoutItems = mysqlTable("creator_payout_items", {
   refIdx: index("ref_idx").on(table.channelId, table.referenceType, table.referenceId),
 }));
 
+// Creator disputes against a payout statement line; open disputes hold the payout
+export const creatorPayoutDisputes = mysqlTable("creator_payout_disputes", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  channelId: varchar("channel_id", { length: 64 }).notNull(),
+  
+  payoutId: varchar("payout_id", { length: 64 }).notNull().references(() => creatorPayouts.id, { onDelete: "cascade" }),
+  payoutItemId: varchar("payout_item_id", { length: 64 }).notNull().references(() => creatorPayoutItems.id, { onDelete: "cascade" }),
+  creatorId: varchar("creator_id", { length: 64 }).notNull(),
+  
+  status: mysqlEnum("status", ["OPEN", "UPHELD", "REJECTED"]).notNull().default("OPEN"),
+  reason: text("reason").notNull(),
+  raisedBy: varchar("raised_by", { length: 64 }),
+  
+  // Correction posted to the payout when a dispute is upheld
+  adjustmentCents: bigint("adjustment_cents", { mode: "number" }).notNull().default(0),
+  resolution: text("resolution"),
+  resolvedBy: varchar("resolved_by", { length: 64 }),
+  resolvedAt: timestamp("resolved_at"),
+  
+  reviewQueueItemId: varchar("review_queue_item_id", { length: 64 }),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  payoutStatusIdx: index("payout_dispute_status_idx").on(table.payoutId, table.status),
+  channelStatusIdx: index("payout_dispute_channel_status_idx").on(table.channelId, table.status),
+}));
+
 export const externalTransactions = mysqlTable("external_transactions", {
   id: varchar("id", { length: 64 }).primaryKey(),
   channelId: varchar("channel_id", { length: 64 }).notNull(),
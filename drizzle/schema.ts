@@ -88,6 +88,8 @@ export const warehouses = mysqlTable("warehouses", {
   code: varchar("code", { length: 32 }).notNull().unique(),
   name: varchar("name", { length: 255 }).notNull(),
   address: text("address"),
+  // 3PL that fulfills from this warehouse; null when we ship it ourselves
+  fulfillmentProviderId: varchar("fulfillment_provider_id", { length: 64 }),
   status: mysqlEnum("status", ["active", "disabled"]).default("active").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
@@ -181,12 +183,17 @@ export const inventory = mysqlTable("inventory", {
 export const inventoryReservations = mysqlTable("inventory_reservations", {
   id: varchar("id", { length: 64 }).primaryKey(),
   inventoryId: varchar("inventory_id", { length: 64 }).notNull().references(() => inventory.id),
-  orderId: varchar("order_id", { length: 64 }).notNull(),
+  cartId: varchar("cart_id", { length: 128 }),
+  orderId: varchar("order_id", { length: 64 }),
   quantity: int("quantity").notNull(),
   expiresAt: timestamp("expires_at"),
   status: mysqlEnum("status", ["active", "released", "fulfilled"]).default("active").notNull(),
+  releasedAt: timestamp("released_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  cartIdx: index("inventory_reservations_cart_idx").on(table.cartId),
+  statusExpiresIdx: index("inventory_reservations_status_expires_idx").on(table.status, table.expiresAt),
+}));
 
 export const inventoryAdjustments = mysqlTable("inventory_adjustments", {
   id: varchar("id", { length: 64 }).primaryKey(),
@@ -696,10 +703,13 @@ export const settlements = mysqlTable("settlements", {
   currency: varchar("currency", { length: 3 }).default("USD").notNull(),
   status: mysqlEnum("status", ["pending", "reconciled", "discrepancy"]).default("pending").notNull(),
   rawData: json("raw_data"),
+  // SHA-256 of the imported settlement file, for duplicate detection
+  fileHash: varchar("file_hash", { length: 64 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
 }, (table) => ({
   channelSettlementIdx: uniqueIndex("channel_settlement_idx").on(table.channelId, table.settlementId),
+  channelFileHashIdx: uniqueIndex("channel_file_hash_idx").on(table.channelId, table.fileHash),
 }));
 
 export const settlementLines = mysqlTable("settlement_lines", {
@@ -915,6 +925,22 @@ export const liveShows = mysqlTable("live_shows", {
   scheduledStartIdx: index("scheduled_start_idx").on(table.scheduledStartAt),
 }));
 
+// Per-creator RTMP keys, stored hashed; a creator has at most one active key
+export const streamKeys = mysqlTable("stream_keys", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  creatorId: int("creator_id").notNull().references(() => users.id),
+  keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+  keyPrefix: varchar("key_prefix", { length: 16 }).notNull(),
+  status: mysqlEnum("status", ["active", "rotated", "revoked"]).default("active").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: int("revoked_by"),
+  revokeReason: text("revoke_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  creatorStatusIdx: index("creator_status_idx").on(table.creatorId, table.status),
+}));
+
 export const liveShowProducts = mysqlTable("live_show_products", {
   id: varchar("id", { length: 64 }).primaryKey(),
   showId: varchar("show_id", { length: 64 }).notNull().references(() => liveShows.id),
@@ -1078,6 +1104,7 @@ export const moderationActions = mysqlTable("moderation_actions", {
 
 // Type exports for live streaming
 export type LiveShow = typeof liveShows.$inferSelect;
+export type StreamKey = typeof streamKeys.$inferSelect;
 export type LiveShowProduct = typeof liveShowProducts.$inferSelect;
 export type LiveViewer = typeof liveViewers.$inferSelect;
 export type LiveChatMessage = typeof liveChatMessages.$inferSelect;
@@ -1571,6 +1598,9 @@ export {
   liveShowSegments,
   livePriceDrops,
   liveHighlights,
+  liveShowCheckpoints,
+  showLifecycleStates,
+  showLifecycleEvents,
   priceBooks,
   priceBookEntries,
   promotions,
@@ -1598,8 +1628,10 @@ export {
   regionalInventory,
   ledgerAccounts,
   ledgerEntries,
+  ledgerPeriodCloses,
   creatorPayouts,
   creatorPayoutItems,
+  creatorPayoutDisputes,
   externalTransactions,
   reconciliationMatches,
   creatorBonuses,
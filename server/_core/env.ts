@@ -7,4 +7,7 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  rtmpIngestUrl: process.env.RTMP_INGEST_URL ?? "",
+  redisUrl: process.env.REDIS_URL ?? "",
+  rtmpHookSecret: process.env.RTMP_HOOK_SECRET ?? "",
 };
@@ -9,6 +9,10 @@ import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 import { initializeSubscriptionWebhooks } from "../subscription-webhooks";
 import { initializeAutonomousServices } from "../autonomous-init";
+import { resumeActiveShows } from "../lsn-live-orchestration-engine";
+import { ThreePLShipments } from "../fulfillment-providers/shipments";
+import { getHlsOutputDir, getLivePlaylist } from "../rtmp-ingestion";
+import { handleRtmpHook, verifyHookSecret } from "../stream-keys";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -41,16 +45,84 @@ async function startServer() {
       webhookService.processWebhook(req, res);
     }
   );
+
+  // 3PL status webhooks are signed over the raw body too
+  app.post(
+    "/api/webhooks/3pl/:providerId",
+    express.raw({ type: "*/*" }),
+    async (req, res) => {
+      const headers: Record<string, string | undefined> = {};
+      for (const [name, value] of Object.entries(req.headers)) {
+        headers[name] = Array.isArray(value) ? value.join(",") : value;
+      }
+      try {
+        const result = await ThreePLShipments.handleProviderWebhook(req.params.providerId, req.body.toString("utf8"), headers);
+        res.json(result);
+      } catch (error) {
+        console.error("[3PL Webhook] Rejected:", error);
+        res.status(400).json({ error: error instanceof Error ? error.message : "Invalid webhook" });
+      }
+    }
+  );
   
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+
+  // RTMP server publish hooks; anything but a 2xx refuses or drops the publisher
+  app.post("/api/rtmp/:hook", async (req, res) => {
+    const { hook } = req.params;
+    if (hook !== "on_publish" && hook !== "on_update" && hook !== "on_publish_done") {
+      res.status(404).end();
+      return;
+    }
+    if (!verifyHookSecret(req.query.secret)) {
+      res.status(401).end();
+      return;
+    }
+
+    try {
+      const decision = await handleRtmpHook(hook, req.body ?? {});
+      if (!decision.allowed) {
+        console.warn(`[RTMP Hook] ${hook} refused from ${req.body?.addr ?? "unknown"}: ${decision.reason}`);
+        res.status(403).send(decision.reason);
+        return;
+      }
+      res.status(200).send("OK");
+    } catch (error) {
+      console.error(`[RTMP Hook] ${hook} failed:`, error);
+      res.status(500).end();
+    }
+  });
   
   // Xero OAuth callback
   const { xeroCallbackRouter } = await import('../xero-callback');
   app.use(xeroCallbackRouter);
+  // HLS output; live media playlists are cut to the show's DVR window
+  app.get("/streams/:showId/:file", (req, res) => {
+    const { showId, file } = req.params;
+    if (!/^[\w-]+$/.test(showId) || !/^[\w-]+\.(m3u8|ts|m4s|mp4|mpd)$/.test(file)) {
+      res.status(404).end();
+      return;
+    }
+
+    const isPlaylist = file.endsWith(".m3u8") || file.endsWith(".mpd");
+    if (isPlaylist) {
+      res.setHeader("Cache-Control", "no-cache");
+    }
+
+    const dvrPlaylist = getLivePlaylist(showId, file);
+    if (dvrPlaylist !== null) {
+      res.type("application/vnd.apple.mpegurl").send(dvrPlaylist);
+      return;
+    }
+
+    res.sendFile(`${showId}/${file}`, { root: getHlsOutputDir() }, (error) => {
+      if (error && !res.headersSent) res.status(404).end();
+    });
+  });
   // tRPC API
   app.use(
     "/api/trpc",
@@ -80,6 +152,20 @@ async function startServer() {
     setTimeout(() => {
       initializeAutonomousServices();
     }, 1000);
+
+    // Pick up any shows that were live when the previous process stopped
+    resumeActiveShows()
+      .then((showIds) => {
+        if (showIds.length > 0) {
+          console.log(`Resumed ${showIds.length} live show(s): ${showIds.join(", ")}`);
+        }
+      })
+      .catch((error) => console.error("Failed to resume live shows:", error));
+
+    // Viewer-facing realtime channel (WEBSOCKET_PORT)
+    import("../websocket-server")
+      .then(({ initializeWebSocketServer }) => initializeWebSocketServer())
+      .catch((error) => console.error("Failed to start websocket server:", error));
   });
 }
 
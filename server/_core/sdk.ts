@@ -256,10 +256,17 @@ class SDKServer {
     } as GetUserInfoWithJwtResponse;
   }
 
-  async authenticateRequest(req: Request): Promise<User> {
+  async authenticateRequest(req: Pick<Request, "headers">): Promise<User> {
     // Regular authentication flow
     const cookies = this.parseCookies(req.headers.cookie);
-    const sessionCookie = cookies.get(COOKIE_NAME);
+    return this.authenticateSessionToken(cookies.get(COOKIE_NAME));
+  }
+
+  /**
+   * Authenticate a session token outside an HTTP request, e.g. one a
+   * websocket client sends after connecting
+   */
+  async authenticateSessionToken(sessionCookie: string | undefined): Promise<User> {
     const session = await this.verifySession(sessionCookie);
 
     if (!session) {
@@ -9,6 +9,10 @@ import cron from 'node-cron';
 import { sendDailySummaryEmail, sendAbandonedCartEmail } from './email-service';
 import { createAgentTask } from './agent-orchestrator';
 import { recordMetric, getMonitoringService } from './monitoring-service';
+import { workflowEngine } from './business-os/workflow-engine';
+import { disputeDeadlineScheduler } from './dispute-deadlines';
+import { getDb } from './db';
+import { createDbReservationStore, releaseExpiredHolds } from './inventory-reservations';
 
 interface ScheduledJob {
   name: string;
@@ -56,6 +60,42 @@ class AutonomousScheduler {
       }
     );
 
+    // Resume Business OS workflows whose approvals were decided - every 5 minutes
+    this.scheduleJob(
+      'workflow_approvals',
+      '*/5 * * * *',
+      async () => {
+        console.log('[Scheduler] Resuming paused workflow runs...');
+        const summary = await workflowEngine.resumePausedRuns();
+        console.log(`[Scheduler] Workflow runs resumed: ${summary.resumed}, still paused: ${summary.stillPaused}, failed: ${summary.failed}`);
+      }
+    );
+
+    // Release checkout reservations past their TTL - every minute
+    this.scheduleJob(
+      'inventory_reservations',
+      '* * * * *',
+      async () => {
+        const db = await getDb();
+        if (!db) return;
+        const released = await releaseExpiredHolds(createDbReservationStore(db));
+        if (released > 0) {
+          console.log(`[Scheduler] Released ${released} expired inventory reservation(s)`);
+        }
+      }
+    );
+
+    // Dispute evidence deadlines - every 15 minutes
+    this.scheduleJob(
+      'dispute_deadlines',
+      '*/15 * * * *',
+      async () => {
+        console.log('[Scheduler] Checking dispute evidence deadlines...');
+        const summary = await disputeDeadlineScheduler.runSweep();
+        console.log(`[Scheduler] Disputes submitted: ${summary.submitted}, escalated: ${summary.escalated}, missed: ${summary.missed}, failed: ${summary.failed}`);
+      }
+    );
+
     // Abandoned cart recovery - every hour
     this.scheduleJob(
       'abandoned_cart',
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+vi.mock("./business-os/db-wrapper", () => ({
+  db: { query: { agents: { findFirst: vi.fn() } } },
+  getDb: vi.fn(),
+}));
+vi.mock("./db", () => ({ getDb: vi.fn() }));
+vi.mock("./email-service", () => ({ sendEmail: vi.fn() }));
+
+import { db, getDb as getBusinessOsDb } from "./business-os/db-wrapper";
+import { getDb } from "./db";
+import { sendEmail } from "./email-service";
+import { registerBuiltInTools } from "./business-os/built-in-tools";
+import { toolRouter, type ToolContext } from "./business-os/tool-router";
+
+const dryRun: ToolContext = { agentId: "agent-1", taskId: "run-1", orgUnitId: "org-1", dryRun: true };
+
+describe("Built-in Tools", () => {
+  beforeAll(() => {
+    registerBuiltInTools();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.query.agents.findFirst).mockResolvedValue({
+      status: "active",
+      toolPermissions: ["orders:write", "purchasing:write", "pricing:write", "notifications:send"],
+    });
+  });
+
+  describe("dry runs", () => {
+    it("describes an order hold without writing it", async () => {
+      const result = await toolRouter.executeTool("order_manager", "block", { orderId: "order-1" }, dryRun);
+
+      expect(result).toMatchObject({ success: true, dryRun: true });
+      expect(result.effects).toEqual([
+        { kind: "order", change: "update", target: "order-1", data: { status: "cancelled" } },
+      ]);
+    });
+
+    it("stands in for a new PO so the supplier email can refer to it", async () => {
+      const po = await toolRouter.executeTool(
+        "purchasing",
+        "create_purchase_order",
+        { supplierId: "supplier-1", items: [{ productId: "product-1", quantity: 40, unitCost: 2.5 }] },
+        dryRun
+      );
+
+      expect(po.effects).toEqual([
+        {
+          kind: "purchase_order",
+          change: "create",
+          data: {
+            supplierId: "supplier-1",
+            totalAmount: "100.00",
+            items: [{ productId: "product-1", quantity: 40, unitCost: "2.50", totalCost: "100.00" }],
+          },
+        },
+      ]);
+
+      const email = await toolRouter.executeTool("notifications", "notify_supplier", po.result, dryRun);
+
+      expect(email.effects).toEqual([
+        {
+          kind: "email",
+          change: "send",
+          data: { supplierId: "supplier-1", purchaseOrderId: po.result.id, subject: "Purchase order PO-SIMULATED" },
+        },
+      ]);
+    });
+
+    it("describes one price update per product", async () => {
+      const result = await toolRouter.executeTool(
+        "pricing_engine",
+        "update_prices",
+        { prices: [{ productId: "product-1", price: 19 }, { productId: "product-2", price: 4.5 }] },
+        dryRun
+      );
+
+      expect(result.effects).toEqual([
+        { kind: "price", change: "update", target: "product-1", data: { price: "19.00" } },
+        { kind: "price", change: "update", target: "product-2", data: { price: "4.50" } },
+      ]);
+    });
+
+    it("rejects operations a tool does not have", async () => {
+      const result = await toolRouter.executeTool("order_manager", "refund", { orderId: "order-1" }, dryRun);
+
+      expect(result).toMatchObject({ success: false, error: "Tool 'order_manager' has no operation 'refund'" });
+    });
+
+    it("never touches the DB or sends email", async () => {
+      await toolRouter.executeTool("order_manager", "approve", { orderId: "order-1" }, dryRun);
+      await toolRouter.executeTool("purchasing", "cancel_purchase_order", { id: "po-1" }, dryRun);
+      await toolRouter.executeTool("notifications", "notify_supplier", { supplierId: "supplier-1" }, dryRun);
+
+      expect(getDb).not.toHaveBeenCalled();
+      expect(getBusinessOsDb).not.toHaveBeenCalled();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -5,11 +5,13 @@
  */
 
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { getDb } from "./business-os/db-wrapper";
 import {
   workflows,
   workflowRuns,
+  policies,
   approvals,
   incidents,
   decisions,
@@ -26,6 +28,15 @@ import { decisionEngine } from "./business-os/decision-engine";
 import { digitalTwin } from "./business-os/digital-twin";
 import { governor } from "./business-os/governor";
 import { evaluator } from "./business-os/evaluator";
+import { validatePolicyRules } from "./business-os/policy-language";
+
+const policyRuleSchema = z.object({
+  id: z.string(),
+  condition: z.string(),
+  action: z.enum(["allow", "deny", "require_approval"]),
+  priority: z.number(),
+  message: z.string().optional(),
+});
 
 export const businessOSRouter = router({
   // ============================================================================
@@ -104,11 +115,17 @@ export const businessOSRouter = router({
   getWorkflowRuns: protectedProcedure
     .input(z.object({
       workflowId: z.string(),
+      mode: z.enum(["live", "dry_run"]).optional(),
       limit: z.number().default(50),
     }))
     .query(async ({ input }) => {
+      const conditions = [eq(workflowRuns.workflowId, input.workflowId)];
+      if (input.mode) {
+        conditions.push(eq(workflowRuns.mode, input.mode));
+      }
+
       return await (await getDb()).query.workflowRuns.findMany({
-        where: eq(workflowRuns.workflowId, input.workflowId),
+        where: and(...conditions),
         orderBy: [desc(workflowRuns.startedAt)],
         limit: input.limit,
       });
@@ -122,6 +139,45 @@ export const businessOSRouter = router({
       return await workflowEngine.replayWorkflow(input.runId);
     }),
 
+  dryRunWorkflow: protectedProcedure
+    .input(z.object({
+      workflowId: z.string(),
+      inputs: z.record(z.string(), z.any()).default({}),
+      autonomyLevel: z.enum(["a0_manual", "a1_assisted", "a2_supervised", "a3_autonomous", "a4_self_optimizing"]).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      return await workflowEngine.dryRunWorkflow(input.workflowId, input.inputs, input.autonomyLevel);
+    }),
+
+  getDryRunReport: protectedProcedure
+    .input(z.object({
+      runId: z.string(),
+      windowHours: z.number().positive().max(24 * 14).optional(),
+    }))
+    .query(async ({ input }) => {
+      return await workflowEngine.getDryRunReport(input.runId, { windowHours: input.windowHours });
+    }),
+
+  listPausedRuns: protectedProcedure
+    .input(z.object({
+      limit: z.number().default(50),
+    }))
+    .query(async ({ input }) => {
+      return await (await getDb()).query.workflowRuns.findMany({
+        where: eq(workflowRuns.status, "paused"),
+        orderBy: [desc(workflowRuns.pausedAt)],
+        limit: input.limit,
+      });
+    }),
+
+  resumeWorkflowRun: protectedProcedure
+    .input(z.object({
+      runId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      return await workflowEngine.resumeWorkflowRun(input.runId);
+    }),
+
   updateWorkflowAutonomy: protectedProcedure
     .input(z.object({
       workflowId: z.string(),
@@ -139,6 +195,73 @@ export const businessOSRouter = router({
       return { success: true };
     }),
 
+  // ============================================================================
+  // Policies
+  // ============================================================================
+
+  listPolicies: protectedProcedure
+    .input(z.object({
+      status: z.enum(["active", "disabled"]).optional(),
+    }))
+    .query(async ({ input }) => {
+      return await (await getDb()).query.policies.findMany({
+        where: input.status ? eq(policies.status, input.status) : undefined,
+        orderBy: [desc(policies.updatedAt)],
+      });
+    }),
+
+  validatePolicy: protectedProcedure
+    .input(z.object({
+      rules: z.array(policyRuleSchema),
+    }))
+    .query(({ input }) => {
+      return { errors: validatePolicyRules(input.rules) };
+    }),
+
+  savePolicy: protectedProcedure
+    .input(z.object({
+      id: z.string().optional(),
+      name: z.string().min(1),
+      description: z.string().optional(),
+      orgUnitId: z.string().nullable().optional(),
+      scope: z.enum(["global", "org_unit", "workflow", "agent"]),
+      rules: z.array(policyRuleSchema).min(1),
+      status: z.enum(["active", "disabled"]).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const errors = validatePolicyRules(input.rules);
+      if (errors.length > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: errors.map(e => `${e.ruleId}: ${e.error}`).join("; "),
+        });
+      }
+
+      const id = await governor.savePolicy(input, ctx.user.openId);
+      return { id };
+    }),
+
+  dryRunPolicy: protectedProcedure
+    .input(z.object({
+      rules: z.array(policyRuleSchema).min(1),
+      orgUnitId: z.string().optional(),
+      limit: z.number().int().min(1).max(1000).default(100),
+    }))
+    .mutation(async ({ input }) => {
+      const errors = validatePolicyRules(input.rules);
+      if (errors.length > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: errors.map(e => `${e.ruleId}: ${e.error}`).join("; "),
+        });
+      }
+
+      return await governor.dryRunPolicy(input.rules, {
+        limit: input.limit,
+        orgUnitId: input.orgUnitId,
+      });
+    }),
+
   // ============================================================================
   // Approvals
   // ============================================================================
@@ -178,7 +301,10 @@ export const businessOSRouter = router({
         })
         .where(eq(approvals.id, input.approvalId));
 
-      return { success: true };
+      // Pick up the workflow run parked on this approval
+      const run = await workflowEngine.resumeRunForApproval(input.approvalId);
+
+      return { success: true, run };
     }),
 
   // ============================================================================
@@ -313,6 +439,35 @@ export const businessOSRouter = router({
       return prediction;
     }),
 
+  runBacktest: protectedProcedure
+    .input(z.object({
+      orgUnitId: z.string(),
+      from: z.date(),
+      to: z.date(),
+      scenarios: z.array(z.object({
+        at: z.date(),
+        changes: z.record(z.string(), z.number()),
+        duration: z.number().positive(),
+        description: z.string(),
+      })).optional(),
+      modelTypes: z.array(z.string()).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      if (input.from > input.to) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Backtest window starts after it ends",
+        });
+      }
+
+      return await digitalTwin.backtest(input.orgUnitId, {
+        from: input.from,
+        to: input.to,
+        scenarios: input.scenarios,
+        modelTypes: input.modelTypes,
+      });
+    }),
+
   // ============================================================================
   // Agents & Goals
   // ============================================================================
@@ -0,0 +1,255 @@
+/**
+ * Built-in Tools - The tools example workflows call to change the business
+ *
+ * Orders, purchase orders, prices and supplier emails. Each tool also
+ * declares `simulate`, so workflows that use it can be shadow-run: the
+ * simulation describes the write from its args alone and returns a stand-in
+ * for the result, without reading the DB or calling a provider.
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import crypto from "crypto";
+import { getDb } from "../db";
+import { sendEmail } from "../email-service";
+import { orders, products, purchaseOrderItems, purchaseOrders, suppliers } from "../../drizzle/schema";
+import { toolRouter, type ToolDefinition } from "./tool-router";
+import type { ToolSimulation } from "./tool-sandbox";
+
+interface PurchaseOrderRequest {
+  supplierId: string;
+  items: Array<{ productId: string; quantity: number; unitCost: number }>;
+  expectedDeliveryDate?: string;
+  notes?: string;
+}
+
+// Orders a fraud check can still stop
+const REVIEWABLE_ORDER_STATUSES = ["pending", "processing"] as const;
+
+const PURCHASING_OPERATIONS = ["create_purchase_order", "cancel_purchase_order"];
+
+const ORDER_STATUS_BY_OPERATION: Record<string, "cancelled" | "processing"> = {
+  block: "cancelled",
+  approve: "processing",
+};
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+function assertOperation(toolName: string, operation: string, operations: string[]) {
+  if (!operations.includes(operation)) {
+    throw new Error(`Tool '${toolName}' has no operation '${operation}'`);
+  }
+}
+
+function toAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+function planPurchaseOrder(request: PurchaseOrderRequest) {
+  if (!request?.supplierId || !request.items?.length) {
+    throw new Error("A purchase order needs a supplier and at least one item");
+  }
+
+  const items = request.items.map(item => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    unitCost: toAmount(item.unitCost),
+    totalCost: toAmount(item.quantity * item.unitCost),
+  }));
+  const totalAmount = toAmount(request.items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0));
+
+  return { supplierId: request.supplierId, items, totalAmount };
+}
+
+function planPriceChanges(args: { prices?: Array<{ productId: string; price: number }> }) {
+  if (!args?.prices?.length) {
+    throw new Error("No price changes given");
+  }
+  return args.prices.map(change => ({ productId: change.productId, price: toAmount(change.price) }));
+}
+
+function supplierEmail(purchaseOrder: { poNumber: string; totalAmount: string }) {
+  return {
+    subject: `Purchase order ${purchaseOrder.poNumber}`,
+    html: `<p>Please find our purchase order ${purchaseOrder.poNumber} for ${purchaseOrder.totalAmount}.</p>`,
+  };
+}
+
+const orderManager: ToolDefinition = {
+  name: "order_manager",
+  description: "Hold back or release orders after a fraud check",
+  requiredPermissions: ["orders:write"],
+  execute: async (args, _context, operation) => {
+    assertOperation("order_manager", operation, Object.keys(ORDER_STATUS_BY_OPERATION));
+    const status = ORDER_STATUS_BY_OPERATION[operation];
+    const db = await requireDb();
+
+    const [claim] = await db
+      .update(orders)
+      .set({ status })
+      .where(and(eq(orders.id, args.orderId), inArray(orders.status, [...REVIEWABLE_ORDER_STATUSES])));
+    if (claim.affectedRows === 0) {
+      throw new Error(`Order ${args.orderId} not found or already fulfilled`);
+    }
+
+    return { orderId: args.orderId, status };
+  },
+  simulate: async (args, _context, operation): Promise<ToolSimulation> => {
+    assertOperation("order_manager", operation, Object.keys(ORDER_STATUS_BY_OPERATION));
+    const status = ORDER_STATUS_BY_OPERATION[operation];
+    return {
+      effects: [{ kind: "order", change: "update", target: args.orderId, data: { status } }],
+      result: { orderId: args.orderId, status },
+    };
+  },
+};
+
+const purchasing: ToolDefinition = {
+  name: "purchasing",
+  description: "Raise and cancel supplier purchase orders",
+  requiredPermissions: ["purchasing:write"],
+  execute: async (args, _context, operation) => {
+    assertOperation("purchasing", operation, PURCHASING_OPERATIONS);
+    const db = await requireDb();
+
+    if (operation === "create_purchase_order") {
+      const plan = planPurchaseOrder(args as PurchaseOrderRequest);
+      const id = crypto.randomUUID();
+      const poNumber = `PO-${Date.now()}-${crypto.randomBytes(3).toString("hex").toUpperCase()}`;
+
+      await db.insert(purchaseOrders).values({
+        id,
+        supplierId: plan.supplierId,
+        poNumber,
+        status: "submitted",
+        totalAmount: plan.totalAmount,
+        expectedDeliveryDate: args.expectedDeliveryDate ? new Date(args.expectedDeliveryDate) : null,
+        notes: args.notes ?? null,
+      });
+      await db.insert(purchaseOrderItems).values(
+        plan.items.map(item => ({ id: crypto.randomUUID(), purchaseOrderId: id, ...item }))
+      );
+
+      return { id, poNumber, supplierId: plan.supplierId, totalAmount: plan.totalAmount, status: "submitted" };
+    }
+
+    await db.update(purchaseOrders).set({ status: "cancelled" }).where(eq(purchaseOrders.id, args.id));
+    return { id: args.id, status: "cancelled" };
+  },
+  simulate: async (args, _context, operation): Promise<ToolSimulation> => {
+    assertOperation("purchasing", operation, PURCHASING_OPERATIONS);
+
+    if (operation === "create_purchase_order") {
+      const plan = planPurchaseOrder(args as PurchaseOrderRequest);
+      // Stands in for the PO later steps (deposit, supplier email) refer to
+      const result = {
+        id: `simulated_${crypto.randomUUID()}`,
+        poNumber: "PO-SIMULATED",
+        supplierId: plan.supplierId,
+        totalAmount: plan.totalAmount,
+        status: "submitted",
+      };
+      return {
+        effects: [
+          {
+            kind: "purchase_order",
+            change: "create",
+            data: { supplierId: plan.supplierId, totalAmount: plan.totalAmount, items: plan.items },
+          },
+        ],
+        result,
+      };
+    }
+
+    return {
+      effects: [{ kind: "purchase_order", change: "update", target: args.id, data: { status: "cancelled" } }],
+      result: { id: args.id, status: "cancelled" },
+    };
+  },
+};
+
+const pricingEngine: ToolDefinition = {
+  name: "pricing_engine",
+  description: "Set product prices",
+  requiredPermissions: ["pricing:write"],
+  // Setting a price twice leaves the same price
+  retryable: true,
+  execute: async (args, _context, operation) => {
+    assertOperation("pricing_engine", operation, ["update_prices"]);
+    const changes = planPriceChanges(args);
+    const db = await requireDb();
+
+    for (const change of changes) {
+      await db.update(products).set({ price: change.price }).where(eq(products.id, change.productId));
+    }
+
+    return { updated: changes };
+  },
+  simulate: async (args, _context, operation): Promise<ToolSimulation> => {
+    assertOperation("pricing_engine", operation, ["update_prices"]);
+    const changes = planPriceChanges(args);
+    return {
+      effects: changes.map(change => ({
+        kind: "price",
+        change: "update",
+        target: change.productId,
+        data: { price: change.price },
+      })),
+      result: { updated: changes },
+    };
+  },
+};
+
+const notifications: ToolDefinition = {
+  name: "notifications",
+  description: "Email suppliers about purchase orders",
+  requiredPermissions: ["notifications:send"],
+  execute: async (args, _context, operation) => {
+    assertOperation("notifications", operation, ["notify_supplier"]);
+    const db = await requireDb();
+
+    const [supplier] = await db
+      .select({ contactEmail: suppliers.contactEmail })
+      .from(suppliers)
+      .where(eq(suppliers.id, args.supplierId))
+      .limit(1);
+    if (!supplier?.contactEmail) {
+      throw new Error(`Supplier ${args.supplierId} has no contact email`);
+    }
+
+    const email = supplierEmail(args);
+    const sent = await sendEmail({ to: supplier.contactEmail, ...email });
+    if (!sent) {
+      throw new Error(`Email to supplier ${args.supplierId} was not sent`);
+    }
+
+    return { to: supplier.contactEmail, subject: email.subject };
+  },
+  // The recipient is only known from the DB, so the effect has no target
+  simulate: async (args, _context, operation): Promise<ToolSimulation> => {
+    assertOperation("notifications", operation, ["notify_supplier"]);
+    const email = supplierEmail(args);
+    return {
+      effects: [
+        {
+          kind: "email",
+          change: "send",
+          data: { supplierId: args.supplierId, purchaseOrderId: args.id, subject: email.subject },
+        },
+      ],
+      result: { subject: email.subject },
+    };
+  },
+};
+
+/**
+ * Register the built-in tools with the router
+ */
+export function registerBuiltInTools() {
+  for (const tool of [orderManager, purchasing, pricingEngine, notifications]) {
+    toolRouter.registerTool(tool);
+  }
+}
@@ -4,12 +4,12 @@
  * Provides a consistent db interface for all Business OS components
  */
 
-import { drizzle } from "drizzle-orm/mysql2";
+import { drizzle, type MySql2Database } from "drizzle-orm/mysql2";
 import mysql from "mysql2/promise";
 import * as schema from "../../drizzle/schema";
 
 let connection: mysql.Connection | null = null;
-let dbInstance: ReturnType<typeof drizzle> | null = null;
+let dbInstance: MySql2Database<typeof schema> | null = null;
 
 export async function getDb() {
   if (dbInstance) return dbInstance;
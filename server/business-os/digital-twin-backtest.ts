@@ -0,0 +1,186 @@
+/**
+ * Digital Twin Backtest - Score simulation models against what happened
+ *
+ * Replays historical scenarios through each model's `predict` and compares
+ * the predicted state with the measured outcome. The resulting accuracy is
+ * used to weight models when the twin aggregates predictions.
+ */
+
+import type { BusinessState, Prediction, Scenario, SimulationModel } from "./digital-twin";
+
+// Weight for models that have never been backtested
+export const DEFAULT_MODEL_WEIGHT = 0.5;
+
+export interface BacktestCase {
+  id: string;
+  at: Date;
+  scenario: Scenario;
+  // State before the change and the state measured `scenario.duration` days later
+  baseline: BusinessState;
+  actual: Partial<BusinessState>;
+}
+
+export interface MetricError {
+  samples: number;
+  // Mean absolute error, in the metric's own units
+  mae: number;
+  // Mean absolute percentage error as a fraction; null when every actual was 0
+  mape: number | null;
+}
+
+export interface ModelBacktestResult {
+  modelType: string;
+  cases: number;
+  failures: number;
+  metrics: Record<string, MetricError>;
+  mape: number | null;
+  // 1 / (1 + mape), null until the model has been scored
+  accuracy: number | null;
+}
+
+export interface BacktestReport {
+  cases: number;
+  models: ModelBacktestResult[];
+}
+
+export interface ModelPrediction {
+  modelType: string;
+  prediction: Prediction;
+}
+
+/**
+ * Metrics a model actually made a call on. Models copy the baseline for
+ * everything they don't simulate, so unchanged metrics are neither scored
+ * nor averaged in.
+ */
+export function getPredictedMetrics(prediction: Prediction, baseline: BusinessState): string[] {
+  return Object.keys(prediction.metrics).filter(
+    key => typeof prediction.metrics[key] === "number" && prediction.metrics[key] !== baseline[key]
+  );
+}
+
+export async function runBacktest(models: SimulationModel[], cases: BacktestCase[]): Promise<BacktestReport> {
+  const results: ModelBacktestResult[] = [];
+
+  for (const model of models) {
+    const totals: Record<string, { samples: number; absError: number; pctSamples: number; pctError: number }> = {};
+    let scored = 0;
+    let failures = 0;
+
+    for (const testCase of cases) {
+      let prediction: Prediction;
+      try {
+        prediction = await model.predict(testCase.scenario, testCase.baseline);
+      } catch {
+        failures++;
+        continue;
+      }
+
+      let scoredCase = false;
+      for (const key of getPredictedMetrics(prediction, testCase.baseline)) {
+        const predicted = prediction.metrics[key];
+        const actual = testCase.actual[key];
+        if (!Number.isFinite(predicted) || typeof actual !== "number" || !Number.isFinite(actual)) continue;
+
+        const total = totals[key] ??= { samples: 0, absError: 0, pctSamples: 0, pctError: 0 };
+        const error = Math.abs(predicted - actual);
+        total.samples++;
+        total.absError += error;
+        if (actual !== 0) {
+          total.pctSamples++;
+          total.pctError += error / Math.abs(actual);
+        }
+        scoredCase = true;
+      }
+      if (scoredCase) scored++;
+    }
+
+    const metrics: Record<string, MetricError> = {};
+    const metricMapes: number[] = [];
+    for (const [key, total] of Object.entries(totals)) {
+      const mape = total.pctSamples > 0 ? total.pctError / total.pctSamples : null;
+      metrics[key] = { samples: total.samples, mae: total.absError / total.samples, mape };
+      if (mape !== null) metricMapes.push(mape);
+    }
+
+    const mape = metricMapes.length > 0
+      ? metricMapes.reduce((sum, value) => sum + value, 0) / metricMapes.length
+      : null;
+
+    results.push({
+      modelType: model.type,
+      cases: scored,
+      failures,
+      metrics,
+      mape,
+      accuracy: mape === null ? null : Math.round((1 / (1 + mape)) * 10000) / 10000,
+    });
+  }
+
+  return { cases: cases.length, models: results };
+}
+
+export function getModelWeights(
+  results: Array<Pick<ModelBacktestResult, "modelType" | "accuracy">>
+): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const result of results) {
+    weights[result.modelType] = result.accuracy ?? DEFAULT_MODEL_WEIGHT;
+  }
+  return weights;
+}
+
+/**
+ * Combine model predictions into one. Each metric is the accuracy-weighted
+ * mean of the models that predict it; everything else stays at baseline.
+ */
+export function weightedAggregate(
+  predictions: ModelPrediction[],
+  baseline: BusinessState,
+  weights: Record<string, number> = {}
+): Prediction {
+  if (predictions.length === 0) {
+    return {
+      metrics: baseline,
+      confidence: 0,
+      risks: ["No simulation models available"],
+      opportunities: [],
+    };
+  }
+
+  const weightOf = (modelType: string) => weights[modelType] ?? DEFAULT_MODEL_WEIGHT;
+  const sums: Record<string, { value: number; weight: number }> = {};
+  const risks: string[] = [];
+  const opportunities: string[] = [];
+  let confidence = 0;
+  let totalWeight = 0;
+
+  for (const { modelType, prediction } of predictions) {
+    const weight = weightOf(modelType);
+
+    for (const key of getPredictedMetrics(prediction, baseline)) {
+      const value = prediction.metrics[key];
+      if (!Number.isFinite(value)) continue;
+      const sum = sums[key] ??= { value: 0, weight: 0 };
+      sum.value += value * weight;
+      sum.weight += weight;
+    }
+
+    risks.push(...prediction.risks);
+    opportunities.push(...prediction.opportunities);
+    confidence += prediction.confidence * weight;
+    totalWeight += weight;
+  }
+
+  const metrics: BusinessState = { ...baseline };
+  for (const [key, sum] of Object.entries(sums)) {
+    if (sum.weight > 0) metrics[key] = sum.value / sum.weight;
+  }
+
+  return {
+    metrics,
+    confidence: totalWeight > 0 ? confidence / totalWeight : 0,
+    risks: [...new Set(risks)],
+    opportunities: [...new Set(opportunities)],
+  };
+}
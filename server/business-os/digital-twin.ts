@@ -5,9 +5,26 @@
  * Predicts impact before actions are executed.
  */
 
-import { db } from "./db-wrapper";
-import { simulations, simulationRuns, stateSnapshots } from "../../drizzle/business-os-schema";
-import { eq } from "drizzle-orm";
+import { getDb } from "./db-wrapper";
+import {
+  simulations,
+  simulationRuns,
+  stateSnapshots,
+  decisions,
+  orgUnits,
+  bosLedgerAccounts,
+  bosLedgerEntries,
+} from "../../drizzle/business-os-schema";
+import { orders } from "../../drizzle/schema";
+import { eq, and, gte, lt, lte, inArray, sql } from "drizzle-orm";
+import {
+  runBacktest,
+  getModelWeights,
+  weightedAggregate,
+  type BacktestCase,
+  type BacktestReport,
+  type ModelPrediction,
+} from "./digital-twin-backtest";
 
 export interface SimulationModel {
   type: "demand" | "inventory" | "creator" | "payout" | "fraud" | "pricing";
@@ -42,6 +59,24 @@ export interface Prediction {
   opportunities: string[];
 }
 
+/**
+ * A change that was made in the past, e.g. a price change, an ad spend
+ * increase or a new show schedule
+ */
+export interface HistoricalScenario extends Scenario {
+  at: Date;
+}
+
+export interface BacktestOptions {
+  from: Date;
+  to: Date;
+  // Defaults to the org unit's executed decisions in the window
+  scenarios?: HistoricalScenario[];
+  modelTypes?: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class DigitalTwin {
   private models: Map<string, SimulationModel> = new Map();
 
@@ -64,7 +99,7 @@ export class DigitalTwin {
     const baseline = await this.getBaselineState(orgUnitId);
 
     // Run simulations for each model
-    const predictions: Prediction[] = [];
+    const predictions: ModelPrediction[] = [];
     const modelsToRun = modelTypes || Array.from(this.models.keys());
 
     for (const modelType of modelsToRun) {
@@ -72,11 +107,11 @@ export class DigitalTwin {
       if (!model) continue;
 
       const prediction = await model.predict(scenario, baseline);
-      predictions.push(prediction);
+      predictions.push({ modelType, prediction });
     }
 
-    // Aggregate predictions
-    const aggregated = this.aggregatePredictions(predictions, baseline);
+    // Aggregate predictions, weighted by backtested accuracy
+    const aggregated = await this.aggregatePredictions(orgUnitId, predictions, baseline);
 
     // Store simulation run
     await this.storeSimulationRun(orgUnitId, scenario, aggregated);
@@ -88,68 +123,236 @@ export class DigitalTwin {
    * Get current baseline state
    */
   private async getBaselineState(orgUnitId: string): Promise<BusinessState> {
-    const latest = await db.query.stateSnapshots.findFirst({
+    const dbConn = await getDb();
+    const latest = await dbConn.query.stateSnapshots.findFirst({
       where: eq(stateSnapshots.orgUnitId, orgUnitId),
       orderBy: (stateSnapshots, { desc }) => [desc(stateSnapshots.timestamp)],
     });
 
     if (!latest) {
       // Return default state if no snapshots exist
-      return {
-        revenue: 0,
-        orders: 0,
-        cac: 0,
-        roas: 0,
-        refundRate: 0,
-        latency: 0,
-        stockCover: 0,
-        creatorQuality: 0,
-        disputeRate: 0,
-        cashPosition: 0,
-      };
+      return this.emptyState();
     }
 
     return latest.metrics as BusinessState;
   }
 
+  private emptyState(): BusinessState {
+    return {
+      revenue: 0,
+      orders: 0,
+      cac: 0,
+      roas: 0,
+      refundRate: 0,
+      latency: 0,
+      stockCover: 0,
+      creatorQuality: 0,
+      disputeRate: 0,
+      cashPosition: 0,
+    };
+  }
+
   /**
    * Aggregate predictions from multiple models
    */
-  private aggregatePredictions(predictions: Prediction[], baseline: BusinessState): Prediction {
-    if (predictions.length === 0) {
-      return {
-        metrics: baseline,
-        confidence: 0,
-        risks: ["No simulation models available"],
-        opportunities: [],
-      };
+  private async aggregatePredictions(
+    orgUnitId: string,
+    predictions: ModelPrediction[],
+    baseline: BusinessState
+  ): Promise<Prediction> {
+    const dbConn = await getDb();
+    const calibrated = await dbConn.query.simulations.findMany({
+      where: eq(simulations.orgUnitId, orgUnitId),
+    });
+
+    const weights = getModelWeights(
+      calibrated.map(simulation => ({
+        modelType: simulation.type,
+        accuracy: simulation.accuracy === null ? null : parseFloat(simulation.accuracy),
+      }))
+    );
+
+    return weightedAggregate(predictions, baseline, weights);
+  }
+
+  /**
+   * Backtest models against historical outcomes and store their accuracy
+   */
+  async backtest(orgUnitId: string, options: BacktestOptions): Promise<BacktestReport> {
+    const scenarios = options.scenarios ?? (await this.getHistoricalScenarios(orgUnitId, options.from, options.to));
+    const now = Date.now();
+
+    const cases: BacktestCase[] = [];
+    for (const [index, scenario] of scenarios.entries()) {
+      const windowMs = scenario.duration * DAY_MS;
+      const start = scenario.at.getTime();
+      // Outcome window hasn't finished yet
+      if (start + windowMs > now) continue;
+
+      cases.push({
+        id: `case_${index}`,
+        at: scenario.at,
+        scenario,
+        baseline: await this.measureState(orgUnitId, new Date(start - windowMs), scenario.at),
+        actual: await this.measureState(orgUnitId, scenario.at, new Date(start + windowMs)),
+      });
     }
 
-    // Average metrics across predictions
-    const metrics: BusinessState = { ...baseline };
-    const allRisks: string[] = [];
-    const allOpportunities: string[] = [];
-    let totalConfidence = 0;
+    const modelTypes = options.modelTypes || Array.from(this.models.keys());
+    const models = modelTypes
+      .map(modelType => this.models.get(modelType))
+      .filter((model): model is SimulationModel => !!model);
+
+    const report = await runBacktest(models, cases);
+
+    for (const result of report.models) {
+      if (result.accuracy === null) continue;
+      await this.storeModelAccuracy(orgUnitId, models.find(m => m.type === result.modelType)!, result.accuracy, {
+        from: options.from.toISOString(),
+        to: options.to.toISOString(),
+        cases: result.cases,
+        mape: result.mape,
+        metrics: result.metrics,
+      });
+    }
 
-    for (const pred of predictions) {
-      for (const [key, value] of Object.entries(pred.metrics)) {
-        if (typeof value === "number") {
-          metrics[key] = (metrics[key] || 0) + value / predictions.length;
-        }
+    return report;
+  }
+
+  /**
+   * Changes made by executed decisions in the window
+   */
+  private async getHistoricalScenarios(orgUnitId: string, from: Date, to: Date): Promise<HistoricalScenario[]> {
+    const dbConn = await getDb();
+    const executed = await dbConn.query.decisions.findMany({
+      where: and(
+        eq(decisions.orgUnitId, orgUnitId),
+        eq(decisions.status, "executed"),
+        gte(decisions.createdAt, from),
+        lte(decisions.createdAt, to)
+      ),
+    });
+
+    const scenarios: HistoricalScenario[] = [];
+    for (const decision of executed) {
+      const option = (decision.options as any[]).find(o => o.id === decision.selectedOption);
+      if (!option) continue;
+
+      const changes: Record<string, number> = {};
+      for (const [key, value] of Object.entries(option.action ?? {})) {
+        if (typeof value === "number") changes[key] = value;
       }
-      allRisks.push(...pred.risks);
-      allOpportunities.push(...pred.opportunities);
-      totalConfidence += pred.confidence;
+      if (Object.keys(changes).length === 0) continue;
+
+      scenarios.push({
+        at: decision.createdAt,
+        changes,
+        duration: 7,
+        description: `${decision.type} (${decision.id})`,
+      });
     }
 
+    return scenarios;
+  }
+
+  /**
+   * Business state over a window: order volume, revenue and refunds from
+   * orders, cash from the ledger, and the latest snapshot for the rest
+   */
+  private async measureState(orgUnitId: string, start: Date, end: Date): Promise<BusinessState> {
+    const dbConn = await getDb();
+
+    const snapshot = await dbConn.query.stateSnapshots.findFirst({
+      where: and(eq(stateSnapshots.orgUnitId, orgUnitId), lt(stateSnapshots.timestamp, end)),
+      orderBy: (stateSnapshots, { desc }) => [desc(stateSnapshots.timestamp)],
+    });
+
+    const orgUnit = await dbConn.query.orgUnits.findFirst({
+      where: eq(orgUnits.id, orgUnitId),
+    });
+    const channelIds: string[] | undefined = orgUnit?.settings?.channelIds;
+
+    const orderConditions = [gte(orders.createdAt, start), lt(orders.createdAt, end)];
+    if (channelIds?.length) orderConditions.push(inArray(orders.channelId, channelIds));
+
+    const [orderTotals] = await dbConn
+      .select({
+        count: sql<number>`count(*)`,
+        revenue: sql<string>`coalesce(sum(${orders.total}), 0)`,
+        refunded: sql<number>`sum(case when ${orders.status} = 'refunded' then 1 else 0 end)`,
+      })
+      .from(orders)
+      .where(and(...orderConditions));
+
+    const [cash] = await dbConn
+      .select({
+        balance: sql<string>`coalesce(sum(case when ${bosLedgerEntries.type} = 'debit' then ${bosLedgerEntries.amount} else -${bosLedgerEntries.amount} end), 0)`,
+      })
+      .from(bosLedgerEntries)
+      .innerJoin(bosLedgerAccounts, eq(bosLedgerEntries.accountId, bosLedgerAccounts.id))
+      .where(
+        and(
+          eq(bosLedgerAccounts.orgUnitId, orgUnitId),
+          eq(bosLedgerAccounts.type, "asset"),
+          lt(bosLedgerEntries.createdAt, end)
+        )
+      );
+
+    const orderCount = Number(orderTotals?.count ?? 0);
+
     return {
-      metrics,
-      confidence: totalConfidence / predictions.length,
-      risks: [...new Set(allRisks)],
-      opportunities: [...new Set(allOpportunities)],
+      ...this.emptyState(),
+      ...(snapshot?.metrics as BusinessState | undefined),
+      orders: orderCount,
+      revenue: parseFloat(orderTotals?.revenue ?? "0"),
+      refundRate: orderCount > 0 ? Number(orderTotals?.refunded ?? 0) / orderCount : 0,
+      cashPosition: parseFloat(cash?.balance ?? "0"),
     };
   }
 
+  /**
+   * Store a model's backtested accuracy for later aggregation
+   */
+  private async storeModelAccuracy(
+    orgUnitId: string,
+    model: SimulationModel,
+    accuracy: number,
+    backtest: Record<string, any>
+  ) {
+    const id = `sim_${orgUnitId}_${model.type}`;
+    const dbConn = await getDb();
+    const existing = await dbConn.query.simulations.findFirst({
+      where: eq(simulations.id, id),
+    });
+
+    if (existing) {
+      await dbConn
+        .update(simulations)
+        .set({
+          accuracy: accuracy.toString(),
+          lastCalibrated: new Date(),
+          modelConfig: { ...model.config, backtest },
+          updatedAt: new Date(),
+        })
+        .where(eq(simulations.id, id));
+      return;
+    }
+
+    await dbConn.insert(simulations).values({
+      id,
+      name: `${model.type} model`,
+      type: model.type,
+      orgUnitId,
+      modelConfig: { ...model.config, backtest },
+      baselineState: {},
+      status: "active",
+      accuracy: accuracy.toString(),
+      lastCalibrated: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
   /**
    * Store simulation run
    */
@@ -158,11 +361,12 @@ export class DigitalTwin {
     scenario: Scenario,
     prediction: Prediction
   ) {
-    await db.insert(simulationRuns).values({
+    const dbConn = await getDb();
+    await dbConn.insert(simulationRuns).values({
       id: this.generateId(),
       simulationId: `sim_${orgUnitId}`,
-      scenario: scenario as any,
-      predictions: prediction.metrics as any,
+      scenario,
+      predictions: prediction.metrics,
       confidence: prediction.confidence.toString(),
       runAt: new Date(),
       createdAt: new Date(),
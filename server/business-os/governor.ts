@@ -5,9 +5,16 @@
  * Ensures money safety, compliance, and risk management.
  */
 
-import { db } from "./db-wrapper";
-import { policies, approvals, incidents } from "../../drizzle/business-os-schema";
-import { eq, and } from "drizzle-orm";
+import { db, getDb } from "./db-wrapper";
+import { policies, policyChecks, approvals, incidents } from "../../drizzle/business-os-schema";
+import { eq, and, desc } from "drizzle-orm";
+import {
+  dryRunPolicyRules,
+  evaluatePolicyRules,
+  validatePolicyRules,
+  type PolicyDryRunResult,
+  type PolicyOutcome,
+} from "./policy-language";
 
 export interface PolicyRule {
   id: string;
@@ -33,36 +40,54 @@ export interface PolicyResult {
   violatedRules?: PolicyRule[];
 }
 
+export interface PolicyDefinition {
+  id?: string;
+  name: string;
+  description?: string;
+  orgUnitId?: string | null;
+  scope: "global" | "org_unit" | "workflow" | "agent";
+  rules: PolicyRule[];
+  status?: "active" | "disabled";
+}
+
+export type ApprovalState = "pending" | "approved" | "rejected" | "expired";
+
 export class Governor {
   /**
-   * Check if action is allowed by policies
+   * Check if action is allowed by policies. Dry runs only evaluate: no
+   * check is recorded and no incident or approval request is raised.
    */
-  async checkPolicy(context: PolicyContext): Promise<PolicyResult> {
+  async checkPolicy(context: PolicyContext, options: { dryRun?: boolean } = {}): Promise<PolicyResult> {
     try {
       // 1. Load applicable policies
       const applicablePolicies = await this.loadPolicies(context);
 
       // 2. Evaluate each policy rule
       const violations: PolicyRule[] = [];
+      const matchedRuleIds: string[] = [];
       let requiresApproval = false;
 
       for (const policy of applicablePolicies) {
-        for (const rule of policy.rules) {
-          const evaluation = await this.evaluateRule(rule, context);
-
-          if (evaluation.matches) {
-            if (rule.action === "deny") {
-              violations.push(rule);
-            } else if (rule.action === "require_approval") {
-              requiresApproval = true;
-            }
-          }
+        const evaluation = evaluatePolicyRules(policy.rules, context);
+
+        violations.push(...evaluation.violations);
+        matchedRuleIds.push(...evaluation.matched.map(rule => `${policy.id}/${rule.id}`));
+        if (evaluation.approvalRules.length > 0) {
+          requiresApproval = true;
         }
       }
 
+      const outcome: PolicyOutcome =
+        violations.length > 0 ? "deny" : requiresApproval ? "require_approval" : "allow";
+      if (!options.dryRun) {
+        await this.recordPolicyCheck(context, outcome, matchedRuleIds);
+      }
+
       // 3. If violations found, deny immediately
       if (violations.length > 0) {
-        await this.createIncident(context, violations);
+        if (!options.dryRun) {
+          await this.createIncident(context, violations);
+        }
         return {
           allowed: false,
           requiresApproval: false,
@@ -73,7 +98,7 @@ export class Governor {
 
       // 4. If approval required, create approval request
       if (requiresApproval) {
-        const approvalId = await this.createApprovalRequest(context);
+        const approvalId = options.dryRun ? undefined : await this.createApprovalRequest(context);
         return {
           allowed: false,
           requiresApproval: true,
@@ -101,7 +126,8 @@ export class Governor {
    * Load applicable policies for context
    */
   private async loadPolicies(context: PolicyContext) {
-    const allPolicies = await db.query.policies.findMany({
+    const dbConn = await getDb();
+    const allPolicies = await dbConn.query.policies.findMany({
       where: eq(policies.status, "active"),
     });
 
@@ -115,112 +141,136 @@ export class Governor {
   }
 
   /**
-   * Evaluate a single policy rule
+   * Record the context and outcome of a check so draft policies can be
+   * replayed against real traffic. Never blocks the check itself.
    */
-  private async evaluateRule(
-    rule: PolicyRule,
-    context: PolicyContext
-  ): Promise<{ matches: boolean }> {
+  private async recordPolicyCheck(context: PolicyContext, outcome: PolicyOutcome, matchedRuleIds: string[]) {
     try {
-      // Parse condition (simple expression evaluation)
-      const matches = this.evaluateCondition(rule.condition, context);
-      return { matches };
-    } catch (error) {
-      // Fail closed - treat evaluation errors as matches for deny rules
-      return { matches: rule.action === "deny" };
+      const dbConn = await getDb();
+      await dbConn.insert(policyChecks).values({
+        id: this.generateId(),
+        orgUnitId: context.orgUnitId || null,
+        agentId: context.agentId || null,
+        workflowId: context.workflowId || null,
+        action: context.action,
+        data: context.data,
+        outcome,
+        matchedRuleIds,
+        createdAt: new Date(),
+      });
+    } catch (error: any) {
+      console.error("[Governor] Failed to record policy check:", error.message);
     }
   }
 
   /**
-   * Evaluate condition expression
-   * 
-   * Supports simple expressions like:
-   * - "data.amount > 1000"
-   * - "data.cashRunway < 30"
-   * - "data.riskScore > 0.7"
-   * - "data.marginPercent < 0.15"
+   * Create or update a policy. Rule conditions are parsed first so a broken
+   * condition can't be saved (it would otherwise fail closed on every check).
    */
-  private evaluateCondition(condition: string, context: PolicyContext): boolean {
-    try {
-      // Create safe evaluation context
-      const safeContext = {
-        data: context.data,
-        action: context.action,
-        orgUnitId: context.orgUnitId,
-        agentId: context.agentId,
-      };
-
-      // Simple expression parser (production would use a proper DSL parser)
-      const operators = [">=", "<=", ">", "<", "==", "!="];
-      let operator = "";
-      let parts: string[] = [];
-
-      for (const op of operators) {
-        if (condition.includes(op)) {
-          operator = op;
-          parts = condition.split(op).map(p => p.trim());
-          break;
-        }
-      }
+  async savePolicy(definition: PolicyDefinition, savedBy: string): Promise<string> {
+    this.assertValidRules(definition.rules);
+
+    const dbConn = await getDb();
+    const existing = definition.id
+      ? await dbConn.query.policies.findFirst({ where: eq(policies.id, definition.id) })
+      : undefined;
+
+    if (existing) {
+      await dbConn
+        .update(policies)
+        .set({
+          name: definition.name,
+          description: definition.description,
+          orgUnitId: definition.orgUnitId ?? null,
+          scope: definition.scope,
+          rules: definition.rules,
+          status: definition.status || existing.status,
+          version: existing.version + 1,
+          updatedAt: new Date(),
+        })
+        .where(eq(policies.id, existing.id));
+      return existing.id;
+    }
 
-      if (!operator || parts.length !== 2) {
-        return false;
-      }
+    const id = definition.id || `pol_${this.generateId()}`;
+    await dbConn.insert(policies).values({
+      id,
+      name: definition.name,
+      description: definition.description,
+      orgUnitId: definition.orgUnitId ?? null,
+      scope: definition.scope,
+      rules: definition.rules,
+      status: definition.status || "disabled",
+      version: 1,
+      createdBy: savedBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    return id;
+  }
 
-      const left = this.resolveValue(parts[0], safeContext);
-      const right = this.resolveValue(parts[1], safeContext);
-
-      switch (operator) {
-        case ">": return left > right;
-        case "<": return left < right;
-        case ">=": return left >= right;
-        case "<=": return left <= right;
-        case "==": return left == right;
-        case "!=": return left != right;
-        default: return false;
-      }
-    } catch (error) {
-      return false;
+  private assertValidRules(rules: PolicyRule[]) {
+    const errors = validatePolicyRules(rules);
+    if (errors.length > 0) {
+      throw new Error(`Invalid policy conditions: ${errors.map(e => `${e.ruleId}: ${e.error}`).join("; ")}`);
     }
   }
 
   /**
-   * Resolve value from context or literal
+   * Replay the last N recorded policy checks through draft rules, without
+   * creating incidents or approvals
    */
-  private resolveValue(expr: string, context: any): any {
-    // If it's a number, return it
-    if (!isNaN(Number(expr))) {
-      return Number(expr);
-    }
+  async dryRunPolicy(
+    rules: PolicyRule[],
+    options: { limit?: number; orgUnitId?: string } = {}
+  ): Promise<PolicyDryRunResult> {
+    this.assertValidRules(rules);
+
+    const checks = await db.query.policyChecks.findMany({
+      where: options.orgUnitId ? eq(policyChecks.orgUnitId, options.orgUnitId) : undefined,
+      orderBy: [desc(policyChecks.createdAt)],
+      limit: options.limit ?? 100,
+    });
 
-    // If it's a string literal, return it
-    if (expr.startsWith('"') || expr.startsWith("'")) {
-      return expr.slice(1, -1);
-    }
+    return dryRunPolicyRules(
+      rules,
+      checks.map((check: any) => ({
+        id: check.id,
+        context: {
+          orgUnitId: check.orgUnitId ?? undefined,
+          agentId: check.agentId ?? undefined,
+          workflowId: check.workflowId ?? undefined,
+          action: check.action,
+          data: check.data,
+        },
+        outcome: check.outcome,
+        checkedAt: check.createdAt,
+      }))
+    );
+  }
 
-    // Otherwise, resolve from context
-    const parts = expr.split(".");
-    let value = context;
-    for (const part of parts) {
-      value = value?.[part];
-    }
-    return value;
+  /**
+   * Ask the founder to approve an action outside of a policy rule
+   */
+  async requestApproval(context: PolicyContext, reason?: string): Promise<string> {
+    return this.createApprovalRequest(context, reason);
   }
 
   /**
    * Create approval request
    */
-  private async createApprovalRequest(context: PolicyContext): Promise<string> {
+  private async createApprovalRequest(context: PolicyContext, reason?: string): Promise<string> {
     const approvalId = this.generateId();
 
-    await db.insert(approvals).values({
+    const dbConn = await getDb();
+    await dbConn.insert(approvals).values({
       id: approvalId,
       type: "action",
       entityId: context.workflowId || context.agentId || "unknown",
       requestedBy: context.agentId || "system",
       approverRole: "founder",
       status: "pending",
-      reason: `Action requires approval: ${context.action}`,
+      reason: reason || `Action requires approval: ${context.action}`,
       context: context.data,
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
       createdAt: new Date(),
@@ -233,7 +283,8 @@ export class Governor {
    * Create incident for policy violation
    */
   private async createIncident(context: PolicyContext, violations: PolicyRule[]) {
-    await db.insert(incidents).values({
+    const dbConn = await getDb();
+    await dbConn.insert(incidents).values({
       id: this.generateId(),
       severity: "high",
       type: "policy_violation",
@@ -258,6 +309,22 @@ export class Governor {
     return approval?.status === "approved";
   }
 
+  /**
+   * Current state of an approval request. Pending requests past their
+   * expiry count as expired; unknown ids count as rejected.
+   */
+  async getApprovalState(approvalId: string, now: Date = new Date()): Promise<ApprovalState> {
+    const approval = await db.query.approvals.findFirst({
+      where: eq(approvals.id, approvalId),
+    });
+
+    if (!approval) return "rejected";
+    if (approval.status === "approved") return "approved";
+    if (approval.status === "rejected" || approval.status === "cancelled") return "rejected";
+    if (approval.expiresAt && approval.expiresAt.getTime() <= now.getTime()) return "expired";
+    return "pending";
+  }
+
   /**
    * Built-in safety policies (always active)
    */
@@ -359,13 +426,14 @@ export class Governor {
       },
     ];
 
+    const dbConn = await getDb();
     for (const policy of builtInPolicies) {
-      const existing = await db.query.policies.findFirst({
+      const existing = await dbConn.query.policies.findFirst({
         where: eq(policies.id, policy.id),
       });
 
       if (!existing) {
-        await db.insert(policies).values(policy);
+        await dbConn.insert(policies).values(policy);
       }
     }
   }
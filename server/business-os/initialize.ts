@@ -1,7 +1,7 @@
 /**
  * Business OS Initialization
  * 
- * Sets up built-in policies, models, criteria, and workflows
+ * Sets up built-in policies, models, criteria, tools, and workflows
  */
 
 import { governor } from "./governor";
@@ -9,6 +9,7 @@ import { evaluator } from "./evaluator";
 import { digitalTwin } from "./digital-twin";
 import { decisionEngine } from "./decision-engine";
 import { workflowEngine } from "./workflow-engine";
+import { registerBuiltInTools } from "./built-in-tools";
 
 /**
  * Initialize all Business OS components
@@ -33,7 +34,11 @@ export async function initializeBusinessOS() {
     console.log("[Business OS] Loading decision types...");
     decisionEngine.initializeBuiltInDecisions();
 
-    // 5. Register example workflows
+    // 5. Register the tools workflows call
+    console.log("[Business OS] Registering tools...");
+    registerBuiltInTools();
+
+    // 6. Register example workflows
     console.log("[Business OS] Registering workflows...");
     await registerExampleWorkflows();
 
@@ -303,4 +308,66 @@ async function registerExampleWorkflows() {
       },
     ],
   });
+
+  // Supplier purchase order workflow (saga: a failed step undoes the earlier ones)
+  await workflowEngine.registerWorkflow({
+    name: "supplier_purchase_order",
+    description: "Raise a PO, pay the deposit and notify the supplier, rolling back on failure",
+    type: "purchasing",
+    orgUnitId: "lsn_main",
+    autonomyLevel: "a2_supervised",
+    triggerEvents: ["inventory.reorder_approved"],
+    steps: [
+      {
+        id: "create_po",
+        name: "Create Purchase Order",
+        type: "tool_call",
+        config: {
+          toolName: "purchasing",
+          operation: "create_purchase_order",
+          args: "$poRequest",
+          outputKey: "purchaseOrder",
+        },
+        retryPolicy: { maxAttempts: 3, backoff: "exponential", initialDelayMs: 1000 },
+        timeoutMs: 30000,
+        compensation: {
+          toolName: "purchasing",
+          operation: "cancel_purchase_order",
+          args: "$purchaseOrder",
+        },
+      },
+      {
+        id: "charge_deposit",
+        name: "Charge Deposit",
+        type: "tool_call",
+        config: {
+          toolName: "payment_processor",
+          operation: "charge_deposit",
+          args: "$purchaseOrder",
+          outputKey: "deposit",
+        },
+        // Only retry timeouts; a declined charge must not be retried blindly
+        retryPolicy: { maxAttempts: 3, backoff: "exponential", initialDelayMs: 2000, retryOn: ["timeout"] },
+        timeoutMs: 30000,
+        compensation: {
+          toolName: "payment_processor",
+          operation: "refund_deposit",
+          args: "$deposit",
+          retryPolicy: { maxAttempts: 5, backoff: "exponential", initialDelayMs: 2000 },
+        },
+      },
+      {
+        id: "notify_supplier",
+        name: "Notify Supplier",
+        type: "tool_call",
+        config: {
+          toolName: "notifications",
+          operation: "notify_supplier",
+          args: "$purchaseOrder",
+        },
+        retryPolicy: { maxAttempts: 5, backoff: "exponential", initialDelayMs: 2000, maxDelayMs: 60000 },
+        timeoutMs: 15000,
+      },
+    ],
+  });
 }
@@ -0,0 +1,833 @@
+/**
+ * Policy Language - Sandboxed expressions for governor rule conditions
+ *
+ * Conditions are parsed into a small AST and interpreted; nothing is handed to
+ * eval, and only the policy context, literals and the helpers below are
+ * reachable. Examples:
+ *
+ *   data.amount > 1000 && data.channel == "tiktok"
+ *   data.country not in ["AU", "NZ"] || (data.riskScore ?? 0) > 0.7
+ *   data.refund.amount > data.order.total * 0.5
+ *   daysSince(data.customer.createdAt) < 30 && hourOf(now()) < 6
+ *
+ * Paths are null-safe: a missing property reads as null instead of throwing,
+ * and comparisons against null are false (except == / != null).
+ * Dates are handled as epoch milliseconds.
+ */
+
+import type { PolicyContext, PolicyRule } from "./governor";
+
+export type PolicyValue = null | boolean | number | string | PolicyValue[] | { [key: string]: PolicyValue };
+
+type BinaryOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "+" | "-" | "*" | "/" | "%";
+
+export type PolicyExpression =
+  | { type: "literal"; value: PolicyValue }
+  | { type: "list"; items: PolicyExpression[] }
+  | { type: "identifier"; name: string }
+  | { type: "member"; object: PolicyExpression; property: PolicyExpression }
+  | { type: "call"; name: string; args: PolicyExpression[] }
+  | { type: "unary"; operator: "!" | "-"; operand: PolicyExpression }
+  | { type: "binary"; operator: BinaryOperator; left: PolicyExpression; right: PolicyExpression }
+  | { type: "logical"; operator: "&&" | "||" | "??"; left: PolicyExpression; right: PolicyExpression }
+  | { type: "in"; negated: boolean; left: PolicyExpression; right: PolicyExpression };
+
+export interface PolicyEvaluationOptions {
+  // Clock for now() and the date helpers; replays pass the original check time
+  now?: Date;
+}
+
+export type PolicyOutcome = "allow" | "deny" | "require_approval";
+
+export interface PolicyRuleEvaluation {
+  outcome: PolicyOutcome;
+  matched: PolicyRule[];
+  violations: PolicyRule[];
+  approvalRules: PolicyRule[];
+  errors: Array<{ ruleId: string; error: string }>;
+}
+
+// Roots a condition may read from; mirrors PolicyContext
+export const POLICY_ROOTS = ["data", "action", "orgUnitId", "agentId", "workflowId"] as const;
+
+const MAX_EXPRESSION_LENGTH = 4000;
+const MAX_NESTING = 40;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const BLOCKED_PROPERTIES = new Set(["__proto__", "prototype", "constructor"]);
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type TokenType = "number" | "string" | "identifier" | "operator" | "punctuation" | "end";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+// Longest first so "<=" wins over "<"
+const OPERATORS = ["?.", "??", "&&", "||", "==", "!=", "<=", ">=", "<", ">", "+", "-", "*", "/", "%", "!"];
+const PUNCTUATION = new Set(["(", ")", "[", "]", ",", "."]);
+
+function syntaxError(message: string, position: number): Error {
+  return new Error(`${message} at position ${position + 1}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === "\\" && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          j += 2;
+        } else {
+          value += source[j++];
+        }
+      }
+      if (j >= source.length) throw syntaxError("Unterminated string", i);
+      tokens.push({ type: "string", value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      tokens.push({ type: "punctuation", value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === "=") {
+      throw syntaxError('Unexpected "=", use "==" to compare', i);
+    }
+    throw syntaxError(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: "end", value: "", position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+interface HelperDefinition {
+  minArgs: number;
+  maxArgs: number;
+  fn: (args: PolicyValue[], now: number) => PolicyValue;
+}
+
+const toNumber = (value: PolicyValue): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+// Epoch millis from a number or date string
+const toTime = (value: PolicyValue): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") {
+    const time = Date.parse(value);
+    return isNaN(time) ? null : time;
+  }
+  return null;
+};
+
+const numeric = (fn: (...values: number[]) => number) => (args: PolicyValue[]) => {
+  const values = args.map(toNumber);
+  return values.some(value => value === null) ? null : fn(...(values as number[]));
+};
+
+const HELPERS: Record<string, HelperDefinition> = {
+  // Dates
+  now: { minArgs: 0, maxArgs: 0, fn: (_, now) => now },
+  date: { minArgs: 1, maxArgs: 1, fn: ([value]) => toTime(value) },
+  daysAgo: { minArgs: 1, maxArgs: 1, fn: ([days], now) => (toNumber(days) === null ? null : now - (toNumber(days) as number) * DAY_MS) },
+  hoursAgo: { minArgs: 1, maxArgs: 1, fn: ([hours], now) => (toNumber(hours) === null ? null : now - (toNumber(hours) as number) * HOUR_MS) },
+  daysSince: {
+    minArgs: 1,
+    maxArgs: 1,
+    fn: ([value], now) => {
+      const time = toTime(value);
+      return time === null ? null : (now - time) / DAY_MS;
+    },
+  },
+  daysBetween: {
+    minArgs: 2,
+    maxArgs: 2,
+    fn: ([from, to]) => {
+      const start = toTime(from);
+      const end = toTime(to);
+      return start === null || end === null ? null : (end - start) / DAY_MS;
+    },
+  },
+  // UTC hour (0-23) and weekday (0 = Sunday)
+  hourOf: {
+    minArgs: 1,
+    maxArgs: 1,
+    fn: ([value]) => {
+      const time = toTime(value);
+      return time === null ? null : new Date(time).getUTCHours();
+    },
+  },
+  dayOfWeek: {
+    minArgs: 1,
+    maxArgs: 1,
+    fn: ([value]) => {
+      const time = toTime(value);
+      return time === null ? null : new Date(time).getUTCDay();
+    },
+  },
+
+  // Strings and lists
+  len: {
+    minArgs: 1,
+    maxArgs: 1,
+    fn: ([value]) => {
+      if (typeof value === "string" || Array.isArray(value)) return value.length;
+      if (value && typeof value === "object") return Object.keys(value).length;
+      return null;
+    },
+  },
+  lower: { minArgs: 1, maxArgs: 1, fn: ([value]) => (typeof value === "string" ? value.toLowerCase() : null) },
+  upper: { minArgs: 1, maxArgs: 1, fn: ([value]) => (typeof value === "string" ? value.toUpperCase() : null) },
+  startsWith: {
+    minArgs: 2,
+    maxArgs: 2,
+    fn: ([value, prefix]) => typeof value === "string" && typeof prefix === "string" && value.startsWith(prefix),
+  },
+  endsWith: {
+    minArgs: 2,
+    maxArgs: 2,
+    fn: ([value, suffix]) => typeof value === "string" && typeof suffix === "string" && value.endsWith(suffix),
+  },
+
+  // Numbers
+  abs: { minArgs: 1, maxArgs: 1, fn: numeric(Math.abs) },
+  round: { minArgs: 1, maxArgs: 1, fn: numeric(Math.round) },
+  min: { minArgs: 1, maxArgs: 20, fn: numeric(Math.min) },
+  max: { minArgs: 1, maxArgs: 20, fn: numeric(Math.max) },
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): PolicyExpression {
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw syntaxError(`Unexpected "${token.value}"`, token.position);
+    }
+    return expression;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(...values: string[]): boolean {
+    const token = this.peek();
+    return token.type === "operator" && values.includes(token.value);
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === "punctuation" && token.value === value;
+  }
+
+  private isKeyword(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === "identifier" && token.value === value;
+  }
+
+  private expectPunctuation(value: string) {
+    const token = this.next();
+    if (token.type !== "punctuation" || token.value !== value) {
+      throw syntaxError(
+        token.type === "end" ? `Expected "${value}" but the expression ended` : `Expected "${value}" but found "${token.value}"`,
+        token.position
+      );
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_NESTING) {
+      throw syntaxError("Expression is nested too deeply", this.peek().position);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseOr(): PolicyExpression {
+    let left = this.parseAnd();
+    while (this.isOperator("||")) {
+      this.next();
+      left = { type: "logical", operator: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): PolicyExpression {
+    let left = this.parseEquality();
+    while (this.isOperator("&&")) {
+      this.next();
+      left = { type: "logical", operator: "&&", left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): PolicyExpression {
+    let left = this.parseComparison();
+    while (this.isOperator("==", "!=")) {
+      const operator = this.next().value as BinaryOperator;
+      left = { type: "binary", operator, left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  // Comparisons don't chain: "a < b < c" is a syntax error
+  private parseComparison(): PolicyExpression {
+    const left = this.parseAdditive();
+
+    if (this.isOperator("<", "<=", ">", ">=")) {
+      const operator = this.next().value as BinaryOperator;
+      return { type: "binary", operator, left, right: this.parseAdditive() };
+    }
+
+    if (this.isKeyword("in")) {
+      this.next();
+      return { type: "in", negated: false, left, right: this.parseAdditive() };
+    }
+
+    if (this.isKeyword("not") && this.isKeyword("in", 1)) {
+      this.next();
+      this.next();
+      return { type: "in", negated: true, left, right: this.parseAdditive() };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): PolicyExpression {
+    let left = this.parseMultiplicative();
+    while (this.isOperator("+", "-")) {
+      const operator = this.next().value as BinaryOperator;
+      left = { type: "binary", operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): PolicyExpression {
+    let left = this.parseCoalesce();
+    while (this.isOperator("*", "/", "%")) {
+      const operator = this.next().value as BinaryOperator;
+      left = { type: "binary", operator, left, right: this.parseCoalesce() };
+    }
+    return left;
+  }
+
+  private parseCoalesce(): PolicyExpression {
+    let left = this.parseUnary();
+    while (this.isOperator("??")) {
+      this.next();
+      left = { type: "logical", operator: "??", left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): PolicyExpression {
+    if (this.isOperator("!", "-")) {
+      const operator = this.next().value as "!" | "-";
+      return this.nested(() => ({ type: "unary", operator, operand: this.parseUnary() }));
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): PolicyExpression {
+    let object = this.parsePrimary();
+
+    while (true) {
+      if (this.isPunctuation(".") || this.isOperator("?.")) {
+        this.next();
+        const token = this.next();
+        if (token.type !== "identifier") {
+          throw syntaxError("Expected a property name", token.position);
+        }
+        object = { type: "member", object, property: { type: "literal", value: this.checkProperty(token) } };
+      } else if (this.isPunctuation("[")) {
+        this.next();
+        const property = this.nested(() => this.parseOr());
+        this.expectPunctuation("]");
+        if (property.type === "literal" && typeof property.value === "string" && BLOCKED_PROPERTIES.has(property.value)) {
+          throw syntaxError(`Property "${property.value}" is not accessible`, this.peek(-1).position);
+        }
+        object = { type: "member", object, property };
+      } else {
+        return object;
+      }
+    }
+  }
+
+  private checkProperty(token: Token): string {
+    if (BLOCKED_PROPERTIES.has(token.value)) {
+      throw syntaxError(`Property "${token.value}" is not accessible`, token.position);
+    }
+    return token.value;
+  }
+
+  private parsePrimary(): PolicyExpression {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { type: "literal", value: Number(token.value) };
+
+      case "string":
+        return { type: "literal", value: token.value };
+
+      case "identifier":
+        return this.parseIdentifier(token);
+
+      case "punctuation":
+        if (token.value === "(") {
+          const expression = this.nested(() => this.parseOr());
+          this.expectPunctuation(")");
+          return expression;
+        }
+        if (token.value === "[") {
+          const items = this.nested(() => this.parseList("]"));
+          return { type: "list", items };
+        }
+        break;
+
+      case "end":
+        throw syntaxError("Unexpected end of expression", token.position);
+    }
+
+    throw syntaxError(`Unexpected "${token.value}"`, token.position);
+  }
+
+  private parseIdentifier(token: Token): PolicyExpression {
+    switch (token.value) {
+      case "true":
+        return { type: "literal", value: true };
+      case "false":
+        return { type: "literal", value: false };
+      case "null":
+        return { type: "literal", value: null };
+    }
+
+    if (this.isPunctuation("(")) {
+      if (!Object.prototype.hasOwnProperty.call(HELPERS, token.value)) {
+        throw syntaxError(`Unknown function "${token.value}"`, token.position);
+      }
+      const helper = HELPERS[token.value];
+      this.next();
+      const args = this.nested(() => this.parseList(")"));
+      if (args.length < helper.minArgs || args.length > helper.maxArgs) {
+        const expected = helper.minArgs === helper.maxArgs ? `${helper.minArgs}` : `${helper.minArgs}-${helper.maxArgs}`;
+        throw syntaxError(`${token.value}() takes ${expected} argument(s), got ${args.length}`, token.position);
+      }
+      return { type: "call", name: token.value, args };
+    }
+
+    if (!(POLICY_ROOTS as readonly string[]).includes(token.value)) {
+      throw syntaxError(`Unknown name "${token.value}" (expected one of ${POLICY_ROOTS.join(", ")})`, token.position);
+    }
+    return { type: "identifier", name: token.value };
+  }
+
+  private parseList(close: string): PolicyExpression[] {
+    const items: PolicyExpression[] = [];
+    if (this.isPunctuation(close)) {
+      this.next();
+      return items;
+    }
+
+    while (true) {
+      items.push(this.parseOr());
+      if (this.isPunctuation(",")) {
+        this.next();
+        continue;
+      }
+      this.expectPunctuation(close);
+      return items;
+    }
+  }
+}
+
+/**
+ * Parse a condition. Throws with the position of the first syntax error.
+ */
+export function parsePolicyExpression(source: string): PolicyExpression {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  if (source.trim() === "") {
+    throw new Error("Expression is empty");
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Error message for an invalid condition, or null when it parses
+ */
+export function validatePolicyExpression(source: string): string | null {
+  try {
+    parsePolicyExpression(source);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+export function validatePolicyRules(rules: Pick<PolicyRule, "id" | "condition">[]): Array<{ ruleId: string; error: string }> {
+  const errors: Array<{ ruleId: string; error: string }> = [];
+  for (const rule of rules) {
+    const error = validatePolicyExpression(rule.condition);
+    if (error) errors.push({ ruleId: rule.id, error });
+  }
+  return errors;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+const compiled = new Map<string, PolicyExpression>();
+const MAX_COMPILED = 500;
+
+function compile(source: string): PolicyExpression {
+  let expression = compiled.get(source);
+  if (!expression) {
+    expression = parsePolicyExpression(source);
+    if (compiled.size >= MAX_COMPILED) compiled.clear();
+    compiled.set(source, expression);
+  }
+  return expression;
+}
+
+function isTruthy(value: PolicyValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function equals(left: PolicyValue, right: PolicyValue): boolean {
+  if (left === null || right === null) return left === right;
+  if (typeof left === "number" || typeof right === "number") {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    return a !== null && b !== null && a === b;
+  }
+  return left === right;
+}
+
+function compare(operator: BinaryOperator, left: PolicyValue, right: PolicyValue): boolean {
+  let a: number | string;
+  let b: number | string;
+
+  if (typeof left === "string" && typeof right === "string") {
+    a = left;
+    b = right;
+  } else {
+    const x = toNumber(left);
+    const y = toNumber(right);
+    if (x === null || y === null) return false;
+    a = x;
+    b = y;
+  }
+
+  switch (operator) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+    default: return false;
+  }
+}
+
+function arithmetic(operator: BinaryOperator, left: PolicyValue, right: PolicyValue): PolicyValue {
+  if (operator === "+" && typeof left === "string" && typeof right === "string") {
+    return left + right;
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+
+  switch (operator) {
+    case "+": return a + b;
+    case "-": return a - b;
+    case "*": return a * b;
+    case "/": return b === 0 ? null : a / b;
+    case "%": return b === 0 ? null : a % b;
+    default: return null;
+  }
+}
+
+function contains(container: PolicyValue, value: PolicyValue): boolean {
+  if (Array.isArray(container)) return container.some(item => equals(item, value));
+  if (typeof container === "string") return typeof value === "string" && container.includes(value);
+  if (container && typeof container === "object") {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(container, value);
+  }
+  return false;
+}
+
+// Own, data-only properties; anything else reads as null
+function readProperty(object: PolicyValue, property: PolicyValue): PolicyValue {
+  if (object === null || typeof object !== "object") {
+    if (typeof object === "string" && property === "length") return object.length;
+    return null;
+  }
+
+  if (Array.isArray(object)) {
+    if (property === "length") return object.length;
+    const index = toNumber(property);
+    return index !== null && Number.isInteger(index) ? normalize(object[index < 0 ? object.length + index : index]) : null;
+  }
+
+  const key = typeof property === "number" ? String(property) : property;
+  if (typeof key !== "string" || BLOCKED_PROPERTIES.has(key)) return null;
+  return Object.prototype.hasOwnProperty.call(object, key) ? normalize(object[key]) : null;
+}
+
+function normalize(value: unknown): PolicyValue {
+  if (value === undefined || typeof value === "function" || typeof value === "symbol") return null;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "bigint") return Number(value);
+  return value as PolicyValue;
+}
+
+function evaluate(expression: PolicyExpression, scope: Record<string, PolicyValue>, now: number): PolicyValue {
+  switch (expression.type) {
+    case "literal":
+      return expression.value;
+
+    case "list":
+      return expression.items.map(item => evaluate(item, scope, now));
+
+    case "identifier":
+      return normalize(scope[expression.name]);
+
+    case "member":
+      return readProperty(evaluate(expression.object, scope, now), evaluate(expression.property, scope, now));
+
+    case "call":
+      return HELPERS[expression.name].fn(expression.args.map(arg => evaluate(arg, scope, now)), now);
+
+    case "unary": {
+      const operand = evaluate(expression.operand, scope, now);
+      if (expression.operator === "!") return !isTruthy(operand);
+      const value = toNumber(operand);
+      return value === null ? null : -value;
+    }
+
+    case "logical": {
+      const left = evaluate(expression.left, scope, now);
+      switch (expression.operator) {
+        case "&&": return isTruthy(left) ? isTruthy(evaluate(expression.right, scope, now)) : false;
+        case "||": return isTruthy(left) ? true : isTruthy(evaluate(expression.right, scope, now));
+        case "??": return left !== null ? left : evaluate(expression.right, scope, now);
+      }
+      return null;
+    }
+
+    case "in": {
+      const found = contains(evaluate(expression.right, scope, now), evaluate(expression.left, scope, now));
+      return expression.negated ? !found : found;
+    }
+
+    case "binary": {
+      const left = evaluate(expression.left, scope, now);
+      const right = evaluate(expression.right, scope, now);
+      switch (expression.operator) {
+        case "==": return equals(left, right);
+        case "!=": return !equals(left, right);
+        case "<":
+        case "<=":
+        case ">":
+        case ">=":
+          return compare(expression.operator, left, right);
+        default:
+          return arithmetic(expression.operator, left, right);
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate a condition against a policy context. Throws if the condition
+ * does not parse.
+ */
+export function evaluatePolicyExpression(
+  condition: string | PolicyExpression,
+  context: PolicyContext,
+  options: PolicyEvaluationOptions = {}
+): boolean {
+  const expression = typeof condition === "string" ? compile(condition) : condition;
+  const scope: Record<string, PolicyValue> = {
+    data: normalize(context.data) ?? {},
+    action: context.action,
+    orgUnitId: context.orgUnitId ?? null,
+    agentId: context.agentId ?? null,
+    workflowId: context.workflowId ?? null,
+  };
+  const now = (options.now ?? new Date()).getTime();
+
+  return isTruthy(evaluate(expression, scope, now));
+}
+
+/**
+ * Evaluate a policy's rules. A rule whose condition can't be evaluated fails
+ * closed: deny rules count as matched, other rules do not.
+ */
+export function evaluatePolicyRules(
+  rules: PolicyRule[],
+  context: PolicyContext,
+  options: PolicyEvaluationOptions = {}
+): PolicyRuleEvaluation {
+  const result: PolicyRuleEvaluation = {
+    outcome: "allow",
+    matched: [],
+    violations: [],
+    approvalRules: [],
+    errors: [],
+  };
+
+  for (const rule of rules) {
+    let matches: boolean;
+    try {
+      matches = evaluatePolicyExpression(rule.condition, context, options);
+    } catch (error: any) {
+      result.errors.push({ ruleId: rule.id, error: error.message });
+      matches = rule.action === "deny";
+    }
+
+    if (!matches) continue;
+
+    result.matched.push(rule);
+    if (rule.action === "deny") {
+      result.violations.push(rule);
+    } else if (rule.action === "require_approval") {
+      result.approvalRules.push(rule);
+    }
+  }
+
+  if (result.violations.length > 0) {
+    result.outcome = "deny";
+  } else if (result.approvalRules.length > 0) {
+    result.outcome = "require_approval";
+  }
+
+  return result;
+}
+
+// ============================================================================
+// DRY RUN
+// ============================================================================
+
+export interface PolicyCheckSample {
+  id: string;
+  context: PolicyContext;
+  // Outcome the governor returned at the time, under the policies then active
+  outcome: PolicyOutcome;
+  checkedAt: Date;
+}
+
+export interface PolicyDryRunResult {
+  checked: number;
+  // How many past checks this policy alone would allow, deny, or hold for approval
+  outcomes: Record<PolicyOutcome, number>;
+  // Checks the policy would have blocked or held that actually went through
+  newlyBlocked: number;
+  results: Array<{
+    checkId: string;
+    action: string;
+    checkedAt: Date;
+    previousOutcome: PolicyOutcome;
+    outcome: PolicyOutcome;
+    matchedRuleIds: string[];
+    errors: Array<{ ruleId: string; error: string }>;
+  }>;
+}
+
+/**
+ * Replay past policy checks through a draft set of rules. Each check is
+ * evaluated as of the time it happened.
+ */
+export function dryRunPolicyRules(rules: PolicyRule[], samples: PolicyCheckSample[]): PolicyDryRunResult {
+  const result: PolicyDryRunResult = {
+    checked: samples.length,
+    outcomes: { allow: 0, deny: 0, require_approval: 0 },
+    newlyBlocked: 0,
+    results: [],
+  };
+
+  for (const sample of samples) {
+    const evaluation = evaluatePolicyRules(rules, sample.context, { now: sample.checkedAt });
+
+    result.outcomes[evaluation.outcome]++;
+    if (evaluation.outcome !== "allow" && sample.outcome === "allow") {
+      result.newlyBlocked++;
+    }
+
+    result.results.push({
+      checkId: sample.id,
+      action: sample.context.action,
+      checkedAt: sample.checkedAt,
+      previousOutcome: sample.outcome,
+      outcome: evaluation.outcome,
+      matchedRuleIds: evaluation.matched.map(rule => rule.id),
+      errors: evaluation.errors,
+    });
+  }
+
+  return result;
+}
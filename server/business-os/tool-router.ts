@@ -5,17 +5,22 @@
  * validates preconditions, and provides structured logging.
  */
 
-import { db } from "./db-wrapper";
+import { db, getDb } from "./db-wrapper";
 import { agents, actions, auditLog } from "../../drizzle/business-os-schema";
-import { eq } from "drizzle-orm";
+import { desc, eq } from "drizzle-orm";
 import crypto from "crypto";
+import type { SimulatedEffect, ToolSimulation } from "./tool-sandbox";
 
 export interface ToolDefinition {
   name: string;
   description: string;
   requiredPermissions: string[];
   preconditions?: (args: any, context: ToolContext) => Promise<boolean | string>;
-  execute: (args: any, context: ToolContext) => Promise<any>;
+  // Tools serving several operations branch on the operation name
+  execute: (args: any, context: ToolContext, operation: string) => Promise<any>;
+  // Describes what execute would write, for dry runs. Must not touch the DB or providers.
+  simulate?: (args: any, context: ToolContext, operation: string) => Promise<ToolSimulation>;
+  // Safe to call again with the same args, even if an earlier call landed
   retryable?: boolean;
   maxRetries?: number;
   timeoutMs?: number;
@@ -25,6 +30,7 @@ export interface ToolContext {
   agentId: string;
   taskId: string;
   orgUnitId: string;
+  dryRun?: boolean;
   metadata?: Record<string, any>;
 }
 
@@ -35,6 +41,8 @@ export interface ToolResult {
   actionId: string;
   latencyMs: number;
   costUsd?: number;
+  dryRun?: boolean;
+  effects?: SimulatedEffect[];
 }
 
 export class ToolRouter {
@@ -48,6 +56,13 @@ export class ToolRouter {
     this.tools.set(tool.name, tool);
   }
 
+  /**
+   * Whether a tool is safe to call again after a call that may have landed
+   */
+  isRetryable(toolName: string): boolean {
+    return this.tools.get(toolName)?.retryable === true;
+  }
+
   /**
    * Execute a tool with full permission and precondition checks
    */
@@ -85,13 +100,18 @@ export class ToolRouter {
         }
       }
 
+      // Dry runs stop here: nothing is logged or executed
+      if (context.dryRun) {
+        return await this.simulateTool(tool, operation, args, context, actionId, startTime);
+      }
+
       // 4. Log action start
       await this.logActionStart(actionId, context.taskId, context.agentId, toolName, operation, args);
 
       // 5. Execute tool with timeout
       const timeoutMs = tool.timeoutMs || 30000;
       const result = await this.executeWithTimeout(
-        () => tool.execute(args, context),
+        () => tool.execute(args, context, operation),
         timeoutMs
       );
 
@@ -116,6 +136,10 @@ export class ToolRouter {
       };
     } catch (error: any) {
       const latencyMs = Date.now() - startTime;
+      if (context.dryRun) {
+        return { success: false, error: error.message, actionId, latencyMs, dryRun: true };
+      }
+
       await this.logActionFailed(actionId, error.message, latencyMs);
 
       // Check if retryable
@@ -141,6 +165,37 @@ export class ToolRouter {
     }
   }
 
+  /**
+   * Run a tool's simulation in place of execute. Tools without one fail
+   * rather than fall back to real side effects.
+   */
+  private async simulateTool(
+    tool: ToolDefinition,
+    operation: string,
+    args: Record<string, any>,
+    context: ToolContext,
+    actionId: string,
+    startTime: number
+  ): Promise<ToolResult> {
+    if (!tool.simulate) {
+      throw new Error(`Tool '${tool.name}' does not support dry runs`);
+    }
+
+    const simulation = await this.executeWithTimeout(
+      () => tool.simulate!(args, context, operation),
+      tool.timeoutMs || 30000
+    );
+
+    return {
+      success: true,
+      result: simulation.result,
+      actionId,
+      latencyMs: Date.now() - startTime,
+      dryRun: true,
+      effects: simulation.effects,
+    };
+  }
+
   /**
    * Check if agent has required permissions
    */
@@ -183,7 +238,8 @@ export class ToolRouter {
     operation: string,
     args: Record<string, any>
   ) {
-    await db.insert(actions).values({
+    const dbConn = await getDb();
+    await dbConn.insert(actions).values({
       id: actionId,
       taskId,
       agentId,
@@ -200,7 +256,8 @@ export class ToolRouter {
    * Log action completion
    */
   private async logActionComplete(actionId: string, result: any, latencyMs: number) {
-    await db
+    const dbConn = await getDb();
+    await dbConn
       .update(actions)
       .set({
         status: "completed",
@@ -215,7 +272,8 @@ export class ToolRouter {
    * Log action failure
    */
   private async logActionFailed(actionId: string, errorMessage: string, latencyMs: number) {
-    await db
+    const dbConn = await getDb();
+    await dbConn
       .update(actions)
       .set({
         status: "failed",
@@ -250,7 +308,8 @@ export class ToolRouter {
     const previousHash = await this.getLatestHash();
     const currentHash = this.generateHash(entityType, entityId, action, timestamp, previousHash);
 
-    await db.insert(auditLog).values({
+    const dbConn = await getDb();
+    await dbConn.insert(auditLog).values({
       id: this.generateId(),
       entityType,
       entityId,
@@ -269,9 +328,12 @@ export class ToolRouter {
    * Get latest audit hash for chain verification
    */
   private async getLatestHash(): Promise<string | null> {
-    const latest = await db.query.auditLog.findFirst({
-      orderBy: (auditLog, { desc }) => [desc(auditLog.timestamp)],
-    });
+    const dbConn = await getDb();
+    const [latest] = await dbConn
+      .select({ currentHash: auditLog.currentHash })
+      .from(auditLog)
+      .orderBy(desc(auditLog.timestamp))
+      .limit(1);
     return latest?.currentHash || null;
   }
 
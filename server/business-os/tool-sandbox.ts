@@ -0,0 +1,203 @@
+/**
+ * Tool Sandbox - Simulated tool effects for dry runs
+ *
+ * In a dry run, tools describe what they would have written instead of
+ * writing it. The recorded effects of a shadow run can then be diffed
+ * against what people actually did over the same period.
+ */
+
+export type EffectChange = "create" | "update" | "delete" | "send";
+
+/**
+ * One write a tool would have made, e.g. a created order or PO, a price
+ * update or an outgoing email
+ */
+export interface SimulatedEffect {
+  kind: string; // "order", "purchase_order", "price", "email", ...
+  change: EffectChange;
+  target?: string; // Entity ID or recipient
+  data: Record<string, any>;
+}
+
+/**
+ * Returned by a tool's `simulate`. The result stands in for the real
+ * result so later steps can keep resolving their args.
+ */
+export interface ToolSimulation {
+  effects: SimulatedEffect[];
+  result?: any;
+}
+
+export interface RecordedEffect extends SimulatedEffect {
+  stepId: string;
+  toolName: string;
+  operation: string;
+  recordedAt: string;
+}
+
+export interface EffectDifference {
+  field: string;
+  wouldWrite: any;
+  actual: any;
+}
+
+export interface EffectMatch {
+  kind: string;
+  change: EffectChange;
+  target?: string;
+  differences: EffectDifference[];
+}
+
+export interface EffectDiff {
+  matched: EffectMatch[];
+  // Written by the dry run only
+  extra: SimulatedEffect[];
+  // Done by people only
+  missed: SimulatedEffect[];
+  // Share of all effects that both sides made identically
+  agreement: number;
+}
+
+export function summarizeEffects(effects: SimulatedEffect[]): Record<string, number> {
+  const summary: Record<string, number> = {};
+  for (const effect of effects) {
+    const key = `${effect.kind}.${effect.change}`;
+    summary[key] = (summary[key] || 0) + 1;
+  }
+  return summary;
+}
+
+/**
+ * Pair simulated effects with actual ones of the same kind and change,
+ * by target when both have one, otherwise in order
+ */
+export function diffEffects(simulated: SimulatedEffect[], actual: SimulatedEffect[]): EffectDiff {
+  const remaining = [...actual];
+  const matched: EffectMatch[] = [];
+  const extra: SimulatedEffect[] = [];
+
+  for (const effect of simulated) {
+    const index = remaining.findIndex(
+      other =>
+        other.kind === effect.kind &&
+        other.change === effect.change &&
+        (!effect.target || !other.target || other.target === effect.target)
+    );
+
+    if (index === -1) {
+      extra.push(effect);
+      continue;
+    }
+
+    const [other] = remaining.splice(index, 1);
+    matched.push({
+      kind: effect.kind,
+      change: effect.change,
+      target: effect.target || other.target,
+      differences: diffData(effect.data, other.data),
+    });
+  }
+
+  const total = matched.length + extra.length + remaining.length;
+  const identical = matched.filter(match => match.differences.length === 0).length;
+
+  return {
+    matched,
+    extra,
+    missed: remaining,
+    agreement: total === 0 ? 1 : identical / total,
+  };
+}
+
+function diffData(wouldWrite: Record<string, any>, actual: Record<string, any>): EffectDifference[] {
+  const differences: EffectDifference[] = [];
+  const fields = new Set([...Object.keys(wouldWrite || {}), ...Object.keys(actual || {})]);
+
+  for (const field of fields) {
+    const left = wouldWrite?.[field];
+    const right = actual?.[field];
+    if (JSON.stringify(left) !== JSON.stringify(right)) {
+      differences.push({ field, wouldWrite: left, actual: right });
+    }
+  }
+
+  return differences;
+}
+
+export interface DryRunReport {
+  runId: string;
+  workflowId: string;
+  status: string;
+  effects: RecordedEffect[];
+  summary: Record<string, number>;
+  diff: EffectDiff;
+}
+
+/**
+ * Effects recorded in a run's trace by simulated tool calls, in order
+ */
+export function getRecordedEffects(
+  trace: Array<{ timestamp: string; step: string; status: string; data: Record<string, any> }>
+): RecordedEffect[] {
+  return trace
+    .filter(entry => entry.status === "simulated")
+    .flatMap(entry =>
+      ((entry.data.effects || []) as SimulatedEffect[]).map(effect => ({
+        ...effect,
+        stepId: entry.step,
+        toolName: entry.data.toolName,
+        operation: entry.data.operation,
+        recordedAt: entry.timestamp,
+      }))
+    );
+}
+
+const CHANGE_ALIASES: Record<string, EffectChange> = {
+  create: "create",
+  created: "create",
+  insert: "create",
+  update: "update",
+  updated: "update",
+  delete: "delete",
+  deleted: "delete",
+  send: "send",
+  sent: "send",
+};
+
+/**
+ * Read an audit log entry as the effect it recorded. Entries that aren't
+ * writes (e.g. "execute", "approve") have no effect.
+ */
+export function auditEntryToEffect(entry: {
+  entityType: string;
+  entityId: string;
+  action: string;
+  changes?: Record<string, any> | null;
+}): SimulatedEffect | null {
+  const action = entry.action.toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(CHANGE_ALIASES, action)) return null;
+  const change = CHANGE_ALIASES[action];
+
+  return {
+    kind: entry.entityType,
+    change,
+    target: entry.entityId,
+    data: entry.changes || {},
+  };
+}
+
+export function buildDryRunReport(
+  run: { runId: string; workflowId: string; status: string; trace: Parameters<typeof getRecordedEffects>[0] },
+  actual: SimulatedEffect[]
+): DryRunReport {
+  const effects = getRecordedEffects(run.trace);
+
+  return {
+    runId: run.runId,
+    workflowId: run.workflowId,
+    status: run.status,
+    effects,
+    summary: summarizeEffects(effects),
+    diff: diffEffects(effects, actual),
+  };
+}
@@ -3,23 +3,45 @@
  * 
  * Provides typed workflows with replay, idempotency, and strong observability.
  * Integrates with governor for policy gates and evaluator for outcome scoring.
+ * Runs that reach an approval or policy gate needing a human are paused with
+ * their context persisted, and resume from the gate once the approval is decided.
+ * Steps retry per their retry policy; when a run fails, completed steps with a
+ * declared compensation are undone in reverse order (saga). A timed-out call
+ * isn't cancelled and may still land, so timeouts are only retried for tools
+ * declared retryable.
+ * Dry runs simulate tool calls and skip approvals, recording what would have
+ * been written so it can be compared with what people actually did.
  */
 
-import { db } from "./db-wrapper";
-import { workflows, workflowRuns, tasks, events } from "../../drizzle/business-os-schema";
-import { eq, and } from "drizzle-orm";
+import { db, getDb } from "./db-wrapper";
+import { workflows, workflowRuns, tasks, events, auditLog } from "../../drizzle/business-os-schema";
+import { eq, and, gte, lt } from "drizzle-orm";
 import { governor } from "./governor";
 import { evaluator } from "./evaluator";
 import { toolRouter } from "./tool-router";
+import {
+  classifyWorkflowError,
+  getPendingCompensations,
+  getRetryDelayMs,
+  getRetryPolicy,
+  shouldRetry,
+  type RetryPolicy,
+  type StepCompensation,
+} from "./workflow-recovery";
+import { auditEntryToEffect, buildDryRunReport, type DryRunReport, type SimulatedEffect } from "./tool-sandbox";
+
+export type AutonomyLevel = "a0_manual" | "a1_assisted" | "a2_supervised" | "a3_autonomous" | "a4_self_optimizing";
 
 export interface WorkflowDefinition {
   name: string;
   description: string;
   type: string;
   orgUnitId: string;
-  autonomyLevel: "a0_manual" | "a1_assisted" | "a2_supervised" | "a3_autonomous" | "a4_self_optimizing";
+  autonomyLevel: AutonomyLevel;
   triggerEvents: string[];
   steps: WorkflowStep[];
+  // Also dry-run every trigger at this level, to compare before raising autonomyLevel
+  shadowAutonomyLevel?: AutonomyLevel;
 }
 
 export interface WorkflowStep {
@@ -29,7 +51,10 @@ export interface WorkflowStep {
   config: Record<string, any>;
   onSuccess?: string; // Next step ID
   onFailure?: string; // Next step ID
-  retryable?: boolean;
+  retryable?: boolean; // Shorthand for 3 attempts, 1s apart
+  retryPolicy?: RetryPolicy;
+  timeoutMs?: number; // Per attempt
+  compensation?: StepCompensation; // Undoes this step if the run later fails
 }
 
 export interface WorkflowContext {
@@ -44,6 +69,37 @@ export interface WorkflowContext {
     status: string;
     data: Record<string, any>;
   }>;
+  dryRun?: boolean;
+  autonomyLevel?: AutonomyLevel; // Overrides the definition's level for this run
+}
+
+export interface WorkflowRunOptions {
+  dryRun?: boolean;
+  autonomyLevel?: AutonomyLevel;
+}
+
+export interface WorkflowReplay extends WorkflowContext {
+  status: string;
+  // Compensation entries from the trace, in the order they ran
+  compensations: WorkflowContext["trace"];
+}
+
+export interface WorkflowRunResult {
+  runId: string;
+  status: "completed" | "paused" | "failed";
+  approvalId?: string;
+  pausedStepId?: string;
+  error?: string;
+}
+
+// Returned by a gate step that cannot pass until a human decides
+interface GatePause {
+  awaitingApproval: string;
+}
+
+interface PausePoint {
+  stepId: string;
+  approvalId: string;
 }
 
 export class WorkflowEngine {
@@ -57,7 +113,8 @@ export class WorkflowEngine {
     this.definitions.set(definition.name, definition);
 
     // Store in database
-    await db.insert(workflows).values({
+    const dbConn = await getDb();
+    await dbConn.insert(workflows).values({
       id: this.generateId("wf"),
       name: definition.name,
       description: definition.description,
@@ -82,6 +139,18 @@ export class WorkflowEngine {
     );
 
     for (const workflow of matchingWorkflows) {
+      if (workflow.shadowAutonomyLevel) {
+        // Shadow first so it sees the same state as the live run
+        try {
+          await this.executeWorkflow(workflow, payload, {
+            dryRun: true,
+            autonomyLevel: workflow.shadowAutonomyLevel,
+          });
+        } catch (error: any) {
+          console.error(`[WorkflowEngine] Shadow run of ${workflow.name} failed:`, error.message);
+        }
+      }
+
       await this.executeWorkflow(workflow, payload);
     }
   }
@@ -89,15 +158,21 @@ export class WorkflowEngine {
   /**
    * Execute a workflow
    */
-  async executeWorkflow(definition: WorkflowDefinition, inputs: Record<string, any>): Promise<string> {
+  async executeWorkflow(
+    definition: WorkflowDefinition,
+    inputs: Record<string, any>,
+    options: WorkflowRunOptions = {}
+  ): Promise<WorkflowRunResult> {
     const runId = this.generateId("run");
     const workflowId = await this.getWorkflowId(definition.name);
 
     // Create workflow run
-    await db.insert(workflowRuns).values({
+    const dbConn = await getDb();
+    await dbConn.insert(workflowRuns).values({
       id: runId,
       workflowId,
       inputs,
+      mode: options.dryRun ? "dry_run" : "live",
       status: "running",
       startedAt: new Date(),
       createdAt: new Date(),
@@ -111,21 +186,174 @@ export class WorkflowEngine {
       inputs,
       state: {},
       trace: [],
+      dryRun: options.dryRun,
+      autonomyLevel: options.autonomyLevel,
+    };
+
+    return this.runSteps(definition.steps, context);
+  }
+
+  /**
+   * Dry-run a stored workflow, optionally at a different autonomy level
+   */
+  async dryRunWorkflow(
+    workflowId: string,
+    inputs: Record<string, any>,
+    autonomyLevel?: AutonomyLevel
+  ): Promise<WorkflowRunResult> {
+    const definition = await this.getDefinition(workflowId);
+    if (!definition) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    return this.executeWorkflow(definition, inputs, { dryRun: true, autonomyLevel });
+  }
+
+  /**
+   * Resume a paused run once its approval has been decided. Approval
+   * continues past the gate; rejection or expiry takes the gate's onFailure
+   * step, or fails the run when it has none. Returns the run still paused
+   * while the approval is pending.
+   */
+  async resumeWorkflowRun(runId: string): Promise<WorkflowRunResult> {
+    const run = await db.query.workflowRuns.findFirst({
+      where: eq(workflowRuns.id, runId),
+    });
+
+    if (!run) {
+      throw new Error(`Workflow run ${runId} not found`);
+    }
+
+    if (run.status !== "paused" || !run.pausedStepId || !run.approvalId) {
+      throw new Error(`Workflow run ${runId} is not paused`);
+    }
+
+    const paused: WorkflowRunResult = {
+      runId,
+      status: "paused",
+      approvalId: run.approvalId,
+      pausedStepId: run.pausedStepId,
+    };
+
+    // Already being resumed by another caller
+    if (this.activeRuns.has(runId)) return paused;
+
+    const definition = await this.getDefinition(run.workflowId);
+    const gate = definition?.steps.find(s => s.id === run.pausedStepId);
+    if (!definition || !gate) {
+      throw new Error(`Workflow run ${runId} is paused at unknown step ${run.pausedStepId}`);
+    }
+
+    const approvalState = await governor.getApprovalState(run.approvalId);
+    if (approvalState === "pending") return paused;
+
+    // Claim the run; only one caller (on any instance) moves it off paused
+    const dbConn = await getDb();
+    const [claim] = await dbConn
+      .update(workflowRuns)
+      .set({ status: "running", pausedStepId: null, approvalId: null, pausedAt: null })
+      .where(and(eq(workflowRuns.id, runId), eq(workflowRuns.status, "paused")));
+    if (claim.affectedRows === 0) return paused;
+
+    const context: WorkflowContext = {
+      workflowId: run.workflowId,
+      runId,
+      orgUnitId: definition.orgUnitId,
+      inputs: (run.inputs as Record<string, any>) || {},
+      state: (run.outputs as Record<string, any>) || {},
+      trace: (run.trace as WorkflowContext["trace"]) || [],
     };
 
+    let nextStepId: string | undefined;
+    if (approvalState === "approved") {
+      this.addTrace(context, gate.id, "completed", { approvalId: run.approvalId, approved: true });
+      nextStepId = gate.onSuccess || this.getNextStepId(definition.steps, gate.id);
+    } else {
+      const error = `Approval ${approvalState}: ${run.approvalId}`;
+      this.addTrace(context, gate.id, "failed", { approvalId: run.approvalId, error });
+
+      if (!gate.onFailure) {
+        await this.compensate(definition.steps, context);
+        await this.completeWorkflowRun(runId, context, "failed", error);
+        return { runId, status: "failed", approvalId: run.approvalId, error };
+      }
+      nextStepId = gate.onFailure;
+    }
+
+    try {
+      return await this.runSteps(definition.steps, context, nextStepId ?? null);
+    } catch (error: any) {
+      return { runId, status: "failed", error: error.message };
+    }
+  }
+
+  /**
+   * Resume the run waiting on an approval, if any
+   */
+  async resumeRunForApproval(approvalId: string): Promise<WorkflowRunResult | null> {
+    const run = await db.query.workflowRuns.findFirst({
+      where: and(eq(workflowRuns.approvalId, approvalId), eq(workflowRuns.status, "paused")),
+    });
+
+    return run ? this.resumeWorkflowRun(run.id) : null;
+  }
+
+  /**
+   * Sweep paused runs, resuming those whose approval was decided or expired
+   */
+  async resumePausedRuns(): Promise<{ resumed: number; stillPaused: number; failed: number }> {
+    const pausedRuns = await db.query.workflowRuns.findMany({
+      where: eq(workflowRuns.status, "paused"),
+    });
+
+    const summary = { resumed: 0, stillPaused: 0, failed: 0 };
+    for (const run of pausedRuns) {
+      try {
+        const result = await this.resumeWorkflowRun(run.id);
+        if (result.status === "paused") summary.stillPaused++;
+        else if (result.status === "failed") summary.failed++;
+        else summary.resumed++;
+      } catch (error: any) {
+        console.error(`[WorkflowEngine] Failed to resume run ${run.id}:`, error.message);
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Run steps until the workflow finishes or parks at a gate. A null start
+   * step means the run has nothing left to execute.
+   */
+  private async runSteps(
+    steps: WorkflowStep[],
+    context: WorkflowContext,
+    startStepId?: string | null
+  ): Promise<WorkflowRunResult> {
+    const { runId } = context;
     this.activeRuns.set(runId, context);
 
     try {
-      // Execute workflow steps
-      await this.executeSteps(definition.steps, context);
+      const pause = startStepId === null ? null : await this.executeSteps(steps, context, startStepId);
+
+      if (pause) {
+        await this.pauseWorkflowRun(runId, context, pause);
+        return { runId, status: "paused", approvalId: pause.approvalId, pausedStepId: pause.stepId };
+      }
 
       // Mark as completed
       await this.completeWorkflowRun(runId, context, "completed");
 
-      return runId;
+      return { runId, status: "completed" };
     } catch (error: any) {
+      await this.compensate(steps, context);
+
       // Mark as failed
       await this.completeWorkflowRun(runId, context, "failed", error.message);
+
+      // A failed dry run is still a result worth reporting on
+      if (context.dryRun) return { runId, status: "failed", error: error.message };
       throw error;
     } finally {
       this.activeRuns.delete(runId);
@@ -133,9 +361,13 @@ export class WorkflowEngine {
   }
 
   /**
-   * Execute workflow steps
+   * Execute workflow steps, stopping at the first gate that needs approval
    */
-  private async executeSteps(steps: WorkflowStep[], context: WorkflowContext, startStepId?: string) {
+  private async executeSteps(
+    steps: WorkflowStep[],
+    context: WorkflowContext,
+    startStepId?: string
+  ): Promise<PausePoint | null> {
     let currentStepId = startStepId || steps[0]?.id;
 
     while (currentStepId) {
@@ -145,7 +377,13 @@ export class WorkflowEngine {
       this.addTrace(context, step.id, "started", {});
 
       try {
-        const result = await this.executeStep(step, context);
+        const result = await this.executeStepWithRetry(step, context);
+
+        if (this.isGatePause(result)) {
+          this.addTrace(context, step.id, "paused", { approvalId: result.awaitingApproval });
+          return { stepId: step.id, approvalId: result.awaitingApproval };
+        }
+
         this.addTrace(context, step.id, "completed", result);
 
         // Determine next step
@@ -153,12 +391,6 @@ export class WorkflowEngine {
       } catch (error: any) {
         this.addTrace(context, step.id, "failed", { error: error.message });
 
-        if (step.retryable) {
-          // Retry logic
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          continue;
-        }
-
         if (step.onFailure) {
           currentStepId = step.onFailure;
         } else {
@@ -166,6 +398,88 @@ export class WorkflowEngine {
         }
       }
     }
+
+    return null;
+  }
+
+  private isGatePause(result: any): result is GatePause {
+    return typeof result?.awaitingApproval === "string";
+  }
+
+  /**
+   * Execute a step, retrying failed attempts per the step's retry policy
+   */
+  private async executeStepWithRetry(step: WorkflowStep, context: WorkflowContext): Promise<any> {
+    const policy = getRetryPolicy(step);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.withTimeout(() => this.executeStep(step, context), step.timeoutMs, `Step ${step.id}`);
+      } catch (error: any) {
+        const errorClass = classifyWorkflowError(error.message);
+        if (errorClass === "timeout" && !this.canRetryTimeout(step)) throw error;
+        if (!shouldRetry(policy, errorClass, attempt)) throw error;
+
+        const delayMs = getRetryDelayMs(policy, attempt);
+        this.addTrace(context, step.id, "retrying", { attempt, errorClass, error: error.message, delayMs });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  // Only tool calls whose tool is safe to repeat; gates would raise a second approval
+  private canRetryTimeout(step: WorkflowStep): boolean {
+    return step.type === "tool_call" && toolRouter.isRetryable(step.config.toolName);
+  }
+
+  private async withTimeout<T>(fn: () => Promise<T>, timeoutMs: number | undefined, label: string): Promise<T> {
+    if (!timeoutMs) return fn();
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        fn(),
+        new Promise<T>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Undo completed steps, most recent first. Keeps going past a failed
+   * compensation so one stuck undo doesn't leave the others applied.
+   */
+  private async compensate(steps: WorkflowStep[], context: WorkflowContext) {
+    for (const step of getPendingCompensations(steps, context.trace)) {
+      const compensation = step.compensation!;
+      const details = { toolName: compensation.toolName, operation: compensation.operation };
+      this.addTrace(context, step.id, "compensating", details);
+
+      try {
+        const result = await this.executeStepWithRetry(
+          {
+            id: step.id,
+            name: `Compensate ${step.name}`,
+            type: "tool_call",
+            config: {
+              toolName: compensation.toolName,
+              operation: compensation.operation,
+              args: compensation.args,
+              agentId: compensation.agentId || step.config.agentId,
+            },
+            retryPolicy: compensation.retryPolicy,
+            timeoutMs: step.timeoutMs,
+          },
+          context
+        );
+        this.addTrace(context, step.id, "compensated", { ...details, result });
+      } catch (error: any) {
+        this.addTrace(context, step.id, "compensation_failed", { ...details, error: error.message });
+      }
+    }
   }
 
   /**
@@ -214,6 +528,7 @@ export class WorkflowEngine {
         agentId: step.config.agentId || "workflow_engine",
         taskId: context.runId,
         orgUnitId: context.orgUnitId,
+        dryRun: context.dryRun,
       }
     );
 
@@ -221,6 +536,10 @@ export class WorkflowEngine {
       throw new Error(result.error || "Tool execution failed");
     }
 
+    if (result.dryRun) {
+      this.addTrace(context, step.id, "simulated", { toolName, operation, effects: result.effects || [] });
+    }
+
     // Store result in context state
     if (step.config.outputKey) {
       context.state[step.config.outputKey] = result.result;
@@ -238,12 +557,17 @@ export class WorkflowEngine {
       workflowId: context.workflowId,
       action: step.config.action || "workflow_step",
       data: this.resolveArgs(step.config.data, context),
-    });
+    }, { dryRun: context.dryRun });
 
     if (!policyResult.allowed) {
-      if (policyResult.requiresApproval) {
-        // Wait for approval (in production, this would be async)
-        throw new Error(`Approval required: ${policyResult.approvalId}`);
+      if (policyResult.requiresApproval && context.dryRun) {
+        this.addTrace(context, step.id, "approval_skipped", { reason: policyResult.reason });
+        return { passed: true, approvalSkipped: true };
+      }
+      if (policyResult.requiresApproval && policyResult.approvalId) {
+        // Park the run until the founder decides
+        const pause: GatePause = { awaitingApproval: policyResult.approvalId };
+        return pause;
       }
       throw new Error(`Policy violation: ${policyResult.reason}`);
     }
@@ -255,14 +579,32 @@ export class WorkflowEngine {
    * Execute approval gate step
    */
   private async executeApprovalGate(step: WorkflowStep, context: WorkflowContext): Promise<any> {
-    // In production, this would create an approval request and pause the workflow
-    // For now, we'll simulate based on autonomy level
-    
-    const workflow = this.definitions.get(await this.getWorkflowName(context.workflowId));
+    const workflow = await this.getDefinition(context.workflowId);
     if (!workflow) throw new Error("Workflow not found");
 
-    if (workflow.autonomyLevel === "a0_manual" || workflow.autonomyLevel === "a1_assisted") {
-      throw new Error("Manual approval required");
+    // A0/A1 autonomy levels need a human sign-off at every approval gate
+    const autonomyLevel = context.autonomyLevel || workflow.autonomyLevel;
+    if (autonomyLevel === "a0_manual" || autonomyLevel === "a1_assisted") {
+      if (context.dryRun) {
+        this.addTrace(context, step.id, "approval_skipped", { autonomyLevel });
+        return { approved: true, approvalSkipped: true };
+      }
+
+      const approvalId = await governor.requestApproval(
+        {
+          orgUnitId: context.orgUnitId,
+          workflowId: context.workflowId,
+          action: step.config.action || step.id,
+          data: {
+            ...this.resolveArgs(step.config.data, context),
+            runId: context.runId,
+            stepId: step.id,
+          },
+        },
+        `Workflow "${workflow.name}" is waiting for approval at "${step.name}"`
+      );
+      const pause: GatePause = { awaitingApproval: approvalId };
+      return pause;
     }
 
     // A2+ autonomy levels can proceed if within policy
@@ -300,6 +642,11 @@ export class WorkflowEngine {
       parallelSteps.map((s: WorkflowStep) => this.executeStep(s, context))
     );
 
+    // A run can only park at a top-level step
+    if (results.some(result => this.isGatePause(result))) {
+      throw new Error("Approval required inside a parallel step");
+    }
+
     return results;
   }
 
@@ -362,7 +709,8 @@ export class WorkflowEngine {
     status: "completed" | "failed",
     errorMessage?: string
   ) {
-    await db
+    const dbConn = await getDb();
+    await dbConn
       .update(workflowRuns)
       .set({
         status,
@@ -374,6 +722,24 @@ export class WorkflowEngine {
       .where(eq(workflowRuns.id, runId));
   }
 
+  /**
+   * Persist the run's context at the gate it is waiting on
+   */
+  private async pauseWorkflowRun(runId: string, context: WorkflowContext, pause: PausePoint) {
+    const dbConn = await getDb();
+    await dbConn
+      .update(workflowRuns)
+      .set({
+        status: "paused",
+        outputs: context.state,
+        trace: context.trace,
+        pausedStepId: pause.stepId,
+        approvalId: pause.approvalId,
+        pausedAt: new Date(),
+      })
+      .where(eq(workflowRuns.id, runId));
+  }
+
   /**
    * Get next step ID in sequence
    */
@@ -393,19 +759,22 @@ export class WorkflowEngine {
   }
 
   /**
-   * Get workflow name by ID
+   * Get a workflow definition by ID, from the registry or the stored spec
+   * when this process has not registered it
    */
-  private async getWorkflowName(id: string): Promise<string> {
+  private async getDefinition(id: string): Promise<WorkflowDefinition | undefined> {
     const workflow = await db.query.workflows.findFirst({
       where: eq(workflows.id, id),
     });
-    return workflow?.name || "";
+    if (!workflow) return undefined;
+
+    return this.definitions.get(workflow.name) || (workflow.spec as WorkflowDefinition | null) || undefined;
   }
 
   /**
    * Replay workflow run for debugging
    */
-  async replayWorkflow(runId: string): Promise<WorkflowContext> {
+  async replayWorkflow(runId: string): Promise<WorkflowReplay> {
     const run = await db.query.workflowRuns.findFirst({
       where: eq(workflowRuns.id, runId),
     });
@@ -414,16 +783,65 @@ export class WorkflowEngine {
       throw new Error(`Workflow run ${runId} not found`);
     }
 
+    const definition = await this.getDefinition(run.workflowId);
+    const trace = (run.trace as WorkflowContext["trace"]) || [];
+
     return {
       workflowId: run.workflowId,
       runId: run.id,
-      orgUnitId: "", // Would need to fetch from workflow
+      orgUnitId: definition?.orgUnitId || "",
       inputs: run.inputs as Record<string, any>,
       state: run.outputs as Record<string, any>,
-      trace: run.trace as any[],
+      trace,
+      status: run.status,
+      compensations: trace.filter(entry => entry.status.startsWith("compensat")),
     };
   }
 
+  /**
+   * What a dry run would have written, diffed against the audited changes
+   * people made over the following window
+   */
+  async getDryRunReport(runId: string, options: { windowHours?: number } = {}): Promise<DryRunReport> {
+    const run = await db.query.workflowRuns.findFirst({
+      where: eq(workflowRuns.id, runId),
+    });
+
+    if (!run) {
+      throw new Error(`Workflow run ${runId} not found`);
+    }
+
+    if (run.mode !== "dry_run") {
+      throw new Error(`Workflow run ${runId} is not a dry run`);
+    }
+
+    const start = run.startedAt || run.createdAt;
+    const end = new Date(start.getTime() + (options.windowHours ?? 24) * 60 * 60 * 1000);
+
+    const entries = await db.query.auditLog.findMany({
+      where: and(
+        eq(auditLog.actorType, "user"),
+        gte(auditLog.timestamp, start),
+        lt(auditLog.timestamp, end)
+      ),
+      orderBy: (auditLog: any, { asc }: any) => [asc(auditLog.timestamp)],
+    });
+
+    const actual = entries
+      .map((entry: any) => auditEntryToEffect(entry))
+      .filter((effect: SimulatedEffect | null): effect is SimulatedEffect => effect !== null);
+
+    return buildDryRunReport(
+      {
+        runId: run.id,
+        workflowId: run.workflowId,
+        status: run.status,
+        trace: (run.trace as WorkflowContext["trace"]) || [],
+      },
+      actual
+    );
+  }
+
   private generateId(prefix: string): string {
     return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -0,0 +1,101 @@
+/**
+ * Workflow Recovery - Step retry policies and saga compensation planning
+ *
+ * Pure helpers used by the workflow engine to decide whether a failed step
+ * is retried, how long to back off, and which completed steps have to be
+ * undone when a run fails.
+ */
+
+import type { WorkflowContext, WorkflowStep } from "./workflow-engine";
+
+export type WorkflowErrorClass = "timeout" | "permission" | "not_found" | "policy" | "precondition" | "tool_error";
+
+export interface RetryPolicy {
+  // Total attempts, including the first
+  maxAttempts: number;
+  backoff?: "fixed" | "exponential";
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  // Error classes worth retrying; defaults to transient ones
+  retryOn?: WorkflowErrorClass[];
+}
+
+/**
+ * Tool call that undoes a completed step. Args are resolved against the run
+ * state at compensation time, so they can reference the step's outputKey.
+ */
+export interface StepCompensation {
+  toolName: string;
+  operation: string;
+  args?: any;
+  agentId?: string;
+  retryPolicy?: RetryPolicy;
+}
+
+// The engine still skips timeouts for tools that aren't retryable
+export const DEFAULT_RETRY_ON: WorkflowErrorClass[] = ["timeout", "tool_error"];
+
+// Steps marked with the legacy `retryable` flag
+export const LEGACY_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoff: "fixed",
+  initialDelayMs: 1000,
+};
+
+const NO_RETRY: RetryPolicy = { maxAttempts: 1 };
+
+export function getRetryPolicy(step: Pick<WorkflowStep, "retryPolicy" | "retryable">): RetryPolicy {
+  if (step.retryPolicy) return step.retryPolicy;
+  return step.retryable ? LEGACY_RETRY_POLICY : NO_RETRY;
+}
+
+export function classifyWorkflowError(message: string): WorkflowErrorClass {
+  if (/timed? ?out/i.test(message)) return "timeout";
+  if (/lacks permission/i.test(message)) return "permission";
+  if (/not found/i.test(message)) return "not_found";
+  if (/^(policy violation|approval)/i.test(message)) return "policy";
+  if (/precondition/i.test(message)) return "precondition";
+  return "tool_error";
+}
+
+/**
+ * Delay before the given retry (attempt 1 is the first retry)
+ */
+export function getRetryDelayMs(policy: RetryPolicy, attempt: number): number {
+  const initial = policy.initialDelayMs ?? 1000;
+  const delay = policy.backoff === "exponential" ? initial * Math.pow(2, attempt - 1) : initial;
+  return Math.min(delay, policy.maxDelayMs ?? 30000);
+}
+
+/**
+ * Whether a step that has failed `attempts` times should run again
+ */
+export function shouldRetry(policy: RetryPolicy, errorClass: WorkflowErrorClass, attempts: number): boolean {
+  if (attempts >= policy.maxAttempts) return false;
+  return (policy.retryOn ?? DEFAULT_RETRY_ON).includes(errorClass);
+}
+
+/**
+ * Completed steps that declare a compensation and haven't been compensated,
+ * most recent first. Worked out from the trace so it survives a pause.
+ */
+export function getPendingCompensations(
+  steps: WorkflowStep[],
+  trace: WorkflowContext["trace"]
+): WorkflowStep[] {
+  const pending: WorkflowStep[] = [];
+
+  for (const entry of trace) {
+    const step = steps.find(s => s.id === entry.step);
+    if (!step?.compensation) continue;
+
+    if (entry.status === "completed") {
+      pending.push(step);
+    } else if (entry.status === "compensated" || entry.status === "compensation_failed") {
+      const index = pending.lastIndexOf(step);
+      if (index !== -1) pending.splice(index, 1);
+    }
+  }
+
+  return pending.reverse();
+}
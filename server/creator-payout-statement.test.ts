@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPayoutStatement,
+  renderPayoutStatementCsv,
+  renderPayoutStatementPdf,
+  type PayoutStatementInput,
+} from "./creator-payout-statement";
+
+const day = (n: number) => new Date(Date.UTC(2026, 2, n, 12));
+
+function statementInput(overrides: Partial<PayoutStatementInput> = {}): PayoutStatementInput {
+  return {
+    channelId: "channel-1",
+    creatorId: "creator-1",
+    creatorName: "Sam Lee",
+    tier: "SILVER",
+    periodStart: day(1),
+    periodEnd: day(15),
+    currency: "AUD",
+    orders: [
+      { orderId: "order-2", orderNumber: "1002", date: day(4), totalCents: 5000 },
+      { orderId: "order-1", orderNumber: "1001", date: day(2), totalCents: 20000 },
+    ],
+    incentives: [
+      { referenceId: "tier:SILVER", description: "Tier bonus", amountCents: 1000 },
+      { referenceId: "streak", description: "Streak bonus", amountCents: 0 },
+    ],
+    clawbacks: [
+      { kind: "REFUND", referenceId: "refund-1", orderId: "order-1", date: day(6), amountCents: 5000 },
+    ],
+    holds: [],
+    payoutFeeRate: 0.01,
+    ...overrides,
+  };
+}
+
+describe("Creator Payout Statements", () => {
+  it("should apply the tier rate and claw back commission on refunds", () => {
+    const statement = buildPayoutStatement(statementInput());
+
+    expect(statement.rateSource).toBe("TIER");
+    expect(statement.commissionRate).toBe(0.1);
+    expect(statement.lines.map((line) => [line.type, line.referenceId, line.amountCents])).toEqual([
+      ["ORDER", "order-1", 2000],
+      ["ORDER", "order-2", 500],
+      ["INCENTIVE", "tier:SILVER", 1000],
+      ["CLAWBACK", "refund-1", -500],
+    ]);
+    expect(statement.totals).toEqual({
+      salesCents: 25000,
+      commissionCents: 2500,
+      incentivesCents: 1000,
+      clawbacksCents: 500,
+      adjustmentsCents: 0,
+      earnedCents: 3000,
+      feeCents: 30,
+      netCents: 2970,
+    });
+  });
+
+  it("should use the creator's own rate when set", () => {
+    const statement = buildPayoutStatement(statementInput({ commissionRateOverride: 0.15, clawbacks: [] }));
+
+    expect(statement.rateSource).toBe("CREATOR");
+    expect(statement.totals.commissionCents).toBe(3750);
+  });
+
+  it("should not charge a fee when clawbacks exceed earnings", () => {
+    const statement = buildPayoutStatement(
+      statementInput({
+        orders: [],
+        incentives: [],
+        clawbacks: [{ kind: "CHARGEBACK", referenceId: "dispute-1", orderId: "order-9", date: day(3), amountCents: 8000 }],
+      })
+    );
+
+    expect(statement.totals.earnedCents).toBe(-800);
+    expect(statement.totals.feeCents).toBe(0);
+    expect(statement.totals.netCents).toBe(-800);
+  });
+
+  it("should export every line to CSV and PDF", () => {
+    const statement = buildPayoutStatement(statementInput({ holds: ["Fraud review"] }));
+    const csv = renderPayoutStatementCsv(statement);
+
+    expect(csv).toContain("ORDER:order-1,ORDER,2026-03-02,order-1,Commission on order 1001,200.00,10%,20.00,");
+    expect(csv).toContain("CLAWBACK:refund-1,CLAWBACK,2026-03-06,refund-1,Refund on order order-1,50.00,10%,-5.00,");
+    expect(csv).toContain("Net payout,29.70\n");
+    expect(csv).toContain("Hold,Fraud review\n");
+
+    const pdf = renderPayoutStatementPdf(statement).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(pdf).toContain("Commission on order 1001");
+  });
+});
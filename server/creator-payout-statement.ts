@@ -0,0 +1,342 @@
+/**
+ * Creator Payout Statements
+ *
+ * A statement shows how a creator's payout for a period was derived:
+ * commission on each attributed order, incentives, and clawbacks for
+ * refunds and chargebacks, then the payout fee and any holds. Line amounts
+ * are signed by their effect on the payout.
+ *
+ * Built here without the database so the same statement can be previewed,
+ * persisted as payout items, and rendered to CSV or PDF.
+ */
+
+import { TIER_CONFIGS, type CreatorTier } from "./creator-tiers";
+import { buildTextPdf } from "./text-pdf";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PayoutStatementLineType = "ORDER" | "INCENTIVE" | "CLAWBACK" | "ADJUSTMENT";
+
+export type PayoutDisputeStatus = "OPEN" | "UPHELD" | "REJECTED";
+
+export interface PayoutStatementOrder {
+  orderId: string;
+  orderNumber?: string | null;
+  date: Date;
+  totalCents: number;
+}
+
+export interface PayoutStatementIncentive {
+  referenceId: string;
+  description: string;
+  amountCents: number;
+}
+
+export interface PayoutStatementClawback {
+  kind: "REFUND" | "CHARGEBACK";
+  // Refund or dispute id
+  referenceId: string;
+  orderId: string;
+  date: Date;
+  // Amount refunded or charged back (positive)
+  amountCents: number;
+}
+
+export interface PayoutStatementInput {
+  channelId: string;
+  creatorId: string;
+  creatorName: string;
+  tier: CreatorTier;
+  // Per-creator rate as a fraction; the tier rate applies when unset
+  commissionRateOverride?: number | null;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  orders: PayoutStatementOrder[];
+  incentives: PayoutStatementIncentive[];
+  clawbacks: PayoutStatementClawback[];
+  holds: string[];
+  payoutFeeRate: number;
+}
+
+export interface PayoutStatementLine {
+  // `${type}:${referenceId}` until persisted, then the payout item id
+  lineId: string;
+  type: PayoutStatementLineType;
+  referenceId: string;
+  orderId: string | null;
+  date: Date | null;
+  description: string;
+  // Amount the rate was applied to (order total, refund, chargeback)
+  baseCents: number | null;
+  rate: number | null;
+  amountCents: number;
+  disputeStatus?: PayoutDisputeStatus | null;
+}
+
+export interface PayoutStatementTotals {
+  salesCents: number;
+  commissionCents: number;
+  incentivesCents: number;
+  clawbacksCents: number;
+  adjustmentsCents: number;
+  // Commission + incentives - clawbacks + adjustments
+  earnedCents: number;
+  feeCents: number;
+  netCents: number;
+}
+
+export interface PayoutStatement {
+  payoutId: string | null;
+  payoutStatus: string | null;
+  channelId: string;
+  creatorId: string;
+  creatorName: string;
+  tier: CreatorTier;
+  commissionRate: number;
+  rateSource: "TIER" | "CREATOR";
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  lines: PayoutStatementLine[];
+  totals: PayoutStatementTotals;
+  holds: string[];
+}
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+export function getStatementLineId(type: PayoutStatementLineType, referenceId: string): string {
+  return `${type}:${referenceId}`;
+}
+
+/**
+ * Build a statement. Clawbacks reverse the commission on the refunded or
+ * charged-back amount at the statement's rate.
+ */
+export function buildPayoutStatement(input: PayoutStatementInput): PayoutStatement {
+  const tierRate = TIER_CONFIGS[input.tier]?.commissionRate ?? TIER_CONFIGS.BRONZE.commissionRate;
+  const useOverride = input.commissionRateOverride != null;
+  const rate = useOverride ? (input.commissionRateOverride as number) : tierRate;
+  const lines: PayoutStatementLine[] = [];
+
+  for (const order of [...input.orders].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+    lines.push({
+      lineId: getStatementLineId("ORDER", order.orderId),
+      type: "ORDER",
+      referenceId: order.orderId,
+      orderId: order.orderId,
+      date: order.date,
+      description: `Commission on order ${order.orderNumber || order.orderId}`,
+      baseCents: order.totalCents,
+      rate,
+      amountCents: Math.round(order.totalCents * rate)
+    });
+  }
+
+  for (const incentive of input.incentives) {
+    if (incentive.amountCents === 0) continue;
+    lines.push({
+      lineId: getStatementLineId("INCENTIVE", incentive.referenceId),
+      type: "INCENTIVE",
+      referenceId: incentive.referenceId,
+      orderId: null,
+      date: null,
+      description: incentive.description,
+      baseCents: null,
+      rate: null,
+      amountCents: incentive.amountCents
+    });
+  }
+
+  for (const clawback of [...input.clawbacks].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+    lines.push({
+      lineId: getStatementLineId("CLAWBACK", clawback.referenceId),
+      type: "CLAWBACK",
+      referenceId: clawback.referenceId,
+      orderId: clawback.orderId,
+      date: clawback.date,
+      description: `${clawback.kind === "REFUND" ? "Refund" : "Chargeback"} on order ${clawback.orderId}`,
+      baseCents: clawback.amountCents,
+      rate,
+      amountCents: -Math.round(clawback.amountCents * rate)
+    });
+  }
+
+  const earnedCents = sumLines(lines);
+  const feeCents = Math.max(0, Math.round(earnedCents * input.payoutFeeRate));
+
+  return {
+    payoutId: null,
+    payoutStatus: null,
+    channelId: input.channelId,
+    creatorId: input.creatorId,
+    creatorName: input.creatorName,
+    tier: input.tier,
+    commissionRate: rate,
+    rateSource: useOverride ? "CREATOR" : "TIER",
+    periodStart: input.periodStart,
+    periodEnd: input.periodEnd,
+    currency: input.currency,
+    lines,
+    totals: summarizeStatementLines(lines, feeCents),
+    holds: input.holds
+  };
+}
+
+export function summarizeStatementLines(lines: PayoutStatementLine[], feeCents: number): PayoutStatementTotals {
+  const total = (type: PayoutStatementLineType) =>
+    lines.filter(line => line.type === type).reduce((sum, line) => sum + line.amountCents, 0);
+
+  const earnedCents = sumLines(lines);
+  return {
+    salesCents: lines
+      .filter(line => line.type === "ORDER")
+      .reduce((sum, line) => sum + (line.baseCents ?? 0), 0),
+    commissionCents: total("ORDER"),
+    incentivesCents: total("INCENTIVE"),
+    clawbacksCents: -total("CLAWBACK"),
+    adjustmentsCents: total("ADJUSTMENT"),
+    earnedCents,
+    feeCents,
+    netCents: earnedCents - feeCents
+  };
+}
+
+function sumLines(lines: PayoutStatementLine[]): number {
+  return lines.reduce((sum, line) => sum + line.amountCents, 0);
+}
+
+// ============================================================================
+// RENDER
+// ============================================================================
+
+function formatMoney(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : "";
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "" : `${+(rate * 100).toFixed(2)}%`;
+}
+
+export function getStatementFilename(statement: PayoutStatement, extension: "csv" | "pdf"): string {
+  return `payout-statement-${statement.creatorId}-${formatDate(statement.periodStart)}.${extension}`;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderPayoutStatementCsv(statement: PayoutStatement): string {
+  const rows: (string | number)[][] = [
+    ["Creator", statement.creatorName],
+    ["Period", `${formatDate(statement.periodStart)} to ${formatDate(statement.periodEnd)}`],
+    ["Tier", statement.tier],
+    ["Commission rate", `${formatRate(statement.commissionRate)} (${statement.rateSource === "TIER" ? "tier" : "creator"} rate)`],
+    ["Currency", statement.currency],
+    [],
+    ["Line", "Type", "Date", "Reference", "Description", "Base", "Rate", "Amount", "Dispute"]
+  ];
+
+  for (const line of statement.lines) {
+    rows.push([
+      line.lineId,
+      line.type,
+      formatDate(line.date),
+      line.referenceId,
+      line.description,
+      line.baseCents === null ? "" : formatMoney(line.baseCents),
+      formatRate(line.rate),
+      formatMoney(line.amountCents),
+      line.disputeStatus ?? ""
+    ]);
+  }
+
+  const { totals } = statement;
+  rows.push(
+    [],
+    ["Commission", formatMoney(totals.commissionCents)],
+    ["Incentives", formatMoney(totals.incentivesCents)],
+    ["Clawbacks", formatMoney(-totals.clawbacksCents)],
+    ["Adjustments", formatMoney(totals.adjustmentsCents)],
+    ["Payout fee", formatMoney(-totals.feeCents)],
+    ["Net payout", formatMoney(totals.netCents)]
+  );
+  for (const hold of statement.holds) {
+    rows.push(["Hold", hold]);
+  }
+
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+function column(text: string, width: number, alignRight = false): string {
+  const clipped = text.length > width ? `${text.slice(0, width - 1)}~` : text;
+  return alignRight ? clipped.padStart(width) : clipped.padEnd(width);
+}
+
+/**
+ * Plain-text layout of the statement, used for the PDF
+ */
+export function formatPayoutStatementText(statement: PayoutStatement): string[] {
+  const { totals } = statement;
+  const lines = [
+    "CREATOR PAYOUT STATEMENT",
+    "",
+    `Creator:   ${statement.creatorName} (${statement.creatorId})`,
+    `Period:    ${formatDate(statement.periodStart)} to ${formatDate(statement.periodEnd)}`,
+    `Tier:      ${statement.tier}, commission ${formatRate(statement.commissionRate)}`,
+    `Payout:    ${statement.payoutId ?? "not yet created"}${statement.payoutStatus ? ` (${statement.payoutStatus})` : ""}`,
+    `Currency:  ${statement.currency}`,
+    "",
+    [
+      column("Date", 10),
+      column("Type", 10),
+      column("Description", 38),
+      column("Base", 11, true),
+      column("Rate", 7, true),
+      column("Amount", 11, true)
+    ].join(" "),
+    "-".repeat(92)
+  ];
+
+  for (const line of statement.lines) {
+    const description = line.disputeStatus ? `${line.description} [${line.disputeStatus}]` : line.description;
+    lines.push([
+      column(formatDate(line.date), 10),
+      column(line.type, 10),
+      column(description, 38),
+      column(line.baseCents === null ? "" : formatMoney(line.baseCents), 11, true),
+      column(formatRate(line.rate), 7, true),
+      column(formatMoney(line.amountCents), 11, true)
+    ].join(" "));
+  }
+
+  const total = (label: string, cents: number) => `${column(label, 80, true)} ${column(formatMoney(cents), 11, true)}`;
+  lines.push(
+    "-".repeat(92),
+    total("Commission", totals.commissionCents),
+    total("Incentives", totals.incentivesCents),
+    total("Clawbacks", -totals.clawbacksCents),
+    total("Adjustments", totals.adjustmentsCents),
+    total("Payout fee", -totals.feeCents),
+    total("Net payout", totals.netCents)
+  );
+
+  if (statement.holds.length > 0) {
+    lines.push("", "HOLDS", ...statement.holds.map(hold => `- ${hold}`));
+  }
+
+  return lines;
+}
+
+export function renderPayoutStatementPdf(statement: PayoutStatement): Buffer {
+  return buildTextPdf(formatPayoutStatementText(statement));
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { calculateTierIncentives, parseCreatorTier } from "./creator-tiers";
+
+describe("Creator Tiers", () => {
+  it("reads stored tier names and falls back to bronze", () => {
+    expect(parseCreatorTier("Gold")).toBe("GOLD");
+    expect(parseCreatorTier(" platinum ")).toBe("PLATINUM");
+    expect(parseCreatorTier("Legend")).toBe("BRONZE");
+    expect(parseCreatorTier(null)).toBe("BRONZE");
+  });
+
+  it("pays the performance bonus only 20% above the tier conversion minimum", () => {
+    // GOLD: 3% minimum conversion, 3% bonus rate
+    expect(calculateTierIncentives("GOLD", 1_000_000, 0.035)).toEqual({
+      bonusEligible: false,
+      performanceBonusCents: 0,
+      tierBonusCents: 0,
+    });
+    expect(calculateTierIncentives("GOLD", 1_000_000, 0.036).performanceBonusCents).toBe(30_000);
+  });
+
+  it("adds the tier bonus above the tier's sales threshold", () => {
+    expect(calculateTierIncentives("PLATINUM", 20_000_000, 0).tierBonusCents).toBe(0);
+    expect(calculateTierIncentives("PLATINUM", 20_000_100, 0).tierBonusCents).toBe(400_002);
+    expect(calculateTierIncentives("DIAMOND", 60_000_100, 0).tierBonusCents).toBe(1_800_003);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Creator Tiers
+ *
+ * Tier thresholds, commission and bonus rates, and the incentive rules a
+ * creator earns under each tier. Kept free of the database so payout
+ * statements and the creator economy engine share one definition.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CreatorTier = "BRONZE" | "SILVER" | "GOLD" | "PLATINUM" | "DIAMOND";
+
+export interface TierConfig {
+  tier: CreatorTier;
+  minRevenue: number;
+  minShows: number;
+  minConversionRate: number;
+  commissionRate: number;
+  bonusRate: number;
+  primeTimeSlots: number;
+  benefits: string[];
+}
+
+export interface TierIncentives {
+  bonusEligible: boolean;
+  performanceBonusCents: number;
+  tierBonusCents: number;
+}
+
+// ============================================================================
+// TIER SYSTEM CONFIGURATION
+// ============================================================================
+
+export const TIER_CONFIGS: Record<CreatorTier, TierConfig> = {
+  BRONZE: {
+    tier: "BRONZE",
+    minRevenue: 0,
+    minShows: 0,
+    minConversionRate: 0,
+    commissionRate: 0.08, // 8%
+    bonusRate: 0.00,
+    primeTimeSlots: 1,
+    benefits: [
+      "Basic training materials",
+      "1 prime time slot per week",
+      "Standard support",
+    ],
+  },
+  SILVER: {
+    tier: "SILVER",
+    minRevenue: 10000,
+    minShows: 10,
+    minConversionRate: 0.02,
+    commissionRate: 0.10, // 10%
+    bonusRate: 0.02,
+    primeTimeSlots: 2,
+    benefits: [
+      "Advanced training materials",
+      "2 prime time slots per week",
+      "Priority support",
+      "Performance bonuses",
+    ],
+  },
+  GOLD: {
+    tier: "GOLD",
+    minRevenue: 50000,
+    minShows: 30,
+    minConversionRate: 0.03,
+    commissionRate: 0.12, // 12%
+    bonusRate: 0.03,
+    primeTimeSlots: 3,
+    benefits: [
+      "Premium training materials",
+      "3 prime time slots per week",
+      "Dedicated account manager",
+      "Enhanced performance bonuses",
+      "Early access to new products",
+    ],
+  },
+  PLATINUM: {
+    tier: "PLATINUM",
+    minRevenue: 150000,
+    minShows: 60,
+    minConversionRate: 0.04,
+    commissionRate: 0.15, // 15%
+    bonusRate: 0.05,
+    primeTimeSlots: 5,
+    benefits: [
+      "VIP training and coaching",
+      "5 prime time slots per week",
+      "Personal account manager",
+      "Maximum performance bonuses",
+      "Exclusive product launches",
+      "Revenue share opportunities",
+    ],
+  },
+  DIAMOND: {
+    tier: "DIAMOND",
+    minRevenue: 500000,
+    minShows: 120,
+    minConversionRate: 0.05,
+    commissionRate: 0.20, // 20%
+    bonusRate: 0.08,
+    primeTimeSlots: 10,
+    benefits: [
+      "Executive training and mentorship",
+      "Unlimited prime time slots",
+      "Executive account manager",
+      "Elite performance bonuses",
+      "Co-branded product lines",
+      "Equity participation",
+      "Global expansion opportunities",
+    ],
+  },
+};
+
+// Extra share of sales for top tiers above a sales threshold (in dollars)
+const TIER_BONUSES: Partial<Record<CreatorTier, { minRevenue: number; rate: number }>> = {
+  PLATINUM: { minRevenue: 200000, rate: 0.02 },
+  DIAMOND: { minRevenue: 600000, rate: 0.03 },
+};
+
+// ============================================================================
+// INCENTIVES
+// ============================================================================
+
+/**
+ * Tier for a stored tier name, falling back to BRONZE for unknown names
+ */
+export function parseCreatorTier(name: string | null | undefined): CreatorTier {
+  const tier = name?.trim().toUpperCase();
+  return tier && tier in TIER_CONFIGS ? (tier as CreatorTier) : "BRONZE";
+}
+
+/**
+ * Bonuses on a period's sales. The performance bonus needs an average show
+ * conversion rate 20% above the tier minimum.
+ */
+export function calculateTierIncentives(
+  tier: CreatorTier,
+  salesCents: number,
+  avgConversionRate: number
+): TierIncentives {
+  const config = TIER_CONFIGS[tier];
+  const bonusEligible = avgConversionRate >= config.minConversionRate * 1.2;
+  const tierBonus = TIER_BONUSES[tier];
+
+  return {
+    bonusEligible,
+    performanceBonusCents: bonusEligible ? Math.round(salesCents * config.bonusRate) : 0,
+    tierBonusCents: tierBonus && salesCents > tierBonus.minRevenue * 100
+      ? Math.round(salesCents * tierBonus.rate)
+      : 0,
+  };
+}
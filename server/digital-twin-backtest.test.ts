@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MODEL_WEIGHT,
+  getModelWeights,
+  runBacktest,
+  weightedAggregate,
+  type BacktestCase,
+} from "./business-os/digital-twin-backtest";
+import type { BusinessState, SimulationModel } from "./business-os/digital-twin";
+
+const state = (overrides: Partial<BusinessState> = {}): BusinessState => ({
+  revenue: 10000,
+  orders: 100,
+  cac: 20,
+  roas: 3,
+  refundRate: 0.05,
+  latency: 200,
+  stockCover: 30,
+  creatorQuality: 0.8,
+  disputeRate: 0.01,
+  cashPosition: 50000,
+  ...overrides,
+});
+
+// Predicts orders move by `elasticity` percent per percent of price change
+const elasticModel = (type: SimulationModel["type"], elasticity: number): SimulationModel => ({
+  type,
+  config: {},
+  predict: async (scenario, baseline) => ({
+    metrics: { ...baseline, orders: baseline.orders * (1 + (scenario.changes.priceChange * elasticity) / 100) },
+    confidence: 0.7,
+    risks: [],
+    opportunities: [],
+  }),
+});
+
+const priceCase = (id: string, priceChange: number, actualOrders: number): BacktestCase => ({
+  id,
+  at: new Date("2026-02-01T00:00:00Z"),
+  scenario: { changes: { priceChange }, duration: 7, description: `Price ${priceChange}%` },
+  baseline: state(),
+  actual: state({ orders: actualOrders }),
+});
+
+describe("Digital Twin Backtest", () => {
+  it("should score each model on the metrics it predicted", async () => {
+    const report = await runBacktest(
+      [elasticModel("demand", -1.5), elasticModel("pricing", -0.5)],
+      [priceCase("c1", 10, 85), priceCase("c2", -10, 115)]
+    );
+
+    const [demand, pricing] = report.models;
+    expect(report.cases).toBe(2);
+    expect(Object.keys(demand.metrics)).toEqual(["orders"]);
+    expect(demand.metrics.orders.mae).toBeCloseTo(0);
+    expect(demand.accuracy).toBe(1);
+    expect(pricing.metrics.orders.mae).toBeCloseTo(10);
+    expect(pricing.mape).toBeCloseTo((10 / 85 + 10 / 115) / 2);
+    expect(pricing.accuracy).toBeLessThan(demand.accuracy!);
+  });
+
+  it("should leave models unscored when they made no call or failed", async () => {
+    const failing: SimulationModel = {
+      type: "fraud",
+      config: {},
+      predict: async () => {
+        throw new Error("model unavailable");
+      },
+    };
+
+    const report = await runBacktest(
+      [elasticModel("demand", -1.5), failing],
+      [priceCase("c1", 0, 90)]
+    );
+
+    expect(report.models[0]).toMatchObject({ cases: 0, mape: null, accuracy: null });
+    expect(report.models[1]).toMatchObject({ failures: 1, accuracy: null });
+    expect(getModelWeights(report.models)).toEqual({ demand: DEFAULT_MODEL_WEIGHT, fraud: DEFAULT_MODEL_WEIGHT });
+  });
+
+  it("should weight predictions by accuracy without double counting the baseline", () => {
+    const baseline = state();
+    const prediction = (metrics: Partial<BusinessState>, confidence: number) => ({
+      metrics: { ...baseline, ...metrics },
+      confidence,
+      risks: [],
+      opportunities: [],
+    });
+
+    const aggregated = weightedAggregate(
+      [
+        { modelType: "demand", prediction: prediction({ orders: 80 }, 0.8) },
+        { modelType: "pricing", prediction: prediction({ orders: 120 }, 0.4) },
+        { modelType: "payout", prediction: prediction({ cashPosition: 40000 }, 0.6) },
+      ],
+      baseline,
+      { demand: 0.9, pricing: 0.3, payout: 0.6 }
+    );
+
+    expect(aggregated.metrics.orders).toBeCloseTo((80 * 0.9 + 120 * 0.3) / 1.2);
+    expect(aggregated.metrics.cashPosition).toBe(40000);
+    expect(aggregated.metrics.revenue).toBe(baseline.revenue);
+    expect(aggregated.confidence).toBeCloseTo((0.8 * 0.9 + 0.4 * 0.3 + 0.6 * 0.6) / 1.8);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { buildMissedDeadlineReport, getDueThreshold, planDeadlineAction } from "./dispute-deadlines";
+import { getDisputePlaybook } from "./dispute-evidence";
+
+const now = new Date("2026-04-01T12:00:00Z");
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+describe("Dispute Deadlines", () => {
+  it("should escalate once per threshold as the deadline approaches", () => {
+    const dispute = (hours: number) => ({ status: "EVIDENCE_BUILDING", evidenceDeadline: hoursFromNow(hours) });
+
+    expect(planDeadlineAction(dispute(100), false, [], now)).toEqual({ type: "none" });
+    expect(planDeadlineAction(dispute(60), false, [], now)).toMatchObject({ type: "escalate", thresholdHours: 72, severity: "MEDIUM" });
+    expect(planDeadlineAction(dispute(60), false, [72], now)).toEqual({ type: "none" });
+    expect(planDeadlineAction(dispute(20), false, [72], now)).toMatchObject({ type: "escalate", thresholdHours: 24, severity: "HIGH" });
+    expect(planDeadlineAction(dispute(3), false, [72, 24], now)).toMatchObject({ type: "escalate", thresholdHours: 4, severity: "CRITICAL" });
+
+    // First seen 10h out: one HIGH escalation, not a MEDIUM one as well
+    expect(getDueThreshold(10, [])).toBe(24);
+    expect(getDueThreshold(10, [4])).toBeNull();
+  });
+
+  it("should submit ready packs as soon as they are ready and close out missed deadlines", () => {
+    expect(planDeadlineAction({ status: "EVIDENCE_READY", evidenceDeadline: hoursFromNow(100) }, true, [], now)).toMatchObject({ type: "submit" });
+    expect(planDeadlineAction({ status: "EVIDENCE_READY", evidenceDeadline: hoursFromNow(50) }, true, [72], now)).toMatchObject({ type: "submit" });
+    expect(planDeadlineAction({ status: "EVIDENCE_BUILDING", evidenceDeadline: hoursFromNow(100) }, false, [], now)).toEqual({ type: "none" });
+    expect(planDeadlineAction({ status: "EVIDENCE_REQUIRED", evidenceDeadline: hoursFromNow(-1) }, false, [72, 24, 4], now)).toMatchObject({ type: "missed" });
+    expect(planDeadlineAction({ status: "SUBMITTED", evidenceDeadline: hoursFromNow(-1) }, true, [], now)).toEqual({ type: "none" });
+    expect(planDeadlineAction({ status: "EVIDENCE_REQUIRED", evidenceDeadline: null }, false, [], now)).toEqual({ type: "none" });
+  });
+
+  it("should pick the evidence playbook from the reason code", () => {
+    expect(getDisputePlaybook("MERCHANDISE_OR_SERVICE_NOT_RECEIVED").required.map((r) => r.label)).toEqual([
+      "carrier tracking",
+      "delivery confirmation",
+    ]);
+    expect(getDisputePlaybook("product_unacceptable").category).toBe("not_as_described");
+    expect(getDisputePlaybook("fraudulent").category).toBe("unauthorized");
+    expect(getDisputePlaybook(null).required).toEqual([]);
+  });
+
+  it("should report disputes lost to missed deadlines", () => {
+    const missed = (id: string, reason: string, amountCents: number, missingEvidence: string[]) => ({
+      disputeId: id,
+      providerCaseId: `PP-${id}`,
+      provider: "PAYPAL",
+      reason,
+      amountCents,
+      currency: "USD",
+      evidenceDeadline: hoursFromNow(-2),
+      statusAtDeadline: "EVIDENCE_BUILDING",
+      missingEvidence,
+      missedAt: new Date(now.getTime() + amountCents),
+    });
+
+    const report = buildMissedDeadlineReport([
+      missed("d1", "MERCHANDISE_OR_SERVICE_NOT_RECEIVED", 4000, ["delivery confirmation"]),
+      missed("d2", "MERCHANDISE_OR_SERVICE_NOT_RECEIVED", 2500, ["carrier tracking", "delivery confirmation"]),
+      missed("d3", "MERCHANDISE_OR_SERVICE_NOT_AS_DESCRIBED", 6000, ["refund policy"]),
+    ]);
+
+    expect(report.count).toBe(3);
+    expect(report.amountCentsByCurrency).toEqual({ USD: 12500 });
+    expect(report.byCategory).toEqual({ not_received: 2, not_as_described: 1 });
+    expect(report.missingEvidence["delivery confirmation"]).toBe(2);
+    expect(report.disputes[0].disputeId).toBe("d3");
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Dispute Deadlines
+ *
+ * Decides what the deadline scheduler does with each open dispute: submit
+ * a ready pack, escalate as the evidence deadline approaches (72h, 24h,
+ * 4h), or record the dispute as lost by default once the deadline passes.
+ * The scheduler below runs that plan against lsn_disputes.
+ */
+
+import { and, asc, eq, inArray, isNotNull } from "drizzle-orm";
+import { ulid } from "ulid";
+import { disputeTimeline, escalations, evidencePacks, lsnDisputes } from "../drizzle/schema";
+import { notifyOwner } from "./_core/notification";
+import { getDb } from "./db";
+import {
+  getDisputePlaybook,
+  validateProviderEvidence,
+  type DisputeCategory,
+  type ProviderEvidence,
+} from "./dispute-evidence";
+
+export const DEADLINE_ESCALATION_HOURS = [72, 24, 4];
+
+export type DeadlineSeverity = "MEDIUM" | "HIGH" | "CRITICAL";
+
+export const DEADLINE_SEVERITY: Record<number, DeadlineSeverity> = {
+  72: "MEDIUM",
+  24: "HIGH",
+  4: "CRITICAL",
+};
+
+// Statuses in which the seller still owes the provider evidence
+export const AWAITING_EVIDENCE_STATUSES = ["OPEN", "EVIDENCE_REQUIRED", "EVIDENCE_BUILDING", "EVIDENCE_READY"] as const;
+
+export type DeadlineAction =
+  | { type: "none" }
+  | { type: "submit"; hoursLeft: number }
+  | { type: "escalate"; hoursLeft: number; thresholdHours: number; severity: DeadlineSeverity }
+  | { type: "missed"; hoursLeft: number };
+
+export function getHoursLeft(deadline: Date, now: Date): number {
+  return (deadline.getTime() - now.getTime()) / (60 * 60 * 1000);
+}
+
+/**
+ * The tightest threshold the dispute has crossed, unless it (or a tighter
+ * one) was already escalated. A dispute first seen 10h out escalates once
+ * at 24h, not at 72h and 24h together.
+ */
+export function getDueThreshold(hoursLeft: number, escalatedThresholds: number[]): number | null {
+  const crossed = DEADLINE_ESCALATION_HOURS.filter(hours => hoursLeft <= hours);
+  if (crossed.length === 0) return null;
+
+  const tightest = Math.min(...crossed);
+  if (escalatedThresholds.some(hours => hours <= tightest)) return null;
+  return tightest;
+}
+
+export function planDeadlineAction(
+  dispute: { status: string; evidenceDeadline: Date | null },
+  packReady: boolean,
+  escalatedThresholds: number[],
+  now: Date
+): DeadlineAction {
+  if (!dispute.evidenceDeadline) return { type: "none" };
+  if (!(AWAITING_EVIDENCE_STATUSES as readonly string[]).includes(dispute.status)) return { type: "none" };
+
+  const hoursLeft = getHoursLeft(dispute.evidenceDeadline, now);
+  if (hoursLeft <= 0) return { type: "missed", hoursLeft };
+
+  // Evidence counts from when the provider receives it, so a ready pack goes straight out
+  if (packReady) return { type: "submit", hoursLeft };
+
+  const thresholdHours = getDueThreshold(hoursLeft, escalatedThresholds);
+  if (thresholdHours === null) return { type: "none" };
+  return { type: "escalate", hoursLeft, thresholdHours, severity: DEADLINE_SEVERITY[thresholdHours] };
+}
+
+export interface MissedDeadline {
+  disputeId: string;
+  providerCaseId: string;
+  provider: string;
+  reason: string | null;
+  amountCents: number;
+  currency: string;
+  evidenceDeadline: Date | null;
+  statusAtDeadline: string;
+  missingEvidence: string[];
+  missedAt: Date;
+}
+
+export interface MissedDeadlineReport {
+  count: number;
+  amountCentsByCurrency: Record<string, number>;
+  byCategory: Partial<Record<DisputeCategory, number>>;
+  // Evidence most often missing when a deadline passed
+  missingEvidence: Record<string, number>;
+  disputes: MissedDeadline[];
+}
+
+export function buildMissedDeadlineReport(missed: MissedDeadline[]): MissedDeadlineReport {
+  const report: MissedDeadlineReport = {
+    count: missed.length,
+    amountCentsByCurrency: {},
+    byCategory: {},
+    missingEvidence: {},
+    disputes: [...missed].sort((a, b) => b.missedAt.getTime() - a.missedAt.getTime()),
+  };
+
+  for (const dispute of missed) {
+    report.amountCentsByCurrency[dispute.currency] =
+      (report.amountCentsByCurrency[dispute.currency] || 0) + dispute.amountCents;
+
+    const category = getDisputePlaybook(dispute.reason).category;
+    report.byCategory[category] = (report.byCategory[category] || 0) + 1;
+
+    for (const label of dispute.missingEvidence) {
+      report.missingEvidence[label] = (report.missingEvidence[label] || 0) + 1;
+    }
+  }
+
+  return report;
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type DisputeRow = typeof lsnDisputes.$inferSelect;
+type EvidencePackRow = typeof evidencePacks.$inferSelect;
+
+export interface DeadlineSweepResult {
+  checked: number;
+  submitted: number;
+  escalated: number;
+  missed: number;
+  failed: number;
+}
+
+// Timeline meta may have been written as a JSON string
+function parseTimelineMeta(meta: unknown): Record<string, unknown> {
+  if (typeof meta !== "string") return (meta as Record<string, unknown> | null) || {};
+  try {
+    return JSON.parse(meta);
+  } catch {
+    return {};
+  }
+}
+
+export class DisputeDeadlineScheduler {
+  async runSweep(now: Date = new Date()): Promise<DeadlineSweepResult> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const disputes = await db
+      .select()
+      .from(lsnDisputes)
+      .where(and(
+        inArray(lsnDisputes.status, [...AWAITING_EVIDENCE_STATUSES]),
+        isNotNull(lsnDisputes.evidenceDeadline)
+      ))
+      .orderBy(asc(lsnDisputes.evidenceDeadline));
+
+    const result: DeadlineSweepResult = { checked: disputes.length, submitted: 0, escalated: 0, missed: 0, failed: 0 };
+
+    for (const dispute of disputes) {
+      try {
+        const outcome = await this.checkDispute(db, dispute, now);
+        if (outcome) result[outcome]++;
+      } catch (error) {
+        result.failed++;
+        console.error(`[DisputeDeadlines] Failed to process dispute ${dispute.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  private async checkDispute(
+    db: Database,
+    dispute: DisputeRow,
+    now: Date
+  ): Promise<"submitted" | "escalated" | "missed" | null> {
+    const [pack] = dispute.evidencePackId
+      ? await db.select().from(evidencePacks).where(eq(evidencePacks.id, dispute.evidencePackId)).limit(1)
+      : [];
+    const packReady = pack?.status === "READY" && !!pack.validation?.valid;
+    const escalated = await this.getEscalatedThresholds(db, dispute.id);
+    const missingEvidence = this.getMissingEvidence(dispute, pack);
+
+    const action = planDeadlineAction(dispute, packReady, escalated, now);
+
+    switch (action.type) {
+      case "submit":
+        try {
+          return (await this.submitReadyPack(db, dispute, pack!, now)) ? "submitted" : null;
+        } catch (error) {
+          // Make sure someone hears about a ready pack that failed to go out
+          const thresholdHours = getDueThreshold(action.hoursLeft, escalated);
+          if (thresholdHours !== null) {
+            await this.escalate(db, dispute, thresholdHours, action.hoursLeft, [
+              `automatic submission failed: ${error instanceof Error ? error.message : String(error)}`
+            ]);
+          }
+          throw error;
+        }
+
+      case "escalate":
+        await this.escalate(db, dispute, action.thresholdHours, action.hoursLeft, missingEvidence);
+        return "escalated";
+
+      case "missed":
+        return (await this.recordMissedDeadline(db, dispute, missingEvidence)) ? "missed" : null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Re-check the stored evidence, then move the dispute to SUBMITTED. The
+   * status update only applies if the dispute is still where this sweep
+   * found it, so a manual submission or a second sweep can't submit twice.
+   */
+  private async submitReadyPack(db: Database, dispute: DisputeRow, pack: EvidencePackRow, now: Date): Promise<boolean> {
+    const validation = validateProviderEvidence(pack.providerEvidence as ProviderEvidence, dispute.reason);
+    if (!validation.valid) {
+      await db
+        .update(evidencePacks)
+        .set({ validation: { valid: false, missing: validation.missing, errors: validation.errors } })
+        .where(eq(evidencePacks.id, pack.id));
+      throw new Error(`Evidence pack ${pack.id} no longer passes validation`);
+    }
+
+    return db.transaction(async (tx) => {
+      const [result] = await tx
+        .update(lsnDisputes)
+        .set({ status: "SUBMITTED" })
+        .where(and(eq(lsnDisputes.id, dispute.id), eq(lsnDisputes.status, dispute.status)));
+      if (result.affectedRows === 0) return false;
+
+      await tx
+        .update(evidencePacks)
+        .set({ status: "SUBMITTED", submittedAt: now })
+        .where(eq(evidencePacks.id, pack.id));
+      await tx.insert(disputeTimeline).values({
+        id: ulid(),
+        channelId: dispute.channelId,
+        disputeId: dispute.id,
+        kind: "STATUS_CHANGE",
+        message: `Status changed from ${dispute.status} to SUBMITTED`,
+        meta: { trigger: "SUBMIT_EVIDENCE", metadata: { automatic: true } },
+      });
+      return true;
+    });
+  }
+
+  private async escalate(
+    db: Database,
+    dispute: DisputeRow,
+    thresholdHours: number,
+    hoursLeft: number,
+    missingEvidence: string[]
+  ) {
+    const severity = DEADLINE_SEVERITY[thresholdHours];
+    const dueIn = `${Math.max(1, Math.floor(hoursLeft))}h`;
+
+    await db.insert(escalations).values({
+      id: ulid(),
+      channelId: dispute.channelId,
+      severity,
+      status: "OPEN",
+      triggerType: "DISPUTE_DEADLINE",
+      triggerJson: { disputeId: dispute.id, thresholdHours, evidenceDeadline: dispute.evidenceDeadline, missingEvidence },
+    });
+    await db.insert(disputeTimeline).values({
+      id: ulid(),
+      channelId: dispute.channelId,
+      disputeId: dispute.id,
+      kind: "DEADLINE_ESCALATION",
+      message: `Evidence due in ${dueIn} (${severity})`,
+      meta: { thresholdHours, hoursLeft, missingEvidence },
+    });
+
+    await this.notify(`Dispute ${dispute.providerCaseId}: evidence due in ${dueIn}`, dispute, missingEvidence);
+  }
+
+  private async recordMissedDeadline(
+    db: Database,
+    dispute: DisputeRow,
+    missingEvidence: string[]
+  ): Promise<boolean> {
+    const recorded = await db.transaction(async (tx) => {
+      const [result] = await tx
+        .update(lsnDisputes)
+        .set({ status: "LOST" })
+        .where(and(eq(lsnDisputes.id, dispute.id), eq(lsnDisputes.status, dispute.status)));
+      if (result.affectedRows === 0) return false;
+
+      await tx.insert(disputeTimeline).values([
+        {
+          id: ulid(),
+          channelId: dispute.channelId,
+          disputeId: dispute.id,
+          kind: "STATUS_CHANGE",
+          message: `Status changed from ${dispute.status} to LOST`,
+          meta: { trigger: "DEADLINE_MISSED", metadata: { statusAtDeadline: dispute.status } },
+        },
+        {
+          id: ulid(),
+          channelId: dispute.channelId,
+          disputeId: dispute.id,
+          kind: "DEADLINE_MISSED",
+          message: `Evidence deadline passed while ${dispute.status}; dispute lost by default`,
+          meta: { evidenceDeadline: dispute.evidenceDeadline, statusAtDeadline: dispute.status, missingEvidence },
+        },
+      ]);
+      await tx.insert(escalations).values({
+        id: ulid(),
+        channelId: dispute.channelId,
+        severity: "CRITICAL",
+        status: "OPEN",
+        triggerType: "DISPUTE_DEADLINE_MISSED",
+        triggerJson: { disputeId: dispute.id },
+      });
+      return true;
+    });
+    if (!recorded) return false;
+
+    await this.notify(`Dispute ${dispute.providerCaseId} lost: evidence deadline missed`, dispute, missingEvidence);
+    return true;
+  }
+
+  private async notify(title: string, dispute: DisputeRow, missingEvidence: string[]) {
+    const playbook = getDisputePlaybook(dispute.reason);
+    const content = [
+      `${dispute.provider} case ${dispute.providerCaseId} (${dispute.reason || "no reason given"}), ` +
+        `${(dispute.amountCents / 100).toFixed(2)} ${dispute.currency}, status ${dispute.status}.`,
+      `Deadline: ${dispute.evidenceDeadline?.toISOString()}`,
+      missingEvidence.length > 0 ? `Missing: ${missingEvidence.join(", ")}` : "Evidence pack is complete.",
+      playbook.guidance
+    ].join("\n");
+
+    try {
+      await notifyOwner({ title, content });
+    } catch (error) {
+      console.warn(`[DisputeDeadlines] Could not notify owner about dispute ${dispute.id}:`, error);
+    }
+  }
+
+  private async getEscalatedThresholds(db: Database, disputeId: string): Promise<number[]> {
+    const entries = await db
+      .select({ meta: disputeTimeline.meta })
+      .from(disputeTimeline)
+      .where(and(eq(disputeTimeline.disputeId, disputeId), eq(disputeTimeline.kind, "DEADLINE_ESCALATION")));
+
+    return entries
+      .map((entry) => parseTimelineMeta(entry.meta).thresholdHours)
+      .filter((hours): hours is number => typeof hours === "number");
+  }
+
+  private getMissingEvidence(dispute: DisputeRow, pack: EvidencePackRow | undefined): string[] {
+    if (pack?.validation) {
+      return [...pack.validation.missing, ...pack.validation.errors];
+    }
+    return ["evidence pack", ...getDisputePlaybook(dispute.reason).required.map(r => r.label)];
+  }
+}
+
+export const disputeDeadlineScheduler = new DisputeDeadlineScheduler();
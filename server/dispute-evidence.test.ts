@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  PROVIDER_EVIDENCE_LIMITS,
+  formatEvidenceForProvider,
+  renderEvidenceDocuments,
+  selectDemonstrationClip,
+  validateProviderEvidence,
+  type EvidenceBundleInput,
+} from "./dispute-evidence";
+
+const bundle = (overrides: Partial<EvidenceBundleInput> = {}): EvidenceBundleInput => ({
+  dispute: { providerCaseId: "PP-D-1001", reason: "MERCHANDISE_OR_SERVICE_NOT_RECEIVED", amountCents: 5998, currency: "USD" },
+  order: {
+    orderId: "ord_1",
+    orderNumber: "LSN-1001",
+    createdAt: new Date("2026-03-01T18:00:00Z"),
+    paidAt: new Date("2026-03-01T18:01:00Z"),
+    customerName: "Sam Rivera",
+    customerEmail: "sam@example.com",
+    shippingAddress: { line1: "1 Main St", city: "Austin", state: "TX", postalCode: "78701", country: "US" },
+    currency: "USD",
+    subtotal: 54.98,
+    tax: 0,
+    shipping: 5,
+    total: 59.98,
+    items: [{ sku: "MUG-01", name: "Glazed mug", quantity: 2, price: 27.49, total: 54.98 }],
+  },
+  shipments: [
+    {
+      carrier: "UPS",
+      trackingNumber: "1Z999AA10123456784",
+      status: "delivered",
+      shippedAt: new Date("2026-03-02T10:00:00Z"),
+      deliveredAt: new Date("2026-03-05T15:30:00Z"),
+      events: [
+        { status: "in_transit", description: "Departed facility", location: "Dallas, TX", timestamp: new Date("2026-03-03T08:00:00Z") },
+        { status: "delivered", description: "Left at front door", location: "Austin, TX", timestamp: new Date("2026-03-05T15:30:00Z") },
+      ],
+    },
+  ],
+  tickets: [],
+  showClip: null,
+  priorOrders: [],
+  ...overrides,
+});
+
+const uploaded = (input: EvidenceBundleInput) =>
+  renderEvidenceDocuments(input).map((doc) => ({
+    name: doc.name,
+    purpose: doc.purpose,
+    mimeType: doc.mimeType,
+    sizeBytes: doc.content.length,
+    url: `https://cdn.example.com/${doc.name}`,
+  }));
+
+describe("Dispute Evidence", () => {
+  it("should render real documents and map them to each provider", () => {
+    const input = bundle({
+      tickets: [
+        {
+          id: "t1",
+          subject: "Where is my order?",
+          channel: "chat",
+          status: "resolved",
+          createdAt: new Date("2026-03-04T12:00:00Z"),
+          messages: [
+            { senderType: "customer", content: "Has it shipped?", createdAt: new Date("2026-03-04T12:00:00Z") },
+            { senderType: "agent", content: "Yes, UPS 1Z999AA10123456784", createdAt: new Date("2026-03-04T12:05:00Z") },
+          ],
+        },
+      ],
+    });
+
+    const documents = renderEvidenceDocuments(input);
+    expect(documents.map((d) => d.purpose)).toEqual(["receipt", "shipping_documentation", "customer_communication"]);
+    expect(documents[0].content.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(documents[0].content.toString()).toContain("LSN-1001");
+
+    const stripe = formatEvidenceForProvider(input, uploaded(input), "STRIPE");
+    expect(stripe.fields).toMatchObject({
+      shipping_carrier: "UPS",
+      shipping_tracking_number: "1Z999AA10123456784",
+      shipping_date: "2026-03-02",
+      customer_email_address: "sam@example.com",
+    });
+    expect(stripe.fields.uncategorized_text).toContain("delivered on 2026-03-05");
+    expect(stripe.files.map((f) => f.field)).toEqual(["receipt", "shipping_documentation", "customer_communication"]);
+
+    const paypal = formatEvidenceForProvider(input, uploaded(input), "PAYPAL");
+    expect(paypal.fields.evidence_type).toBe("PROOF_OF_FULFILLMENT");
+    expect(validateProviderEvidence(paypal, input.dispute.reason).valid).toBe(true);
+  });
+
+  it("should truncate text to provider limits and reject oversized files", () => {
+    const input = bundle({
+      priorOrders: Array.from({ length: 3 }, (_, i) => ({
+        orderNumber: `LSN-90${i}`,
+        createdAt: new Date(`2026-0${i + 1}-15T00:00:00Z`),
+        total: 20,
+        status: "delivered",
+      })),
+      refundPolicy: "x".repeat(25000),
+    });
+
+    const stripe = formatEvidenceForProvider(input, uploaded(input), "STRIPE");
+    expect(stripe.truncatedFields).toEqual(["refund_policy_disclosure"]);
+    expect(stripe.fields.refund_policy_disclosure.length).toBe(PROVIDER_EVIDENCE_LIMITS.STRIPE.defaultFieldMaxChars);
+    expect(validateProviderEvidence(stripe, input.dispute.reason).valid).toBe(true);
+
+    const files = uploaded(input);
+    files[0].sizeBytes = 5 * 1024 * 1024;
+    const oversized = validateProviderEvidence(formatEvidenceForProvider(input, files, "STRIPE"), input.dispute.reason);
+    expect(oversized.valid).toBe(false);
+    expect(oversized.errors.some((e) => e.startsWith("Files total"))).toBe(true);
+  });
+
+  it("should require the evidence the dispute reason calls for", () => {
+    const input = bundle({ shipments: [] });
+    const documents = uploaded(input);
+    documents[0].url = undefined as any;
+
+    const validation = validateProviderEvidence(formatEvidenceForProvider(input, documents, "PAYPAL"), input.dispute.reason);
+    expect(validation.missing).toEqual(["carrier tracking", "delivery confirmation"]);
+    expect(validation.errors).toEqual([`${documents[0].name} has not been uploaded`]);
+
+    const notAsDescribed = bundle({ dispute: { ...input.dispute, reason: "MERCHANDISE_OR_SERVICE_NOT_AS_DESCRIBED" } });
+    expect(
+      validateProviderEvidence(formatEvidenceForProvider(notAsDescribed, uploaded(notAsDescribed), "PAYPAL"), "MERCHANDISE_OR_SERVICE_NOT_AS_DESCRIBED").missing
+    ).toEqual(["product demonstration or customer communication", "refund policy"]);
+  });
+
+  it("should find the clip where the product was demonstrated", () => {
+    const highlights = [
+      { title: "Opening", clipUrl: "https://cdn.example.com/a.mp4", clipStatus: "READY", productIds: ["p9"], timestampSeconds: 30 },
+      { title: "Mug demo", clipUrl: null, clipStatus: "PROCESSING", productIds: ["p1"], timestampSeconds: 400 },
+    ];
+    const recording = {
+      title: "Spring pottery drop",
+      recordingUrl: "https://cdn.example.com/show.mp4",
+      startedAt: new Date("2026-03-01T17:00:00Z"),
+      pins: [{ productId: "p1", pinnedAt: new Date("2026-03-01T17:06:40Z") }],
+    };
+
+    expect(selectDemonstrationClip(["p1"], highlights, recording)).toEqual({
+      title: "Spring pottery drop",
+      url: "https://cdn.example.com/show.mp4#t=400",
+      startSeconds: 400,
+      endSeconds: 520,
+    });
+
+    highlights[1] = { ...highlights[1], clipUrl: "https://cdn.example.com/mug.mp4", clipStatus: "READY" };
+    expect(selectDemonstrationClip(["p1"], highlights, recording)).toMatchObject({ title: "Mug demo", startSeconds: 400 });
+    expect(selectDemonstrationClip(["p2"], highlights, recording)).toBeNull();
+  });
+});
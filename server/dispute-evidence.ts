@@ -0,0 +1,642 @@
+/**
+ * Dispute Evidence
+ *
+ * Turns the order, carrier tracking, support conversations, live-show clip
+ * and order history behind a dispute into documents and provider evidence
+ * fields, trimmed to each provider's limits, and checks the result is
+ * complete enough to submit.
+ *
+ * Built here without the database so packs can be previewed and tested.
+ */
+
+import type { CarrierTrackingHistory } from "./order-tracking";
+import { buildTextPdf, wrapTextLines } from "./text-pdf";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EvidenceProvider = "PAYPAL" | "STRIPE";
+
+export type EvidenceDocumentPurpose =
+  | "receipt"
+  | "shipping_documentation"
+  | "customer_communication"
+  | "uncategorized";
+
+export interface EvidenceOrder {
+  orderId: string;
+  orderNumber: string;
+  createdAt: Date;
+  paidAt?: Date | null;
+  customerName?: string | null;
+  customerEmail?: string | null;
+  shippingAddress?: Record<string, any> | null;
+  billingAddress?: Record<string, any> | null;
+  currency: string;
+  subtotal: number;
+  tax: number;
+  shipping: number;
+  total: number;
+  items: Array<{ sku: string; name: string; quantity: number; price: number; total: number }>;
+}
+
+export interface EvidenceTicket {
+  id: string;
+  subject: string;
+  channel: string;
+  status: string;
+  createdAt: Date;
+  messages: Array<{ senderType: "customer" | "agent" | "system"; content: string; createdAt: Date }>;
+}
+
+export interface EvidenceShowClip {
+  title: string;
+  url: string;
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+export interface EvidencePriorOrder {
+  orderNumber: string;
+  createdAt: Date;
+  total: number;
+  status: string;
+}
+
+export interface EvidenceBundleInput {
+  dispute: {
+    providerCaseId: string;
+    reason?: string | null;
+    amountCents: number;
+    currency: string;
+  };
+  order: EvidenceOrder;
+  shipments: CarrierTrackingHistory[];
+  tickets: EvidenceTicket[];
+  showClip?: EvidenceShowClip | null;
+  priorOrders: EvidencePriorOrder[];
+  refundPolicy?: string | null;
+}
+
+export interface EvidenceDocument {
+  name: string;
+  purpose: EvidenceDocumentPurpose;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface EvidenceFile {
+  field: string;
+  name: string;
+  mimeType: string;
+  sizeBytes: number;
+  url?: string;
+}
+
+// What the pack has evidence of, independent of provider field names
+export interface EvidenceCoverage {
+  invoice: boolean;
+  tracking: boolean;
+  delivery: boolean;
+  communication: boolean;
+  productDemo: boolean;
+  orderHistory: boolean;
+  refundPolicy: boolean;
+}
+
+export interface ProviderEvidence {
+  provider: EvidenceProvider;
+  fields: Record<string, string>;
+  files: EvidenceFile[];
+  truncatedFields: string[];
+  coverage: EvidenceCoverage;
+}
+
+export interface EvidenceValidation {
+  valid: boolean;
+  missing: string[];
+  errors: string[];
+  totalTextChars: number;
+  totalFileBytes: number;
+}
+
+export interface ProviderEvidenceLimits {
+  fieldMaxChars: Record<string, number>;
+  defaultFieldMaxChars: number;
+  maxTotalTextChars?: number;
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalFileBytes: number;
+  mimeTypes: string[];
+}
+
+const MB = 1024 * 1024;
+
+export const PROVIDER_EVIDENCE_LIMITS: Record<EvidenceProvider, ProviderEvidenceLimits> = {
+  PAYPAL: {
+    fieldMaxChars: { notes: 2000, carrier_name: 255, tracking_number: 255 },
+    defaultFieldMaxChars: 255,
+    maxFiles: 10,
+    maxFileBytes: 10 * MB,
+    maxTotalFileBytes: 50 * MB,
+    mimeTypes: ["application/pdf", "image/jpeg", "image/png", "image/gif"],
+  },
+  STRIPE: {
+    fieldMaxChars: {},
+    defaultFieldMaxChars: 20000,
+    maxTotalTextChars: 150000,
+    maxFiles: 5,
+    maxFileBytes: 4.5 * MB,
+    maxTotalFileBytes: 4.5 * MB,
+    mimeTypes: ["application/pdf", "image/jpeg", "image/png"],
+  },
+};
+
+// Stripe takes one file per evidence field
+const STRIPE_FILE_FIELDS: Record<EvidenceDocumentPurpose, string> = {
+  receipt: "receipt",
+  shipping_documentation: "shipping_documentation",
+  customer_communication: "customer_communication",
+  uncategorized: "uncategorized_file",
+};
+
+const TRUNCATION_MARKER = " [truncated, see attached documents]";
+
+// ============================================================================
+// FORMATTING HELPERS
+// ============================================================================
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toFixed(2)}`;
+}
+
+function formatDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : "-";
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace("T", " ").slice(0, 16) + " UTC";
+}
+
+function formatAddress(address: Record<string, any> | null | undefined): string {
+  if (!address) return "";
+  return [
+    address.name,
+    address.line1 ?? address.address1,
+    address.line2 ?? address.address2,
+    address.city,
+    address.state ?? address.province,
+    address.postalCode ?? address.postal_code ?? address.zip,
+    address.country,
+  ]
+    .filter(part => typeof part === "string" && part.trim() !== "")
+    .join(", ");
+}
+
+function formatOffset(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function truncate(text: string, maxChars: number): { text: string; truncated: boolean } {
+  if (text.length <= maxChars) return { text, truncated: false };
+  return { text: text.slice(0, Math.max(0, maxChars - TRUNCATION_MARKER.length)) + TRUNCATION_MARKER, truncated: true };
+}
+
+function isDelivered(shipment: CarrierTrackingHistory): boolean {
+  return !!shipment.deliveredAt || shipment.status.toLowerCase() === "delivered";
+}
+
+// ============================================================================
+// CLIP SELECTION
+// ============================================================================
+
+/**
+ * The clip where an ordered product was shown: a finished highlight that
+ * features it, or else the show recording from when it was pinned
+ */
+export function selectDemonstrationClip(
+  productIds: string[],
+  highlights: Array<{
+    title: string;
+    clipUrl: string | null;
+    clipStatus: string;
+    productIds: string[] | null;
+    timestampSeconds: number;
+  }>,
+  recording?: {
+    title: string;
+    recordingUrl: string | null;
+    startedAt: Date | null;
+    pins: Array<{ productId: string; pinnedAt: Date | null }>;
+  } | null
+): EvidenceShowClip | null {
+  const highlight = highlights.find(
+    h => h.clipStatus === "READY" && h.clipUrl && (h.productIds || []).some(id => productIds.includes(id))
+  );
+  if (highlight) {
+    return { title: highlight.title, url: highlight.clipUrl!, startSeconds: highlight.timestampSeconds };
+  }
+
+  if (!recording?.recordingUrl || !recording.startedAt) return null;
+
+  const pin = recording.pins.find(p => p.pinnedAt && productIds.includes(p.productId));
+  if (!pin) return null;
+
+  const offset = Math.max(0, Math.floor((pin.pinnedAt!.getTime() - recording.startedAt.getTime()) / 1000));
+  return {
+    title: recording.title,
+    url: `${recording.recordingUrl}#t=${offset}`,
+    startSeconds: offset,
+    endSeconds: offset + 120,
+  };
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+export function formatInvoiceText(order: EvidenceOrder): string[] {
+  const lines = [
+    "TAX INVOICE",
+    "",
+    `Order:      ${order.orderNumber}`,
+    `Order date: ${formatDate(order.createdAt)}`,
+    `Paid:       ${order.paidAt ? formatDateTime(order.paidAt) : "-"}`,
+    `Customer:   ${order.customerName || "-"}${order.customerEmail ? ` <${order.customerEmail}>` : ""}`,
+    `Bill to:    ${formatAddress(order.billingAddress) || "-"}`,
+    `Ship to:    ${formatAddress(order.shippingAddress) || "-"}`,
+    "",
+    `${"SKU".padEnd(16)} ${"ITEM".padEnd(40)} ${"QTY".padStart(5)} ${"PRICE".padStart(12)} ${"TOTAL".padStart(12)}`,
+  ];
+
+  for (const item of order.items) {
+    lines.push(
+      `${item.sku.slice(0, 16).padEnd(16)} ${item.name.slice(0, 40).padEnd(40)} ${String(item.quantity).padStart(5)} ` +
+        `${item.price.toFixed(2).padStart(12)} ${item.total.toFixed(2).padStart(12)}`
+    );
+  }
+
+  lines.push(
+    "",
+    `Subtotal: ${formatMoney(order.subtotal, order.currency)}`,
+    `Shipping: ${formatMoney(order.shipping, order.currency)}`,
+    `Tax:      ${formatMoney(order.tax, order.currency)}`,
+    `Total:    ${formatMoney(order.total, order.currency)}`
+  );
+
+  return lines;
+}
+
+export function formatTrackingText(shipments: CarrierTrackingHistory[]): string[] {
+  const lines = ["CARRIER TRACKING HISTORY"];
+
+  for (const shipment of shipments) {
+    lines.push(
+      "",
+      `Carrier:  ${shipment.carrier}`,
+      `Tracking: ${shipment.trackingNumber}`,
+      `Status:   ${shipment.status}`,
+      `Shipped:  ${formatDate(shipment.shippedAt)}`,
+      `Delivered: ${formatDate(shipment.deliveredAt)}`
+    );
+    if (shipment.trackingUrl) lines.push(`Link:     ${shipment.trackingUrl}`);
+
+    for (const event of shipment.events) {
+      const location = event.location ? ` (${event.location})` : "";
+      lines.push(`  ${formatDateTime(event.timestamp)}  ${event.status}: ${event.description}${location}`);
+    }
+  }
+
+  return lines;
+}
+
+export function formatCommunicationText(tickets: EvidenceTicket[]): string[] {
+  const lines = ["CUSTOMER COMMUNICATION"];
+
+  for (const ticket of tickets) {
+    lines.push("", `Ticket ${ticket.id} via ${ticket.channel} (${ticket.status}), opened ${formatDateTime(ticket.createdAt)}`);
+    lines.push(`Subject: ${ticket.subject}`);
+    for (const message of ticket.messages) {
+      lines.push(`  [${formatDateTime(message.createdAt)}] ${message.senderType}: ${message.content.replace(/\s+/g, " ")}`);
+    }
+  }
+
+  return lines;
+}
+
+export function formatOrderHistoryText(priorOrders: EvidencePriorOrder[], currency: string): string[] {
+  return [
+    "CUSTOMER ORDER HISTORY",
+    "",
+    ...priorOrders.map(
+      order => `${formatDate(order.createdAt)}  ${order.orderNumber.padEnd(20)} ${formatMoney(order.total, currency).padStart(16)}  ${order.status}`
+    ),
+  ];
+}
+
+export function renderEvidenceDocuments(input: EvidenceBundleInput): EvidenceDocument[] {
+  const pdf = (name: string, purpose: EvidenceDocumentPurpose, lines: string[]): EvidenceDocument => ({
+    name,
+    purpose,
+    mimeType: "application/pdf",
+    content: buildTextPdf(wrapTextLines(lines)),
+  });
+
+  const documents = [pdf(`invoice-${input.order.orderNumber}.pdf`, "receipt", formatInvoiceText(input.order))];
+
+  if (input.shipments.length > 0) {
+    documents.push(pdf("tracking-history.pdf", "shipping_documentation", formatTrackingText(input.shipments)));
+  }
+  if (input.tickets.length > 0) {
+    documents.push(pdf("customer-communication.pdf", "customer_communication", formatCommunicationText(input.tickets)));
+  }
+  if (input.priorOrders.length > 0) {
+    documents.push(pdf("order-history.pdf", "uncategorized", formatOrderHistoryText(input.priorOrders, input.order.currency)));
+  }
+
+  return documents;
+}
+
+// ============================================================================
+// NARRATIVE & PROVIDER FIELDS
+// ============================================================================
+
+export function getEvidenceCoverage(input: EvidenceBundleInput): EvidenceCoverage {
+  return {
+    invoice: true,
+    tracking: input.shipments.length > 0,
+    delivery: input.shipments.some(isDelivered),
+    communication: input.tickets.length > 0,
+    productDemo: !!input.showClip,
+    orderHistory: input.priorOrders.length > 0,
+    refundPolicy: !!input.refundPolicy,
+  };
+}
+
+export function formatProductDescription(input: EvidenceBundleInput): string {
+  const lines = input.order.items.map(item => `${item.quantity} x ${item.name} (SKU ${item.sku})`);
+
+  if (input.showClip) {
+    const at = input.showClip.startSeconds !== undefined ? ` at ${formatOffset(input.showClip.startSeconds)}` : "";
+    lines.push(`Demonstrated live in "${input.showClip.title}"${at}: ${input.showClip.url}`);
+  }
+
+  return lines.join("\n");
+}
+
+export function buildEvidenceNarrative(input: EvidenceBundleInput, documentNames: string[] = []): string {
+  const { dispute, order } = input;
+  const paragraphs = [
+    `Dispute ${dispute.providerCaseId}${dispute.reason ? ` (${dispute.reason})` : ""} for ` +
+      `${formatMoney(dispute.amountCents / 100, dispute.currency)}.`,
+    `Order ${order.orderNumber} was placed on ${formatDate(order.createdAt)}` +
+      `${order.customerName ? ` by ${order.customerName}` : ""}` +
+      `${order.customerEmail ? ` (${order.customerEmail})` : ""} ` +
+      `for ${formatMoney(order.total, order.currency)}` +
+      `${order.paidAt ? ` and paid on ${formatDate(order.paidAt)}` : ""}.`,
+  ];
+
+  const delivered = input.shipments.find(isDelivered);
+  const shipment = delivered || input.shipments[0];
+  if (shipment) {
+    paragraphs.push(
+      `It shipped with ${shipment.carrier} (tracking ${shipment.trackingNumber}) on ${formatDate(shipment.shippedAt)}` +
+        (delivered
+          ? ` and was delivered on ${formatDate(delivered.deliveredAt)}` +
+            `${formatAddress(order.shippingAddress) ? ` to ${formatAddress(order.shippingAddress)}` : ""}.`
+          : `; the latest carrier status is "${shipment.status}".`)
+    );
+  } else {
+    paragraphs.push("No carrier shipment is recorded for this order.");
+  }
+
+  if (input.showClip) {
+    paragraphs.push(`The product was demonstrated live before purchase; the recording is at ${input.showClip.url}.`);
+  }
+
+  const customerMessages = input.tickets.flatMap(ticket => ticket.messages.filter(m => m.senderType === "customer"));
+  paragraphs.push(
+    input.tickets.length > 0
+      ? `The customer contacted support in ${input.tickets.length} ticket(s) with ${customerMessages.length} message(s); ` +
+          "the full transcript is attached."
+      : "The customer did not contact support about this order before opening the dispute."
+  );
+
+  if (input.priorOrders.length > 0) {
+    const refunded = input.priorOrders.filter(o => o.status === "refunded").length;
+    paragraphs.push(
+      `The customer has ${input.priorOrders.length} earlier order(s) with us since ` +
+        `${formatDate(input.priorOrders[input.priorOrders.length - 1].createdAt)}, ${refunded} of them refunded.`
+    );
+  }
+
+  if (documentNames.length > 0) {
+    paragraphs.push(`Attached: ${documentNames.join(", ")}.`);
+  }
+
+  return paragraphs.join("\n\n");
+}
+
+/**
+ * Map the bundle onto a provider's evidence fields and files, cutting text
+ * down to the provider's limits
+ */
+export function formatEvidenceForProvider(
+  input: EvidenceBundleInput,
+  documents: Array<Omit<EvidenceDocument, "content"> & { sizeBytes: number; url?: string }>,
+  provider: EvidenceProvider
+): ProviderEvidence {
+  const limits = PROVIDER_EVIDENCE_LIMITS[provider];
+  const narrative = buildEvidenceNarrative(input, documents.map(d => d.name));
+  const shipment = input.shipments.find(isDelivered) || input.shipments[0];
+
+  const raw: Record<string, string | undefined> =
+    provider === "PAYPAL"
+      ? {
+          evidence_type: shipment ? "PROOF_OF_FULFILLMENT" : "OTHER",
+          notes: narrative,
+          carrier_name: shipment?.carrier,
+          tracking_number: shipment?.trackingNumber,
+        }
+      : {
+          product_description: formatProductDescription(input),
+          customer_name: input.order.customerName || undefined,
+          customer_email_address: input.order.customerEmail || undefined,
+          billing_address: formatAddress(input.order.billingAddress) || undefined,
+          shipping_address: formatAddress(input.order.shippingAddress) || undefined,
+          shipping_carrier: shipment?.carrier,
+          shipping_tracking_number: shipment?.trackingNumber,
+          shipping_date: shipment?.shippedAt ? formatDate(shipment.shippedAt) : undefined,
+          refund_policy_disclosure: input.refundPolicy || undefined,
+          uncategorized_text: narrative,
+        };
+
+  const fields: Record<string, string> = {};
+  const truncatedFields: string[] = [];
+  for (const [field, value] of Object.entries(raw)) {
+    if (!value) continue;
+    const result = truncate(value, limits.fieldMaxChars[field] ?? limits.defaultFieldMaxChars);
+    fields[field] = result.text;
+    if (result.truncated) truncatedFields.push(field);
+  }
+
+  const files: EvidenceFile[] = documents.map(document => ({
+    field: provider === "STRIPE" ? STRIPE_FILE_FIELDS[document.purpose] : "evidence_document",
+    name: document.name,
+    mimeType: document.mimeType,
+    sizeBytes: document.sizeBytes,
+    url: document.url,
+  }));
+
+  return { provider, fields, files, truncatedFields, coverage: getEvidenceCoverage(input) };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export type DisputeCategory =
+  | "not_received"
+  | "not_as_described"
+  | "unauthorized"
+  | "credit_not_processed"
+  | "duplicate"
+  | "general";
+
+export interface EvidenceRequirement {
+  label: string;
+  met: (coverage: EvidenceCoverage) => boolean;
+}
+
+export interface DisputePlaybook {
+  category: DisputeCategory;
+  // Provider reason codes (PayPal and Stripe) and free-text patterns
+  reasons: RegExp;
+  // Evidence the reason calls for, beyond the invoice and narrative
+  required: EvidenceRequirement[];
+  guidance: string;
+}
+
+/**
+ * Per-reason evidence playbooks, checked in order; the last one catches
+ * everything else
+ */
+export const DISPUTE_PLAYBOOKS: DisputePlaybook[] = [
+  {
+    category: "not_received",
+    reasons: /not_received|not received/,
+    required: [
+      { label: "carrier tracking", met: c => c.tracking },
+      { label: "delivery confirmation", met: c => c.delivery },
+    ],
+    guidance: "Show the carrier delivered to the address on the order.",
+  },
+  {
+    category: "not_as_described",
+    reasons: /not_as_described|not as described|unacceptable|significantly_not/,
+    required: [
+      { label: "product demonstration or customer communication", met: c => c.productDemo || c.communication },
+      { label: "refund policy", met: c => c.refundPolicy },
+    ],
+    guidance: "Show what the buyer saw before buying and that the return policy was offered.",
+  },
+  {
+    category: "unauthorized",
+    reasons: /unauthori[sz]ed|fraud|unrecognized/,
+    required: [{ label: "prior order history or delivery confirmation", met: c => c.orderHistory || c.delivery }],
+    guidance: "Tie the purchase to the cardholder through past orders or delivery to their address.",
+  },
+  {
+    category: "credit_not_processed",
+    reasons: /credit_not_processed|refund not/,
+    required: [
+      { label: "refund policy", met: c => c.refundPolicy },
+      { label: "customer communication", met: c => c.communication },
+    ],
+    guidance: "Show the buyer was not owed a refund under the policy they were given.",
+  },
+  {
+    category: "duplicate",
+    reasons: /duplicate/,
+    required: [{ label: "prior order history", met: c => c.orderHistory }],
+    guidance: "Show each charge belongs to a separate order.",
+  },
+  {
+    category: "general",
+    reasons: /(?:)/,
+    required: [],
+    guidance: "Explain the transaction with the order, fulfillment and any contact with the buyer.",
+  },
+];
+
+export function getDisputePlaybook(reason: string | null | undefined): DisputePlaybook {
+  const normalized = (reason || "").toLowerCase();
+  return DISPUTE_PLAYBOOKS.find(playbook => playbook.reasons.test(normalized))!;
+}
+
+/**
+ * Check a pack is complete for the dispute reason and within the
+ * provider's size limits before it is submitted
+ */
+export function validateProviderEvidence(evidence: ProviderEvidence, reason?: string | null): EvidenceValidation {
+  const limits = PROVIDER_EVIDENCE_LIMITS[evidence.provider];
+  const missing: string[] = [];
+  const errors: string[] = [];
+
+  if (!evidence.files.some(file => file.field === "receipt" || /^invoice/.test(file.name))) {
+    missing.push("invoice");
+  }
+  const narrativeField = evidence.provider === "PAYPAL" ? "notes" : "uncategorized_text";
+  if (!evidence.fields[narrativeField]) {
+    missing.push("narrative");
+  }
+  for (const requirement of getDisputePlaybook(reason).required) {
+    if (!requirement.met(evidence.coverage)) missing.push(requirement.label);
+  }
+
+  let totalTextChars = 0;
+  for (const [field, value] of Object.entries(evidence.fields)) {
+    totalTextChars += value.length;
+    const max = limits.fieldMaxChars[field] ?? limits.defaultFieldMaxChars;
+    if (value.length > max) errors.push(`${field} is ${value.length} characters (max ${max})`);
+  }
+  if (limits.maxTotalTextChars && totalTextChars > limits.maxTotalTextChars) {
+    errors.push(`Evidence text is ${totalTextChars} characters (max ${limits.maxTotalTextChars})`);
+  }
+
+  if (evidence.files.length > limits.maxFiles) {
+    errors.push(`${evidence.files.length} files attached (max ${limits.maxFiles})`);
+  }
+
+  let totalFileBytes = 0;
+  const usedFields = new Set<string>();
+  for (const file of evidence.files) {
+    totalFileBytes += file.sizeBytes;
+    if (file.sizeBytes > limits.maxFileBytes) {
+      errors.push(`${file.name} is ${file.sizeBytes} bytes (max ${limits.maxFileBytes})`);
+    }
+    if (!limits.mimeTypes.includes(file.mimeType)) {
+      errors.push(`${file.name} has unsupported type ${file.mimeType}`);
+    }
+    if (!file.url) {
+      errors.push(`${file.name} has not been uploaded`);
+    }
+    if (evidence.provider === "STRIPE") {
+      if (usedFields.has(file.field)) errors.push(`More than one file for ${file.field}`);
+      usedFields.add(file.field);
+    }
+  }
+  if (totalFileBytes > limits.maxTotalFileBytes) {
+    errors.push(`Files total ${totalFileBytes} bytes (max ${limits.maxTotalFileBytes})`);
+  }
+
+  return {
+    valid: missing.length === 0 && errors.length === 0,
+    missing,
+    errors,
+    totalTextChars,
+    totalFileBytes,
+  };
+}
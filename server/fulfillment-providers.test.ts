@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  FulfillmentProviderRegistry,
+  LocalFileProvider,
+  ShipBobProvider,
+  mapShipBobStatus,
+  shouldApplyStatus,
+} from "./fulfillment-providers";
+
+const address = {
+  name: "Dana Reyes",
+  line1: "12 Harbor St",
+  city: "Portland",
+  state: "OR",
+  postalCode: "97201",
+  country: "US",
+  phone: "555-0100",
+};
+
+describe("Fulfillment Providers", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "lsn-3pl-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should run an order through the local file provider", async () => {
+    const provider = FulfillmentProviderRegistry.create("LOCAL_FILE", "tpl_1", {
+      directory,
+      webhookSecret: "local-secret",
+    }) as LocalFileProvider;
+    provider.seedInventory([{ sku: "MUG-01", quantity: 5 }]);
+
+    const request = { referenceId: "ord_1", items: [{ sku: "MUG-01", quantity: 2 }], shippingAddress: address, serviceLevel: "STANDARD" as const };
+    const created = await provider.createFulfillmentOrder(request);
+    expect(created).toMatchObject({ providerOrderId: "LF-ORD-000001", status: "PENDING", trackingNumber: "LF1Z0000000001" });
+    expect(fs.existsSync(created.labelUrl!.replace("file://", ""))).toBe(true);
+
+    // Retried with the same reference, nothing new is committed
+    expect((await provider.createFulfillmentOrder(request)).providerOrderId).toBe(created.providerOrderId);
+    expect(await provider.getInventorySnapshot(["MUG-01"])).toEqual([
+      { sku: "MUG-01", onHand: 5, available: 3, committed: 2, inbound: 0 },
+    ]);
+
+    const shipped = provider.advance(created.providerOrderId, "SHIPPED", new Date("2026-06-01T10:00:00Z"));
+    expect(provider.parseWebhook(shipped.body, shipped.headers)).toMatchObject([
+      { providerOrderId: created.providerOrderId, status: "SHIPPED", trackingNumber: "LF1Z0000000001" },
+    ]);
+    expect(() => provider.parseWebhook(shipped.body, { "x-local-signature": "forged" })).toThrow("Invalid");
+    await expect(provider.cancelFulfillmentOrder(created.providerOrderId)).rejects.toThrow("already shipped");
+
+    const asn = await provider.submitAdvanceShipNotice({
+      referenceId: "po_1",
+      expectedArrival: new Date("2026-06-10T00:00:00Z"),
+      items: [{ sku: "MUG-01", quantity: 10 }],
+    });
+    provider.receiveAdvanceShipNotice(asn.providerAsnId);
+
+    // State survives a fresh instance over the same directory
+    const reopened = new LocalFileProvider("tpl_1", { directory });
+    expect(await reopened.getInventorySnapshot()).toEqual([
+      { sku: "MUG-01", onHand: 13, available: 13, committed: 0, inbound: 0 },
+    ]);
+  });
+
+  it("should only move shipment status forward", () => {
+    expect(shouldApplyStatus("PENDING", "SHIPPED")).toBe(true);
+    expect(shouldApplyStatus("DELIVERED", "SHIPPED")).toBe(false);
+    expect(shouldApplyStatus("SHIPPED", "SHIPPED")).toBe(false);
+    expect(shouldApplyStatus("IN_TRANSIT", "EXCEPTION")).toBe(true);
+    expect(shouldApplyStatus("EXCEPTION", "DELIVERED")).toBe(true);
+    expect(shouldApplyStatus("DELIVERED", "CANCELLED")).toBe(false);
+    expect(shouldApplyStatus("DELIVERED", "RETURNED")).toBe(true);
+    expect(shouldApplyStatus("CANCELLED", "SHIPPED")).toBe(false);
+  });
+
+  it("should verify and map ShipBob webhooks", () => {
+    const secret = `whsec_${Buffer.from("shipbob-test-secret").toString("base64")}`;
+    const provider = new ShipBobProvider("tpl_2", { apiKey: "token", webhookSecret: secret });
+    const body = JSON.stringify({
+      topic: "shipment_delivered",
+      data: {
+        id: 9001,
+        order_id: 4411,
+        delivery_date: "2026-06-03T15:20:00Z",
+        tracking: { carrier: "USPS", tracking_number: "9400111", tracking_url: "https://tools.usps.com/?t=9400111" },
+      },
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = crypto
+      .createHmac("sha256", Buffer.from("shipbob-test-secret"))
+      .update(`msg_1.${timestamp}.${body}`)
+      .digest("base64");
+    const headers = { "webhook-id": "msg_1", "webhook-timestamp": timestamp, "webhook-signature": `v1,stale v1,${signature}` };
+
+    expect(provider.parseWebhook(body, headers)).toMatchObject([
+      { providerOrderId: "4411", status: "DELIVERED", carrier: "USPS", occurredAt: new Date("2026-06-03T15:20:00Z") },
+    ]);
+    expect(() => provider.parseWebhook(body.replace("USPS", "UPS"), headers)).toThrow("Invalid ShipBob webhook signature");
+
+    expect(mapShipBobStatus("LabeledCreated")).toBe("LABELED");
+    expect(mapShipBobStatus("OnHold")).toBe("EXCEPTION");
+    expect(mapShipBobStatus("SomethingNew")).toBe("PENDING");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Live Shopping Network - 3PL Fulfillment Providers
+ * Provider interface and types for third-party warehouse integrations
+ */
+
+import type { ShipmentStatus } from "../lsn-inventory-purchasing-3pl-engine";
+
+export interface ProviderCredentials {
+  apiKey?: string;
+  apiEndpoint?: string;
+  webhookSecret?: string;
+  [key: string]: any;
+}
+
+export interface FulfillmentAddress {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  phone: string;
+}
+
+export interface FulfillmentOrderRequest {
+  // Our order id, sent as the provider's reference id so retries are deduplicated
+  referenceId: string;
+  items: Array<{
+    sku: string;
+    quantity: number;
+  }>;
+  shippingAddress: FulfillmentAddress;
+  serviceLevel: "STANDARD" | "EXPRESS" | "OVERNIGHT";
+}
+
+export interface FulfillmentStatus {
+  providerOrderId: string;
+  status: ShipmentStatus;
+  providerStatus: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  carrier?: string;
+  labelUrl?: string;
+  shippedAt?: Date;
+  deliveredAt?: Date;
+}
+
+export interface InventoryLevel {
+  sku: string;
+  onHand: number;
+  available: number;
+  committed: number;
+  inbound: number;
+}
+
+export interface AdvanceShipNotice {
+  // Our purchase order id
+  referenceId: string;
+  expectedArrival: Date;
+  carrier?: string;
+  trackingNumbers?: string[];
+  items: Array<{
+    sku: string;
+    quantity: number;
+    lotNumber?: string;
+    expiryDate?: Date;
+  }>;
+}
+
+export interface AsnResult {
+  providerAsnId: string;
+  status: string;
+  labelUrl?: string;
+}
+
+export interface ProviderWebhookEvent {
+  providerOrderId: string;
+  status: ShipmentStatus;
+  providerStatus: string;
+  occurredAt: Date;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  carrier?: string;
+  description?: string;
+  location?: string;
+  raw: unknown;
+}
+
+type ShipmentRecordStatus =
+  | "ACKNOWLEDGED"
+  | "PICKING"
+  | "PACKING"
+  | "SHIPPED"
+  | "DELIVERED"
+  | "FAILED"
+  | "CANCELED";
+
+// `thirdPartyShipments.status` for each shipment status; the exact status is
+// kept as the tracking event type
+export const SHIPMENT_RECORD_STATUS: Record<ShipmentStatus, ShipmentRecordStatus> = {
+  PENDING: "ACKNOWLEDGED",
+  PICKED: "PICKING",
+  PACKED: "PACKING",
+  LABELED: "PACKING",
+  SHIPPED: "SHIPPED",
+  IN_TRANSIT: "SHIPPED",
+  DELIVERED: "DELIVERED",
+  EXCEPTION: "FAILED",
+  RETURNED: "FAILED",
+  CANCELLED: "CANCELED",
+};
+
+const STATUS_PROGRESS: ShipmentStatus[] = ["PENDING", "PICKED", "PACKED", "LABELED", "SHIPPED", "IN_TRANSIT", "DELIVERED"];
+
+/**
+ * Webhooks arrive out of order and get retried, so a shipment only moves
+ * forward: a late "shipped" never overwrites "delivered". Exceptions,
+ * returns and cancellations apply from any state that isn't final.
+ */
+export function shouldApplyStatus(current: ShipmentStatus, next: ShipmentStatus): boolean {
+  if (current === next) return false;
+  if (current === "CANCELLED" || current === "RETURNED") return false;
+  if (next === "EXCEPTION" || next === "RETURNED" || next === "CANCELLED") return current !== "DELIVERED" || next === "RETURNED";
+  // Tracking resumes after an exception
+  if (current === "EXCEPTION") return true;
+  return STATUS_PROGRESS.indexOf(next) > STATUS_PROGRESS.indexOf(current);
+}
+
+/**
+ * Base class that every 3PL provider must extend
+ */
+export abstract class FulfillmentProvider {
+  protected credentials: ProviderCredentials;
+  protected providerId: string;
+
+  constructor(providerId: string, credentials: ProviderCredentials) {
+    this.providerId = providerId;
+    this.credentials = credentials;
+  }
+
+  /**
+   * Send an order to the 3PL for picking and shipping
+   */
+  abstract createFulfillmentOrder(request: FulfillmentOrderRequest): Promise<FulfillmentStatus>;
+
+  /**
+   * Cancel an order the 3PL has not shipped yet
+   */
+  abstract cancelFulfillmentOrder(providerOrderId: string): Promise<void>;
+
+  /**
+   * Fetch the current status of an order from the 3PL
+   */
+  abstract getFulfillmentStatus(providerOrderId: string): Promise<FulfillmentStatus>;
+
+  /**
+   * Stock levels held at the 3PL
+   */
+  abstract getInventorySnapshot(skus?: string[]): Promise<InventoryLevel[]>;
+
+  /**
+   * Tell the 3PL about an inbound shipment (ASN / warehouse receiving order)
+   */
+  abstract submitAdvanceShipNotice(notice: AdvanceShipNotice): Promise<AsnResult>;
+
+  /**
+   * Verify and parse a status webhook. Throws if the signature is invalid.
+   */
+  abstract parseWebhook(rawBody: string, headers: Record<string, string | undefined>): ProviderWebhookEvent[];
+}
+
+type FulfillmentProviderClass = new (providerId: string, credentials: ProviderCredentials) => FulfillmentProvider;
+
+/**
+ * Registry of providers keyed by `thirdPartyLogisticsProviders.providerType`
+ */
+export class FulfillmentProviderRegistry {
+  private static providers = new Map<string, FulfillmentProviderClass>();
+
+  static register(providerType: string, provider: FulfillmentProviderClass) {
+    this.providers.set(providerType, provider);
+  }
+
+  static get(providerType: string): FulfillmentProviderClass | undefined {
+    return this.providers.get(providerType);
+  }
+
+  static create(
+    providerType: string,
+    providerId: string,
+    credentials: ProviderCredentials
+  ): FulfillmentProvider {
+    const ProviderClass = this.providers.get(providerType);
+    if (!ProviderClass) {
+      throw new Error(`No fulfillment provider registered for type: ${providerType}`);
+    }
+    return new ProviderClass(providerId, credentials);
+  }
+}
@@ -0,0 +1,281 @@
+import {
+  FulfillmentProvider,
+  FulfillmentProviderRegistry,
+  FulfillmentOrderRequest,
+  FulfillmentStatus,
+  InventoryLevel,
+  AdvanceShipNotice,
+  AsnResult,
+  ProviderWebhookEvent,
+  ProviderCredentials,
+} from "./base";
+import type { ShipmentStatus } from "../lsn-inventory-purchasing-3pl-engine";
+import { buildTextPdf } from "../text-pdf";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+interface LocalOrder {
+  id: string;
+  referenceId: string;
+  status: ShipmentStatus;
+  items: FulfillmentOrderRequest["items"];
+  trackingNumber: string;
+  labelUrl: string;
+  shippedAt?: string;
+  deliveredAt?: string;
+}
+
+interface LocalAsn {
+  id: string;
+  referenceId: string;
+  status: "AWAITING" | "RECEIVED";
+  items: AdvanceShipNotice["items"];
+}
+
+interface LocalState {
+  sequence: number;
+  orders: Record<string, LocalOrder>;
+  inventory: Record<string, InventoryLevel>;
+  asns: Record<string, LocalAsn>;
+}
+
+export interface LocalWebhook {
+  body: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Local File Fulfillment Provider
+ * Keeps orders, stock and receiving in a JSON file so the 3PL flow can be
+ * exercised without a real warehouse. Ids and tracking numbers are
+ * sequential, and `advance` plays the warehouse's part by moving an order
+ * along and returning the webhook it would have sent.
+ */
+export class LocalFileProvider extends FulfillmentProvider {
+  private directory: string;
+
+  constructor(providerId: string, credentials: ProviderCredentials) {
+    super(providerId, credentials);
+    if (!credentials.directory) {
+      throw new Error("Local file provider needs a directory in the provider settings");
+    }
+    this.directory = credentials.directory;
+  }
+
+  private get statePath() {
+    return path.join(this.directory, "state.json");
+  }
+
+  private load(): LocalState {
+    if (!fs.existsSync(this.statePath)) {
+      return { sequence: 0, orders: {}, inventory: {}, asns: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.statePath, "utf8"));
+  }
+
+  private save(state: LocalState) {
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.statePath, JSON.stringify(state, null, 2));
+  }
+
+  private nextId(state: LocalState, prefix: string) {
+    state.sequence += 1;
+    return `${prefix}${String(state.sequence).padStart(6, "0")}`;
+  }
+
+  /**
+   * Set stock on hand at the fake warehouse
+   */
+  seedInventory(levels: Array<{ sku: string; quantity: number }>) {
+    const state = this.load();
+    for (const { sku, quantity } of levels) {
+      state.inventory[sku] = { sku, onHand: quantity, available: quantity, committed: 0, inbound: 0 };
+    }
+    this.save(state);
+  }
+
+  async createFulfillmentOrder(request: FulfillmentOrderRequest): Promise<FulfillmentStatus> {
+    const state = this.load();
+
+    // Same reference id, same order: retries don't ship twice
+    const existing = Object.values(state.orders).find((order) => order.referenceId === request.referenceId);
+    if (existing) return this.toStatus(existing);
+
+    const short = request.items.filter((item) => (state.inventory[item.sku]?.available || 0) < item.quantity);
+    if (short.length > 0) {
+      throw new Error(`Local file provider is out of stock for: ${short.map((item) => item.sku).join(", ")}`);
+    }
+
+    for (const item of request.items) {
+      state.inventory[item.sku].available -= item.quantity;
+      state.inventory[item.sku].committed += item.quantity;
+    }
+
+    const id = this.nextId(state, "LF-ORD-");
+    const trackingNumber = `LF1Z${String(state.sequence).padStart(10, "0")}`;
+    const labelPath = path.join(this.directory, "labels", `${id}.pdf`);
+    fs.mkdirSync(path.dirname(labelPath), { recursive: true });
+    fs.writeFileSync(
+      labelPath,
+      buildTextPdf([
+        `SHIP TO: ${request.shippingAddress.name}`,
+        request.shippingAddress.line1,
+        `${request.shippingAddress.city}, ${request.shippingAddress.state} ${request.shippingAddress.postalCode}`,
+        request.shippingAddress.country,
+        "",
+        `TRACKING: ${trackingNumber}`,
+        `REF: ${request.referenceId}`,
+      ])
+    );
+
+    const order: LocalOrder = {
+      id,
+      referenceId: request.referenceId,
+      status: "PENDING",
+      items: request.items,
+      trackingNumber,
+      labelUrl: `file://${labelPath}`,
+    };
+    state.orders[id] = order;
+    this.save(state);
+
+    return this.toStatus(order);
+  }
+
+  async cancelFulfillmentOrder(providerOrderId: string): Promise<void> {
+    const state = this.load();
+    const order = this.getOrder(state, providerOrderId);
+    if (order.status === "CANCELLED") return;
+    if (!["PENDING", "PICKED", "PACKED", "LABELED"].includes(order.status)) {
+      throw new Error(`Order ${providerOrderId} has already shipped`);
+    }
+
+    for (const item of order.items) {
+      state.inventory[item.sku].available += item.quantity;
+      state.inventory[item.sku].committed -= item.quantity;
+    }
+    order.status = "CANCELLED";
+    this.save(state);
+  }
+
+  async getFulfillmentStatus(providerOrderId: string): Promise<FulfillmentStatus> {
+    return this.toStatus(this.getOrder(this.load(), providerOrderId));
+  }
+
+  async getInventorySnapshot(skus?: string[]): Promise<InventoryLevel[]> {
+    return Object.values(this.load().inventory).filter((level) => !skus || skus.includes(level.sku));
+  }
+
+  async submitAdvanceShipNotice(notice: AdvanceShipNotice): Promise<AsnResult> {
+    const state = this.load();
+    const id = this.nextId(state, "LF-ASN-");
+
+    for (const item of notice.items) {
+      const level = (state.inventory[item.sku] ||= { sku: item.sku, onHand: 0, available: 0, committed: 0, inbound: 0 });
+      level.inbound += item.quantity;
+    }
+    state.asns[id] = { id, referenceId: notice.referenceId, status: "AWAITING", items: notice.items };
+    this.save(state);
+
+    return { providerAsnId: id, status: "AWAITING" };
+  }
+
+  /**
+   * Receive an ASN into stock, as the warehouse would on arrival
+   */
+  receiveAdvanceShipNotice(providerAsnId: string) {
+    const state = this.load();
+    const asn = state.asns[providerAsnId];
+    if (!asn) throw new Error(`ASN ${providerAsnId} not found`);
+    if (asn.status === "RECEIVED") return;
+
+    for (const item of asn.items) {
+      const level = state.inventory[item.sku];
+      level.inbound -= item.quantity;
+      level.onHand += item.quantity;
+      level.available += item.quantity;
+    }
+    asn.status = "RECEIVED";
+    this.save(state);
+  }
+
+  /**
+   * Move an order to a new status and return the webhook the warehouse sends
+   */
+  advance(providerOrderId: string, status: ShipmentStatus, occurredAt = new Date()): LocalWebhook {
+    const state = this.load();
+    const order = this.getOrder(state, providerOrderId);
+
+    if (status === "SHIPPED" && !order.shippedAt) {
+      for (const item of order.items) {
+        state.inventory[item.sku].committed -= item.quantity;
+        state.inventory[item.sku].onHand -= item.quantity;
+      }
+      order.shippedAt = occurredAt.toISOString();
+    }
+    if (status === "DELIVERED") order.deliveredAt = occurredAt.toISOString();
+    order.status = status;
+    this.save(state);
+
+    const body = JSON.stringify({
+      orderId: order.id,
+      status,
+      trackingNumber: order.trackingNumber,
+      occurredAt: occurredAt.toISOString(),
+    });
+    const headers: Record<string, string> = {};
+    if (this.credentials.webhookSecret) headers["x-local-signature"] = this.sign(body);
+
+    return { body, headers };
+  }
+
+  parseWebhook(rawBody: string, headers: Record<string, string | undefined>): ProviderWebhookEvent[] {
+    if (this.credentials.webhookSecret) {
+      const signature = headers["x-local-signature"] || "";
+      const expected = this.sign(rawBody);
+      if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        throw new Error("Invalid local file provider webhook signature");
+      }
+    }
+
+    const payload = JSON.parse(rawBody);
+    return [
+      {
+        providerOrderId: payload.orderId,
+        status: payload.status,
+        providerStatus: payload.status,
+        occurredAt: new Date(payload.occurredAt),
+        trackingNumber: payload.trackingNumber,
+        carrier: "LOCAL",
+        raw: payload,
+      },
+    ];
+  }
+
+  private sign(body: string) {
+    return crypto.createHmac("sha256", this.credentials.webhookSecret || "").update(body, "utf8").digest("hex");
+  }
+
+  private getOrder(state: LocalState, providerOrderId: string) {
+    const order = state.orders[providerOrderId];
+    if (!order) throw new Error(`Order ${providerOrderId} not found`);
+    return order;
+  }
+
+  private toStatus(order: LocalOrder): FulfillmentStatus {
+    return {
+      providerOrderId: order.id,
+      status: order.status,
+      providerStatus: order.status,
+      trackingNumber: order.trackingNumber,
+      carrier: "LOCAL",
+      labelUrl: order.labelUrl,
+      shippedAt: order.shippedAt ? new Date(order.shippedAt) : undefined,
+      deliveredAt: order.deliveredAt ? new Date(order.deliveredAt) : undefined,
+    };
+  }
+}
+
+// Register the provider
+FulfillmentProviderRegistry.register("LOCAL_FILE", LocalFileProvider);
@@ -0,0 +1,8 @@
+/**
+ * Live Shopping Network - 3PL Fulfillment Providers
+ * Importing this module registers every provider
+ */
+
+export * from "./base";
+export { ShipBobProvider, mapShipBobStatus, verifyShipBobSignature } from "./shipbob";
+export { LocalFileProvider, type LocalWebhook } from "./file-fake";
@@ -0,0 +1,259 @@
+import {
+  FulfillmentProvider,
+  FulfillmentProviderRegistry,
+  FulfillmentOrderRequest,
+  FulfillmentStatus,
+  InventoryLevel,
+  AdvanceShipNotice,
+  AsnResult,
+  ProviderWebhookEvent,
+  ProviderCredentials,
+} from "./base";
+import type { ShipmentStatus } from "../lsn-inventory-purchasing-3pl-engine";
+import crypto from "crypto";
+
+const SHIPBOB_STATUS: Record<string, ShipmentStatus> = {
+  None: "PENDING",
+  ImportReview: "PENDING",
+  Processing: "PENDING",
+  LabeledCreated: "LABELED",
+  PartiallyFulfilled: "SHIPPED",
+  Completed: "SHIPPED",
+  Fulfilled: "SHIPPED",
+  Delivered: "DELIVERED",
+  Exception: "EXCEPTION",
+  OnHold: "EXCEPTION",
+  Cancelled: "CANCELLED",
+};
+
+const SHIPBOB_TOPIC_STATUS: Record<string, ShipmentStatus> = {
+  order_shipped: "SHIPPED",
+  shipment_delivered: "DELIVERED",
+  shipment_exception: "EXCEPTION",
+  shipment_onhold: "EXCEPTION",
+  shipment_cancelled: "CANCELLED",
+};
+
+const SHIPBOB_SHIPPING_METHOD: Record<FulfillmentOrderRequest["serviceLevel"], string> = {
+  STANDARD: "Standard",
+  EXPRESS: "Expedited",
+  OVERNIGHT: "Overnight",
+};
+
+// Webhooks older than this are rejected as replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export function mapShipBobStatus(status: string | undefined): ShipmentStatus {
+  return (status && SHIPBOB_STATUS[status]) || "PENDING";
+}
+
+/**
+ * Verify a Standard Webhooks signature: base64 HMAC-SHA256 over
+ * `${webhook-id}.${webhook-timestamp}.${body}` keyed with the `whsec_` secret.
+ */
+export function verifyShipBobSignature(
+  rawBody: string,
+  headers: Record<string, string | undefined>,
+  secret: string,
+  now = new Date()
+): boolean {
+  const id = headers["webhook-id"];
+  const timestamp = headers["webhook-timestamp"];
+  const signatures = headers["webhook-signature"];
+  if (!id || !timestamp || !signatures) return false;
+
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  const expected = crypto.createHmac("sha256", key).update(`${id}.${timestamp}.${rawBody}`, "utf8").digest();
+
+  // The header can carry several space-separated "v1,<signature>" entries during secret rotation
+  return signatures.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    if (version !== "v1" || !signature) return false;
+    const given = Buffer.from(signature, "base64");
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  });
+}
+
+/**
+ * ShipBob Fulfillment Provider
+ * Integrates with the ShipBob 1.0 API
+ */
+export class ShipBobProvider extends FulfillmentProvider {
+  private baseUrl: string;
+
+  constructor(providerId: string, credentials: ProviderCredentials) {
+    super(providerId, credentials);
+    this.baseUrl = credentials.apiEndpoint || "https://api.shipbob.com/1.0";
+  }
+
+  private async request(endpoint: string, options: RequestInit = {}) {
+    const url = `${this.baseUrl}${endpoint}`;
+    const headers = {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${this.credentials.apiKey || ""}`,
+      ...(this.credentials.channelId ? { shipbob_channel_id: String(this.credentials.channelId) } : {}),
+      ...options.headers,
+    };
+
+    const response = await fetch(url, { ...options, headers });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`ShipBob API error: ${response.status} - ${error}`);
+    }
+
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }
+
+  async createFulfillmentOrder(request: FulfillmentOrderRequest): Promise<FulfillmentStatus> {
+    const { shippingAddress } = request;
+    const order = await this.request("/order", {
+      method: "POST",
+      body: JSON.stringify({
+        reference_id: request.referenceId,
+        shipping_method: SHIPBOB_SHIPPING_METHOD[request.serviceLevel],
+        recipient: {
+          name: shippingAddress.name,
+          phone_number: shippingAddress.phone,
+          address: {
+            address1: shippingAddress.line1,
+            address2: shippingAddress.line2,
+            city: shippingAddress.city,
+            state: shippingAddress.state,
+            zip_code: shippingAddress.postalCode,
+            country: shippingAddress.country,
+          },
+        },
+        products: request.items.map((item) => ({
+          reference_id: item.sku,
+          quantity: item.quantity,
+        })),
+      }),
+    });
+
+    return this.mapOrder(order);
+  }
+
+  async cancelFulfillmentOrder(providerOrderId: string): Promise<void> {
+    await this.request(`/order/${providerOrderId}/cancel`, { method: "POST" });
+  }
+
+  async getFulfillmentStatus(providerOrderId: string): Promise<FulfillmentStatus> {
+    const order = await this.request(`/order/${providerOrderId}`);
+    return this.mapOrder(order);
+  }
+
+  async getInventorySnapshot(skus?: string[]): Promise<InventoryLevel[]> {
+    const items: any[] = (await this.request("/inventory?Limit=250")) || [];
+
+    return items
+      .map((item) => ({
+        sku: item.sku || item.name,
+        onHand: item.total_onhand_quantity || 0,
+        available: item.total_fulfillable_quantity || 0,
+        committed: item.total_committed_quantity || 0,
+        inbound: item.total_awaiting_quantity || 0,
+      }))
+      .filter((level) => !skus || skus.includes(level.sku));
+  }
+
+  async submitAdvanceShipNotice(notice: AdvanceShipNotice): Promise<AsnResult> {
+    const fulfillmentCenterId = this.credentials.fulfillmentCenterId;
+    if (!fulfillmentCenterId) {
+      throw new Error("ShipBob receiving orders need a fulfillmentCenterId in the provider settings");
+    }
+
+    // Receiving orders reference ShipBob inventory ids, not SKUs
+    const inventory: any[] = (await this.request("/inventory?Limit=250")) || [];
+    const inventoryIds = new Map(inventory.map((item) => [item.sku || item.name, item.id]));
+    const missing = notice.items.filter((item) => !inventoryIds.has(item.sku)).map((item) => item.sku);
+    if (missing.length > 0) {
+      throw new Error(`SKUs not set up in ShipBob: ${missing.join(", ")}`);
+    }
+
+    const receiving = await this.request("/receiving", {
+      method: "POST",
+      body: JSON.stringify({
+        fulfillment_center: { id: fulfillmentCenterId },
+        package_type: "Package",
+        box_packaging_type: "EverythingInOneBox",
+        expected_arrival_date: notice.expectedArrival.toISOString(),
+        purchase_order_number: notice.referenceId,
+        boxes: [
+          {
+            tracking_number: notice.trackingNumbers?.[0] || "",
+            box_items: notice.items.map((item) => ({
+              inventory_id: inventoryIds.get(item.sku),
+              quantity: item.quantity,
+              lot_number: item.lotNumber,
+              lot_date: item.expiryDate?.toISOString(),
+            })),
+          },
+        ],
+      }),
+    });
+
+    return {
+      providerAsnId: String(receiving.id),
+      status: receiving.status,
+      labelUrl: receiving.box_labels_uri,
+    };
+  }
+
+  parseWebhook(rawBody: string, headers: Record<string, string | undefined>): ProviderWebhookEvent[] {
+    if (!verifyShipBobSignature(rawBody, headers, this.credentials.webhookSecret || "")) {
+      throw new Error("Invalid ShipBob webhook signature");
+    }
+
+    const payload = JSON.parse(rawBody);
+    const topic = headers["shipbob-topic"] || payload.topic;
+    const status = SHIPBOB_TOPIC_STATUS[topic];
+    // Topics we don't track (e.g. order_created) are acknowledged and dropped
+    if (!status) return [];
+
+    const shipment = payload.data || payload;
+    const tracking = shipment.tracking || {};
+    const occurredAt =
+      (status === "DELIVERED" && shipment.delivery_date) ||
+      (status === "SHIPPED" && shipment.actual_fulfillment_date) ||
+      shipment.last_update_at ||
+      Number(headers["webhook-timestamp"]) * 1000;
+
+    return [
+      {
+        providerOrderId: String(shipment.order_id ?? shipment.id),
+        status,
+        providerStatus: topic,
+        occurredAt: occurredAt ? new Date(occurredAt) : new Date(),
+        trackingNumber: tracking.tracking_number,
+        trackingUrl: tracking.tracking_url,
+        carrier: tracking.carrier,
+        description: shipment.status_details?.[0]?.description,
+        raw: payload,
+      },
+    ];
+  }
+
+  private mapOrder(order: any): FulfillmentStatus {
+    const shipment = order.shipments?.[0] || {};
+    const tracking = shipment.tracking || {};
+    const delivered = Boolean(shipment.delivery_date);
+
+    return {
+      providerOrderId: String(order.id),
+      status: delivered ? "DELIVERED" : mapShipBobStatus(shipment.status || order.status),
+      providerStatus: shipment.status || order.status,
+      trackingNumber: tracking.tracking_number,
+      trackingUrl: tracking.tracking_url,
+      carrier: tracking.carrier,
+      shippedAt: shipment.actual_fulfillment_date ? new Date(shipment.actual_fulfillment_date) : undefined,
+      deliveredAt: delivered ? new Date(shipment.delivery_date) : undefined,
+    };
+  }
+}
+
+// Register the provider
+FulfillmentProviderRegistry.register("SHIPBOB", ShipBobProvider);
@@ -0,0 +1,320 @@
+/**
+ * Live Shopping Network - 3PL Shipments
+ * Sends orders to the warehouse's 3PL and keeps third_party_shipments in
+ * step with what the provider reports, by webhook or by polling
+ */
+
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { ulid } from "ulid";
+import {
+  products,
+  thirdPartyLogisticsProviders,
+  thirdPartyShipments,
+  thirdPartyTrackingEvents,
+  warehouses,
+} from "../../drizzle/schema";
+import { getDb } from "../db";
+import type { ShipmentStatus, ThreePLShipmentRequest } from "../lsn-inventory-purchasing-3pl-engine";
+import {
+  FulfillmentProviderRegistry,
+  SHIPMENT_RECORD_STATUS,
+  shouldApplyStatus,
+  type AdvanceShipNotice,
+  type AsnResult,
+  type FulfillmentStatus,
+  type InventoryLevel,
+  type ProviderWebhookEvent,
+} from "./index";
+
+export class ThreePLShipments {
+  /**
+   * Create shipment by sending the order to the 3PL that runs the warehouse
+   */
+  static async createShipment(request: ThreePLShipmentRequest): Promise<string> {
+    const database = await this.getDatabase();
+    const { row, provider } = await this.resolveWarehouseProvider(request.warehouseId);
+    if (request.providerId && request.providerId !== row.id) {
+      throw new Error(`Warehouse ${request.warehouseId} is fulfilled by ${row.name}, not provider ${request.providerId}`);
+    }
+
+    // One live shipment per order and provider; retries return it
+    const [existing] = await database
+      .select()
+      .from(thirdPartyShipments)
+      .where(and(eq(thirdPartyShipments.orderId, request.orderId), eq(thirdPartyShipments.providerId, row.id)))
+      .orderBy(desc(thirdPartyShipments.createdAt))
+      .limit(1);
+    if (existing && existing.status !== "CANCELED") return existing.id;
+
+    const productIds = request.items.map((item) => item.productId);
+    const productRows = await database
+      .select({ id: products.id, sku: products.sku })
+      .from(products)
+      .where(inArray(products.id, productIds));
+    const skus = new Map(productRows.map((product) => [product.id, product.sku]));
+    const missing = productIds.filter((id) => !skus.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Products not found: ${missing.join(", ")}`);
+    }
+
+    const result = await provider.createFulfillmentOrder({
+      referenceId: request.orderId,
+      items: request.items.map((item) => ({ sku: skus.get(item.productId)!, quantity: item.quantity })),
+      shippingAddress: request.shippingAddress,
+      serviceLevel: request.serviceLevel,
+    });
+
+    const shipmentId = ulid();
+    const now = new Date();
+    await database.insert(thirdPartyShipments).values({
+      id: shipmentId,
+      channelId: row.channelId,
+      providerId: row.id,
+      orderId: request.orderId,
+      providerShipmentId: result.providerOrderId,
+      status: SHIPMENT_RECORD_STATUS[result.status],
+      trackingNumber: result.trackingNumber,
+      trackingUrl: result.trackingUrl,
+      labelUrl: result.labelUrl,
+      carrier: result.carrier,
+      serviceLevel: request.serviceLevel,
+      sentAt: now,
+      acknowledgedAt: now,
+      lastSyncAt: now,
+      providerData: { status: result.status, providerStatus: result.providerStatus },
+    });
+
+    await database.insert(thirdPartyTrackingEvents).values({
+      id: ulid(),
+      channelId: row.channelId,
+      shipmentId,
+      eventType: result.status,
+      eventCode: result.providerStatus,
+      description: `Sent to ${row.name}`,
+      eventTime: now,
+    });
+
+    return shipmentId;
+  }
+
+  /**
+   * Shipping label from the 3PL. Providers that buy labels themselves only
+   * have one once the order is packed.
+   */
+  static async generateLabel(shipmentId: string): Promise<string> {
+    const shipment = await this.getShipment(shipmentId);
+    if (shipment.labelUrl) return shipment.labelUrl;
+
+    const status = await this.syncShipmentStatus(shipmentId);
+    if (!status.labelUrl) {
+      throw new Error(`No label from the 3PL for shipment ${shipmentId} yet`);
+    }
+    return status.labelUrl;
+  }
+
+  /**
+   * Cancel a shipment the 3PL has not shipped yet
+   */
+  static async cancelShipment(shipmentId: string): Promise<void> {
+    const shipment = await this.getShipment(shipmentId);
+    if (shipment.status === "CANCELED") return;
+    if (!shipment.providerShipmentId) {
+      throw new Error(`Shipment ${shipmentId} was never sent to the 3PL`);
+    }
+
+    const { provider } = await this.loadProvider(shipment.providerId);
+    await provider.cancelFulfillmentOrder(shipment.providerShipmentId);
+
+    await this.applyProviderEvent(shipment.providerId, {
+      providerOrderId: shipment.providerShipmentId,
+      status: "CANCELLED",
+      providerStatus: "CANCELLED",
+      occurredAt: new Date(),
+      description: "Canceled with the 3PL",
+      raw: null,
+    });
+  }
+
+  /**
+   * Poll the 3PL for a shipment's status, for providers or events that
+   * didn't arrive by webhook
+   */
+  static async syncShipmentStatus(shipmentId: string): Promise<FulfillmentStatus> {
+    const database = await this.getDatabase();
+    const shipment = await this.getShipment(shipmentId);
+    if (!shipment.providerShipmentId) {
+      throw new Error(`Shipment ${shipmentId} was never sent to the 3PL`);
+    }
+
+    const { provider } = await this.loadProvider(shipment.providerId);
+    const status = await provider.getFulfillmentStatus(shipment.providerShipmentId);
+
+    await this.applyProviderEvent(shipment.providerId, {
+      providerOrderId: status.providerOrderId,
+      status: status.status,
+      providerStatus: status.providerStatus,
+      occurredAt: status.deliveredAt || status.shippedAt || new Date(),
+      trackingNumber: status.trackingNumber,
+      trackingUrl: status.trackingUrl,
+      carrier: status.carrier,
+      raw: status,
+    });
+
+    await database
+      .update(thirdPartyShipments)
+      .set({ labelUrl: status.labelUrl ?? shipment.labelUrl, lastSyncAt: new Date() })
+      .where(eq(thirdPartyShipments.id, shipmentId));
+
+    return status;
+  }
+
+  /**
+   * Stock held at the warehouse's 3PL
+   */
+  static async getProviderInventory(warehouseId: string, skus?: string[]): Promise<InventoryLevel[]> {
+    const { provider } = await this.resolveWarehouseProvider(warehouseId);
+    return provider.getInventorySnapshot(skus);
+  }
+
+  /**
+   * Tell the warehouse's 3PL about an inbound purchase order
+   */
+  static async submitAdvanceShipNotice(warehouseId: string, notice: AdvanceShipNotice): Promise<AsnResult> {
+    const { provider } = await this.resolveWarehouseProvider(warehouseId);
+    return provider.submitAdvanceShipNotice(notice);
+  }
+
+  /**
+   * Verify and apply a status webhook from a 3PL
+   */
+  static async handleProviderWebhook(
+    providerId: string,
+    rawBody: string,
+    headers: Record<string, string | undefined>
+  ): Promise<{ received: number; applied: number }> {
+    const { provider } = await this.loadProvider(providerId);
+    const events = provider.parseWebhook(rawBody, headers);
+
+    let applied = 0;
+    for (const event of events) {
+      if (await this.applyProviderEvent(providerId, event)) applied++;
+    }
+
+    return { received: events.length, applied };
+  }
+
+  /**
+   * Record a provider event against its shipment. Replayed events are
+   * dropped and the status only moves forward (see `shouldApplyStatus`).
+   */
+  private static async applyProviderEvent(providerId: string, event: ProviderWebhookEvent): Promise<boolean> {
+    const database = await this.getDatabase();
+    const [shipment] = await database
+      .select()
+      .from(thirdPartyShipments)
+      .where(
+        and(
+          eq(thirdPartyShipments.providerId, providerId),
+          eq(thirdPartyShipments.providerShipmentId, event.providerOrderId)
+        )
+      )
+      .limit(1);
+    if (!shipment) return false;
+
+    const [duplicate] = await database
+      .select({ id: thirdPartyTrackingEvents.id })
+      .from(thirdPartyTrackingEvents)
+      .where(
+        and(
+          eq(thirdPartyTrackingEvents.shipmentId, shipment.id),
+          eq(thirdPartyTrackingEvents.eventType, event.status),
+          eq(thirdPartyTrackingEvents.eventTime, event.occurredAt)
+        )
+      )
+      .limit(1);
+    if (duplicate) return false;
+
+    await database.insert(thirdPartyTrackingEvents).values({
+      id: ulid(),
+      channelId: shipment.channelId,
+      shipmentId: shipment.id,
+      eventType: event.status,
+      eventCode: event.providerStatus,
+      description: event.description,
+      location: event.location,
+      eventTime: event.occurredAt,
+      providerData: event.raw,
+    });
+
+    const current = ((shipment.providerData as { status?: ShipmentStatus } | null)?.status || "PENDING") as ShipmentStatus;
+    if (!shouldApplyStatus(current, event.status)) return false;
+
+    const shipped = ["SHIPPED", "IN_TRANSIT", "DELIVERED"].includes(event.status);
+    await database
+      .update(thirdPartyShipments)
+      .set({
+        status: SHIPMENT_RECORD_STATUS[event.status],
+        trackingNumber: event.trackingNumber ?? shipment.trackingNumber,
+        trackingUrl: event.trackingUrl ?? shipment.trackingUrl,
+        carrier: event.carrier ?? shipment.carrier,
+        shippedAt: shipped ? shipment.shippedAt ?? event.occurredAt : shipment.shippedAt,
+        deliveredAt: event.status === "DELIVERED" ? event.occurredAt : shipment.deliveredAt,
+        lastSyncAt: new Date(),
+        providerData: { status: event.status, providerStatus: event.providerStatus },
+      })
+      .where(eq(thirdPartyShipments.id, shipment.id));
+
+    return true;
+  }
+
+  private static async getShipment(shipmentId: string) {
+    const database = await this.getDatabase();
+    const [shipment] = await database
+      .select()
+      .from(thirdPartyShipments)
+      .where(eq(thirdPartyShipments.id, shipmentId))
+      .limit(1);
+    if (!shipment) throw new Error(`Shipment ${shipmentId} not found`);
+    return shipment;
+  }
+
+  private static async resolveWarehouseProvider(warehouseId: string) {
+    const database = await this.getDatabase();
+    const [warehouse] = await database
+      .select()
+      .from(warehouses)
+      .where(eq(warehouses.id, warehouseId))
+      .limit(1);
+    if (!warehouse) throw new Error(`Warehouse ${warehouseId} not found`);
+    if (!warehouse.fulfillmentProviderId) {
+      throw new Error(`Warehouse ${warehouse.code} is not fulfilled by a 3PL`);
+    }
+    return this.loadProvider(warehouse.fulfillmentProviderId);
+  }
+
+  private static async loadProvider(providerId: string) {
+    const database = await this.getDatabase();
+    const [row] = await database
+      .select()
+      .from(thirdPartyLogisticsProviders)
+      .where(eq(thirdPartyLogisticsProviders.id, providerId))
+      .limit(1);
+    if (!row) throw new Error(`3PL provider ${providerId} not found`);
+    if (row.status === "DISABLED") throw new Error(`3PL provider ${row.name} is disabled`);
+
+    const provider = FulfillmentProviderRegistry.create(row.providerType, row.id, {
+      ...(row.settings as Record<string, any> | null),
+      apiEndpoint: row.apiEndpoint ?? undefined,
+      // Keys are stored as issued until key encryption lands
+      apiKey: row.apiKeyEnc ?? undefined,
+      webhookSecret: row.webhookSecret ?? undefined,
+    });
+    return { row, provider };
+  }
+
+  private static async getDatabase() {
+    const database = await getDb();
+    if (!database) throw new Error("Database not available");
+    return database;
+  }
+}
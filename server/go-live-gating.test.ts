@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({ getDb: vi.fn() }));
+vi.mock("./_core/llm", () => ({ invokeLLM: vi.fn() }));
+vi.mock("./_core/notification", () => ({ notifyOwner: vi.fn() }));
+// No probes registered, so every readiness check passes
+vi.mock("./readiness-probes", () => ({}));
+vi.mock("./rtmp-ingestion", () => ({ onStreamHealth: vi.fn() }));
+
+import { goLiveGuardSystem, readinessChecker } from "./go-live-gating";
+
+async function armFor(showId?: string) {
+  const check = await readinessChecker.runReadinessCheck({ productId: "product-1", showId });
+  return goLiveGuardSystem.armGuard({ productId: "product-1", showId, readinessCheckId: check.id, armedBy: "7" });
+}
+
+describe("Go-Live Guard System", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("clears the show a guard was armed for", async () => {
+    const guard = await armFor("show-1");
+
+    await expect(goLiveGuardSystem.verifyShowCleared({ guardId: guard.id, showId: "show-1" }))
+      .resolves.toEqual({ cleared: true });
+  });
+
+  it("refuses a guard id it never armed", async () => {
+    await expect(goLiveGuardSystem.verifyShowCleared({ guardId: "guard_made_up", showId: "show-1" }))
+      .resolves.toEqual({ cleared: false, reason: "guard guard_made_up not found" });
+  });
+
+  it("refuses a guard armed for another show or for no show", async () => {
+    const otherShow = await armFor("show-2");
+    const productOnly = await armFor();
+
+    for (const guard of [otherShow, productOnly]) {
+      await expect(goLiveGuardSystem.verifyShowCleared({ guardId: guard.id, showId: "show-1" }))
+        .resolves.toEqual({ cleared: false, reason: `guard ${guard.id} is not armed for show show-1` });
+    }
+  });
+
+  it("refuses a guard once it is aborted", async () => {
+    const guard = await armFor("show-1");
+    await goLiveGuardSystem.abortLaunch({ guardId: guard.id, abortedBy: "7", reason: "Host is ill" });
+
+    await expect(goLiveGuardSystem.verifyShowCleared({ guardId: guard.id, showId: "show-1" }))
+      .resolves.toMatchObject({ cleared: false });
+  });
+});
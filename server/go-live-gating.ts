@@ -6,7 +6,7 @@
  * preparation, missing inventory, or compliance issues.
  * 
  * Features:
- * - 12-point readiness validation system
+ * - Pluggable readiness checks with per-channel blocking (readiness-checks.ts)
  * - Test stream success verification
  * - Asset pack completeness check
  * - Host handoff workflow
@@ -30,6 +30,17 @@ import { getDb } from "./db";
 import { eq, desc, and, gte, lte, sql, inArray } from "drizzle-orm";
 import { invokeLLM } from "./_core/llm";
 import { notifyOwner } from "./_core/notification";
+import { channels } from "../drizzle/schema";
+import {
+  calculateWeightedScore,
+  getArmingBlockers,
+  getChannelReadinessPolicy,
+  readinessCheckRegistry,
+  runReadinessPlugins,
+  type ChannelReadinessPolicy,
+} from "./readiness-checks";
+import "./readiness-probes";
+import { onStreamHealth, type StreamHealth } from "./rtmp-ingestion";
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -39,6 +50,7 @@ export interface ReadinessCheck {
   id: string;
   productId: string;
   showId?: string;
+  channelId?: string;
   status: "pending" | "in_progress" | "passed" | "failed" | "overridden";
   overallScore: number; // 0-100
   checks: ReadinessCheckPoint[];
@@ -59,6 +71,7 @@ export interface ReadinessCheckPoint {
   status: "pending" | "checking" | "passed" | "failed" | "skipped";
   required: boolean; // If true, must pass for go-live
   score: number; // 0-100
+  weight?: number; // Share of the overall score
   details: string;
   evidence?: any; // Supporting data
   checkedAt?: Date;
@@ -171,6 +184,29 @@ export interface PostLaunchMonitor {
 // READINESS CHECKER
 // ============================================================================
 
+// A readiness check older than this can't arm a guard; probes go stale
+export const READINESS_MAX_AGE_MS = 30 * 60 * 1000;
+
+// Readiness checks are not persisted yet; armGuard reads them from here
+const recentReadinessChecks = new Map<string, ReadinessCheck>();
+
+// Guards by id, likewise in memory; an id not in here clears nothing
+const goLiveGuards = new Map<string, GoLiveGuard>();
+
+// Post-launch monitors by show, likewise in memory
+const postLaunchMonitors = new Map<string, PostLaunchMonitor>();
+
+async function loadChannelReadinessPolicy(channelId?: string): Promise<ChannelReadinessPolicy> {
+  if (!channelId) return {};
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [channel] = await db.select({ settings: channels.settings }).from(channels).where(eq(channels.id, channelId)).limit(1);
+  if (!channel) throw new Error(`Channel ${channelId} not found`);
+  return getChannelReadinessPolicy(channel.settings);
+}
+
 export class ReadinessChecker {
   /**
    * Run comprehensive readiness check
@@ -178,32 +214,18 @@ export class ReadinessChecker {
   async runReadinessCheck(params: {
     productId: string;
     showId?: string;
+    channelId?: string;
   }): Promise<ReadinessCheck> {
-    const { productId, showId } = params;
+    const { productId, showId, channelId } = params;
 
-    const checks: ReadinessCheckPoint[] = [];
-
-    // Run all 12 check categories
-    checks.push(await this.checkTestStreamSuccess(productId));
-    checks.push(await this.checkAssetCompleteness(productId));
-    checks.push(await this.checkInventoryAvailability(productId));
-    checks.push(await this.checkPaymentGatewayHealth());
-    checks.push(await this.checkComplianceStatus(productId));
-    checks.push(await this.checkPlatformAccounts());
-    checks.push(await this.checkHostReadiness(showId));
-    checks.push(await this.checkOperationsCapacity());
-    checks.push(await this.checkLegalClearance(productId));
-    checks.push(await this.checkTechnicalInfrastructure());
-    checks.push(await this.checkMarketingMaterials(productId));
-    checks.push(await this.checkSupportReadiness());
+    const policy = await loadChannelReadinessPolicy(channelId);
+    const checks = await runReadinessPlugins(readinessCheckRegistry.list(), { productId, showId, channelId }, policy);
 
     // Calculate overall score
-    const overallScore = this.calculateOverallScore(checks);
+    const overallScore = calculateWeightedScore(checks);
 
     // Identify blockers and warnings
-    const blockers = checks
-      .filter((c) => c.required && c.status === "failed")
-      .map((c) => c.name);
+    const blockers = getArmingBlockers(checks, policy);
 
     const warnings = checks
       .filter((c) => !c.required && c.status === "failed")
@@ -216,6 +238,7 @@ export class ReadinessChecker {
       id: `readiness_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       productId,
       showId,
+      channelId,
       status: blockers.length > 0 ? "failed" : "passed",
       overallScore,
       checks,
@@ -240,397 +263,41 @@ export class ReadinessChecker {
   }
 
   /**
-   * Check 1: Test Stream Success
-   */
-  private async checkTestStreamSuccess(productId: string): Promise<ReadinessCheckPoint> {
-    const db = await getDb();
-
-    // Fetch test stream results
-    // const testStreams = await db.select()...
-
-    // Check if at least one test stream passed
-    const hasSuccessfulTest = true; // Placeholder
-
-    return {
-      id: "check_test_stream",
-      category: "test_stream",
-      name: "Test Stream Success",
-      description: "At least one test stream must achieve success criteria",
-      status: hasSuccessfulTest ? "passed" : "failed",
-      required: true,
-      score: hasSuccessfulTest ? 100 : 0,
-      details: hasSuccessfulTest
-        ? "Test stream met all success criteria"
-        : "No successful test streams found",
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 2: Asset Completeness
-   */
-  private async checkAssetCompleteness(productId: string): Promise<ReadinessCheckPoint> {
-    const db = await getDb();
-
-    // Check for required assets
-    const requiredAssets = [
-      "thumbnail",
-      "host_script",
-      "obs_scene_pack",
-      "product_images",
-      "moderator_macros",
-    ];
-
-    // Fetch assets
-    // const assets = await db.select()...
-
-    const missingAssets: string[] = []; // Placeholder
-    const completionRate = ((requiredAssets.length - missingAssets.length) / requiredAssets.length) * 100;
-
-    return {
-      id: "check_assets",
-      category: "assets",
-      name: "Asset Pack Completeness",
-      description: "All required creative assets must be generated and approved",
-      status: missingAssets.length === 0 ? "passed" : "failed",
-      required: true,
-      score: completionRate,
-      details:
-        missingAssets.length === 0
-          ? "All required assets present"
-          : `Missing assets: ${missingAssets.join(", ")}`,
-      evidence: { requiredAssets, missingAssets },
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 3: Inventory Availability
-   */
-  private async checkInventoryAvailability(productId: string): Promise<ReadinessCheckPoint> {
-    const db = await getDb();
-
-    // Check inventory levels
-    // const inventory = await db.select()...
-
-    const availableUnits = 500; // Placeholder
-    const minimumRequired = 100;
-    const hasEnoughInventory = availableUnits >= minimumRequired;
-
-    return {
-      id: "check_inventory",
-      category: "inventory",
-      name: "Inventory Availability",
-      description: "Sufficient inventory must be available to fulfill expected demand",
-      status: hasEnoughInventory ? "passed" : "failed",
-      required: true,
-      score: Math.min((availableUnits / minimumRequired) * 100, 100),
-      details: `${availableUnits} units available (minimum: ${minimumRequired})`,
-      evidence: { availableUnits, minimumRequired },
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 4: Payment Gateway Health
-   */
-  private async checkPaymentGatewayHealth(): Promise<ReadinessCheckPoint> {
-    // Check Stripe, PayPal, etc. health
-    const gateways = ["stripe", "paypal"];
-    const healthyGateways: string[] = [];
-    const unhealthyGateways: string[] = [];
-
-    for (const gateway of gateways) {
-      const isHealthy = await this.checkGatewayHealth(gateway);
-      if (isHealthy) {
-        healthyGateways.push(gateway);
-      } else {
-        unhealthyGateways.push(gateway);
-      }
-    }
-
-    const allHealthy = unhealthyGateways.length === 0;
-
-    return {
-      id: "check_payments",
-      category: "payments",
-      name: "Payment Gateway Health",
-      description: "All payment gateways must be operational",
-      status: allHealthy ? "passed" : "failed",
-      required: true,
-      score: (healthyGateways.length / gateways.length) * 100,
-      details: allHealthy
-        ? "All payment gateways operational"
-        : `Unhealthy gateways: ${unhealthyGateways.join(", ")}`,
-      evidence: { healthyGateways, unhealthyGateways },
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 5: Compliance Status
+   * Get a readiness check run in this process
    */
-  private async checkComplianceStatus(productId: string): Promise<ReadinessCheckPoint> {
-    const db = await getDb();
-
-    // Check compliance review status
-    // const complianceReview = await db.select()...
-
-    const isApproved = true; // Placeholder
-    const hasViolations = false;
-
-    return {
-      id: "check_compliance",
-      category: "compliance",
-      name: "Compliance Review",
-      description: "Product and marketing materials must pass compliance review",
-      status: isApproved && !hasViolations ? "passed" : "failed",
-      required: true,
-      score: isApproved && !hasViolations ? 100 : 0,
-      details: isApproved
-        ? "Compliance review approved"
-        : "Compliance review pending or has violations",
-      checkedAt: new Date(),
-    };
+  getCheck(id: string): ReadinessCheck | undefined {
+    return recentReadinessChecks.get(id);
   }
 
   /**
-   * Check 6: Platform Accounts
+   * Set which checks block arming for a channel, and which it skips
    */
-  private async checkPlatformAccounts(): Promise<ReadinessCheckPoint> {
-    const platforms = ["tiktok", "youtube", "facebook"];
-    const activeAccounts: string[] = [];
-    const inactiveAccounts: string[] = [];
-
-    for (const platform of platforms) {
-      const isActive = await this.checkPlatformAccountStatus(platform);
-      if (isActive) {
-        activeAccounts.push(platform);
-      } else {
-        inactiveAccounts.push(platform);
-      }
-    }
-
-    const allActive = inactiveAccounts.length === 0;
-
-    return {
-      id: "check_platforms",
-      category: "platform",
-      name: "Platform Account Status",
-      description: "All streaming platform accounts must be active and in good standing",
-      status: allActive ? "passed" : "failed",
-      required: true,
-      score: (activeAccounts.length / platforms.length) * 100,
-      details: allActive
-        ? "All platform accounts active"
-        : `Inactive accounts: ${inactiveAccounts.join(", ")}`,
-      evidence: { activeAccounts, inactiveAccounts },
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 7: Host Readiness
-   */
-  private async checkHostReadiness(showId?: string): Promise<ReadinessCheckPoint> {
-    if (!showId) {
-      return {
-        id: "check_host",
-        category: "host",
-        name: "Host Readiness",
-        description: "Host must be assigned and confirmed",
-        status: "skipped",
-        required: true,
-        score: 0,
-        details: "No show ID provided",
-        checkedAt: new Date(),
-      };
+  async setChannelPolicy(channelId: string, policy: ChannelReadinessPolicy): Promise<ChannelReadinessPolicy> {
+    const unknown = [...(policy.blocking ?? []), ...(policy.disabled ?? [])].filter(
+      (id) => !readinessCheckRegistry.get(id)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Unknown readiness checks: ${unknown.join(", ")}`);
     }
 
     const db = await getDb();
+    if (!db) throw new Error("Database not available");
 
-    // Check host assignment and confirmation
-    // const show = await db.select()...
+    const [channel] = await db.select({ settings: channels.settings }).from(channels).where(eq(channels.id, channelId)).limit(1);
+    if (!channel) throw new Error(`Channel ${channelId} not found`);
 
-    const hostAssigned = true; // Placeholder
-    const hostConfirmed = true;
-    const scriptReviewed = true;
+    await db
+      .update(channels)
+      .set({ settings: { ...(channel.settings as Record<string, unknown> | null), readiness: policy } })
+      .where(eq(channels.id, channelId));
 
-    const allReady = hostAssigned && hostConfirmed && scriptReviewed;
-
-    return {
-      id: "check_host",
-      category: "host",
-      name: "Host Readiness",
-      description: "Host must be assigned, confirmed, and script reviewed",
-      status: allReady ? "passed" : "failed",
-      required: true,
-      score: allReady ? 100 : 0,
-      details: allReady
-        ? "Host ready for show"
-        : "Host assignment, confirmation, or script review incomplete",
-      evidence: { hostAssigned, hostConfirmed, scriptReviewed },
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 8: Operations Capacity
-   */
-  private async checkOperationsCapacity(): Promise<ReadinessCheckPoint> {
-    // Check if operations team has capacity
-    const currentLoad = 0.65; // 65% capacity
-    const maxLoad = 0.85; // 85% threshold
-    const hasCapacity = currentLoad < maxLoad;
-
-    return {
-      id: "check_operations",
-      category: "operations",
-      name: "Operations Capacity",
-      description: "Operations team must have capacity to handle expected volume",
-      status: hasCapacity ? "passed" : "failed",
-      required: true,
-      score: hasCapacity ? 100 : 0,
-      details: `Current load: ${(currentLoad * 100).toFixed(0)}% (max: ${(maxLoad * 100).toFixed(0)}%)`,
-      evidence: { currentLoad, maxLoad },
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 9: Legal Clearance
-   */
-  private async checkLegalClearance(productId: string): Promise<ReadinessCheckPoint> {
-    const db = await getDb();
-
-    // Check legal clearance status
-    // const legalReview = await db.select()...
-
-    const hasTrademarkClearance = true; // Placeholder
-    const hasSupplierAgreement = true;
-    const hasTermsOfService = true;
-
-    const allCleared = hasTrademarkClearance && hasSupplierAgreement && hasTermsOfService;
-
-    return {
-      id: "check_legal",
-      category: "legal",
-      name: "Legal Clearance",
-      description: "All legal requirements must be satisfied",
-      status: allCleared ? "passed" : "failed",
-      required: true,
-      score: allCleared ? 100 : 0,
-      details: allCleared ? "All legal requirements met" : "Legal clearance incomplete",
-      evidence: { hasTrademarkClearance, hasSupplierAgreement, hasTermsOfService },
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 10: Technical Infrastructure
-   */
-  private async checkTechnicalInfrastructure(): Promise<ReadinessCheckPoint> {
-    // Check technical readiness
-    const checks = {
-      databaseHealth: await this.checkDatabaseHealth(),
-      apiHealth: await this.checkAPIHealth(),
-      cdnHealth: await this.checkCDNHealth(),
-      streamingInfra: await this.checkStreamingInfrastructure(),
-    };
-
-    const allHealthy = Object.values(checks).every((v) => v);
-    const healthyCount = Object.values(checks).filter((v) => v).length;
-
-    return {
-      id: "check_technical",
-      category: "technical",
-      name: "Technical Infrastructure",
-      description: "All technical systems must be operational",
-      status: allHealthy ? "passed" : "failed",
-      required: true,
-      score: (healthyCount / Object.keys(checks).length) * 100,
-      details: allHealthy ? "All systems operational" : "Some systems unhealthy",
-      evidence: checks,
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 11: Marketing Materials
-   */
-  private async checkMarketingMaterials(productId: string): Promise<ReadinessCheckPoint> {
-    const db = await getDb();
-
-    // Check marketing materials
-    const requiredMaterials = [
-      "product_description",
-      "social_media_posts",
-      "email_campaign",
-      "landing_page",
-    ];
-
-    const availableMaterials: string[] = ["product_description", "social_media_posts"]; // Placeholder
-    const missingMaterials = requiredMaterials.filter(
-      (m) => !availableMaterials.includes(m)
-    );
-
-    const completionRate = (availableMaterials.length / requiredMaterials.length) * 100;
-
-    return {
-      id: "check_marketing",
-      category: "marketing",
-      name: "Marketing Materials",
-      description: "All marketing materials must be prepared",
-      status: missingMaterials.length === 0 ? "passed" : "failed",
-      required: false, // Not blocking
-      score: completionRate,
-      details:
-        missingMaterials.length === 0
-          ? "All marketing materials ready"
-          : `Missing: ${missingMaterials.join(", ")}`,
-      evidence: { requiredMaterials, availableMaterials, missingMaterials },
-      checkedAt: new Date(),
-    };
-  }
-
-  /**
-   * Check 12: Support Readiness
-   */
-  private async checkSupportReadiness(): Promise<ReadinessCheckPoint> {
-    // Check customer support readiness
-    const supportChecks = {
-      staffAvailable: true,
-      knowledgeBaseUpdated: true,
-      ticketSystemReady: true,
-      escalationPathDefined: true,
-    };
-
-    const allReady = Object.values(supportChecks).every((v) => v);
-    const readyCount = Object.values(supportChecks).filter((v) => v).length;
-
-    return {
-      id: "check_support",
-      category: "support",
-      name: "Support Readiness",
-      description: "Customer support must be prepared for launch",
-      status: allReady ? "passed" : "failed",
-      required: false, // Not blocking
-      score: (readyCount / Object.keys(supportChecks).length) * 100,
-      details: allReady ? "Support team ready" : "Support readiness incomplete",
-      evidence: supportChecks,
-      checkedAt: new Date(),
-    };
+    return policy;
   }
 
   // ============================================================================
   // HELPER METHODS
   // ============================================================================
 
-  private calculateOverallScore(checks: ReadinessCheckPoint[]): number {
-    const totalScore = checks.reduce((sum, check) => sum + check.score, 0);
-    return totalScore / checks.length;
-  }
-
   private generateRecommendations(checks: ReadinessCheckPoint[]): string[] {
     const recommendations: string[] = [];
 
@@ -648,44 +315,12 @@ export class ReadinessChecker {
   }
 
   private async saveReadinessCheck(check: ReadinessCheck): Promise<void> {
-    const db = await getDb();
-    // await db.insert(readinessChecks).values(check);
-  }
-
-  private async checkGatewayHealth(gateway: string): Promise<boolean> {
-    // TODO: Implement actual health check
-    return true;
-  }
-
-  private async checkPlatformAccountStatus(platform: string): Promise<boolean> {
-    // TODO: Implement actual platform check
-    return true;
-  }
-
-  private async checkDatabaseHealth(): Promise<boolean> {
-    try {
-      const db = await getDb();
-      // Simple query to check connection
-      // await db.select()...
-      return true;
-    } catch (error) {
-      return false;
+    // Checks past the max age can't arm anything, so they aren't kept
+    for (const [id, saved] of recentReadinessChecks) {
+      if (check.createdAt.getTime() - saved.createdAt.getTime() > READINESS_MAX_AGE_MS) recentReadinessChecks.delete(id);
     }
-  }
-
-  private async checkAPIHealth(): Promise<boolean> {
-    // TODO: Implement API health check
-    return true;
-  }
-
-  private async checkCDNHealth(): Promise<boolean> {
-    // TODO: Implement CDN health check
-    return true;
-  }
-
-  private async checkStreamingInfrastructure(): Promise<boolean> {
-    // TODO: Implement streaming infrastructure check
-    return true;
+    recentReadinessChecks.set(check.id, check);
+    // await db.insert(readinessChecks).values(check);
   }
 }
 
@@ -705,10 +340,20 @@ export class GoLiveGuardSystem {
   }): Promise<GoLiveGuard> {
     const { productId, showId, readinessCheckId, armedBy } = params;
 
-    // Verify readiness check passed
+    // Verify readiness check passed under the channel's current policy
     const readinessCheck = await this.getReadinessCheck(readinessCheckId);
-    if (readinessCheck.status !== "passed" && readinessCheck.status !== "overridden") {
-      throw new Error("Cannot arm guard: readiness check not passed");
+    if (readinessCheck.productId !== productId) {
+      throw new Error(`Cannot arm guard: readiness check ${readinessCheckId} is for product ${readinessCheck.productId}`);
+    }
+    if (readinessCheck.status !== "overridden") {
+      if (Date.now() - readinessCheck.createdAt.getTime() > READINESS_MAX_AGE_MS) {
+        throw new Error("Cannot arm guard: readiness check is stale, run it again");
+      }
+      const policy = await loadChannelReadinessPolicy(readinessCheck.channelId);
+      const blockers = getArmingBlockers(readinessCheck.checks, policy);
+      if (blockers.length > 0) {
+        throw new Error(`Cannot arm guard: ${blockers.join(", ")}`);
+      }
     }
 
     const guard: GoLiveGuard = {
@@ -911,45 +556,92 @@ export class GoLiveGuardSystem {
     return stop;
   }
 
+  /**
+   * Check whether a guard clears a specific show to go live. Used by the
+   * show lifecycle state machine before the GO_LIVE transition.
+   */
+  async verifyShowCleared(params: {
+    guardId: string;
+    showId: string;
+  }): Promise<{ cleared: boolean; reason?: string }> {
+    const { guardId, showId } = params;
+
+    const guard = goLiveGuards.get(guardId);
+    if (!guard) {
+      return { cleared: false, reason: `guard ${guardId} not found` };
+    }
+
+    // A guard armed for a product alone clears no show
+    if (guard.showId !== showId) {
+      return { cleared: false, reason: `guard ${guardId} is not armed for show ${showId}` };
+    }
+
+    if (guard.state !== "ARMED") {
+      return { cleared: false, reason: `guard ${guardId} is ${guard.state}, must be ARMED` };
+    }
+
+    if (guard.blockingIssues.length > 0) {
+      return { cleared: false, reason: guard.blockingIssues.join(", ") };
+    }
+
+    const canLaunch = await this.verifyCanLaunch(guard);
+    if (!canLaunch) {
+      return { cleared: false, reason: "launch verification failed" };
+    }
+
+    return { cleared: true };
+  }
+
+  /**
+   * Add a stream health sample to the show's post-launch monitor. Samples
+   * after the monitoring window, or for shows not launched through a guard,
+   * are ignored.
+   */
+  recordStreamHealth(showId: string, health: StreamHealth): PostLaunchMonitor | undefined {
+    const monitor = postLaunchMonitors.get(showId);
+    if (!monitor) return undefined;
+
+    const windowEnd = monitor.launchTime.getTime() + monitor.monitoringDuration * 60 * 1000;
+    if (health.checkedAt.getTime() > windowEnd) return undefined;
+
+    for (const check of health.checks) {
+      monitor.healthChecks.push({ timestamp: health.checkedAt, ...check });
+      if (check.status === "critical") {
+        monitor.incidents.push(
+          `${health.checkedAt.toISOString()} ${check.metric} ${check.value.toFixed(2)} past threshold ${check.threshold.toFixed(2)}`
+        );
+      }
+    }
+
+    // Reflects the latest sample, so the monitor recovers with the stream
+    monitor.overallHealth =
+      health.status === "critical" ? "critical" : health.status === "warning" ? "degraded" : "healthy";
+
+    return monitor;
+  }
+
+  getPostLaunchMonitor(showId: string): PostLaunchMonitor | undefined {
+    return postLaunchMonitors.get(showId);
+  }
+
   // ============================================================================
   // HELPER METHODS
   // ============================================================================
 
   private async getReadinessCheck(id: string): Promise<ReadinessCheck> {
-    const db = await getDb();
-    // const check = await db.select()...
-    // Placeholder
-    return {
-      id,
-      productId: "prod_123",
-      status: "passed",
-      overallScore: 95,
-      checks: [],
-      blockers: [],
-      warnings: [],
-      recommendations: [],
-      createdAt: new Date(),
-    };
+    const check = readinessChecker.getCheck(id);
+    if (!check) throw new Error(`Readiness check ${id} not found`);
+    return check;
   }
 
   private async getGuard(id: string): Promise<GoLiveGuard> {
-    const db = await getDb();
-    // const guard = await db.select()...
-    // Placeholder
-    return {
-      id,
-      productId: "prod_123",
-      state: "ARMED",
-      readinessCheckId: "readiness_123",
-      countdownStarted: false,
-      countdownSeconds: 0,
-      canLaunch: true,
-      blockingIssues: [],
-    };
+    const guard = goLiveGuards.get(id);
+    if (!guard) throw new Error(`Guard ${id} not found`);
+    return guard;
   }
 
   private async saveGuard(guard: GoLiveGuard): Promise<void> {
-    const db = await getDb();
+    goLiveGuards.set(guard.id, guard);
     // await db.insert(goLiveGuards).values(guard);
   }
 
@@ -1000,9 +692,10 @@ export class GoLiveGuardSystem {
       overallHealth: "healthy",
     };
 
-    // Save monitor
-    const db = await getDb();
-    // await db.insert(postLaunchMonitors).values(monitor);
+    // Stream health samples land here through recordStreamHealth
+    if (monitor.showId) {
+      postLaunchMonitors.set(monitor.showId, monitor);
+    }
   }
 
   private async scheduleCountdownNotifications(countdown: LaunchCountdown): Promise<void> {
@@ -1401,3 +1094,7 @@ export class PreFlightChecklistManager {
 export const readinessChecker = new ReadinessChecker();
 export const goLiveGuardSystem = new GoLiveGuardSystem();
 export const preFlightChecklistManager = new PreFlightChecklistManager();
+
+onStreamHealth((showId, health) => {
+  goLiveGuardSystem.recordStreamHealth(showId, health);
+});
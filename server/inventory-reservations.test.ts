@@ -0,0 +1,225 @@
+import { describe, it, expect } from "vitest";
+import {
+  completeCart,
+  releaseExpiredHolds,
+  reserveCart,
+  type CartHold,
+  type ReservationStore,
+  type ReservationTx,
+  type StockRow,
+} from "./inventory-reservations";
+
+interface MemoryStock extends StockRow {
+  onHand: number;
+}
+
+interface MemoryHold extends CartHold {
+  cartId: string;
+  orderId: string | null;
+  status: "active" | "released" | "fulfilled";
+}
+
+/**
+ * In-memory store with the same locking contract as the MySQL one: rows
+ * read in a transaction stay locked until it ends, and every operation
+ * yields so parallel transactions interleave. Stock rows must be locked
+ * in id order, as two checkouts taking them in opposite orders deadlock.
+ */
+function createMemoryStore(stock: Array<{ inventoryId: string; productId: string; available: number }>) {
+  const rows = new Map<string, MemoryStock>(
+    stock.map((row) => [row.inventoryId, { ...row, warehouseId: "wh_1", reserved: 0, onHand: row.available }])
+  );
+  const holds = new Map<string, MemoryHold>();
+  const locks = new Map<string, Promise<void>>();
+  const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+  const store: ReservationStore = {
+    async transaction(fn) {
+      const owned = new Map<string, () => void>();
+      const undo: Array<() => void> = [];
+
+      const acquire = async (keys: string[]) => {
+        for (const key of [...keys].sort()) {
+          if (owned.has(key)) continue;
+          const lastStock = [...owned.keys()].filter((k) => k.startsWith("stock:")).sort().pop();
+          if (key.startsWith("stock:") && lastStock && key < lastStock) {
+            throw new Error(`${key} locked after ${lastStock}`);
+          }
+          while (locks.has(key)) await locks.get(key);
+          let release!: () => void;
+          locks.set(key, new Promise<void>((resolve) => (release = resolve)));
+          owned.set(key, () => {
+            locks.delete(key);
+            release();
+          });
+        }
+        await tick();
+      };
+      const snapshot = (row: MemoryStock): StockRow => ({
+        inventoryId: row.inventoryId,
+        warehouseId: row.warehouseId,
+        productId: row.productId,
+        available: row.available,
+        reserved: row.reserved,
+      });
+      const activeHolds = (match: (hold: MemoryHold) => boolean) =>
+        [...holds.values()].filter((hold) => hold.status === "active" && match(hold)).map((hold) => ({ ...hold }));
+
+      const tx: ReservationTx = {
+        async lockStock(warehouseId, productIds, inventoryIds = []) {
+          const matched = [...rows.values()].filter(
+            (r) => (r.warehouseId === warehouseId && productIds.includes(r.productId)) || inventoryIds.includes(r.inventoryId)
+          );
+          await acquire(matched.map((r) => `stock:${r.inventoryId}`));
+          return matched.map((r) => snapshot(rows.get(r.inventoryId)!));
+        },
+        async lockStockRows(inventoryIds) {
+          await acquire(inventoryIds.map((id) => `stock:${id}`));
+          return inventoryIds.map((id) => snapshot(rows.get(id)!));
+        },
+        async lockHolds(filter) {
+          const carts =
+            "cartId" in filter
+              ? [filter.cartId]
+              : [...holds.values()].filter((h) => filter.ids.includes(h.id)).map((h) => h.cartId);
+          await acquire(carts.map((cartId) => `cart:${cartId}`));
+          return activeHolds((hold) => ("cartId" in filter ? hold.cartId === filter.cartId : filter.ids.includes(hold.id)));
+        },
+        async adjustStock(inventoryId, change) {
+          if (!owned.has(`stock:${inventoryId}`)) throw new Error(`stock ${inventoryId} changed without a lock`);
+          const row = rows.get(inventoryId)!;
+          const before = { ...row };
+          row.available += change.available;
+          row.reserved += change.reserved;
+          row.onHand += change.onHand ?? 0;
+          undo.push(() => Object.assign(row, before));
+          if (row.available < 0 || row.reserved < 0) throw new Error(`stock ${inventoryId} went negative`);
+          await tick();
+        },
+        async insertHolds(cartId, orderId, newHolds) {
+          for (const hold of newHolds) {
+            holds.set(hold.id, { ...hold, cartId, orderId, status: "active" });
+            undo.push(() => holds.delete(hold.id));
+          }
+          await tick();
+        },
+        async closeHolds(ids, status, _at, orderId) {
+          for (const id of ids) {
+            const hold = holds.get(id)!;
+            const before = { ...hold };
+            hold.status = status;
+            if (orderId) hold.orderId = orderId;
+            undo.push(() => Object.assign(hold, before));
+          }
+          await tick();
+        },
+      };
+
+      try {
+        return await fn(tx);
+      } catch (error) {
+        undo.reverse().forEach((revert) => revert());
+        throw error;
+      } finally {
+        owned.forEach((release) => release());
+      }
+    },
+
+    async findHoldCandidates(filter) {
+      await tick();
+      return [...holds.values()]
+        .filter((hold) =>
+          hold.status === "active" &&
+          ("cartId" in filter ? hold.cartId === filter.cartId : hold.expiresAt <= filter.expiredAt)
+        )
+        .slice(0, "limit" in filter ? filter.limit : undefined)
+        .map((hold) => ({ id: hold.id, inventoryId: hold.inventoryId }));
+    },
+  };
+
+  return { store, rows, holds };
+}
+
+const now = new Date("2026-05-01T19:00:00Z");
+
+describe("Inventory Reservations", () => {
+  it("should never oversell under parallel checkout load", async () => {
+    const { store, rows, holds } = createMemoryStore([
+      { inventoryId: "inv_a", productId: "mug", available: 50 },
+      { inventoryId: "inv_b", productId: "saucer", available: 20 },
+    ]);
+
+    const results = await Promise.all(
+      Array.from({ length: 300 }, (_, i) =>
+        reserveCart(store, {
+          cartId: `cart_${i}`,
+          warehouseId: "wh_1",
+          items: i % 3 === 0 ? [{ productId: "mug", quantity: 1 }, { productId: "saucer", quantity: 1 }] : [{ productId: "mug", quantity: 1 }],
+          now,
+        })
+      )
+    );
+
+    const reserved = results.filter((r) => r.status === "reserved");
+    const held = (inventoryId: string) =>
+      [...holds.values()].filter((h) => h.status === "active" && h.inventoryId === inventoryId).reduce((sum, h) => sum + h.quantity, 0);
+
+    expect(rows.get("inv_a")).toMatchObject({ available: 0, reserved: 50 });
+    expect(held("inv_a")).toBe(50);
+    expect(rows.get("inv_b")!.available + rows.get("inv_b")!.reserved).toBe(20);
+    expect(held("inv_b")).toBe(rows.get("inv_b")!.reserved);
+    expect(reserved).toHaveLength(50);
+    expect(results.filter((r) => r.status === "insufficient")).toHaveLength(250);
+  });
+
+  it("should hold stock once per cart no matter how often checkout is retried", async () => {
+    const { store, rows } = createMemoryStore([{ inventoryId: "inv_a", productId: "mug", available: 5 }]);
+    const request = { cartId: "cart_1", warehouseId: "wh_1", items: [{ productId: "mug", quantity: 2 }], now };
+
+    const results = await Promise.all(Array.from({ length: 25 }, () => reserveCart(store, request)));
+
+    expect(results.filter((r) => r.status === "reserved")).toHaveLength(1);
+    expect(results.filter((r) => r.status === "existing")).toHaveLength(24);
+    expect(new Set(results.map((r) => (r.status !== "insufficient" ? r.holds[0].id : null))).size).toBe(1);
+    expect(rows.get("inv_a")).toMatchObject({ available: 3, reserved: 2 });
+
+    // A changed cart swaps its hold rather than adding to it
+    const changed = await reserveCart(store, { ...request, items: [{ productId: "mug", quantity: 4 }] });
+    expect(changed.status).toBe("reserved");
+    expect(rows.get("inv_a")).toMatchObject({ available: 1, reserved: 4 });
+  });
+
+  it("should lock every stock row in order when a cart swaps products", async () => {
+    const { store, rows } = createMemoryStore([
+      { inventoryId: "inv_a", productId: "mug", available: 5 },
+      { inventoryId: "inv_b", productId: "saucer", available: 5 },
+    ]);
+    const request = { cartId: "cart_1", warehouseId: "wh_1", now };
+    await reserveCart(store, { ...request, items: [{ productId: "mug", quantity: 2 }] });
+
+    const swapped = await reserveCart(store, { ...request, items: [{ productId: "saucer", quantity: 3 }] });
+
+    expect(swapped.status).toBe("reserved");
+    expect(rows.get("inv_a")).toMatchObject({ available: 5, reserved: 0 });
+    expect(rows.get("inv_b")).toMatchObject({ available: 2, reserved: 3 });
+  });
+
+  it("should release abandoned holds after the TTL", async () => {
+    const { store, rows } = createMemoryStore([{ inventoryId: "inv_a", productId: "mug", available: 3 }]);
+    await reserveCart(store, { cartId: "cart_1", warehouseId: "wh_1", items: [{ productId: "mug", quantity: 3 }], ttlMs: 60_000, now });
+
+    const later = (ms: number) => new Date(now.getTime() + ms);
+    expect(await releaseExpiredHolds(store, later(30_000))).toBe(0);
+    expect(rows.get("inv_a")).toMatchObject({ available: 0, reserved: 3 });
+
+    expect(await releaseExpiredHolds(store, later(61_000))).toBe(1);
+    expect(rows.get("inv_a")).toMatchObject({ available: 3, reserved: 0 });
+    await expect(completeCart(store, "cart_1", "ord_1", later(62_000))).rejects.toThrow("has expired");
+
+    const next = await reserveCart(store, { cartId: "cart_2", warehouseId: "wh_1", items: [{ productId: "mug", quantity: 1 }], now: later(62_000) });
+    expect(next.status).toBe("reserved");
+    const sold = await completeCart(store, "cart_2", "ord_2", later(63_000));
+    expect(sold).toHaveLength(1);
+    expect(rows.get("inv_a")).toMatchObject({ available: 2, reserved: 0, onHand: 2 });
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * Inventory Reservations
+ *
+ * Cart holds on stock for live-show checkouts. A cart's items are reserved
+ * in one transaction with their stock rows locked, so viewers checking out
+ * together during a price drop can't hold the same units. Holds expire
+ * after a TTL, and a repeated request for the same cart returns the hold
+ * it already has instead of reserving twice.
+ */
+
+import { and, asc, eq, inArray, lte, or, sql } from "drizzle-orm";
+import { ulid } from "ulid";
+import { inventory, inventoryReservations } from "../drizzle/schema";
+import type { getDb } from "./db";
+
+export const DEFAULT_RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReservationItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface StockRow {
+  inventoryId: string;
+  warehouseId: string;
+  productId: string;
+  available: number;
+  reserved: number;
+}
+
+export interface CartHold {
+  id: string;
+  inventoryId: string;
+  productId: string;
+  quantity: number;
+  expiresAt: Date;
+}
+
+export interface StockShortage {
+  productId: string;
+  requested: number;
+  available: number;
+}
+
+export type ReservationResult =
+  | { status: "reserved" | "existing"; cartId: string; expiresAt: Date; holds: CartHold[] }
+  | { status: "insufficient"; cartId: string; shortages: StockShortage[] };
+
+/**
+ * Storage operations run inside a reservation transaction. Every read
+ * locks the rows it returns until the transaction ends.
+ */
+export interface ReservationTx {
+  // The warehouse's rows for the products plus any extra rows, in one pass
+  lockStock(warehouseId: string, productIds: string[], inventoryIds?: string[]): Promise<StockRow[]>;
+  lockStockRows(inventoryIds: string[]): Promise<StockRow[]>;
+  // Active holds only
+  lockHolds(filter: { cartId: string } | { ids: string[] }): Promise<CartHold[]>;
+  adjustStock(inventoryId: string, change: { available: number; reserved: number; onHand?: number }): Promise<void>;
+  insertHolds(cartId: string, orderId: string | null, holds: CartHold[]): Promise<void>;
+  closeHolds(ids: string[], status: "released" | "fulfilled", at: Date, orderId?: string): Promise<void>;
+}
+
+export interface HoldCandidate {
+  id: string;
+  inventoryId: string;
+}
+
+export interface ReservationStore {
+  transaction<T>(fn: (tx: ReservationTx) => Promise<T>): Promise<T>;
+  // Active holds, read outside any transaction and re-checked under lock
+  findHoldCandidates(filter: { cartId: string } | { expiredAt: Date; limit: number }): Promise<HoldCandidate[]>;
+}
+
+// ============================================================================
+// RESERVATIONS
+// ============================================================================
+
+function mergeItems(items: ReservationItem[]): Map<string, number> {
+  const merged = new Map<string, number>();
+  for (const item of items) {
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new Error(`Invalid quantity ${item.quantity} for product ${item.productId}`);
+    }
+    merged.set(item.productId, (merged.get(item.productId) || 0) + item.quantity);
+  }
+  return merged;
+}
+
+function holdsMatch(holds: CartHold[], requested: Map<string, number>): boolean {
+  const held = new Map<string, number>();
+  for (const hold of holds) {
+    held.set(hold.productId, (held.get(hold.productId) || 0) + hold.quantity);
+  }
+  return held.size === requested.size && [...requested].every(([productId, qty]) => held.get(productId) === qty);
+}
+
+function earliestExpiry(holds: CartHold[]): Date {
+  return new Date(Math.min(...holds.map(hold => hold.expiresAt.getTime())));
+}
+
+/**
+ * Reserve a cart's items in one transaction. The same request for a cart
+ * with a live hold returns that hold; a changed cart (or one whose hold
+ * lapsed) swaps its old hold for the new one, or keeps the old one when
+ * the new items aren't all in stock.
+ */
+export async function reserveCart(
+  store: ReservationStore,
+  request: {
+    cartId: string;
+    warehouseId: string;
+    items: ReservationItem[];
+    orderId?: string;
+    ttlMs?: number;
+    now?: Date;
+  }
+): Promise<ReservationResult> {
+  const requested = mergeItems(request.items);
+  if (requested.size === 0) {
+    throw new Error("Nothing to reserve");
+  }
+
+  const now = request.now ?? new Date();
+  const ttlMs = request.ttlMs ?? DEFAULT_RESERVATION_TTL_MS;
+  const { cartId } = request;
+
+  for (;;) {
+    // The rows behind the cart's current hold are locked with the new ones
+    const candidates = await store.findHoldCandidates({ cartId });
+    const result = await reserveLocked(store, request, requested, candidates, now, ttlMs);
+    if (result) return result;
+  }
+}
+
+/**
+ * One reservation attempt. Returns null when the cart's hold moved to
+ * stock rows outside the locked set, so the caller retries with fresh
+ * candidates instead of locking them out of order.
+ */
+async function reserveLocked(
+  store: ReservationStore,
+  request: { cartId: string; warehouseId: string; orderId?: string },
+  requested: Map<string, number>,
+  candidates: HoldCandidate[],
+  now: Date,
+  ttlMs: number
+): Promise<ReservationResult | null> {
+  const { cartId } = request;
+
+  return store.transaction(async (tx) => {
+    // Stock rows first, then holds, so every transaction locks in the same order
+    const heldRows = [...new Set(candidates.map(hold => hold.inventoryId))].sort();
+    const locked = await tx.lockStock(request.warehouseId, [...requested.keys()].sort(), heldRows);
+    const previous = await tx.lockHolds({ cartId });
+    if (previous.some(hold => !locked.some(row => row.inventoryId === hold.inventoryId))) {
+      return null;
+    }
+
+    const live = previous.filter(hold => hold.expiresAt > now);
+    if (live.length === previous.length && live.length > 0 && holdsMatch(live, requested)) {
+      return { status: "existing", cartId, expiresAt: earliestExpiry(live), holds: live };
+    }
+
+    const stock = locked.filter(row => row.warehouseId === request.warehouseId && requested.has(row.productId));
+    const stockByProduct = new Map(stock.map(row => [row.productId, row]));
+    const heldByInventory = new Map<string, number>();
+    for (const hold of previous) {
+      heldByInventory.set(hold.inventoryId, (heldByInventory.get(hold.inventoryId) || 0) + hold.quantity);
+    }
+
+    // The cart's own previous hold counts towards what it can have
+    const shortages: StockShortage[] = [];
+    for (const [productId, quantity] of requested) {
+      const row = stockByProduct.get(productId);
+      const available = row ? row.available + (heldByInventory.get(row.inventoryId) || 0) : 0;
+      if (available < quantity) {
+        shortages.push({ productId, requested: quantity, available });
+      }
+    }
+    if (shortages.length > 0) {
+      return { status: "insufficient", cartId, shortages };
+    }
+
+    // Give back the old hold, including rows the new cart no longer touches
+    if (previous.length > 0) {
+      await tx.closeHolds(previous.map(hold => hold.id), "released", now);
+    }
+
+    const expiresAt = new Date(now.getTime() + ttlMs);
+    const holds: CartHold[] = [...requested].map(([productId, quantity]) => ({
+      id: ulid(),
+      inventoryId: stockByProduct.get(productId)!.inventoryId,
+      productId,
+      quantity,
+      expiresAt,
+    }));
+
+    const change = new Map(heldByInventory);
+    for (const hold of holds) {
+      change.set(hold.inventoryId, (change.get(hold.inventoryId) || 0) - hold.quantity);
+    }
+    for (const [inventoryId, delta] of change) {
+      if (delta !== 0) await tx.adjustStock(inventoryId, { available: delta, reserved: -delta });
+    }
+
+    await tx.insertHolds(cartId, request.orderId ?? null, holds);
+
+    return { status: "reserved", cartId, expiresAt, holds };
+  });
+}
+
+/**
+ * Lock the stock rows behind candidate holds, then the holds themselves.
+ * Candidates are read outside the transaction so the lock order matches
+ * reserveCart.
+ */
+async function lockCandidateHolds(tx: ReservationTx, candidates: HoldCandidate[]): Promise<CartHold[]> {
+  if (candidates.length === 0) return [];
+
+  await tx.lockStockRows([...new Set(candidates.map(hold => hold.inventoryId))].sort());
+  // Another transaction may have closed some while we waited for the rows
+  return tx.lockHolds({ ids: candidates.map(hold => hold.id) });
+}
+
+async function closeLockedHolds(
+  tx: ReservationTx,
+  holds: CartHold[],
+  status: "released" | "fulfilled",
+  now: Date,
+  orderId?: string
+): Promise<void> {
+  if (holds.length === 0) return;
+
+  const totals = new Map<string, number>();
+  for (const hold of holds) {
+    totals.set(hold.inventoryId, (totals.get(hold.inventoryId) || 0) + hold.quantity);
+  }
+  for (const [inventoryId, quantity] of totals) {
+    await tx.adjustStock(
+      inventoryId,
+      status === "released"
+        ? { available: quantity, reserved: -quantity }
+        : { available: 0, reserved: -quantity, onHand: -quantity }
+    );
+  }
+
+  await tx.closeHolds(holds.map(hold => hold.id), status, now, orderId);
+}
+
+/**
+ * Release a cart's hold, e.g. when the viewer empties it
+ */
+export async function releaseCart(store: ReservationStore, cartId: string, now: Date = new Date()): Promise<number> {
+  const candidates = await store.findHoldCandidates({ cartId });
+
+  return store.transaction(async (tx) => {
+    const holds = await lockCandidateHolds(tx, candidates);
+    await closeLockedHolds(tx, holds, "released", now);
+    return holds.length;
+  });
+}
+
+/**
+ * Turn a cart's hold into sold stock at checkout. Fails if the hold has
+ * lapsed, since its units may already be in another cart.
+ */
+export async function completeCart(
+  store: ReservationStore,
+  cartId: string,
+  orderId: string,
+  now: Date = new Date()
+): Promise<CartHold[]> {
+  const candidates = await store.findHoldCandidates({ cartId });
+
+  return store.transaction(async (tx) => {
+    const holds = await lockCandidateHolds(tx, candidates);
+    if (holds.length === 0 || holds.some(hold => hold.expiresAt <= now)) {
+      throw new Error(`Reservation for cart ${cartId} has expired`);
+    }
+    await closeLockedHolds(tx, holds, "fulfilled", now, orderId);
+    return holds;
+  });
+}
+
+/**
+ * Release holds past their TTL, in batches
+ */
+export async function releaseExpiredHolds(
+  store: ReservationStore,
+  now: Date = new Date(),
+  batchSize = 200
+): Promise<number> {
+  let released = 0;
+
+  for (;;) {
+    const candidates = await store.findHoldCandidates({ expiredAt: now, limit: batchSize });
+    if (candidates.length === 0) break;
+
+    const count = await store.transaction(async (tx) => {
+      const holds = (await lockCandidateHolds(tx, candidates)).filter(hold => hold.expiresAt <= now);
+      await closeLockedHolds(tx, holds, "released", now);
+      return holds.length;
+    });
+    released += count;
+
+    if (candidates.length < batchSize || count === 0) break;
+  }
+
+  return released;
+}
+
+// ============================================================================
+// MYSQL STORE
+// ============================================================================
+
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+const MAX_DEADLOCK_RETRIES = 3;
+
+function errorCode(error: unknown): unknown {
+  return typeof error === "object" && error !== null && "code" in error ? error.code : undefined;
+}
+
+// drizzle wraps driver errors, so the MySQL code may be on the cause
+function isDeadlock(error: unknown): boolean {
+  const code = errorCode(error) ?? (error instanceof Error ? errorCode(error.cause) : undefined);
+  return code === "ER_LOCK_DEADLOCK" || code === "ER_LOCK_WAIT_TIMEOUT";
+}
+
+function createDbReservationTx(tx: Transaction): ReservationTx {
+  const stockColumns = {
+    inventoryId: inventory.id,
+    warehouseId: inventory.warehouseId,
+    productId: inventory.productId,
+    available: inventory.available,
+    reserved: inventory.reserved,
+  };
+  const holdColumns = {
+    id: inventoryReservations.id,
+    inventoryId: inventoryReservations.inventoryId,
+    productId: inventory.productId,
+    quantity: inventoryReservations.quantity,
+    expiresAt: inventoryReservations.expiresAt,
+  };
+
+  return {
+    async lockStock(warehouseId, productIds, inventoryIds = []) {
+      return tx.select(stockColumns)
+        .from(inventory)
+        .where(or(
+          and(eq(inventory.warehouseId, warehouseId), inArray(inventory.productId, productIds)),
+          inventoryIds.length > 0 ? inArray(inventory.id, inventoryIds) : undefined
+        ))
+        .orderBy(asc(inventory.id))
+        .for("update");
+    },
+
+    async lockStockRows(inventoryIds) {
+      return tx.select(stockColumns)
+        .from(inventory)
+        .where(inArray(inventory.id, inventoryIds))
+        .orderBy(asc(inventory.id))
+        .for("update");
+    },
+
+    async lockHolds(filter) {
+      if ("ids" in filter && filter.ids.length === 0) return [];
+
+      const rows = await tx.select(holdColumns)
+        .from(inventoryReservations)
+        .innerJoin(inventory, eq(inventory.id, inventoryReservations.inventoryId))
+        .where(and(
+          eq(inventoryReservations.status, "active"),
+          "ids" in filter
+            ? inArray(inventoryReservations.id, filter.ids)
+            : eq(inventoryReservations.cartId, filter.cartId)
+        ))
+        .for("update");
+
+      // Holds without an expiry predate cart TTLs and never lapse
+      return rows.map(row => ({ ...row, expiresAt: row.expiresAt ?? new Date(8.64e15) }));
+    },
+
+    async adjustStock(inventoryId, change) {
+      await tx.update(inventory)
+        .set({
+          available: sql`${inventory.available} + ${change.available}`,
+          reserved: sql`${inventory.reserved} + ${change.reserved}`,
+          ...(change.onHand ? { onHand: sql`${inventory.onHand} + ${change.onHand}` } : {}),
+        })
+        .where(eq(inventory.id, inventoryId));
+    },
+
+    async insertHolds(cartId, orderId, holds) {
+      await tx.insert(inventoryReservations).values(
+        holds.map(hold => ({
+          id: hold.id,
+          inventoryId: hold.inventoryId,
+          cartId,
+          orderId,
+          quantity: hold.quantity,
+          expiresAt: hold.expiresAt,
+          status: "active" as const,
+        }))
+      );
+    },
+
+    async closeHolds(ids, status, at, orderId) {
+      await tx.update(inventoryReservations)
+        .set({
+          status,
+          ...(status === "released" ? { releasedAt: at } : {}),
+          ...(orderId ? { orderId } : {}),
+        })
+        .where(inArray(inventoryReservations.id, ids));
+    },
+  };
+}
+
+export function createDbReservationStore(db: Database): ReservationStore {
+  return {
+    async transaction(fn) {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await db.transaction(tx => fn(createDbReservationTx(tx)));
+        } catch (error) {
+          if (!isDeadlock(error) || attempt >= MAX_DEADLOCK_RETRIES) throw error;
+        }
+      }
+    },
+
+    async findHoldCandidates(filter) {
+      const columns = { id: inventoryReservations.id, inventoryId: inventoryReservations.inventoryId };
+
+      if ("cartId" in filter) {
+        return db.select(columns)
+          .from(inventoryReservations)
+          .where(and(eq(inventoryReservations.status, "active"), eq(inventoryReservations.cartId, filter.cartId)));
+      }
+
+      return db.select(columns)
+        .from(inventoryReservations)
+        .where(and(eq(inventoryReservations.status, "active"), lte(inventoryReservations.expiresAt, filter.expiredAt)))
+        .orderBy(asc(inventoryReservations.expiresAt))
+        .limit(filter.limit);
+    },
+  };
+}
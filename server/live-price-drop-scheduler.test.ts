@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  PriceDropScheduler,
+  getAutoStopReason,
+  getRemainingQuantity,
+  onPriceDropEvent,
+  parsePriceDropTrigger,
+  type PriceDropEvent,
+  type ProgrammedPriceDrop,
+} from "./live-price-drop-scheduler";
+
+function makeDrop(overrides: Partial<ProgrammedPriceDrop> = {}): ProgrammedPriceDrop {
+  return {
+    programId: "prog-1",
+    channelId: "channel-1",
+    showId: "show-1",
+    productId: "product-1",
+    dropPriceCents: 1999,
+    durationSeconds: 300,
+    trigger: { type: "AT_TIME", at: new Date(Date.now() + 60_000) },
+    ...overrides,
+  };
+}
+
+describe("Live Price Drop Scheduler", () => {
+  let fired: ProgrammedPriceDrop[];
+  let events: PriceDropEvent[];
+  let unsubscribe: () => void;
+  let scheduler: PriceDropScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T18:00:00Z"));
+    fired = [];
+    events = [];
+    unsubscribe = onPriceDropEvent((event) => events.push(event));
+    scheduler = new PriceDropScheduler(async (drop) => {
+      fired.push(drop);
+    });
+  });
+
+  afterEach(() => {
+    scheduler.dispose();
+    unsubscribe();
+    vi.useRealTimers();
+  });
+
+  describe("Triggers", () => {
+    it("should fire a timestamp drop at its start time", async () => {
+      scheduler.program(makeDrop());
+
+      await vi.advanceTimersByTimeAsync(59_000);
+      expect(fired).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(fired.map((d) => d.programId)).toEqual(["prog-1"]);
+      expect(scheduler.getPrograms("show-1")).toHaveLength(0);
+    });
+
+    it("should fire a viewer threshold drop once the count is reached", async () => {
+      scheduler.program(
+        makeDrop({ trigger: { type: "VIEWER_THRESHOLD", minViewers: 500 } })
+      );
+
+      await scheduler.handleViewerCount("show-1", 499);
+      expect(fired).toHaveLength(0);
+
+      await scheduler.handleViewerCount("show-1", 520);
+      await scheduler.handleViewerCount("show-1", 600);
+      expect(fired).toHaveLength(1);
+    });
+
+    it("should ignore viewer counts from other shows", async () => {
+      scheduler.program(
+        makeDrop({ trigger: { type: "VIEWER_THRESHOLD", minViewers: 10 } })
+      );
+
+      await scheduler.handleViewerCount("show-2", 1000);
+      expect(fired).toHaveLength(0);
+    });
+
+    it("should start go-live countdowns and fire when they end", async () => {
+      scheduler.program(makeDrop({ trigger: { type: "COUNTDOWN", seconds: 30 } }));
+
+      // Countdowns do not run before go-live
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(fired).toHaveLength(0);
+
+      scheduler.startCountdowns("show-1");
+      const countdown = events.find((e) => e.type === "PRICE_DROP_COUNTDOWN");
+      expect(countdown?.startsAt).toBe(new Date(Date.now() + 30_000).toISOString());
+      expect(countdown?.serverTime).toBe(new Date().toISOString());
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(fired).toHaveLength(1);
+    });
+
+    it("should leave manual countdowns for the host to cue", async () => {
+      scheduler.program(
+        makeDrop({ trigger: { type: "COUNTDOWN", seconds: 10, startOn: "MANUAL" } })
+      );
+
+      scheduler.startCountdowns("show-1");
+      await vi.advanceTimersByTimeAsync(20_000);
+      expect(fired).toHaveLength(0);
+
+      const firesAt = scheduler.startCountdown("prog-1");
+      expect(scheduler.getFireTime("prog-1")).toEqual(firesAt);
+
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(fired).toHaveLength(1);
+    });
+
+    it("should not fire a drop twice when a threshold races its timer", async () => {
+      scheduler.program(
+        makeDrop({ trigger: { type: "VIEWER_THRESHOLD", minViewers: 1 } })
+      );
+
+      await Promise.all([
+        scheduler.handleViewerCount("show-1", 5),
+        scheduler.handleViewerCount("show-1", 6),
+      ]);
+      expect(fired).toHaveLength(1);
+    });
+
+    it("should reject invalid programs", () => {
+      expect(() => scheduler.program(makeDrop({ dropPriceCents: 0 }))).toThrow(/price/i);
+      expect(() =>
+        scheduler.program(makeDrop({ trigger: { type: "VIEWER_THRESHOLD", minViewers: 0 } }))
+      ).toThrow(/threshold/i);
+      expect(() => scheduler.program(makeDrop({ stockBuffer: -1 }))).toThrow(/buffer/i);
+    });
+  });
+
+  describe("Cancellation", () => {
+    it("should cancel a programmed drop and notify viewers", async () => {
+      scheduler.program(makeDrop());
+      expect(scheduler.cancel("prog-1")).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(120_000);
+      expect(fired).toHaveLength(0);
+      expect(events.map((e) => e.type)).toEqual([
+        "PRICE_DROP_SCHEDULED",
+        "PRICE_DROP_CANCELED",
+      ]);
+    });
+
+    it("should clear every program for an ended show", () => {
+      scheduler.program(makeDrop({ programId: "a" }));
+      scheduler.program(makeDrop({ programId: "b", showId: "show-2" }));
+      scheduler.program(makeDrop({ programId: "c" }));
+
+      expect(scheduler.clearShow("show-1")).toBe(2);
+      expect(scheduler.getPrograms("show-2")).toHaveLength(1);
+    });
+
+    it("should publish a cancellation when the executor fails", async () => {
+      const failing = new PriceDropScheduler(async () => {
+        throw new Error("Show is not live");
+      });
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      failing.program(makeDrop({ trigger: { type: "VIEWER_THRESHOLD", minViewers: 1 } }));
+      await failing.handleViewerCount("show-1", 1);
+
+      expect(events.at(-1)?.type).toBe("PRICE_DROP_CANCELED");
+      consoleError.mockRestore();
+      failing.dispose();
+    });
+  });
+
+  describe("Auto-stop", () => {
+    it("should stop when the allocation sells out", () => {
+      expect(getAutoStopReason({ quantitySold: 50, maxQuantity: 50 })).toBe("SOLD_OUT");
+      expect(getAutoStopReason({ quantitySold: 49, maxQuantity: 50 })).toBeNull();
+    });
+
+    it("should stop when stock reaches the buffer", () => {
+      expect(
+        getAutoStopReason({ quantitySold: 10, availableStock: 5, stockBuffer: 5 })
+      ).toBe("STOCK_BUFFER");
+      expect(
+        getAutoStopReason({ quantitySold: 10, availableStock: 6, stockBuffer: 5 })
+      ).toBeNull();
+    });
+
+    it("should report the tighter of allocation and buffer as remaining", () => {
+      expect(
+        getRemainingQuantity({ quantitySold: 10, maxQuantity: 50, availableStock: 25, stockBuffer: 5 })
+      ).toBe(20);
+      expect(
+        getRemainingQuantity({ quantitySold: 45, maxQuantity: 50, availableStock: 25, stockBuffer: 5 })
+      ).toBe(5);
+      expect(getRemainingQuantity({ quantitySold: 3 })).toBeNull();
+    });
+  });
+
+  describe("Stored triggers", () => {
+    it("should round-trip a timestamp trigger through JSON", () => {
+      const at = new Date("2026-03-01T19:00:00Z");
+      const trigger = parsePriceDropTrigger(JSON.stringify({ type: "AT_TIME", at }), new Date());
+      expect(trigger).toEqual({ type: "AT_TIME", at });
+    });
+
+    it("should fall back to the planned start time", () => {
+      const start = new Date("2026-03-01T19:30:00Z");
+      expect(parsePriceDropTrigger(null, start)).toEqual({ type: "AT_TIME", at: start });
+    });
+  });
+});
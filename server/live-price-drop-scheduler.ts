@@ -0,0 +1,395 @@
+/**
+ * Live Price Drop Scheduler
+ *
+ * Pre-programmed price drops for live shows. A drop in the runbook fires
+ * either at a fixed timestamp, when the viewer count reaches a threshold, or
+ * when an on-screen countdown runs out. Once live, a drop ends on its own
+ * when its allocated quantity sells out or sellable stock falls to the
+ * configured buffer.
+ *
+ * Every state change is published as a PriceDropEvent carrying the server
+ * clock, so viewer countdown banners can correct for local clock drift. The
+ * websocket layer subscribes via onPriceDropEvent and pushes events to the
+ * show room.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PriceDropTrigger =
+  | { type: "AT_TIME"; at: Date }
+  | { type: "VIEWER_THRESHOLD"; minViewers: number }
+  | { type: "COUNTDOWN"; seconds: number; startOn?: "GO_LIVE" | "MANUAL" };
+
+export type PriceDropTriggerType = PriceDropTrigger["type"] | "MANUAL";
+
+export type PriceDropEndReason =
+  | "EXPIRED"
+  | "SOLD_OUT"
+  | "STOCK_BUFFER"
+  | "MANUAL"
+  | "SHOW_ENDED";
+
+export interface ProgrammedPriceDrop {
+  programId: string;
+  channelId: string;
+  showId: string;
+  productId: string;
+  dropPriceCents: number;
+  durationSeconds: number;
+  trigger: PriceDropTrigger;
+  maxQuantity?: number;
+  stockBuffer?: number;
+  urgencyMessage?: string;
+}
+
+export type PriceDropEventType =
+  | "PRICE_DROP_SCHEDULED"
+  | "PRICE_DROP_COUNTDOWN"
+  | "PRICE_DROP_STARTED"
+  | "PRICE_DROP_UPDATED"
+  | "PRICE_DROP_ENDED"
+  | "PRICE_DROP_CANCELED";
+
+export interface PriceDropEvent {
+  type: PriceDropEventType;
+  showId: string;
+  productId: string;
+  programId?: string;
+  dropId?: string;
+  trigger?: PriceDropTriggerType;
+  originalPriceCents?: number;
+  dropPriceCents?: number;
+  startsAt?: string;
+  endsAt?: string;
+  quantitySold?: number;
+  remainingQuantity?: number | null;
+  reason?: PriceDropEndReason;
+  serverTime: string;
+}
+
+export interface PriceDropStockState {
+  quantitySold: number;
+  maxQuantity?: number | null;
+  availableStock?: number | null;
+  stockBuffer?: number | null;
+}
+
+type PriceDropListener = (event: PriceDropEvent) => void;
+type PriceDropExecutor = (drop: ProgrammedPriceDrop) => Promise<void>;
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+const listeners: Set<PriceDropListener> = new Set();
+
+/**
+ * Subscribe to price drop events for all shows. Returns an unsubscribe
+ * function.
+ */
+export function onPriceDropEvent(listener: PriceDropListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Stamp an event with the server clock and deliver it to every listener
+ */
+export function publishPriceDropEvent(
+  event: Omit<PriceDropEvent, "serverTime">
+): PriceDropEvent {
+  const stamped: PriceDropEvent = { ...event, serverTime: new Date().toISOString() };
+
+  for (const listener of listeners) {
+    try {
+      listener(stamped);
+    } catch (error) {
+      console.error("[PriceDropScheduler] Listener failed:", error);
+    }
+  }
+
+  return stamped;
+}
+
+// ============================================================================
+// AUTO-STOP RULES
+// ============================================================================
+
+/**
+ * Why an active drop must end now, or null if it can keep running.
+ * Sell-out wins over the stock buffer when both apply.
+ */
+export function getAutoStopReason(state: PriceDropStockState): PriceDropEndReason | null {
+  if (state.maxQuantity && state.quantitySold >= state.maxQuantity) {
+    return "SOLD_OUT";
+  }
+
+  if (
+    state.stockBuffer != null &&
+    state.availableStock != null &&
+    state.availableStock <= state.stockBuffer
+  ) {
+    return "STOCK_BUFFER";
+  }
+
+  return null;
+}
+
+/**
+ * Units still sellable at the drop price, or null when neither an
+ * allocation nor a stock buffer bounds the drop
+ */
+export function getRemainingQuantity(state: PriceDropStockState): number | null {
+  const limits: number[] = [];
+
+  if (state.maxQuantity) {
+    limits.push(state.maxQuantity - state.quantitySold);
+  }
+  if (state.stockBuffer != null && state.availableStock != null) {
+    limits.push(state.availableStock - state.stockBuffer);
+  }
+
+  return limits.length > 0 ? Math.max(0, Math.min(...limits)) : null;
+}
+
+/**
+ * Rebuild a trigger from its stored JSON form. Rows without one fall back to
+ * firing at their planned start time.
+ */
+export function parsePriceDropTrigger(raw: unknown, fallbackAt: Date): PriceDropTrigger {
+  const value = typeof raw === "string" ? JSON.parse(raw) : raw;
+
+  if (value && typeof value === "object" && "type" in value) {
+    const trigger = value as PriceDropTrigger;
+    if (trigger.type === "AT_TIME") {
+      return { type: "AT_TIME", at: new Date(trigger.at) };
+    }
+    return trigger;
+  }
+
+  return { type: "AT_TIME", at: fallbackAt };
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+export class PriceDropScheduler {
+  private programs: Map<string, ProgrammedPriceDrop> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private countdownEndsAt: Map<string, Date> = new Map();
+
+  constructor(private executor: PriceDropExecutor) {}
+
+  /**
+   * Program a drop. Timestamp triggers are armed immediately; countdowns
+   * wait for go-live (or a manual start); viewer thresholds wait for
+   * viewer count updates.
+   */
+  program(drop: ProgrammedPriceDrop): void {
+    this.validate(drop);
+    this.cancelTimer(drop.programId);
+    this.programs.set(drop.programId, drop);
+
+    if (drop.trigger.type === "AT_TIME") {
+      this.arm(drop.programId, drop.trigger.at);
+    }
+
+    publishPriceDropEvent({
+      type: "PRICE_DROP_SCHEDULED",
+      showId: drop.showId,
+      productId: drop.productId,
+      programId: drop.programId,
+      trigger: drop.trigger.type,
+      dropPriceCents: drop.dropPriceCents,
+      startsAt: drop.trigger.type === "AT_TIME" ? drop.trigger.at.toISOString() : undefined,
+    });
+  }
+
+  /**
+   * Start the countdowns that run from go-live
+   */
+  startCountdowns(showId: string): void {
+    for (const drop of this.getPrograms(showId)) {
+      if (
+        drop.trigger.type === "COUNTDOWN" &&
+        (drop.trigger.startOn ?? "GO_LIVE") === "GO_LIVE" &&
+        !this.countdownEndsAt.has(drop.programId)
+      ) {
+        this.startCountdown(drop.programId);
+      }
+    }
+  }
+
+  /**
+   * Start (or restart) a single countdown, e.g. when the host cues it
+   */
+  startCountdown(programId: string): Date {
+    const drop = this.programs.get(programId);
+    if (!drop) throw new Error(`Programmed price drop ${programId} not found`);
+    if (drop.trigger.type !== "COUNTDOWN") {
+      throw new Error(`Programmed price drop ${programId} is not a countdown`);
+    }
+
+    const endsAt = new Date(Date.now() + drop.trigger.seconds * 1000);
+    this.countdownEndsAt.set(programId, endsAt);
+    this.arm(programId, endsAt);
+
+    publishPriceDropEvent({
+      type: "PRICE_DROP_COUNTDOWN",
+      showId: drop.showId,
+      productId: drop.productId,
+      programId,
+      trigger: "COUNTDOWN",
+      dropPriceCents: drop.dropPriceCents,
+      startsAt: endsAt.toISOString(),
+    });
+
+    return endsAt;
+  }
+
+  /**
+   * Fire every viewer-threshold drop for the show whose threshold the
+   * current count has reached
+   */
+  async handleViewerCount(showId: string, viewerCount: number): Promise<void> {
+    const due = this.getPrograms(showId).filter(
+      (drop) =>
+        drop.trigger.type === "VIEWER_THRESHOLD" &&
+        viewerCount >= drop.trigger.minViewers
+    );
+
+    for (const drop of due) {
+      await this.fire(drop.programId);
+    }
+  }
+
+  /**
+   * Remove a programmed drop before it fires
+   */
+  cancel(programId: string): boolean {
+    const drop = this.programs.get(programId);
+    if (!drop) return false;
+
+    this.forget(programId);
+
+    publishPriceDropEvent({
+      type: "PRICE_DROP_CANCELED",
+      showId: drop.showId,
+      productId: drop.productId,
+      programId,
+      trigger: drop.trigger.type,
+    });
+
+    return true;
+  }
+
+  /**
+   * Drop everything still programmed for a show (show ended or canceled)
+   */
+  clearShow(showId: string): number {
+    const drops = this.getPrograms(showId);
+    for (const drop of drops) {
+      this.cancel(drop.programId);
+    }
+    return drops.length;
+  }
+
+  getPrograms(showId: string): ProgrammedPriceDrop[] {
+    return Array.from(this.programs.values()).filter((drop) => drop.showId === showId);
+  }
+
+  /**
+   * When a programmed drop is due to fire, if known (timestamp triggers and
+   * running countdowns)
+   */
+  getFireTime(programId: string): Date | null {
+    const drop = this.programs.get(programId);
+    if (!drop) return null;
+    if (drop.trigger.type === "AT_TIME") return drop.trigger.at;
+    return this.countdownEndsAt.get(programId) ?? null;
+  }
+
+  /**
+   * Stop all timers without publishing anything. Used when another process
+   * or orchestrator instance takes over the show.
+   */
+  dispose(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.programs.clear();
+    this.countdownEndsAt.clear();
+  }
+
+  private validate(drop: ProgrammedPriceDrop): void {
+    if (drop.dropPriceCents <= 0) throw new Error("Drop price must be positive");
+    if (drop.durationSeconds <= 0) throw new Error("Drop duration must be positive");
+    if (drop.maxQuantity != null && drop.maxQuantity <= 0) {
+      throw new Error("Max quantity must be positive");
+    }
+    if (drop.stockBuffer != null && drop.stockBuffer < 0) {
+      throw new Error("Stock buffer cannot be negative");
+    }
+
+    switch (drop.trigger.type) {
+      case "AT_TIME":
+        if (isNaN(drop.trigger.at.getTime())) throw new Error("Invalid drop start time");
+        break;
+      case "VIEWER_THRESHOLD":
+        if (drop.trigger.minViewers <= 0) throw new Error("Viewer threshold must be positive");
+        break;
+      case "COUNTDOWN":
+        if (drop.trigger.seconds <= 0) throw new Error("Countdown must be positive");
+        break;
+    }
+  }
+
+  private arm(programId: string, at: Date): void {
+    this.cancelTimer(programId);
+    const timer = setTimeout(() => {
+      this.timers.delete(programId);
+      void this.fire(programId);
+    }, Math.max(0, at.getTime() - Date.now()));
+    this.timers.set(programId, timer);
+  }
+
+  /**
+   * Hand a due drop to the executor. The program is removed first so a
+   * drop never fires twice, even if viewer updates race the timer.
+   */
+  private async fire(programId: string): Promise<void> {
+    const drop = this.programs.get(programId);
+    if (!drop) return;
+
+    this.forget(programId);
+
+    try {
+      await this.executor(drop);
+    } catch (error) {
+      console.error(`[PriceDropScheduler] Drop ${programId} failed to start:`, error);
+      publishPriceDropEvent({
+        type: "PRICE_DROP_CANCELED",
+        showId: drop.showId,
+        productId: drop.productId,
+        programId,
+        trigger: drop.trigger.type,
+      });
+    }
+  }
+
+  private forget(programId: string): void {
+    this.cancelTimer(programId);
+    this.programs.delete(programId);
+    this.countdownEndsAt.delete(programId);
+  }
+
+  private cancelTimer(programId: string): void {
+    const timer = this.timers.get(programId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(programId);
+    }
+  }
+}
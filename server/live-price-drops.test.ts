@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import { livePriceDrops } from "../drizzle/schema";
+import {
+  buildPriceDropRow,
+  getDiscountPercent,
+  toPriceDrop,
+  toProgrammedPriceDrop,
+  type PriceDropRow,
+} from "./live-price-drops";
+
+function makeRow(overrides: Partial<Parameters<typeof buildPriceDropRow>[0]> = {}) {
+  return buildPriceDropRow({
+    id: "drop-1",
+    channelId: "channel-1",
+    showId: "show-1",
+    productId: "product-1",
+    originalPriceCents: 4999,
+    dropPriceCents: 2999,
+    startedAt: new Date("2026-03-01T18:00:00Z"),
+    endsAt: new Date("2026-03-01T18:05:00Z"),
+    status: "ACTIVE",
+    ...overrides,
+  });
+}
+
+// What the database hands back for an inserted row
+function asStored(row: ReturnType<typeof buildPriceDropRow>): PriceDropRow {
+  return { endReason: null, createdAt: new Date(), ...row } as PriceDropRow;
+}
+
+describe("Live Price Drops", () => {
+  describe("buildPriceDropRow", () => {
+    it("only writes columns live_price_drops has", () => {
+      const columns = Object.keys(getTableColumns(livePriceDrops));
+      for (const key of Object.keys(makeRow())) {
+        expect(columns).toContain(key);
+      }
+    });
+
+    it("sets every NOT NULL column without a default", () => {
+      const row = makeRow();
+      const required = Object.entries(getTableColumns(livePriceDrops))
+        .filter(([, column]) => column.notNull && !column.hasDefault)
+        .map(([key]) => key);
+
+      expect(required).toContain("productId");
+      for (const key of required) {
+        expect(row[key as keyof typeof row]).not.toBeUndefined();
+      }
+    });
+
+    it("renders an insert on the live_price_drops columns", () => {
+      const query = drizzle.mock().insert(livePriceDrops).values(makeRow()).toSQL();
+
+      expect(query.sql).toContain("`live_session_id`");
+      expect(query.sql).toContain("`product_id`");
+      expect(query.sql).toContain("`discount_percent`");
+      expect(query.sql).toContain("`quantity_limit`");
+      expect(query.params).toContain("40.01");
+    });
+  });
+
+  describe("row mapping", () => {
+    it("maps a stored drop with revenue at the drop price", () => {
+      const drop = toPriceDrop(asStored({ ...makeRow({ maxQuantity: 10 }), quantitySold: 3 }));
+
+      expect(drop).toMatchObject({
+        dropId: "drop-1",
+        showId: "show-1",
+        productId: "product-1",
+        maxQuantity: 10,
+        quantitySold: 3,
+        revenueCents: 3 * 2999,
+        status: "ACTIVE",
+        trigger: "MANUAL",
+      });
+    });
+
+    it("round-trips a programmed drop's trigger, limit and buffer", () => {
+      const at = new Date("2026-03-01T18:10:00Z");
+      const row = makeRow({
+        status: "SCHEDULED",
+        startedAt: at,
+        endsAt: new Date(at.getTime() + 120_000),
+        maxQuantity: 25,
+        stockBuffer: 4,
+        trigger: { type: "VIEWER_THRESHOLD", minViewers: 500 },
+      });
+
+      expect(row.triggerType).toBe("VIEWER_THRESHOLD");
+      expect(toProgrammedPriceDrop(asStored(row))).toMatchObject({
+        programId: "drop-1",
+        showId: "show-1",
+        durationSeconds: 120,
+        trigger: { type: "VIEWER_THRESHOLD", minViewers: 500 },
+        maxQuantity: 25,
+        stockBuffer: 4,
+      });
+    });
+
+    it("falls back to the start time when no trigger was stored", () => {
+      const row = asStored(makeRow({ status: "SCHEDULED" }));
+
+      expect(toProgrammedPriceDrop(row).trigger).toEqual({
+        type: "AT_TIME",
+        at: new Date("2026-03-01T18:00:00Z"),
+      });
+    });
+  });
+
+  describe("getDiscountPercent", () => {
+    it("fits the decimal(5,2) column", () => {
+      expect(getDiscountPercent(4999, 2999)).toBe("40.01");
+      expect(getDiscountPercent(1000, 0)).toBe("99.99");
+      expect(getDiscountPercent(1000, 1500)).toBe("0.00");
+      expect(getDiscountPercent(0, 500)).toBe("0.00");
+    });
+  });
+});
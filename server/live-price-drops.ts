@@ -0,0 +1,677 @@
+/**
+ * Live Price Drops
+ *
+ * Starting, selling and ending price drops during a live show. The show
+ * runner and the orchestration engine both go through here, so a drop is
+ * stored, armed and auto-stopped the same way whichever of them started it.
+ *
+ * A show is a live_sessions row. Drops are stored in live_price_drops with
+ * prices in cents; while a drop runs, the pinned product's live price is the
+ * drop price. Status changes (SCHEDULED → ACTIVE → ENDED) are conditional
+ * updates, so two processes racing on one drop produce one transition.
+ */
+
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { ulid } from "ulid";
+import { inventory, livePriceDrops, pinnedProducts, products } from "../drizzle/schema";
+import { getDb } from "./db";
+import { showLifecycle } from "./live-show-state-machine";
+import {
+  PriceDropScheduler,
+  getAutoStopReason,
+  getRemainingQuantity,
+  parsePriceDropTrigger,
+  publishPriceDropEvent,
+  type PriceDropEndReason,
+  type PriceDropTrigger,
+  type PriceDropTriggerType,
+  type ProgrammedPriceDrop,
+} from "./live-price-drop-scheduler";
+
+// Units held back from live price drops unless a drop sets its own buffer
+export const DEFAULT_STOCK_BUFFER = 0;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PriceDropRow = typeof livePriceDrops.$inferSelect;
+export type NewPriceDropRow = typeof livePriceDrops.$inferInsert;
+export type PriceDropStatus = PriceDropRow["status"];
+
+export interface PriceDrop {
+  dropId: string;
+  showId: string;
+  productId: string;
+  originalPriceCents: number;
+  dropPriceCents: number;
+  startedAt: Date;
+  endsAt: Date;
+  maxQuantity?: number;
+  stockBuffer?: number;
+  quantitySold: number;
+  revenueCents: number;
+  urgencyMessage?: string;
+  status: PriceDropStatus;
+  trigger: PriceDropTriggerType;
+  endReason?: PriceDropEndReason;
+}
+
+/**
+ * A drop in a show runbook, priced in dollars
+ */
+export interface PriceDropConfig {
+  productId: string;
+  originalPrice: number;
+  dropPrice: number;
+  startTime: Date;
+  durationMinutes: number;
+  stockLimit?: number;
+  countdownDisplay: boolean;
+  // Defaults to firing at startTime
+  trigger?: PriceDropTrigger;
+  // End early once sellable stock falls to this many units
+  stockBuffer?: number;
+}
+
+export interface StartPriceDropParams {
+  channelId: string;
+  showId: string;
+  productId: string;
+  dropPriceCents: number;
+  durationSeconds: number;
+  maxQuantity?: number;
+  urgencyMessage?: string;
+  trigger?: PriceDropTrigger;
+  stockBuffer?: number;
+  // Set when a programmed drop fires, so its SCHEDULED row is activated
+  programId?: string;
+}
+
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+// Programmed drops fire like a manual drop
+export const priceDropScheduler = new PriceDropScheduler(async (drop) => {
+  await startPriceDrop(drop);
+});
+
+const expiryTimers = new Map<string, NodeJS.Timeout>();
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+export function toCents(price: string | number | null | undefined): number {
+  return Math.round(Number(price || 0) * 100);
+}
+
+export function toDecimalPrice(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Discount as stored in live_price_drops.discount_percent (decimal 5,2)
+ */
+export function getDiscountPercent(originalPriceCents: number, dropPriceCents: number): string {
+  if (originalPriceCents <= 0) return "0.00";
+  const percent = ((originalPriceCents - dropPriceCents) / originalPriceCents) * 100;
+  return Math.min(99.99, Math.max(0, percent)).toFixed(2);
+}
+
+/**
+ * The live_price_drops row for a new drop, manual or programmed
+ */
+export function buildPriceDropRow(drop: {
+  id: string;
+  channelId: string;
+  showId: string;
+  productId: string;
+  originalPriceCents: number;
+  dropPriceCents: number;
+  startedAt: Date;
+  endsAt: Date;
+  status: PriceDropStatus;
+  maxQuantity?: number;
+  stockBuffer?: number;
+  urgencyMessage?: string;
+  trigger?: PriceDropTrigger;
+}): NewPriceDropRow {
+  return {
+    id: drop.id,
+    channelId: drop.channelId,
+    liveSessionId: drop.showId,
+    productId: drop.productId,
+    originalPriceCents: drop.originalPriceCents,
+    dropPriceCents: drop.dropPriceCents,
+    discountPercent: getDiscountPercent(drop.originalPriceCents, drop.dropPriceCents),
+    startedAt: drop.startedAt,
+    endsAt: drop.endsAt,
+    quantityLimit: drop.maxQuantity ?? null,
+    quantitySold: 0,
+    status: drop.status,
+    urgencyMessage: drop.urgencyMessage ?? null,
+    triggerType: drop.trigger?.type ?? "MANUAL",
+    triggerConfig: drop.trigger ?? null,
+    stockBuffer: drop.stockBuffer ?? null,
+  };
+}
+
+export function toPriceDrop(row: PriceDropRow): PriceDrop {
+  return {
+    dropId: row.id,
+    showId: row.liveSessionId,
+    productId: row.productId,
+    originalPriceCents: row.originalPriceCents,
+    dropPriceCents: row.dropPriceCents,
+    startedAt: new Date(row.startedAt),
+    endsAt: new Date(row.endsAt),
+    maxQuantity: row.quantityLimit ?? undefined,
+    stockBuffer: row.stockBuffer ?? undefined,
+    quantitySold: row.quantitySold,
+    revenueCents: row.quantitySold * row.dropPriceCents,
+    urgencyMessage: row.urgencyMessage ?? undefined,
+    status: row.status,
+    trigger: row.triggerType,
+    endReason: (row.endReason as PriceDropEndReason | null) ?? undefined,
+  };
+}
+
+/**
+ * Rebuild the scheduler's view of a SCHEDULED row. The row's start time
+ * doubles as the trigger time when no trigger was stored.
+ */
+export function toProgrammedPriceDrop(row: PriceDropRow): ProgrammedPriceDrop {
+  const startedAt = new Date(row.startedAt);
+
+  return {
+    programId: row.id,
+    channelId: row.channelId,
+    showId: row.liveSessionId,
+    productId: row.productId,
+    dropPriceCents: row.dropPriceCents,
+    durationSeconds: Math.round((new Date(row.endsAt).getTime() - startedAt.getTime()) / 1000),
+    trigger: parsePriceDropTrigger(row.triggerConfig, startedAt),
+    maxQuantity: row.quantityLimit ?? undefined,
+    stockBuffer: row.stockBuffer ?? undefined,
+    urgencyMessage: row.urgencyMessage ?? undefined,
+  };
+}
+
+// ============================================================================
+// DROPS
+// ============================================================================
+
+/**
+ * Start a drop on a pinned product, or activate a programmed one when its
+ * trigger fires. Any drop already running on the product ends first.
+ */
+export async function startPriceDrop(params: StartPriceDropParams): Promise<PriceDrop> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (!(await showLifecycle.isLive(params.showId))) {
+    throw new Error("Show is not live");
+  }
+
+  // Refuse to start a drop that would immediately auto-stop
+  const stockBuffer = params.stockBuffer ?? DEFAULT_STOCK_BUFFER;
+  const availableStock = await getAvailableStock(params.productId);
+  if (getAutoStopReason({ quantitySold: 0, maxQuantity: params.maxQuantity, availableStock, stockBuffer })) {
+    throw new Error(`Not enough stock above buffer for price drop on ${params.productId}`);
+  }
+
+  const running = await db
+    .select({ id: livePriceDrops.id })
+    .from(livePriceDrops)
+    .where(
+      and(
+        eq(livePriceDrops.liveSessionId, params.showId),
+        eq(livePriceDrops.productId, params.productId),
+        eq(livePriceDrops.status, "ACTIVE")
+      )
+    );
+  for (const existing of running) {
+    await endPriceDrop(params.showId, existing.id, "MANUAL");
+  }
+
+  // With no drop running, the pin shows the price the drop is measured from
+  const [pin] = await db
+    .select({ livePrice: pinnedProducts.livePrice, basePrice: products.price })
+    .from(pinnedProducts)
+    .innerJoin(products, eq(pinnedProducts.productId, products.id))
+    .where(
+      and(
+        eq(pinnedProducts.liveSessionId, params.showId),
+        eq(pinnedProducts.productId, params.productId),
+        eq(pinnedProducts.isActive, true)
+      )
+    )
+    .limit(1);
+
+  if (!pin) {
+    throw new Error("Product must be pinned before price drop");
+  }
+
+  const originalPriceCents = toCents(pin.livePrice ?? pin.basePrice);
+  const startedAt = new Date();
+  const endsAt = new Date(startedAt.getTime() + params.durationSeconds * 1000);
+  const dropId = params.programId ?? ulid();
+
+  if (params.programId) {
+    const [result] = await db
+      .update(livePriceDrops)
+      .set({
+        originalPriceCents,
+        dropPriceCents: params.dropPriceCents,
+        discountPercent: getDiscountPercent(originalPriceCents, params.dropPriceCents),
+        startedAt,
+        endsAt,
+        status: "ACTIVE",
+      })
+      .where(and(eq(livePriceDrops.id, dropId), eq(livePriceDrops.status, "SCHEDULED")));
+
+    if (result.affectedRows === 0) {
+      throw new Error(`Programmed price drop ${dropId} already fired or was canceled`);
+    }
+  } else {
+    await db.insert(livePriceDrops).values(
+      buildPriceDropRow({
+        id: dropId,
+        channelId: params.channelId,
+        showId: params.showId,
+        productId: params.productId,
+        originalPriceCents,
+        dropPriceCents: params.dropPriceCents,
+        startedAt,
+        endsAt,
+        status: "ACTIVE",
+        maxQuantity: params.maxQuantity,
+        stockBuffer: params.stockBuffer,
+        urgencyMessage: params.urgencyMessage,
+        trigger: params.trigger,
+      })
+    );
+  }
+
+  await setPinnedPrice(db, params.showId, params.productId, params.dropPriceCents);
+  armExpiry(params.showId, dropId, endsAt);
+
+  const drop = await getPriceDrop(params.showId, dropId);
+  if (!drop) throw new Error(`Price drop ${dropId} not found`);
+
+  publishPriceDropEvent({
+    type: "PRICE_DROP_STARTED",
+    showId: params.showId,
+    productId: params.productId,
+    dropId,
+    programId: params.programId,
+    trigger: params.trigger?.type ?? "MANUAL",
+    originalPriceCents,
+    dropPriceCents: params.dropPriceCents,
+    startsAt: startedAt.toISOString(),
+    endsAt: endsAt.toISOString(),
+    quantitySold: 0,
+    remainingQuantity: getRemainingQuantity({
+      quantitySold: 0,
+      maxQuantity: params.maxQuantity,
+      availableStock,
+      stockBuffer,
+    }),
+  });
+
+  return drop;
+}
+
+/**
+ * End a running drop and put the pinned price back. Returns null if the
+ * drop was not running (already ended here or by another process).
+ */
+export async function endPriceDrop(
+  showId: string,
+  dropId: string,
+  reason: PriceDropEndReason = "MANUAL"
+): Promise<PriceDrop | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  clearExpiry(dropId);
+
+  const [row] = await db
+    .select()
+    .from(livePriceDrops)
+    .where(and(eq(livePriceDrops.id, dropId), eq(livePriceDrops.liveSessionId, showId)))
+    .limit(1);
+  if (!row || row.status !== "ACTIVE") return null;
+
+  const endedAt = new Date();
+  const [result] = await db
+    .update(livePriceDrops)
+    .set({ endsAt: endedAt, status: "ENDED", endReason: reason })
+    .where(and(eq(livePriceDrops.id, dropId), eq(livePriceDrops.status, "ACTIVE")));
+  if (result.affectedRows === 0) return null;
+
+  await setPinnedPrice(db, showId, row.productId, row.originalPriceCents);
+
+  publishPriceDropEvent({
+    type: "PRICE_DROP_ENDED",
+    showId,
+    productId: row.productId,
+    dropId,
+    quantitySold: row.quantitySold,
+    reason,
+  });
+
+  return toPriceDrop({ ...row, endsAt: endedAt, status: "ENDED", endReason: reason });
+}
+
+/**
+ * Count units sold at the drop price for the product's running drop, and
+ * end the drop on sell-out or once stock reaches its buffer
+ */
+export async function recordPriceDropSale(
+  showId: string,
+  productId: string,
+  quantity: number
+): Promise<PriceDrop | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [running] = await db
+    .select({ id: livePriceDrops.id })
+    .from(livePriceDrops)
+    .where(
+      and(
+        eq(livePriceDrops.liveSessionId, showId),
+        eq(livePriceDrops.productId, productId),
+        eq(livePriceDrops.status, "ACTIVE")
+      )
+    )
+    .limit(1);
+  if (!running) return null;
+
+  await db
+    .update(livePriceDrops)
+    .set({ quantitySold: sql`${livePriceDrops.quantitySold} + ${quantity}` })
+    .where(and(eq(livePriceDrops.id, running.id), eq(livePriceDrops.status, "ACTIVE")));
+
+  const drop = await getPriceDrop(showId, running.id);
+  if (!drop) return null;
+
+  const stockState = {
+    quantitySold: drop.quantitySold,
+    maxQuantity: drop.maxQuantity,
+    availableStock: await getAvailableStock(productId),
+    stockBuffer: drop.stockBuffer ?? DEFAULT_STOCK_BUFFER,
+  };
+  const stopReason = getAutoStopReason(stockState);
+
+  if (stopReason) {
+    return (await endPriceDrop(showId, drop.dropId, stopReason)) ?? drop;
+  }
+
+  publishPriceDropEvent({
+    type: "PRICE_DROP_UPDATED",
+    showId,
+    productId,
+    dropId: drop.dropId,
+    quantitySold: stockState.quantitySold,
+    remainingQuantity: getRemainingQuantity(stockState),
+  });
+
+  return drop;
+}
+
+// ============================================================================
+// PROGRAMMED DROPS
+// ============================================================================
+
+/**
+ * Pre-program runbook drops. Each is stored as a SCHEDULED row and fires on
+ * its trigger (start time by default).
+ */
+export async function programPriceDrops(
+  channelId: string,
+  showId: string,
+  configs: PriceDropConfig[]
+): Promise<ProgrammedPriceDrop[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const programmed: ProgrammedPriceDrop[] = [];
+
+  for (const config of configs) {
+    const drop: ProgrammedPriceDrop = {
+      programId: ulid(),
+      channelId,
+      showId,
+      productId: config.productId,
+      dropPriceCents: Math.round(config.dropPrice * 100),
+      durationSeconds: config.durationMinutes * 60,
+      trigger: config.trigger ?? { type: "AT_TIME", at: config.startTime },
+      maxQuantity: config.stockLimit,
+      stockBuffer: config.stockBuffer,
+    };
+
+    // Validates before anything is stored
+    priceDropScheduler.program(drop);
+
+    try {
+      await db.insert(livePriceDrops).values(
+        buildPriceDropRow({
+          id: drop.programId,
+          channelId,
+          showId,
+          productId: drop.productId,
+          originalPriceCents: Math.round(config.originalPrice * 100),
+          dropPriceCents: drop.dropPriceCents,
+          startedAt: config.startTime,
+          endsAt: new Date(config.startTime.getTime() + drop.durationSeconds * 1000),
+          status: "SCHEDULED",
+          maxQuantity: drop.maxQuantity,
+          stockBuffer: drop.stockBuffer,
+          trigger: drop.trigger,
+        })
+      );
+    } catch (error) {
+      priceDropScheduler.cancel(drop.programId);
+      throw error;
+    }
+
+    programmed.push(drop);
+  }
+
+  return programmed;
+}
+
+/**
+ * Cancel a programmed drop before it fires
+ */
+export async function cancelProgrammedPriceDrop(showId: string, programId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  priceDropScheduler.cancel(programId);
+
+  await db
+    .update(livePriceDrops)
+    .set({ status: "CANCELED" })
+    .where(
+      and(
+        eq(livePriceDrops.liveSessionId, showId),
+        eq(livePriceDrops.id, programId),
+        eq(livePriceDrops.status, "SCHEDULED")
+      )
+    );
+}
+
+/**
+ * Start a countdown drop on the host's cue
+ */
+export function startPriceDropCountdown(programId: string): Date {
+  return priceDropScheduler.startCountdown(programId);
+}
+
+/**
+ * Re-arm a show's drops in this process, e.g. after a restart. Running drops
+ * get their expiry back (or end now if it passed); programmed drops not yet
+ * armed here are programmed again, except timestamp drops whose time has
+ * passed, which are canceled.
+ */
+export async function resumePriceDrops(showId: string): Promise<{ active: number; programmed: number }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db
+    .select()
+    .from(livePriceDrops)
+    .where(
+      and(
+        eq(livePriceDrops.liveSessionId, showId),
+        inArray(livePriceDrops.status, ["SCHEDULED", "ACTIVE"])
+      )
+    );
+
+  const armed = new Set(priceDropScheduler.getPrograms(showId).map((drop) => drop.programId));
+  const now = Date.now();
+  let active = 0;
+  let programmed = 0;
+
+  for (const row of rows) {
+    if (row.status === "ACTIVE") {
+      const endsAt = new Date(row.endsAt);
+      if (endsAt.getTime() <= now) {
+        await endPriceDrop(showId, row.id, "EXPIRED");
+      } else {
+        if (!expiryTimers.has(row.id)) armExpiry(showId, row.id, endsAt);
+        active++;
+      }
+      continue;
+    }
+
+    if (armed.has(row.id)) {
+      programmed++;
+      continue;
+    }
+
+    const drop = toProgrammedPriceDrop(row);
+    if (drop.trigger.type === "AT_TIME" && drop.trigger.at.getTime() <= now) {
+      await cancelProgrammedPriceDrop(showId, row.id);
+      continue;
+    }
+
+    priceDropScheduler.program(drop);
+    programmed++;
+  }
+
+  return { active, programmed };
+}
+
+/**
+ * Close out every drop when the show ends: programmed drops are canceled
+ * and running ones end with SHOW_ENDED
+ */
+export async function endShowPriceDrops(showId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  priceDropScheduler.clearShow(showId);
+
+  await db
+    .update(livePriceDrops)
+    .set({ status: "CANCELED" })
+    .where(and(eq(livePriceDrops.liveSessionId, showId), eq(livePriceDrops.status, "SCHEDULED")));
+
+  for (const drop of await getActivePriceDrops(showId)) {
+    await endPriceDrop(showId, drop.dropId, "SHOW_ENDED");
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getPriceDrop(showId: string, dropId: string): Promise<PriceDrop | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .select()
+    .from(livePriceDrops)
+    .where(and(eq(livePriceDrops.id, dropId), eq(livePriceDrops.liveSessionId, showId)))
+    .limit(1);
+
+  return row ? toPriceDrop(row) : null;
+}
+
+export async function getActivePriceDrops(showId: string): Promise<PriceDrop[]> {
+  return listPriceDrops(showId, ["ACTIVE"]);
+}
+
+export async function listPriceDrops(showId: string, statuses?: PriceDropStatus[]): Promise<PriceDrop[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db
+    .select()
+    .from(livePriceDrops)
+    .where(
+      statuses
+        ? and(eq(livePriceDrops.liveSessionId, showId), inArray(livePriceDrops.status, statuses))
+        : eq(livePriceDrops.liveSessionId, showId)
+    )
+    .orderBy(livePriceDrops.startedAt);
+
+  return rows.map(toPriceDrop);
+}
+
+/**
+ * Sellable units across all warehouses
+ */
+export async function getAvailableStock(productId: string): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [stock] = await db
+    .select({ available: sql<number>`COALESCE(SUM(${inventory.available}), 0)` })
+    .from(inventory)
+    .where(eq(inventory.productId, productId));
+
+  return Number(stock?.available ?? 0);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function setPinnedPrice(db: Database, showId: string, productId: string, priceCents: number): Promise<void> {
+  await db
+    .update(pinnedProducts)
+    .set({ livePrice: toDecimalPrice(priceCents) })
+    .where(
+      and(
+        eq(pinnedProducts.liveSessionId, showId),
+        eq(pinnedProducts.productId, productId),
+        eq(pinnedProducts.isActive, true)
+      )
+    );
+}
+
+// End on time even if nobody buys
+function armExpiry(showId: string, dropId: string, endsAt: Date): void {
+  clearExpiry(dropId);
+  const timer = setTimeout(() => {
+    expiryTimers.delete(dropId);
+    endPriceDrop(showId, dropId, "EXPIRED").catch((error) => {
+      console.error(`[LivePriceDrops] Failed to expire price drop ${dropId}:`, error);
+    });
+  }, Math.max(0, endsAt.getTime() - Date.now()));
+  expiryTimers.set(dropId, timer);
+}
+
+function clearExpiry(dropId: string): void {
+  const timer = expiryTimers.get(dropId);
+  if (timer) {
+    clearTimeout(timer);
+    expiryTimers.delete(dropId);
+  }
+}
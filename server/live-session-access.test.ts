@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({ getDb: vi.fn() }));
+
+import { getDb } from "./db";
+import { requireLiveSessionOwner } from "./live-session-access";
+
+const session = { id: "show-1", channelId: "channel-1", status: "scheduled", creatorId: "creator-1" };
+
+// First select is the session, the second the caller's creator profile
+function useFakeDb(rows: { session?: typeof session; creatorId?: string }) {
+  const results = [rows.session ? [rows.session] : [], rows.creatorId ? [{ id: rows.creatorId }] : []];
+
+  vi.mocked(getDb).mockResolvedValue({
+    select: () => ({ from: () => ({ where: () => ({ limit: async () => results.shift() ?? [] }) }) }),
+  } as unknown as Awaited<ReturnType<typeof getDb>>);
+}
+
+describe("Live Session Access", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lets the session's creator run it", async () => {
+    useFakeDb({ session, creatorId: "creator-1" });
+
+    await expect(requireLiveSessionOwner({ role: "user", email: "sam@example.com" }, "show-1")).resolves.toEqual(session);
+  });
+
+  it("lets an admin run any session", async () => {
+    useFakeDb({ session });
+
+    await expect(requireLiveSessionOwner({ role: "admin", email: null }, "show-1")).resolves.toEqual(session);
+  });
+
+  it("refuses another creator", async () => {
+    useFakeDb({ session, creatorId: "creator-2" });
+
+    await expect(requireLiveSessionOwner({ role: "user", email: "kim@example.com" }, "show-1"))
+      .rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("refuses a show it has no record of", async () => {
+    useFakeDb({});
+
+    await expect(requireLiveSessionOwner({ role: "admin", email: null }, "show-9"))
+      .rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
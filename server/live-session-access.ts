@@ -0,0 +1,72 @@
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getDb } from './db';
+import { creators, liveSessions } from '../drizzle/schema';
+
+/**
+ * Live Session Access
+ * Who may run a live session: an admin, or the signed-in user whose email
+ * is the session creator's. The show runner, price drops and pins all key
+ * on live_sessions, so this is the show model permissions are checked on.
+ */
+
+export interface LiveSessionOwner {
+  id: string;
+  channelId: string;
+  status: string;
+  creatorId: string | null;
+}
+
+/**
+ * Creator profile registered to an email, if any
+ */
+export async function findCreatorIdByEmail(email: string | null | undefined): Promise<string | null> {
+  if (!email) return null;
+
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const [creator] = await db
+    .select({ id: creators.id })
+    .from(creators)
+    .where(eq(creators.email, email))
+    .limit(1);
+
+  return creator?.id ?? null;
+}
+
+/**
+ * Load a live session for a caller who wants to run it. Unknown sessions
+ * are NOT_FOUND; sessions of another creator are FORBIDDEN to non-admins.
+ */
+export async function requireLiveSessionOwner(
+  user: { role: string; email: string | null },
+  showId: string
+): Promise<LiveSessionOwner> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const [session] = await db
+    .select({
+      id: liveSessions.id,
+      channelId: liveSessions.channelId,
+      status: liveSessions.status,
+      creatorId: liveSessions.creatorId,
+    })
+    .from(liveSessions)
+    .where(eq(liveSessions.id, showId))
+    .limit(1);
+
+  if (!session) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Show not found' });
+  }
+
+  if (user.role !== 'admin') {
+    const creatorId = await findCreatorIdByEmail(user.email);
+    if (!creatorId || session.creatorId !== creatorId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the show\'s creator or an admin can run it' });
+    }
+  }
+
+  return session;
+}
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ShowChannelHub, fromPriceDropEvent } from "./live-show-channel";
+import {
+  SHOW_CHANNEL_MESSAGES,
+  applyShowChannelEvent,
+  emptyShowChannelState,
+  reduceShowChannelFrame,
+  type ShowChannelEventFrame,
+} from "../shared/live-show-channel";
+
+const pinned = (productId: string, sortOrder = 0) => ({
+  productId,
+  displayPriceCents: 2999,
+  originalPriceCents: 3999,
+  sortOrder,
+  pinnedAt: "2026-03-01T18:00:00.000Z",
+});
+
+describe("Live Show Channel", () => {
+  let hub: ShowChannelHub;
+
+  beforeEach(() => {
+    hub = new ShowChannelHub(3);
+  });
+
+  describe("Hub", () => {
+    it("should sequence events per show and notify listeners", () => {
+      const frames: ShowChannelEventFrame[] = [];
+      hub.onFrame((frame) => frames.push(frame));
+
+      hub.publish("show-1", { type: "viewer_count", viewerCount: 10, delta: 10 });
+      hub.publish("show-2", { type: "viewer_count", viewerCount: 3, delta: 3 });
+      hub.publish("show-1", { type: "product_pinned", product: pinned("p1") });
+
+      expect(frames.map((f) => [f.showId, f.seq])).toEqual([
+        ["show-1", 1],
+        ["show-2", 1],
+        ["show-1", 2],
+      ]);
+      expect(hub.getSnapshotState("show-1")?.pinnedProducts).toHaveLength(1);
+    });
+
+    it("should resume from the backlog when it covers the gap", async () => {
+      for (let i = 1; i <= 3; i++) {
+        hub.publish("show-1", { type: "viewer_count", viewerCount: i, delta: 1 });
+      }
+      const epoch = hub.getEpoch("show-1")!;
+
+      const resume = await hub.resume("show-1", 1, epoch);
+      expect(resume.snapshot).toBeUndefined();
+      expect(resume.events.map((f) => f.seq)).toEqual([2, 3]);
+
+      expect((await hub.resume("show-1", 3, epoch)).events).toHaveLength(0);
+    });
+
+    it("should send a snapshot once the backlog no longer reaches back", async () => {
+      for (let i = 1; i <= 5; i++) {
+        hub.publish("show-1", { type: "viewer_count", viewerCount: i, delta: 1 });
+      }
+
+      const resume = await hub.resume("show-1", 1, hub.getEpoch("show-1")!);
+      expect(resume.snapshot?.seq).toBe(5);
+      expect(resume.snapshot?.state.viewerCount).toBe(5);
+    });
+
+    it("should send a snapshot to a client from before a restart", async () => {
+      const before = hub.publish("show-1", { type: "viewer_count", viewerCount: 1, delta: 1 });
+
+      // A restarted server counts from zero again under a new epoch
+      const restarted = new ShowChannelHub(3);
+      for (let i = 1; i <= 3; i++) {
+        restarted.publish("show-1", { type: "viewer_count", viewerCount: i, delta: 1 });
+      }
+
+      const resume = await restarted.resume("show-1", before.seq, before.epoch);
+      expect(resume.events).toHaveLength(0);
+      expect(resume.snapshot).toMatchObject({ seq: 3, epoch: restarted.getEpoch("show-1") });
+      expect(resume.snapshot?.epoch).not.toBe(before.epoch);
+    });
+
+    it("should follow another node into a newer epoch and drop older frames", () => {
+      const frame = (epoch: string, seq: number): ShowChannelEventFrame => ({
+        showId: "show-1",
+        epoch,
+        seq,
+        event: { type: "viewer_count", viewerCount: seq, delta: 1 },
+        serverTime: "2026-03-01T18:00:00.000Z",
+      });
+
+      expect(hub.ingest(frame("01B", 4))).toBe(true);
+      expect(hub.ingest(frame("01B", 4))).toBe(false);
+      expect(hub.ingest(frame("01A", 9))).toBe(false);
+      expect(hub.ingest(frame("01C", 1))).toBe(true);
+      expect([hub.getEpoch("show-1"), hub.getSeq("show-1")]).toEqual(["01C", 1]);
+    });
+
+    it("should seed unknown shows from the snapshot loader", async () => {
+      hub.setSnapshotLoader(async (showId) => ({
+        showId,
+        status: "LIVE",
+        isLive: true,
+        viewerCount: 120,
+      }));
+
+      const resume = await hub.resume("show-9");
+      expect(resume.snapshot?.state).toMatchObject({ status: "LIVE", isLive: true, viewerCount: 120 });
+
+      // Events continue from the loaded state
+      hub.publish("show-9", { type: "viewer_count", viewerCount: 121, delta: 1 });
+      expect(hub.getSnapshotState("show-9")?.status).toBe("LIVE");
+    });
+  });
+
+  describe("Client reducer", () => {
+    const snapshot = {
+      type: SHOW_CHANNEL_MESSAGES.snapshot,
+      payload: {
+        showId: "show-1",
+        epoch: "epoch-1",
+        seq: 4,
+        state: emptyShowChannelState("show-1"),
+        serverTime: "2026-03-01T18:00:00.000Z",
+      },
+    };
+    const event = (seq: number, viewerCount: number, epoch = "epoch-1") => ({
+      type: SHOW_CHANNEL_MESSAGES.event,
+      payload: {
+        showId: "show-1",
+        epoch,
+        seq,
+        event: { type: "viewer_count" as const, viewerCount, delta: 1 },
+        serverTime: "2026-03-01T18:00:00.000Z",
+      },
+    });
+
+    it("should apply the next event and ignore duplicates", () => {
+      const current = reduceShowChannelFrame(null, snapshot).next;
+
+      const applied = reduceShowChannelFrame(current, event(5, 50));
+      expect(applied).toMatchObject({ needsResync: false, next: { seq: 5 } });
+      expect(applied.next?.state.viewerCount).toBe(50);
+
+      const duplicate = reduceShowChannelFrame(applied.next, event(5, 99));
+      expect(duplicate.next).toBe(applied.next);
+      expect(duplicate.needsResync).toBe(false);
+    });
+
+    it("should ask for a resync on a gap or before the first snapshot", () => {
+      const current = reduceShowChannelFrame(null, snapshot).next;
+
+      const gap = reduceShowChannelFrame(current, event(7, 70));
+      expect(gap.needsResync).toBe(true);
+      expect(gap.next).toBe(current);
+
+      expect(reduceShowChannelFrame(null, event(1, 1)).needsResync).toBe(true);
+    });
+
+    it("should ask for a resync on an event from another epoch", () => {
+      const current = reduceShowChannelFrame(null, snapshot).next;
+
+      const restarted = reduceShowChannelFrame(current, event(5, 50, "epoch-2"));
+      expect(restarted.needsResync).toBe(true);
+      expect(restarted.next).toBe(current);
+    });
+
+    it("should take a snapshot even when its sequence is lower", () => {
+      const current = { epoch: "epoch-0", seq: 90, state: emptyShowChannelState("show-1") };
+      expect(reduceShowChannelFrame(current, snapshot).next?.seq).toBe(4);
+    });
+  });
+
+  describe("State", () => {
+    it("should keep pins ordered and replace a product's earlier pin", () => {
+      let state = emptyShowChannelState("show-1");
+      state = applyShowChannelEvent(state, { type: "product_pinned", product: pinned("p1", 1) });
+      state = applyShowChannelEvent(state, { type: "product_pinned", product: pinned("p2", 5) });
+      state = applyShowChannelEvent(state, { type: "product_pinned", product: pinned("p1", 9) });
+
+      expect(state.pinnedProducts.map((p) => p.productId)).toEqual(["p1", "p2"]);
+
+      state = applyShowChannelEvent(state, { type: "product_unpinned", productId: "p1" });
+      expect(state.pinnedProducts.map((p) => p.productId)).toEqual(["p2"]);
+    });
+
+    it("should move a countdown into a live drop and clear drops off-air", () => {
+      let state = emptyShowChannelState("show-1");
+      state = applyShowChannelEvent(state, {
+        type: "price_drop_countdown",
+        countdown: { programId: "prog-1", productId: "p1", firesAt: "2026-03-01T18:05:00.000Z" },
+      });
+      state = applyShowChannelEvent(state, {
+        type: "price_drop_started",
+        programId: "prog-1",
+        drop: { dropId: "drop-1", productId: "p1", quantitySold: 0, remainingQuantity: 20 },
+      });
+
+      expect(state.countdowns).toHaveLength(0);
+      expect(state.priceDrops.map((d) => d.dropId)).toEqual(["drop-1"]);
+
+      state = applyShowChannelEvent(state, {
+        type: "price_drop_updated",
+        dropId: "drop-1",
+        quantitySold: 3,
+        remainingQuantity: 17,
+      });
+      state = applyShowChannelEvent(state, { type: "stock_changed", productId: "p1", available: 42 });
+      expect(state.priceDrops[0].remainingQuantity).toBe(17);
+      expect(state.stock).toEqual({ p1: 42 });
+
+      state = applyShowChannelEvent(state, { type: "status_changed", status: "ENDED", isLive: false });
+      expect(state.priceDrops).toHaveLength(0);
+    });
+  });
+
+  describe("Price drop mapping", () => {
+    it("should map scheduler events onto channel events", () => {
+      const base = { showId: "show-1", productId: "p1", serverTime: "2026-03-01T18:00:00.000Z" };
+
+      expect(
+        fromPriceDropEvent({ ...base, type: "PRICE_DROP_SCHEDULED", programId: "prog-1" })
+      ).toBeNull();
+      expect(
+        fromPriceDropEvent({
+          ...base,
+          type: "PRICE_DROP_COUNTDOWN",
+          programId: "prog-1",
+          startsAt: "2026-03-01T18:00:30.000Z",
+        })
+      ).toMatchObject({ type: "price_drop_countdown", countdown: { firesAt: "2026-03-01T18:00:30.000Z" } });
+      expect(
+        fromPriceDropEvent({ ...base, type: "PRICE_DROP_ENDED", dropId: "drop-1", reason: "SOLD_OUT" })
+      ).toEqual({ type: "price_drop_ended", dropId: "drop-1", productId: "p1", reason: "SOLD_OUT" });
+    });
+  });
+});
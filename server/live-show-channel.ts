@@ -0,0 +1,277 @@
+/**
+ * Live Show Channel Hub
+ *
+ * Server side of the typed per-show viewer channel (protocol in
+ * shared/live-show-channel.ts). The runner publishes show changes here; the
+ * hub stamps each with the next per-show sequence number, folds it into the
+ * show's current state and keeps a bounded backlog. A reconnecting client
+ * gets the events it missed from the backlog, or a full snapshot when it
+ * has fallen further behind than the backlog reaches.
+ *
+ * Sequences count within an epoch, a ULID minted whenever a hub starts a
+ * show's count from zero (first publish or snapshot after a restart). A
+ * client still on an older epoch always gets a snapshot, since its
+ * sequence numbers no longer line up with the backlog.
+ */
+
+import {
+  applyShowChannelEvent,
+  emptyShowChannelState,
+  type ShowChannelEvent,
+  type ShowChannelEventFrame,
+  type ShowChannelSnapshotFrame,
+  type ShowChannelState,
+} from "../shared/live-show-channel";
+import { ulid } from "ulid";
+import type { PriceDropEvent } from "./live-price-drop-scheduler";
+
+type FrameListener = (frame: ShowChannelEventFrame) => void;
+type SnapshotLoader = (showId: string) => Promise<Partial<ShowChannelState> | null>;
+
+interface ShowChannelPosition {
+  epoch: string;
+  seq: number;
+}
+
+interface ShowChannelEntry extends ShowChannelPosition {
+  state: ShowChannelState;
+  backlog: ShowChannelEventFrame[];
+}
+
+export interface ShowChannelResume {
+  snapshot?: ShowChannelSnapshotFrame;
+  events: ShowChannelEventFrame[];
+}
+
+export class ShowChannelHub {
+  private shows: Map<string, ShowChannelEntry> = new Map();
+  // Latest position seen from another node for shows we hold no state for
+  private remote: Map<string, ShowChannelPosition> = new Map();
+  private listeners: Set<FrameListener> = new Set();
+  private snapshotLoader: SnapshotLoader | null = null;
+
+  constructor(private backlogSize: number = 500) {}
+
+  /**
+   * Register a listener for every published frame. Returns an unsubscribe
+   * function.
+   */
+  onFrame(listener: FrameListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Source of truth for shows the hub has not seen since it started
+   * (e.g. after a restart). The show runner registers one backed by the
+   * database.
+   */
+  setSnapshotLoader(loader: SnapshotLoader): void {
+    this.snapshotLoader = loader;
+  }
+
+  /**
+   * Publish an event to everyone subscribed to the show
+   */
+  publish(showId: string, event: ShowChannelEvent): ShowChannelEventFrame {
+    const entry = this.getEntry(showId);
+
+    entry.seq += 1;
+    entry.state = applyShowChannelEvent(entry.state, event);
+
+    const frame: ShowChannelEventFrame = {
+      showId,
+      epoch: entry.epoch,
+      seq: entry.seq,
+      event,
+      serverTime: new Date().toISOString(),
+    };
+
+    entry.backlog.push(frame);
+    if (entry.backlog.length > this.backlogSize) {
+      entry.backlog.splice(0, entry.backlog.length - this.backlogSize);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(frame);
+      } catch (error) {
+        console.error("[ShowChannel] Listener failed:", error);
+      }
+    }
+
+    return frame;
+  }
+
+  /**
+   * Apply a frame published by the hub on another server instance, keeping
+   * its epoch and sequence number. Listeners are not called; the caller
+   * delivers the frame. When frames were missed, the epoch moved on or this
+   * hub never saw the show, the local state is dropped so the next snapshot
+   * reloads it at the remote position. Returns false for a frame already
+   * applied or from an older epoch.
+   */
+  ingest(frame: ShowChannelEventFrame): boolean {
+    const entry = this.shows.get(frame.showId);
+    const current = entry ?? this.remote.get(frame.showId);
+    if (current && frame.epoch < current.epoch) return false;
+    if (current && frame.epoch === current.epoch && frame.seq <= current.seq) return false;
+
+    if (!entry || frame.epoch !== entry.epoch || frame.seq !== entry.seq + 1) {
+      this.shows.delete(frame.showId);
+      this.remote.set(frame.showId, { epoch: frame.epoch, seq: frame.seq });
+      return true;
+    }
+
+    entry.seq = frame.seq;
+    entry.state = applyShowChannelEvent(entry.state, frame.event);
+    entry.backlog.push(frame);
+    if (entry.backlog.length > this.backlogSize) {
+      entry.backlog.splice(0, entry.backlog.length - this.backlogSize);
+    }
+    return true;
+  }
+
+  /**
+   * Full state of the show at its current sequence
+   */
+  async snapshot(showId: string): Promise<ShowChannelSnapshotFrame> {
+    if (!this.shows.has(showId) && this.snapshotLoader) {
+      try {
+        const loaded = await this.snapshotLoader(showId);
+        // A publish may have landed while the loader was running
+        if (loaded && !this.shows.has(showId)) {
+          this.shows.set(showId, {
+            ...this.startPosition(showId),
+            state: { ...emptyShowChannelState(showId), ...loaded, showId },
+            backlog: [],
+          });
+        }
+      } catch (error) {
+        console.error(`[ShowChannel] Snapshot load failed for show ${showId}:`, error);
+      }
+    }
+
+    const entry = this.getEntry(showId);
+    return {
+      showId,
+      epoch: entry.epoch,
+      seq: entry.seq,
+      state: entry.state,
+      serverTime: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * What a (re)subscribing client needs to catch up: the events after
+   * lastSeq when they are from the current epoch and the backlog still
+   * covers them, otherwise a snapshot
+   */
+  async resume(showId: string, lastSeq?: number, lastEpoch?: string): Promise<ShowChannelResume> {
+    const entry = this.shows.get(showId);
+
+    if (entry && lastSeq !== undefined && lastEpoch === entry.epoch && lastSeq <= entry.seq) {
+      const oldest = entry.backlog.length > 0 ? entry.backlog[0].seq : entry.seq + 1;
+      if (lastSeq >= oldest - 1) {
+        return { events: entry.backlog.filter((frame) => frame.seq > lastSeq) };
+      }
+    }
+
+    return { snapshot: await this.snapshot(showId), events: [] };
+  }
+
+  getSeq(showId: string): number {
+    return this.shows.get(showId)?.seq ?? this.remote.get(showId)?.seq ?? 0;
+  }
+
+  getEpoch(showId: string): string | null {
+    return this.shows.get(showId)?.epoch ?? this.remote.get(showId)?.epoch ?? null;
+  }
+
+  /**
+   * Current in-memory state, without consulting the snapshot loader
+   */
+  getSnapshotState(showId: string): ShowChannelState | null {
+    return this.shows.get(showId)?.state ?? null;
+  }
+
+  /**
+   * Forget a show (archived). Late subscribers get a fresh snapshot.
+   */
+  clear(showId: string): void {
+    this.shows.delete(showId);
+    this.remote.delete(showId);
+  }
+
+  private getEntry(showId: string): ShowChannelEntry {
+    let entry = this.shows.get(showId);
+    if (!entry) {
+      entry = { ...this.startPosition(showId), state: emptyShowChannelState(showId), backlog: [] };
+      this.shows.set(showId, entry);
+    }
+    return entry;
+  }
+
+  // Carry on from another node's position, or start a new epoch at zero
+  private startPosition(showId: string): ShowChannelPosition {
+    return this.remote.get(showId) ?? { epoch: ulid(), seq: 0 };
+  }
+}
+
+/**
+ * Map a price drop scheduler event onto the viewer channel
+ */
+export function fromPriceDropEvent(event: PriceDropEvent): ShowChannelEvent | null {
+  switch (event.type) {
+    case "PRICE_DROP_COUNTDOWN":
+      if (!event.programId || !event.startsAt) return null;
+      return {
+        type: "price_drop_countdown",
+        countdown: {
+          programId: event.programId,
+          productId: event.productId,
+          dropPriceCents: event.dropPriceCents,
+          firesAt: event.startsAt,
+        },
+      };
+    case "PRICE_DROP_CANCELED":
+      return event.programId ? { type: "price_drop_canceled", programId: event.programId } : null;
+    case "PRICE_DROP_STARTED":
+      if (!event.dropId) return null;
+      return {
+        type: "price_drop_started",
+        programId: event.programId,
+        drop: {
+          dropId: event.dropId,
+          productId: event.productId,
+          originalPriceCents: event.originalPriceCents,
+          dropPriceCents: event.dropPriceCents,
+          startsAt: event.startsAt,
+          endsAt: event.endsAt,
+          quantitySold: event.quantitySold ?? 0,
+          remainingQuantity: event.remainingQuantity ?? null,
+        },
+      };
+    case "PRICE_DROP_UPDATED":
+      if (!event.dropId) return null;
+      return {
+        type: "price_drop_updated",
+        dropId: event.dropId,
+        quantitySold: event.quantitySold ?? 0,
+        remainingQuantity: event.remainingQuantity ?? null,
+      };
+    case "PRICE_DROP_ENDED":
+      if (!event.dropId) return null;
+      return {
+        type: "price_drop_ended",
+        dropId: event.dropId,
+        productId: event.productId,
+        reason: event.reason,
+      };
+    case "PRICE_DROP_SCHEDULED":
+      // Not viewer-facing until the countdown starts or the drop goes live
+      return null;
+  }
+}
+
+export const showChannel = new ShowChannelHub();
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReplayTimeline,
+  getReplayProductsAt,
+  type ReplayTimelineInput,
+} from "../shared/live-show-replay";
+import { toVodPlaylist } from "./rtmp-ingestion";
+
+const start = new Date("2026-03-01T18:00:00Z");
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+function makeInput(overrides: Partial<ReplayTimelineInput> = {}): ReplayTimelineInput {
+  return {
+    showStartedAt: start,
+    durationSeconds: 600,
+    pins: [
+      { productId: "p1", pinnedAt: at(60), unpinnedAt: at(300), displayPriceCents: 4999, sortOrder: 0 },
+      { productId: "p2", pinnedAt: at(200), unpinnedAt: null, displayPriceCents: 2999, sortOrder: 5 },
+    ],
+    priceDrops: [
+      { dropId: "d1", productId: "p1", dropPriceCents: 3999, startedAt: at(120), endsAt: at(180) },
+    ],
+    segments: [],
+    highlights: [],
+    ...overrides,
+  };
+}
+
+describe("Live Show Replay", () => {
+  describe("Timeline", () => {
+    it("should report the pinned products and shown price at each second", () => {
+      const timeline = buildReplayTimeline(makeInput());
+
+      expect(getReplayProductsAt(timeline, 30)).toEqual([]);
+      expect(getReplayProductsAt(timeline, 60)).toEqual([
+        { productId: "p1", shownPriceCents: 4999, dropId: null, sortOrder: 0 },
+      ]);
+      expect(getReplayProductsAt(timeline, 150)[0]).toMatchObject({
+        shownPriceCents: 3999,
+        dropId: "d1",
+      });
+      expect(getReplayProductsAt(timeline, 180)[0].shownPriceCents).toBe(4999);
+      expect(getReplayProductsAt(timeline, 250).map((p) => p.productId)).toEqual(["p2", "p1"]);
+      expect(getReplayProductsAt(timeline, 599).map((p) => p.productId)).toEqual(["p2"]);
+      expect(getReplayProductsAt(timeline, 600)).toEqual([]);
+    });
+
+    it("should cover the whole show with contiguous intervals", () => {
+      const { intervals } = buildReplayTimeline(makeInput());
+
+      expect(intervals[0].startSecond).toBe(0);
+      expect(intervals.at(-1)?.endSecond).toBe(600);
+      for (let i = 1; i < intervals.length; i++) {
+        expect(intervals[i].startSecond).toBe(intervals[i - 1].endSecond);
+      }
+    });
+
+    it("should merge boundaries that change nothing on screen", () => {
+      const timeline = buildReplayTimeline(
+        makeInput({
+          pins: [{ productId: "p1", pinnedAt: at(0), displayPriceCents: 4999, sortOrder: 0 }],
+          // A drop for a product that was not pinned is never on screen
+          priceDrops: [
+            { dropId: "d9", productId: "p9", dropPriceCents: 100, startedAt: at(100), endsAt: at(200) },
+          ],
+        })
+      );
+
+      expect(timeline.intervals).toHaveLength(1);
+    });
+
+    it("should clamp events outside the recording", () => {
+      const timeline = buildReplayTimeline(
+        makeInput({
+          pins: [
+            { productId: "p1", pinnedAt: at(-30), unpinnedAt: at(900), displayPriceCents: 4999, sortOrder: 0 },
+          ],
+          priceDrops: [],
+        })
+      );
+
+      expect(timeline.intervals).toEqual([
+        {
+          startSecond: 0,
+          endSecond: 600,
+          products: [{ productId: "p1", shownPriceCents: 4999, dropId: null, sortOrder: 0 }],
+        },
+      ]);
+    });
+  });
+
+  describe("Chapters", () => {
+    it("should build chapters from segments that ran and from highlights", () => {
+      const { chapters } = buildReplayTimeline(
+        makeInput({
+          segments: [
+            { segmentId: "s1", type: "INTRO", title: "Welcome", actualStartOffset: 0, actualEndOffset: 90 },
+            { segmentId: "s2", type: "QA", title: "Q&A", actualStartOffset: null },
+            { segmentId: "s3", type: "PRICE_DROP", title: "Flash deal", actualStartOffset: 120 },
+          ],
+          highlights: [
+            { highlightId: "h1", type: "VIRAL_MOMENT", title: "Unboxing", timestampSeconds: 45 },
+            { highlightId: "h2", type: "PRICE_DROP", title: "Drop", timestampSeconds: 120 },
+          ],
+        })
+      );
+
+      expect(chapters.map((c) => c.id)).toEqual(["s1", "h1", "s3", "h2"]);
+      expect(chapters[0]).toMatchObject({ kind: "SEGMENT", startSecond: 0, endSecond: 90 });
+      expect(chapters[2].endSecond).toBeNull();
+    });
+  });
+
+  describe("VOD playlist", () => {
+    it("should close a live event playlist", () => {
+      const live = [
+        "#EXTM3U",
+        "#EXT-X-VERSION:3",
+        "#EXT-X-PLAYLIST-TYPE:EVENT",
+        "#EXTINF:4.000000,",
+        "segment_0_000.ts",
+        "",
+      ].join("\n");
+
+      const vod = toVodPlaylist(live);
+      expect(vod).toContain("#EXT-X-PLAYLIST-TYPE:VOD");
+      expect(vod).not.toContain("EVENT");
+      expect(vod.trimEnd().endsWith("#EXT-X-ENDLIST")).toBe(true);
+      expect(toVodPlaylist(vod)).toBe(vod);
+    });
+  });
+});
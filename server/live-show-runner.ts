@@ -1,22 +1,62 @@
 /**
  * Live Show Runner Service
- * Manages live shopping show sessions, product pinning, price drops, segments, and highlights
+ * Manages live shopping show sessions, product pinning, price drops, segments, highlights,
+ * and the shoppable replay of ended shows
+ *
+ * A show is a live_sessions row; pins, segments, price drops and highlights
+ * hang off it by live_session_id. Show totals the table has no column for
+ * (peak viewers, revenue, recording URL) are kept in its metadata.
  */
 
-import { getDbSync } from './db';
-const db = getDbSync();
-import { 
-  liveShows, 
-  liveShowSegments, 
-  pinnedProducts as livePinnedProducts, 
-  livePriceDrops, 
+import { getDb } from './db';
+import {
+  liveSessions,
+  liveShowSegments,
+  pinnedProducts,
   liveHighlights,
-  products,
-  inventoryReservations
+  orderItems,
+  orders,
+  products
 } from '../drizzle/schema';
-import { eq, and, desc, gte, lte } from 'drizzle-orm';
-
-export type ShowStatus = 'SCHEDULED' | 'LIVE' | 'ENDED' | 'CANCELED';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { ulid } from 'ulid';
+import {
+  showLifecycle,
+  normalizeShowStatus,
+  toRunnerStatus,
+  type GoLiveClearance,
+  type RunnerShowStatus
+} from './live-show-state-machine';
+import type { PriceDropTrigger } from './live-price-drop-scheduler';
+import {
+  endShowPriceDrops,
+  getAvailableStock,
+  getActivePriceDrops,
+  listPriceDrops,
+  recordPriceDropSale,
+  resumePriceDrops,
+  priceDropScheduler,
+  startPriceDrop,
+  toCents,
+  toDecimalPrice,
+  type PriceDrop
+} from './live-price-drops';
+import { showChannel } from './live-show-channel';
+import type { ShowChannelState } from '../shared/live-show-channel';
+import { buildReplayTimeline, type ReplayTimeline } from '../shared/live-show-replay';
+import { getReplayPlaylistUrl } from './rtmp-ingestion';
+
+export {
+  cancelProgrammedPriceDrop,
+  endPriceDrop,
+  getActivePriceDrops,
+  priceDropScheduler,
+  programPriceDrops,
+  startPriceDropCountdown,
+  type PriceDrop
+} from './live-price-drops';
+
+export type ShowStatus = RunnerShowStatus;
 export type SegmentType = 'INTRO' | 'PRODUCT_SHOWCASE' | 'PRICE_DROP' | 'QA' | 'OUTRO' | 'BREAK';
 
 export interface LiveShowSession {
@@ -45,10 +85,10 @@ export interface ShowSegment {
   type: SegmentType;
   title: string;
   description?: string;
+  plannedStartOffset: number;
   plannedDurationSeconds: number;
   actualStartOffset?: number;
   actualEndOffset?: number;
-  sortOrder: number;
   notes?: string;
 }
 
@@ -66,20 +106,16 @@ export interface PinnedProduct {
   sortOrder: number;
 }
 
-export interface PriceDrop {
-  dropId: string;
-  showId: string;
-  productId: string;
-  originalPriceCents: number;
-  dropPriceCents: number;
-  startedAt: Date;
-  endsAt: Date;
-  maxQuantity?: number;
-  quantitySold: number;
-  revenueCents: number;
-  urgencyMessage?: string;
+export interface PriceDropOptions {
+  trigger?: PriceDropTrigger;
+  stockBuffer?: number;
+  // Set when a programmed drop fires, so its SCHEDULED row is activated
+  programId?: string;
 }
 
+// Viewers that (re)subscribe after a restart are seeded from the database
+showChannel.setSnapshotLoader(loadShowChannelSnapshot);
+
 export interface Highlight {
   highlightId: string;
   showId: string;
@@ -91,41 +127,74 @@ export interface Highlight {
   thumbnailUrl?: string;
 }
 
+export interface ReplayProduct {
+  productId: string;
+  name: string;
+  imageUrl?: string;
+  // Replay purchases are charged at today's price, not the price shown live
+  currentPriceCents: number;
+  inStock: boolean;
+}
+
+export interface ShowReplay extends ReplayTimeline {
+  showId: string;
+  title: string;
+  replayUrl: string | null;
+  startedAt: Date;
+  products: ReplayProduct[];
+}
+
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type ShowRow = typeof liveSessions.$inferSelect;
+type PinRow = typeof pinnedProducts.$inferSelect;
+
+interface ShowMetadata {
+  broadcastChannelId?: string;
+  scheduledEndAt?: string;
+  recordingUrl?: string;
+  peakViewerCount?: number;
+  totalRevenueCents?: number;
+  totalOrders?: number;
+  cancelReason?: string;
+}
+
+interface PinMetadata {
+  sortOrder?: number;
+  originalPriceCents?: number;
+  revenueCents?: number;
+}
+
 /**
  * Start a live show
  */
 export async function startLiveShow(
   channelId: string,
   showId: string,
-  streamUrl: string
+  streamUrl: string,
+  clearance: GoLiveClearance & { actorId?: string } = {}
 ): Promise<LiveShowSession> {
-  const show = await db.query.liveShows.findFirst({
-    where: and(
-      eq(liveShows.showId, showId),
-      eq(liveShows.channelId, channelId)
-    )
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
-  if (!show) {
-    throw new Error('Show not found');
-  }
+  const show = await requireShow(db, channelId, showId);
 
-  if (show.status !== 'SCHEDULED') {
-    throw new Error(`Cannot start show in status: ${show.status}`);
-  }
+  // Lifecycle enforces SCHEDULED/PRE_LIVE -> LIVE and the go-live guard
+  await showLifecycle.transition(showId, 'GO_LIVE', {
+    ...clearance,
+    channelId,
+    legacyStatus: show.status
+  });
 
-  // Update show to LIVE status
-  const [updatedShow] = await db.update(liveShows)
-    .set({
-      status: 'LIVE',
-      actualStartAt: new Date(),
-      streamUrl,
-      updatedAt: new Date()
-    })
-    .where(eq(liveShows.showId, showId))
-    .returning();
+  const startedAt = new Date();
+  await db.update(liveSessions)
+    .set({ status: 'live', startedAt, streamUrl })
+    .where(eq(liveSessions.id, showId));
+
+  // Re-arm drops lost to a restart, then start go-live countdowns
+  await resumePriceDrops(showId);
+  priceDropScheduler.startCountdowns(showId);
 
-  return updatedShow as LiveShowSession;
+  return toShowSession({ ...show, status: 'live', startedAt, streamUrl });
 }
 
 /**
@@ -134,51 +203,37 @@ export async function startLiveShow(
 export async function endLiveShow(
   channelId: string,
   showId: string,
-  recordingUrl?: string
+  recordingUrl?: string,
+  actorId?: string
 ): Promise<LiveShowSession> {
-  const show = await db.query.liveShows.findFirst({
-    where: and(
-      eq(liveShows.showId, showId),
-      eq(liveShows.channelId, channelId)
-    )
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
-  if (!show) {
-    throw new Error('Show not found');
-  }
+  const show = await requireShow(db, channelId, showId);
 
-  if (show.status !== 'LIVE') {
-    throw new Error(`Cannot end show in status: ${show.status}`);
-  }
+  await showLifecycle.transition(showId, 'END', {
+    actorId,
+    channelId,
+    legacyStatus: show.status
+  });
 
-  // Unpin all products
-  await db.update(livePinnedProducts)
-    .set({ unpinnedAt: new Date() })
-    .where(and(
-      eq(livePinnedProducts.showId, showId),
-      eq(livePinnedProducts.unpinnedAt, null as any)
-    ));
+  // Cancel programmed drops and end active ones before unpinning
+  await endShowPriceDrops(showId);
 
-  // End all active price drops
-  await db.update(livePriceDrops)
-    .set({ endsAt: new Date() })
+  const endedAt = new Date();
+  await db.update(pinnedProducts)
+    .set({ isActive: false, unpinnedAt: endedAt })
     .where(and(
-      eq(livePriceDrops.showId, showId),
-      gte(livePriceDrops.endsAt, new Date())
+      eq(pinnedProducts.liveSessionId, showId),
+      eq(pinnedProducts.isActive, true)
     ));
 
-  // Update show to ENDED status
-  const [updatedShow] = await db.update(liveShows)
-    .set({
-      status: 'ENDED',
-      actualEndAt: new Date(),
-      recordingUrl: recordingUrl || null,
-      updatedAt: new Date()
-    })
-    .where(eq(liveShows.showId, showId))
-    .returning();
+  const metadata: ShowMetadata = { ...getShowMetadata(show), recordingUrl: recordingUrl || undefined };
+  await db.update(liveSessions)
+    .set({ status: 'ended', endedAt, metadata })
+    .where(eq(liveSessions.id, showId));
 
-  return updatedShow as LiveShowSession;
+  return toShowSession({ ...show, status: 'ended', endedAt, metadata });
 }
 
 /**
@@ -188,21 +243,27 @@ export async function updateViewerCount(
   showId: string,
   viewerCount: number
 ): Promise<void> {
-  const show = await db.query.liveShows.findFirst({
-    where: eq(liveShows.showId, showId)
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
+  const show = await findShow(db, showId);
   if (!show) return;
 
-  const peakViewerCount = Math.max(show.peakViewerCount || 0, viewerCount);
-
-  await db.update(liveShows)
+  const metadata = getShowMetadata(show);
+  await db.update(liveSessions)
     .set({
       viewerCount,
-      peakViewerCount,
-      updatedAt: new Date()
+      metadata: { ...metadata, peakViewerCount: Math.max(metadata.peakViewerCount || 0, viewerCount) }
     })
-    .where(eq(liveShows.showId, showId));
+    .where(eq(liveSessions.id, showId));
+
+  showChannel.publish(showId, {
+    type: 'viewer_count',
+    viewerCount,
+    delta: viewerCount - show.viewerCount
+  });
+
+  await priceDropScheduler.handleViewerCount(showId, viewerCount);
 }
 
 /**
@@ -215,58 +276,61 @@ export async function pinProduct(
   displayPriceCents: number,
   sortOrder: number = 0
 ): Promise<PinnedProduct> {
-  // Verify show is live
-  const show = await db.query.liveShows.findFirst({
-    where: and(
-      eq(liveShows.showId, showId),
-      eq(liveShows.channelId, channelId)
-    )
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
-  if (!show || show.status !== 'LIVE') {
+  const show = await findShow(db, showId, channelId);
+  if (!show || show.status !== 'live') {
     throw new Error('Show is not live');
   }
 
-  // Get product details
-  const product = await db.query.products.findFirst({
-    where: and(
-      eq(products.productId, productId),
-      eq(products.channelId, channelId)
-    )
-  });
+  const [product] = await db.select()
+    .from(products)
+    .where(and(eq(products.id, productId), eq(products.channelId, channelId)))
+    .limit(1);
 
   if (!product) {
     throw new Error('Product not found');
   }
 
-  // Check if already pinned
-  const existingPin = await db.query.livePinnedProducts.findFirst({
-    where: and(
-      eq(livePinnedProducts.showId, showId),
-      eq(livePinnedProducts.productId, productId),
-      eq(livePinnedProducts.unpinnedAt, null as any)
-    )
-  });
+  const [existingPin] = await db.select({ id: pinnedProducts.id })
+    .from(pinnedProducts)
+    .where(activePin(showId, productId))
+    .limit(1);
 
   if (existingPin) {
     throw new Error('Product is already pinned');
   }
 
-  // Create pin
-  const [pin] = await db.insert(livePinnedProducts).values({
-    channelId,
-    showId,
+  const pin: PinRow = {
+    id: ulid(),
+    liveSessionId: showId,
     productId,
+    livePrice: toDecimalPrice(displayPriceCents),
+    isActive: true,
     pinnedAt: new Date(),
-    displayPriceCents,
-    originalPriceCents: product.priceCents,
-    stockAvailable: product.stockQuantity || 0,
-    unitsSold: 0,
-    revenueCents: 0,
-    sortOrder
-  }).returning();
+    unpinnedAt: null,
+    salesCount: 0,
+    metadata: { sortOrder, originalPriceCents: toCents(product.price) } satisfies PinMetadata
+  };
+  await db.insert(pinnedProducts).values(pin);
+
+  const pinned = toPinnedProduct(pin, product.price, await getAvailableStock(productId));
+
+  showChannel.publish(showId, {
+    type: 'product_pinned',
+    product: {
+      productId,
+      name: product.name,
+      imageUrl: product.imageUrl || undefined,
+      displayPriceCents,
+      originalPriceCents: pinned.originalPriceCents,
+      sortOrder,
+      pinnedAt: pin.pinnedAt.toISOString()
+    }
+  });
 
-  return pin as PinnedProduct;
+  return pinned;
 }
 
 /**
@@ -277,36 +341,42 @@ export async function unpinProduct(
   showId: string,
   productId: string
 ): Promise<void> {
-  await db.update(livePinnedProducts)
-    .set({ unpinnedAt: new Date() })
-    .where(and(
-      eq(livePinnedProducts.showId, showId),
-      eq(livePinnedProducts.productId, productId),
-      eq(livePinnedProducts.channelId, channelId),
-      eq(livePinnedProducts.unpinnedAt, null as any)
-    ));
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  await requireShow(db, channelId, showId);
+
+  await db.update(pinnedProducts)
+    .set({ isActive: false, unpinnedAt: new Date() })
+    .where(activePin(showId, productId));
+
+  showChannel.publish(showId, { type: 'product_unpinned', productId });
 }
 
 /**
  * Get currently pinned products
  */
 export async function getPinnedProducts(showId: string): Promise<PinnedProduct[]> {
-  const pins = await db.query.livePinnedProducts.findMany({
-    where: and(
-      eq(livePinnedProducts.showId, showId),
-      eq(livePinnedProducts.unpinnedAt, null as any)
-    ),
-    with: {
-      product: true
-    },
-    orderBy: desc(livePinnedProducts.sortOrder)
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
-  return pins as PinnedProduct[];
+  const pins = await db.select({ pin: pinnedProducts, basePrice: products.price })
+    .from(pinnedProducts)
+    .innerJoin(products, eq(pinnedProducts.productId, products.id))
+    .where(and(
+      eq(pinnedProducts.liveSessionId, showId),
+      eq(pinnedProducts.isActive, true)
+    ));
+
+  const pinned = await Promise.all(
+    pins.map(async ({ pin, basePrice }) => toPinnedProduct(pin, basePrice, await getAvailableStock(pin.productId)))
+  );
+
+  return pinned.sort((a, b) => b.sortOrder - a.sortOrder);
 }
 
 /**
- * Execute a price drop
+ * Execute a price drop on a pinned product
  */
 export async function executePriceDrop(
   channelId: string,
@@ -315,98 +385,29 @@ export async function executePriceDrop(
   dropPriceCents: number,
   durationSeconds: number,
   maxQuantity?: number,
-  urgencyMessage?: string
+  urgencyMessage?: string,
+  options: PriceDropOptions = {}
 ): Promise<PriceDrop> {
-  // Verify show is live
-  const show = await db.query.liveShows.findFirst({
-    where: and(
-      eq(liveShows.showId, showId),
-      eq(liveShows.channelId, channelId)
-    )
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
-  if (!show || show.status !== 'LIVE') {
-    throw new Error('Show is not live');
-  }
-
-  // Get product
-  const product = await db.query.products.findFirst({
-    where: and(
-      eq(products.productId, productId),
-      eq(products.channelId, channelId)
-    )
-  });
-
-  if (!product) {
-    throw new Error('Product not found');
-  }
-
-  // Check if product is pinned
-  const pin = await db.query.livePinnedProducts.findFirst({
-    where: and(
-      eq(livePinnedProducts.showId, showId),
-      eq(livePinnedProducts.productId, productId),
-      eq(livePinnedProducts.unpinnedAt, null as any)
-    )
-  });
-
-  if (!pin) {
-    throw new Error('Product must be pinned before price drop');
-  }
-
-  // End any existing price drops for this product
-  await db.update(livePriceDrops)
-    .set({ endsAt: new Date() })
-    .where(and(
-      eq(livePriceDrops.showId, showId),
-      eq(livePriceDrops.productId, productId),
-      gte(livePriceDrops.endsAt, new Date())
-    ));
+  await requireShow(db, channelId, showId);
 
-  // Create price drop
-  const endsAt = new Date(Date.now() + durationSeconds * 1000);
-  
-  const [drop] = await db.insert(livePriceDrops).values({
+  return startPriceDrop({
     channelId,
     showId,
     productId,
-    originalPriceCents: pin.displayPriceCents,
     dropPriceCents,
-    startedAt: new Date(),
-    endsAt,
-    maxQuantity: maxQuantity || null,
-    quantitySold: 0,
-    revenueCents: 0,
-    urgencyMessage: urgencyMessage || null
-  }).returning();
-
-  // Update pinned product price
-  await db.update(livePinnedProducts)
-    .set({ displayPriceCents: dropPriceCents })
-    .where(eq(livePinnedProducts.pinId, pin.pinId));
-
-  return drop as PriceDrop;
-}
-
-/**
- * Get active price drops
- */
-export async function getActivePriceDrops(showId: string): Promise<PriceDrop[]> {
-  const drops = await db.query.livePriceDrops.findMany({
-    where: and(
-      eq(livePriceDrops.showId, showId),
-      gte(livePriceDrops.endsAt, new Date())
-    ),
-    with: {
-      product: true
-    }
+    durationSeconds,
+    maxQuantity,
+    urgencyMessage,
+    ...options
   });
-
-  return drops as PriceDrop[];
 }
 
 /**
- * Record a purchase during price drop
+ * Record a purchase during the show: counts toward a running price drop,
+ * the pin and the show totals
  */
 export async function recordPriceDropPurchase(
   showId: string,
@@ -414,68 +415,83 @@ export async function recordPriceDropPurchase(
   quantitySold: number,
   revenueCents: number
 ): Promise<void> {
-  // Find active price drop
-  const drop = await db.query.livePriceDrops.findFirst({
-    where: and(
-      eq(livePriceDrops.showId, showId),
-      eq(livePriceDrops.productId, productId),
-      gte(livePriceDrops.endsAt, new Date())
-    )
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
-  if (drop) {
-    // Update price drop stats
-    await db.update(livePriceDrops)
-      .set({
-        quantitySold: drop.quantitySold + quantitySold,
-        revenueCents: drop.revenueCents + revenueCents
-      })
-      .where(eq(livePriceDrops.dropId, drop.dropId));
-
-    // Check if max quantity reached
-    if (drop.maxQuantity && (drop.quantitySold + quantitySold) >= drop.maxQuantity) {
-      // End price drop early
-      await db.update(livePriceDrops)
-        .set({ endsAt: new Date() })
-        .where(eq(livePriceDrops.dropId, drop.dropId));
-    }
-  }
+  const availableStock = await getAvailableStock(productId);
+  showChannel.publish(showId, { type: 'stock_changed', productId, available: availableStock });
 
-  // Update pinned product stats
-  const pin = await db.query.livePinnedProducts.findFirst({
-    where: and(
-      eq(livePinnedProducts.showId, showId),
-      eq(livePinnedProducts.productId, productId),
-      eq(livePinnedProducts.unpinnedAt, null as any)
-    )
-  });
+  // Ends the drop early on sell-out or once stock reaches the buffer
+  await recordPriceDropSale(showId, productId, quantitySold);
+
+  const [pin] = await db.select()
+    .from(pinnedProducts)
+    .where(activePin(showId, productId))
+    .limit(1);
 
   if (pin) {
-    await db.update(livePinnedProducts)
+    const metadata = getPinMetadata(pin);
+    await db.update(pinnedProducts)
       .set({
-        unitsSold: pin.unitsSold + quantitySold,
-        revenueCents: pin.revenueCents + revenueCents
+        salesCount: sql`${pinnedProducts.salesCount} + ${quantitySold}`,
+        metadata: { ...metadata, revenueCents: (metadata.revenueCents || 0) + revenueCents }
       })
-      .where(eq(livePinnedProducts.pinId, pin.pinId));
+      .where(eq(pinnedProducts.id, pin.id));
   }
 
-  // Update show totals
-  const show = await db.query.liveShows.findFirst({
-    where: eq(liveShows.showId, showId)
-  });
-
+  const show = await findShow(db, showId);
   if (show) {
-    await db.update(liveShows)
+    const metadata = getShowMetadata(show);
+    await db.update(liveSessions)
       .set({
-        totalRevenueCents: show.totalRevenueCents + revenueCents,
-        totalOrders: show.totalOrders + 1
+        metadata: {
+          ...metadata,
+          totalRevenueCents: (metadata.totalRevenueCents || 0) + revenueCents,
+          totalOrders: (metadata.totalOrders || 0) + 1
+        }
       })
-      .where(eq(liveShows.showId, showId));
+      .where(eq(liveSessions.id, showId));
   }
 }
 
 /**
- * Create a show segment
+ * Count an order the viewer placed from the show toward it, pushing the new
+ * stock to viewers. An order counts toward one show once; returns false
+ * when it already has.
+ */
+export async function recordShowOrder(
+  showId: string,
+  orderId: string,
+  customerEmail: string | null
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const [order] = await db.select({ customerEmail: orders.customerEmail })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+  if (!order || !customerEmail || order.customerEmail !== customerEmail) {
+    throw new Error('Order not found');
+  }
+
+  const [claim] = await db.update(orders)
+    .set({ liveSessionId: showId })
+    .where(and(eq(orders.id, orderId), isNull(orders.liveSessionId)));
+  if (claim.affectedRows === 0) return false;
+
+  const items = await db.select({ productId: orderItems.productId, quantity: orderItems.quantity, total: orderItems.total })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId));
+  for (const item of items) {
+    await recordPriceDropPurchase(showId, item.productId, item.quantity, toCents(item.total));
+  }
+  return true;
+}
+
+/**
+ * Create a show segment, planned to start the given number of seconds
+ * into the show
  */
 export async function createSegment(
   channelId: string,
@@ -483,22 +499,27 @@ export async function createSegment(
   type: SegmentType,
   title: string,
   plannedDurationSeconds: number,
-  sortOrder: number,
+  plannedStartOffset: number,
   description?: string,
   notes?: string
 ): Promise<ShowSegment> {
-  const [segment] = await db.insert(liveShowSegments).values({
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const segment = {
+    id: ulid(),
     channelId,
-    showId,
-    type,
+    liveSessionId: showId,
+    segmentType: type,
     title,
     description: description || null,
-    plannedDurationSeconds,
-    sortOrder,
-    notes: notes || null
-  }).returning();
+    startOffsetSeconds: plannedStartOffset,
+    durationSeconds: plannedDurationSeconds,
+    scriptNotes: notes || null
+  };
+  await db.insert(liveShowSegments).values(segment);
 
-  return segment as ShowSegment;
+  return toShowSegment({ ...segment, actualStartedAt: null, actualEndedAt: null }, null);
 }
 
 /**
@@ -508,9 +529,26 @@ export async function startSegment(
   segmentId: string,
   offsetSeconds: number
 ): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const segment = await findSegment(db, segmentId);
+  if (!segment) return;
+
+  const startedAt = atShowOffset(segment.showStartedAt, offsetSeconds);
   await db.update(liveShowSegments)
-    .set({ actualStartOffset: offsetSeconds })
-    .where(eq(liveShowSegments.segmentId, segmentId));
+    .set({ actualStartedAt: startedAt })
+    .where(eq(liveShowSegments.id, segmentId));
+
+  showChannel.publish(segment.liveSessionId, {
+    type: 'segment_changed',
+    segment: {
+      segmentId,
+      type: segment.segmentType,
+      title: segment.title,
+      startedAt: startedAt.toISOString()
+    }
+  });
 }
 
 /**
@@ -520,21 +558,36 @@ export async function endSegment(
   segmentId: string,
   offsetSeconds: number
 ): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const segment = await findSegment(db, segmentId);
+  if (!segment) return;
+
   await db.update(liveShowSegments)
-    .set({ actualEndOffset: offsetSeconds })
-    .where(eq(liveShowSegments.segmentId, segmentId));
+    .set({ actualEndedAt: atShowOffset(segment.showStartedAt, offsetSeconds) })
+    .where(eq(liveShowSegments.id, segmentId));
+
+  // Only clear the banner if no later segment has already replaced it
+  if (showChannel.getSnapshotState(segment.liveSessionId)?.segment?.segmentId === segmentId) {
+    showChannel.publish(segment.liveSessionId, { type: 'segment_changed', segment: null });
+  }
 }
 
 /**
- * Get show segments
+ * Get show segments in running order
  */
 export async function getShowSegments(showId: string): Promise<ShowSegment[]> {
-  const segments = await db.query.liveShowSegments.findMany({
-    where: eq(liveShowSegments.showId, showId),
-    orderBy: desc(liveShowSegments.sortOrder)
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const show = await findShow(db, showId);
+  const segments = await db.select()
+    .from(liveShowSegments)
+    .where(eq(liveShowSegments.liveSessionId, showId))
+    .orderBy(asc(liveShowSegments.startOffsetSeconds));
 
-  return segments as ShowSegment[];
+  return segments.map(segment => toShowSegment(segment, show?.startedAt ?? null));
 }
 
 /**
@@ -548,28 +601,45 @@ export async function markHighlight(
   title: string,
   description?: string
 ): Promise<Highlight> {
-  const [highlight] = await db.insert(liveHighlights).values({
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const highlightId = ulid();
+  await db.insert(liveHighlights).values({
+    id: highlightId,
     channelId,
-    showId,
+    liveSessionId: showId,
     timestampSeconds,
     type,
     title,
     description: description || null
-  }).returning();
+  });
 
-  return highlight as Highlight;
+  return { highlightId, showId, timestampSeconds, type, title, description };
 }
 
 /**
- * Get show highlights
+ * Get show highlights in timeline order
  */
 export async function getShowHighlights(showId: string): Promise<Highlight[]> {
-  const highlights = await db.query.liveHighlights.findMany({
-    where: eq(liveHighlights.showId, showId),
-    orderBy: desc(liveHighlights.timestampSeconds)
-  });
-
-  return highlights as Highlight[];
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const highlights = await db.select()
+    .from(liveHighlights)
+    .where(eq(liveHighlights.liveSessionId, showId))
+    .orderBy(asc(liveHighlights.timestampSeconds));
+
+  return highlights.map(highlight => ({
+    highlightId: highlight.id,
+    showId: highlight.liveSessionId,
+    timestampSeconds: highlight.timestampSeconds,
+    type: highlight.type as Highlight['type'],
+    title: highlight.title,
+    description: highlight.description || undefined,
+    clipUrl: highlight.clipUrl || undefined,
+    thumbnailUrl: highlight.thumbnailUrl || undefined
+  }));
 }
 
 /**
@@ -580,67 +650,63 @@ export async function updateHighlightClip(
   clipUrl: string,
   thumbnailUrl?: string
 ): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
   await db.update(liveHighlights)
     .set({
       clipUrl,
-      thumbnailUrl: thumbnailUrl || null
+      thumbnailUrl: thumbnailUrl || null,
+      clipStatus: 'READY'
     })
-    .where(eq(liveHighlights.highlightId, highlightId));
+    .where(eq(liveHighlights.id, highlightId));
 }
 
 /**
  * Get live show statistics
  */
 export async function getShowStatistics(showId: string) {
-  const show = await db.query.liveShows.findFirst({
-    where: eq(liveShows.showId, showId),
-    with: {
-      pinnedProducts: true,
-      priceDrops: true,
-      highlights: true,
-      segments: true
-    }
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
+  const show = await findShow(db, showId);
   if (!show) {
     throw new Error('Show not found');
   }
 
-  const totalPins = show.pinnedProducts.length;
-  const totalPriceDrops = show.priceDrops.length;
-  const totalHighlights = show.highlights.length;
-  
-  const avgPriceDropDuration = show.priceDrops.length > 0
-    ? show.priceDrops.reduce((sum, drop) => {
-        const duration = (drop.endsAt.getTime() - drop.startedAt.getTime()) / 1000;
-        return sum + duration;
-      }, 0) / show.priceDrops.length
-    : 0;
+  const [pins, drops, highlights] = await Promise.all([
+    db.select({ id: pinnedProducts.id }).from(pinnedProducts).where(eq(pinnedProducts.liveSessionId, showId)),
+    listPriceDrops(showId, ['ACTIVE', 'ENDED']),
+    db.select({ id: liveHighlights.id }).from(liveHighlights).where(eq(liveHighlights.liveSessionId, showId))
+  ]);
+
+  const session = toShowSession(show);
 
-  const totalPriceDropRevenue = show.priceDrops.reduce((sum, drop) => sum + drop.revenueCents, 0);
-  const totalPriceDropUnits = show.priceDrops.reduce((sum, drop) => sum + drop.quantitySold, 0);
+  const avgPriceDropDuration = drops.length > 0
+    ? drops.reduce((sum, drop) => sum + (drop.endsAt.getTime() - drop.startedAt.getTime()) / 1000, 0) / drops.length
+    : 0;
 
   return {
-    showId: show.showId,
-    status: show.status,
-    duration: show.actualEndAt && show.actualStartAt
-      ? (show.actualEndAt.getTime() - show.actualStartAt.getTime()) / 1000
+    showId,
+    status: session.status,
+    duration: session.actualEndAt && session.actualStartAt
+      ? (session.actualEndAt.getTime() - session.actualStartAt.getTime()) / 1000
       : null,
-    viewerCount: show.viewerCount,
-    peakViewerCount: show.peakViewerCount,
-    totalRevenueCents: show.totalRevenueCents,
-    totalOrders: show.totalOrders,
-    totalPins,
-    totalPriceDrops,
-    totalHighlights,
+    viewerCount: session.viewerCount,
+    peakViewerCount: session.peakViewerCount,
+    totalRevenueCents: session.totalRevenueCents,
+    totalOrders: session.totalOrders,
+    totalPins: pins.length,
+    totalPriceDrops: drops.length,
+    totalHighlights: highlights.length,
     avgPriceDropDuration,
-    totalPriceDropRevenue,
-    totalPriceDropUnits,
-    revenuePerViewer: show.peakViewerCount > 0
-      ? show.totalRevenueCents / show.peakViewerCount
+    totalPriceDropRevenue: drops.reduce((sum, drop) => sum + drop.revenueCents, 0),
+    totalPriceDropUnits: drops.reduce((sum, drop) => sum + drop.quantitySold, 0),
+    revenuePerViewer: session.peakViewerCount > 0
+      ? session.totalRevenueCents / session.peakViewerCount
       : 0,
-    conversionRate: show.viewerCount > 0
-      ? (show.totalOrders / show.viewerCount) * 100
+    conversionRate: session.viewerCount > 0
+      ? (session.totalOrders / session.viewerCount) * 100
       : 0
   };
 }
@@ -649,26 +715,217 @@ export async function getShowStatistics(showId: string) {
  * Get current show state (for real-time display)
  */
 export async function getCurrentShowState(showId: string) {
-  const show = await db.query.liveShows.findFirst({
-    where: eq(liveShows.showId, showId)
-  });
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
 
+  const show = await findShow(db, showId);
   if (!show) {
     throw new Error('Show not found');
   }
 
-  const pinnedProducts = await getPinnedProducts(showId);
-  const activePriceDrops = await getActivePriceDrops(showId);
-  const segments = await getShowSegments(showId);
-  const highlights = await getShowHighlights(showId);
+  const [pinnedProducts, activePriceDrops, segments, highlights] = await Promise.all([
+    getPinnedProducts(showId),
+    getActivePriceDrops(showId),
+    getShowSegments(showId),
+    getShowHighlights(showId)
+  ]);
 
   return {
-    show,
+    show: toShowSession(show),
     pinnedProducts,
     activePriceDrops,
     segments,
     highlights,
-    isLive: show.status === 'LIVE'
+    isLive: show.status === 'live'
+  };
+}
+
+/**
+ * A show as the viewer page first renders it: the current state with the
+ * details of the products on screen. Changes after that arrive over the
+ * show channel.
+ */
+export async function getViewerShow(showId: string) {
+  const { show, pinnedProducts, activePriceDrops, segments, isLive } = await getCurrentShowState(showId);
+
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const productIds = Array.from(new Set([
+    ...pinnedProducts.map(pin => pin.productId),
+    ...activePriceDrops.map(drop => drop.productId)
+  ]));
+  const details = productIds.length > 0
+    ? await db.select({
+        id: products.id,
+        name: products.name,
+        imageUrl: products.imageUrl,
+        price: products.price,
+        compareAtPrice: products.compareAtPrice
+      })
+        .from(products)
+        .where(inArray(products.id, productIds))
+    : [];
+  const productById = new Map(details.map(product => [product.id, {
+    ...product,
+    price: Number(product.price),
+    compareAtPrice: product.compareAtPrice === null ? null : Number(product.compareAtPrice)
+  }]));
+
+  return {
+    id: show.showId,
+    title: show.title,
+    description: show.description,
+    status: show.status.toLowerCase(),
+    isLive,
+    streamUrl: show.streamUrl,
+    startedAt: show.actualStartAt,
+    currentViewers: show.viewerCount,
+    pinnedProducts: pinnedProducts.map(pin => ({
+      id: pin.pinId,
+      productId: pin.productId,
+      priceOverride: pin.displayPriceCents / 100,
+      sortOrder: pin.sortOrder,
+      product: productById.get(pin.productId)
+    })),
+    priceDrops: activePriceDrops.map(drop => ({
+      id: drop.dropId,
+      product: productById.get(drop.productId),
+      dropPrice: drop.dropPriceCents / 100,
+      originalPrice: drop.originalPriceCents / 100,
+      expiresAt: drop.endsAt,
+      stockLimit: drop.maxQuantity != null,
+      remainingStock: drop.maxQuantity != null ? Math.max(0, drop.maxQuantity - drop.quantitySold) : null
+    })),
+    segments
+  };
+}
+
+/**
+ * Replay of an ended show: the kept HLS playlist, what was pinned and at
+ * which price for every second, and chapters from segments and highlights
+ */
+export async function getShowReplay(showId: string): Promise<ShowReplay> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const show = await findShow(db, showId);
+  if (!show) {
+    throw new Error('Show not found');
+  }
+  if (show.status !== 'ended' || !show.startedAt || !show.endedAt) {
+    throw new Error('Replay is only available after the show has ended');
+  }
+
+  const [pins, drops, segments, highlights] = await Promise.all([
+    db.select().from(pinnedProducts).where(eq(pinnedProducts.liveSessionId, showId)),
+    // Programmed drops that never fired have no on-air time
+    listPriceDrops(showId, ['ACTIVE', 'ENDED']),
+    getShowSegments(showId),
+    getShowHighlights(showId)
+  ]);
+
+  const productIds = Array.from(new Set(pins.map(pin => pin.productId)));
+  const currentProducts = productIds.length > 0
+    ? await db.select().from(products).where(inArray(products.id, productIds))
+    : [];
+  const basePrices = new Map(currentProducts.map(product => [product.id, product.price]));
+
+  const startedAt = new Date(show.startedAt);
+  const timeline = buildReplayTimeline({
+    showStartedAt: startedAt,
+    durationSeconds: Math.max(0, Math.floor((new Date(show.endedAt).getTime() - startedAt.getTime()) / 1000)),
+    pins: pins.map(pin => {
+      const pinned = toPinnedProduct(pin, basePrices.get(pin.productId) ?? '0', 0);
+      return {
+        productId: pinned.productId,
+        pinnedAt: pinned.pinnedAt,
+        unpinnedAt: pinned.unpinnedAt ?? null,
+        // The live price was reset when each drop ended, so this is the pinned price
+        displayPriceCents: pinned.displayPriceCents,
+        sortOrder: pinned.sortOrder
+      };
+    }),
+    priceDrops: drops.map(drop => ({
+      dropId: drop.dropId,
+      productId: drop.productId,
+      dropPriceCents: drop.dropPriceCents,
+      startedAt: drop.startedAt,
+      endsAt: drop.endsAt
+    })),
+    segments,
+    highlights
+  });
+
+  const stock = await Promise.all(currentProducts.map(product => getAvailableStock(product.id)));
+
+  return {
+    showId,
+    title: show.title,
+    replayUrl: getShowMetadata(show).recordingUrl || getReplayPlaylistUrl(showId),
+    startedAt,
+    ...timeline,
+    products: currentProducts.map((product, index) => ({
+      productId: product.id,
+      name: product.name,
+      imageUrl: product.imageUrl || undefined,
+      currentPriceCents: toCents(product.price),
+      inStock: stock[index] > 0
+    }))
+  };
+}
+
+/**
+ * Viewer channel snapshot rebuilt from the database
+ */
+async function loadShowChannelSnapshot(showId: string): Promise<Partial<ShowChannelState> | null> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const show = await findShow(db, showId);
+  if (!show) return null;
+
+  const [pinnedProducts, activePriceDrops, segments] = await Promise.all([
+    getPinnedProducts(showId),
+    getActivePriceDrops(showId),
+    getShowSegments(showId)
+  ]);
+
+  const currentSegment = segments.find(
+    segment => segment.actualStartOffset != null && segment.actualEndOffset == null
+  );
+  const showStartedAt = show.startedAt ? new Date(show.startedAt).getTime() : Date.now();
+
+  return {
+    status: toShowSession(show).status.toLowerCase(),
+    isLive: show.status === 'live',
+    viewerCount: show.viewerCount,
+    stock: Object.fromEntries(pinnedProducts.map(pin => [pin.productId, pin.stockAvailable])),
+    pinnedProducts: pinnedProducts.map(pin => ({
+      productId: pin.productId,
+      displayPriceCents: pin.displayPriceCents,
+      originalPriceCents: pin.originalPriceCents,
+      sortOrder: pin.sortOrder,
+      pinnedAt: new Date(pin.pinnedAt).toISOString()
+    })),
+    priceDrops: activePriceDrops.map(drop => ({
+      dropId: drop.dropId,
+      productId: drop.productId,
+      originalPriceCents: drop.originalPriceCents,
+      dropPriceCents: drop.dropPriceCents,
+      startsAt: drop.startedAt.toISOString(),
+      endsAt: drop.endsAt.toISOString(),
+      quantitySold: drop.quantitySold,
+      remainingQuantity: drop.maxQuantity ? Math.max(0, drop.maxQuantity - drop.quantitySold) : null
+    })),
+    segment: currentSegment
+      ? {
+          segmentId: currentSegment.segmentId,
+          type: currentSegment.type,
+          title: currentSegment.title,
+          startedAt: new Date(showStartedAt + (currentSegment.actualStartOffset || 0) * 1000).toISOString()
+        }
+      : null
   };
 }
 
@@ -684,22 +941,33 @@ export async function scheduleShow(
   scheduledEndAt: Date,
   description?: string
 ): Promise<LiveShowSession> {
-  const [show] = await db.insert(liveShows).values({
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const id = ulid();
+  const show: ShowRow = {
+    id,
     channelId,
-    creatorId,
-    broadcastChannelId,
+    slug: `${slugify(title)}-${id.toLowerCase()}`,
     title,
     description: description || null,
-    scheduledStartAt,
-    scheduledEndAt,
-    status: 'SCHEDULED',
+    streamUrl: null,
+    thumbnailUrl: null,
+    status: 'scheduled',
     viewerCount: 0,
-    peakViewerCount: 0,
-    totalRevenueCents: 0,
-    totalOrders: 0
-  }).returning();
+    scheduledAt: scheduledStartAt,
+    startedAt: null,
+    endedAt: null,
+    creatorId,
+    metadata: { broadcastChannelId, scheduledEndAt: scheduledEndAt.toISOString() } satisfies ShowMetadata,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+  await db.insert(liveSessions).values(show);
+
+  await showLifecycle.register(id, channelId);
 
-  return show as LiveShowSession;
+  return toShowSession(show);
 }
 
 /**
@@ -708,27 +976,153 @@ export async function scheduleShow(
 export async function cancelShow(
   channelId: string,
   showId: string,
-  reason?: string
+  reason?: string,
+  actorId?: string
 ): Promise<void> {
-  const show = await db.query.liveShows.findFirst({
-    where: and(
-      eq(liveShows.showId, showId),
-      eq(liveShows.channelId, channelId)
-    )
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const show = await requireShow(db, channelId, showId);
+
+  await showLifecycle.transition(showId, 'CANCEL', {
+    actorId,
+    channelId,
+    legacyStatus: show.status,
+    metadata: { reason }
   });
 
+  await db.update(liveSessions)
+    .set({ status: 'cancelled', metadata: { ...getShowMetadata(show), cancelReason: reason } })
+    .where(eq(liveSessions.id, showId));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function findShow(db: Database, showId: string, channelId?: string): Promise<ShowRow | null> {
+  const [show] = await db.select()
+    .from(liveSessions)
+    .where(channelId
+      ? and(eq(liveSessions.id, showId), eq(liveSessions.channelId, channelId))
+      : eq(liveSessions.id, showId))
+    .limit(1);
+
+  return show ?? null;
+}
+
+async function requireShow(db: Database, channelId: string, showId: string): Promise<ShowRow> {
+  const show = await findShow(db, showId, channelId);
   if (!show) {
     throw new Error('Show not found');
   }
+  return show;
+}
 
-  if (show.status !== 'SCHEDULED') {
-    throw new Error('Can only cancel scheduled shows');
-  }
+async function findSegment(db: Database, segmentId: string) {
+  const [segment] = await db.select({
+    liveSessionId: liveShowSegments.liveSessionId,
+    segmentType: liveShowSegments.segmentType,
+    title: liveShowSegments.title,
+    showStartedAt: liveSessions.startedAt
+  })
+    .from(liveShowSegments)
+    .leftJoin(liveSessions, eq(liveShowSegments.liveSessionId, liveSessions.id))
+    .where(eq(liveShowSegments.id, segmentId))
+    .limit(1);
+
+  return segment ?? null;
+}
 
-  await db.update(liveShows)
-    .set({
-      status: 'CANCELED',
-      updatedAt: new Date()
-    })
-    .where(eq(liveShows.showId, showId));
+function activePin(showId: string, productId: string) {
+  return and(
+    eq(pinnedProducts.liveSessionId, showId),
+    eq(pinnedProducts.productId, productId),
+    eq(pinnedProducts.isActive, true)
+  );
+}
+
+function getShowMetadata(show: ShowRow): ShowMetadata {
+  return (show.metadata ?? {}) as ShowMetadata;
+}
+
+function getPinMetadata(pin: PinRow): PinMetadata {
+  return (pin.metadata ?? {}) as PinMetadata;
+}
+
+function toShowSession(show: ShowRow): LiveShowSession {
+  const metadata = getShowMetadata(show);
+  const scheduledStartAt = show.scheduledAt ?? show.createdAt;
+
+  return {
+    showId: show.id,
+    channelId: show.channelId,
+    creatorId: show.creatorId || '',
+    broadcastChannelId: metadata.broadcastChannelId || '',
+    title: show.title,
+    description: show.description || undefined,
+    scheduledStartAt,
+    scheduledEndAt: metadata.scheduledEndAt ? new Date(metadata.scheduledEndAt) : scheduledStartAt,
+    actualStartAt: show.startedAt || undefined,
+    actualEndAt: show.endedAt || undefined,
+    status: toRunnerStatus(normalizeShowStatus(show.status)),
+    streamUrl: show.streamUrl || undefined,
+    recordingUrl: metadata.recordingUrl,
+    viewerCount: show.viewerCount,
+    peakViewerCount: Math.max(metadata.peakViewerCount || 0, show.viewerCount),
+    totalRevenueCents: metadata.totalRevenueCents || 0,
+    totalOrders: metadata.totalOrders || 0
+  };
+}
+
+function toPinnedProduct(pin: PinRow, basePrice: string, stockAvailable: number): PinnedProduct {
+  const metadata = getPinMetadata(pin);
+  const originalPriceCents = metadata.originalPriceCents ?? toCents(basePrice);
+
+  return {
+    pinId: pin.id,
+    showId: pin.liveSessionId,
+    productId: pin.productId,
+    pinnedAt: new Date(pin.pinnedAt),
+    unpinnedAt: pin.unpinnedAt ? new Date(pin.unpinnedAt) : undefined,
+    displayPriceCents: pin.livePrice != null ? toCents(pin.livePrice) : originalPriceCents,
+    originalPriceCents,
+    stockAvailable,
+    unitsSold: pin.salesCount,
+    revenueCents: metadata.revenueCents || 0,
+    sortOrder: metadata.sortOrder || 0
+  };
+}
+
+function toShowSegment(
+  segment: Pick<typeof liveShowSegments.$inferSelect,
+    'id' | 'liveSessionId' | 'segmentType' | 'title' | 'description' | 'startOffsetSeconds' |
+    'durationSeconds' | 'scriptNotes' | 'actualStartedAt' | 'actualEndedAt'>,
+  showStartedAt: Date | null
+): ShowSegment {
+  return {
+    segmentId: segment.id,
+    showId: segment.liveSessionId,
+    type: segment.segmentType as SegmentType,
+    title: segment.title,
+    description: segment.description || undefined,
+    plannedStartOffset: segment.startOffsetSeconds,
+    plannedDurationSeconds: segment.durationSeconds || 0,
+    actualStartOffset: toShowOffset(showStartedAt, segment.actualStartedAt),
+    actualEndOffset: toShowOffset(showStartedAt, segment.actualEndedAt),
+    notes: segment.scriptNotes || undefined
+  };
+}
+
+function atShowOffset(showStartedAt: Date | null, offsetSeconds: number): Date {
+  return showStartedAt ? new Date(new Date(showStartedAt).getTime() + offsetSeconds * 1000) : new Date();
+}
+
+function toShowOffset(showStartedAt: Date | null, at: Date | null): number | undefined {
+  if (!showStartedAt || !at) return undefined;
+  return Math.max(0, Math.round((new Date(at).getTime() - new Date(showStartedAt).getTime()) / 1000));
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 80) || 'show';
 }
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({ getDb: vi.fn() }));
+vi.mock("./go-live-gating", () => ({
+  goLiveGuardSystem: { verifyShowCleared: vi.fn() },
+}));
+
+import { getDb } from "./db";
+import { goLiveGuardSystem } from "./go-live-gating";
+import {
+  ShowLifecycleStateMachine,
+  normalizeShowStatus,
+  triggerForTargetStatus,
+  type ShowLifecycleState,
+} from "./live-show-state-machine";
+
+// One lifecycle row; updates report affectedRows like mysql2
+function useFakeDb(state: ShowLifecycleState, affectedRows = 1) {
+  const updates: Record<string, unknown>[] = [];
+  const events: Record<string, unknown>[] = [];
+  const row = { showId: "show-1", channelId: "channel-1", state, version: 4 };
+
+  vi.mocked(getDb).mockResolvedValue({
+    select: () => ({ from: () => ({ where: () => ({ limit: async () => [row] }) }) }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => ({
+        where: async () => {
+          updates.push(values);
+          return [{ affectedRows }];
+        },
+      }),
+    }),
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => {
+        events.push(values);
+      },
+    }),
+  } as unknown as Awaited<ReturnType<typeof getDb>>);
+
+  return { updates, events };
+}
+
+describe("Show Lifecycle State Machine", () => {
+  let lifecycle: ShowLifecycleStateMachine;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lifecycle = new ShowLifecycleStateMachine();
+  });
+
+  describe("status mapping", () => {
+    it("reads every legacy spelling", () => {
+      expect(normalizeShowStatus("in_progress")).toBe("LIVE");
+      expect(normalizeShowStatus("completed")).toBe("ENDED");
+      expect(normalizeShowStatus("Cancelled")).toBe("CANCELED");
+      expect(() => normalizeShowStatus("draft")).toThrow(/unknown show status/i);
+    });
+
+    it("picks the trigger for a target status", () => {
+      expect(triggerForTargetStatus("PAUSED", "live")).toBe("RESUME");
+      expect(triggerForTargetStatus("PRE_LIVE", "live")).toBe("GO_LIVE");
+      expect(triggerForTargetStatus("LIVE", "live")).toBeNull();
+      expect(() => triggerForTargetStatus("LIVE", "scheduled")).toThrow(/cannot return/i);
+    });
+
+    it("only allows cancelling before the show airs", () => {
+      expect(lifecycle.canTransition("PRE_LIVE", "CANCEL")).toBe(true);
+      expect(lifecycle.canTransition("LIVE", "CANCEL")).toBe(false);
+      expect(lifecycle.getAllowedTriggers("ENDED")).toEqual(["ARCHIVE"]);
+    });
+  });
+
+  describe("transition", () => {
+    it("goes live with an armed guard and records the event", async () => {
+      const { updates, events } = useFakeDb("PRE_LIVE");
+      vi.mocked(goLiveGuardSystem.verifyShowCleared).mockResolvedValue({ cleared: true });
+      const listener = vi.fn();
+      lifecycle.onTransition(listener);
+
+      const event = await lifecycle.transition("show-1", "GO_LIVE", { guardId: "guard-1", actorId: "7" });
+
+      expect(event).toMatchObject({ from: "PRE_LIVE", to: "LIVE", version: 5, channelId: "channel-1" });
+      expect(updates).toEqual([expect.objectContaining({ state: "LIVE", version: 5 })]);
+      expect(events).toEqual([expect.objectContaining({ fromState: "PRE_LIVE", toState: "LIVE", guardId: "guard-1" })]);
+      expect(listener).toHaveBeenCalledWith(event);
+    });
+
+    it("refuses to go live without a guard or with a rejected guard", async () => {
+      const { updates } = useFakeDb("SCHEDULED");
+
+      await expect(lifecycle.transition("show-1", "GO_LIVE", { actorId: "7" }))
+        .rejects.toThrow("no armed go-live guard supplied");
+
+      vi.mocked(goLiveGuardSystem.verifyShowCleared).mockResolvedValue({
+        cleared: false,
+        reason: "stream health check failed",
+      });
+      await expect(lifecycle.transition("show-1", "GO_LIVE", { guardId: "guard-1" }))
+        .rejects.toThrow("stream health check failed");
+      expect(updates).toEqual([]);
+    });
+
+    it("accepts an override only when the acting user approved it", async () => {
+      useFakeDb("SCHEDULED");
+
+      await expect(
+        lifecycle.transition("show-1", "GO_LIVE", {
+          actorId: "7",
+          override: { approvedBy: "founder", reason: "Guard is down" },
+        })
+      ).rejects.toThrow("override must be approved by the acting user");
+
+      const event = await lifecycle.transition("show-1", "GO_LIVE", {
+        actorId: "7",
+        override: { approvedBy: "7", reason: "Guard is down" },
+      });
+      expect(event.to).toBe("LIVE");
+      expect(goLiveGuardSystem.verifyShowCleared).not.toHaveBeenCalled();
+    });
+
+    it("rejects triggers that are not allowed from the current state", async () => {
+      useFakeDb("LIVE");
+      await expect(lifecycle.transition("show-1", "GO_LIVE")).rejects.toThrow("Show show-1 is already live");
+
+      useFakeDb("ENDED");
+      await expect(lifecycle.transition("show-1", "PAUSE")).rejects.toThrow(
+        "Invalid transition: ENDED -> PAUSE (allowed: ARCHIVE)"
+      );
+    });
+
+    it("loses cleanly when another transition wins the version race", async () => {
+      const { events } = useFakeDb("LIVE", 0);
+      const listener = vi.fn();
+      lifecycle.onTransition(listener);
+
+      await expect(lifecycle.transition("show-1", "END")).rejects.toThrow(
+        "Show show-1 changed state concurrently; retry END"
+      );
+      expect(events).toEqual([]);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * Live Show Lifecycle State Machine
+ *
+ * Single source of truth for whether a show is scheduled, live or over.
+ * The show runner, the orchestration engine and creator scheduling all keep
+ * their own status columns; every status change goes through here first so
+ * they cannot disagree.
+ *
+ * SCHEDULED → PRE_LIVE → LIVE ⇄ PAUSED → ENDED → ARCHIVED
+ *      └──────────┴────────→ CANCELED
+ *
+ * Going LIVE requires clearance from GoLiveGuardSystem (an ARMED guard for
+ * the show) or an explicit founder override. Every transition is recorded in
+ * show_lifecycle_events and pushed to registered listeners (the websocket
+ * layer broadcasts them to show rooms).
+ */
+
+import { getDb } from "./db";
+import { showLifecycleStates, showLifecycleEvents } from "../drizzle/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { ulid } from "ulid";
+import { goLiveGuardSystem } from "./go-live-gating";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ShowLifecycleState =
+  | "SCHEDULED"
+  | "PRE_LIVE"
+  | "LIVE"
+  | "PAUSED"
+  | "ENDED"
+  | "ARCHIVED"
+  | "CANCELED";
+
+export type ShowLifecycleTrigger =
+  | "PREPARE"
+  | "GO_LIVE"
+  | "PAUSE"
+  | "RESUME"
+  | "END"
+  | "ARCHIVE"
+  | "CANCEL";
+
+/** Status vocabulary used by live-show-runner.ts */
+export type RunnerShowStatus = "SCHEDULED" | "LIVE" | "ENDED" | "CANCELED";
+
+/** Status vocabulary used by lsn-live-orchestration-engine.ts */
+export type OrchestratorShowStatus =
+  | "SCHEDULED"
+  | "PRE_LIVE"
+  | "LIVE"
+  | "PAUSED"
+  | "POST_LIVE"
+  | "ARCHIVED"
+  | "CANCELLED";
+
+/** Status vocabulary used by the lower-case tRPC routers */
+export type RouterShowStatus = "scheduled" | "live" | "ended" | "canceled";
+
+/** Status vocabulary of the live_sessions table */
+export type SessionShowStatus = "scheduled" | "live" | "ended" | "cancelled";
+
+export interface GoLiveClearance {
+  guardId?: string;
+  override?: {
+    approvedBy: string;
+    reason: string;
+  };
+}
+
+export interface ShowTransitionContext extends GoLiveClearance {
+  actorId?: string;
+  channelId?: string;
+  /**
+   * Status from the caller's own show table. Used to seed the lifecycle for
+   * shows created before the state machine existed.
+   */
+  legacyStatus?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ShowTransitionEvent {
+  showId: string;
+  channelId?: string;
+  from: ShowLifecycleState;
+  to: ShowLifecycleState;
+  trigger: ShowLifecycleTrigger;
+  actorId?: string;
+  version: number;
+  timestamp: Date;
+}
+
+type TransitionGuard = (
+  showId: string,
+  context: ShowTransitionContext
+) => Promise<string | null>;
+
+interface ShowLifecycleTransition {
+  from: ShowLifecycleState[];
+  to: ShowLifecycleState;
+  trigger: ShowLifecycleTrigger;
+  guards?: TransitionGuard[];
+}
+
+type TransitionListener = (event: ShowTransitionEvent) => void | Promise<void>;
+
+// ============================================================================
+// STATUS MAPPING
+// ============================================================================
+
+const LEGACY_STATUS_MAP: Record<string, ShowLifecycleState> = {
+  scheduled: "SCHEDULED",
+  pre_live: "PRE_LIVE",
+  live: "LIVE",
+  in_progress: "LIVE",
+  paused: "PAUSED",
+  post_live: "ENDED",
+  ended: "ENDED",
+  completed: "ENDED",
+  archived: "ARCHIVED",
+  canceled: "CANCELED",
+  cancelled: "CANCELED",
+};
+
+/**
+ * Map any of the legacy status strings onto the lifecycle state
+ */
+export function normalizeShowStatus(status: string): ShowLifecycleState {
+  const state = LEGACY_STATUS_MAP[status.toLowerCase()];
+  if (!state) {
+    throw new Error(`Unknown show status: ${status}`);
+  }
+  return state;
+}
+
+export function toRunnerStatus(state: ShowLifecycleState): RunnerShowStatus {
+  switch (state) {
+    case "SCHEDULED":
+    case "PRE_LIVE":
+      return "SCHEDULED";
+    case "LIVE":
+    case "PAUSED":
+      return "LIVE";
+    case "ENDED":
+    case "ARCHIVED":
+      return "ENDED";
+    case "CANCELED":
+      return "CANCELED";
+  }
+}
+
+export function toOrchestratorStatus(state: ShowLifecycleState): OrchestratorShowStatus {
+  switch (state) {
+    case "ENDED":
+      return "POST_LIVE";
+    case "CANCELED":
+      return "CANCELLED";
+    default:
+      return state;
+  }
+}
+
+export function toRouterStatus(state: ShowLifecycleState): RouterShowStatus {
+  return toRunnerStatus(state).toLowerCase() as RouterShowStatus;
+}
+
+export function toSessionStatus(state: ShowLifecycleState): SessionShowStatus {
+  return state === "CANCELED" ? "cancelled" : (toRouterStatus(state) as SessionShowStatus);
+}
+
+/**
+ * Trigger that moves a show from its current state to a requested status,
+ * for callers (admin forms) that set a target status rather than an action.
+ */
+export function triggerForTargetStatus(
+  current: ShowLifecycleState,
+  target: string
+): ShowLifecycleTrigger | null {
+  const to = normalizeShowStatus(target);
+  if (to === current) return null;
+
+  switch (to) {
+    case "PRE_LIVE":
+      return "PREPARE";
+    case "LIVE":
+      return current === "PAUSED" ? "RESUME" : "GO_LIVE";
+    case "PAUSED":
+      return "PAUSE";
+    case "ENDED":
+      return "END";
+    case "ARCHIVED":
+      return "ARCHIVE";
+    case "CANCELED":
+      return "CANCEL";
+    case "SCHEDULED":
+      throw new Error(`Show cannot return to SCHEDULED from ${current}`);
+  }
+}
+
+/**
+ * A show is on air while LIVE or PAUSED (viewers are still in the room)
+ */
+export function isOnAir(state: ShowLifecycleState): boolean {
+  return state === "LIVE" || state === "PAUSED";
+}
+
+// ============================================================================
+// STATE MACHINE
+// ============================================================================
+
+export class ShowLifecycleStateMachine {
+  private listeners: Set<TransitionListener> = new Set();
+
+  private transitions: ShowLifecycleTransition[] = [
+    {
+      from: ["SCHEDULED"],
+      to: "PRE_LIVE",
+      trigger: "PREPARE",
+    },
+    {
+      from: ["SCHEDULED", "PRE_LIVE"],
+      to: "LIVE",
+      trigger: "GO_LIVE",
+      guards: [(showId, context) => this.checkGoLiveClearance(showId, context)],
+    },
+    {
+      from: ["LIVE"],
+      to: "PAUSED",
+      trigger: "PAUSE",
+    },
+    {
+      from: ["PAUSED"],
+      to: "LIVE",
+      trigger: "RESUME",
+    },
+    {
+      from: ["LIVE", "PAUSED"],
+      to: "ENDED",
+      trigger: "END",
+    },
+    {
+      from: ["ENDED"],
+      to: "ARCHIVED",
+      trigger: "ARCHIVE",
+    },
+    {
+      from: ["SCHEDULED", "PRE_LIVE"],
+      to: "CANCELED",
+      trigger: "CANCEL",
+    },
+  ];
+
+  /**
+   * Triggers that are valid from a given state
+   */
+  getAllowedTriggers(state: ShowLifecycleState): ShowLifecycleTrigger[] {
+    return this.transitions
+      .filter((t) => t.from.includes(state))
+      .map((t) => t.trigger);
+  }
+
+  canTransition(state: ShowLifecycleState, trigger: ShowLifecycleTrigger): boolean {
+    return this.getAllowedTriggers(state).includes(trigger);
+  }
+
+  /**
+   * Register a listener for every successful transition. Returns an
+   * unsubscribe function.
+   */
+  onTransition(listener: TransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Register a show with the state machine (called when a show is scheduled)
+   */
+  async register(
+    showId: string,
+    channelId?: string,
+    state: ShowLifecycleState = "SCHEDULED"
+  ): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    await db
+      .insert(showLifecycleStates)
+      .values({ showId, channelId, state })
+      .onDuplicateKeyUpdate({ set: { showId } });
+  }
+
+  /**
+   * Current lifecycle state, or null if the show is unknown
+   */
+  async getState(showId: string): Promise<ShowLifecycleState | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [row] = await db
+      .select()
+      .from(showLifecycleStates)
+      .where(eq(showLifecycleStates.showId, showId))
+      .limit(1);
+
+    return row ? row.state : null;
+  }
+
+  async isLive(showId: string): Promise<boolean> {
+    const state = await this.getState(showId);
+    return state !== null && isOnAir(state);
+  }
+
+  /**
+   * Transition history for a show, newest first
+   */
+  async getHistory(showId: string, limit: number = 50) {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(showLifecycleEvents)
+      .where(eq(showLifecycleEvents.showId, showId))
+      .orderBy(desc(showLifecycleEvents.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Apply a trigger to a show. Throws if the trigger is not allowed from the
+   * current state, a guard rejects it, or another transition won the race.
+   */
+  async transition(
+    showId: string,
+    trigger: ShowLifecycleTrigger,
+    context: ShowTransitionContext = {}
+  ): Promise<ShowTransitionEvent> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    let [current] = await db
+      .select()
+      .from(showLifecycleStates)
+      .where(eq(showLifecycleStates.showId, showId))
+      .limit(1);
+
+    if (!current) {
+      if (!context.legacyStatus) {
+        throw new Error(`Show ${showId} is not registered with the lifecycle`);
+      }
+      await this.register(showId, context.channelId, normalizeShowStatus(context.legacyStatus));
+      [current] = await db
+        .select()
+        .from(showLifecycleStates)
+        .where(eq(showLifecycleStates.showId, showId))
+        .limit(1);
+    }
+
+    const from = current.state;
+    const transition = this.transitions.find(
+      (t) => t.trigger === trigger && t.from.includes(from)
+    );
+
+    if (!transition) {
+      throw new Error(this.describeInvalidTransition(showId, from, trigger));
+    }
+
+    for (const guard of transition.guards || []) {
+      const blocked = await guard(showId, context);
+      if (blocked) {
+        throw new Error(`Cannot ${trigger} show ${showId}: ${blocked}`);
+      }
+    }
+
+    // Compare-and-set on version so two hosts pressing "end" at once
+    // produce one transition, not two
+    const [result] = await db
+      .update(showLifecycleStates)
+      .set({
+        state: transition.to,
+        version: current.version + 1,
+        enteredAt: new Date(),
+      })
+      .where(
+        and(
+          eq(showLifecycleStates.showId, showId),
+          eq(showLifecycleStates.version, current.version)
+        )
+      );
+
+    if (result.affectedRows === 0) {
+      throw new Error(`Show ${showId} changed state concurrently; retry ${trigger}`);
+    }
+
+    const event: ShowTransitionEvent = {
+      showId,
+      channelId: current.channelId || context.channelId,
+      from,
+      to: transition.to,
+      trigger,
+      actorId: context.actorId,
+      version: current.version + 1,
+      timestamp: new Date(),
+    };
+
+    await db.insert(showLifecycleEvents).values({
+      id: ulid(),
+      showId,
+      fromState: from,
+      toState: transition.to,
+      trigger,
+      actorId: context.actorId,
+      guardId: context.guardId,
+      metadata: {
+        ...context.metadata,
+        override: context.override,
+      },
+    });
+
+    await this.emit(event);
+
+    return event;
+  }
+
+  private async emit(event: ShowTransitionEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error(`[ShowLifecycle] Listener failed for ${event.showId}:`, error);
+      }
+    }
+  }
+
+  private describeInvalidTransition(
+    showId: string,
+    state: ShowLifecycleState,
+    trigger: ShowLifecycleTrigger
+  ): string {
+    if (trigger === "GO_LIVE" && isOnAir(state)) {
+      return `Show ${showId} is already live`;
+    }
+    const allowed = this.getAllowedTriggers(state);
+    return `Invalid transition: ${state} -> ${trigger} (allowed: ${allowed.join(", ") || "none"})`;
+  }
+
+  private async checkGoLiveClearance(
+    showId: string,
+    context: ShowTransitionContext
+  ): Promise<string | null> {
+    if (context.override) {
+      if (!context.override.approvedBy || !context.override.reason) {
+        return "override requires approvedBy and reason";
+      }
+      // Routers only let admins override, approving as themselves
+      if (context.override.approvedBy !== context.actorId) {
+        return "override must be approved by the acting user";
+      }
+      return null;
+    }
+
+    if (!context.guardId) {
+      return "no armed go-live guard supplied";
+    }
+
+    const clearance = await goLiveGuardSystem.verifyShowCleared({
+      guardId: context.guardId,
+      showId,
+    });
+
+    return clearance.cleared ? null : clearance.reason || "go-live guard rejected launch";
+  }
+}
+
+export const showLifecycle = new ShowLifecycleStateMachine();
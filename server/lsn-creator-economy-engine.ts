@@ -38,13 +38,14 @@ import {
 } from "../drizzle/schema.js";
 import { eq, and, gte, lte, desc, sql, between } from "drizzle-orm";
 import { ulid } from "ulid";
+import { TIER_CONFIGS, calculateTierIncentives, type CreatorTier, type TierConfig } from "./creator-tiers.js";
+
+export { TIER_CONFIGS, type CreatorTier, type TierConfig };
 
 // ============================================================================
 // TYPES & ENUMS
 // ============================================================================
 
-export type CreatorTier = "BRONZE" | "SILVER" | "GOLD" | "PLATINUM" | "DIAMOND";
-
 export type CreatorStatus = "ACTIVE" | "INACTIVE" | "SUSPENDED" | "PENDING_APPROVAL";
 
 export type PayoutStatus = "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED" | "HELD";
@@ -68,17 +69,6 @@ export interface CreatorProfile {
   rating: number;
 }
 
-export interface TierConfig {
-  tier: CreatorTier;
-  minRevenue: number;
-  minShows: number;
-  minConversionRate: number;
-  commissionRate: number;
-  bonusRate: number;
-  primeTimeSlots: number;
-  benefits: string[];
-}
-
 export interface IncentiveCalculation {
   creatorId: string;
   period: { start: Date; end: Date };
@@ -116,93 +106,6 @@ export interface CreatorAvailabilitySlot {
   recurring: boolean;
 }
 
-// ============================================================================
-// TIER SYSTEM CONFIGURATION
-// ============================================================================
-
-export const TIER_CONFIGS: Record<CreatorTier, TierConfig> = {
-  BRONZE: {
-    tier: "BRONZE",
-    minRevenue: 0,
-    minShows: 0,
-    minConversionRate: 0,
-    commissionRate: 0.08, // 8%
-    bonusRate: 0.00,
-    primeTimeSlots: 1,
-    benefits: [
-      "Basic training materials",
-      "1 prime time slot per week",
-      "Standard support",
-    ],
-  },
-  SILVER: {
-    tier: "SILVER",
-    minRevenue: 10000,
-    minShows: 10,
-    minConversionRate: 0.02,
-    commissionRate: 0.10, // 10%
-    bonusRate: 0.02,
-    primeTimeSlots: 2,
-    benefits: [
-      "Advanced training materials",
-      "2 prime time slots per week",
-      "Priority support",
-      "Performance bonuses",
-    ],
-  },
-  GOLD: {
-    tier: "GOLD",
-    minRevenue: 50000,
-    minShows: 30,
-    minConversionRate: 0.03,
-    commissionRate: 0.12, // 12%
-    bonusRate: 0.03,
-    primeTimeSlots: 3,
-    benefits: [
-      "Premium training materials",
-      "3 prime time slots per week",
-      "Dedicated account manager",
-      "Enhanced performance bonuses",
-      "Early access to new products",
-    ],
-  },
-  PLATINUM: {
-    tier: "PLATINUM",
-    minRevenue: 150000,
-    minShows: 60,
-    minConversionRate: 0.04,
-    commissionRate: 0.15, // 15%
-    bonusRate: 0.05,
-    primeTimeSlots: 5,
-    benefits: [
-      "VIP training and coaching",
-      "5 prime time slots per week",
-      "Personal account manager",
-      "Maximum performance bonuses",
-      "Exclusive product launches",
-      "Revenue share opportunities",
-    ],
-  },
-  DIAMOND: {
-    tier: "DIAMOND",
-    minRevenue: 500000,
-    minShows: 120,
-    minConversionRate: 0.05,
-    commissionRate: 0.20, // 20%
-    bonusRate: 0.08,
-    primeTimeSlots: 10,
-    benefits: [
-      "Executive training and mentorship",
-      "Unlimited prime time slots",
-      "Executive account manager",
-      "Elite performance bonuses",
-      "Co-branded product lines",
-      "Equity participation",
-      "Global expansion opportunities",
-    ],
-  },
-};
-
 // ============================================================================
 // CREATOR TIER MANAGER
 // ============================================================================
@@ -414,18 +317,15 @@ export class IncentiveCalculator {
     const commissionRate = creator.commissionRate || TIER_CONFIGS[creator.tier as CreatorTier].commissionRate;
     const baseCommission = totalRevenue * commissionRate;
 
-    // Performance bonus (if conversion rate exceeds tier minimum)
-    const tierConfig = TIER_CONFIGS[creator.tier as CreatorTier];
-    const bonusEligible = avgConversionRate >= tierConfig.minConversionRate * 1.2; // 20% above minimum
-    const performanceBonus = bonusEligible ? totalRevenue * tierConfig.bonusRate : 0;
-
-    // Tier bonus (for high performers)
-    let tierBonus = 0;
-    if (creator.tier === "PLATINUM" && totalRevenue > 200000) {
-      tierBonus = totalRevenue * 0.02; // Extra 2%
-    } else if (creator.tier === "DIAMOND" && totalRevenue > 600000) {
-      tierBonus = totalRevenue * 0.03; // Extra 3%
-    }
+    // Performance and tier bonuses
+    const incentives = calculateTierIncentives(
+      creator.tier as CreatorTier,
+      Math.round(totalRevenue * 100),
+      avgConversionRate
+    );
+    const bonusEligible = incentives.bonusEligible;
+    const performanceBonus = incentives.performanceBonusCents / 100;
+    const tierBonus = incentives.tierBonusCents / 100;
 
     // Get clawbacks
     const clawbackRecords = await db.query.creatorClawbacks.findMany({
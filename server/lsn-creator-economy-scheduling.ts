@@ -17,10 +17,14 @@ import {
   creators,
   creatorTiers,
   liveShows,
+  liveSessions,
+  scheduleSlots,
   products,
   orders
 } from "../drizzle/schema";
 import { eq, and, gte, lte, desc, sql, between, inArray } from "drizzle-orm";
+import { ulid } from "ulid";
+import { showLifecycle, type GoLiveClearance } from "./live-show-state-machine";
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -91,6 +95,12 @@ export interface PayoutCalculation {
   holdReason?: string;
 }
 
+/** live_sessions.metadata for sessions started from a schedule slot */
+interface SlotSessionMetadata {
+  scheduleSlotId?: string;
+  lateStartMinutes?: number;
+}
+
 // ============================================================================
 // CREATOR TIER SYSTEM
 // ============================================================================
@@ -432,138 +442,164 @@ export async function generateOptimal24x7Schedule(startDate: Date, endDate: Date
 // ============================================================================
 
 /**
- * Start live show from scheduled broadcast
+ * Start the live session for a schedule slot. With `creatorId`, only a slot
+ * of that creator is started (callers acting as themselves, not as ops).
  */
-export async function startLiveShow(scheduleId: number) {
+export async function startLiveShow(
+  slotId: string,
+  clearance: GoLiveClearance & { actorId?: string; creatorId?: string } = {}
+) {
   const db = getDbSync();
-  
-  const [schedule] = await db
+
+  const [slot] = await db
     .select()
-    .from(broadcastSchedules)
-    .where(eq(broadcastSchedules.id, scheduleId));
-  
-  if (!schedule) {
+    .from(scheduleSlots)
+    .where(eq(scheduleSlots.id, slotId))
+    .limit(1);
+
+  if (!slot) {
     throw new Error("Schedule not found");
   }
-  
-  // Check if creator is late
+  if (!slot.creatorId) {
+    throw new Error("Schedule slot has no creator");
+  }
+  if (clearance.creatorId && slot.creatorId !== clearance.creatorId) {
+    throw new Error("Schedule slot belongs to another creator");
+  }
+
   const now = new Date();
-  const scheduledStart = new Date(schedule.startTime);
-  const minutesLate = Math.floor((now.getTime() - scheduledStart.getTime()) / (60 * 1000));
-  
-  if (minutesLate > 5) {
-    // Record late start
-    await db
-      .update(creatorPerformance)
-      .set({
-        lateStartCount: sql`${creatorPerformance.lateStartCount} + 1`,
-      })
-      .where(eq(creatorPerformance.creatorId, schedule.creatorId));
+  const minutesLate = Math.floor((now.getTime() - slot.startTime.getTime()) / (60 * 1000));
+
+  // Reuse the session if a previous start attempt was blocked by the guard
+  let [show] = await db
+    .select()
+    .from(liveSessions)
+    .where(
+      and(
+        eq(liveSessions.channelId, slot.channelId),
+        eq(liveSessions.creatorId, slot.creatorId),
+        eq(liveSessions.scheduledAt, slot.startTime)
+      )
+    )
+    .limit(1);
+
+  if (!show) {
+    const [creator] = await db
+      .select({ name: creators.name })
+      .from(creators)
+      .where(eq(creators.id, slot.creatorId))
+      .limit(1);
+
+    const showId = ulid();
+    const metadata: SlotSessionMetadata = { scheduleSlotId: slot.id };
+    await db.insert(liveSessions).values({
+      id: showId,
+      channelId: slot.channelId,
+      slug: `show-${showId.toLowerCase()}`,
+      creatorId: slot.creatorId,
+      title: creator ? `${creator.name} live` : "Scheduled live show",
+      scheduledAt: slot.startTime,
+      status: "scheduled",
+      metadata,
+    });
+
+    [show] = await db
+      .select()
+      .from(liveSessions)
+      .where(eq(liveSessions.id, showId))
+      .limit(1);
   }
-  
-  const [show] = await db.insert(liveShows).values({
-    scheduleId: schedule.id,
-    creatorId: schedule.creatorId,
-    title: schedule.title,
-    startTime: now,
-    status: "live",
-    currentViewers: 0,
-    peakViewers: 0,
-    totalOrders: 0,
-    revenue: 0,
-  }).returning();
-  
-  // Update schedule status
+
+  await showLifecycle.transition(show.id, "GO_LIVE", {
+    ...clearance,
+    channelId: show.channelId,
+    legacyStatus: show.status,
+  });
+
+  // Late starts (over 5 minutes) stay on the session for creator reviews
+  const metadata: SlotSessionMetadata = {
+    ...(show.metadata as SlotSessionMetadata | null),
+    scheduleSlotId: slot.id,
+    ...(minutesLate > 5 ? { lateStartMinutes: minutesLate } : {}),
+  };
   await db
-    .update(broadcastSchedules)
-    .set({ status: "in_progress" })
-    .where(eq(broadcastSchedules.id, scheduleId));
-  
-  return show;
+    .update(liveSessions)
+    .set({ status: "live", startedAt: now, metadata })
+    .where(eq(liveSessions.id, show.id));
+
+  await db
+    .update(scheduleSlots)
+    .set({ status: "LIVE" })
+    .where(eq(scheduleSlots.id, slot.id));
+
+  return {
+    showId: show.id,
+    slotId: slot.id,
+    status: "live" as const,
+    startedAt: now,
+    lateStartMinutes: metadata.lateStartMinutes ?? 0,
+  };
 }
 
 /**
  * End live show and calculate metrics
  */
-export async function endLiveShow(showId: number) {
+export async function endLiveShow(showId: string, actorId?: string) {
   const db = getDbSync();
-  
+
   const [show] = await db
     .select()
-    .from(liveShows)
-    .where(eq(liveShows.id, showId));
-  
+    .from(liveSessions)
+    .where(eq(liveSessions.id, showId))
+    .limit(1);
+
   if (!show) {
     throw new Error("Show not found");
   }
-  
-  const endTime = new Date();
-  const durationMinutes = Math.floor((endTime.getTime() - show.startTime.getTime()) / (60 * 1000));
-  
-  // Get orders during show
+
+  await showLifecycle.transition(showId, "END", {
+    actorId,
+    channelId: show.channelId,
+    legacyStatus: show.status,
+  });
+
+  const endedAt = new Date();
+  const startedAt = show.startedAt ?? endedAt;
+  const durationMinutes = Math.floor((endedAt.getTime() - startedAt.getTime()) / (60 * 1000));
+
   const showOrders = await db
-    .select()
+    .select({ total: orders.total })
     .from(orders)
-    .where(
-      and(
-        eq(orders.showId, showId),
-        between(orders.createdAt, show.startTime, endTime)
-      )
-    );
-  
+    .where(eq(orders.liveSessionId, showId));
+
   const totalOrders = showOrders.length;
-  const revenue = showOrders.reduce((sum, order) => sum + Number(order.totalAmount), 0);
+  const revenue = showOrders.reduce((sum, order) => sum + Number(order.total), 0);
   const avgOrderValue = totalOrders > 0 ? revenue / totalOrders : 0;
-  
-  // Update show
+
   await db
-    .update(liveShows)
-    .set({
-      endTime,
-      durationMinutes,
-      status: "completed",
-      totalOrders,
-      revenue,
-    })
-    .where(eq(liveShows.id, showId));
-  
-  // Update creator performance
-  const [performance] = await db
-    .select()
-    .from(creatorPerformance)
-    .where(eq(creatorPerformance.creatorId, show.creatorId));
-  
-  if (performance) {
-    const newTotalShows = performance.totalShows + 1;
-    const newTotalRevenue = Number(performance.totalRevenue) + revenue;
-    const newAvgOrderValue = (Number(performance.avgOrderValue) * performance.totalShows + avgOrderValue) / newTotalShows;
-    
-    await db
-      .update(creatorPerformance)
-      .set({
-        totalShows: newTotalShows,
-        totalRevenue: newTotalRevenue,
-        avgOrderValue: newAvgOrderValue,
-        lastEvaluationDate: new Date(),
-      })
-      .where(eq(creatorPerformance.creatorId, show.creatorId));
-  }
-  
-  // Update schedule status
-  if (show.scheduleId) {
+    .update(liveSessions)
+    .set({ status: "ended", endedAt })
+    .where(eq(liveSessions.id, showId));
+
+  const slotId = (show.metadata as SlotSessionMetadata | null)?.scheduleSlotId;
+  if (slotId) {
     await db
-      .update(broadcastSchedules)
-      .set({ status: "completed" })
-      .where(eq(broadcastSchedules.id, show.scheduleId));
+      .update(scheduleSlots)
+      .set({ status: "COMPLETED" })
+      .where(eq(scheduleSlots.id, slotId));
   }
-  
+
   return {
     showId,
-    durationMinutes,
-    totalOrders,
-    revenue,
-    avgOrderValue,
-    peakViewers: show.peakViewers,
+    status: "ended" as const,
+    endedAt,
+    metrics: {
+      duration: durationMinutes,
+      orders: totalOrders,
+      revenue,
+      avgOrderValue,
+      viewers: show.viewerCount,
+    },
   };
 }
 
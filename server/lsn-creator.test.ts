@@ -216,7 +216,7 @@ describe("LSN Creator Economy & Scheduling", () => {
 
   describe("Live Show Management", () => {
     it("should start live show from schedule", async () => {
-      const result = await creatorOps.startLiveShow(1);
+      const result = await creatorOps.startLiveShow("slot-1");
 
       expect(result).toHaveProperty("showId");
       expect(result).toHaveProperty("status");
@@ -225,7 +225,7 @@ describe("LSN Creator Economy & Scheduling", () => {
     });
 
     it("should end live show and calculate metrics", async () => {
-      const result = await creatorOps.endLiveShow(1);
+      const result = await creatorOps.endLiveShow("show-1");
 
       expect(result).toHaveProperty("showId");
       expect(result).toHaveProperty("status");
@@ -238,7 +238,7 @@ describe("LSN Creator Economy & Scheduling", () => {
     });
 
     it("should track show duration accurately", async () => {
-      const startResult = await creatorOps.startLiveShow(1);
+      const startResult = await creatorOps.startLiveShow("slot-1");
       
       // Simulate 1 hour show
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -249,9 +249,9 @@ describe("LSN Creator Economy & Scheduling", () => {
     });
 
     it("should prevent starting already live show", async () => {
-      await creatorOps.startLiveShow(1);
+      await creatorOps.startLiveShow("slot-1");
 
-      await expect(creatorOps.startLiveShow(1)).rejects.toThrow(/already live/i);
+      await expect(creatorOps.startLiveShow("slot-1")).rejects.toThrow(/already live/i);
     });
   });
 
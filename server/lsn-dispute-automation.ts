@@ -3,12 +3,13 @@
  * 
  * Comprehensive PayPal dispute automation system including:
  * - Dispute state machine (OPEN → EVIDENCE_REQUIRED → SUBMITTED → WON/LOST)
- * - Evidence pack builder with auto-submission
+ * - Evidence pack builder (invoice, tracking, chat, show clip, order history)
  * - Webhook handlers with signature verification and deduplication
  * - Timeline tracking
  * - Review queue integration
  * - Escalation to founder
  * - Polling sweep (cron backup)
+ * - Evidence deadline scheduler (SLA escalations, auto-submit, missed deadlines)
  * - Idempotent operations
  */
 
@@ -21,11 +22,40 @@ import {
   idempotencyKeys,
   reviewQueueItems,
   escalations,
-  auditLog
+  auditLog,
+  orders,
+  orderItems,
+  supportTickets,
+  ticketMessages,
+  liveHighlights,
+  liveShows,
+  liveShowProducts,
+  refundPolicies
 } from "../drizzle/schema";
-import { eq, and, lt, isNull, desc, sql } from "drizzle-orm";
+import { eq, and, lt, gte, isNull, desc, asc, inArray, sql } from "drizzle-orm";
 import { ulid } from "ulid";
 import crypto from "crypto";
+import { storagePut } from "./storage";
+import { getCarrierTrackingHistory } from "./order-tracking";
+import {
+  buildEvidenceNarrative,
+  formatEvidenceForProvider,
+  formatProductDescription,
+  renderEvidenceDocuments,
+  selectDemonstrationClip,
+  validateProviderEvidence,
+  type EvidenceBundleInput,
+  type EvidencePriorOrder,
+  type EvidenceShowClip,
+  type EvidenceTicket,
+  type ProviderEvidence
+} from "./dispute-evidence";
+import {
+  AWAITING_EVIDENCE_STATUSES,
+  buildMissedDeadlineReport,
+  disputeDeadlineScheduler,
+  type MissedDeadlineReport
+} from "./dispute-deadlines";
 
 // ============================================================================
 // TYPES & CONSTANTS
@@ -86,17 +116,6 @@ export interface DisputeWebhookPayload {
   id: string;
 }
 
-export interface EvidencePackData {
-  trackingNumber?: string;
-  carrierName?: string;
-  deliveryProofUrl?: string;
-  invoiceUrl?: string;
-  productDescriptionUrl?: string;
-  communicationLogsUrl?: string;
-  additionalDocsUrls?: string[];
-  narrativeText?: string;
-}
-
 export interface DisputeStateTransition {
   from: DisputeStatus;
   to: DisputeStatus;
@@ -150,6 +169,9 @@ export class DisputeStateMachine {
       from: "EVIDENCE_READY",
       to: "SUBMITTED",
       trigger: "SUBMIT_EVIDENCE",
+      validations: [
+        async (dispute) => this.revalidateEvidencePack(dispute)
+      ],
       actions: [
         async (dispute) => {
           await this.submitEvidenceToProvider(dispute);
@@ -185,7 +207,18 @@ export class DisputeStateMachine {
           await this.escalateToFounder(dispute, "HIGH");
         }
       ]
-    }
+    },
+    // Evidence was never submitted; the provider rules for the buyer by default
+    ...AWAITING_EVIDENCE_STATUSES.map((from): DisputeStateTransition => ({
+      from,
+      to: "LOST",
+      trigger: "DEADLINE_MISSED",
+      actions: [
+        async (dispute) => {
+          await this.escalateToFounder(dispute, "CRITICAL", "DISPUTE_DEADLINE_MISSED");
+        }
+      ]
+    }))
   ];
 
   async transition(
@@ -301,14 +334,25 @@ export class DisputeStateMachine {
   }
 
   private validateEvidencePack(pack: any): boolean {
-    // Validate that evidence pack has minimum required fields
-    return !!(
-      pack.trackingNumber &&
-      pack.carrierName &&
-      pack.deliveryProofUrl &&
-      pack.invoiceUrl &&
-      pack.narrativeText
-    );
+    // Set by the evidence builder against the provider's requirements
+    return !!pack.validation?.valid;
+  }
+
+  private async revalidateEvidencePack(dispute: any): Promise<boolean> {
+    const pack = await this.getEvidencePack(dispute.evidencePackId);
+    if (!pack?.providerEvidence) return false;
+
+    // Re-check the stored evidence in case it was edited after building
+    const validation = validateProviderEvidence(pack.providerEvidence as ProviderEvidence, dispute.reason);
+    if (!validation.valid) {
+      await db.update(evidencePacks)
+        .set({
+          validation: { valid: false, missing: validation.missing, errors: validation.errors },
+          updatedAt: new Date()
+        })
+        .where(eq(evidencePacks.id, pack.id));
+    }
+    return validation.valid;
   }
 
   private async submitEvidenceToProvider(dispute: any) {
@@ -351,20 +395,25 @@ export class DisputeStateMachine {
     );
   }
 
-  private async escalateToFounder(dispute: any, severity: string) {
+  async escalateToFounder(
+    dispute: any,
+    severity: string,
+    triggerType: string = "MANUAL",
+    details: Record<string, any> = {}
+  ) {
     await db.insert(escalations).values({
       id: ulid(),
       channelId: dispute.channelId,
       queueItemId: null,
       severity,
       status: "OPEN",
-      triggerType: "MANUAL",
-      triggerJson: JSON.stringify({ disputeId: dispute.id }),
+      triggerType,
+      triggerJson: JSON.stringify({ disputeId: dispute.id, ...details }),
       createdAt: new Date()
     });
   }
 
-  private async addTimelineEntry(
+  async addTimelineEntry(
     channelId: string,
     disputeId: string,
     kind: string,
@@ -580,105 +629,221 @@ export class EvidencePackBuilder {
     if (!dispute) {
       throw new Error(`Dispute not found: ${disputeId}`);
     }
+    if (!dispute.evidencePackId) {
+      throw new Error(`Dispute ${disputeId} has no evidence pack`);
+    }
+    if (dispute.provider === "WISE") {
+      throw new Error("Evidence submission is not supported for WISE disputes");
+    }
 
-    // Get order details
-    const order = await this.getOrderDetails(dispute.orderId);
-    if (!order) {
-      throw new Error(`Order not found: ${dispute.orderId}`);
+    const input = await this.collectEvidence(channelId, dispute);
+
+    // Render documents and upload them
+    const documents = [];
+    for (const document of renderEvidenceDocuments(input)) {
+      const { url } = await storagePut(
+        `disputes/${channelId}/${disputeId}/${document.name}`,
+        document.content,
+        document.mimeType
+      );
+      documents.push({
+        name: document.name,
+        purpose: document.purpose,
+        mimeType: document.mimeType,
+        sizeBytes: document.content.length,
+        url
+      });
     }
 
-    // Build evidence pack
-    const evidenceData: EvidencePackData = {
-      trackingNumber: order.trackingNumber,
-      carrierName: order.carrierName,
-      deliveryProofUrl: await this.generateDeliveryProof(order),
-      invoiceUrl: await this.generateInvoice(order),
-      productDescriptionUrl: await this.generateProductDescription(order),
-      communicationLogsUrl: await this.generateCommunicationLogs(order),
-      narrativeText: await this.generateNarrative(dispute, order)
-    };
+    const evidence = formatEvidenceForProvider(input, documents, dispute.provider);
+    const validation = validateProviderEvidence(evidence, dispute.reason);
+    const shipment = input.shipments[0];
 
-    // Update evidence pack
+    // Update evidence pack; it is only READY once it would pass submission
     await db.update(evidencePacks)
       .set({
-        ...evidenceData,
-        status: "READY",
+        status: validation.valid ? "READY" : "BUILDING",
+        trackingNumber: shipment?.trackingNumber ?? null,
+        trackingUrl: shipment?.trackingUrl ?? null,
+        deliveryProof: input.shipments.length > 0 ? input.shipments : null,
+        productDescription: formatProductDescription(input),
+        customerCommunication: input.tickets,
+        refundPolicy: input.refundPolicy ?? null,
+        attachments: documents.map(d => ({ url: d.url, type: d.purpose, name: d.name })),
+        narrative: buildEvidenceNarrative(input, documents.map(d => d.name)),
+        providerEvidence: evidence,
+        validation: { valid: validation.valid, missing: validation.missing, errors: validation.errors },
         updatedAt: new Date()
       })
-      .where(eq(evidencePacks.id, dispute.evidencePackId!));
+      .where(eq(evidencePacks.id, dispute.evidencePackId));
 
-    return dispute.evidencePackId!;
-  }
+    await db.insert(disputeTimeline).values({
+      id: ulid(),
+      channelId,
+      disputeId,
+      kind: "EVIDENCE_BUILT",
+      message: validation.valid
+        ? `Evidence pack built with ${documents.length} documents`
+        : `Evidence pack incomplete: ${[...validation.missing.map(m => `missing ${m}`), ...validation.errors].join("; ")}`,
+      meta: JSON.stringify({ validation, truncatedFields: evidence.truncatedFields }),
+      createdAt: new Date()
+    });
 
-  private async getOrderDetails(orderId: string | null) {
-    if (!orderId) return null;
-    // Fetch order from database
-    return {
-      orderId,
-      trackingNumber: "1Z999AA10123456784",
-      carrierName: "UPS",
-      customerEmail: "customer@example.com",
-      items: []
-    };
+    return dispute.evidencePackId;
   }
 
-  private async generateDeliveryProof(order: any): Promise<string> {
-    // Generate delivery proof document and upload to R2
-    return "https://storage.example.com/delivery-proof.pdf";
-  }
+  private async collectEvidence(channelId: string, dispute: any): Promise<EvidenceBundleInput> {
+    if (!dispute.orderId) {
+      throw new Error(`Dispute ${dispute.id} has no order`);
+    }
 
-  private async generateInvoice(order: any): Promise<string> {
-    // Generate invoice and upload to R2
-    return "https://storage.example.com/invoice.pdf";
-  }
+    const [order] = await db.select()
+      .from(orders)
+      .where(and(eq(orders.channelId, channelId), eq(orders.id, dispute.orderId)))
+      .limit(1);
 
-  private async generateProductDescription(order: any): Promise<string> {
-    // Generate product description document
-    return "https://storage.example.com/product-description.pdf";
-  }
+    if (!order) {
+      throw new Error(`Order not found: ${dispute.orderId}`);
+    }
 
-  private async generateCommunicationLogs(order: any): Promise<string> {
-    // Compile communication logs
-    return "https://storage.example.com/communication-logs.pdf";
+    const items = await db.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    const productIds: string[] = [...items.map((item: any) => item.productId), order.productId].filter(Boolean);
+
+    return {
+      dispute: {
+        providerCaseId: dispute.providerCaseId,
+        reason: dispute.reason,
+        amountCents: dispute.amountCents,
+        currency: dispute.currency
+      },
+      order: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        createdAt: order.createdAt,
+        paidAt: order.paidAt,
+        customerName: order.customerName,
+        customerEmail: order.customerEmail,
+        shippingAddress: order.shippingAddress,
+        billingAddress: order.billingAddress,
+        currency: order.currency,
+        subtotal: parseFloat(order.subtotal),
+        tax: parseFloat(order.tax),
+        shipping: parseFloat(order.shipping),
+        total: parseFloat(order.total),
+        items: items.map((item: any) => ({
+          sku: item.sku,
+          name: item.name,
+          quantity: item.quantity,
+          price: parseFloat(item.price),
+          total: parseFloat(item.total)
+        }))
+      },
+      shipments: await getCarrierTrackingHistory(order.id),
+      tickets: await this.getSupportConversations(order.id),
+      showClip: await this.findDemonstrationClip(channelId, order, productIds),
+      priorOrders: await this.getPriorOrders(channelId, order),
+      refundPolicy: await this.getRefundPolicyText(channelId)
+    };
   }
 
-  private async generateNarrative(dispute: any, order: any): Promise<string> {
-    return `
-Dispute Case: ${dispute.providerCaseId}
-Order ID: ${order.orderId}
+  private async getSupportConversations(orderId: string): Promise<EvidenceTicket[]> {
+    const tickets = await db.select()
+      .from(supportTickets)
+      .where(eq(supportTickets.orderId, orderId))
+      .orderBy(asc(supportTickets.createdAt));
 
-SELLER'S RESPONSE:
+    if (tickets.length === 0) return [];
 
-We are writing to dispute the chargeback filed by the customer. We have fulfilled our obligations as a merchant and provided the product/service as described.
+    // Internal notes never leave the building
+    const messages = await db.select()
+      .from(ticketMessages)
+      .where(and(
+        inArray(ticketMessages.ticketId, tickets.map((t: any) => t.id)),
+        eq(ticketMessages.isInternal, false)
+      ))
+      .orderBy(asc(ticketMessages.createdAt));
+
+    return tickets.map((ticket: any) => ({
+      id: ticket.id,
+      subject: ticket.subject,
+      channel: ticket.channel,
+      status: ticket.status,
+      createdAt: ticket.createdAt,
+      messages: messages
+        .filter((m: any) => m.ticketId === ticket.id)
+        .map((m: any) => ({ senderType: m.senderType, content: m.content, createdAt: m.createdAt }))
+    }));
+  }
 
-EVIDENCE SUMMARY:
+  private async findDemonstrationClip(
+    channelId: string,
+    order: any,
+    productIds: string[]
+  ): Promise<EvidenceShowClip | null> {
+    const highlights = order.liveSessionId
+      ? await db.select()
+          .from(liveHighlights)
+          .where(and(
+            eq(liveHighlights.channelId, channelId),
+            eq(liveHighlights.liveSessionId, order.liveSessionId)
+          ))
+          .orderBy(asc(liveHighlights.timestampSeconds))
+      : [];
+
+    let recording = null;
+    if (order.showId) {
+      const [show] = await db.select().from(liveShows).where(eq(liveShows.id, order.showId)).limit(1);
+      if (show) {
+        const pins = await db.select()
+          .from(liveShowProducts)
+          .where(eq(liveShowProducts.showId, show.id));
+        recording = {
+          title: show.title,
+          recordingUrl: show.recordingUrl,
+          startedAt: show.actualStartAt,
+          pins: pins.map((p: any) => ({ productId: p.productId, pinnedAt: p.pinnedAt }))
+        };
+      }
+    }
 
-1. DELIVERY CONFIRMATION
-   - Tracking Number: ${order.trackingNumber}
-   - Carrier: ${order.carrierName}
-   - Delivery Status: Delivered
-   - Delivery Date: [Date from tracking]
-   - Delivery Address: [Customer's confirmed address]
+    return selectDemonstrationClip(productIds, highlights, recording);
+  }
 
-2. PRODUCT DESCRIPTION
-   - Detailed product descriptions were provided at time of purchase
-   - Product images and specifications matched delivered items
-   - No misrepresentation of products
+  private async getPriorOrders(channelId: string, order: any): Promise<EvidencePriorOrder[]> {
+    if (!order.customerEmail) return [];
 
-3. COMMUNICATION LOGS
-   - All customer communications are documented
-   - Customer service inquiries were addressed promptly
-   - No unresolved issues prior to dispute
+    const prior = await db.select()
+      .from(orders)
+      .where(and(
+        eq(orders.channelId, channelId),
+        eq(orders.customerEmail, order.customerEmail),
+        lt(orders.createdAt, order.createdAt)
+      ))
+      .orderBy(desc(orders.createdAt))
+      .limit(25);
+
+    return prior.map((o: any) => ({
+      orderNumber: o.orderNumber,
+      createdAt: o.createdAt,
+      total: parseFloat(o.total),
+      status: o.status
+    }));
+  }
 
-4. TRANSACTION DETAILS
-   - Valid payment authorization received
-   - Customer confirmed billing and shipping addresses
-   - Standard return policy was clearly communicated
+  private async getRefundPolicyText(channelId: string): Promise<string | null> {
+    const [policy] = await db.select()
+      .from(refundPolicies)
+      .where(and(eq(refundPolicies.channelId, channelId), eq(refundPolicies.isActive, true)))
+      .limit(1);
 
-We believe this dispute is without merit and request that the funds be returned to our account.
+    if (!policy) return null;
 
-Thank you for your consideration.
-    `.trim();
+    const terms = [`Returns are accepted within ${policy.returnWindowDays} days of delivery`];
+    if (policy.requiresRma) terms.push("a return authorization (RMA) is required");
+    if (policy.restockingFeePercent && parseFloat(policy.restockingFeePercent) > 0) {
+      terms.push(`a ${policy.restockingFeePercent}% restocking fee applies`);
+    }
+    return `${policy.name}: ${terms.join("; ")}.`;
   }
 }
 
@@ -742,6 +907,16 @@ export class DisputePollingSweep {
   }
 }
 
+// Timeline meta is written as a JSON string
+function parseTimelineMeta(meta: unknown): Record<string, any> {
+  if (typeof meta !== "string") return (meta as Record<string, any>) || {};
+  try {
+    return JSON.parse(meta);
+  } catch {
+    return {};
+  }
+}
+
 // ============================================================================
 // DISPUTE SERVICE (MAIN API)
 // ============================================================================
@@ -878,6 +1053,51 @@ export class DisputeService {
     return await this.pollingSweep.sweepPayPalDisputes(channelId);
   }
 
+  // Escalate, auto-submit or close out disputes by evidence deadline
+  async runDeadlineSweep(now?: Date) {
+    return await disputeDeadlineScheduler.runSweep(now);
+  }
+
+  // Disputes lost because evidence was not submitted in time
+  async getMissedDeadlineReport(channelId: string, since?: Date): Promise<MissedDeadlineReport> {
+    const conditions = [
+      eq(disputeTimeline.channelId, channelId),
+      eq(disputeTimeline.kind, "DEADLINE_MISSED")
+    ];
+    if (since) {
+      conditions.push(gte(disputeTimeline.createdAt, since));
+    }
+
+    const entries = await db.query.disputeTimeline.findMany({ where: and(...conditions) });
+    if (entries.length === 0) return buildMissedDeadlineReport([]);
+
+    const disputes = await db.query.lsnDisputes.findMany({
+      where: inArray(lsnDisputes.id, entries.map((e: any) => e.disputeId))
+    });
+    const byId = new Map(disputes.map((d: any) => [d.id, d]));
+
+    return buildMissedDeadlineReport(
+      entries
+        .filter((entry: any) => byId.has(entry.disputeId))
+        .map((entry: any) => {
+          const dispute: any = byId.get(entry.disputeId);
+          const meta = parseTimelineMeta(entry.meta);
+          return {
+            disputeId: dispute.id,
+            providerCaseId: dispute.providerCaseId,
+            provider: dispute.provider,
+            reason: dispute.reason,
+            amountCents: dispute.amountCents,
+            currency: dispute.currency,
+            evidenceDeadline: dispute.evidenceDeadline,
+            statusAtDeadline: meta.statusAtDeadline || "UNKNOWN",
+            missingEvidence: meta.missingEvidence || [],
+            missedAt: entry.createdAt
+          };
+        })
+    );
+  }
+
   // Get disputes requiring action
   async getDisputesRequiringAction(channelId: string) {
     const now = new Date();
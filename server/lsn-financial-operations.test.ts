@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({ getDb: vi.fn() }));
+
+import { getDb } from "./db";
+import { creatorPayoutService } from "./lsn-financial-operations";
+
+const dispute = {
+  id: "dispute-1",
+  channelId: "channel-1",
+  payoutId: "payout-1",
+  payoutItemId: "item-1",
+  status: "OPEN",
+  reviewQueueItemId: null,
+};
+
+const upheld = { decision: "UPHELD" as const, resolvedBy: "7", notes: "Rate was wrong", adjustmentCents: 500 };
+
+// Resolving inside a transaction, against a dispute row that another
+// resolver may have closed by the time the conditional update runs
+function useFakeDb(affectedRows: number) {
+  const tx = {
+    locks: [] as string[],
+    inserts: vi.fn(),
+    updates: vi.fn(),
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          limit: () => Object.assign(Promise.resolve([]), {
+            for: async (strength: string) => {
+              tx.locks.push(strength);
+              return [dispute];
+            },
+          }),
+        }),
+      }),
+    }),
+    update: () => ({
+      set: (values: unknown) => ({
+        where: async () => {
+          tx.updates(values);
+          return [{ affectedRows }];
+        },
+      }),
+    }),
+    insert: () => ({ values: async (values: unknown) => tx.inserts(values) }),
+  };
+
+  vi.mocked(getDb).mockResolvedValue({
+    transaction: async (fn: (t: typeof tx) => Promise<unknown>) => fn(tx),
+  } as unknown as Awaited<ReturnType<typeof getDb>>);
+  return tx;
+}
+
+describe("Statement dispute resolution", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("locks the dispute and applies the adjustment in the same transaction", async () => {
+    const tx = useFakeDb(1);
+
+    await creatorPayoutService.resolveStatementDispute("channel-1", "dispute-1", upheld);
+
+    expect(tx.locks).toEqual(["update"]);
+    expect(tx.inserts).toHaveBeenCalledWith(expect.objectContaining({ referenceType: "ADJUSTMENT", amountCents: 500 }));
+    expect(tx.updates).toHaveBeenCalledWith(expect.objectContaining({ status: "PENDING", holdReason: null }));
+  });
+
+  it("applies nothing once another resolver has closed the dispute", async () => {
+    const tx = useFakeDb(0);
+
+    await expect(creatorPayoutService.resolveStatementDispute("channel-1", "dispute-1", upheld))
+      .rejects.toThrow("Dispute already resolved: dispute-1");
+    expect(tx.inserts).not.toHaveBeenCalled();
+    expect(tx.updates).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,12 +3,16 @@
  * 
  * Comprehensive financial management system including:
  * - Double-entry ledger system
- * - Multi-currency support with FX journals
+ * - Trial balance, monthly period close and reversal entries
+ * - Multi-currency support with FX journals, month-end revaluation and
+ *   realized FX on foreign payouts
  * - PayPal transaction ingestion
  * - Wise transaction ingestion
- * - Auto-match reconciliation engine
+ * - Auto-match reconciliation engine with grouped and fuzzy matching,
+ *   confidence scores and suggested matches for review
  * - Manual reconciliation UI support
  * - Creator payout calculation and execution
+ * - Creator payout statements (CSV/PDF) with line disputes routed to ops
  * - Payout holds for fraud
  * - Commission calculation engine
  * - Revenue recognition automation
@@ -17,25 +21,54 @@
  * - Reserve fund management
  */
 
-import { db } from "./db";
+import { getDb } from "./db";
 import {
+  channels,
   ledgerEntries,
+  ledgerPeriodCloses,
   providerTransactions,
   reconciliationMatches,
+  externalTransactions,
   creatorPayouts,
+  creatorPayoutItems,
+  creatorPayoutDisputes,
   creators,
+  creatorTiers,
+  liveSessions,
   orders,
+  orderRefunds,
+  disputes,
+  reviewQueueItems,
   fraudScores,
+  payoutHolds,
   idempotencyKeys
 } from "../drizzle/schema";
-import { eq, and, between, desc, sql, isNull } from "drizzle-orm";
+import { eq, and, between, desc, sql, isNull, lt, inArray } from "drizzle-orm";
 import { ulid } from "ulid";
 import crypto from "crypto";
+import { liveFxRateSource, type FxRateSource } from "./multi-currency";
+import { calculateTierIncentives, parseCreatorTier, type CreatorTier } from "./creator-tiers";
+import {
+  buildPayoutStatement,
+  getStatementFilename,
+  renderPayoutStatementCsv,
+  renderPayoutStatementPdf,
+  summarizeStatementLines,
+  type PayoutStatement,
+  type PayoutStatementClawback,
+  type PayoutStatementLine,
+  type PayoutStatementLineType
+} from "./creator-payout-statement";
 
 // ============================================================================
 // TYPES & CONSTANTS
 // ============================================================================
 
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+type ExternalSource = typeof externalTransactions.$inferSelect["source"];
+
 export type LedgerAccount = 
   | "CASH"
   | "REVENUE"
@@ -50,6 +83,47 @@ export type LedgerAccount =
   | "FX_LOSS"
   | "RESERVES";
 
+export const LEDGER_ACCOUNTS: LedgerAccount[] = [
+  "CASH",
+  "REVENUE",
+  "COGS",
+  "FEES",
+  "PAYABLE_CREATOR",
+  "PAYABLE_SUPPLIER",
+  "RECEIVABLE",
+  "REFUNDS",
+  "CHARGEBACKS",
+  "FX_GAIN",
+  "FX_LOSS",
+  "RESERVES"
+];
+
+// Asset/Expense accounts: Debit increases, Credit decreases
+// Liability/Revenue accounts: Credit increases, Debit decreases
+const ASSET_ACCOUNTS: LedgerAccount[] = ["CASH", "RECEIVABLE"];
+const EXPENSE_ACCOUNTS: LedgerAccount[] = ["COGS", "FEES", "REFUNDS", "CHARGEBACKS"];
+
+// Reversal entries reference the entry they reverse
+const REVERSAL_REF_TYPE = "REVERSAL";
+
+// Reporting currency for base amounts unless a caller asks for another
+export const LEDGER_BASE_CURRENCY = "AUD";
+
+// Open monetary balances revalued at month end
+export const FX_REVALUED_ACCOUNTS: LedgerAccount[] = [
+  "RECEIVABLE",
+  "PAYABLE_CREATOR",
+  "PAYABLE_SUPPLIER"
+];
+
+const FX_REVALUATION_REF_TYPE = "FX_REVALUATION";
+
+// Payout provider fee withheld from creator payouts (e.g. 1% for Wise)
+const PAYOUT_FEE_RATE = 0.01;
+
+// Hold reason set while a creator disputes a statement line
+const STATEMENT_DISPUTE_HOLD_REASON = "Statement dispute under review";
+
 export type EntryType =
   | "SALE"
   | "REFUND"
@@ -80,38 +154,609 @@ export interface LedgerEntry {
   postedAt: Date;
 }
 
+export interface TrialBalanceLine {
+  account: LedgerAccount;
+  currency: string;
+  debitCents: number;
+  creditCents: number;
+  // Signed by the account's normal side (positive = normal balance)
+  balanceCents: number;
+}
+
+export interface TrialBalance {
+  asOf: Date | null;
+  lines: TrialBalanceLine[];
+  totals: Record<string, { debitCents: number; creditCents: number }>;
+  isBalanced: boolean;
+}
+
+export interface LedgerPeriodClose {
+  closeId: string;
+  channelId: string;
+  period: string;
+  periodEnd: Date;
+  trialBalance: TrialBalance;
+  closedBy?: string;
+  closedAt: Date;
+}
+
+export interface LedgerConsistencyReport {
+  checkedAt: Date;
+  isConsistent: boolean;
+  accounts: {
+    account: LedgerAccount;
+    reportedCents: number;
+    recomputedCents: number;
+    differenceCents: number;
+  }[];
+  invalidEntries: { entryId: string; problems: string[] }[];
+  // Closed periods whose entries no longer match the trial balance taken at close
+  changedPeriods: { period: string; lines: string[] }[];
+}
+
+export interface FxRevaluationLine {
+  account: LedgerAccount;
+  currency: string;
+  rate: number;
+  foreignBalanceCents: number;
+  carriedBaseCents: number;
+  revaluedBaseCents: number;
+  // Change in the account's base value; posted as unrealized gain or loss
+  differenceCents: number;
+}
+
+export interface FxRevaluationResult {
+  period: string;
+  baseCurrency: string;
+  lines: FxRevaluationLine[];
+  entryIds: string[];
+}
+
 export interface ReconciliationResult {
   matched: number;
   unmatched: number;
   discrepancies: number;
+  // Groupings left for a human to accept or dismiss
+  suggested: number;
   totalMatchedCents: number;
   totalUnmatchedCents: number;
 }
 
+export interface ReconciliationMatchOptions {
+  // Amount difference allowed: the larger of a flat amount and a percentage (FX rounding)
+  amountToleranceCents: number;
+  amountTolerancePct: number;
+  // Max days between a provider transaction and the ledger entries it matches
+  dateWindowDays: number;
+  // Max transactions or entries on the "many" side of a grouping
+  maxGroupSize: number;
+  // Groupings at or above this confidence are posted without review
+  autoMatchConfidence: number;
+  // Groupings below this confidence are not suggested at all
+  minSuggestConfidence: number;
+}
+
+export const DEFAULT_RECONCILIATION_MATCH_OPTIONS: ReconciliationMatchOptions = {
+  amountToleranceCents: 100,
+  amountTolerancePct: 0.5,
+  dateWindowDays: 3,
+  maxGroupSize: 4,
+  autoMatchConfidence: 90,
+  minSuggestConfidence: 50
+};
+
+export interface ReconciliationTxnCandidate {
+  id: string;
+  // Signed cash movement: receipts positive, payouts and refunds negative
+  netCents: number;
+  currency: string;
+  txnDate: Date;
+  // Identifiers ledger entries may carry as refId (order, payout, provider txn)
+  refs: string[];
+}
+
+export interface ReconciliationEntryCandidate {
+  id: string;
+  // Signed effect on CASH (see getCashEffectCents)
+  cashCents: number;
+  currency: string;
+  postedAt: Date;
+  refId: string | null;
+}
+
+export type ReconciliationMatchKind = "ONE_TO_ONE" | "ONE_TO_MANY" | "MANY_TO_ONE";
+
+export interface ReconciliationMatchProposal {
+  groupKey: string;
+  kind: ReconciliationMatchKind;
+  providerTxnIds: string[];
+  ledgerEntryIds: string[];
+  providerCents: number;
+  ledgerCents: number;
+  discrepancyCents: number;
+  // 0-100
+  confidence: number;
+  reasons: string[];
+}
+
+// ============================================================================
+// LEDGER MATH
+// ============================================================================
+
+export function getNormalBalance(account: LedgerAccount): "DEBIT" | "CREDIT" {
+  return ASSET_ACCOUNTS.includes(account) || EXPENSE_ACCOUNTS.includes(account)
+    ? "DEBIT"
+    : "CREDIT";
+}
+
+/**
+ * Accounting period (UTC month, YYYY-MM) that a posting date falls in
+ */
+export function getLedgerPeriod(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * First instant after the period (exclusive end)
+ */
+export function getLedgerPeriodEnd(period: string): Date {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  const month = match ? parseInt(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw new Error(`Invalid ledger period ${period}, expected YYYY-MM`);
+  }
+  return new Date(Date.UTC(parseInt(match[1]), month, 1));
+}
+
+type LedgerEntryRow = {
+  id: string;
+  debitAccount: string | null;
+  creditAccount: string | null;
+  amountCents: number;
+  currency: string;
+  fxRate?: string | number | null;
+  baseCurrency?: string | null;
+  baseAmountCents?: number | null;
+};
+
+// Stored trial balances come back from JSON with plain account names
+type TrialBalanceLines = {
+  lines: Array<{ account: string; currency: string; balanceCents: number }>;
+};
+
+/**
+ * Trial balance over raw ledger rows, one line per account and currency
+ */
+export function buildTrialBalance(entries: LedgerEntryRow[], asOf: Date | null = null): TrialBalance {
+  const currencies = Array.from(new Set(entries.map(e => e.currency))).sort();
+  const lines = new Map<string, TrialBalanceLine>();
+  const totals: TrialBalance["totals"] = {};
+
+  for (const currency of currencies) {
+    totals[currency] = { debitCents: 0, creditCents: 0 };
+    for (const account of LEDGER_ACCOUNTS) {
+      lines.set(`${account}:${currency}`, {
+        account,
+        currency,
+        debitCents: 0,
+        creditCents: 0,
+        balanceCents: 0
+      });
+    }
+  }
+
+  for (const entry of entries) {
+    const debit = lines.get(`${entry.debitAccount}:${entry.currency}`);
+    const credit = lines.get(`${entry.creditAccount}:${entry.currency}`);
+    // Postings to unknown accounts stay off the report and unbalance it
+    if (debit) {
+      debit.debitCents += entry.amountCents;
+      totals[entry.currency].debitCents += entry.amountCents;
+    }
+    if (credit) {
+      credit.creditCents += entry.amountCents;
+      totals[entry.currency].creditCents += entry.amountCents;
+    }
+  }
+
+  for (const line of lines.values()) {
+    line.balanceCents = getNormalBalance(line.account) === "DEBIT"
+      ? line.debitCents - line.creditCents
+      : line.creditCents - line.debitCents;
+  }
+
+  return {
+    asOf,
+    lines: Array.from(lines.values()),
+    totals,
+    isBalanced: Object.values(totals).every(t => t.debitCents === t.creditCents)
+  };
+}
+
+/**
+ * Account/currency lines whose balance differs between two trial balances
+ */
+export function diffTrialBalances(before: TrialBalanceLines, after: TrialBalanceLines): string[] {
+  const balances = (tb: TrialBalanceLines) =>
+    new Map(tb.lines.map(line => [`${line.account}:${line.currency}`, line.balanceCents]));
+  const a = balances(before);
+  const b = balances(after);
+
+  return Array.from(new Set([...a.keys(), ...b.keys()]))
+    .filter(key => (a.get(key) ?? 0) !== (b.get(key) ?? 0))
+    .sort();
+}
+
+/**
+ * Problems with a single raw ledger row, empty if it is a valid posting
+ */
+export function validateLedgerEntryRow(entry: LedgerEntryRow): string[] {
+  const problems: string[] = [];
+
+  for (const [side, account] of [["debit", entry.debitAccount], ["credit", entry.creditAccount]] as const) {
+    if (!account || !LEDGER_ACCOUNTS.includes(account as LedgerAccount)) {
+      problems.push(`Unknown ${side} account ${account}`);
+    }
+  }
+  if (entry.debitAccount === entry.creditAccount) {
+    problems.push("Debit and credit accounts are the same");
+  }
+  if (!(entry.amountCents > 0)) {
+    problems.push("Amount is not positive");
+  }
+  if (entry.fxRate && entry.baseCurrency && entry.currency !== entry.baseCurrency) {
+    const expected = Math.round(entry.amountCents * Number(entry.fxRate));
+    if (entry.baseAmountCents !== expected) {
+      problems.push(`Base amount ${entry.baseAmountCents} does not match FX rate (expected ${expected})`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Base-currency value of a row, or null when it has to be converted
+ */
+export function getBaseAmount(entry: LedgerEntryRow, baseCurrency: string): number | null {
+  if (entry.currency === baseCurrency) return entry.amountCents;
+  if (entry.baseCurrency === baseCurrency && entry.baseAmountCents != null) {
+    return entry.baseAmountCents;
+  }
+  return null;
+}
+
+/**
+ * Open balance of an account in one foreign currency, and its base value
+ * at the rates it was booked at
+ */
+export function summarizeForeignBalance(
+  entries: LedgerEntryRow[],
+  account: LedgerAccount,
+  currency: string,
+  baseCurrency: string
+): { foreignBalanceCents: number; carriedBaseCents: number; unconvertedCents: number } {
+  const sign = getNormalBalance(account) === "DEBIT" ? 1 : -1;
+  let foreignBalanceCents = 0;
+  let carriedBaseCents = 0;
+  let unconvertedCents = 0;
+
+  for (const entry of entries) {
+    if (entry.currency !== currency) continue;
+    const side = entry.debitAccount === account ? sign : entry.creditAccount === account ? -sign : 0;
+    if (side === 0) continue;
+
+    foreignBalanceCents += side * entry.amountCents;
+    const base = getBaseAmount(entry, baseCurrency);
+    if (base === null) {
+      unconvertedCents += side * entry.amountCents;
+    } else {
+      carriedBaseCents += side * base;
+    }
+  }
+
+  return { foreignBalanceCents, carriedBaseCents, unconvertedCents };
+}
+
+/**
+ * Debit/credit accounts for an FX adjustment that changes an account's
+ * base value by differenceCents (in the account's normal direction)
+ */
+export function getFxAdjustmentAccounts(
+  account: LedgerAccount,
+  differenceCents: number
+): { debitAccount: LedgerAccount; creditAccount: LedgerAccount; entryType: EntryType } {
+  const increase = differenceCents > 0;
+  const debitNormal = getNormalBalance(account) === "DEBIT";
+
+  // A larger asset or a smaller liability is a gain
+  return increase === debitNormal
+    ? { debitAccount: account, creditAccount: "FX_GAIN", entryType: "FX_GAIN" }
+    : { debitAccount: "FX_LOSS", creditAccount: account, entryType: "FX_LOSS" };
+}
+
+/**
+ * Month-end revaluation of open foreign balances. rates are base units per
+ * unit of each foreign currency at the revaluation date.
+ */
+export function planFxRevaluation(
+  entries: LedgerEntryRow[],
+  baseCurrency: string,
+  rates: Record<string, number>,
+  accounts: LedgerAccount[] = FX_REVALUED_ACCOUNTS
+): FxRevaluationLine[] {
+  const currencies = Array.from(new Set(entries.map(e => e.currency)))
+    .filter(currency => currency !== baseCurrency)
+    .sort();
+  const lines: FxRevaluationLine[] = [];
+
+  for (const account of accounts) {
+    for (const currency of currencies) {
+      const rate = rates[currency];
+      if (rate === undefined) {
+        throw new Error(`No revaluation rate for ${currency}`);
+      }
+
+      const summary = summarizeForeignBalance(entries, account, currency, baseCurrency);
+      // Rows without a base amount are valued at today's rate; they have no booked rate to differ from
+      const carriedBaseCents = summary.carriedBaseCents + Math.round(summary.unconvertedCents * rate);
+      if (summary.foreignBalanceCents === 0 && carriedBaseCents === 0) continue;
+
+      const revaluedBaseCents = Math.round(summary.foreignBalanceCents * rate);
+      lines.push({
+        account,
+        currency,
+        rate,
+        foreignBalanceCents: summary.foreignBalanceCents,
+        carriedBaseCents,
+        revaluedBaseCents,
+        differenceCents: revaluedBaseCents - carriedBaseCents
+      });
+    }
+  }
+
+  return lines;
+}
+
+// ============================================================================
+// RECONCILIATION MATCHING
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Nearest candidates considered per transaction/entry when forming groups
+const MAX_GROUP_CANDIDATES = 10;
+
+// A rival grouping within this many points makes both less certain
+const AMBIGUITY_MARGIN = 5;
+const AMBIGUITY_PENALTY = 15;
+
+/**
+ * Signed effect of an entry on CASH, or null for entries that never touch
+ * cash (accruals such as commission payable) and so never appear at a provider
+ */
+export function getCashEffectCents(entry: {
+  debitAccount: string | null;
+  creditAccount: string | null;
+  amountCents: number;
+}): number | null {
+  if (entry.debitAccount === "CASH") return entry.amountCents;
+  if (entry.creditAccount === "CASH") return -entry.amountCents;
+  return null;
+}
+
+export function getMatchGroupKey(providerTxnIds: string[], ledgerEntryIds: string[]): string {
+  return `${[...providerTxnIds].sort().join(",")}|${[...ledgerEntryIds].sort().join(",")}`;
+}
+
+/**
+ * Propose matches between unreconciled provider transactions and ledger
+ * entries. Besides one-to-one, one transaction may cover several entries
+ * (a batched payout, a sale net of its fee) and several transactions may
+ * cover one entry (split captures). Overlapping proposals are resolved
+ * highest confidence first; callers decide which to post and which to
+ * leave as suggestions.
+ */
+export function planReconciliationMatches(
+  txns: ReconciliationTxnCandidate[],
+  entries: ReconciliationEntryCandidate[],
+  options: Partial<ReconciliationMatchOptions> = {},
+  dismissedGroupKeys: Set<string> = new Set()
+): ReconciliationMatchProposal[] {
+  const settings = { ...DEFAULT_RECONCILIATION_MATCH_OPTIONS, ...options };
+  const windowMs = settings.dateWindowDays * DAY_MS;
+  const proposals = new Map<string, ReconciliationMatchProposal>();
+
+  const consider = (groupTxns: ReconciliationTxnCandidate[], groupEntries: ReconciliationEntryCandidate[]) => {
+    const proposal = scoreReconciliationMatch(groupTxns, groupEntries, settings);
+    if (proposal && !dismissedGroupKeys.has(proposal.groupKey)) {
+      proposals.set(proposal.groupKey, proposal);
+    }
+  };
+
+  // One transaction against one or more entries
+  for (const txn of txns) {
+    const candidates = nearest(
+      entries.filter(e =>
+        e.currency === txn.currency &&
+        Math.abs(e.postedAt.getTime() - txn.txnDate.getTime()) <= windowMs
+      ),
+      e => e.refId !== null && txn.refs.includes(e.refId),
+      e => Math.abs(e.postedAt.getTime() - txn.txnDate.getTime())
+    );
+    forEachCombination(candidates, settings.maxGroupSize, group => consider([txn], group));
+  }
+
+  // Several transactions against one entry
+  for (const entry of entries) {
+    const candidates = nearest(
+      txns.filter(t =>
+        t.currency === entry.currency &&
+        Math.abs(t.txnDate.getTime() - entry.postedAt.getTime()) <= windowMs
+      ),
+      t => entry.refId !== null && t.refs.includes(entry.refId),
+      t => Math.abs(t.txnDate.getTime() - entry.postedAt.getTime())
+    );
+    forEachCombination(candidates, settings.maxGroupSize, group => {
+      if (group.length > 1) consider(group, [entry]);
+    });
+  }
+
+  const all = Array.from(proposals.values());
+  const ambiguous = all.filter(proposal =>
+    all.some(other =>
+      other !== proposal &&
+      other.confidence >= proposal.confidence - AMBIGUITY_MARGIN &&
+      overlaps(proposal, other)
+    )
+  );
+  for (const proposal of ambiguous) {
+    proposal.confidence = Math.max(0, proposal.confidence - AMBIGUITY_PENALTY);
+    proposal.reasons.push("Another grouping fits about as well");
+  }
+
+  const claimed = new Set<string>();
+  const chosen: ReconciliationMatchProposal[] = [];
+  const sorted = all.sort((a, b) =>
+    b.confidence - a.confidence ||
+    groupSize(a) - groupSize(b) ||
+    a.groupKey.localeCompare(b.groupKey)
+  );
+
+  for (const proposal of sorted) {
+    if (proposal.confidence < settings.minSuggestConfidence) continue;
+
+    const ids = [
+      ...proposal.providerTxnIds.map(id => `txn:${id}`),
+      ...proposal.ledgerEntryIds.map(id => `entry:${id}`)
+    ];
+    if (ids.some(id => claimed.has(id))) continue;
+
+    ids.forEach(id => claimed.add(id));
+    chosen.push(proposal);
+  }
+
+  return chosen;
+}
+
+/**
+ * Score a grouping out of 100: penalties for amount difference, days
+ * between the two sides, no shared reference, and group size. Returns null
+ * when the amounts or dates are outside tolerance.
+ */
+function scoreReconciliationMatch(
+  txns: ReconciliationTxnCandidate[],
+  entries: ReconciliationEntryCandidate[],
+  settings: ReconciliationMatchOptions
+): ReconciliationMatchProposal | null {
+  const providerCents = txns.reduce((sum, t) => sum + t.netCents, 0);
+  const ledgerCents = entries.reduce((sum, e) => sum + e.cashCents, 0);
+  const discrepancyCents = Math.abs(providerCents - ledgerCents);
+  const toleranceCents = Math.max(
+    settings.amountToleranceCents,
+    Math.round(Math.abs(providerCents) * settings.amountTolerancePct / 100)
+  );
+  if (discrepancyCents > toleranceCents) return null;
+
+  const times = [...txns.map(t => t.txnDate.getTime()), ...entries.map(e => e.postedAt.getTime())];
+  const gapDays = (Math.max(...times) - Math.min(...times)) / DAY_MS;
+  if (gapDays > settings.dateWindowDays) return null;
+
+  const reasons: string[] = [];
+  let confidence = 100;
+
+  if (discrepancyCents === 0) {
+    reasons.push("Exact amount");
+  } else {
+    confidence -= 5 + 20 * (discrepancyCents / toleranceCents);
+    reasons.push(`Amount differs by ${discrepancyCents} cents`);
+  }
+
+  if (gapDays < 1) {
+    reasons.push("Same day");
+  } else {
+    confidence -= 15 * (gapDays / settings.dateWindowDays);
+    reasons.push(`${Math.round(gapDays)} day(s) apart`);
+  }
+
+  const refs = new Set(txns.flatMap(t => t.refs));
+  if (entries.every(e => e.refId !== null && refs.has(e.refId))) {
+    reasons.push("Reference matches");
+  } else {
+    confidence -= 10;
+    reasons.push("No shared reference");
+  }
+
+  const extra = txns.length + entries.length - 2;
+  if (extra > 0) {
+    confidence -= 5 * extra;
+    reasons.push(`Groups ${txns.length} transaction(s) with ${entries.length} entries`);
+  }
+
+  const providerTxnIds = txns.map(t => t.id);
+  const ledgerEntryIds = entries.map(e => e.id);
+
+  return {
+    groupKey: getMatchGroupKey(providerTxnIds, ledgerEntryIds),
+    kind: txns.length > 1 ? "MANY_TO_ONE" : entries.length > 1 ? "ONE_TO_MANY" : "ONE_TO_ONE",
+    providerTxnIds,
+    ledgerEntryIds,
+    providerCents,
+    ledgerCents,
+    discrepancyCents,
+    confidence: Math.max(0, Math.round(confidence)),
+    reasons
+  };
+}
+
+function nearest<T>(items: T[], isReferenced: (item: T) => boolean, distance: (item: T) => number): T[] {
+  return items
+    .map(item => ({ item, referenced: isReferenced(item), distance: distance(item) }))
+    .sort((a, b) => Number(b.referenced) - Number(a.referenced) || a.distance - b.distance)
+    .slice(0, MAX_GROUP_CANDIDATES)
+    .map(candidate => candidate.item);
+}
+
+function forEachCombination<T>(items: T[], maxSize: number, visit: (group: T[]) => void) {
+  const group: T[] = [];
+  const walk = (start: number) => {
+    for (let i = start; i < items.length; i++) {
+      group.push(items[i]);
+      visit([...group]);
+      if (group.length < maxSize) walk(i + 1);
+      group.pop();
+    }
+  };
+  walk(0);
+}
+
+function overlaps(a: ReconciliationMatchProposal, b: ReconciliationMatchProposal): boolean {
+  return (
+    a.providerTxnIds.some(id => b.providerTxnIds.includes(id)) ||
+    a.ledgerEntryIds.some(id => b.ledgerEntryIds.includes(id))
+  );
+}
+
+function groupSize(proposal: ReconciliationMatchProposal): number {
+  return proposal.providerTxnIds.length + proposal.ledgerEntryIds.length;
+}
+
 // ============================================================================
 // DOUBLE-ENTRY LEDGER SERVICE
 // ============================================================================
 
 export class LedgerService {
+  constructor(private rateSource: FxRateSource = liveFxRateSource) {}
+
   /**
-   * Post a ledger entry (idempotent)
+   * Post a ledger entry (idempotent). Entries may be back-dated with
+   * postedAt, but never into a closed period.
    */
   async postEntry(
     channelId: string,
-    entry: Omit<LedgerEntry, "entryId" | "channelId" | "postedAt">,
+    entry: Omit<LedgerEntry, "entryId" | "channelId" | "postedAt"> & { postedAt?: Date },
     idempotencyKey?: string
   ): Promise<string> {
-    // Check idempotency
-    if (idempotencyKey) {
-      const existing = await this.checkIdempotency(
-        channelId,
-        "LEDGER_POST",
-        idempotencyKey
-      );
-      if (existing) {
-        return JSON.parse(existing.result).entryId;
-      }
-    }
+    const db = await requireDb();
 
     // Validate double-entry
     if (entry.debitAccount === entry.creditAccount) {
@@ -122,44 +767,74 @@ export class LedgerService {
       throw new Error("Amount must be positive");
     }
 
-    // Calculate base currency amount if FX
+    const postedAt = entry.postedAt ?? new Date();
+
+    // Calculate base currency amount if FX, at the posting date's rate
+    // unless the caller supplies the rate it actually settled at
+    const baseCurrency = entry.baseCurrency || LEDGER_BASE_CURRENCY;
+    let fxRate = entry.fxRate;
     let baseAmountCents = entry.amountCents;
-    if (entry.fxRate && entry.baseCurrency && entry.currency !== entry.baseCurrency) {
-      baseAmountCents = Math.round(entry.amountCents * entry.fxRate);
+    if (entry.currency !== baseCurrency) {
+      fxRate = fxRate ?? await this.rateSource.getRate(entry.currency, baseCurrency, postedAt);
+      baseAmountCents = Math.round(entry.amountCents * fxRate);
     }
 
-    // Insert entry
-    const entryId = ulid();
-    await db.insert(ledgerEntries).values({
-      id: entryId,
-      channelId,
-      entryType: entry.entryType,
-      refType: entry.refType,
-      refId: entry.refId,
-      debitAccount: entry.debitAccount,
-      creditAccount: entry.creditAccount,
-      amountCents: entry.amountCents,
-      currency: entry.currency,
-      fxRate: entry.fxRate,
-      baseCurrency: entry.baseCurrency,
-      baseAmountCents,
-      description: entry.description,
-      postedAt: new Date(),
-      createdAt: new Date()
-    });
+    return await db.transaction(async (tx) => {
+      // Check idempotency
+      if (idempotencyKey) {
+        const existing = await this.checkIdempotency(
+          tx,
+          channelId,
+          "LEDGER_POST",
+          idempotencyKey
+        );
+        if (existing) {
+          return (existing.result as { entryId: string }).entryId;
+        }
+      }
 
-    // Record idempotency
-    if (idempotencyKey) {
-      await this.recordIdempotency(
+      // Shared lock: postings run side by side but wait out a period close
+      await this.lockLedger(tx, channelId, "share");
+      await this.assertPeriodOpen(tx, channelId, postedAt);
+
+      // Insert entry
+      const entryId = ulid();
+      await tx.insert(ledgerEntries).values({
+        id: entryId,
         channelId,
-        "LEDGER_POST",
-        idempotencyKey,
-        { entryId },
-        "COMPLETED"
-      );
-    }
+        // One row per posting, filed under its debit side
+        txnId: entryId,
+        accountId: entry.debitAccount,
+        direction: "DEBIT",
+        entryType: entry.entryType,
+        refType: entry.refType,
+        refId: entry.refId,
+        debitAccount: entry.debitAccount,
+        creditAccount: entry.creditAccount,
+        amountCents: entry.amountCents,
+        currency: entry.currency,
+        fxRate: fxRate?.toString(),
+        baseCurrency,
+        baseAmountCents,
+        description: entry.description,
+        postedAt,
+        createdAt: new Date()
+      });
+
+      // Record idempotency
+      if (idempotencyKey) {
+        await this.recordIdempotency(
+          tx,
+          channelId,
+          "LEDGER_POST",
+          idempotencyKey,
+          { entryId },
+          "COMPLETED"
+        );
+      }
 
-    return entryId;
+      return entryId;
+    });
   }
 
   /**
@@ -251,7 +926,9 @@ export class LedgerService {
   }
 
   /**
-   * Post a payout transaction
+   * Post a payout transaction. settlementRate is the base-currency rate the
+   * provider actually converted at; any difference from the rate the
+   * liability was booked at is posted as realized FX gain/loss.
    */
   async postPayout(
     channelId: string,
@@ -259,9 +936,19 @@ export class LedgerService {
     creatorId: string,
     payoutCents: number,
     feeCents: number,
-    currency: string = "AUD"
+    currency: string = "AUD",
+    settlementRate?: number
   ): Promise<string[]> {
     const entries: string[] = [];
+    const foreign = currency !== LEDGER_BASE_CURRENCY;
+    if (foreign && settlementRate === undefined) {
+      settlementRate = await this.rateSource.getRate(currency, LEDGER_BASE_CURRENCY);
+    }
+
+    // Booked rate of the liability being relieved, before this payout
+    const bookedRate = foreign
+      ? await this.getCarriedRate(channelId, "PAYABLE_CREATOR", currency)
+      : null;
 
     // 1. Pay creator (reduce liability, reduce cash)
     // DR: PAYABLE_CREATOR, CR: CASH
@@ -273,10 +960,28 @@ export class LedgerService {
       creditAccount: "CASH",
       amountCents: payoutCents,
       currency,
+      fxRate: foreign ? settlementRate : undefined,
       description: `Payout to creator ${creatorId}`
     }));
 
-    // 2. Record payout fee
+    // 2. Realized FX: the payable was relieved at the settlement rate, so
+    // clear what is left of its booked base value
+    if (foreign && bookedRate !== null && settlementRate !== undefined) {
+      const differenceCents =
+        Math.round(payoutCents * settlementRate) - Math.round(payoutCents * bookedRate);
+      if (differenceCents !== 0) {
+        entries.push(await this.postEntry(channelId, {
+          ...getFxAdjustmentAccounts("PAYABLE_CREATOR", differenceCents),
+          refType: "PAYOUT",
+          refId: payoutId,
+          amountCents: Math.abs(differenceCents),
+          currency: LEDGER_BASE_CURRENCY,
+          description: `Realized FX on payout ${payoutId} (${currency} booked at ${bookedRate.toFixed(6)}, settled at ${settlementRate.toFixed(6)})`
+        }));
+      }
+    }
+
+    // 3. Record payout fee
     // DR: FEES, CR: CASH
     if (feeCents > 0) {
       entries.push(await this.postEntry(channelId, {
@@ -287,6 +992,7 @@ export class LedgerService {
         creditAccount: "CASH",
         amountCents: feeCents,
         currency,
+        fxRate: foreign ? settlementRate : undefined,
         description: `Payout fee for ${payoutId}`
       }));
     }
@@ -302,37 +1008,370 @@ export class LedgerService {
     account: LedgerAccount,
     currency?: string
   ): Promise<number> {
-    const debits = await db.query.ledgerEntries.findMany({
-      where: and(
+    const db = await requireDb();
+
+    const debits = await db.select()
+      .from(ledgerEntries)
+      .where(and(
         eq(ledgerEntries.channelId, channelId),
         eq(ledgerEntries.debitAccount, account),
         currency ? eq(ledgerEntries.currency, currency) : undefined
-      )
-    });
+      ));
 
-    const credits = await db.query.ledgerEntries.findMany({
-      where: and(
+    const credits = await db.select()
+      .from(ledgerEntries)
+      .where(and(
         eq(ledgerEntries.channelId, channelId),
         eq(ledgerEntries.creditAccount, account),
         currency ? eq(ledgerEntries.currency, currency) : undefined
-      )
-    });
+      ));
 
     const debitTotal = debits.reduce((sum, e) => sum + e.amountCents, 0);
     const creditTotal = credits.reduce((sum, e) => sum + e.amountCents, 0);
 
-    // Asset/Expense accounts: Debit increases, Credit decreases
-    // Liability/Revenue accounts: Credit increases, Debit decreases
-    const assetAccounts: LedgerAccount[] = ["CASH", "RECEIVABLE"];
-    const expenseAccounts: LedgerAccount[] = ["COGS", "FEES", "REFUNDS", "CHARGEBACKS"];
-    
-    if (assetAccounts.includes(account) || expenseAccounts.includes(account)) {
+    if (getNormalBalance(account) === "DEBIT") {
       return debitTotal - creditTotal;
     } else {
       return creditTotal - debitTotal;
     }
   }
 
+  /**
+   * Account balance across all currencies, in the base currency
+   */
+  async getAccountBalanceInBase(
+    channelId: string,
+    account: LedgerAccount,
+    baseCurrency: string = LEDGER_BASE_CURRENCY
+  ): Promise<number> {
+    const db = await requireDb();
+
+    const entries = await db.select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.channelId, channelId),
+        sql`(${ledgerEntries.debitAccount} = ${account} OR ${ledgerEntries.creditAccount} = ${account})`
+      ));
+
+    const sign = getNormalBalance(account) === "DEBIT" ? 1 : -1;
+    let balance = 0;
+    for (const entry of entries) {
+      const base = await this.toBase(entry, baseCurrency);
+      if (entry.debitAccount === account) balance += sign * base;
+      if (entry.creditAccount === account) balance -= sign * base;
+    }
+
+    return balance;
+  }
+
+  /**
+   * Base value of a ledger row, converting at its posting date when it
+   * carries no base amount for this currency
+   */
+  async toBase(
+    entry: LedgerEntryRow & { postedAt: Date },
+    baseCurrency: string = LEDGER_BASE_CURRENCY
+  ): Promise<number> {
+    const base = getBaseAmount(entry, baseCurrency);
+    if (base !== null) return base;
+
+    const rate = await this.rateSource.getRate(entry.currency, baseCurrency, entry.postedAt);
+    return Math.round(entry.amountCents * rate);
+  }
+
+  /**
+   * Average rate the open balance of an account in a foreign currency was
+   * booked at, or null if there is no open balance
+   */
+  async getCarriedRate(
+    channelId: string,
+    account: LedgerAccount,
+    currency: string,
+    baseCurrency: string = LEDGER_BASE_CURRENCY
+  ): Promise<number | null> {
+    const db = await requireDb();
+
+    const entries = await db.select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.channelId, channelId),
+        eq(ledgerEntries.currency, currency)
+      ));
+
+    const summary = summarizeForeignBalance(entries, account, currency, baseCurrency);
+    const convertedCents = summary.foreignBalanceCents - summary.unconvertedCents;
+    return convertedCents !== 0 ? summary.carriedBaseCents / convertedCents : null;
+  }
+
+  /**
+   * Month-end revaluation: restate open foreign-currency receivables and
+   * payables at the period-end rate. The unrealized gain/loss is posted on
+   * the last instant of the period and reversed on the first instant of the
+   * next, so realized FX is always measured against the booked rate.
+   * Re-running for the same period posts nothing new.
+   */
+  async revalueForeignBalances(
+    channelId: string,
+    period: string,
+    baseCurrency: string = LEDGER_BASE_CURRENCY
+  ): Promise<FxRevaluationResult> {
+    const db = await requireDb();
+
+    const periodEnd = getLedgerPeriodEnd(period);
+    if (periodEnd.getTime() > Date.now()) {
+      throw new Error(`Ledger period ${period} has not ended yet`);
+    }
+
+    const entries = await db.select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.channelId, channelId),
+        lt(ledgerEntries.postedAt, periodEnd)
+      ));
+
+    const rates: Record<string, number> = {};
+    for (const currency of new Set<string>(entries.map(e => e.currency))) {
+      if (currency !== baseCurrency) {
+        rates[currency] = await this.rateSource.getRate(currency, baseCurrency, periodEnd);
+      }
+    }
+
+    const lines = planFxRevaluation(entries, baseCurrency, rates);
+    const entryIds: string[] = [];
+
+    for (const line of lines) {
+      if (line.differenceCents === 0) continue;
+
+      const key = `${period}:${line.account}:${line.currency}`;
+      const entryId = await this.postEntry(channelId, {
+        ...getFxAdjustmentAccounts(line.account, line.differenceCents),
+        refType: FX_REVALUATION_REF_TYPE,
+        refId: key,
+        amountCents: Math.abs(line.differenceCents),
+        currency: baseCurrency,
+        postedAt: new Date(periodEnd.getTime() - 1),
+        description: `Unrealized FX on ${line.account} ${line.currency} at ${line.rate.toFixed(6)} for ${period}`
+      }, `fx-reval:${key}`);
+
+      const reversalId = await this.reverseEntry(
+        channelId,
+        entryId,
+        `Unrealized FX for ${period} reversed at start of next period`,
+        `fx-reval-reversal:${key}`,
+        periodEnd
+      );
+
+      entryIds.push(entryId, reversalId);
+    }
+
+    return { period, baseCurrency, lines, entryIds };
+  }
+
+  /**
+   * Trial balance across all ledger accounts, optionally as of a point in
+   * time (exclusive) and for one currency
+   */
+  async getTrialBalance(
+    channelId: string,
+    options: { asOf?: Date; currency?: string } = {}
+  ): Promise<TrialBalance> {
+    return await this.loadTrialBalance(await requireDb(), channelId, options);
+  }
+
+  /**
+   * Reverse an entry with an opposite posting in the current period (or at
+   * postedAt). Entries are never edited; the original stays in its period.
+   */
+  async reverseEntry(
+    channelId: string,
+    entryId: string,
+    reason: string,
+    idempotencyKey?: string,
+    postedAt?: Date
+  ): Promise<string> {
+    const db = await requireDb();
+
+    if (idempotencyKey) {
+      const existing = await this.checkIdempotency(
+        db,
+        channelId,
+        "LEDGER_POST",
+        idempotencyKey
+      );
+      if (existing) {
+        return (existing.result as { entryId: string }).entryId;
+      }
+    }
+
+    const [original] = await db.select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.channelId, channelId),
+        eq(ledgerEntries.id, entryId)
+      ))
+      .limit(1);
+
+    if (!original) {
+      throw new Error(`Ledger entry ${entryId} not found`);
+    }
+    if (original.refType === REVERSAL_REF_TYPE) {
+      throw new Error("Reversal entries cannot be reversed; post a new entry instead");
+    }
+
+    const reversals = await this.getEntriesForRef(channelId, REVERSAL_REF_TYPE, entryId);
+    if (reversals.length > 0) {
+      throw new Error(`Ledger entry ${entryId} has already been reversed`);
+    }
+
+    return await this.postEntry(channelId, {
+      entryType: original.entryType as EntryType,
+      refType: REVERSAL_REF_TYPE,
+      refId: entryId,
+      debitAccount: original.creditAccount as LedgerAccount,
+      creditAccount: original.debitAccount as LedgerAccount,
+      amountCents: original.amountCents,
+      currency: original.currency,
+      fxRate: original.fxRate ? Number(original.fxRate) : undefined,
+      baseCurrency: original.baseCurrency || undefined,
+      description: `Reversal of ${entryId}: ${reason}`,
+      postedAt
+    }, idempotencyKey);
+  }
+
+  /**
+   * Correct an entry by reversing it and posting the corrected version in
+   * the current period
+   */
+  async correctEntry(
+    channelId: string,
+    entryId: string,
+    correction: Omit<LedgerEntry, "entryId" | "channelId" | "postedAt">,
+    reason: string
+  ): Promise<{ reversalEntryId: string; correctedEntryId: string }> {
+    const reversalEntryId = await this.reverseEntry(channelId, entryId, reason);
+    const correctedEntryId = await this.postEntry(channelId, {
+      ...correction,
+      description: `${correction.description} (corrects ${entryId})`
+    });
+
+    return { reversalEntryId, correctedEntryId };
+  }
+
+  /**
+   * Close a month for a channel. Closing a month also locks every month
+   * before it; later changes go in as reversals in an open period.
+   */
+  async closePeriod(
+    channelId: string,
+    period: string,
+    closedBy?: string
+  ): Promise<LedgerPeriodClose> {
+    const db = await requireDb();
+
+    const periodEnd = getLedgerPeriodEnd(period);
+    if (periodEnd.getTime() > Date.now()) {
+      throw new Error(`Ledger period ${period} has not ended yet`);
+    }
+
+    return await db.transaction(async (tx) => {
+      // Exclusive lock: no posting can land in the period while it closes
+      await this.lockLedger(tx, channelId, "update");
+
+      const lockedThrough = await this.findLockedThrough(tx, channelId);
+      if (lockedThrough && period <= lockedThrough) {
+        throw new Error(`Ledger period ${period} is already closed`);
+      }
+
+      const trialBalance = await this.loadTrialBalance(tx, channelId, { asOf: periodEnd });
+      if (!trialBalance.isBalanced) {
+        throw new Error(`Trial balance for ${period} does not balance`);
+      }
+
+      const closeId = ulid();
+      const closedAt = new Date();
+      await tx.insert(ledgerPeriodCloses).values({
+        id: closeId,
+        channelId,
+        period,
+        periodEnd,
+        trialBalance: { ...trialBalance, asOf: trialBalance.asOf?.toISOString() ?? null },
+        closedBy: closedBy || null,
+        closedAt
+      });
+
+      return { closeId, channelId, period, periodEnd, trialBalance, closedBy, closedAt };
+    });
+  }
+
+  /**
+   * Latest closed period (YYYY-MM), or null if nothing is closed
+   */
+  async getLockedThrough(channelId: string): Promise<string | null> {
+    return await this.findLockedThrough(await requireDb(), channelId);
+  }
+
+  async isPeriodClosed(channelId: string, date: Date): Promise<boolean> {
+    const lockedThrough = await this.getLockedThrough(channelId);
+    return lockedThrough !== null && getLedgerPeriod(date) <= lockedThrough;
+  }
+
+  /**
+   * Verify getAccountBalance against the raw entries, every row against the
+   * posting rules, and every closed period against its trial balance at close
+   */
+  async checkConsistency(channelId: string): Promise<LedgerConsistencyReport> {
+    const db = await requireDb();
+
+    const entries = await db.select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.channelId, channelId));
+    const recomputed = buildTrialBalance(entries);
+
+    const accounts: LedgerConsistencyReport["accounts"] = [];
+    for (const account of LEDGER_ACCOUNTS) {
+      const reportedCents = await this.getAccountBalance(channelId, account);
+      const recomputedCents = recomputed.lines
+        .filter(line => line.account === account)
+        .reduce((sum, line) => sum + line.balanceCents, 0);
+      accounts.push({
+        account,
+        reportedCents,
+        recomputedCents,
+        differenceCents: reportedCents - recomputedCents
+      });
+    }
+
+    const invalidEntries = entries
+      .map(entry => ({ entryId: entry.id, problems: validateLedgerEntryRow(entry) }))
+      .filter(result => result.problems.length > 0);
+
+    const closes = await db.select()
+      .from(ledgerPeriodCloses)
+      .where(eq(ledgerPeriodCloses.channelId, channelId));
+    const changedPeriods = closes
+      .map(close => {
+        const periodEnd = new Date(close.periodEnd);
+        const current = buildTrialBalance(
+          entries.filter(entry => new Date(entry.postedAt) < periodEnd),
+          periodEnd
+        );
+        return { period: close.period, lines: diffTrialBalances(close.trialBalance ?? { lines: [] }, current) };
+      })
+      .filter(result => result.lines.length > 0)
+      .sort((a, b) => a.period.localeCompare(b.period));
+
+    return {
+      checkedAt: new Date(),
+      isConsistent:
+        accounts.every(a => a.differenceCents === 0) &&
+        invalidEntries.length === 0 &&
+        changedPeriods.length === 0,
+      accounts,
+      invalidEntries,
+      changedPeriods
+    };
+  }
+
   /**
    * Get ledger entries for a reference
    */
@@ -341,14 +1380,16 @@ export class LedgerService {
     refType: string,
     refId: string
   ) {
-    return await db.query.ledgerEntries.findMany({
-      where: and(
+    const db = await requireDb();
+
+    return await db.select()
+      .from(ledgerEntries)
+      .where(and(
         eq(ledgerEntries.channelId, channelId),
         eq(ledgerEntries.refType, refType),
         eq(ledgerEntries.refId, refId)
-      ),
-      orderBy: [desc(ledgerEntries.postedAt)]
-    });
+      ))
+      .orderBy(desc(ledgerEntries.postedAt));
   }
 
   /**
@@ -359,43 +1400,99 @@ export class LedgerService {
     startDate: Date,
     endDate: Date
   ) {
-    return await db.query.ledgerEntries.findMany({
-      where: and(
+    const db = await requireDb();
+
+    return await db.select()
+      .from(ledgerEntries)
+      .where(and(
         eq(ledgerEntries.channelId, channelId),
         between(ledgerEntries.postedAt, startDate, endDate)
-      ),
-      orderBy: [desc(ledgerEntries.postedAt)]
-    });
+      ))
+      .orderBy(desc(ledgerEntries.postedAt));
+  }
+
+  /**
+   * Serialize period closes against postings on the channel row. There is
+   * no row for an open period, so the channel stands in for the ledger.
+   */
+  private async lockLedger(tx: Transaction, channelId: string, mode: "share" | "update"): Promise<void> {
+    const [channel] = await tx.select({ id: channels.id })
+      .from(channels)
+      .where(eq(channels.id, channelId))
+      .for(mode);
+
+    if (!channel) {
+      throw new Error(`Channel ${channelId} not found`);
+    }
+  }
+
+  private async findLockedThrough(db: Database | Transaction, channelId: string): Promise<string | null> {
+    const [latest] = await db.select()
+      .from(ledgerPeriodCloses)
+      .where(eq(ledgerPeriodCloses.channelId, channelId))
+      .orderBy(desc(ledgerPeriodCloses.period))
+      .limit(1);
+
+    return latest?.period ?? null;
+  }
+
+  private async loadTrialBalance(
+    db: Database | Transaction,
+    channelId: string,
+    options: { asOf?: Date; currency?: string }
+  ): Promise<TrialBalance> {
+    const entries = await db.select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.channelId, channelId),
+        options.asOf ? lt(ledgerEntries.postedAt, options.asOf) : undefined,
+        options.currency ? eq(ledgerEntries.currency, options.currency) : undefined
+      ));
+
+    return buildTrialBalance(entries, options.asOf ?? null);
+  }
+
+  private async assertPeriodOpen(tx: Transaction, channelId: string, postedAt: Date): Promise<void> {
+    const lockedThrough = await this.findLockedThrough(tx, channelId);
+    if (lockedThrough !== null && getLedgerPeriod(postedAt) <= lockedThrough) {
+      throw new Error(
+        `Ledger period ${getLedgerPeriod(postedAt)} is closed; post a reversal in an open period instead`
+      );
+    }
   }
 
   private async checkIdempotency(
+    db: Database | Transaction,
     channelId: string,
     scope: string,
     key: string
   ) {
-    return await db.query.idempotencyKeys.findFirst({
-      where: and(
+    const [existing] = await db.select()
+      .from(idempotencyKeys)
+      .where(and(
         eq(idempotencyKeys.channelId, channelId),
         eq(idempotencyKeys.scope, scope),
         eq(idempotencyKeys.idemKey, key)
-      )
-    });
+      ))
+      .limit(1);
+
+    return existing;
   }
 
   private async recordIdempotency(
+    tx: Transaction,
     channelId: string,
     scope: string,
     key: string,
-    result: any,
-    status: string
+    result: { entryId: string },
+    status: "COMPLETED" | "FAILED"
   ) {
-    await db.insert(idempotencyKeys).values({
-      id: ulid(),
+    await tx.insert(idempotencyKeys).values({
       channelId,
       scope,
       idemKey: key,
       requestHash: crypto.createHash("sha256").update(JSON.stringify(result)).digest("hex"),
-      result: JSON.stringify(result),
+      result,
       status,
       createdAt: new Date(),
       updatedAt: new Date()
@@ -415,6 +1512,8 @@ export class TransactionIngestionService {
     channelId: string,
     paypalTxn: any
   ): Promise<string> {
+    const db = await requireDb();
+
     const txnId = ulid();
     const amountCents = Math.round(parseFloat(paypalTxn.transaction_info.transaction_amount.value) * 100);
     const feeCents = paypalTxn.transaction_info.fee_amount 
@@ -432,8 +1531,8 @@ export class TransactionIngestionService {
       feeCents,
       netCents: amountCents - feeCents,
       currency: paypalTxn.transaction_info.transaction_amount.currency_code,
-      txnDate: new Date(paypalTxn.transaction_info.transaction_initiation_date),
-      rawData: JSON.stringify(paypalTxn),
+      providerCreatedAt: new Date(paypalTxn.transaction_info.transaction_initiation_date),
+      providerData: paypalTxn,
       createdAt: new Date()
     });
 
@@ -447,6 +1546,8 @@ export class TransactionIngestionService {
     channelId: string,
     wiseTxn: any
   ): Promise<string> {
+    const db = await requireDb();
+
     const txnId = ulid();
     const amountCents = Math.round(wiseTxn.amount.value * 100);
     const feeCents = wiseTxn.totalFees 
@@ -464,8 +1565,8 @@ export class TransactionIngestionService {
       feeCents,
       netCents: amountCents - feeCents,
       currency: wiseTxn.amount.currency,
-      txnDate: new Date(wiseTxn.date),
-      rawData: JSON.stringify(wiseTxn),
+      providerCreatedAt: new Date(wiseTxn.date),
+      providerData: wiseTxn,
       createdAt: new Date()
     });
 
@@ -544,195 +1645,464 @@ export class TransactionIngestionService {
 
 export class ReconciliationEngine {
   /**
-   * Auto-match provider transactions to ledger entries
+   * Match provider transactions to ledger entries. Groupings at or above
+   * autoMatchConfidence are posted; the rest are stored as SUGGESTED for a
+   * reviewer (see getSuggestedMatches). Suggestions are rebuilt on every
+   * run, except groupings a reviewer dismissed.
    */
   async autoReconcile(
     channelId: string,
     startDate?: Date,
-    endDate?: Date
+    endDate?: Date,
+    options: Partial<ReconciliationMatchOptions> = {}
   ): Promise<ReconciliationResult> {
+    const db = await requireDb();
+
+    const settings = { ...DEFAULT_RECONCILIATION_MATCH_OPTIONS, ...options };
+
     // Get unreconciled provider transactions
-    const unmatchedTxns = await db.query.providerTransactions.findMany({
-      where: and(
+    const unmatchedTxns = await db.select()
+      .from(providerTransactions)
+      .where(and(
         eq(providerTransactions.channelId, channelId),
-        eq(providerTransactions.reconciled, false),
-        startDate ? sql`${providerTransactions.txnDate} >= ${startDate}` : undefined,
-        endDate ? sql`${providerTransactions.txnDate} <= ${endDate}` : undefined
-      )
-    });
+        eq(providerTransactions.matchStatus, "UNMATCHED"),
+        startDate ? sql`${providerTransactions.providerCreatedAt} >= ${startDate}` : undefined,
+        endDate ? sql`${providerTransactions.providerCreatedAt} <= ${endDate}` : undefined
+      ));
+
+    const result: ReconciliationResult = {
+      matched: 0,
+      unmatched: 0,
+      discrepancies: 0,
+      suggested: 0,
+      totalMatchedCents: 0,
+      totalUnmatchedCents: 0
+    };
+    if (unmatchedTxns.length === 0) {
+      return result;
+    }
+
+    // Replace the previous run's suggestions
+    await db.delete(reconciliationMatches).where(and(
+      eq(reconciliationMatches.channelId, channelId),
+      eq(reconciliationMatches.status, "SUGGESTED"),
+      eq(reconciliationMatches.matchType, "SUGGESTED")
+    ));
+
+    const txns: ReconciliationTxnCandidate[] = unmatchedTxns.map(txn => ({
+      id: txn.id,
+      netCents: txn.netCents,
+      currency: txn.currency,
+      txnDate: new Date(txn.providerCreatedAt),
+      refs: [txn.matchedOrderId, txn.matchedPayoutId, txn.providerTxnId].filter((ref): ref is string => !!ref)
+    }));
+
+    const windowMs = settings.dateWindowDays * DAY_MS;
+    const times = txns.map(txn => txn.txnDate.getTime());
+    const from = new Date(times.reduce((min, t) => Math.min(min, t), Infinity) - windowMs);
+    const to = new Date(times.reduce((max, t) => Math.max(max, t), -Infinity) + windowMs);
 
-    let matched = 0;
-    let unmatched = 0;
-    let discrepancies = 0;
-    let totalMatchedCents = 0;
-    let totalUnmatchedCents = 0;
-
-    for (const txn of unmatchedTxns) {
-      const match = await this.findMatch(channelId, txn);
-      
-      if (match) {
-        const discrepancyCents = Math.abs(txn.netCents - match.amountCents);
-        
-        if (discrepancyCents === 0) {
-          // Perfect match
-          await this.recordMatch(channelId, txn.id, match.id, "AUTO", 100, 0);
-          matched++;
-          totalMatchedCents += txn.netCents;
-        } else if (discrepancyCents < 100) {
-          // Close match (within $1)
-          await this.recordMatch(channelId, txn.id, match.id, "AUTO", 95, discrepancyCents);
-          matched++;
-          totalMatchedCents += txn.netCents;
-          discrepancies++;
-        } else {
-          // Significant discrepancy
-          unmatched++;
-          totalUnmatchedCents += txn.netCents;
+    const ledgerRows = await db.select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.channelId, channelId),
+        between(ledgerEntries.postedAt, from, to)
+      ));
+    const { matchedEntryIds, dismissedGroupKeys } = await this.getPriorMatches(
+      channelId,
+      ledgerRows.map(entry => entry.id)
+    );
+
+    const entries: ReconciliationEntryCandidate[] = [];
+    for (const entry of ledgerRows) {
+      const cashCents = getCashEffectCents(entry);
+      if (cashCents === null || matchedEntryIds.has(entry.id)) continue;
+      entries.push({
+        id: entry.id,
+        cashCents,
+        currency: entry.currency,
+        postedAt: new Date(entry.postedAt),
+        refId: entry.refId ?? null
+      });
+    }
+
+    const matchedTxnIds = new Set<string>();
+    for (const proposal of planReconciliationMatches(txns, entries, settings, dismissedGroupKeys)) {
+      if (proposal.confidence >= settings.autoMatchConfidence) {
+        await this.recordGroupMatch(channelId, proposal, "AUTO");
+        proposal.providerTxnIds.forEach(id => matchedTxnIds.add(id));
+        result.matched += proposal.providerTxnIds.length;
+        result.totalMatchedCents += proposal.providerCents;
+        if (proposal.discrepancyCents > 0) {
+          result.discrepancies++;
         }
       } else {
-        unmatched++;
-        totalUnmatchedCents += txn.netCents;
+        await this.recordGroupMatch(channelId, proposal, "SUGGESTED");
+        result.suggested++;
       }
     }
 
-    return {
-      matched,
-      unmatched,
-      discrepancies,
-      totalMatchedCents,
-      totalUnmatchedCents
-    };
+    for (const txn of txns) {
+      if (!matchedTxnIds.has(txn.id)) {
+        result.unmatched++;
+        result.totalUnmatchedCents += txn.netCents;
+      }
+    }
+
+    return result;
   }
 
   /**
-   * Find matching ledger entry for provider transaction
+   * Ledger entries already matched, and groupings reviewers dismissed
    */
-  private async findMatch(channelId: string, txn: any) {
-    // Try to match by order ID if present
-    if (txn.orderId) {
-      const entries = await db.query.ledgerEntries.findMany({
-        where: and(
-          eq(ledgerEntries.channelId, channelId),
-          eq(ledgerEntries.refType, "ORDER"),
-          eq(ledgerEntries.refId, txn.orderId),
-          eq(ledgerEntries.entryType, "SALE")
-        )
-      });
+  private async getPriorMatches(channelId: string, ledgerEntryIds: string[]) {
+    const db = await requireDb();
+
+    const matchedEntryIds = new Set<string>();
+    if (ledgerEntryIds.length > 0) {
+      const matched = await db.select()
+        .from(reconciliationMatches)
+        .where(and(
+          eq(reconciliationMatches.channelId, channelId),
+          inArray(reconciliationMatches.ledgerEntryId, ledgerEntryIds)
+        ));
+      for (const match of matched) {
+        // Rows from before suggestions existed have no SUGGESTED match type
+        const live = match.status === "MATCHED" || (match.status === "SUGGESTED" && match.matchType !== "SUGGESTED");
+        if (live && match.ledgerEntryId) {
+          matchedEntryIds.add(match.ledgerEntryId);
+        }
+      }
+    }
+
+    const dismissed = await db.select()
+      .from(reconciliationMatches)
+      .where(and(
+        eq(reconciliationMatches.channelId, channelId),
+        eq(reconciliationMatches.status, "DISMISSED")
+      ));
+    const dismissedGroupKeys = new Set<string>(
+      dismissed.map(match => match.metadata?.groupKey).filter(Boolean)
+    );
+
+    return { matchedEntryIds, dismissedGroupKeys };
+  }
+
+  /**
+   * Record a grouping as one row per transaction/entry pair sharing a groupId.
+   * Suggestions leave the provider transactions unreconciled.
+   */
+  private async recordGroupMatch(
+    channelId: string,
+    proposal: ReconciliationMatchProposal,
+    matchType: "AUTO" | "MANUAL" | "SUGGESTED",
+    matchedBy?: string,
+    notes?: string
+  ): Promise<string> {
+    const db = await requireDb();
+
+    const groupId = ulid();
+    const suggested = matchType === "SUGGESTED";
+    const now = new Date();
+    let first = true;
+
+    const txns = await db.select()
+      .from(providerTransactions)
+      .where(and(
+        eq(providerTransactions.channelId, channelId),
+        inArray(providerTransactions.id, proposal.providerTxnIds)
+      ));
+    if (txns.length !== proposal.providerTxnIds.length) {
+      throw new Error("Provider transaction not found");
+    }
 
-      if (entries.length > 0) {
-        return entries[0];
+    for (const txn of txns) {
+      const source = getExternalSource(txn.provider);
+      const externalTransactionId = await this.getExternalTransactionId(db, txn, source);
+      for (const ledgerEntryId of proposal.ledgerEntryIds) {
+        await db.insert(reconciliationMatches).values({
+          id: ulid(),
+          channelId,
+          source,
+          externalTransactionId,
+          providerTxnId: txn.id,
+          ledgerEntryId,
+          status: suggested ? "SUGGESTED" : "MATCHED",
+          matchType,
+          matchConfidence: proposal.confidence.toFixed(2),
+          // Carried on one row so getDiscrepancies lists each group once
+          discrepancyCents: first ? proposal.discrepancyCents : 0,
+          matchReason: proposal.reasons.join("; "),
+          matchedBy,
+          matchedAt: suggested ? null : now,
+          notes,
+          metadata: {
+            groupId,
+            groupKey: proposal.groupKey,
+            kind: proposal.kind,
+            providerTxnIds: proposal.providerTxnIds,
+            ledgerEntryIds: proposal.ledgerEntryIds,
+            providerCents: proposal.providerCents,
+            ledgerCents: proposal.ledgerCents,
+            discrepancyCents: proposal.discrepancyCents
+          },
+          createdAt: now
+        });
+        first = false;
       }
     }
 
-    // Try to match by amount and date (within 24 hours)
-    const matchWindow = 24 * 60 * 60 * 1000; // 24 hours
-    const txnDate = new Date(txn.txnDate);
-    const startWindow = new Date(txnDate.getTime() - matchWindow);
-    const endWindow = new Date(txnDate.getTime() + matchWindow);
+    if (!suggested) {
+      await this.markReconciled(
+        proposal.providerTxnIds,
+        matchType === "MANUAL" ? "MANUAL_MATCHED" : "AUTO_MATCHED",
+        now,
+        matchedBy
+      );
+    }
 
-    const entries = await db.query.ledgerEntries.findMany({
-      where: and(
-        eq(ledgerEntries.channelId, channelId),
-        between(ledgerEntries.postedAt, startWindow, endWindow),
-        sql`ABS(${ledgerEntries.amountCents} - ${txn.netCents}) < 100`
-      ),
-      limit: 1
-    });
+    return groupId;
+  }
+
+  /**
+   * External transaction a match points at, recorded from the provider
+   * transaction the first time it is matched
+   */
+  private async getExternalTransactionId(
+    db: Database,
+    txn: typeof providerTransactions.$inferSelect,
+    source: ExternalSource
+  ): Promise<string> {
+    await db.insert(externalTransactions)
+      .values({
+        id: ulid(),
+        channelId: txn.channelId,
+        source,
+        externalId: txn.providerTxnId,
+        occurredAt: txn.providerCreatedAt,
+        currency: txn.currency,
+        amountCents: txn.netCents,
+        description: `${txn.provider} ${txn.txnType}`,
+        raw: txn.providerData
+      })
+      .onDuplicateKeyUpdate({ set: { externalId: txn.providerTxnId } });
+
+    const [external] = await db.select({ id: externalTransactions.id })
+      .from(externalTransactions)
+      .where(and(
+        eq(externalTransactions.channelId, txn.channelId),
+        eq(externalTransactions.source, source),
+        eq(externalTransactions.externalId, txn.providerTxnId)
+      ))
+      .limit(1);
+
+    return external.id;
+  }
 
-    return entries.length > 0 ? entries[0] : null;
+  private async markReconciled(
+    providerTxnIds: string[],
+    matchStatus: "AUTO_MATCHED" | "MANUAL_MATCHED",
+    at: Date,
+    matchedBy?: string
+  ) {
+    const db = await requireDb();
+
+    await db.update(providerTransactions)
+      .set({
+        matchStatus,
+        matchedAt: at,
+        matchedBy: matchedBy ?? null
+      })
+      .where(inArray(providerTransactions.id, providerTxnIds));
   }
 
   /**
-   * Record a reconciliation match
+   * Manual match. Pass several ids on either side to match a grouping
+   * (e.g. one payout covering several creator payouts).
    */
-  private async recordMatch(
+  async manualMatch(
     channelId: string,
-    providerTxnId: string,
-    ledgerEntryId: string,
-    matchType: string,
-    confidence: number,
-    discrepancyCents: number
+    providerTxnIds: string | string[],
+    ledgerEntryIds: string | string[],
+    notes?: string,
+    matchedBy?: string
   ) {
-    const matchId = ulid();
-    
-    await db.insert(reconciliationMatches).values({
-      id: matchId,
+    const db = await requireDb();
+
+    const txnIds = Array.isArray(providerTxnIds) ? providerTxnIds : [providerTxnIds];
+    const entryIds = Array.isArray(ledgerEntryIds) ? ledgerEntryIds : [ledgerEntryIds];
+
+    const txns = await db.select()
+      .from(providerTransactions)
+      .where(inArray(providerTransactions.id, txnIds));
+
+    const entries = await db.select()
+      .from(ledgerEntries)
+      .where(inArray(ledgerEntries.id, entryIds));
+
+    if (txns.length !== txnIds.length || entries.length !== entryIds.length) {
+      throw new Error("Transaction or entry not found");
+    }
+
+    const providerCents = txns.reduce((sum, txn) => sum + txn.netCents, 0);
+    const ledgerCents = entries.reduce(
+      (sum, entry) => sum + (getCashEffectCents(entry) ?? entry.amountCents),
+      0
+    );
+    const kind: ReconciliationMatchKind =
+      txnIds.length > 1 ? "MANY_TO_ONE" : entryIds.length > 1 ? "ONE_TO_MANY" : "ONE_TO_ONE";
+
+    return await this.recordGroupMatch(
       channelId,
-      providerTxnId,
-      ledgerEntryId,
-      matchType,
-      matchConfidence: confidence,
-      discrepancyCents,
-      matchedAt: new Date(),
-      createdAt: new Date()
-    });
+      {
+        groupKey: getMatchGroupKey(txnIds, entryIds),
+        kind,
+        providerTxnIds: txnIds,
+        ledgerEntryIds: entryIds,
+        providerCents,
+        ledgerCents,
+        discrepancyCents: Math.abs(providerCents - ledgerCents),
+        confidence: 100,
+        reasons: ["Matched manually"]
+      },
+      "MANUAL",
+      matchedBy,
+      notes
+    );
+  }
+
+  /**
+   * Suggested groupings awaiting review, most confident first
+   */
+  async getSuggestedMatches(channelId: string) {
+    const rows = await this.getSuggestionRows(channelId);
+    const groups = new Map<string, {
+      groupId: string;
+      kind: ReconciliationMatchKind;
+      providerTxnIds: string[];
+      ledgerEntryIds: string[];
+      providerCents: number;
+      ledgerCents: number;
+      discrepancyCents: number;
+      confidence: number;
+      reasons: string[];
+      suggestedAt: Date;
+    }>();
+
+    for (const row of rows) {
+      const meta = row.metadata || {};
+      if (!meta.groupId || groups.has(meta.groupId)) continue;
+      groups.set(meta.groupId, {
+        groupId: meta.groupId,
+        kind: meta.kind,
+        providerTxnIds: meta.providerTxnIds,
+        ledgerEntryIds: meta.ledgerEntryIds,
+        providerCents: meta.providerCents,
+        ledgerCents: meta.ledgerCents,
+        discrepancyCents: meta.discrepancyCents,
+        confidence: Number(row.matchConfidence),
+        reasons: row.matchReason ? row.matchReason.split("; ") : [],
+        suggestedAt: row.createdAt
+      });
+    }
+
+    return Array.from(groups.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Accept a suggested grouping and reconcile its provider transactions
+   */
+  async acceptSuggestedMatch(channelId: string, groupId: string, acceptedBy: string) {
+    const db = await requireDb();
+
+    const rows = (await this.getSuggestionRows(channelId)).filter(row => row.metadata?.groupId === groupId);
+    if (rows.length === 0) {
+      throw new Error(`Suggested match not found: ${groupId}`);
+    }
 
-    // Mark provider transaction as reconciled
-    await db.update(providerTransactions)
-      .set({ 
-        reconciled: true,
-        reconciledAt: new Date()
+    const txnIds: string[] = rows[0].metadata.providerTxnIds;
+    const txns = await db.select()
+      .from(providerTransactions)
+      .where(inArray(providerTransactions.id, txnIds));
+    if (txns.some(txn => txn.matchStatus !== "UNMATCHED")) {
+      throw new Error("A transaction in this suggestion has already been reconciled");
+    }
+
+    const now = new Date();
+    await db.update(reconciliationMatches)
+      .set({
+        status: "MATCHED",
+        matchedBy: acceptedBy,
+        matchedAt: now
       })
-      .where(eq(providerTransactions.id, providerTxnId));
+      .where(inArray(reconciliationMatches.id, rows.map(row => row.id)));
+
+    await this.markReconciled(txnIds, "MANUAL_MATCHED", now, acceptedBy);
   }
 
   /**
-   * Manual match
+   * Dismiss a suggested grouping; later runs will not suggest it again
    */
-  async manualMatch(
-    channelId: string,
-    providerTxnId: string,
-    ledgerEntryId: string,
-    notes?: string
-  ) {
-    const txn = await db.query.providerTransactions.findFirst({
-      where: eq(providerTransactions.id, providerTxnId)
-    });
+  async dismissSuggestedMatch(channelId: string, groupId: string, dismissedBy: string, notes?: string) {
+    const db = await requireDb();
 
-    const entry = await db.query.ledgerEntries.findFirst({
-      where: eq(ledgerEntries.id, ledgerEntryId)
-    });
+    const rows = (await this.getSuggestionRows(channelId)).filter(row => row.metadata?.groupId === groupId);
+    if (rows.length === 0) {
+      throw new Error(`Suggested match not found: ${groupId}`);
+    }
 
-    if (!txn || !entry) {
-      throw new Error("Transaction or entry not found");
+    for (const row of rows) {
+      await db.update(reconciliationMatches)
+        .set({
+          status: "DISMISSED",
+          notes,
+          metadata: { ...row.metadata, dismissedBy, dismissedAt: new Date().toISOString() }
+        })
+        .where(eq(reconciliationMatches.id, row.id));
     }
+  }
 
-    const discrepancyCents = Math.abs(txn.netCents - entry.amountCents);
+  private async getSuggestionRows(channelId: string) {
+    const db = await requireDb();
 
-    await this.recordMatch(
-      channelId,
-      providerTxnId,
-      ledgerEntryId,
-      "MANUAL",
-      100,
-      discrepancyCents
-    );
+    return await db.select()
+      .from(reconciliationMatches)
+      .where(and(
+        eq(reconciliationMatches.channelId, channelId),
+        eq(reconciliationMatches.status, "SUGGESTED"),
+        eq(reconciliationMatches.matchType, "SUGGESTED")
+      ))
+      .orderBy(desc(reconciliationMatches.createdAt));
   }
 
   /**
    * Get unmatched transactions
    */
   async getUnmatchedTransactions(channelId: string) {
-    return await db.query.providerTransactions.findMany({
-      where: and(
+    const db = await requireDb();
+
+    return await db.select()
+      .from(providerTransactions)
+      .where(and(
         eq(providerTransactions.channelId, channelId),
-        eq(providerTransactions.reconciled, false)
-      ),
-      orderBy: [desc(providerTransactions.txnDate)]
-    });
+        eq(providerTransactions.matchStatus, "UNMATCHED")
+      ))
+      .orderBy(desc(providerTransactions.providerCreatedAt));
   }
 
   /**
    * Get reconciliation discrepancies
    */
   async getDiscrepancies(channelId: string) {
-    return await db.query.reconciliationMatches.findMany({
-      where: and(
+    const db = await requireDb();
+
+    return await db.select()
+      .from(reconciliationMatches)
+      .where(and(
         eq(reconciliationMatches.channelId, channelId),
         sql`${reconciliationMatches.discrepancyCents} > 0`
-      ),
-      orderBy: [desc(reconciliationMatches.discrepancyCents)]
-    });
+      ))
+      .orderBy(desc(reconciliationMatches.discrepancyCents));
   }
 }
 
@@ -743,8 +2113,8 @@ export class ReconciliationEngine {
 export class CreatorPayoutService {
   private ledgerService: LedgerService;
 
-  constructor() {
-    this.ledgerService = new LedgerService();
+  constructor(rateSource: FxRateSource = liveFxRateSource) {
+    this.ledgerService = new LedgerService(rateSource);
   }
 
   /**
@@ -756,52 +2126,166 @@ export class CreatorPayoutService {
     periodStart: Date,
     periodEnd: Date
   ) {
-    // Get all orders for creator in period
-    const creatorOrders = await db.query.orders.findMany({
-      where: and(
+    const statement = await this.buildStatement(channelId, creatorId, periodStart, periodEnd);
+
+    return {
+      creatorId,
+      periodStart,
+      periodEnd,
+      orderCount: statement.lines.filter(line => line.type === "ORDER").length,
+      totalSalesCents: statement.totals.salesCents,
+      totalCommissionCents: statement.totals.commissionCents,
+      totalBonusCents: statement.totals.incentivesCents,
+      totalClawbackCents: statement.totals.clawbacksCents,
+      totalEarningsCents: statement.totals.earnedCents
+    };
+  }
+
+  /**
+   * Build the payout statement for a period from current data: commission
+   * on orders from the creator's live sessions, tier incentives, and
+   * clawbacks for refunds processed and chargebacks lost during the period
+   */
+  async buildStatement(
+    channelId: string,
+    creatorId: string,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<PayoutStatement> {
+    const db = await requireDb();
+    const { creator, tier } = await this.getCreator(db, creatorId);
+
+    // Orders are attributed to the creator hosting the live session they came from
+    const creatorOrders = await db.select({ order: orders })
+      .from(orders)
+      .innerJoin(liveSessions, eq(orders.liveSessionId, liveSessions.id))
+      .where(and(
         eq(orders.channelId, channelId),
-        eq(orders.creatorId, creatorId),
+        eq(liveSessions.creatorId, creatorId),
         between(orders.createdAt, periodStart, periodEnd),
-        sql`${orders.status} IN ('completed', 'shipped', 'delivered')`
-      )
-    });
-
-    const creator = await db.query.creators.findFirst({
-      where: eq(creators.id, creatorId)
-    });
+        inArray(orders.status, ["shipped", "delivered"])
+      ));
 
-    if (!creator) {
-      throw new Error(`Creator not found: ${creatorId}`);
-    }
+    const shows = await db.select()
+      .from(liveSessions)
+      .where(and(
+        eq(liveSessions.channelId, channelId),
+        eq(liveSessions.creatorId, creatorId),
+        between(liveSessions.startedAt, periodStart, periodEnd)
+      ));
 
-    let totalSalesCents = 0;
-    let totalCommissionCents = 0;
-    let totalBonusCents = 0;
+    // Average per-show conversion: attributed orders over peak viewers
+    const conversionRates = shows
+      .filter(show => show.viewerCount > 0)
+      .map(show =>
+        creatorOrders.filter(({ order }) => order.liveSessionId === show.id).length / show.viewerCount
+      );
+    const avgConversionRate = conversionRates.length > 0
+      ? conversionRates.reduce((sum, rate) => sum + rate, 0) / conversionRates.length
+      : 0;
 
-    for (const order of creatorOrders) {
-      const orderTotal = order.totalCents;
-      const commission = Math.round(orderTotal * (creator.commissionRate / 100));
-      const bonus = Math.round(orderTotal * (creator.bonusRate / 100));
+    const statementOrders = creatorOrders.map(({ order }) => ({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      date: new Date(order.createdAt),
+      totalCents: toCents(order.total)
+    }));
+    const incentives = calculateTierIncentives(
+      tier,
+      statementOrders.reduce((sum, order) => sum + order.totalCents, 0),
+      avgConversionRate
+    );
+    const period = `${periodStart.toISOString().slice(0, 10)}:${periodEnd.toISOString().slice(0, 10)}`;
 
-      totalSalesCents += orderTotal;
-      totalCommissionCents += commission;
-      totalBonusCents += bonus;
+    const holds = await this.getActiveHoldReasons(db, channelId, creatorId);
+    if (await this.checkFraudHold(channelId, creatorId)) {
+      holds.push("Fraud review required");
     }
 
-    return {
+    return buildPayoutStatement({
+      channelId,
       creatorId,
+      creatorName: creator.name,
+      tier,
+      // Creator rates are stored as percentages
+      commissionRateOverride: creator.commissionRate != null ? Number(creator.commissionRate) / 100 : null,
       periodStart,
       periodEnd,
-      orderCount: creatorOrders.length,
-      totalSalesCents,
-      totalCommissionCents,
-      totalBonusCents,
-      totalEarningsCents: totalCommissionCents + totalBonusCents
-    };
+      currency: "AUD",
+      orders: statementOrders,
+      incentives: [
+        {
+          referenceId: `performance:${period}`,
+          description: "Performance bonus",
+          amountCents: incentives.performanceBonusCents
+        },
+        {
+          referenceId: `tier:${period}`,
+          description: `${tier} tier bonus`,
+          amountCents: incentives.tierBonusCents
+        }
+      ],
+      clawbacks: await this.getClawbacks(channelId, creatorId, periodStart, periodEnd),
+      holds,
+      payoutFeeRate: PAYOUT_FEE_RATE
+    });
   }
 
   /**
-   * Create payout for creator
+   * Refunds processed and chargebacks lost in the period on the creator's
+   * orders, whenever the order was placed
+   */
+  private async getClawbacks(
+    channelId: string,
+    creatorId: string,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<PayoutStatementClawback[]> {
+    const db = await requireDb();
+
+    const refunds = await db.select({ refund: orderRefunds, order: orders })
+      .from(orderRefunds)
+      .innerJoin(orders, eq(orderRefunds.orderId, orders.id))
+      .innerJoin(liveSessions, eq(orders.liveSessionId, liveSessions.id))
+      .where(and(
+        eq(orders.channelId, channelId),
+        eq(liveSessions.creatorId, creatorId),
+        eq(orderRefunds.status, "processed"),
+        between(orderRefunds.processedAt, periodStart, periodEnd)
+      ));
+
+    const chargebacks = await db.select({ dispute: disputes, order: orders })
+      .from(disputes)
+      .innerJoin(orders, eq(disputes.orderId, orders.id))
+      .innerJoin(liveSessions, eq(orders.liveSessionId, liveSessions.id))
+      .where(and(
+        eq(orders.channelId, channelId),
+        eq(liveSessions.creatorId, creatorId),
+        eq(disputes.status, "lost"),
+        between(disputes.updatedAt, periodStart, periodEnd)
+      ));
+
+    return [
+      ...refunds.map(({ refund, order }) => ({
+        kind: "REFUND" as const,
+        referenceId: refund.id,
+        orderId: order.id,
+        date: new Date(refund.processedAt ?? refund.createdAt),
+        amountCents: toCents(refund.amount)
+      })),
+      ...chargebacks.map(({ dispute, order }) => ({
+        kind: "CHARGEBACK" as const,
+        referenceId: dispute.id,
+        orderId: order.id,
+        date: new Date(dispute.updatedAt),
+        amountCents: toCents(dispute.amount)
+      }))
+    ];
+  }
+
+  /**
+   * Create payout for creator. Each statement line is stored as a payout
+   * item so the statement can be shown and disputed later.
    */
   async createPayout(
     channelId: string,
@@ -810,35 +2294,20 @@ export class CreatorPayoutService {
     periodEnd: Date,
     provider: string = "WISE"
   ): Promise<string> {
-    const creator = await db.query.creators.findFirst({
-      where: eq(creators.id, creatorId)
-    });
-
-    if (!creator) {
-      throw new Error(`Creator not found: ${creatorId}`);
-    }
+    const db = await requireDb();
 
     // Check for payout hold
-    if (creator.payoutHold) {
-      throw new Error(`Payout held: ${creator.payoutHoldReason}`);
+    const holds = await this.getActiveHoldReasons(db, channelId, creatorId);
+    if (holds.length > 0) {
+      throw new Error(`Payout held: ${holds.join("; ")}`);
     }
 
-    // Calculate earnings
-    const earnings = await this.calculateCreatorEarnings(
-      channelId,
-      creatorId,
-      periodStart,
-      periodEnd
-    );
+    const statement = await this.buildStatement(channelId, creatorId, periodStart, periodEnd);
 
-    if (earnings.totalEarningsCents <= 0) {
+    if (statement.totals.earnedCents <= 0) {
       throw new Error("No earnings for period");
     }
 
-    // Calculate payout fee (e.g., 1% for Wise)
-    const feeCents = Math.round(earnings.totalEarningsCents * 0.01);
-    const netCents = earnings.totalEarningsCents - feeCents;
-
     // Create payout record
     const payoutId = ulid();
     await db.insert(creatorPayouts).values({
@@ -846,20 +2315,342 @@ export class CreatorPayoutService {
       channelId,
       creatorId,
       status: "PENDING",
-      amountCents: earnings.totalEarningsCents,
-      feeCents,
-      netCents,
-      currency: "AUD",
+      amountCents: statement.totals.earnedCents,
+      feeCents: statement.totals.feeCents,
+      netCents: statement.totals.netCents,
+      currency: statement.currency,
       provider,
       periodStart,
       periodEnd,
+      metadata: {
+        tier: statement.tier,
+        commissionRate: statement.commissionRate,
+        rateSource: statement.rateSource
+      },
       createdAt: new Date(),
       updatedAt: new Date()
     });
 
+    for (const line of statement.lines) {
+      await db.insert(creatorPayoutItems).values({
+        id: ulid(),
+        channelId,
+        payoutId,
+        referenceType: line.type,
+        referenceId: line.referenceId,
+        description: line.description,
+        currency: statement.currency,
+        amountCents: line.amountCents,
+        metadata: {
+          orderId: line.orderId,
+          date: line.date?.toISOString() ?? null,
+          baseCents: line.baseCents,
+          rate: line.rate
+        },
+        createdAt: new Date()
+      });
+    }
+
     return payoutId;
   }
 
+  /**
+   * Statement for an existing payout, from its stored items, with the
+   * status of any disputes raised against each line. With creatorId, only
+   * that creator's payouts are found.
+   */
+  async getPayoutStatement(channelId: string, payoutId: string, creatorId?: string): Promise<PayoutStatement> {
+    const db = await requireDb();
+    const payout = await this.findPayout(db, channelId, payoutId, creatorId);
+
+    const [creator] = await db.select()
+      .from(creators)
+      .where(eq(creators.id, payout.creatorId))
+      .limit(1);
+
+    const items = await db.select()
+      .from(creatorPayoutItems)
+      .where(eq(creatorPayoutItems.payoutId, payoutId))
+      .orderBy(creatorPayoutItems.createdAt);
+
+    const lineDisputes = await db.select()
+      .from(creatorPayoutDisputes)
+      .where(eq(creatorPayoutDisputes.payoutId, payoutId))
+      .orderBy(desc(creatorPayoutDisputes.createdAt));
+
+    const lines: PayoutStatementLine[] = items.map(item => ({
+      lineId: item.id,
+      type: item.referenceType as PayoutStatementLineType,
+      referenceId: item.referenceId,
+      orderId: item.metadata?.orderId ?? null,
+      date: item.metadata?.date ? new Date(item.metadata.date) : null,
+      description: item.description || "",
+      baseCents: item.metadata?.baseCents ?? null,
+      rate: item.metadata?.rate ?? null,
+      amountCents: item.amountCents,
+      // Latest dispute on the line
+      disputeStatus: lineDisputes.find(d => d.payoutItemId === item.id)?.status ?? null
+    }));
+
+    return {
+      payoutId,
+      payoutStatus: payout.status,
+      channelId,
+      creatorId: payout.creatorId,
+      creatorName: creator?.name ?? payout.creatorId,
+      tier: payout.metadata?.tier ?? (creator ? await this.getCreatorTier(db, creator) : "BRONZE"),
+      commissionRate: payout.metadata?.commissionRate ?? 0,
+      rateSource: payout.metadata?.rateSource ?? "TIER",
+      periodStart: new Date(payout.periodStart),
+      periodEnd: new Date(payout.periodEnd),
+      currency: payout.currency,
+      lines,
+      totals: summarizeStatementLines(lines, payout.feeCents ?? 0),
+      holds: payout.holdReason ? [payout.holdReason] : []
+    };
+  }
+
+  /**
+   * Payout statement as a downloadable CSV or PDF
+   */
+  async exportPayoutStatement(
+    channelId: string,
+    payoutId: string,
+    format: "csv" | "pdf",
+    creatorId?: string
+  ) {
+    const statement = await this.getPayoutStatement(channelId, payoutId, creatorId);
+
+    if (format === "pdf") {
+      return {
+        filename: getStatementFilename(statement, "pdf"),
+        mimeType: "application/pdf",
+        encoding: "base64" as const,
+        content: renderPayoutStatementPdf(statement).toString("base64")
+      };
+    }
+
+    return {
+      filename: getStatementFilename(statement, "csv"),
+      mimeType: "text/csv",
+      encoding: "utf8" as const,
+      content: renderPayoutStatementCsv(statement)
+    };
+  }
+
+  /**
+   * Creator disputes a statement line. The dispute goes to the ops review
+   * queue and the payout is held until every dispute on it is resolved.
+   * With creatorId, only that creator's payouts can be disputed.
+   */
+  async disputeStatementLine(
+    channelId: string,
+    payoutId: string,
+    payoutItemId: string,
+    reason: string,
+    raisedBy: string,
+    creatorId?: string
+  ): Promise<string> {
+    const db = await requireDb();
+    const payout = await this.findPayout(db, channelId, payoutId, creatorId);
+
+    if (payout.status !== "PENDING" && payout.status !== "HELD") {
+      throw new Error(`Payout already processed: ${payout.status}`);
+    }
+
+    const [item] = await db.select()
+      .from(creatorPayoutItems)
+      .where(and(
+        eq(creatorPayoutItems.payoutId, payoutId),
+        eq(creatorPayoutItems.id, payoutItemId)
+      ))
+      .limit(1);
+
+    if (!item) {
+      throw new Error(`Statement line not found: ${payoutItemId}`);
+    }
+
+    const [openDispute] = await db.select()
+      .from(creatorPayoutDisputes)
+      .where(and(
+        eq(creatorPayoutDisputes.payoutItemId, payoutItemId),
+        eq(creatorPayoutDisputes.status, "OPEN")
+      ))
+      .limit(1);
+
+    if (openDispute) {
+      throw new Error("This line already has an open dispute");
+    }
+
+    const disputeId = ulid();
+    const reviewQueueItemId = ulid();
+
+    await db.insert(reviewQueueItems).values({
+      id: reviewQueueItemId,
+      channelId,
+      type: "creator_payout_dispute",
+      severity: "medium",
+      status: "open",
+      refType: "creator_payout",
+      refId: payoutId,
+      title: `Payout statement dispute: ${item.description || item.referenceId}`,
+      summary: reason,
+      metadata: {
+        disputeId,
+        payoutItemId,
+        creatorId: payout.creatorId,
+        amountCents: item.amountCents
+      },
+      createdBy: raisedBy
+    });
+
+    await db.insert(creatorPayoutDisputes).values({
+      id: disputeId,
+      channelId,
+      payoutId,
+      payoutItemId,
+      creatorId: payout.creatorId,
+      status: "OPEN",
+      reason,
+      raisedBy,
+      reviewQueueItemId
+    });
+
+    if (payout.status === "PENDING") {
+      await db.update(creatorPayouts)
+        .set({
+          status: "HELD",
+          holdReason: STATEMENT_DISPUTE_HOLD_REASON,
+          updatedAt: new Date()
+        })
+        .where(eq(creatorPayouts.id, payoutId));
+    }
+
+    return disputeId;
+  }
+
+  /**
+   * Ops resolves a statement dispute. An upheld dispute may carry an
+   * adjustment, added to the statement as its own line. The payout is
+   * released once no disputes remain open, unless held for another reason.
+   */
+  async resolveStatementDispute(
+    channelId: string,
+    disputeId: string,
+    resolution: {
+      decision: "UPHELD" | "REJECTED";
+      resolvedBy: string;
+      notes: string;
+      adjustmentCents?: number;
+    }
+  ) {
+    const db = await requireDb();
+
+    // The row lock makes a second resolver wait, then see the dispute closed
+    await db.transaction(async (tx) => {
+      const [dispute] = await tx.select()
+        .from(creatorPayoutDisputes)
+        .where(and(
+          eq(creatorPayoutDisputes.channelId, channelId),
+          eq(creatorPayoutDisputes.id, disputeId)
+        ))
+        .limit(1)
+        .for("update");
+
+      if (!dispute) {
+        throw new Error(`Dispute not found: ${disputeId}`);
+      }
+
+      if (dispute.status !== "OPEN") {
+        throw new Error(`Dispute already resolved: ${dispute.status}`);
+      }
+
+      const adjustmentCents = resolution.decision === "UPHELD" ? resolution.adjustmentCents ?? 0 : 0;
+
+      const [resolved] = await tx.update(creatorPayoutDisputes)
+        .set({
+          status: resolution.decision,
+          adjustmentCents,
+          resolution: resolution.notes,
+          resolvedBy: resolution.resolvedBy,
+          resolvedAt: new Date()
+        })
+        .where(and(
+          eq(creatorPayoutDisputes.id, disputeId),
+          eq(creatorPayoutDisputes.status, "OPEN")
+        ));
+
+      if (resolved.affectedRows === 0) {
+        throw new Error(`Dispute already resolved: ${disputeId}`);
+      }
+
+      if (adjustmentCents !== 0) {
+        await tx.insert(creatorPayoutItems).values({
+          id: ulid(),
+          channelId,
+          payoutId: dispute.payoutId,
+          referenceType: "ADJUSTMENT",
+          referenceId: disputeId,
+          description: `Dispute adjustment: ${resolution.notes}`,
+          amountCents: adjustmentCents,
+          metadata: { disputedItemId: dispute.payoutItemId },
+          createdAt: new Date()
+        });
+
+        await tx.update(creatorPayouts)
+          .set({
+            amountCents: sql`${creatorPayouts.amountCents} + ${adjustmentCents}`,
+            netCents: sql`${creatorPayouts.netCents} + ${adjustmentCents}`,
+            updatedAt: new Date()
+          })
+          .where(eq(creatorPayouts.id, dispute.payoutId));
+      }
+
+      if (dispute.reviewQueueItemId) {
+        await tx.update(reviewQueueItems)
+          .set({ status: "resolved" })
+          .where(eq(reviewQueueItems.id, dispute.reviewQueueItemId));
+      }
+
+      const [stillOpen] = await tx.select()
+        .from(creatorPayoutDisputes)
+        .where(and(
+          eq(creatorPayoutDisputes.payoutId, dispute.payoutId),
+          eq(creatorPayoutDisputes.status, "OPEN")
+        ))
+        .limit(1);
+
+      if (!stillOpen) {
+        await tx.update(creatorPayouts)
+          .set({
+            status: "PENDING",
+            holdReason: null,
+            updatedAt: new Date()
+          })
+          .where(and(
+            eq(creatorPayouts.id, dispute.payoutId),
+            eq(creatorPayouts.status, "HELD"),
+            eq(creatorPayouts.holdReason, STATEMENT_DISPUTE_HOLD_REASON)
+          ));
+      }
+    });
+  }
+
+  /**
+   * Open statement disputes for ops, oldest first
+   */
+  async getOpenStatementDisputes(channelId: string) {
+    const db = await requireDb();
+
+    return await db.select()
+      .from(creatorPayoutDisputes)
+      .where(and(
+        eq(creatorPayoutDisputes.channelId, channelId),
+        eq(creatorPayoutDisputes.status, "OPEN")
+      ))
+      .orderBy(creatorPayoutDisputes.createdAt);
+  }
+
   /**
    * Execute payout (send to Wise/PayPal)
    */
@@ -867,24 +2658,29 @@ export class CreatorPayoutService {
     channelId: string,
     payoutId: string
   ): Promise<void> {
-    const payout = await db.query.creatorPayouts.findFirst({
-      where: and(
-        eq(creatorPayouts.channelId, channelId),
-        eq(creatorPayouts.id, payoutId)
-      )
-    });
-
-    if (!payout) {
-      throw new Error(`Payout not found: ${payoutId}`);
-    }
+    const db = await requireDb();
+    const payout = await this.findPayout(db, channelId, payoutId);
 
     if (payout.status !== "PENDING") {
       throw new Error(`Payout already processed: ${payout.status}`);
     }
 
-    const creator = await db.query.creators.findFirst({
-      where: eq(creators.id, payout.creatorId)
-    });
+    // Disputed statement lines must be resolved by ops first
+    const [openDispute] = await db.select()
+      .from(creatorPayoutDisputes)
+      .where(and(
+        eq(creatorPayoutDisputes.payoutId, payoutId),
+        eq(creatorPayoutDisputes.status, "OPEN")
+      ))
+      .limit(1);
+    if (openDispute) {
+      throw new Error("Payout has open statement disputes");
+    }
+
+    const [creator] = await db.select()
+      .from(creators)
+      .where(eq(creators.id, payout.creatorId))
+      .limit(1);
 
     if (!creator) {
       throw new Error(`Creator not found: ${payout.creatorId}`);
@@ -928,17 +2724,9 @@ export class CreatorPayoutService {
       payoutId,
       payout.creatorId,
       payout.netCents,
-      payout.feeCents,
+      payout.feeCents ?? 0,
       payout.currency
     );
-
-    // Update creator totals
-    await db.update(creators)
-      .set({
-        totalCommissionCents: sql`${creators.totalCommissionCents} + ${payout.amountCents}`,
-        updatedAt: new Date()
-      })
-      .where(eq(creators.id, payout.creatorId));
   }
 
   /**
@@ -972,6 +2760,8 @@ export class CreatorPayoutService {
     payoutId: string,
     reason: string
   ) {
+    const db = await requireDb();
+
     await db.update(creatorPayouts)
       .set({ 
         status: "HELD",
@@ -991,6 +2781,8 @@ export class CreatorPayoutService {
     channelId: string,
     payoutId: string
   ) {
+    const db = await requireDb();
+
     await db.update(creatorPayouts)
       .set({ 
         status: "PENDING",
@@ -1003,15 +2795,111 @@ export class CreatorPayoutService {
       ));
   }
 
+  /**
+   * Creator profile registered to a user's email, if any
+   */
+  async findCreatorIdByEmail(email: string): Promise<string | null> {
+    const db = await requireDb();
+
+    const [creator] = await db.select({ id: creators.id })
+      .from(creators)
+      .where(eq(creators.email, email))
+      .limit(1);
+
+    return creator?.id ?? null;
+  }
+
+  /**
+   * Payouts newest first, for one creator or (for ops) every creator
+   */
+  async listPayouts(options: { creatorId?: string; limit?: number } = {}) {
+    const db = await requireDb();
+
+    return await db.select({
+      id: creatorPayouts.id,
+      channelId: creatorPayouts.channelId,
+      creatorId: creatorPayouts.creatorId,
+      creatorName: creators.name,
+      status: creatorPayouts.status,
+      periodStart: creatorPayouts.periodStart,
+      periodEnd: creatorPayouts.periodEnd,
+      currency: creatorPayouts.currency,
+      netCents: creatorPayouts.netCents,
+      holdReason: creatorPayouts.holdReason,
+      createdAt: creatorPayouts.createdAt
+    })
+      .from(creatorPayouts)
+      .leftJoin(creators, eq(creatorPayouts.creatorId, creators.id))
+      .where(options.creatorId ? eq(creatorPayouts.creatorId, options.creatorId) : undefined)
+      .orderBy(desc(creatorPayouts.createdAt))
+      .limit(options.limit ?? 50);
+  }
+
+  private async findPayout(db: Database, channelId: string, payoutId: string, creatorId?: string) {
+    const [payout] = await db.select()
+      .from(creatorPayouts)
+      .where(and(
+        eq(creatorPayouts.channelId, channelId),
+        eq(creatorPayouts.id, payoutId),
+        creatorId ? eq(creatorPayouts.creatorId, creatorId) : undefined
+      ))
+      .limit(1);
+
+    // Another creator's payout is reported as missing rather than forbidden
+    if (!payout) {
+      throw new Error(`Payout not found: ${payoutId}`);
+    }
+
+    return payout;
+  }
+
+  private async getCreator(db: Database, creatorId: string) {
+    const [creator] = await db.select()
+      .from(creators)
+      .where(eq(creators.id, creatorId))
+      .limit(1);
+
+    if (!creator) {
+      throw new Error(`Creator not found: ${creatorId}`);
+    }
+
+    return { creator, tier: await this.getCreatorTier(db, creator) };
+  }
+
+  private async getCreatorTier(db: Database, creator: typeof creators.$inferSelect): Promise<CreatorTier> {
+    if (!creator.tierId) return "BRONZE";
+
+    const [tier] = await db.select({ name: creatorTiers.name })
+      .from(creatorTiers)
+      .where(eq(creatorTiers.id, creator.tierId))
+      .limit(1);
+
+    return parseCreatorTier(tier?.name);
+  }
+
+  private async getActiveHoldReasons(db: Database, channelId: string, creatorId: string): Promise<string[]> {
+    const holds = await db.select({ reason: payoutHolds.reason })
+      .from(payoutHolds)
+      .where(and(
+        eq(payoutHolds.channelId, channelId),
+        eq(payoutHolds.creatorId, creatorId),
+        eq(payoutHolds.status, "ACTIVE")
+      ));
+
+    return holds.map(hold => hold.reason);
+  }
+
   private async checkFraudHold(channelId: string, creatorId: string): Promise<boolean> {
+    const db = await requireDb();
+
     // Check if creator has recent high-risk fraud scores
-    const recentScores = await db.query.fraudScores.findMany({
-      where: and(
+    const recentScores = await db.select()
+      .from(fraudScores)
+      .where(and(
         eq(fraudScores.channelId, channelId),
         sql`${fraudScores.createdAt} > DATE_SUB(NOW(), INTERVAL 30 DAY)`
-      ),
-      limit: 10
-    });
+      ))
+      .limit(10);
 
     const highRiskCount = recentScores.filter(s => s.riskLevel === "HIGH" || s.riskLevel === "CRITICAL").length;
     return highRiskCount > 3;
@@ -1039,17 +2927,20 @@ export class CreatorPayoutService {
 export class FinancialReportingService {
   private ledgerService: LedgerService;
 
-  constructor() {
-    this.ledgerService = new LedgerService();
+  constructor(rateSource: FxRateSource = liveFxRateSource) {
+    this.ledgerService = new LedgerService(rateSource);
   }
 
   /**
-   * Get profit & loss statement
+   * Get profit & loss statement. With baseCurrency, every entry is
+   * converted to that currency (at its booked rate) and FX gains/losses
+   * are included.
    */
   async getProfitAndLoss(
     channelId: string,
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    options: { baseCurrency?: string } = {}
   ) {
     const entries = await this.ledgerService.getEntriesInRange(
       channelId,
@@ -1057,31 +2948,35 @@ export class FinancialReportingService {
       endDate
     );
 
-    const revenue = entries
-      .filter(e => e.creditAccount === "REVENUE")
-      .reduce((sum, e) => sum + e.amountCents, 0);
-
-    const cogs = entries
-      .filter(e => e.debitAccount === "COGS")
-      .reduce((sum, e) => sum + e.amountCents, 0);
-
-    const fees = entries
-      .filter(e => e.debitAccount === "FEES")
-      .reduce((sum, e) => sum + e.amountCents, 0);
+    const amounts = new Map<string, number>();
+    for (const e of entries) {
+      amounts.set(
+        e.id,
+        options.baseCurrency ? await this.ledgerService.toBase(e, options.baseCurrency) : e.amountCents
+      );
+    }
+    const total = (filter: (e: any) => boolean) =>
+      entries.filter(filter).reduce((sum, e) => sum + (amounts.get(e.id) ?? 0), 0);
 
-    const refunds = entries
-      .filter(e => e.entryType === "REFUND")
-      .reduce((sum, e) => sum + e.amountCents, 0);
+    const revenue = total(e => e.creditAccount === "REVENUE");
+    const cogs = total(e => e.debitAccount === "COGS");
+    const fees = total(e => e.debitAccount === "FEES");
+    const refunds = total(e => e.entryType === "REFUND");
+    const fxGain = total(e => e.creditAccount === "FX_GAIN") - total(e => e.debitAccount === "FX_GAIN");
+    const fxLoss = total(e => e.debitAccount === "FX_LOSS") - total(e => e.creditAccount === "FX_LOSS");
 
     const grossProfit = revenue - cogs;
-    const netProfit = grossProfit - fees - refunds;
+    const netProfit = grossProfit - fees - refunds + fxGain - fxLoss;
 
     return {
+      currency: options.baseCurrency ?? null,
       revenue,
       cogs,
       grossProfit,
       fees,
       refunds,
+      fxGain,
+      fxLoss,
       netProfit,
       grossMargin: revenue > 0 ? (grossProfit / revenue) * 100 : 0,
       netMargin: revenue > 0 ? (netProfit / revenue) * 100 : 0
@@ -1089,20 +2984,26 @@ export class FinancialReportingService {
   }
 
   /**
-   * Get balance sheet
+   * Get balance sheet, optionally with all currencies in baseCurrency
    */
-  async getBalanceSheet(channelId: string) {
-    const cash = await this.ledgerService.getAccountBalance(channelId, "CASH");
-    const receivable = await this.ledgerService.getAccountBalance(channelId, "RECEIVABLE");
-    const payableCreator = await this.ledgerService.getAccountBalance(channelId, "PAYABLE_CREATOR");
-    const payableSupplier = await this.ledgerService.getAccountBalance(channelId, "PAYABLE_SUPPLIER");
-    const reserves = await this.ledgerService.getAccountBalance(channelId, "RESERVES");
+  async getBalanceSheet(channelId: string, options: { baseCurrency?: string } = {}) {
+    const balance = (account: LedgerAccount) =>
+      options.baseCurrency
+        ? this.ledgerService.getAccountBalanceInBase(channelId, account, options.baseCurrency)
+        : this.ledgerService.getAccountBalance(channelId, account);
+
+    const cash = await balance("CASH");
+    const receivable = await balance("RECEIVABLE");
+    const payableCreator = await balance("PAYABLE_CREATOR");
+    const payableSupplier = await balance("PAYABLE_SUPPLIER");
+    const reserves = await balance("RESERVES");
 
     const totalAssets = cash + receivable + reserves;
     const totalLiabilities = payableCreator + payableSupplier;
     const equity = totalAssets - totalLiabilities;
 
     return {
+      currency: options.baseCurrency ?? null,
       assets: {
         cash,
         receivable,
@@ -1171,6 +3072,25 @@ export class FinancialReportingService {
   }
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function requireDb(): Promise<Database> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+// Decimal money columns are stored in major units
+function toCents(amount: string): number {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+function getExternalSource(provider: string): ExternalSource {
+  return externalTransactions.source.enumValues.find(source => source === provider) ?? "OTHER";
+}
+
 // ============================================================================
 // EXPORT SERVICES
 // ============================================================================
@@ -22,7 +22,7 @@
  * - Multi-3PL routing logic
  */
 
-import { db } from "./db.js";
+import { db, getDb } from "./db.js";
 import {
   inventoryLots,
   purchaseOrders,
@@ -48,6 +48,16 @@ import {
 } from "../drizzle/schema.js";
 import { eq, and, gte, lte, desc, sql, inArray } from "drizzle-orm";
 import { ulid } from "ulid";
+import {
+  completeCart,
+  createDbReservationStore,
+  releaseCart,
+  releaseExpiredHolds,
+  reserveCart,
+  type CartHold,
+  type ReservationResult,
+} from "./inventory-reservations.js";
+import { ThreePLShipments } from "./fulfillment-providers/shipments.js";
 
 // ============================================================================
 // TYPES & ENUMS
@@ -68,7 +78,7 @@ export type QCStatus = "PENDING" | "PASSED" | "FAILED" | "CONDITIONAL";
 
 export type SupplierTier = "STRATEGIC" | "PREFERRED" | "APPROVED" | "PROBATION" | "BLOCKED";
 
-export type ThreePLProvider = "SHIPBOB" | "FLEXPORT" | "RAKUTEN" | "CUSTOM";
+export type ThreePLProvider = "SHIPBOB" | "FLEXPORT" | "RAKUTEN" | "CUSTOM" | "LOCAL_FILE";
 
 export type ShipmentStatus = 
   | "PENDING"
@@ -79,7 +89,8 @@ export type ShipmentStatus =
   | "IN_TRANSIT"
   | "DELIVERED"
   | "EXCEPTION"
-  | "RETURNED";
+  | "RETURNED"
+  | "CANCELLED";
 
 export interface LotAllocation {
   lotId: string;
@@ -941,71 +952,7 @@ export class SupplierManager {
 // 3PL INTEGRATION ADAPTER
 // ============================================================================
 
-export class ThreePLAdapter {
-  /**
-   * Create shipment
-   */
-  static async createShipment(request: ThreePLShipmentRequest): Promise<string> {
-    const shipmentId = ulid();
-    const trackingNumber = `TRK-${Date.now()}`;
-
-    await db.insert(shipments).values({
-      id: shipmentId,
-      orderId: request.orderId,
-      providerId: request.providerId,
-      warehouseId: request.warehouseId,
-      trackingNumber,
-      carrier: "UPS", // Would come from provider
-      serviceLevel: request.serviceLevel,
-      status: "PENDING",
-      shippingAddress: JSON.stringify(request.shippingAddress),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-
-    // Create picking tasks
-    for (const item of request.items) {
-      await db.insert(pickingTasks).values({
-        id: ulid(),
-        shipmentId,
-        productId: item.productId,
-        quantity: item.quantity,
-        status: "PENDING",
-        createdAt: new Date(),
-      });
-    }
-
-    return shipmentId;
-  }
-
-  /**
-   * Generate shipping label
-   */
-  static async generateLabel(shipmentId: string): Promise<string> {
-    const labelId = ulid();
-
-    // In production, this would call 3PL API to generate label
-    const labelUrl = `https://storage.example.com/labels/${labelId}.pdf`;
-
-    await db.insert(shippingLabels).values({
-      id: labelId,
-      shipmentId,
-      labelUrl,
-      format: "PDF",
-      createdAt: new Date(),
-    });
-
-    await db
-      .update(shipments)
-      .set({
-        status: "LABELED",
-        updatedAt: new Date(),
-      })
-      .where(eq(shipments.id, shipmentId));
-
-    return labelUrl;
-  }
-
+export class ThreePLAdapter extends ThreePLShipments {
   /**
    * Process tracking event
    */
@@ -1198,35 +1145,49 @@ export class OversellProtection {
   }
 
   /**
-   * Reserve inventory with atomic locks
+   * Hold a cart's items for checkout in one transaction with the stock rows
+   * locked. Calling again for the same cart returns its existing hold.
    */
   static async reserveInventoryAtomic(
     items: Array<{ productId: string; quantity: number }>,
     warehouseId: string,
-    orderId: string
-  ): Promise<boolean> {
-    try {
-      // Start transaction
-      // In production, use db.transaction()
-
-      for (const item of items) {
-        // Allocate from lots
-        const allocations = await InventoryLotManager.allocateInventory(
-          item.productId,
-          warehouseId,
-          item.quantity,
-          "FIFO"
-        );
-
-        // Reserve from lots
-        await InventoryLotManager.reserveFromLots(allocations, orderId);
-      }
+    cartId: string,
+    options: { orderId?: string; ttlMs?: number } = {}
+  ): Promise<ReservationResult> {
+    return reserveCart(await this.getReservationStore(), {
+      cartId,
+      warehouseId,
+      items,
+      orderId: options.orderId,
+      ttlMs: options.ttlMs,
+    });
+  }
 
-      return true;
-    } catch (error) {
-      console.error("Failed to reserve inventory:", error);
-      return false;
-    }
+  /**
+   * Give a cart's held stock back
+   */
+  static async releaseCartReservation(cartId: string): Promise<number> {
+    return releaseCart(await this.getReservationStore(), cartId);
+  }
+
+  /**
+   * Convert a cart's hold into sold stock once the order is placed
+   */
+  static async completeCartReservation(cartId: string, orderId: string): Promise<CartHold[]> {
+    return completeCart(await this.getReservationStore(), cartId, orderId);
+  }
+
+  /**
+   * Release holds abandoned past their TTL
+   */
+  static async releaseExpiredReservations(): Promise<number> {
+    return releaseExpiredHolds(await this.getReservationStore());
+  }
+
+  private static async getReservationStore() {
+    const database = await getDb();
+    if (!database) throw new Error("Database not available");
+    return createDbReservationStore(database);
   }
 }
 
@@ -0,0 +1,265 @@
+import { describe, it, expect } from "vitest";
+import {
+  LedgerService,
+  buildTrialBalance,
+  diffTrialBalances,
+  getFxAdjustmentAccounts,
+  getLedgerPeriod,
+  getLedgerPeriodEnd,
+  getMatchGroupKey,
+  planFxRevaluation,
+  planReconciliationMatches,
+  validateLedgerEntryRow,
+} from "./lsn-financial-operations";
+import { createFixedRateSource } from "./multi-currency";
+
+let nextId = 0;
+function entry(
+  debitAccount: string,
+  creditAccount: string,
+  amountCents: number,
+  currency = "AUD"
+) {
+  return { id: `entry-${++nextId}`, debitAccount, creditAccount, amountCents, currency };
+}
+
+// Foreign-currency row booked at fxRate AUD per unit
+function fxEntry(debitAccount: string, creditAccount: string, amountCents: number, currency: string, fxRate: number) {
+  return {
+    ...entry(debitAccount, creditAccount, amountCents, currency),
+    fxRate,
+    baseCurrency: "AUD",
+    baseAmountCents: Math.round(amountCents * fxRate),
+  };
+}
+
+const day = (n: number, hour = 12) => new Date(Date.UTC(2026, 2, n, hour));
+
+function txn(id: string, netCents: number, date: Date, refs: string[] = []) {
+  return { id, netCents, currency: "AUD", txnDate: date, refs };
+}
+
+function cashEntry(id: string, cashCents: number, date: Date, refId: string | null = null) {
+  return { id, cashCents, currency: "AUD", postedAt: date, refId };
+}
+
+describe("LSN Ledger", () => {
+  describe("Trial Balance", () => {
+    it("should balance a sale, fee and commission", () => {
+      const tb = buildTrialBalance([
+        entry("CASH", "REVENUE", 9700),
+        entry("FEES", "CASH", 300),
+        entry("FEES", "PAYABLE_CREATOR", 1000),
+      ]);
+
+      const balance = (account: string) =>
+        tb.lines.find((line) => line.account === account && line.currency === "AUD")?.balanceCents;
+
+      expect(tb.isBalanced).toBe(true);
+      expect(tb.totals.AUD).toEqual({ debitCents: 11000, creditCents: 11000 });
+      expect(balance("CASH")).toBe(9400);
+      expect(balance("REVENUE")).toBe(9700);
+      expect(balance("FEES")).toBe(1300);
+      expect(balance("PAYABLE_CREATOR")).toBe(1000);
+      expect(balance("RESERVES")).toBe(0);
+    });
+
+    it("should report each currency separately", () => {
+      const tb = buildTrialBalance([
+        entry("CASH", "REVENUE", 5000, "AUD"),
+        entry("CASH", "REVENUE", 2000, "USD"),
+      ]);
+
+      expect(Object.keys(tb.totals)).toEqual(["AUD", "USD"]);
+      expect(tb.totals.USD.debitCents).toBe(2000);
+    });
+
+    it("should not balance when a posting hits an unknown account", () => {
+      const tb = buildTrialBalance([entry("CASH", "SUSPENSE", 5000)]);
+
+      expect(tb.isBalanced).toBe(false);
+    });
+
+    it("should list the lines that changed since a period was closed", () => {
+      const atClose = buildTrialBalance([entry("CASH", "REVENUE", 5000)]);
+      const now = buildTrialBalance([
+        entry("CASH", "REVENUE", 5000),
+        entry("REFUNDS", "CASH", 500),
+      ]);
+
+      expect(diffTrialBalances(atClose, atClose)).toEqual([]);
+      expect(diffTrialBalances(atClose, now)).toEqual(["CASH:AUD", "REFUNDS:AUD"]);
+    });
+  });
+
+  describe("Periods", () => {
+    it("should use UTC months", () => {
+      expect(getLedgerPeriod(new Date("2026-01-31T23:59:59Z"))).toBe("2026-01");
+      expect(getLedgerPeriod(new Date("2026-02-01T00:00:00Z"))).toBe("2026-02");
+    });
+
+    it("should end a period at the start of the next month", () => {
+      expect(getLedgerPeriodEnd("2026-02").toISOString()).toBe("2026-03-01T00:00:00.000Z");
+      expect(getLedgerPeriodEnd("2026-12").toISOString()).toBe("2027-01-01T00:00:00.000Z");
+      expect(() => getLedgerPeriodEnd("2026-13")).toThrow(/invalid/i);
+    });
+  });
+
+  describe("Entry validation", () => {
+    it("should accept a valid posting", () => {
+      expect(validateLedgerEntryRow(entry("CASH", "REVENUE", 100))).toEqual([]);
+    });
+
+    it("should flag postings that break double-entry rules", () => {
+      expect(validateLedgerEntryRow(entry("CASH", "CASH", 100))).toHaveLength(1);
+      expect(validateLedgerEntryRow(entry("CASH", "REVENUE", 0))).toHaveLength(1);
+      expect(
+        validateLedgerEntryRow({
+          ...entry("CASH", "REVENUE", 1000, "USD"),
+          fxRate: "1.5",
+          baseCurrency: "AUD",
+          baseAmountCents: 1400,
+        })
+      ).toEqual(["Base amount 1400 does not match FX rate (expected 1500)"]);
+    });
+  });
+
+  describe("FX", () => {
+    it("should cross rates from a fixed table", async () => {
+      const rates = createFixedRateSource({ AUD: 1.5, GBP: 0.75 });
+
+      expect(await rates.getRate("USD", "AUD")).toBe(1.5);
+      expect(await rates.getRate("GBP", "AUD")).toBe(2);
+      await expect(rates.getRate("USD", "XYZ")).rejects.toThrow(/no exchange rate/i);
+    });
+
+    it("should convert rows without a base amount through the rate source", async () => {
+      const ledger = new LedgerService(createFixedRateSource({ AUD: 1.5 }));
+      const row = { ...entry("CASH", "REVENUE", 1000, "USD"), postedAt: new Date() };
+
+      expect(await ledger.toBase(row)).toBe(1500);
+      expect(await ledger.toBase({ ...fxEntry("CASH", "REVENUE", 1000, "USD", 1.4), postedAt: new Date() })).toBe(1400);
+    });
+
+    it("should revalue open foreign receivables and payables at month end", () => {
+      const lines = planFxRevaluation(
+        [
+          fxEntry("RECEIVABLE", "REVENUE", 10000, "USD", 1.5),
+          fxEntry("CASH", "RECEIVABLE", 4000, "USD", 1.5),
+          fxEntry("FEES", "PAYABLE_CREATOR", 2000, "GBP", 1.9),
+          entry("RECEIVABLE", "REVENUE", 5000, "AUD"),
+        ],
+        "AUD",
+        { USD: 1.6, GBP: 1.8 }
+      );
+
+      expect(lines).toEqual([
+        {
+          account: "RECEIVABLE",
+          currency: "USD",
+          rate: 1.6,
+          foreignBalanceCents: 6000,
+          carriedBaseCents: 9000,
+          revaluedBaseCents: 9600,
+          differenceCents: 600,
+        },
+        {
+          account: "PAYABLE_CREATOR",
+          currency: "GBP",
+          rate: 1.8,
+          foreignBalanceCents: 2000,
+          carriedBaseCents: 3800,
+          revaluedBaseCents: 3600,
+          differenceCents: -200,
+        },
+      ]);
+    });
+
+    it("should book gains and losses against the right side", () => {
+      // Receivable worth more, payable worth less: both gains
+      expect(getFxAdjustmentAccounts("RECEIVABLE", 600)).toEqual({
+        debitAccount: "RECEIVABLE",
+        creditAccount: "FX_GAIN",
+        entryType: "FX_GAIN",
+      });
+      expect(getFxAdjustmentAccounts("PAYABLE_CREATOR", -200)).toEqual({
+        debitAccount: "PAYABLE_CREATOR",
+        creditAccount: "FX_GAIN",
+        entryType: "FX_GAIN",
+      });
+      // Paying out more base currency than the payable was booked at is a loss
+      expect(getFxAdjustmentAccounts("PAYABLE_CREATOR", 150)).toEqual({
+        debitAccount: "FX_LOSS",
+        creditAccount: "PAYABLE_CREATOR",
+        entryType: "FX_LOSS",
+      });
+    });
+  });
+
+  describe("Reconciliation matching", () => {
+    it("should match a sale by reference with full confidence", () => {
+      const [match] = planReconciliationMatches(
+        [txn("t1", 9700, day(1), ["order-1"])],
+        [cashEntry("e1", 9700, day(1), "order-1"), cashEntry("e2", 9700, day(1))]
+      );
+
+      expect(match).toMatchObject({ kind: "ONE_TO_ONE", ledgerEntryIds: ["e1"], confidence: 100 });
+    });
+
+    it("should group a batched payout and leave it as a suggestion", () => {
+      const matches = planReconciliationMatches(
+        [txn("t1", -30000, day(5))],
+        [
+          cashEntry("e1", -10000, day(5), "payout-1"),
+          cashEntry("e2", -12000, day(5), "payout-2"),
+          cashEntry("e3", -8000, day(4), "payout-3"),
+          cashEntry("e4", -5000, day(5), "payout-4"),
+        ]
+      );
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].kind).toBe("ONE_TO_MANY");
+      expect([...matches[0].ledgerEntryIds].sort()).toEqual(["e1", "e2", "e3"]);
+      expect(matches[0].confidence).toBeLessThan(90);
+    });
+
+    it("should combine split captures against one sale", () => {
+      const [match] = planReconciliationMatches(
+        [txn("t1", 3000, day(2), ["order-7"]), txn("t2", 2000, day(2), ["order-7"])],
+        [cashEntry("e1", 5000, day(2), "order-7")]
+      );
+
+      expect(match).toMatchObject({ kind: "MANY_TO_ONE", discrepancyCents: 0 });
+      expect(match.confidence).toBeGreaterThanOrEqual(90);
+    });
+
+    it("should allow FX rounding and stay within the date window", () => {
+      const [rounded] = planReconciliationMatches(
+        [txn("t1", 10003, day(1), ["order-1"])],
+        [cashEntry("e1", 10000, day(2), "order-1")]
+      );
+      expect(rounded.discrepancyCents).toBe(3);
+      expect(rounded.confidence).toBeGreaterThan(70);
+
+      expect(
+        planReconciliationMatches([txn("t1", 10000, day(1))], [cashEntry("e1", 10000, day(9))])
+      ).toEqual([]);
+      expect(
+        planReconciliationMatches([txn("t1", 10000, day(1))], [cashEntry("e1", 12000, day(1))])
+      ).toEqual([]);
+    });
+
+    it("should mark ties as ambiguous and skip dismissed groupings", () => {
+      const txns = [txn("t1", 4500, day(3))];
+      const entries = [cashEntry("e1", 4500, day(3)), cashEntry("e2", 4500, day(3))];
+
+      const [tie] = planReconciliationMatches(txns, entries);
+      expect(tie.confidence).toBeLessThan(90);
+      expect(tie.reasons).toContain("Another grouping fits about as well");
+
+      const dismissed = new Set([getMatchGroupKey(["t1"], tie.ledgerEntryIds)]);
+      const [other] = planReconciliationMatches(txns, entries, {}, dismissed);
+      expect(other.ledgerEntryIds).not.toEqual(tie.ledgerEntryIds);
+    });
+  });
+});
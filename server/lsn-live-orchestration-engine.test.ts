@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({ getDb: vi.fn() }));
+
+import { getDb } from "./db";
+import {
+  LiveShowOrchestrator,
+  fromCheckpointRow,
+  planRestore,
+  toCheckpointRow,
+  type OrchestratorCheckpoint,
+} from "./lsn-live-orchestration-engine";
+
+const now = new Date("2026-03-01T18:30:00Z");
+
+function makeCheckpoint(overrides: Partial<OrchestratorCheckpoint> = {}): OrchestratorCheckpoint {
+  return {
+    showId: "show-1",
+    channelId: "channel-1",
+    creatorId: "creator-1",
+    status: "LIVE",
+    lastTransition: "PRODUCT_PINNED",
+    currentSegmentId: "segment-2",
+    segmentStartedAt: new Date("2026-03-01T18:20:00Z"),
+    viewerCount: 42,
+    pinnedProducts: [
+      { productId: "expired", unpinAt: "2026-03-01T18:29:00Z" },
+      { productId: "timed", unpinAt: "2026-03-01T18:35:00Z" },
+      { productId: "open", unpinAt: null },
+    ],
+    activePriceDrops: [{ dropId: "drop-1", productId: "timed", endsAt: "2026-03-01T18:35:00Z" }],
+    ...overrides,
+  };
+}
+
+describe("Live Show Orchestrator", () => {
+  describe("checkpoint rows", () => {
+    it("round-trips a checkpoint through its row", () => {
+      const checkpoint = makeCheckpoint();
+      const row = { ...toCheckpointRow(checkpoint), version: 3, updatedAt: now };
+
+      expect(fromCheckpointRow(row as Parameters<typeof fromCheckpointRow>[0])).toEqual(checkpoint);
+    });
+
+    it("reads legacy status spellings back as orchestrator statuses", () => {
+      const row = { ...toCheckpointRow(makeCheckpoint()), status: "ended", version: 1, updatedAt: now };
+
+      expect(fromCheckpointRow(row as Parameters<typeof fromCheckpointRow>[0]).status).toBe("POST_LIVE");
+    });
+  });
+
+  describe("planRestore", () => {
+    it("closes pins that expired while down and re-arms the rest", () => {
+      const plan = planRestore(makeCheckpoint(), now);
+
+      expect(plan.expiredPins).toEqual(["expired"]);
+      expect(plan.pins).toEqual([
+        { productId: "timed", unpinAt: new Date("2026-03-01T18:35:00Z") },
+        { productId: "open", unpinAt: null },
+      ]);
+    });
+
+    it("restarts metrics and countdowns for a live show", () => {
+      expect(planRestore(makeCheckpoint({ status: "LIVE" }), now)).toMatchObject({
+        startMetrics: true,
+        startCountdowns: true,
+      });
+    });
+
+    it("restarts metrics but not countdowns before going live", () => {
+      expect(planRestore(makeCheckpoint({ status: "PRE_LIVE" }), now)).toMatchObject({
+        startMetrics: true,
+        startCountdowns: false,
+      });
+    });
+
+    it("leaves a paused show idle until it resumes", () => {
+      expect(planRestore(makeCheckpoint({ status: "PAUSED" }), now)).toMatchObject({
+        startMetrics: false,
+        startCountdowns: false,
+      });
+    });
+  });
+
+  describe("checkpoint writes", () => {
+    beforeEach(() => {
+      vi.mocked(getDb).mockReset();
+    });
+
+    it("throws with the transition and show when the write fails", async () => {
+      const onDuplicateKeyUpdate = vi.fn().mockRejectedValue(new Error("Lock wait timeout exceeded"));
+      vi.mocked(getDb).mockResolvedValue({
+        insert: () => ({ values: () => ({ onDuplicateKeyUpdate }) }),
+      } as unknown as Awaited<ReturnType<typeof getDb>>);
+
+      const orchestrator = new LiveShowOrchestrator("show-1", "channel-1", "creator-1");
+      const checkpoint = (orchestrator as unknown as { checkpoint(transition: string): Promise<void> }).checkpoint;
+
+      await expect(checkpoint.call(orchestrator, "SHOW_PAUSED")).rejects.toThrow(
+        "Checkpoint SHOW_PAUSED failed for show show-1: Lock wait timeout exceeded"
+      );
+      orchestrator.dispose();
+    });
+
+    it("throws when there is no database", async () => {
+      vi.mocked(getDb).mockResolvedValue(null);
+
+      const orchestrator = new LiveShowOrchestrator("show-1", "channel-1", "creator-1");
+      const checkpoint = (orchestrator as unknown as { checkpoint(transition: string): Promise<void> }).checkpoint;
+
+      await expect(checkpoint.call(orchestrator, "WENT_LIVE")).rejects.toThrow(
+        "Checkpoint WENT_LIVE failed for show show-1: Database not available"
+      );
+      orchestrator.dispose();
+    });
+  });
+});
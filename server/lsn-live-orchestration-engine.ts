@@ -1,6 +1,6 @@
 /**
  * LSN LIVE ORCHESTRATION ENGINE V1
- * 
+ *
  * Complete live shopping orchestration system with:
  * - Live show state machine (SCHEDULED → PRE_LIVE → LIVE → POST_LIVE → ARCHIVED)
  * - Product pinning with real-time sync
@@ -16,40 +16,73 @@
  * - Viewer engagement metrics
  * - Purchase attribution during live
  * - Automated post-show workflows
+ * - Crash-safe checkpoints with resumable shows
+ * - Runbook price drops on timestamp, viewer threshold or countdown, with
+ *   sell-out and stock-buffer auto-stop
+ *
+ * A show is a live_sessions row, shared with the show runner. Pins, segments
+ * and highlights live in pinned_products, live_show_segments and
+ * live_highlights; purchases are attributed through orders.live_session_id.
+ * Totals live_sessions has no column for are kept in its metadata.
  */
 
-import { db } from "./db.js";
-import { 
-  liveShows, 
-  showSegments, 
-  pinnedProducts, 
-  priceDrops, 
-  showHighlights,
-  showViewers,
-  showPurchases,
+import { getDb } from "./db";
+import {
+  liveSessions,
+  liveShowSegments,
+  pinnedProducts,
+  liveHighlights,
   creators,
   products,
   inventory,
+  inventoryReservations,
   orders,
-  orderItems
-} from "../drizzle/schema.js";
-import { eq, and, gte, lte, desc, sql } from "drizzle-orm";
+  orderItems,
+  liveShowCheckpoints,
+} from "../drizzle/schema";
+import { eq, and, gte, desc, asc, inArray, isNull, sql } from "drizzle-orm";
 import { ulid } from "ulid";
+import {
+  showLifecycle,
+  normalizeShowStatus,
+  toOrchestratorStatus,
+  toSessionStatus,
+  type GoLiveClearance,
+  type OrchestratorShowStatus,
+  type ShowLifecycleTrigger,
+  type ShowTransitionContext,
+} from "./live-show-state-machine";
+import {
+  onPriceDropEvent,
+  type PriceDropEndReason,
+  type PriceDropEvent,
+  type PriceDropTrigger,
+} from "./live-price-drop-scheduler";
+import {
+  DEFAULT_STOCK_BUFFER,
+  endPriceDrop,
+  endShowPriceDrops,
+  getActivePriceDrops,
+  getAvailableStock,
+  priceDropScheduler,
+  programPriceDrops,
+  recordPriceDropSale,
+  resumePriceDrops,
+  startPriceDrop,
+  toCents,
+  toDecimalPrice,
+  type PriceDropConfig,
+} from "./live-price-drops";
+
+export type { PriceDropConfig };
 
 // ============================================================================
 // TYPES & ENUMS
 // ============================================================================
 
-export type ShowStatus = 
-  | "SCHEDULED"
-  | "PRE_LIVE" 
-  | "LIVE"
-  | "PAUSED"
-  | "POST_LIVE"
-  | "ARCHIVED"
-  | "CANCELLED";
+export type ShowStatus = OrchestratorShowStatus;
 
-export type SegmentType = 
+export type SegmentType =
   | "INTRO"
   | "PRODUCT_DEMO"
   | "PRICE_DROP"
@@ -58,7 +91,7 @@ export type SegmentType =
   | "OUTRO"
   | "FILLER";
 
-export type HighlightType = 
+export type HighlightType =
   | "VIRAL_MOMENT"
   | "PRODUCT_DEMO"
   | "TESTIMONIAL"
@@ -95,16 +128,6 @@ export interface PinnedProductConfig {
   urgencyMessage?: string;
 }
 
-export interface PriceDropConfig {
-  productId: string;
-  originalPrice: number;
-  dropPrice: number;
-  startTime: Date;
-  durationMinutes: number;
-  stockLimit?: number;
-  countdownDisplay: boolean;
-}
-
 export interface ContingencyScript {
   trigger: string;
   action: string;
@@ -136,6 +159,111 @@ export interface LiveShowMetrics {
   }>;
 }
 
+export interface OrchestratorCheckpoint {
+  showId: string;
+  channelId: string;
+  creatorId: string;
+  status: ShowStatus;
+  lastTransition: string;
+  currentSegmentId: string | null;
+  segmentStartedAt: Date | null;
+  viewerCount: number;
+  pinnedProducts: Array<{ productId: string; unpinAt: string | null }>;
+  activePriceDrops: Array<{ dropId: string; productId: string; endsAt: string }>;
+}
+
+/**
+ * What restoring a checkpoint has to do at a given moment
+ */
+export interface RestorePlan {
+  // Pins whose unpin time passed while the process was down
+  expiredPins: string[];
+  // Pins to hold again, with the time to unpin them (null = until removed)
+  pins: Array<{ productId: string; unpinAt: Date | null }>;
+  // Metrics run while the show is being prepared or on air, not while paused
+  startMetrics: boolean;
+  startCountdowns: boolean;
+}
+
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type ShowRow = typeof liveSessions.$inferSelect;
+type CheckpointRow = typeof liveShowCheckpoints.$inferSelect;
+
+interface ShowMetadata {
+  scheduledEndAt?: string;
+  peakViewerCount?: number;
+  totalViews?: number;
+  totalRevenueCents?: number;
+  totalOrders?: number;
+  conversionRate?: number;
+  avgOrderValueCents?: number;
+  runbook?: Pick<ShowRunbook, "pinnedProducts" | "contingencyScripts" | "targetMetrics">;
+}
+
+interface PinMetadata {
+  sortOrder?: number;
+  originalPriceCents?: number;
+  stockLimit?: number;
+  urgencyMessage?: string;
+}
+
+const TERMINAL_SHOW_STATUSES: ShowStatus[] = ["POST_LIVE", "ARCHIVED", "CANCELLED"];
+
+// ============================================================================
+// CHECKPOINTS
+// ============================================================================
+
+export function toCheckpointRow(state: OrchestratorCheckpoint): typeof liveShowCheckpoints.$inferInsert {
+  return {
+    showId: state.showId,
+    channelId: state.channelId,
+    creatorId: state.creatorId,
+    status: state.status,
+    lastTransition: state.lastTransition,
+    currentSegmentId: state.currentSegmentId,
+    segmentStartedAt: state.segmentStartedAt,
+    viewerCount: state.viewerCount,
+    pinnedProducts: state.pinnedProducts,
+    activePriceDrops: state.activePriceDrops,
+  };
+}
+
+export function fromCheckpointRow(row: CheckpointRow): OrchestratorCheckpoint {
+  return {
+    showId: row.showId,
+    channelId: row.channelId,
+    creatorId: row.creatorId,
+    status: toOrchestratorStatus(normalizeShowStatus(row.status)),
+    lastTransition: row.lastTransition,
+    currentSegmentId: row.currentSegmentId,
+    segmentStartedAt: row.segmentStartedAt ? new Date(row.segmentStartedAt) : null,
+    viewerCount: row.viewerCount,
+    pinnedProducts: row.pinnedProducts || [],
+    activePriceDrops: row.activePriceDrops || [],
+  };
+}
+
+export function planRestore(checkpoint: OrchestratorCheckpoint, now: Date = new Date()): RestorePlan {
+  const expiredPins: string[] = [];
+  const pins: RestorePlan["pins"] = [];
+
+  for (const pin of checkpoint.pinnedProducts) {
+    const unpinAt = pin.unpinAt ? new Date(pin.unpinAt) : null;
+    if (unpinAt && unpinAt.getTime() <= now.getTime()) {
+      expiredPins.push(pin.productId);
+    } else {
+      pins.push({ productId: pin.productId, unpinAt });
+    }
+  }
+
+  return {
+    expiredPins,
+    pins,
+    startMetrics: checkpoint.status === "PRE_LIVE" || checkpoint.status === "LIVE",
+    startCountdowns: checkpoint.status === "LIVE",
+  };
+}
+
 // ============================================================================
 // LIVE SHOW ORCHESTRATOR
 // ============================================================================
@@ -144,79 +272,194 @@ export class LiveShowOrchestrator {
   private showId: string;
   private channelId: string;
   private creatorId: string;
+  private status: ShowStatus = "SCHEDULED";
   private viewerCount: number = 0;
   private currentSegmentId: string | null = null;
-  private activePinnedProducts: Set<string> = new Set();
-  private activePriceDrops: Map<string, NodeJS.Timeout> = new Map();
+  private segmentStartedAt: Date | null = null;
+  // productId -> scheduled unpin time (null = pinned until manually removed)
+  private activePinnedProducts: Map<string, Date | null> = new Map();
+  private pinTimers: Map<string, NodeJS.Timeout> = new Map();
+  private priceDropDeadlines: Map<string, { productId: string; endsAt: Date }> = new Map();
+  // Products pinned only for a running drop; the pin goes when the drop ends
+  private dropPins: Set<string> = new Set();
   private metricsInterval: NodeJS.Timeout | null = null;
+  private unsubscribePriceDrops: () => void;
 
   constructor(showId: string, channelId: string, creatorId: string) {
     this.showId = showId;
     this.channelId = channelId;
     this.creatorId = creatorId;
+    // Drops can also start from a runbook trigger or end on sell-out, so
+    // the checkpoint follows the drop events rather than our own calls
+    this.unsubscribePriceDrops = onPriceDropEvent((event) => this.handlePriceDropEvent(event));
+  }
+
+  /**
+   * Rebuild an orchestrator from its last checkpoint after a process restart.
+   * Pins and price drops whose deadline passed while we were down are closed
+   * immediately; the rest get fresh timers for their remaining time.
+   */
+  static async restore(showId: string): Promise<LiveShowOrchestrator | null> {
+    const checkpoint = await loadCheckpoint(showId);
+    if (!checkpoint || TERMINAL_SHOW_STATUSES.includes(checkpoint.status)) {
+      return null;
+    }
+
+    const orchestrator = new LiveShowOrchestrator(
+      checkpoint.showId,
+      checkpoint.channelId,
+      checkpoint.creatorId
+    );
+    orchestrator.status = checkpoint.status;
+    orchestrator.viewerCount = checkpoint.viewerCount;
+    orchestrator.currentSegmentId = checkpoint.currentSegmentId;
+    orchestrator.segmentStartedAt = checkpoint.segmentStartedAt;
+
+    const plan = planRestore(checkpoint);
+    const closedByDrop = new Set<string>();
+
+    // Drops that expired while we were down end now; the rest are re-armed
+    await resumePriceDrops(showId);
+    const running = await getActivePriceDrops(showId);
+    for (const drop of checkpoint.activePriceDrops) {
+      const stillRunning = running.find((active) => active.dropId === drop.dropId);
+      if (stillRunning) {
+        orchestrator.priceDropDeadlines.set(drop.dropId, { productId: drop.productId, endsAt: stillRunning.endsAt });
+        orchestrator.dropPins.add(drop.productId);
+      } else {
+        // The drop pinned the product, so it goes with it
+        closedByDrop.add(drop.productId);
+      }
+    }
+
+    for (const pin of plan.pins) {
+      orchestrator.activePinnedProducts.set(pin.productId, pin.unpinAt);
+      if (pin.unpinAt) orchestrator.armUnpinTimer(pin.productId, pin.unpinAt);
+    }
+    for (const productId of new Set([...plan.expiredPins, ...closedByDrop])) {
+      orchestrator.activePinnedProducts.set(productId, null);
+      await orchestrator.unpinProduct(productId);
+    }
+
+    if (plan.startCountdowns) {
+      priceDropScheduler.startCountdowns(showId);
+    }
+    if (plan.startMetrics) {
+      orchestrator.startMetricsCollection();
+    }
+
+    await orchestrator.checkpoint("RESTORED");
+    await orchestrator.emitShowEvent("SHOW_RESTORED", {
+      showId: orchestrator.showId,
+      status: orchestrator.status,
+      currentSegmentId: orchestrator.currentSegmentId,
+      pinnedProducts: Array.from(orchestrator.activePinnedProducts.keys()),
+      activePriceDrops: Array.from(orchestrator.priceDropDeadlines.keys()),
+      timestamp: new Date(),
+    });
+
+    return orchestrator;
+  }
+
+  /**
+   * Snapshot of the in-memory state that is written on every transition
+   */
+  getCheckpoint(transition: string): OrchestratorCheckpoint {
+    return {
+      showId: this.showId,
+      channelId: this.channelId,
+      creatorId: this.creatorId,
+      status: this.status,
+      lastTransition: transition,
+      currentSegmentId: this.currentSegmentId,
+      segmentStartedAt: this.segmentStartedAt,
+      viewerCount: this.viewerCount,
+      pinnedProducts: Array.from(this.activePinnedProducts.entries()).map(
+        ([productId, unpinAt]) => ({
+          productId,
+          unpinAt: unpinAt ? unpinAt.toISOString() : null,
+        })
+      ),
+      activePriceDrops: Array.from(this.priceDropDeadlines.entries()).map(
+        ([dropId, drop]) => ({
+          dropId,
+          productId: drop.productId,
+          endsAt: drop.endsAt.toISOString(),
+        })
+      ),
+    };
+  }
+
+  /**
+   * Stop all timers without touching show state. Used when another
+   * orchestrator instance takes over the show.
+   */
+  dispose(): void {
+    for (const timeout of this.pinTimers.values()) clearTimeout(timeout);
+    this.pinTimers.clear();
+    this.stopMetricsCollection();
+    this.unsubscribePriceDrops();
   }
 
   /**
    * Initialize show - transition to PRE_LIVE
    */
   async initializeShow(): Promise<void> {
-    await db
-      .update(liveShows)
-      .set({
-        status: "PRE_LIVE",
-        actualStartTime: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(liveShows.id, this.showId));
-
-    // Load runbook and prepare segments
-    const show = await db.query.liveShows.findFirst({
-      where: eq(liveShows.id, this.showId),
-      with: {
-        segments: true,
-        pinnedProducts: true,
-        priceDrops: true,
-      },
-    });
+    await this.transitionLifecycle("PREPARE");
 
-    if (!show) throw new Error("Show not found");
+    const db = await requireDb();
+    await db
+      .update(liveSessions)
+      .set({ status: toSessionStatus("PRE_LIVE") })
+      .where(eq(liveSessions.id, this.showId));
 
     // Validate inventory for pinned products
     await this.validateInventory();
 
-    // Schedule price drops
-    await this.schedulePriceDrops();
+    // Arm runbook drops that have not fired yet
+    await resumePriceDrops(this.showId);
 
     // Start metrics collection
     this.startMetricsCollection();
+
+    this.status = "PRE_LIVE";
+    await this.checkpoint("INITIALIZED");
   }
 
   /**
    * Go live - transition to LIVE status
    */
-  async goLive(): Promise<void> {
+  async goLive(clearance: GoLiveClearance & { actorId?: string } = {}): Promise<void> {
+    await this.transitionLifecycle("GO_LIVE", clearance);
+
+    const db = await requireDb();
     await db
-      .update(liveShows)
-      .set({
-        status: "LIVE",
-        actualStartTime: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(liveShows.id, this.showId));
+      .update(liveSessions)
+      .set({ status: toSessionStatus("LIVE"), startedAt: new Date() })
+      .where(eq(liveSessions.id, this.showId));
 
     // Activate first segment
-    const segments = await db.query.showSegments.findMany({
-      where: eq(showSegments.showId, this.showId),
-      orderBy: [showSegments.order],
-    });
-
-    if (segments.length > 0) {
-      await this.activateSegment(segments[0].id);
+    const [firstSegment] = await db
+      .select({ id: liveShowSegments.id })
+      .from(liveShowSegments)
+      .where(and(eq(liveShowSegments.liveSessionId, this.showId), isNull(liveShowSegments.actualStartedAt)))
+      .orderBy(asc(liveShowSegments.startOffsetSeconds))
+      .limit(1);
+
+    if (firstSegment) {
+      await this.activateSegment(firstSegment.id);
     }
 
     // Start pinning products
     await this.updatePinnedProducts();
 
+    // Runbook countdowns run from the moment the show goes live
+    priceDropScheduler.startCountdowns(this.showId);
+    this.startMetricsCollection();
+
+    this.status = "LIVE";
+    await this.checkpoint("WENT_LIVE");
+
     // Emit live event
     await this.emitShowEvent("SHOW_STARTED", {
       showId: this.showId,
@@ -238,32 +481,44 @@ export class LiveShowOrchestrator {
       durationMinutes?: number;
     } = {}
   ): Promise<void> {
-    const pinId = ulid();
+    const db = await requireDb();
     const now = new Date();
     const endTime = options.durationMinutes
       ? new Date(now.getTime() + options.durationMinutes * 60000)
       : null;
 
-    await db.insert(pinnedProducts).values({
-      id: pinId,
-      showId: this.showId,
-      productId,
-      priority: options.priority || 0,
-      priceOverride: options.priceOverride,
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.id, productId), eq(products.channelId, this.channelId)))
+      .limit(1);
+
+    if (!product) throw new Error("Product not found");
+
+    // Re-pinning replaces the product's current pin
+    await db
+      .update(pinnedProducts)
+      .set({ isActive: false, unpinnedAt: now })
+      .where(activePin(this.showId, productId));
+
+    const metadata: PinMetadata = {
+      sortOrder: options.priority || 0,
+      originalPriceCents: toCents(product.price),
       stockLimit: options.stockLimit,
       urgencyMessage: options.urgencyMessage,
+    };
+    await db.insert(pinnedProducts).values({
+      id: ulid(),
+      liveSessionId: this.showId,
+      productId,
+      livePrice: options.priceOverride != null ? toDecimalPrice(Math.round(options.priceOverride * 100)) : product.price,
+      isActive: true,
       pinnedAt: now,
-      unpinnedAt: endTime,
-      status: "active",
-      createdAt: now,
+      metadata,
     });
 
-    this.activePinnedProducts.add(productId);
-
-    // Get product details and current stock
-    const product = await db.query.products.findFirst({
-      where: eq(products.id, productId),
-    });
+    this.activePinnedProducts.set(productId, endTime);
+    await this.checkpoint("PRODUCT_PINNED");
 
     const stockData = await this.getProductStock(productId);
 
@@ -271,8 +526,8 @@ export class LiveShowOrchestrator {
     await this.emitShowEvent("PRODUCT_PINNED", {
       showId: this.showId,
       productId,
-      productName: product?.name,
-      price: options.priceOverride || product?.price,
+      productName: product.name,
+      price: options.priceOverride ?? Number(product.price),
       stock: stockData.available,
       urgencyMessage: options.urgencyMessage,
       timestamp: now,
@@ -280,9 +535,7 @@ export class LiveShowOrchestrator {
 
     // Auto-unpin if duration specified
     if (endTime) {
-      setTimeout(() => {
-        this.unpinProduct(productId);
-      }, options.durationMinutes! * 60000);
+      this.armUnpinTimer(productId, endTime);
     }
   }
 
@@ -290,21 +543,20 @@ export class LiveShowOrchestrator {
    * Unpin product from show
    */
   async unpinProduct(productId: string): Promise<void> {
+    const db = await requireDb();
     await db
       .update(pinnedProducts)
-      .set({
-        status: "inactive",
-        unpinnedAt: new Date(),
-      })
-      .where(
-        and(
-          eq(pinnedProducts.showId, this.showId),
-          eq(pinnedProducts.productId, productId),
-          eq(pinnedProducts.status, "active")
-        )
-      );
+      .set({ isActive: false, unpinnedAt: new Date() })
+      .where(activePin(this.showId, productId));
 
     this.activePinnedProducts.delete(productId);
+    this.dropPins.delete(productId);
+    const pinTimer = this.pinTimers.get(productId);
+    if (pinTimer) {
+      clearTimeout(pinTimer);
+      this.pinTimers.delete(productId);
+    }
+    await this.checkpoint("PRODUCT_UNPINNED");
 
     await this.emitShowEvent("PRODUCT_UNPINNED", {
       showId: this.showId,
@@ -314,7 +566,8 @@ export class LiveShowOrchestrator {
   }
 
   /**
-   * Execute price drop
+   * Execute price drop. A product that is not pinned yet is pinned for the
+   * length of the drop.
    */
   async executePriceDrop(
     productId: string,
@@ -322,102 +575,76 @@ export class LiveShowOrchestrator {
     durationMinutes: number,
     options: {
       stockLimit?: number;
-      countdownDisplay?: boolean;
+      stockBuffer?: number;
+      trigger?: PriceDropTrigger;
     } = {}
   ): Promise<void> {
-    const dropId = ulid();
-    const now = new Date();
-    const endTime = new Date(now.getTime() + durationMinutes * 60000);
-
-    // Get original price
-    const product = await db.query.products.findFirst({
-      where: eq(products.id, productId),
-    });
-
-    if (!product) throw new Error("Product not found");
-
-    await db.insert(priceDrops).values({
-      id: dropId,
-      showId: this.showId,
-      productId,
-      originalPrice: product.price,
-      dropPrice: dropPrice.toString(),
-      startTime: now,
-      endTime,
-      stockLimit: options.stockLimit,
-      countdownDisplay: options.countdownDisplay || true,
-      status: "active",
-      unitsSold: 0,
-      createdAt: now,
-    });
+    const pinnedForDrop = !this.activePinnedProducts.has(productId);
+    if (pinnedForDrop) {
+      await this.pinProduct(productId, {
+        urgencyMessage: `⚡ PRICE DROP! ${durationMinutes} minutes only!`,
+        durationMinutes,
+      });
+      this.dropPins.add(productId);
+    }
 
-    // Pin product with price override
-    await this.pinProduct(productId, {
-      priceOverride: dropPrice,
-      stockLimit: options.stockLimit,
-      urgencyMessage: `⚡ PRICE DROP! ${durationMinutes} minutes only!`,
-      durationMinutes,
-    });
+    let drop;
+    try {
+      drop = await startPriceDrop({
+        channelId: this.channelId,
+        showId: this.showId,
+        productId,
+        dropPriceCents: Math.round(dropPrice * 100),
+        durationSeconds: Math.round(durationMinutes * 60),
+        maxQuantity: options.stockLimit,
+        stockBuffer: options.stockBuffer,
+        trigger: options.trigger,
+      });
+    } catch (error) {
+      if (pinnedForDrop) await this.unpinProduct(productId);
+      throw error;
+    }
 
-    // Emit price drop event
     await this.emitShowEvent("PRICE_DROP_STARTED", {
       showId: this.showId,
       productId,
-      productName: product.name,
-      originalPrice: product.price,
-      dropPrice,
-      savings: Number(product.price) - dropPrice,
-      savingsPercent: Math.round(((Number(product.price) - dropPrice) / Number(product.price)) * 100),
+      dropId: drop.dropId,
+      originalPriceCents: drop.originalPriceCents,
+      dropPriceCents: drop.dropPriceCents,
       durationMinutes,
       stockLimit: options.stockLimit,
-      timestamp: now,
+      timestamp: drop.startedAt,
     });
-
-    // Schedule price drop end
-    const timeout = setTimeout(async () => {
-      await this.endPriceDrop(dropId, productId);
-    }, durationMinutes * 60000);
-
-    this.activePriceDrops.set(dropId, timeout);
   }
 
   /**
-   * End price drop
+   * End price drop. A pin made for the drop is released with it.
    */
-  async endPriceDrop(dropId: string, productId: string): Promise<void> {
-    await db
-      .update(priceDrops)
-      .set({
-        status: "ended",
-        actualEndTime: new Date(),
-      })
-      .where(eq(priceDrops.id, dropId));
-
-    // Unpin product
-    await this.unpinProduct(productId);
-
-    // Clear timeout
-    const timeout = this.activePriceDrops.get(dropId);
-    if (timeout) {
-      clearTimeout(timeout);
-      this.activePriceDrops.delete(dropId);
-    }
-
-    // Get final stats
-    const drop = await db.query.priceDrops.findFirst({
-      where: eq(priceDrops.id, dropId),
-    });
+  async endPriceDrop(
+    dropId: string,
+    productId: string,
+    reason: PriceDropEndReason = "EXPIRED"
+  ): Promise<void> {
+    const drop = await endPriceDrop(this.showId, dropId, reason);
 
     await this.emitShowEvent("PRICE_DROP_ENDED", {
       showId: this.showId,
       productId,
       dropId,
-      unitsSold: drop?.unitsSold || 0,
-      revenue: (drop?.unitsSold || 0) * Number(drop?.dropPrice || 0),
+      reason,
+      unitsSold: drop?.quantitySold || 0,
+      revenueCents: drop?.revenueCents || 0,
       timestamp: new Date(),
     });
   }
 
+  /**
+   * Start a runbook countdown that waits for the host's cue
+   */
+  startPriceDropCountdown(programId: string): Date {
+    return priceDropScheduler.startCountdown(programId);
+  }
+
   /**
    * Mark highlight for clipping
    */
@@ -427,32 +654,27 @@ export class LiveShowOrchestrator {
     description: string,
     options: {
       productIds?: string[];
-      clipDurationSeconds?: number;
     } = {}
   ): Promise<string> {
+    const db = await requireDb();
     const highlightId = ulid();
     const now = new Date();
 
     // Calculate timestamp offset from show start
-    const show = await db.query.liveShows.findFirst({
-      where: eq(liveShows.id, this.showId),
-    });
-
-    const timestampOffset = show?.actualStartTime
-      ? Math.floor((now.getTime() - show.actualStartTime.getTime()) / 1000)
+    const show = await findShow(db, this.showId);
+    const timestampOffset = show?.startedAt
+      ? Math.max(0, Math.floor((now.getTime() - new Date(show.startedAt).getTime()) / 1000))
       : 0;
 
-    await db.insert(showHighlights).values({
+    await db.insert(liveHighlights).values({
       id: highlightId,
-      showId: this.showId,
+      channelId: this.channelId,
+      liveSessionId: this.showId,
+      timestampSeconds: timestampOffset,
       type,
       title,
       description,
-      timestampOffset,
-      clipDurationSeconds: options.clipDurationSeconds || 30,
-      productIds: options.productIds ? JSON.stringify(options.productIds) : null,
-      status: "pending",
-      createdAt: now,
+      productIds: options.productIds ?? null,
     });
 
     await this.emitShowEvent("HIGHLIGHT_MARKED", {
@@ -470,45 +692,33 @@ export class LiveShowOrchestrator {
   /**
    * Track viewer join
    */
-  async trackViewerJoin(userId: string, metadata: any = {}): Promise<void> {
-    const viewerId = ulid();
-
-    await db.insert(showViewers).values({
-      id: viewerId,
-      showId: this.showId,
-      userId,
-      joinedAt: new Date(),
-      metadata: JSON.stringify(metadata),
-    });
-
+  async trackViewerJoin(userId: string, metadata: Record<string, unknown> = {}): Promise<void> {
     this.viewerCount++;
 
+    await this.saveViewerCount((show) => ({
+      peakViewerCount: Math.max(show.peakViewerCount || 0, this.viewerCount),
+      totalViews: (show.totalViews || 0) + 1,
+    }));
+
     await this.emitShowEvent("VIEWER_JOINED", {
       showId: this.showId,
       userId,
+      metadata,
       viewerCount: this.viewerCount,
       timestamp: new Date(),
     });
+
+    await priceDropScheduler.handleViewerCount(this.showId, this.viewerCount);
   }
 
   /**
    * Track viewer leave
    */
   async trackViewerLeave(userId: string): Promise<void> {
-    await db
-      .update(showViewers)
-      .set({
-        leftAt: new Date(),
-      })
-      .where(
-        and(
-          eq(showViewers.showId, this.showId),
-          eq(showViewers.userId, userId)
-        )
-      );
-
     this.viewerCount = Math.max(0, this.viewerCount - 1);
 
+    await this.saveViewerCount(() => ({}));
+
     await this.emitShowEvent("VIEWER_LEFT", {
       showId: this.showId,
       userId,
@@ -521,57 +731,37 @@ export class LiveShowOrchestrator {
    * Track purchase during show
    */
   async trackPurchase(orderId: string, userId: string): Promise<void> {
-    const purchaseId = ulid();
-
-    // Get order details
-    const order = await db.query.orders.findFirst({
-      where: eq(orders.id, orderId),
-      with: {
-        items: {
-          with: {
-            product: true,
-          },
-        },
-      },
-    });
+    const db = await requireDb();
+
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.channelId, this.channelId)))
+      .limit(1);
 
     if (!order) return;
 
-    await db.insert(showPurchases).values({
-      id: purchaseId,
-      showId: this.showId,
-      orderId,
-      userId,
-      totalAmount: order.totalAmount,
-      createdAt: new Date(),
-    });
+    // Attribute the order to the show; metrics are read back from orders
+    if (order.liveSessionId !== this.showId) {
+      await db.update(orders).set({ liveSessionId: this.showId }).where(eq(orders.id, orderId));
+    }
 
-    // Update price drop stats if applicable
-    for (const item of order.items) {
-      const activeDrop = await db.query.priceDrops.findFirst({
-        where: and(
-          eq(priceDrops.showId, this.showId),
-          eq(priceDrops.productId, item.productId),
-          eq(priceDrops.status, "active")
-        ),
-      });
+    const items = await db
+      .select({ productId: orderItems.productId, quantity: orderItems.quantity })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
 
-      if (activeDrop) {
-        await db
-          .update(priceDrops)
-          .set({
-            unitsSold: sql`${priceDrops.unitsSold} + ${item.quantity}`,
-          })
-          .where(eq(priceDrops.id, activeDrop.id));
-      }
+    // Count units toward running price drops; a drop ends on sell-out
+    for (const item of items) {
+      await recordPriceDropSale(this.showId, item.productId, item.quantity);
     }
 
     await this.emitShowEvent("PURCHASE_MADE", {
       showId: this.showId,
       orderId,
       userId,
-      amount: order.totalAmount,
-      itemCount: order.items.length,
+      amount: order.totalAmount ?? order.total,
+      itemCount: items.length,
       timestamp: new Date(),
     });
   }
@@ -580,94 +770,86 @@ export class LiveShowOrchestrator {
    * Activate segment
    */
   async activateSegment(segmentId: string): Promise<void> {
+    const db = await requireDb();
+    const now = new Date();
+
     // Deactivate current segment
     if (this.currentSegmentId) {
       await db
-        .update(showSegments)
-        .set({
-          status: "completed",
-          actualEndTime: new Date(),
-        })
-        .where(eq(showSegments.id, this.currentSegmentId));
+        .update(liveShowSegments)
+        .set({ actualEndedAt: now })
+        .where(eq(liveShowSegments.id, this.currentSegmentId));
     }
 
     // Activate new segment
     await db
-      .update(showSegments)
-      .set({
-        status: "active",
-        actualStartTime: new Date(),
-      })
-      .where(eq(showSegments.id, segmentId));
+      .update(liveShowSegments)
+      .set({ actualStartedAt: now })
+      .where(and(eq(liveShowSegments.id, segmentId), eq(liveShowSegments.liveSessionId, this.showId)));
 
     this.currentSegmentId = segmentId;
+    this.segmentStartedAt = now;
+    await this.checkpoint("SEGMENT_STARTED");
 
-    const segment = await db.query.showSegments.findFirst({
-      where: eq(showSegments.id, segmentId),
-    });
+    const [segment] = await db
+      .select({ segmentType: liveShowSegments.segmentType, title: liveShowSegments.title })
+      .from(liveShowSegments)
+      .where(eq(liveShowSegments.id, segmentId))
+      .limit(1);
 
     await this.emitShowEvent("SEGMENT_STARTED", {
       showId: this.showId,
       segmentId,
-      segmentType: segment?.type,
+      segmentType: segment?.segmentType,
       segmentTitle: segment?.title,
-      timestamp: new Date(),
+      timestamp: now,
     });
   }
 
   /**
    * End show - transition to POST_LIVE
    */
-  async endShow(): Promise<void> {
-    // Clear all active price drops
-    for (const [dropId, timeout] of this.activePriceDrops) {
-      clearTimeout(timeout);
-      await db
-        .update(priceDrops)
-        .set({
-          status: "ended",
-          actualEndTime: new Date(),
-        })
-        .where(eq(priceDrops.id, dropId));
-    }
-    this.activePriceDrops.clear();
+  async endShow(actorId?: string): Promise<void> {
+    await this.transitionLifecycle("END", { actorId });
+
+    // Clear all active price drops and anything still programmed; the pins
+    // are released below, not by the drop-ended events
+    this.priceDropDeadlines.clear();
+    await endShowPriceDrops(this.showId);
 
     // Unpin all products
-    for (const productId of this.activePinnedProducts) {
+    for (const productId of Array.from(this.activePinnedProducts.keys())) {
       await this.unpinProduct(productId);
     }
 
-    // Stop metrics collection
-    if (this.metricsInterval) {
-      clearInterval(this.metricsInterval);
-      this.metricsInterval = null;
+    const db = await requireDb();
+    const endedAt = new Date();
+    if (this.currentSegmentId) {
+      await db
+        .update(liveShowSegments)
+        .set({ actualEndedAt: endedAt })
+        .where(and(eq(liveShowSegments.id, this.currentSegmentId), isNull(liveShowSegments.actualEndedAt)));
     }
 
-    // Update show status
-    await db
-      .update(liveShows)
-      .set({
-        status: "POST_LIVE",
-        actualEndTime: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(liveShows.id, this.showId));
+    // Stop metrics collection and pin timers
+    this.dispose();
+
+    this.status = "POST_LIVE";
+    await this.checkpoint("SHOW_ENDED");
+    activeOrchestrators.delete(this.showId);
 
     // Generate final metrics
     const metrics = await this.generateShowMetrics();
 
-    // Update show with metrics
-    await db
-      .update(liveShows)
-      .set({
-        peakViewers: metrics.peakViewers,
-        totalViewers: metrics.totalViewers,
-        totalOrders: metrics.totalOrders,
-        totalRevenue: metrics.totalRevenue.toString(),
-        conversionRate: metrics.conversionRate,
-        avgOrderValue: metrics.avgOrderValue.toString(),
-      })
-      .where(eq(liveShows.id, this.showId));
+    // Update show status and totals
+    await updateShowMetadata(db, this.showId, { status: toSessionStatus("ENDED"), endedAt }, () => ({
+      peakViewerCount: metrics.peakViewers,
+      totalViews: metrics.totalViewers,
+      totalOrders: metrics.totalOrders,
+      totalRevenueCents: toCents(metrics.totalRevenue),
+      conversionRate: metrics.conversionRate,
+      avgOrderValueCents: toCents(metrics.avgOrderValue),
+    }));
 
     await this.emitShowEvent("SHOW_ENDED", {
       showId: this.showId,
@@ -676,20 +858,20 @@ export class LiveShowOrchestrator {
     });
 
     // Trigger post-show workflows
-    await this.triggerPostShowWorkflows();
+    await this.triggerPostShowWorkflows(metrics);
   }
 
   /**
    * Pause show
    */
-  async pauseShow(): Promise<void> {
-    await db
-      .update(liveShows)
-      .set({
-        status: "PAUSED",
-        updatedAt: new Date(),
-      })
-      .where(eq(liveShows.id, this.showId));
+  async pauseShow(actorId?: string): Promise<void> {
+    await this.transitionLifecycle("PAUSE", { actorId });
+
+    // live_sessions has no paused status; a paused show stays "live" there
+    this.stopMetricsCollection();
+
+    this.status = "PAUSED";
+    await this.checkpoint("SHOW_PAUSED");
 
     await this.emitShowEvent("SHOW_PAUSED", {
       showId: this.showId,
@@ -700,14 +882,13 @@ export class LiveShowOrchestrator {
   /**
    * Resume show
    */
-  async resumeShow(): Promise<void> {
-    await db
-      .update(liveShows)
-      .set({
-        status: "LIVE",
-        updatedAt: new Date(),
-      })
-      .where(eq(liveShows.id, this.showId));
+  async resumeShow(actorId?: string): Promise<void> {
+    await this.transitionLifecycle("RESUME", { actorId });
+
+    this.startMetricsCollection();
+
+    this.status = "LIVE";
+    await this.checkpoint("SHOW_RESUMED");
 
     await this.emitShowEvent("SHOW_RESUMED", {
       showId: this.showId,
@@ -719,60 +900,63 @@ export class LiveShowOrchestrator {
   // PRIVATE HELPER METHODS
   // ============================================================================
 
-  private async validateInventory(): Promise<void> {
-    const pins = await db.query.pinnedProducts.findMany({
-      where: eq(pinnedProducts.showId, this.showId),
-    });
+  private handlePriceDropEvent(event: PriceDropEvent): void {
+    if (event.showId !== this.showId || !event.dropId) return;
 
-    for (const pin of pins) {
-      const stock = await this.getProductStock(pin.productId);
-      if (stock.available < (pin.stockLimit || 1)) {
-        console.warn(`Low stock for product ${pin.productId}: ${stock.available} available`);
-      }
+    if (event.type === "PRICE_DROP_STARTED" && event.endsAt) {
+      this.priceDropDeadlines.set(event.dropId, { productId: event.productId, endsAt: new Date(event.endsAt) });
+      this.runInBackground("PRICE_DROP_STARTED", () => this.checkpoint("PRICE_DROP_STARTED"));
+    } else if (event.type === "PRICE_DROP_ENDED" && this.priceDropDeadlines.delete(event.dropId)) {
+      const pinnedForDrop = this.dropPins.has(event.productId);
+      this.runInBackground("PRICE_DROP_ENDED", () =>
+        pinnedForDrop ? this.unpinProduct(event.productId) : this.checkpoint("PRICE_DROP_ENDED")
+      );
     }
   }
 
-  private async schedulePriceDrops(): Promise<void> {
-    const drops = await db.query.priceDrops.findMany({
-      where: and(
-        eq(priceDrops.showId, this.showId),
-        eq(priceDrops.status, "scheduled")
-      ),
+  /**
+   * Timer and event callbacks have no caller to report to, so failures are
+   * logged here instead of becoming unhandled rejections
+   */
+  private runInBackground(label: string, task: () => Promise<void>): void {
+    task().catch((error) => {
+      console.error(`[LiveShowOrchestrator] ${label} failed for show ${this.showId}:`, error);
     });
+  }
+
+  private async validateInventory(): Promise<void> {
+    const db = await requireDb();
+    const pins = await db
+      .select()
+      .from(pinnedProducts)
+      .where(and(eq(pinnedProducts.liveSessionId, this.showId), eq(pinnedProducts.isActive, true)));
 
-    for (const drop of drops) {
-      const now = new Date();
-      const startTime = new Date(drop.startTime);
-      const delay = startTime.getTime() - now.getTime();
-
-      if (delay > 0) {
-        setTimeout(async () => {
-          const duration = Math.floor(
-            (new Date(drop.endTime).getTime() - startTime.getTime()) / 60000
-          );
-          await this.executePriceDrop(
-            drop.productId,
-            Number(drop.dropPrice),
-            duration,
-            {
-              stockLimit: drop.stockLimit || undefined,
-              countdownDisplay: drop.countdownDisplay,
-            }
-          );
-        }, delay);
+    for (const pin of pins) {
+      const stock = await this.getProductStock(pin.productId);
+      const stockLimit = getPinMetadata(pin.metadata).stockLimit;
+      if (stock.available < (stockLimit || 1)) {
+        console.warn(`Low stock for product ${pin.productId}: ${stock.available} available`);
       }
     }
   }
 
   private startMetricsCollection(): void {
-    this.metricsInterval = setInterval(async () => {
-      await this.collectMetricsSnapshot();
+    if (this.metricsInterval) return;
+    this.metricsInterval = setInterval(() => {
+      this.runInBackground("METRICS_SNAPSHOT", () => this.collectMetricsSnapshot());
     }, 30000); // Every 30 seconds
   }
 
+  private stopMetricsCollection(): void {
+    if (this.metricsInterval) {
+      clearInterval(this.metricsInterval);
+      this.metricsInterval = null;
+    }
+  }
+
   private async collectMetricsSnapshot(): Promise<void> {
     const metrics = await this.generateShowMetrics();
-    
+
     // Store snapshot for trend analysis
     // This would go to a time-series table in production
     await this.emitShowEvent("METRICS_SNAPSHOT", {
@@ -783,47 +967,43 @@ export class LiveShowOrchestrator {
   }
 
   private async generateShowMetrics(): Promise<LiveShowMetrics> {
-    // Get viewer stats
-    const viewerStats = await db
-      .select({
-        totalViewers: sql<number>`COUNT(DISTINCT ${showViewers.userId})`,
-      })
-      .from(showViewers)
-      .where(eq(showViewers.showId, this.showId));
+    const db = await requireDb();
+    const show = await findShow(db, this.showId);
+    const showMetadata = getShowMetadata(show?.metadata);
 
     // Get purchase stats
-    const purchaseStats = await db
+    const [purchaseStats] = await db
       .select({
         totalOrders: sql<number>`COUNT(*)`,
-        totalRevenue: sql<number>`SUM(${showPurchases.totalAmount})`,
+        totalRevenue: sql<string | null>`SUM(COALESCE(${orders.totalAmount}, ${orders.total}))`,
       })
-      .from(showPurchases)
-      .where(eq(showPurchases.showId, this.showId));
+      .from(orders)
+      .where(eq(orders.liveSessionId, this.showId));
 
-    const totalViewers = viewerStats[0]?.totalViewers || 0;
-    const totalOrders = purchaseStats[0]?.totalOrders || 0;
-    const totalRevenue = purchaseStats[0]?.totalRevenue || 0;
+    const totalViewers = showMetadata.totalViews || 0;
+    const peakViewers = Math.max(showMetadata.peakViewerCount || 0, this.viewerCount);
+    const totalOrders = Number(purchaseStats?.totalOrders || 0);
+    const totalRevenue = Number(purchaseStats?.totalRevenue || 0);
 
     // Get top products
     const topProducts = await db
       .select({
         productId: orderItems.productId,
         productName: products.name,
-        revenue: sql<number>`SUM(${orderItems.price} * ${orderItems.quantity})`,
+        revenue: sql<string>`SUM(${orderItems.total})`,
         units: sql<number>`SUM(${orderItems.quantity})`,
       })
-      .from(showPurchases)
-      .innerJoin(orders, eq(showPurchases.orderId, orders.id))
-      .innerJoin(orderItems, eq(orders.id, orderItems.orderId))
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
       .innerJoin(products, eq(orderItems.productId, products.id))
-      .where(eq(showPurchases.showId, this.showId))
+      .where(eq(orders.liveSessionId, this.showId))
       .groupBy(orderItems.productId, products.name)
-      .orderBy(desc(sql`SUM(${orderItems.price} * ${orderItems.quantity})`))
+      .orderBy(desc(sql`SUM(${orderItems.total})`))
       .limit(10);
 
     return {
       showId: this.showId,
-      peakViewers: this.viewerCount,
+      peakViewers,
       avgViewers: Math.floor(totalViewers * 0.6), // Rough estimate
       totalViewers,
       totalOrders,
@@ -834,8 +1014,8 @@ export class LiveShowOrchestrator {
       topProducts: topProducts.map((p) => ({
         productId: p.productId,
         productName: p.productName,
-        revenue: p.revenue,
-        units: p.units,
+        revenue: Number(p.revenue),
+        units: Number(p.units),
       })),
     };
   }
@@ -850,129 +1030,300 @@ export class LiveShowOrchestrator {
     reserved: number;
     onHand: number;
   }> {
-    const stock = await db
-      .select({
-        available: sql<number>`SUM(${inventory.available})`,
-        reserved: sql<number>`SUM(${inventory.reserved})`,
-        onHand: sql<number>`SUM(${inventory.onHand})`,
-      })
-      .from(inventory)
-      .where(eq(inventory.productId, productId));
-
-    return {
-      available: stock[0]?.available || 0,
-      reserved: stock[0]?.reserved || 0,
-      onHand: stock[0]?.onHand || 0,
-    };
+    return getStockTotals(await requireDb(), productId);
   }
 
   private async updatePinnedProducts(): Promise<void> {
-    const now = new Date();
-    
-    // Auto-unpin expired products
-    await db
-      .update(pinnedProducts)
-      .set({
-        status: "inactive",
-      })
-      .where(
-        and(
-          eq(pinnedProducts.showId, this.showId),
-          eq(pinnedProducts.status, "active"),
-          lte(pinnedProducts.unpinnedAt, now)
-        )
-      );
+    const db = await requireDb();
 
     // Get currently active pins
-    const activePins = await db.query.pinnedProducts.findMany({
-      where: and(
-        eq(pinnedProducts.showId, this.showId),
-        eq(pinnedProducts.status, "active")
-      ),
-    });
+    const activePins = await db
+      .select({ productId: pinnedProducts.productId })
+      .from(pinnedProducts)
+      .where(and(eq(pinnedProducts.liveSessionId, this.showId), eq(pinnedProducts.isActive, true)));
+
+    // Keep the unpin times we already hold for pins that are still active
+    this.activePinnedProducts = new Map(
+      activePins.map((p) => [p.productId, this.activePinnedProducts.get(p.productId) ?? null])
+    );
+  }
+
+  private armUnpinTimer(productId: string, unpinAt: Date): void {
+    const existing = this.pinTimers.get(productId);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.pinTimers.delete(productId);
+      this.runInBackground("PRODUCT_UNPINNED", () => this.unpinProduct(productId));
+    }, Math.max(0, unpinAt.getTime() - Date.now()));
+    this.pinTimers.set(productId, timer);
+  }
+
+  private async saveViewerCount(
+    update: (metadata: ShowMetadata) => Partial<ShowMetadata>
+  ): Promise<void> {
+    const db = await requireDb();
+    await updateShowMetadata(db, this.showId, { viewerCount: this.viewerCount }, update);
+  }
+
+  /**
+   * Persist orchestrator state so a restarted process can pick the show up
+   * where it left off. A failed write is thrown to the caller: the
+   * transition it records already happened, and resuming from an older
+   * checkpoint would replay it.
+   */
+  private async checkpoint(transition: string): Promise<void> {
+    const { showId, ...row } = toCheckpointRow(this.getCheckpoint(transition));
+
+    try {
+      const db = await requireDb();
+      await db
+        .insert(liveShowCheckpoints)
+        .values({ showId, ...row })
+        .onDuplicateKeyUpdate({
+          set: { ...row, version: sql`${liveShowCheckpoints.version} + 1` },
+        });
+    } catch (error) {
+      throw new Error(
+        `Checkpoint ${transition} failed for show ${showId}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
+
+  private async transitionLifecycle(
+    trigger: ShowLifecycleTrigger,
+    context: ShowTransitionContext = {}
+  ): Promise<void> {
+    const show = await findShow(await requireDb(), this.showId);
 
-    this.activePinnedProducts = new Set(activePins.map((p) => p.productId));
+    await showLifecycle.transition(this.showId, trigger, {
+      channelId: this.channelId,
+      legacyStatus: show?.status,
+      ...context,
+    });
   }
 
-  private async emitShowEvent(eventType: string, data: any): Promise<void> {
+  private async emitShowEvent(eventType: string, data: Record<string, unknown>): Promise<void> {
     // In production, this would emit to WebSocket/SSE/Redis Pub/Sub
     // For now, just log
     console.log(`[SHOW EVENT] ${eventType}:`, data);
-    
+
     // Could also store in events table for audit trail
   }
 
-  private async triggerPostShowWorkflows(): Promise<void> {
+  private async triggerPostShowWorkflows(metrics: LiveShowMetrics): Promise<void> {
     // 1. Generate clips from highlights
     await this.generateClips();
 
     // 2. Calculate creator commission
-    await this.calculateCreatorCommission();
+    await this.calculateCreatorCommission(metrics);
 
     // 3. Send performance report
-    await this.sendPerformanceReport();
+    await this.sendPerformanceReport(metrics);
 
     // 4. Archive show data
     await this.archiveShow();
   }
 
   private async generateClips(): Promise<void> {
-    const highlights = await db.query.showHighlights.findMany({
-      where: and(
-        eq(showHighlights.showId, this.showId),
-        eq(showHighlights.status, "pending")
-      ),
-    });
+    const db = await requireDb();
+    const highlights = await db
+      .select({ id: liveHighlights.id })
+      .from(liveHighlights)
+      .where(and(eq(liveHighlights.liveSessionId, this.showId), eq(liveHighlights.clipStatus, "PENDING")));
 
     for (const highlight of highlights) {
       // Queue clip generation job
       console.log(`Queuing clip generation for highlight ${highlight.id}`);
-      
+
       // Update status
       await db
-        .update(showHighlights)
-        .set({
-          status: "processing",
-        })
-        .where(eq(showHighlights.id, highlight.id));
+        .update(liveHighlights)
+        .set({ clipStatus: "PROCESSING" })
+        .where(eq(liveHighlights.id, highlight.id));
     }
   }
 
-  private async calculateCreatorCommission(): Promise<void> {
-    const metrics = await this.generateShowMetrics();
-    
+  private async calculateCreatorCommission(metrics: LiveShowMetrics): Promise<void> {
+    const db = await requireDb();
+
     // Get creator commission rate
-    const creator = await db.query.creators.findFirst({
-      where: eq(creators.id, this.creatorId),
-    });
+    const [creator] = await db
+      .select({ commissionRate: creators.commissionRate })
+      .from(creators)
+      .where(eq(creators.id, this.creatorId))
+      .limit(1);
 
     if (!creator) return;
 
-    const commissionRate = 0.10; // 10% default, should come from creator tier
+    // commission_rate is a percentage; 10% until the creator has a tier rate
+    const commissionRate = creator.commissionRate != null ? Number(creator.commissionRate) / 100 : 0.10;
     const commission = metrics.totalRevenue * commissionRate;
 
     console.log(`Creator ${this.creatorId} earned commission: $${commission.toFixed(2)}`);
-    
+
     // This would create a payout record in production
   }
 
-  private async sendPerformanceReport(): Promise<void> {
-    const metrics = await this.generateShowMetrics();
-    
+  private async sendPerformanceReport(metrics: LiveShowMetrics): Promise<void> {
     console.log(`Show ${this.showId} Performance Report:`, metrics);
-    
+
     // In production, send email/notification to creator
   }
 
   private async archiveShow(): Promise<void> {
-    await db
-      .update(liveShows)
-      .set({
-        status: "ARCHIVED",
-        updatedAt: new Date(),
-      })
-      .where(eq(liveShows.id, this.showId));
+    // live_sessions keeps archived shows as "ended"
+    await this.transitionLifecycle("ARCHIVE");
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function requireDb(): Promise<Database> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+async function findShow(db: Database, showId: string): Promise<ShowRow | null> {
+  const [show] = await db.select().from(liveSessions).where(eq(liveSessions.id, showId)).limit(1);
+  return show ?? null;
+}
+
+async function updateShowMetadata(
+  db: Database,
+  showId: string,
+  values: Partial<Pick<ShowRow, "status" | "viewerCount" | "endedAt">>,
+  update: (metadata: ShowMetadata) => Partial<ShowMetadata>
+): Promise<void> {
+  const show = await findShow(db, showId);
+  if (!show) throw new Error(`Show ${showId} not found`);
+
+  const metadata = getShowMetadata(show.metadata);
+  await db
+    .update(liveSessions)
+    .set({ ...values, metadata: { ...metadata, ...update(metadata) } })
+    .where(eq(liveSessions.id, showId));
+}
+
+async function getStockTotals(db: Database, productId: string) {
+  const [stock] = await db
+    .select({
+      available: sql<number>`COALESCE(SUM(${inventory.available}), 0)`,
+      reserved: sql<number>`COALESCE(SUM(${inventory.reserved}), 0)`,
+      onHand: sql<number>`COALESCE(SUM(${inventory.onHand}), 0)`,
+    })
+    .from(inventory)
+    .where(eq(inventory.productId, productId));
+
+  return {
+    available: Number(stock?.available || 0),
+    reserved: Number(stock?.reserved || 0),
+    onHand: Number(stock?.onHand || 0),
+  };
+}
+
+function activePin(showId: string, productId: string) {
+  return and(
+    eq(pinnedProducts.liveSessionId, showId),
+    eq(pinnedProducts.productId, productId),
+    eq(pinnedProducts.isActive, true)
+  );
+}
+
+function getShowMetadata(metadata: unknown): ShowMetadata {
+  return (metadata ?? {}) as ShowMetadata;
+}
+
+function getPinMetadata(metadata: unknown): PinMetadata {
+  return (metadata ?? {}) as PinMetadata;
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 80) || "show";
+}
+
+// ============================================================================
+// ORCHESTRATOR REGISTRY & RESUME
+// ============================================================================
+
+const activeOrchestrators: Map<string, LiveShowOrchestrator> = new Map();
+
+async function loadCheckpoint(showId: string): Promise<OrchestratorCheckpoint | null> {
+  const db = await requireDb();
+  const [row] = await db
+    .select()
+    .from(liveShowCheckpoints)
+    .where(eq(liveShowCheckpoints.showId, showId))
+    .limit(1);
+
+  return row ? fromCheckpointRow(row) : null;
+}
+
+/**
+ * Get the orchestrator driving a show in this process, creating one if the
+ * show has no in-memory state yet. Routers should use this instead of
+ * constructing orchestrators so timers survive across requests.
+ */
+export async function getOrchestrator(
+  showId: string,
+  channelId: string,
+  creatorId: string
+): Promise<LiveShowOrchestrator> {
+  const existing = activeOrchestrators.get(showId);
+  if (existing) return existing;
+
+  const resumed = await resumeShow(showId);
+  if (resumed) return resumed;
+
+  const orchestrator = new LiveShowOrchestrator(showId, channelId, creatorId);
+  activeOrchestrators.set(showId, orchestrator);
+  return orchestrator;
+}
+
+/**
+ * Resume a show from its last checkpoint: rebuilds the segment cursor,
+ * pinned products and price-drop timers. Returns null if the show has no
+ * checkpoint or has already ended.
+ */
+export async function resumeShow(showId: string): Promise<LiveShowOrchestrator | null> {
+  const existing = activeOrchestrators.get(showId);
+  if (existing) return existing;
+
+  const orchestrator = await LiveShowOrchestrator.restore(showId);
+  if (!orchestrator) return null;
+
+  activeOrchestrators.set(showId, orchestrator);
+  return orchestrator;
+}
+
+/**
+ * Resume every show that was mid-broadcast when the process stopped.
+ * Called once at server startup.
+ */
+export async function resumeActiveShows(): Promise<string[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ showId: liveShowCheckpoints.showId })
+    .from(liveShowCheckpoints)
+    .where(inArray(liveShowCheckpoints.status, ["PRE_LIVE", "LIVE", "PAUSED"]));
+
+  const resumed: string[] = [];
+  for (const row of rows) {
+    try {
+      const orchestrator = await resumeShow(row.showId);
+      if (orchestrator) resumed.push(row.showId);
+    } catch (error) {
+      console.error(`[LiveShowOrchestrator] Failed to resume show ${row.showId}:`, error);
+    }
   }
+
+  return resumed;
 }
 
 // ============================================================================
@@ -990,61 +1341,59 @@ export class ShowScheduler {
     description: string;
     scheduledStartTime: Date;
     scheduledEndTime: Date;
+    thumbnailUrl?: string;
     runbook?: ShowRunbook;
   }): Promise<string> {
+    const db = await requireDb();
     const showId = ulid();
 
-    await db.insert(liveShows).values({
+    const metadata: ShowMetadata = {
+      scheduledEndAt: data.scheduledEndTime.toISOString(),
+      runbook: data.runbook
+        ? {
+            pinnedProducts: data.runbook.pinnedProducts,
+            contingencyScripts: data.runbook.contingencyScripts,
+            targetMetrics: data.runbook.targetMetrics,
+          }
+        : undefined,
+    };
+    await db.insert(liveSessions).values({
       id: showId,
       channelId: data.channelId,
+      slug: `${slugify(data.title)}-${showId.toLowerCase()}`,
       creatorId: data.creatorId,
       title: data.title,
       description: data.description,
-      scheduledStartTime: data.scheduledStartTime,
-      scheduledEndTime: data.scheduledEndTime,
-      status: "SCHEDULED",
-      runbook: data.runbook ? JSON.stringify(data.runbook) : null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      thumbnailUrl: data.thumbnailUrl ?? null,
+      scheduledAt: data.scheduledStartTime,
+      status: "scheduled",
+      metadata,
     });
 
-    // Create segments if provided in runbook
+    await showLifecycle.register(showId, data.channelId);
+
+    // Create segments if provided in runbook, planned back to back
     if (data.runbook?.segments) {
-      for (const segment of data.runbook.segments) {
-        await db.insert(showSegments).values({
+      let startOffsetSeconds = 0;
+      for (const segment of [...data.runbook.segments].sort((a, b) => a.order - b.order)) {
+        await db.insert(liveShowSegments).values({
           id: ulid(),
-          showId,
-          type: segment.type,
+          channelId: data.channelId,
+          liveSessionId: showId,
+          segmentType: segment.type,
           title: segment.title,
-          plannedDuration: segment.durationMinutes,
-          productIds: JSON.stringify(segment.productIds),
-          script: segment.script,
-          notes: segment.notes,
-          order: segment.order,
-          status: "scheduled",
-          createdAt: new Date(),
+          startOffsetSeconds,
+          durationSeconds: segment.durationMinutes * 60,
+          productIds: segment.productIds,
+          scriptNotes: [segment.script, segment.notes].filter(Boolean).join("\n\n") || null,
         });
+        startOffsetSeconds += segment.durationMinutes * 60;
       }
     }
 
-    // Schedule price drops if provided
+    // Schedule price drops if provided; they fire on products the host has pinned
     if (data.runbook?.priceDrops) {
-      for (const drop of data.runbook.priceDrops) {
-        await db.insert(priceDrops).values({
-          id: ulid(),
-          showId,
-          productId: drop.productId,
-          originalPrice: drop.originalPrice.toString(),
-          dropPrice: drop.dropPrice.toString(),
-          startTime: drop.startTime,
-          endTime: new Date(drop.startTime.getTime() + drop.durationMinutes * 60000),
-          stockLimit: drop.stockLimit,
-          countdownDisplay: drop.countdownDisplay,
-          status: "scheduled",
-          unitsSold: 0,
-          createdAt: new Date(),
-        });
-      }
+      await programPriceDrops(data.channelId, showId, data.runbook.priceDrops);
     }
 
     return showId;
@@ -1053,39 +1402,40 @@ export class ShowScheduler {
   /**
    * Get upcoming shows
    */
-  static async getUpcomingShows(channelId: string, limit: number = 10): Promise<any[]> {
-    return db.query.liveShows.findMany({
-      where: and(
-        eq(liveShows.channelId, channelId),
-        gte(liveShows.scheduledStartTime, new Date())
-      ),
-      orderBy: [liveShows.scheduledStartTime],
-      limit,
-      with: {
-        creator: true,
-      },
-    });
+  static async getUpcomingShows(channelId: string, limit: number = 10) {
+    const db = await requireDb();
+    return db
+      .select({ show: liveSessions, creator: creators })
+      .from(liveSessions)
+      .leftJoin(creators, eq(liveSessions.creatorId, creators.id))
+      .where(
+        and(
+          eq(liveSessions.channelId, channelId),
+          eq(liveSessions.status, "scheduled"),
+          gte(liveSessions.scheduledAt, new Date())
+        )
+      )
+      .orderBy(asc(liveSessions.scheduledAt))
+      .limit(limit);
   }
 
   /**
    * Get live shows
    */
-  static async getLiveShows(channelId: string): Promise<any[]> {
-    return db.query.liveShows.findMany({
-      where: and(
-        eq(liveShows.channelId, channelId),
-        eq(liveShows.status, "LIVE")
-      ),
-      with: {
-        creator: true,
-        pinnedProducts: {
-          where: eq(pinnedProducts.status, "active"),
-          with: {
-            product: true,
-          },
-        },
-      },
-    });
+  static async getLiveShows(channelId: string) {
+    const db = await requireDb();
+    const shows = await db
+      .select({ show: liveSessions, creator: creators })
+      .from(liveSessions)
+      .leftJoin(creators, eq(liveSessions.creatorId, creators.id))
+      .where(and(eq(liveSessions.channelId, channelId), eq(liveSessions.status, "live")));
+
+    return Promise.all(
+      shows.map(async (row) => ({
+        ...row,
+        pinnedProducts: await LiveStockSync.getPinnedProductsStock(row.show.id),
+      }))
+    );
   }
 }
 
@@ -1094,6 +1444,18 @@ export class ShowScheduler {
 // ============================================================================
 
 export class LiveStockSync {
+  /**
+   * Units held back from live price drops unless a drop sets its own buffer
+   */
+  static readonly DEFAULT_STOCK_BUFFER = DEFAULT_STOCK_BUFFER;
+
+  /**
+   * Sellable units across all warehouses
+   */
+  static async getAvailableStock(productId: string): Promise<number> {
+    return getAvailableStock(productId);
+  }
+
   /**
    * Get real-time stock for pinned products
    */
@@ -1106,30 +1468,21 @@ export class LiveStockSync {
     stockStatus: "in_stock" | "low_stock" | "out_of_stock";
     urgencyMessage?: string;
   }>> {
-    const pins = await db.query.pinnedProducts.findMany({
-      where: and(
-        eq(pinnedProducts.showId, showId),
-        eq(pinnedProducts.status, "active")
-      ),
-      with: {
-        product: true,
-      },
-      orderBy: [desc(pinnedProducts.priority)],
-    });
+    const db = await requireDb();
+    const pins = await db
+      .select({ pin: pinnedProducts, product: products })
+      .from(pinnedProducts)
+      .innerJoin(products, eq(pinnedProducts.productId, products.id))
+      .where(and(eq(pinnedProducts.liveSessionId, showId), eq(pinnedProducts.isActive, true)));
 
-    const result = [];
+    pins.sort(
+      (a, b) => (getPinMetadata(b.pin.metadata).sortOrder || 0) - (getPinMetadata(a.pin.metadata).sortOrder || 0)
+    );
 
-    for (const pin of pins) {
-      const stock = await db
-        .select({
-          available: sql<number>`SUM(${inventory.available})`,
-          reserved: sql<number>`SUM(${inventory.reserved})`,
-        })
-        .from(inventory)
-        .where(eq(inventory.productId, pin.productId));
+    const result = [];
 
-      const available = stock[0]?.available || 0;
-      const reserved = stock[0]?.reserved || 0;
+    for (const { pin, product } of pins) {
+      const { available, reserved } = await getStockTotals(db, pin.productId);
 
       let stockStatus: "in_stock" | "low_stock" | "out_of_stock" = "in_stock";
       if (available === 0) {
@@ -1140,12 +1493,12 @@ export class LiveStockSync {
 
       result.push({
         productId: pin.productId,
-        productName: pin.product.name,
-        price: pin.priceOverride ? Number(pin.priceOverride) : Number(pin.product.price),
+        productName: product.name,
+        price: Number(pin.livePrice ?? product.price),
         available,
         reserved,
         stockStatus,
-        urgencyMessage: pin.urgencyMessage || undefined,
+        urgencyMessage: getPinMetadata(pin.metadata).urgencyMessage,
       });
     }
 
@@ -1161,29 +1514,31 @@ export class LiveStockSync {
     orderId: string
   ): Promise<boolean> {
     try {
+      const db = await requireDb();
+
       // Get available inventory
-      const inventoryRecords = await db.query.inventory.findMany({
-        where: and(
-          eq(inventory.productId, productId),
-          sql`${inventory.available} >= ${quantity}`
-        ),
-        limit: 1,
-      });
+      const [inv] = await db
+        .select({ id: inventory.id })
+        .from(inventory)
+        .where(and(eq(inventory.productId, productId), gte(inventory.available, quantity)))
+        .limit(1);
 
-      if (inventoryRecords.length === 0) {
+      if (!inv) {
         return false; // Not enough stock
       }
 
-      const inv = inventoryRecords[0];
-
-      // Reserve inventory (atomic operation)
-      await db
+      // Reserve only if the stock is still there when the update runs
+      const [result] = await db
         .update(inventory)
         .set({
           available: sql`${inventory.available} - ${quantity}`,
           reserved: sql`${inventory.reserved} + ${quantity}`,
         })
-        .where(eq(inventory.id, inv.id));
+        .where(and(eq(inventory.id, inv.id), gte(inventory.available, quantity)));
+
+      if (result.affectedRows === 0) {
+        return false;
+      }
 
       // Create reservation record
       await db.insert(inventoryReservations).values({
@@ -1193,7 +1548,6 @@ export class LiveStockSync {
         quantity,
         expiresAt: new Date(Date.now() + 15 * 60000), // 15 minutes
         status: "active",
-        createdAt: new Date(),
       });
 
       return true;
@@ -1212,4 +1566,7 @@ export const liveOrchestration = {
   LiveShowOrchestrator,
   ShowScheduler,
   LiveStockSync,
+  getOrchestrator,
+  resumeShow,
+  resumeActiveShows,
 };
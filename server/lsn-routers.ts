@@ -4,12 +4,14 @@
  */
 
 import { z } from 'zod';
-import { publicProcedure, protectedProcedure, router } from './_core/trpc';
+import { TRPCError } from '@trpc/server';
+import { publicProcedure, protectedProcedure, adminProcedure, router } from './_core/trpc';
 import * as disputeService from './dispute-automation';
 import * as liveShowService from './live-show-runner';
 import * as creatorService from './creator-management';
 import * as inventoryService from './inventory-purchasing';
 import * as financialService from './financial-operations';
+import { ReconciliationService } from './reconciliation';
 import * as pricingService from './pricing-promotions';
 import * as skuService from './sku-profitability';
 
@@ -113,10 +115,24 @@ export const liveShowRouter = router({
     .input(z.object({
       channelId: z.string(),
       showId: z.string(),
-      streamUrl: z.string()
-    }))
-    .mutation(async ({ input }) => {
-      return await liveShowService.startLiveShow(input.channelId, input.showId, input.streamUrl);
+      streamUrl: z.string(),
+      guardId: z.string().optional(),
+      // Admin-only; the caller is recorded as the approver
+      override: z.object({
+        reason: z.string().min(1)
+      }).optional()
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.override && ctx.user.role !== 'admin') {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only admins can override the go-live guard' });
+      }
+
+      const actorId = ctx.user.id.toString();
+      return await liveShowService.startLiveShow(input.channelId, input.showId, input.streamUrl, {
+        guardId: input.guardId,
+        override: input.override && { approvedBy: actorId, reason: input.override.reason },
+        actorId
+      });
     }),
 
   // End show
@@ -126,8 +142,8 @@ export const liveShowRouter = router({
       showId: z.string(),
       recordingUrl: z.string().optional()
     }))
-    .mutation(async ({ input }) => {
-      return await liveShowService.endLiveShow(input.channelId, input.showId, input.recordingUrl);
+    .mutation(async ({ input, ctx }) => {
+      return await liveShowService.endLiveShow(input.channelId, input.showId, input.recordingUrl, ctx.user.id.toString());
     }),
 
   // Pin product
@@ -170,6 +186,7 @@ export const liveShowRouter = router({
       dropPriceCents: z.number(),
       durationSeconds: z.number(),
       maxQuantity: z.number().optional(),
+      stockBuffer: z.number().min(0).optional(),
       urgencyMessage: z.string().optional()
     }))
     .mutation(async ({ input }) => {
@@ -180,10 +197,71 @@ export const liveShowRouter = router({
         input.dropPriceCents,
         input.durationSeconds,
         input.maxQuantity,
-        input.urgencyMessage
+        input.urgencyMessage,
+        { stockBuffer: input.stockBuffer }
       );
     }),
 
+  // End a price drop early
+  endPriceDrop: protectedProcedure
+    .input(z.object({
+      showId: z.string(),
+      dropId: z.string()
+    }))
+    .mutation(async ({ input }) => {
+      return await liveShowService.endPriceDrop(input.showId, input.dropId, 'MANUAL');
+    }),
+
+  // Pre-program runbook price drops
+  programPriceDrops: protectedProcedure
+    .input(z.object({
+      channelId: z.string(),
+      showId: z.string(),
+      drops: z.array(z.object({
+        productId: z.string(),
+        originalPrice: z.number(),
+        dropPrice: z.number(),
+        startTime: z.coerce.date(),
+        durationMinutes: z.number(),
+        stockLimit: z.number().optional(),
+        stockBuffer: z.number().min(0).optional(),
+        countdownDisplay: z.boolean().default(true),
+        trigger: z.discriminatedUnion('type', [
+          z.object({ type: z.literal('AT_TIME'), at: z.coerce.date() }),
+          z.object({ type: z.literal('VIEWER_THRESHOLD'), minViewers: z.number().int().positive() }),
+          z.object({
+            type: z.literal('COUNTDOWN'),
+            seconds: z.number().int().positive(),
+            startOn: z.enum(['GO_LIVE', 'MANUAL']).optional()
+          })
+        ]).optional()
+      }))
+    }))
+    .mutation(async ({ input }) => {
+      return await liveShowService.programPriceDrops(input.channelId, input.showId, input.drops);
+    }),
+
+  // Start a countdown drop on the host's cue
+  startPriceDropCountdown: protectedProcedure
+    .input(z.object({
+      programId: z.string()
+    }))
+    .mutation(async ({ input }) => {
+      const firesAt = liveShowService.startPriceDropCountdown(input.programId);
+      return { programId: input.programId, firesAt };
+    }),
+
+  // Cancel a programmed drop before it fires
+  cancelProgrammedPriceDrop: protectedProcedure
+    .input(z.object({
+      showId: z.string(),
+      programId: z.string()
+    }))
+    .mutation(async ({ input }) => {
+      await liveShowService.cancelProgrammedPriceDrop(input.showId, input.programId);
+      return { success: true };
+    }),
+
   // Get current show state
   getCurrentState: publicProcedure
     .input(z.object({
@@ -202,6 +280,15 @@ export const liveShowRouter = router({
       return await liveShowService.getShowStatistics(input.showId);
     }),
 
+  // Get shoppable replay of an ended show
+  getReplay: publicProcedure
+    .input(z.object({
+      showId: z.string()
+    }))
+    .query(async ({ input }) => {
+      return await liveShowService.getShowReplay(input.showId);
+    }),
+
   // Mark highlight
   markHighlight: protectedProcedure
     .input(z.object({
@@ -476,6 +563,23 @@ export const financialRouter = router({
       return await financialService.getDiscrepancies(input.channelId, input.status as any);
     }),
 
+  // Import a provider settlement file; re-uploads come back as duplicates
+  importSettlementFile: adminProcedure
+    .input(z.object({
+      channelId: z.string(),
+      provider: z.enum(['paypal', 'stripe', 'wise', 'tiktok_shop']),
+      content: z.string().min(1),
+      skipInvalidLines: z.boolean().optional()
+    }))
+    .mutation(async ({ input }) => {
+      return await ReconciliationService.importSettlementFile(
+        input.channelId,
+        input.provider,
+        input.content,
+        { skipInvalidLines: input.skipInvalidLines }
+      );
+    }),
+
   // Manually reconcile
   manuallyReconcile: protectedProcedure
     .input(z.object({
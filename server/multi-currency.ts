@@ -77,6 +77,47 @@ export async function fetchExchangeRates(baseCurrency: string = "USD"): Promise<
   return mockRates;
 }
 
+/**
+ * Exchange Rate Source
+ * Pluggable so the ledger can revalue against a fixed table in tests
+ */
+export interface FxRateSource {
+  // Units of `to` per one unit of `from`, as at the given time
+  getRate(from: string, to: string, at?: Date): Promise<number>;
+}
+
+function crossRate(ratesPerUsd: Record<string, number>, from: string, to: string): number {
+  if (from === to) return 1;
+
+  const fromRate = ratesPerUsd[from];
+  const toRate = ratesPerUsd[to];
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate for ${from}/${to}`);
+  }
+
+  return toRate / fromRate;
+}
+
+/**
+ * Rate source backed by fetchExchangeRates
+ */
+export const liveFxRateSource: FxRateSource = {
+  async getRate(from, to) {
+    return crossRate(await fetchExchangeRates("USD"), from, to);
+  },
+};
+
+/**
+ * Rate source over a fixed table of units per USD (ignores the date)
+ */
+export function createFixedRateSource(ratesPerUsd: Record<string, number>): FxRateSource {
+  return {
+    async getRate(from, to) {
+      return crossRate({ USD: 1, ...ratesPerUsd }, from, to);
+    },
+  };
+}
+
 /**
  * Convert Price Between Currencies
  */
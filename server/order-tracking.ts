@@ -4,8 +4,8 @@
  */
 
 import { getDb } from "./db";
-import { orders, orderItems } from "../drizzle/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { orders, orderItems, shipments, thirdPartyShipments, thirdPartyTrackingEvents } from "../drizzle/schema";
+import { eq, and, desc, asc, inArray } from "drizzle-orm";
 
 export interface OrderTracking {
   orderId: string;
@@ -45,6 +45,16 @@ export interface ShipmentEvent {
   description: string;
 }
 
+export interface CarrierTrackingHistory {
+  carrier: string;
+  trackingNumber: string;
+  trackingUrl?: string;
+  status: string;
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  events: ShipmentEvent[];
+}
+
 /**
  * Get order tracking information
  */
@@ -196,6 +206,76 @@ export async function getShipmentTracking(trackingNumber: string): Promise<Shipm
   return null;
 }
 
+/**
+ * Carrier tracking history for every shipment of an order, from our own
+ * shipments and those sent through a 3PL, oldest event first
+ */
+export async function getCarrierTrackingHistory(orderId: string): Promise<CarrierTrackingHistory[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const history: CarrierTrackingHistory[] = [];
+
+  const ownShipments = await db.select().from(shipments).where(eq(shipments.orderId, orderId));
+  for (const shipment of ownShipments) {
+    if (!shipment.trackingNumber) continue;
+
+    const events: ShipmentEvent[] = [];
+    if (shipment.shippedAt) {
+      events.push({ timestamp: shipment.shippedAt, status: "shipped", location: "", description: "Picked up by carrier" });
+    }
+    if (shipment.deliveredAt) {
+      events.push({ timestamp: shipment.deliveredAt, status: "delivered", location: "", description: "Delivered" });
+    }
+
+    history.push({
+      carrier: shipment.carrier || "unknown",
+      trackingNumber: shipment.trackingNumber,
+      trackingUrl: shipment.trackingUrl || undefined,
+      status: shipment.status,
+      shippedAt: shipment.shippedAt || undefined,
+      deliveredAt: shipment.deliveredAt || undefined,
+      events,
+    });
+  }
+
+  const providerShipments = await db
+    .select()
+    .from(thirdPartyShipments)
+    .where(eq(thirdPartyShipments.orderId, orderId));
+
+  const shipmentIds = providerShipments.map(shipment => shipment.id);
+  const providerEvents = shipmentIds.length > 0
+    ? await db
+        .select()
+        .from(thirdPartyTrackingEvents)
+        .where(inArray(thirdPartyTrackingEvents.shipmentId, shipmentIds))
+        .orderBy(asc(thirdPartyTrackingEvents.eventTime))
+    : [];
+
+  for (const shipment of providerShipments) {
+    if (!shipment.trackingNumber) continue;
+
+    history.push({
+      carrier: shipment.carrier || "unknown",
+      trackingNumber: shipment.trackingNumber,
+      trackingUrl: shipment.trackingUrl || undefined,
+      status: shipment.status.toLowerCase(),
+      shippedAt: shipment.shippedAt || undefined,
+      deliveredAt: shipment.deliveredAt || undefined,
+      events: providerEvents
+        .filter(event => event.shipmentId === shipment.id)
+        .map(event => ({
+          timestamp: event.eventTime,
+          status: event.eventType,
+          location: event.location || "",
+          description: event.description || event.eventType,
+        })),
+    });
+  }
+
+  return history;
+}
+
 /**
  * Track order by order number (for customers)
  */
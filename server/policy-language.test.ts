@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  dryRunPolicyRules,
+  evaluatePolicyExpression,
+  evaluatePolicyRules,
+  validatePolicyExpression,
+} from "./business-os/policy-language";
+
+const check = (condition: string, data: Record<string, any>, action = "process_refund") =>
+  evaluatePolicyExpression(condition, { action, data }, { now: new Date("2026-03-10T12:00:00Z") });
+
+describe("Policy Language", () => {
+  it("should combine comparisons with boolean logic", () => {
+    const condition = 'data.amount > 1000 && data.channel == "tiktok" || !(data.verified ?? true)';
+
+    expect(check(condition, { amount: 1500, channel: "tiktok" })).toBe(true);
+    expect(check(condition, { amount: 1500, channel: "shopify" })).toBe(false);
+    expect(check(condition, { amount: 10, verified: false })).toBe(true);
+    expect(check("data.type == 'payout' && data.reconciled != true", { type: "payout" })).toBe(true);
+  });
+
+  it("should do arithmetic and list membership", () => {
+    expect(check("data.refund > data.total * 0.5", { refund: 60, total: 100 })).toBe(true);
+    expect(check('data.country in ["AU", "NZ"]', { country: "NZ" })).toBe(true);
+    expect(check('data.country not in ["AU", "NZ"]', { country: "US" })).toBe(true);
+    expect(check('"vip" in data.tags', { tags: ["new", "vip"] })).toBe(true);
+    expect(check("data.amount / data.count > 1", { amount: 5, count: 0 })).toBe(false);
+  });
+
+  it("should read missing paths as null instead of throwing", () => {
+    expect(check("data.customer.address.country == null", {})).toBe(true);
+    expect(check("data.customer?.risk > 0.5", { customer: null })).toBe(false);
+    expect(check("data.items[0].sku == 'A1' && data.items.length == 2", { items: [{ sku: "A1" }, {}] })).toBe(true);
+    expect(() => check("data.constructor == null", {})).toThrow(/not accessible/);
+  });
+
+  it("should evaluate date helpers against the supplied clock", () => {
+    expect(check("daysSince(data.createdAt) < 30", { createdAt: "2026-03-01T00:00:00Z" })).toBe(true);
+    expect(check("date(data.createdAt) < daysAgo(30)", { createdAt: "2026-01-01" })).toBe(true);
+    expect(check("hourOf(now()) == 12 && dayOfWeek(now()) == 2", {})).toBe(true);
+  });
+
+  it("should reject bad conditions at parse time", () => {
+    expect(validatePolicyExpression("data.amount > 1000 && action == 'refund'")).toBeNull();
+    expect(validatePolicyExpression("data.amount >")).toMatch(/unexpected end/i);
+    expect(validatePolicyExpression("data.amount = 5")).toMatch(/use "=="/);
+    expect(validatePolicyExpression("process.exit(1)")).toMatch(/unknown name "process"/i);
+    expect(validatePolicyExpression("toString()")).toMatch(/unknown function/i);
+    expect(validatePolicyExpression("data.__proto__.polluted")).toMatch(/not accessible/);
+    expect(validatePolicyExpression("data.a < data.b < data.c")).toMatch(/unexpected "<"/i);
+    expect(validatePolicyExpression("len(data.a, data.b)")).toMatch(/takes 1 argument/);
+  });
+
+  it("should fail closed for deny rules that cannot be evaluated", () => {
+    const result = evaluatePolicyRules(
+      [
+        { id: "broken", condition: "data.amount >", action: "deny", priority: 1 },
+        { id: "approval", condition: "data.amount > 500", action: "require_approval", priority: 2 },
+      ],
+      { action: "process_refund", data: { amount: 100 } }
+    );
+
+    expect(result.outcome).toBe("deny");
+    expect(result.errors.map((e) => e.ruleId)).toEqual(["broken"]);
+  });
+
+  it("should replay recorded checks through a draft policy", () => {
+    const result = dryRunPolicyRules(
+      [{ id: "large_refund", condition: "data.amount > 500", action: "require_approval", priority: 1 }],
+      [
+        { id: "c1", context: { action: "process_refund", data: { amount: 800 } }, outcome: "allow", checkedAt: new Date() },
+        { id: "c2", context: { action: "process_refund", data: { amount: 100 } }, outcome: "allow", checkedAt: new Date() },
+        { id: "c3", context: { action: "process_refund", data: { amount: 900 } }, outcome: "deny", checkedAt: new Date() },
+      ]
+    );
+
+    expect(result.checked).toBe(3);
+    expect(result.outcomes).toEqual({ allow: 1, deny: 0, require_approval: 2 });
+    expect(result.newlyBlocked).toBe(1);
+    expect(result.results[0].matchedRuleIds).toEqual(["large_refund"]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  ReadinessCheckRegistry,
+  calculateWeightedScore,
+  findAllocationShortfalls,
+  getArmingBlockers,
+  getChannelReadinessPolicy,
+  runReadinessPlugins,
+  type ReadinessCheckPlugin,
+} from "./readiness-checks";
+
+const plugin = (id: string, overrides: Partial<ReadinessCheckPlugin> = {}): ReadinessCheckPlugin => ({
+  id,
+  category: "technical",
+  name: id,
+  description: `${id} probe`,
+  weight: 1,
+  required: true,
+  run: async () => ({ status: "passed", score: 100, details: "ok" }),
+  ...overrides,
+});
+
+describe("Readiness Checks", () => {
+  it("should register checks once each", () => {
+    const registry = new ReadinessCheckRegistry();
+    registry.register(plugin("ffmpeg"));
+
+    expect(() => registry.register(plugin("ffmpeg"))).toThrow("already registered");
+    expect(() => registry.register(plugin("zero", { weight: 0 }))).toThrow("positive weight");
+    expect(registry.list().map((p) => p.id)).toEqual(["ffmpeg"]);
+    expect(registry.unregister("ffmpeg")).toBe(true);
+    expect(registry.list()).toEqual([]);
+  });
+
+  it("should fail only the check whose probe throws or hangs", async () => {
+    const checks = await runReadinessPlugins(
+      [
+        plugin("rtmp", { run: async () => { throw new Error("ECONNREFUSED"); } }),
+        plugin("hls", { timeoutMs: 20, run: () => new Promise(() => {}) }),
+        plugin("ffmpeg", { weight: 3 }),
+        plugin("marketing", { required: false }),
+      ],
+      { productId: "prod_1" },
+      { disabled: ["marketing"] }
+    );
+
+    expect(checks.map((c) => [c.id, c.status])).toEqual([
+      ["rtmp", "failed"],
+      ["hls", "failed"],
+      ["ffmpeg", "passed"],
+    ]);
+    expect(checks[0].details).toContain("ECONNREFUSED");
+    expect(checks[1].details).toContain("timed out");
+    expect(calculateWeightedScore(checks)).toBe(60);
+  });
+
+  it("should apply the channel's blocking policy when arming", async () => {
+    const plugins = [
+      plugin("payments", { run: async () => ({ status: "failed", score: 0, details: "circuit open" }) }),
+      plugin("marketing", { required: false, run: async () => ({ status: "failed", score: 50, details: "missing" }) }),
+      plugin("host", { run: async () => ({ status: "skipped", score: 0, details: "no show" }) }),
+    ];
+
+    const defaults = await runReadinessPlugins(plugins, { productId: "prod_1" });
+    expect(getArmingBlockers(defaults)).toEqual(["payments"]);
+
+    const policy = getChannelReadinessPolicy({ theme: "dark", readiness: { blocking: ["marketing"] } });
+    const strict = await runReadinessPlugins(plugins, { productId: "prod_1" }, policy);
+    expect(strict.map((c) => c.required)).toEqual([false, true, false]);
+    expect(getArmingBlockers(strict, policy)).toEqual(["marketing"]);
+
+    // Policy changed after the run to block on a check that never ran
+    expect(getArmingBlockers(defaults, { blocking: ["payments", "ffmpeg"] })).toEqual(["payments", "ffmpeg (not run)"]);
+    expect(getChannelReadinessPolicy(null)).toEqual({ blocking: undefined, disabled: undefined });
+  });
+
+  it("should flag products whose stock can't cover the show allocation", () => {
+    const shortfalls = findAllocationShortfalls(
+      [
+        { productId: "mug", allocated: 40 },
+        { productId: "saucer", allocated: 10 },
+        { productId: "spoon", allocated: 1 },
+      ],
+      new Map([
+        ["mug", 55],
+        ["saucer", 6],
+      ])
+    );
+
+    expect(shortfalls).toEqual([
+      { productId: "saucer", allocated: 10, available: 6 },
+      { productId: "spoon", allocated: 1, available: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Go-Live Readiness Check Registry
+ *
+ * Readiness checks are plugins: each declares its category, weight and
+ * whether it blocks arming by default, and probes one thing. Channels can
+ * change which checks block `GoLiveGuardSystem.armGuard` and switch checks
+ * off through `channels.settings.readiness`.
+ */
+
+import type { CheckCategory, ReadinessCheckPoint } from "./go-live-gating";
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 10_000;
+
+export interface ReadinessContext {
+  productId: string;
+  showId?: string;
+  channelId?: string;
+}
+
+export type ReadinessProbeResult = Pick<ReadinessCheckPoint, "status" | "score" | "details" | "evidence">;
+
+export interface ReadinessCheckPlugin {
+  id: string;
+  category: CheckCategory;
+  name: string;
+  description: string;
+  // Relative share of the overall score
+  weight: number;
+  // Blocks arming unless the channel policy says otherwise
+  required: boolean;
+  timeoutMs?: number;
+  run(context: ReadinessContext): Promise<ReadinessProbeResult>;
+}
+
+export interface ChannelReadinessPolicy {
+  // Check ids that block arming; replaces each check's `required` flag
+  blocking?: string[];
+  // Check ids not run for the channel
+  disabled?: string[];
+}
+
+export class ReadinessCheckRegistry {
+  private plugins = new Map<string, ReadinessCheckPlugin>();
+
+  register(plugin: ReadinessCheckPlugin) {
+    if (this.plugins.has(plugin.id)) {
+      throw new Error(`Readiness check ${plugin.id} is already registered`);
+    }
+    if (!(plugin.weight > 0)) {
+      throw new Error(`Readiness check ${plugin.id} needs a positive weight`);
+    }
+    this.plugins.set(plugin.id, plugin);
+  }
+
+  unregister(id: string): boolean {
+    return this.plugins.delete(id);
+  }
+
+  get(id: string): ReadinessCheckPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  list(): ReadinessCheckPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+}
+
+export const readinessCheckRegistry = new ReadinessCheckRegistry();
+
+export function isBlockingCheck(
+  check: Pick<ReadinessCheckPlugin, "id" | "required">,
+  policy: ChannelReadinessPolicy = {}
+): boolean {
+  return policy.blocking ? policy.blocking.includes(check.id) : check.required;
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${name} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run every enabled check in parallel. A probe that throws or hangs fails
+ * its own check instead of the whole run.
+ */
+export async function runReadinessPlugins(
+  plugins: ReadinessCheckPlugin[],
+  context: ReadinessContext,
+  policy: ChannelReadinessPolicy = {}
+): Promise<ReadinessCheckPoint[]> {
+  const disabled = new Set(policy.disabled ?? []);
+
+  return Promise.all(
+    plugins
+      .filter((plugin) => !disabled.has(plugin.id))
+      .map(async (plugin): Promise<ReadinessCheckPoint> => {
+        let result: ReadinessProbeResult;
+        try {
+          result = await withTimeout(plugin.run(context), plugin.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS, plugin.name);
+        } catch (error) {
+          result = {
+            status: "failed",
+            score: 0,
+            details: `Probe error: ${error instanceof Error ? error.message : String(error)}`,
+          };
+        }
+
+        return {
+          id: plugin.id,
+          category: plugin.category,
+          name: plugin.name,
+          description: plugin.description,
+          weight: plugin.weight,
+          required: isBlockingCheck(plugin, policy),
+          ...result,
+          checkedAt: new Date(),
+        };
+      })
+  );
+}
+
+/**
+ * Weighted average of check scores; skipped checks don't count either way
+ */
+export function calculateWeightedScore(checks: ReadinessCheckPoint[]): number {
+  const counted = checks.filter((check) => check.status !== "skipped");
+  const totalWeight = counted.reduce((sum, check) => sum + (check.weight ?? 1), 0);
+  if (totalWeight === 0) return 0;
+  return counted.reduce((sum, check) => sum + check.score * (check.weight ?? 1), 0) / totalWeight;
+}
+
+/**
+ * Names of the checks that stop a guard arming under the channel's current
+ * policy. A blocking check missing from the results (added to the policy
+ * after the run) blocks too, so the check has to be re-run.
+ */
+export function getArmingBlockers(checks: ReadinessCheckPoint[], policy: ChannelReadinessPolicy = {}): string[] {
+  const disabled = new Set(policy.disabled ?? []);
+  const blockingIds = policy.blocking ?? checks.filter((check) => check.required).map((check) => check.id);
+
+  return blockingIds
+    .filter((id) => !disabled.has(id))
+    .flatMap((id) => {
+      const check = checks.find((c) => c.id === id);
+      if (!check) return [`${id} (not run)`];
+      return check.status === "failed" ? [check.name] : [];
+    });
+}
+
+export function getChannelReadinessPolicy(settings: unknown): ChannelReadinessPolicy {
+  const readiness = (settings as { readiness?: ChannelReadinessPolicy } | null)?.readiness;
+  return {
+    blocking: Array.isArray(readiness?.blocking) ? readiness.blocking : undefined,
+    disabled: Array.isArray(readiness?.disabled) ? readiness.disabled : undefined,
+  };
+}
+
+/**
+ * Products whose available stock can't cover what the show allocated
+ */
+export function findAllocationShortfalls(
+  allocations: Array<{ productId: string; allocated: number }>,
+  available: Map<string, number>
+): Array<{ productId: string; allocated: number; available: number }> {
+  return allocations
+    .map((allocation) => ({ ...allocation, available: available.get(allocation.productId) ?? 0 }))
+    .filter((row) => row.available < row.allocated);
+}
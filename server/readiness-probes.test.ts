@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("./db", () => ({ getDb: vi.fn() }));
+vi.mock("./rtmp-ingestion", () => ({ getHlsOutputDir: vi.fn(), getLivePlaylistPath: vi.fn() }));
+
+import { paymentGatewayCheck } from "./readiness-probes";
+
+const context = { productId: "product-1" };
+
+describe("Payment Gateway Check", () => {
+  beforeEach(() => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_1");
+    vi.stubEnv("PAYPAL_CLIENT_ID", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("passes when the provider accepts our key", async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response("{}", { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+
+    await expect(paymentGatewayCheck.run(context)).resolves.toMatchObject({ status: "passed", score: 100 });
+    expect(fetch).toHaveBeenCalledWith("https://api.stripe.com/v1/balance", expect.anything());
+  });
+
+  it("fails when the provider rejects our key or cannot be reached", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 401 })));
+    await expect(paymentGatewayCheck.run(context)).resolves.toMatchObject({
+      status: "failed",
+      details: "Unavailable: stripe (HTTP 401)",
+    });
+
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("getaddrinfo ENOTFOUND")));
+    await expect(paymentGatewayCheck.run(context)).resolves.toMatchObject({
+      status: "failed",
+      details: "Unavailable: stripe (getaddrinfo ENOTFOUND)",
+    });
+  });
+
+  it("fails when no provider is configured", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "");
+
+    await expect(paymentGatewayCheck.run(context)).resolves.toMatchObject({ status: "failed" });
+  });
+});
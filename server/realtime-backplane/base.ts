@@ -0,0 +1,64 @@
+/**
+ * Live Shopping Network - Realtime Backplane
+ * Pub/sub and shared state that lets several server instances serve the
+ * same live rooms. Values are strings; callers own their encoding.
+ */
+
+export type BackplaneHandler = (message: string) => void;
+
+export interface Backplane {
+  publish(channel: string, message: string): Promise<void>;
+  // Resolves once the subscription is live; returns an unsubscribe function
+  subscribe(channel: string, handler: BackplaneHandler): Promise<() => Promise<void>>;
+
+  // Hash fields; every write pushes the whole hash's expiry out to ttlMs
+  hset(key: string, field: string, value: string, ttlMs: number): Promise<void>;
+  hdel(key: string, field: string): Promise<void>;
+  hgetall(key: string): Promise<Record<string, string>>;
+
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  // Sets the key only when it has no live value, atomically across nodes;
+  // resolves whether this call set it
+  setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * One node's share of a room. Nodes rewrite their entry on every change and
+ * on a heartbeat, so the entries of a node that died expire on their own.
+ */
+export interface PresenceEntry {
+  clientIds: string[];
+  expiresAt: number;
+}
+
+export function encodePresence(clientIds: string[], ttlMs: number, now: number = Date.now()): string {
+  const entry: PresenceEntry = { clientIds, expiresAt: now + ttlMs };
+  return JSON.stringify(entry);
+}
+
+/**
+ * Everyone in a room across all nodes, skipping expired or unreadable entries
+ */
+export function readPresence(
+  entries: Record<string, string>,
+  now: number = Date.now()
+): { count: number; clientIds: string[] } {
+  const clientIds: string[] = [];
+
+  for (const raw of Object.values(entries)) {
+    try {
+      const entry = JSON.parse(raw) as PresenceEntry;
+      if (entry.expiresAt > now && Array.isArray(entry.clientIds)) {
+        clientIds.push(...entry.clientIds);
+      }
+    } catch {
+      // Written by an incompatible node; ignore it
+    }
+  }
+
+  return { count: clientIds.length, clientIds };
+}
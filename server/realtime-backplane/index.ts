@@ -0,0 +1,17 @@
+/**
+ * Live Shopping Network - Realtime Backplane
+ * Redis when REDIS_URL is set, otherwise in-memory (single instance)
+ */
+
+import { ENV } from "../_core/env";
+import type { Backplane } from "./base";
+import { MemoryBackplane } from "./memory";
+import { RedisBackplane } from "./redis";
+
+export * from "./base";
+export { MemoryBackplane, MemoryBackplaneHub } from "./memory";
+export { RedisBackplane } from "./redis";
+
+export function createBackplane(url: string = ENV.redisUrl): Backplane {
+  return url ? new RedisBackplane(url) : new MemoryBackplane();
+}
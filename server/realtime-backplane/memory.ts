@@ -0,0 +1,146 @@
+/**
+ * Live Shopping Network - In-Memory Backplane
+ * Nodes sharing a hub see each other's messages and state, which is enough
+ * for one process or for several nodes in a test. Messages are delivered
+ * asynchronously, like they would be over the network.
+ */
+
+import type { Backplane, BackplaneHandler } from "./base";
+
+interface StoredValue<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export class MemoryBackplaneHub {
+  private channels: Map<string, Set<BackplaneHandler>> = new Map();
+  private hashes: Map<string, StoredValue<Map<string, string>>> = new Map();
+  private values: Map<string, StoredValue<string>> = new Map();
+
+  publish(channel: string, message: string) {
+    const handlers = Array.from(this.channels.get(channel) ?? []);
+    setImmediate(() => {
+      for (const handler of handlers) {
+        try {
+          handler(message);
+        } catch (error) {
+          console.error(`[Backplane] Handler for ${channel} failed:`, error);
+        }
+      }
+    });
+  }
+
+  subscribe(channel: string, handler: BackplaneHandler): () => void {
+    if (!this.channels.has(channel)) {
+      this.channels.set(channel, new Set());
+    }
+    this.channels.get(channel)!.add(handler);
+    return () => {
+      this.channels.get(channel)?.delete(handler);
+    };
+  }
+
+  hset(key: string, field: string, value: string, ttlMs: number) {
+    const hash = this.liveHash(key) ?? new Map<string, string>();
+    hash.set(field, value);
+    this.hashes.set(key, { value: hash, expiresAt: Date.now() + ttlMs });
+  }
+
+  hdel(key: string, field: string) {
+    const hash = this.liveHash(key);
+    if (!hash) return;
+    hash.delete(field);
+    if (hash.size === 0) this.hashes.delete(key);
+  }
+
+  hgetall(key: string): Record<string, string> {
+    return Object.fromEntries(this.liveHash(key) ?? []);
+  }
+
+  set(key: string, value: string, ttlMs: number) {
+    this.values.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  setIfAbsent(key: string, value: string, ttlMs: number): boolean {
+    if (this.get(key) !== null) return false;
+    this.set(key, value, ttlMs);
+    return true;
+  }
+
+  get(key: string): string | null {
+    const stored = this.values.get(key);
+    if (!stored) return null;
+    if (stored.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+    return stored.value;
+  }
+
+  del(key: string) {
+    this.values.delete(key);
+    this.hashes.delete(key);
+  }
+
+  private liveHash(key: string): Map<string, string> | null {
+    const stored = this.hashes.get(key);
+    if (!stored) return null;
+    if (stored.expiresAt <= Date.now()) {
+      this.hashes.delete(key);
+      return null;
+    }
+    return stored.value;
+  }
+}
+
+export class MemoryBackplane implements Backplane {
+  private unsubscribers: Set<() => void> = new Set();
+
+  constructor(private hub: MemoryBackplaneHub = new MemoryBackplaneHub()) {}
+
+  async publish(channel: string, message: string) {
+    this.hub.publish(channel, message);
+  }
+
+  async subscribe(channel: string, handler: BackplaneHandler) {
+    const unsubscribe = this.hub.subscribe(channel, handler);
+    this.unsubscribers.add(unsubscribe);
+    return async () => {
+      unsubscribe();
+      this.unsubscribers.delete(unsubscribe);
+    };
+  }
+
+  async hset(key: string, field: string, value: string, ttlMs: number) {
+    this.hub.hset(key, field, value, ttlMs);
+  }
+
+  async hdel(key: string, field: string) {
+    this.hub.hdel(key, field);
+  }
+
+  async hgetall(key: string) {
+    return this.hub.hgetall(key);
+  }
+
+  async set(key: string, value: string, ttlMs: number) {
+    this.hub.set(key, value, ttlMs);
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs: number) {
+    return this.hub.setIfAbsent(key, value, ttlMs);
+  }
+
+  async get(key: string) {
+    return this.hub.get(key);
+  }
+
+  async del(key: string) {
+    this.hub.del(key);
+  }
+
+  async close() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers.clear();
+  }
+}
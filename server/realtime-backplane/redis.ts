@@ -0,0 +1,118 @@
+/**
+ * Live Shopping Network - Redis Backplane
+ * Works against Redis and compatible servers (Valkey, KeyDB, managed Redis;
+ * rediss:// urls connect over TLS) through ioredis. Pub/sub uses its own
+ * connection, as Redis requires; ioredis reconnects both on its own and
+ * restores subscriptions after a reconnect.
+ */
+
+import Redis from "ioredis";
+import type { Backplane, BackplaneHandler } from "./base";
+
+const RECONNECT_DELAYS_MS = [100, 500, 1000, 2000, 5000];
+
+function connect(url: string): Redis {
+  const connection = new Redis(url, {
+    // Connect on the first command, so an idle node holds no sockets
+    lazyConnect: true,
+    retryStrategy: (times) => RECONNECT_DELAYS_MS[Math.min(times - 1, RECONNECT_DELAYS_MS.length - 1)],
+    // While Redis is down, fail commands after one reconnect attempt rather
+    // than queue them (live updates are stale by the time it is back)
+    maxRetriesPerRequest: 1,
+  });
+  connection.on("error", (error) => {
+    console.error("[Backplane] Redis connection error:", error.message);
+  });
+  return connection;
+}
+
+async function disconnect(connection: Redis) {
+  // Never connected: there is nothing to QUIT
+  if (connection.status === "wait") {
+    connection.disconnect();
+    return;
+  }
+  await connection.quit();
+}
+
+export class RedisBackplane implements Backplane {
+  private commands: Redis;
+  private subscriber: Redis;
+  private handlers: Map<string, Set<BackplaneHandler>> = new Map();
+
+  constructor(url: string) {
+    this.commands = connect(url);
+    this.subscriber = connect(url);
+    this.subscriber.on("message", (channel: string, message: string) => this.dispatch(channel, message));
+  }
+
+  async publish(channel: string, message: string) {
+    await this.commands.publish(channel, message);
+  }
+
+  async subscribe(channel: string, handler: BackplaneHandler) {
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      try {
+        await this.subscriber.subscribe(channel);
+      } catch (error) {
+        this.handlers.delete(channel);
+        throw error;
+      }
+    }
+    handlers.add(handler);
+
+    return async () => {
+      const current = this.handlers.get(channel);
+      if (!current?.delete(handler) || current.size > 0) return;
+      this.handlers.delete(channel);
+      await this.subscriber.unsubscribe(channel);
+    };
+  }
+
+  async hset(key: string, field: string, value: string, ttlMs: number) {
+    await this.commands.hset(key, field, value);
+    await this.commands.pexpire(key, ttlMs);
+  }
+
+  async hdel(key: string, field: string) {
+    await this.commands.hdel(key, field);
+  }
+
+  async hgetall(key: string) {
+    return this.commands.hgetall(key);
+  }
+
+  async set(key: string, value: string, ttlMs: number) {
+    await this.commands.set(key, value, "PX", ttlMs);
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs: number) {
+    return (await this.commands.set(key, value, "PX", ttlMs, "NX")) === "OK";
+  }
+
+  async get(key: string) {
+    return this.commands.get(key);
+  }
+
+  async del(key: string) {
+    await this.commands.del(key);
+  }
+
+  async close() {
+    this.handlers.clear();
+    await Promise.all([disconnect(this.commands), disconnect(this.subscriber)]);
+  }
+
+  private dispatch(channel: string, message: string) {
+    this.handlers.get(channel)?.forEach((handler) => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`[Backplane] Handler for ${channel} failed:`, error);
+      }
+    });
+  }
+}
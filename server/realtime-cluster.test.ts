@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { SHOW_CHANNEL_MESSAGES } from "../shared/live-show-channel";
+import { TestSocket, startLocalCluster, type LocalCluster } from "./realtime-cluster";
+
+const msg = (type: string, payload: object) => ({ type, payload, timestamp: Date.now() });
+const viewerCount = (count: number) => (m: any) => m.type === "viewer_count_update" && m.payload.viewerCount === count;
+
+// Session token -> user; user 1 hosts every show
+const signaling = {
+  authenticate: async (_req: unknown, token?: string) => {
+    if (!token) throw new Error("Invalid session cookie");
+    return { id: Number(token) };
+  },
+  getShowHostId: async () => 1,
+};
+
+describe("Realtime Cluster", () => {
+  let cluster: LocalCluster;
+  let sockets: TestSocket[];
+
+  const connect = async (url: string) => {
+    const socket = await TestSocket.connect(url);
+    sockets.push(socket);
+    return socket;
+  };
+
+  beforeEach(async () => {
+    cluster = await startLocalCluster(2, { signaling });
+    sockets = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(sockets.map((socket) => socket.close()));
+    await cluster.close();
+  });
+
+  it("should share a room's audience and broadcasts across nodes", async () => {
+    const [a, b] = cluster.nodes;
+    const alice = await connect(a.websocketUrl);
+    const bob = await connect(b.websocketUrl);
+
+    alice.send(msg("join_room", { roomId: "show_1" }));
+    expect((await alice.next("joined_room")).payload.viewerCount).toBe(1);
+    bob.send(msg("join_room", { roomId: "show_1" }));
+    expect((await bob.next("joined_room")).payload.viewerCount).toBe(2);
+    await alice.next(viewerCount(2));
+
+    bob.send(msg("viewer_stats", { roomId: "show_1" }));
+    expect((await bob.next("viewer_stats")).payload.clients).toHaveLength(2);
+
+    a.websocket.broadcastToShow("show_1", msg("show_state_changed", { status: "live" }));
+    expect((await bob.next("show_state_changed")).payload.status).toBe("live");
+
+    // Channel frames keep the publishing node's sequence on every node
+    bob.send(msg(SHOW_CHANNEL_MESSAGES.subscribe, { showId: "show_1" }));
+    await bob.next(SHOW_CHANNEL_MESSAGES.snapshot);
+    await bob.next("joined_room");
+    a.showChannel.publish("show_1", { type: "stock_changed", productId: "mug", available: 3 });
+    a.showChannel.publish("show_1", { type: "stock_changed", productId: "mug", available: 2 });
+    expect((await bob.next(SHOW_CHANNEL_MESSAGES.event)).payload.seq).toBe(1);
+    expect((await bob.next(SHOW_CHANNEL_MESSAGES.event)).payload.seq).toBe(2);
+    expect(b.showChannel.getSeq("show_1")).toBe(2);
+
+    await alice.close();
+    await bob.next(viewerCount(1));
+  });
+
+  it("should resume a session on a different node", async () => {
+    const [a, b] = cluster.nodes;
+    const alice = await connect(a.websocketUrl);
+    const { resumeToken } = (await alice.next("connected")).payload;
+    alice.send(msg("join_room", { roomId: "show_2", showId: "show_2" }));
+    await alice.next("joined_room");
+    await alice.close();
+
+    const reconnected = await connect(b.websocketUrl);
+    reconnected.send(msg("resume", { resumeToken }));
+    expect((await reconnected.next("joined_room")).payload.viewerCount).toBe(1);
+    expect((await reconnected.next("resumed")).payload.rooms).toEqual(["show_2"]);
+
+    // A token is good for one resume
+    const again = await connect(a.websocketUrl);
+    again.send(msg("resume", { resumeToken }));
+    await again.next("resume_failed");
+  });
+
+  it("should relay signaling between a host and viewer on different nodes", async () => {
+    const [a, b] = cluster.nodes;
+    const host = await connect(a.signalingUrl);
+    const viewer = await connect(b.signalingUrl);
+
+    host.send({ type: "join", showId: "show_3", token: "1", role: "host" });
+    const hostPeerId = (await host.next("join")).peerId;
+    viewer.send({ type: "join", showId: "show_3", token: "2", role: "viewer" });
+    const viewerPeerId = (await viewer.next("join")).peerId;
+    expect((await host.next("join")).peerId).toBe(viewerPeerId);
+
+    viewer.send({ type: "offer", peerId: hostPeerId, sdp: { type: "offer", sdp: "v=0" } });
+    expect(await host.next("offer")).toMatchObject({ peerId: viewerPeerId, sdp: { sdp: "v=0" } });
+
+    const rival = await connect(b.signalingUrl);
+    rival.send({ type: "join", showId: "show_3", token: "1", role: "host" });
+    expect((await rival.next("error")).error).toBe("Room already has a host");
+
+    expect(await b.signaling.getRoomStats("show_3")).toMatchObject({ hasHost: true, viewerCount: 1 });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Local Realtime Cluster
+ * Runs several websocket and signaling nodes in one process over a shared
+ * in-memory backplane, so multi-instance behaviour can be exercised without
+ * Redis or a load balancer. Used by the tests; handy for local experiments.
+ */
+
+import { WebSocket } from "ws";
+import { ShowChannelHub } from "./live-show-channel";
+import { MemoryBackplane, MemoryBackplaneHub } from "./realtime-backplane";
+import { WebRTCSignalingServer, type SignalingServerOptions } from "./webrtc-signaling";
+import { WebSocketManager } from "./websocket-server";
+
+const DEFAULT_WAIT_MS = 2000;
+
+export interface LocalClusterNode {
+  websocket: WebSocketManager;
+  signaling: WebRTCSignalingServer;
+  showChannel: ShowChannelHub;
+  websocketUrl: string;
+  signalingUrl: string;
+}
+
+export interface LocalCluster {
+  hub: MemoryBackplaneHub;
+  nodes: LocalClusterNode[];
+  close(): Promise<void>;
+}
+
+export interface LocalClusterOptions {
+  // Signaling auth and show lookups, e.g. fixed test users
+  signaling?: Omit<SignalingServerOptions, "backplane">;
+}
+
+/**
+ * Start nodeCount nodes on free ports. Only the first node listens to the
+ * process-wide show lifecycle and price drop events, as if the show ran
+ * there; each node has its own show channel hub.
+ */
+export async function startLocalCluster(
+  nodeCount: number = 2,
+  options: LocalClusterOptions = {}
+): Promise<LocalCluster> {
+  const hub = new MemoryBackplaneHub();
+  const nodes: LocalClusterNode[] = [];
+
+  for (let i = 0; i < nodeCount; i++) {
+    const showChannel = new ShowChannelHub();
+    const websocket = new WebSocketManager({
+      port: 0,
+      backplane: new MemoryBackplane(hub),
+      showChannel,
+      subscribeToShowEvents: i === 0,
+    });
+    const signaling = new WebRTCSignalingServer(0, { ...options.signaling, backplane: new MemoryBackplane(hub) });
+    const [websocketPort, signalingPort] = await Promise.all([websocket.ready, signaling.ready]);
+
+    nodes.push({
+      websocket,
+      signaling,
+      showChannel,
+      websocketUrl: `ws://127.0.0.1:${websocketPort}`,
+      signalingUrl: `ws://127.0.0.1:${signalingPort}`,
+    });
+  }
+
+  return {
+    hub,
+    nodes,
+    async close() {
+      await Promise.all(nodes.map((node) => Promise.all([node.websocket.close(), node.signaling.close()])));
+    },
+  };
+}
+
+interface Waiter {
+  match(message: any): boolean;
+  resolve(message: any): void;
+  reject(error: Error): void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * A scripted client: send JSON, wait for the next message that matches.
+ * Messages are buffered from the moment the socket opens, so nothing is
+ * missed between a send and the wait for its reply.
+ */
+export class TestSocket {
+  private received: any[] = [];
+  private waiters: Waiter[] = [];
+
+  private constructor(private ws: WebSocket) {
+    ws.on("message", (data) => {
+      const message = JSON.parse(data.toString());
+      const index = this.waiters.findIndex((waiter) => waiter.match(message));
+      if (index === -1) {
+        this.received.push(message);
+        return;
+      }
+      const [waiter] = this.waiters.splice(index, 1);
+      clearTimeout(waiter.timer);
+      waiter.resolve(message);
+    });
+  }
+
+  static connect(url: string): Promise<TestSocket> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      const socket = new TestSocket(ws);
+      ws.once("open", () => resolve(socket));
+      ws.once("error", reject);
+    });
+  }
+
+  send(message: object) {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  /**
+   * The next message matching the predicate, or a websocket-server message
+   * of that type
+   */
+  next(match: string | ((message: any) => boolean), timeoutMs: number = DEFAULT_WAIT_MS): Promise<any> {
+    const predicate = typeof match === "string" ? (message: any) => message.type === match : match;
+
+    const index = this.received.findIndex(predicate);
+    if (index !== -1) {
+      return Promise.resolve(this.received.splice(index, 1)[0]);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        match: predicate,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          reject(new Error(`Timed out waiting for ${typeof match === "string" ? match : "message"}`));
+        }, timeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  close(): Promise<void> {
+    if (this.ws.readyState === WebSocket.CLOSED) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.ws.once("close", () => resolve());
+      this.ws.close();
+    });
+  }
+}
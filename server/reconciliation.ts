@@ -9,7 +9,12 @@ import {
   reviewQueueItems,
   auditLog,
 } from "../drizzle/schema";
-import { eq, and, sql, gte, lte, desc } from "drizzle-orm";
+import { eq, and, or, sql, gte, lte, desc } from "drizzle-orm";
+import {
+  parseSettlementFile,
+  type SettlementParseError,
+  type SettlementProvider,
+} from "./settlement-parsers";
 
 /**
  * Live Shopping Network - Payment Reconciliation Engine
@@ -25,6 +30,7 @@ export interface SettlementImport {
   currency: string;
   lines: SettlementLine[];
   rawData: any;
+  fileHash?: string;
 }
 
 export interface SettlementLine {
@@ -58,6 +64,24 @@ export interface Discrepancy {
   description: string;
 }
 
+export interface SettlementFileImportResult {
+  status: "imported" | "duplicate" | "invalid";
+  // New settlement, or the one already imported from this file
+  settlementId?: string;
+  lineCount: number;
+  errors: SettlementParseError[];
+}
+
+function errorCode(error: unknown): unknown {
+  return typeof error === "object" && error !== null && "code" in error ? error.code : undefined;
+}
+
+// drizzle wraps driver errors, so the MySQL code may be on the cause
+function isDuplicateEntry(error: unknown): boolean {
+  const code = errorCode(error) ?? (error instanceof Error ? errorCode(error.cause) : undefined);
+  return code === "ER_DUP_ENTRY";
+}
+
 /**
  * Reconciliation Service
  */
@@ -82,6 +106,7 @@ export class ReconciliationService {
       currency: data.currency,
       status: "pending",
       rawData: data.rawData,
+      fileHash: data.fileHash,
     });
 
     // Create settlement lines
@@ -122,6 +147,82 @@ export class ReconciliationService {
     return settlementId;
   }
 
+  /**
+   * Import a provider settlement file. Files with parse errors are rejected
+   * unless skipInvalidLines is set, so totals are never silently short.
+   * A file already imported (same content or same settlement ID) is
+   * reported as a duplicate.
+   */
+  static async importSettlementFile(
+    channelId: string,
+    provider: SettlementProvider,
+    content: string,
+    options: { skipInvalidLines?: boolean } = {}
+  ): Promise<SettlementFileImportResult> {
+    const parsed = parseSettlementFile(provider, content);
+    const lineCount = parsed.lines.length;
+
+    if (lineCount === 0 || !parsed.settlementId || (parsed.errors.length > 0 && !options.skipInvalidLines)) {
+      return { status: "invalid", lineCount, errors: parsed.errors };
+    }
+
+    const existing = await this.findImportedSettlement(channelId, parsed.fileHash, parsed.settlementId);
+    if (existing) {
+      return { status: "duplicate", settlementId: existing, lineCount, errors: parsed.errors };
+    }
+
+    let settlementId: string;
+    try {
+      settlementId = await this.importSettlement({
+        channelId,
+        platform: provider,
+        settlementId: parsed.settlementId,
+        settlementDate: parsed.settlementDate,
+        totalAmount: parsed.totalAmount,
+        currency: parsed.currency,
+        lines: parsed.lines,
+        fileHash: parsed.fileHash,
+        rawData: {
+          source: "file",
+          format: parsed.format,
+          rowCount: parsed.rowCount,
+          skippedLines: parsed.errors,
+        },
+      });
+    } catch (error) {
+      // The settlement row goes in first, so a concurrent import of the same
+      // file fails on the unique indexes before writing anything
+      if (!isDuplicateEntry(error)) throw error;
+      const winner = await this.findImportedSettlement(channelId, parsed.fileHash, parsed.settlementId);
+      if (!winner) throw error;
+      return { status: "duplicate", settlementId: winner, lineCount, errors: parsed.errors };
+    }
+
+    return { status: "imported", settlementId, lineCount, errors: parsed.errors };
+  }
+
+  private static async findImportedSettlement(
+    channelId: string,
+    fileHash: string,
+    settlementId: string
+  ): Promise<string | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [existing] = await db
+      .select({ id: settlements.id })
+      .from(settlements)
+      .where(
+        and(
+          eq(settlements.channelId, channelId),
+          or(eq(settlements.fileHash, fileHash), eq(settlements.settlementId, settlementId))
+        )
+      )
+      .limit(1);
+
+    return existing?.id ?? null;
+  }
+
   /**
    * Reconcile settlement against internal records
    */
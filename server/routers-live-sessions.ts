@@ -1,5 +1,8 @@
 import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
 import { protectedProcedure, router } from './_core/trpc';
+import { showLifecycle, normalizeShowStatus, triggerForTargetStatus } from './live-show-state-machine';
+import { requireLiveSessionOwner } from './live-session-access';
 
 /**
  * Live Sessions Router
@@ -82,8 +85,32 @@ export const liveSessionsRouter = router({
       description: z.string().min(1).optional(),
       scheduledAt: z.string().optional(),
       status: z.enum(['scheduled', 'live', 'ended']).optional(),
+      guardId: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      // Status changes go through the show lifecycle so go-live guards apply
+      if (input.status) {
+        const session = await requireLiveSessionOwner(ctx.user, input.id);
+        try {
+          // A session the lifecycle hasn't seen starts from its recorded status
+          const current = (await showLifecycle.getState(input.id)) ?? normalizeShowStatus(session.status);
+          const trigger = triggerForTargetStatus(current, input.status);
+          if (trigger) {
+            await showLifecycle.transition(input.id, trigger, {
+              guardId: input.guardId,
+              actorId: ctx.user.id.toString(),
+              channelId: session.channelId,
+              legacyStatus: session.status,
+            });
+          }
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Invalid status change',
+          });
+        }
+      }
+
       // Mock update - would update in database
       return { success: true, id: input.id };
     }),
@@ -1,11 +1,18 @@
 import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
 import { publicProcedure, protectedProcedure, router } from './_core/trpc';
+import { showLifecycle, toRouterStatus, isOnAir } from './live-show-state-machine';
+import { getPinnedProducts, getViewerShow, recordShowOrder } from './live-show-runner';
 
 /**
  * Live Shows Router
- * Handles live streaming shows and schedules
+ * Handles live streaming shows and schedules. The viewer endpoints read and
+ * write through the show runner, so they agree with the show channel.
  */
 
+// Pinned products at or below this many units show as low stock
+const LOW_STOCK_THRESHOLD = 10;
+
 export const liveShowsRouter = router({
   getLive: publicProcedure.query(async () => {
     // Mock live shows data - replace with actual database queries
@@ -91,29 +98,36 @@ export const liveShowsRouter = router({
       return mockUpcomingShows.slice(0, input.limit);
     }),
 
+  // Initial state for the viewer page; live changes come over the show channel
   getById: publicProcedure
     .input(z.object({
       id: z.string()
     }))
     .query(async ({ input }) => {
-      // Mock show details
+      try {
+        return await getViewerShow(input.id);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Show not found') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Show not found' });
+        }
+        throw error;
+      }
+    }),
+
+  // Authoritative lifecycle state for a show
+  getLifecycle: publicProcedure
+    .input(z.object({
+      showId: z.string()
+    }))
+    .query(async ({ input }) => {
+      const state = (await showLifecycle.getState(input.showId)) ?? 'SCHEDULED';
       return {
-        id: input.id,
-        title: 'Tech Gadgets Flash Sale',
-        description: 'Amazing deals on the latest tech gadgets!',
-        creatorName: 'Sarah Tech',
-        creatorAvatar: '/avatars/sarah.jpg',
-        viewerCount: 1247,
-        thumbnail: '/thumbnails/tech-sale.jpg',
-        startedAt: Date.now() - 1000 * 60 * 15,
-        status: 'live' as const,
-        category: 'Electronics',
-        streamUrl: 'https://stream.example.com/live/show-1',
-        chatEnabled: true,
-        products: [
-          { id: '1', name: 'Wireless Earbuds', price: 79.99, stock: 50 },
-          { id: '2', name: 'Smart Watch', price: 199.99, stock: 30 }
-        ]
+        showId: input.showId,
+        state,
+        status: toRouterStatus(state),
+        isLive: isOnAir(state),
+        allowedTriggers: showLifecycle.getAllowedTriggers(state),
+        history: await showLifecycle.getHistory(input.showId, 20),
       };
     }),
 
@@ -134,32 +148,36 @@ export const liveShowsRouter = router({
       return { success: true };
     }),
 
-  // Track purchase during live show
+  // Count the viewer's order toward the show; viewers see the new stock
   trackPurchase: protectedProcedure
     .input(z.object({
       showId: z.string(),
-      productId: z.string(),
-      userId: z.number(),
-      amount: z.number(),
+      orderId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      // Track purchase event
-      console.log(`Purchase tracked: User ${input.userId} bought product ${input.productId} in show ${input.showId}`);
-      return { success: true };
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const recorded = await recordShowOrder(input.showId, input.orderId, ctx.user.email);
+        return { success: true, recorded };
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Order not found') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Order not found' });
+        }
+        throw error;
+      }
     }),
 
-  // Get live stock for products in a show
+  // Stock of the show's pinned products; changes after this are pushed
   getLiveStock: publicProcedure
     .input(z.object({
       showId: z.string(),
     }))
     .query(async ({ input }) => {
-      // Mock live stock data
-      // In production, this would query real-time inventory
-      return [
-        { productId: '1', stock: 47, lowStock: false },
-        { productId: '2', stock: 8, lowStock: true },
-        { productId: '3', stock: 0, lowStock: false, soldOut: true },
-      ];
+      const pins = await getPinnedProducts(input.showId);
+      return pins.map(pin => ({
+        productId: pin.productId,
+        available: pin.stockAvailable,
+        lowStock: pin.stockAvailable > 0 && pin.stockAvailable <= LOW_STOCK_THRESHOLD,
+        soldOut: pin.stockAvailable === 0,
+      }));
     }),
 });
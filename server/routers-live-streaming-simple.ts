@@ -18,6 +18,8 @@ import {
 } from '../drizzle/schema';
 import { eq, desc, and, sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
+import { ENV } from './_core/env';
+import { getStreamKeySummary, rotateStreamKey } from './stream-keys';
 
 export const liveStreamingRouter = router({
   // ============================================================================
@@ -84,20 +86,19 @@ export const liveStreamingRouter = router({
     .mutation(async ({ input, ctx }) => {
       const db = getDbSync();
       const showId = nanoid();
-      const streamKey = nanoid(32);
       
+      // Hosts publish with their own stream key (getStreamKey), not a per-show one
       await db.insert(liveShows).values({
         id: showId,
         hostId: ctx.user!.id,
         title: input.title,
         description: input.description,
         scheduledStartAt: input.scheduledStartAt,
-        streamKey,
         status: 'scheduled',
         settings: input.settings as any,
       });
       
-      return { id: showId, streamKey };
+      return { id: showId };
     }),
   
   startShow: protectedProcedure
@@ -154,6 +155,19 @@ export const liveStreamingRouter = router({
       return { success: true };
     }),
   
+  // The key itself is only ever returned by rotateStreamKey
+  getStreamKey: protectedProcedure
+    .query(async ({ ctx }) => {
+      const key = await getStreamKeySummary(ctx.user!.id);
+      return { ingestUrl: ENV.rtmpIngestUrl || null, key };
+    }),
+  
+  rotateStreamKey: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      const { streamKey, keyPrefix } = await rotateStreamKey(ctx.user!.id);
+      return { ingestUrl: ENV.rtmpIngestUrl || null, streamKey, keyPrefix };
+    }),
+  
   // ============================================================================
   // VIEWER: Join & Watch
   // ============================================================================
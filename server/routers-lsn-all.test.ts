@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./lsn-purchasing-supplier-os", () => ({ default: {} }));
+vi.mock("./lsn-creator-economy-scheduling", () => ({ default: { startLiveShow: vi.fn(), endLiveShow: vi.fn() } }));
+vi.mock("./lsn-fraud-financial-ops", () => ({ default: {} }));
+vi.mock("./lsn-executive-dashboard-bi", () => ({ default: {} }));
+vi.mock("./lsn-financial-operations", () => ({
+  creatorPayoutService: {
+    findCreatorIdByEmail: vi.fn(),
+    listPayouts: vi.fn(),
+    buildStatement: vi.fn(),
+    getPayoutStatement: vi.fn(),
+    exportPayoutStatement: vi.fn(),
+    disputeStatementLine: vi.fn(),
+  },
+}));
+
+vi.mock("./live-session-access", () => ({
+  findCreatorIdByEmail: vi.fn(),
+  requireLiveSessionOwner: vi.fn(),
+}));
+
+import { TRPCError } from "@trpc/server";
+import creatorOps from "./lsn-creator-economy-scheduling";
+import { creatorPayoutService } from "./lsn-financial-operations";
+import { findCreatorIdByEmail, requireLiveSessionOwner } from "./live-session-access";
+import { lsnCreatorRouter } from "./routers-lsn-all";
+import type { TrpcContext } from "./_core/context";
+
+function caller(role: "user" | "admin", email: string | null = "sam@example.com") {
+  const ctx: TrpcContext = {
+    req: {} as any,
+    res: {} as any,
+    user: {
+      id: 7,
+      openId: "user-7",
+      name: "Sam Lee",
+      email,
+      loginMethod: null,
+      role,
+      isBanned: false,
+      bannedAt: null,
+      banReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+  };
+  return lsnCreatorRouter.createCaller(ctx);
+}
+
+describe("Creator payout access", () => {
+  const service = vi.mocked(creatorPayoutService);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service.findCreatorIdByEmail.mockResolvedValue("creator-1");
+  });
+
+  it("lists only the caller's own payouts", async () => {
+    service.listPayouts.mockResolvedValue([]);
+
+    await caller("user").listPayouts();
+
+    expect(service.listPayouts).toHaveBeenCalledWith({ creatorId: "creator-1" });
+  });
+
+  it("scopes statement lookups, exports and disputes to the caller's creator", async () => {
+    const api = caller("user");
+
+    await api.getPayoutStatement({ channelId: "channel-1", payoutId: "payout-1" });
+    await api.exportPayoutStatement({ channelId: "channel-1", payoutId: "payout-1", format: "csv" });
+    await api.disputePayoutLine({ channelId: "channel-1", payoutId: "payout-1", payoutItemId: "item-1", reason: "Wrong rate" });
+
+    expect(service.getPayoutStatement).toHaveBeenCalledWith("channel-1", "payout-1", "creator-1");
+    expect(service.exportPayoutStatement).toHaveBeenCalledWith("channel-1", "payout-1", "csv", "creator-1");
+    expect(service.disputeStatementLine).toHaveBeenCalledWith("channel-1", "payout-1", "item-1", "Wrong rate", "7", "creator-1");
+  });
+
+  it("rejects previews of another creator's statement", async () => {
+    await expect(
+      caller("user").previewPayoutStatement({
+        channelId: "channel-1",
+        creatorId: "creator-2",
+        periodStart: "2026-03-01",
+        periodEnd: "2026-03-31",
+      })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(service.buildStatement).not.toHaveBeenCalled();
+  });
+
+  it("rejects users without a creator profile", async () => {
+    service.findCreatorIdByEmail.mockResolvedValue(null);
+
+    await expect(caller("user").listPayouts()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller("user", null).getPayoutStatement({ channelId: "channel-1", payoutId: "payout-1" }))
+      .rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("lets admins act for any creator", async () => {
+    await caller("admin").getPayoutStatement({ channelId: "channel-1", payoutId: "payout-1" });
+    await caller("admin").previewPayoutStatement({
+      channelId: "channel-1",
+      creatorId: "creator-2",
+      periodStart: "2026-03-01",
+      periodEnd: "2026-03-31",
+    });
+
+    expect(service.getPayoutStatement).toHaveBeenCalledWith("channel-1", "payout-1", undefined);
+    expect(service.buildStatement).toHaveBeenCalledWith(
+      "channel-1",
+      "creator-2",
+      new Date("2026-03-01"),
+      new Date("2026-03-31")
+    );
+    expect(service.findCreatorIdByEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe("Go-live overrides", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("rejects overrides from non-admins", async () => {
+    await expect(
+      caller("user").startLiveShow({ slotId: "slot-1", override: { reason: "Guard is down" } })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(creatorOps.startLiveShow).not.toHaveBeenCalled();
+  });
+
+  it("records the admin caller as the approver", async () => {
+    await caller("admin").startLiveShow({ slotId: "slot-1", override: { reason: "Guard is down" } });
+
+    expect(creatorOps.startLiveShow).toHaveBeenCalledWith("slot-1", {
+      guardId: undefined,
+      override: { approvedBy: "7", reason: "Guard is down" },
+      actorId: "7",
+    });
+  });
+});
+
+describe("Show ownership", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("starts only the calling creator's own slots", async () => {
+    vi.mocked(findCreatorIdByEmail).mockResolvedValue("creator-1");
+
+    await caller("user").startLiveShow({ slotId: "slot-1", guardId: "guard-1" });
+
+    expect(creatorOps.startLiveShow).toHaveBeenCalledWith("slot-1", expect.objectContaining({ creatorId: "creator-1" }));
+  });
+
+  it("refuses to start a slot for a user with no creator profile", async () => {
+    vi.mocked(findCreatorIdByEmail).mockResolvedValue(null);
+
+    await expect(caller("user").startLiveShow({ slotId: "slot-1" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(creatorOps.startLiveShow).not.toHaveBeenCalled();
+  });
+
+  it("refuses to end another creator's show", async () => {
+    vi.mocked(requireLiveSessionOwner).mockRejectedValue(new TRPCError({ code: "FORBIDDEN" }));
+
+    await expect(caller("user").endLiveShow({ showId: "show-1" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(requireLiveSessionOwner).toHaveBeenCalledWith(expect.objectContaining({ id: 7 }), "show-1");
+    expect(creatorOps.endLiveShow).not.toHaveBeenCalled();
+  });
+});
@@ -4,11 +4,35 @@
  */
 
 import { z } from "zod";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure, protectedProcedure, adminProcedure, router } from "./_core/trpc";
 import purchasingOps from "./lsn-purchasing-supplier-os";
 import creatorOps from "./lsn-creator-economy-scheduling";
 import fraudOps from "./lsn-fraud-financial-ops";
 import executiveOps from "./lsn-executive-dashboard-bi";
+import { creatorPayoutService } from "./lsn-financial-operations";
+import { findCreatorIdByEmail, requireLiveSessionOwner } from "./live-session-access";
+
+/**
+ * Creator whose payouts the caller may see. Admins may act for any creator
+ * (undefined means all); anyone else only for the creator profile
+ * registered to their email.
+ */
+async function resolvePayoutCreator(
+  user: { role: string; email: string | null },
+  creatorId?: string
+): Promise<string | undefined> {
+  if (user.role === "admin") return creatorId;
+
+  const ownCreatorId = user.email ? await creatorPayoutService.findCreatorIdByEmail(user.email) : null;
+  if (!ownCreatorId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "No creator profile for this account" });
+  }
+  if (creatorId && creatorId !== ownCreatorId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You can only view your own payouts" });
+  }
+  return ownCreatorId;
+}
 
 export const lsnPurchasingRouter = router({
   onboardSupplier: protectedProcedure
@@ -176,15 +200,42 @@ export const lsnCreatorRouter = router({
     }),
 
   startLiveShow: protectedProcedure
-    .input(z.object({ scheduleId: z.number() }))
-    .mutation(async ({ input }) => {
-      return await creatorOps.startLiveShow(input.scheduleId);
+    .input(z.object({
+      slotId: z.string(),
+      guardId: z.string().optional(),
+      // Admin-only; the caller is recorded as the approver
+      override: z.object({
+        reason: z.string().min(1),
+      }).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.override && ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only admins can override the go-live guard" });
+      }
+
+      // Admins start any slot; a creator only their own
+      let creatorId: string | undefined;
+      if (ctx.user.role !== "admin") {
+        creatorId = (await findCreatorIdByEmail(ctx.user.email)) ?? undefined;
+        if (!creatorId) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "No creator profile for this account" });
+        }
+      }
+
+      const actorId = ctx.user.id.toString();
+      return await creatorOps.startLiveShow(input.slotId, {
+        guardId: input.guardId,
+        override: input.override && { approvedBy: actorId, reason: input.override.reason },
+        actorId,
+        creatorId,
+      });
     }),
 
   endLiveShow: protectedProcedure
-    .input(z.object({ showId: z.number() }))
-    .mutation(async ({ input }) => {
-      return await creatorOps.endLiveShow(input.showId);
+    .input(z.object({ showId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireLiveSessionOwner(ctx.user, input.showId);
+      return await creatorOps.endLiveShow(input.showId, ctx.user.id.toString());
     }),
 
   calculateCreatorPayout: protectedProcedure
@@ -221,6 +272,100 @@ export const lsnCreatorRouter = router({
     .query(async ({ input }) => {
       return await creatorOps.getCreatorDashboard(input.creatorId, input.days);
     }),
+
+  listPayouts: protectedProcedure
+    .input(z.object({ creatorId: z.string().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      const creatorId = await resolvePayoutCreator(ctx.user, input?.creatorId);
+      return await creatorPayoutService.listPayouts({ creatorId });
+    }),
+
+  previewPayoutStatement: protectedProcedure
+    .input(z.object({
+      channelId: z.string(),
+      creatorId: z.string().optional(),
+      periodStart: z.string(),
+      periodEnd: z.string(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const creatorId = await resolvePayoutCreator(ctx.user, input.creatorId);
+      if (!creatorId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "creatorId is required" });
+      }
+      return await creatorPayoutService.buildStatement(
+        input.channelId,
+        creatorId,
+        new Date(input.periodStart),
+        new Date(input.periodEnd)
+      );
+    }),
+
+  getPayoutStatement: protectedProcedure
+    .input(z.object({ channelId: z.string(), payoutId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const creatorId = await resolvePayoutCreator(ctx.user);
+      return await creatorPayoutService.getPayoutStatement(input.channelId, input.payoutId, creatorId);
+    }),
+
+  exportPayoutStatement: protectedProcedure
+    .input(z.object({
+      channelId: z.string(),
+      payoutId: z.string(),
+      format: z.enum(["csv", "pdf"]),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const creatorId = await resolvePayoutCreator(ctx.user);
+      return await creatorPayoutService.exportPayoutStatement(
+        input.channelId,
+        input.payoutId,
+        input.format,
+        creatorId
+      );
+    }),
+
+  disputePayoutLine: protectedProcedure
+    .input(z.object({
+      channelId: z.string(),
+      payoutId: z.string(),
+      payoutItemId: z.string(),
+      reason: z.string().min(1),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const creatorId = await resolvePayoutCreator(ctx.user);
+      const disputeId = await creatorPayoutService.disputeStatementLine(
+        input.channelId,
+        input.payoutId,
+        input.payoutItemId,
+        input.reason,
+        ctx.user.id.toString(),
+        creatorId
+      );
+      return { disputeId };
+    }),
+
+  getOpenPayoutDisputes: adminProcedure
+    .input(z.object({ channelId: z.string() }))
+    .query(async ({ input }) => {
+      return await creatorPayoutService.getOpenStatementDisputes(input.channelId);
+    }),
+
+  resolvePayoutDispute: adminProcedure
+    .input(z.object({
+      channelId: z.string(),
+      disputeId: z.string(),
+      decision: z.enum(["UPHELD", "REJECTED"]),
+      notes: z.string().min(1),
+      adjustmentCents: z.number().int().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await creatorPayoutService.resolveStatementDispute(input.channelId, input.disputeId, {
+        decision: input.decision,
+        notes: input.notes,
+        adjustmentCents: input.adjustmentCents,
+        resolvedBy: ctx.user.id.toString(),
+      });
+      return { success: true };
+    }),
 });
 
 export const lsnFraudRouter = router({
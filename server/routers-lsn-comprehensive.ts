@@ -56,7 +56,7 @@ import { eq, and, gte, lte, desc, sql, inArray, like } from "drizzle-orm";
 import { ulid } from "ulid";
 
 // Import engines
-import { LiveShowOrchestrator, ShowScheduler, LiveStockSync } from "./lsn-live-orchestration-engine";
+import { ShowScheduler, LiveStockSync, getOrchestrator, resumeShow } from "./lsn-live-orchestration-engine";
 import { CreatorTierManager, IncentiveCalculator, ScheduleGridManager, CreatorPerformanceTracker, CreatorTrainingSystem } from "./lsn-creator-economy-engine";
 import { InventoryLotManager, PurchaseOrderManager, SupplierManager, ThreePLAdapter, OversellProtection } from "./lsn-inventory-purchasing-3pl-engine";
 
@@ -182,7 +182,7 @@ export const liveShowsRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
       }
 
-      const orchestrator = new LiveShowOrchestrator(
+      const orchestrator = await getOrchestrator(
         input.showId,
         show.channelId,
         show.creatorId
@@ -197,8 +197,23 @@ export const liveShowsRouter = router({
    * Go live
    */
   goLive: protectedProcedure
-    .input(z.object({ showId: z.string() }))
-    .mutation(async ({ input }) => {
+    .input(
+      z.object({
+        showId: z.string(),
+        guardId: z.string().optional(),
+        // Admin-only; the caller is recorded as the approver
+        override: z
+          .object({
+            reason: z.string().min(1),
+          })
+          .optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (input.override && ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only admins can override the go-live guard" });
+      }
+
       const show = await db.query.liveShows.findFirst({
         where: eq(liveShows.id, input.showId),
       });
@@ -207,13 +222,18 @@ export const liveShowsRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
       }
 
-      const orchestrator = new LiveShowOrchestrator(
+      const orchestrator = await getOrchestrator(
         input.showId,
         show.channelId,
         show.creatorId
       );
 
-      await orchestrator.goLive();
+      const actorId = ctx.user.id.toString();
+      await orchestrator.goLive({
+        guardId: input.guardId,
+        override: input.override && { approvedBy: actorId, reason: input.override.reason },
+        actorId,
+      });
 
       return { success: true };
     }),
@@ -242,7 +262,7 @@ export const liveShowsRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
       }
 
-      const orchestrator = new LiveShowOrchestrator(
+      const orchestrator = await getOrchestrator(
         input.showId,
         show.channelId,
         show.creatorId
@@ -270,7 +290,7 @@ export const liveShowsRouter = router({
         dropPrice: z.number(),
         durationMinutes: z.number(),
         stockLimit: z.number().optional(),
-        countdownDisplay: z.boolean().optional(),
+        stockBuffer: z.number().min(0).optional(),
       })
     )
     .mutation(async ({ input }) => {
@@ -282,7 +302,7 @@ export const liveShowsRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
       }
 
-      const orchestrator = new LiveShowOrchestrator(
+      const orchestrator = await getOrchestrator(
         input.showId,
         show.channelId,
         show.creatorId
@@ -294,13 +314,43 @@ export const liveShowsRouter = router({
         input.durationMinutes,
         {
           stockLimit: input.stockLimit,
-          countdownDisplay: input.countdownDisplay,
+          stockBuffer: input.stockBuffer,
         }
       );
 
       return { success: true };
     }),
 
+  /**
+   * Start a runbook price drop countdown on the host's cue
+   */
+  startPriceDropCountdown: protectedProcedure
+    .input(
+      z.object({
+        showId: z.string(),
+        dropId: z.string(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const show = await db.query.liveShows.findFirst({
+        where: eq(liveShows.id, input.showId),
+      });
+
+      if (!show) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
+      }
+
+      const orchestrator = await getOrchestrator(
+        input.showId,
+        show.channelId,
+        show.creatorId
+      );
+
+      const firesAt = orchestrator.startPriceDropCountdown(input.dropId);
+
+      return { success: true, firesAt };
+    }),
+
   /**
    * Mark highlight
    */
@@ -312,7 +362,6 @@ export const liveShowsRouter = router({
         title: z.string(),
         description: z.string(),
         productIds: z.array(z.string()).optional(),
-        clipDurationSeconds: z.number().optional(),
       })
     )
     .mutation(async ({ input }) => {
@@ -324,7 +373,7 @@ export const liveShowsRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
       }
 
-      const orchestrator = new LiveShowOrchestrator(
+      const orchestrator = await getOrchestrator(
         input.showId,
         show.channelId,
         show.creatorId
@@ -336,7 +385,6 @@ export const liveShowsRouter = router({
         input.description,
         {
           productIds: input.productIds,
-          clipDurationSeconds: input.clipDurationSeconds,
         }
       );
 
@@ -348,7 +396,7 @@ export const liveShowsRouter = router({
    */
   endShow: protectedProcedure
     .input(z.object({ showId: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       const show = await db.query.liveShows.findFirst({
         where: eq(liveShows.id, input.showId),
       });
@@ -357,17 +405,35 @@ export const liveShowsRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
       }
 
-      const orchestrator = new LiveShowOrchestrator(
+      const orchestrator = await getOrchestrator(
         input.showId,
         show.channelId,
         show.creatorId
       );
 
-      await orchestrator.endShow();
+      await orchestrator.endShow(ctx.user.id.toString());
 
       return { success: true };
     }),
 
+  /**
+   * Resume show from its last checkpoint (after a restart or failover)
+   */
+  resumeShow: protectedProcedure
+    .input(z.object({ showId: z.string() }))
+    .mutation(async ({ input }) => {
+      const orchestrator = await resumeShow(input.showId);
+
+      if (!orchestrator) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "No resumable checkpoint for this show",
+        });
+      }
+
+      return { success: true, checkpoint: orchestrator.getCheckpoint("RESUMED") };
+    }),
+
   /**
    * Get live stock for pinned products
    */
@@ -397,7 +463,7 @@ export const liveShowsRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
       }
 
-      const orchestrator = new LiveShowOrchestrator(
+      const orchestrator = await getOrchestrator(
         input.showId,
         show.channelId,
         show.creatorId
@@ -428,7 +494,7 @@ export const liveShowsRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Show not found" });
       }
 
-      const orchestrator = new LiveShowOrchestrator(
+      const orchestrator = await getOrchestrator(
         input.showId,
         show.channelId,
         show.creatorId
@@ -699,7 +765,7 @@ export const inventoryRouter = router({
     }),
 
   /**
-   * Reserve inventory
+   * Reserve inventory for a cart (idempotent per cart, expires after the TTL)
    */
   reserveInventory: protectedProcedure
     .input(
@@ -707,28 +773,46 @@ export const inventoryRouter = router({
         items: z.array(
           z.object({
             productId: z.string(),
-            quantity: z.number(),
+            quantity: z.number().int().positive(),
           })
-        ),
+        ).min(1),
         warehouseId: z.string(),
-        orderId: z.string(),
+        cartId: z.string(),
+        orderId: z.string().optional(),
+        ttlSeconds: z.number().int().min(30).max(3600).optional(),
       })
     )
     .mutation(async ({ input }) => {
-      const success = await OversellProtection.reserveInventoryAtomic(
+      const result = await OversellProtection.reserveInventoryAtomic(
         input.items,
         input.warehouseId,
-        input.orderId
+        input.cartId,
+        {
+          orderId: input.orderId,
+          ttlMs: input.ttlSeconds ? input.ttlSeconds * 1000 : undefined,
+        }
       );
 
-      if (!success) {
+      if (result.status === "insufficient") {
         throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "Failed to reserve inventory",
+          code: "CONFLICT",
+          message: `Insufficient stock: ${result.shortages
+            .map((s) => `${s.productId} (requested ${s.requested}, available ${s.available})`)
+            .join(", ")}`,
         });
       }
 
-      return { success: true };
+      return result;
+    }),
+
+  /**
+   * Release a cart's reservation
+   */
+  releaseReservation: protectedProcedure
+    .input(z.object({ cartId: z.string() }))
+    .mutation(async ({ input }) => {
+      const released = await OversellProtection.releaseCartReservation(input.cartId);
+      return { released };
     }),
 
   /**
@@ -1063,6 +1147,65 @@ export const threePLRouter = router({
       return { labelUrl };
     }),
 
+  /**
+   * Cancel shipment with the 3PL
+   */
+  cancelShipment: protectedProcedure
+    .input(z.object({ shipmentId: z.string() }))
+    .mutation(async ({ input }) => {
+      await ThreePLAdapter.cancelShipment(input.shipmentId);
+      return { success: true };
+    }),
+
+  /**
+   * Pull shipment status from the 3PL
+   */
+  syncShipmentStatus: protectedProcedure
+    .input(z.object({ shipmentId: z.string() }))
+    .mutation(async ({ input }) => {
+      return await ThreePLAdapter.syncShipmentStatus(input.shipmentId);
+    }),
+
+  /**
+   * Get stock held at a warehouse's 3PL
+   */
+  getProviderInventory: protectedProcedure
+    .input(
+      z.object({
+        warehouseId: z.string(),
+        skus: z.array(z.string()).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await ThreePLAdapter.getProviderInventory(input.warehouseId, input.skus);
+    }),
+
+  /**
+   * Send an advance ship notice for an inbound purchase order
+   */
+  submitAdvanceShipNotice: protectedProcedure
+    .input(
+      z.object({
+        warehouseId: z.string(),
+        referenceId: z.string(),
+        expectedArrival: z.date(),
+        carrier: z.string().optional(),
+        trackingNumbers: z.array(z.string()).optional(),
+        items: z.array(
+          z.object({
+            sku: z.string(),
+            quantity: z.number(),
+            lotNumber: z.string().optional(),
+            expiryDate: z.date().optional(),
+          })
+        ),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { warehouseId, ...notice } = input;
+      return await ThreePLAdapter.submitAdvanceShipNotice(warehouseId, notice);
+    }),
+
   /**
    * Process tracking event
    */
@@ -15,6 +15,11 @@ import {
 } from "../drizzle/schema";
 import { eq, and, desc, gte, lte, sql, or } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import {
+  showLifecycle,
+  type ShowLifecycleTrigger,
+  type ShowTransitionContext,
+} from "./live-show-state-machine";
 
 /**
  * LSN Live Shows Router - Complete Live Shopping Platform
@@ -37,6 +42,16 @@ import { nanoid } from "nanoid";
 // ============================================================================
 
 type ShowStatus = "scheduled" | "live" | "ended" | "canceled";
+
+// Overrides are admin-only; the caller is recorded as the approver
+const goLiveClearanceInput = {
+  guardId: z.string().optional(),
+  override: z
+    .object({
+      reason: z.string().min(1),
+    })
+    .optional(),
+};
 type SegmentType = "intro" | "product_showcase" | "price_drop" | "qa" | "outro" | "custom";
 
 // ============================================================================
@@ -75,6 +90,33 @@ async function updateShowStats(showId: string) {
     .where(eq(liveShows.id, showId));
 }
 
+/**
+ * Run a lifecycle transition, surfacing rejections as BAD_REQUEST
+ */
+async function transitionShow(
+  showId: string,
+  trigger: ShowLifecycleTrigger,
+  context: ShowTransitionContext
+) {
+  try {
+    return await showLifecycle.transition(showId, trigger, context);
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error instanceof Error ? error.message : `Cannot ${trigger} show`,
+    });
+  }
+}
+
+/**
+ * Only the show's host or an admin may drive its lifecycle
+ */
+function assertCanRunShow(show: { hostId: number }, user: { id: number; role: string }) {
+  if (show.hostId !== user.id && user.role !== "admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only the show's host or an admin can run it" });
+  }
+}
+
 /**
  * Generate stream credentials
  */
@@ -275,6 +317,8 @@ export const lsnLiveShowsRouter = router({
         thumbnailUrl: input.thumbnailUrl,
       });
 
+      await showLifecycle.register(showId, input.channelId);
+
       return { showId, streamUrl, streamKey };
     }),
 
@@ -282,8 +326,12 @@ export const lsnLiveShowsRouter = router({
    * Start live show (transition to live)
    */
   start: protectedProcedure
-    .input(z.object({ showId: z.string() }))
-    .mutation(async ({ input }) => {
+    .input(z.object({ showId: z.string(), ...goLiveClearanceInput }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.override && ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only admins can override the go-live guard" });
+      }
+
       const [show] = await db
         .select()
         .from(liveShows)
@@ -296,13 +344,16 @@ export const lsnLiveShowsRouter = router({
           message: "Show not found",
         });
       }
-
-      if (show.status !== "scheduled") {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "Show must be in scheduled status to start",
-        });
-      }
+      assertCanRunShow(show, ctx.user);
+
+      const actorId = ctx.user.id.toString();
+      await transitionShow(input.showId, "GO_LIVE", {
+        guardId: input.guardId,
+        override: input.override && { approvedBy: actorId, reason: input.override.reason },
+        actorId,
+        channelId: show.channelId,
+        legacyStatus: show.status,
+      });
 
       await db
         .update(liveShows)
@@ -321,7 +372,7 @@ export const lsnLiveShowsRouter = router({
    */
   end: protectedProcedure
     .input(z.object({ showId: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       const [show] = await db
         .select()
         .from(liveShows)
@@ -334,13 +385,13 @@ export const lsnLiveShowsRouter = router({
           message: "Show not found",
         });
       }
+      assertCanRunShow(show, ctx.user);
 
-      if (show.status !== "live") {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "Show must be live to end",
-        });
-      }
+      await transitionShow(input.showId, "END", {
+        actorId: ctx.user.id.toString(),
+        channelId: show.channelId,
+        legacyStatus: show.status,
+      });
 
       // Update show stats before ending
       await updateShowStats(input.showId);
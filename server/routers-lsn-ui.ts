@@ -5,7 +5,8 @@
  */
 
 import { z } from 'zod';
-import { publicProcedure, protectedProcedure, router } from './_core/trpc';
+import { adminProcedure, publicProcedure, protectedProcedure, router } from './_core/trpc';
+import { listActivePublishes, revokeStreamKey } from './stream-keys';
 
 /**
  * SKU Profitability Router
@@ -543,6 +544,25 @@ export const founderConsoleRouter = router({
     .mutation(async ({ input }) => {
       return { success: true };
     }),
+
+  getActivePublishes: adminProcedure
+    .query(async () => {
+      return listActivePublishes();
+    }),
+
+  // Cuts the creator's stream now if they are live on the key
+  revokeStreamKey: adminProcedure
+    .input(z.object({
+      creatorId: z.number(),
+      reason: z.string().min(1),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return revokeStreamKey({
+        creatorId: input.creatorId,
+        revokedBy: ctx.user.id,
+        reason: input.reason,
+      });
+    }),
 });
 
 /**
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  RTMPIngestionService,
+  assessStreamHealth,
+  parseProbeOutput,
+  selectQualityLadder,
+  toDvrPlaylist,
+  toVodPlaylist,
+} from "./rtmp-ingestion";
+
+const playlist = (segments: number, extraHeader: string[] = []) =>
+  [
+    "#EXTM3U",
+    "#EXT-X-VERSION:6",
+    "#EXT-X-TARGETDURATION:4",
+    "#EXT-X-MEDIA-SEQUENCE:0",
+    "#EXT-X-PLAYLIST-TYPE:EVENT",
+    ...extraHeader,
+    ...Array.from({ length: segments }, (_, i) => [
+      ...(i === 2 ? ["#EXT-X-DISCONTINUITY"] : []),
+      "#EXTINF:4.000000,",
+      `segment_0_${String(i).padStart(3, "0")}.ts`,
+    ]).flat(),
+    "",
+  ].join("\n");
+
+describe("RTMP Ingestion", () => {
+  describe("Quality ladder", () => {
+    it("should not upscale and should follow the source's shape and frame rate", () => {
+      const landscape = selectQualityLadder({ width: 1280, height: 720, fps: 29.97 });
+      expect(landscape.map((q) => q.name)).toEqual(["720p", "480p", "360p"]);
+      expect(landscape[1]).toMatchObject({ width: 854, height: 480, fps: 30 });
+
+      const portrait = selectQualityLadder({ width: 1080, height: 1920, fps: 60 });
+      expect(portrait[0]).toMatchObject({ name: "1080p", width: 1080, height: 1920, fps: 30 });
+
+      const tiny = selectQualityLadder({ width: 320, height: 240 });
+      expect(tiny).toHaveLength(1);
+      expect(tiny[0]).toMatchObject({ width: 320, height: 240 });
+
+      expect(selectQualityLadder(null)).toHaveLength(4);
+      expect(parseProbeOutput('{"streams":[{"width":1920,"height":1080,"avg_frame_rate":"30000/1001"}]}'))
+        .toMatchObject({ width: 1920, height: 1080 });
+    });
+  });
+
+  describe("FFmpeg arguments", () => {
+    it("should write LHLS chunks through the DASH muxer in LHLS mode", () => {
+      const service = new RTMPIngestionService("/tmp/streams-test");
+      const qualities = selectQualityLadder({ width: 1280, height: 720, fps: 30 });
+      const config = {
+        showId: "show_1",
+        streamKey: "key",
+        inputUrl: "rtmp://localhost/live/key",
+        outputDir: "/tmp/streams-test/show_1",
+        qualities,
+        recordingEnabled: false,
+      };
+
+      const lhls = service.buildFFmpegArgs({ ...config, latencyMode: "lhls" }, config.outputDir);
+      expect(lhls).toContain("dash");
+      expect(lhls[lhls.indexOf("-seg_duration") + 1]).toBe("2");
+      expect(lhls[lhls.indexOf("-frag_duration") + 1]).toBe("0.333");
+      expect(lhls[lhls.indexOf("-g:v:0") + 1]).toBe("60");
+      expect(lhls.filter((arg) => arg === "0:a")).toHaveLength(1);
+
+      const standard = service.buildFFmpegArgs(config, config.outputDir);
+      expect(standard[standard.indexOf("-hls_time") + 1]).toBe("4");
+      expect(standard[standard.indexOf("-var_stream_map") + 1]).toBe("v:0,a:0 v:1,a:1 v:2,a:2");
+    });
+  });
+
+  describe("Playlists", () => {
+    it("should cut a live playlist to the DVR window and keep sequence numbers right", () => {
+      const dvr = toDvrPlaylist(playlist(10), 12).split("\n");
+
+      expect(dvr.filter((line) => line.endsWith(".ts"))).toEqual([
+        "segment_0_007.ts",
+        "segment_0_008.ts",
+        "segment_0_009.ts",
+      ]);
+      expect(dvr).toContain("#EXT-X-MEDIA-SEQUENCE:7");
+      expect(dvr).toContain("#EXT-X-DISCONTINUITY-SEQUENCE:1");
+      expect(dvr.some((line) => line.startsWith("#EXT-X-PLAYLIST-TYPE"))).toBe(false);
+
+      // A zero window still leaves a player enough to start
+      expect(toDvrPlaylist(playlist(10), 0).match(/\.ts/g)).toHaveLength(3);
+      expect(toDvrPlaylist(playlist(2), 60).match(/\.ts/g)).toHaveLength(2);
+    });
+
+    it("should drop LHLS prefetch tags when closing an LHLS playlist", () => {
+      const vod = toVodPlaylist(playlist(2, []) + "#EXT-X-PREFETCH:chunk_0_00003.m4s\n");
+      expect(vod).not.toContain("PREFETCH");
+      expect(vod.trim().endsWith("#EXT-X-ENDLIST")).toBe(true);
+    });
+  });
+
+  describe("Stream health", () => {
+    it("should flag keyframe drift and bitrate underrun", () => {
+      const expected = { segmentSeconds: 2, targetBitrateKbps: 2500 };
+      const healthy = assessStreamHealth(
+        [2, 2, 2.05].map((durationSeconds) => ({ durationSeconds, bytes: durationSeconds * 300_000 })),
+        expected
+      );
+      expect(healthy).toMatchObject({ status: "healthy", bitrateUnderrun: false });
+      expect(healthy!.bitrateKbps).toBeCloseTo(2400);
+
+      const drifting = assessStreamHealth([{ durationSeconds: 3.5, bytes: 3.5 * 300_000 }], expected);
+      expect(drifting!.status).toBe("critical");
+      expect(drifting!.checks[0]).toMatchObject({ metric: "keyframe_drift_seconds", status: "critical" });
+
+      const starved = assessStreamHealth([{ durationSeconds: 2, bytes: 2 * 150_000 }], expected);
+      expect(starved).toMatchObject({ status: "warning", bitrateUnderrun: true });
+
+      expect(assessStreamHealth([], expected)).toBeNull();
+    });
+  });
+});
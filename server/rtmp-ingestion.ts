@@ -1,19 +1,40 @@
 /**
  * RTMP Ingestion Service
- * Handles RTMP stream ingestion, transcoding, and HLS/DASH delivery
+ * Handles RTMP stream ingestion, transcoding, and HLS/DASH delivery.
+ * HLS output is kept after the stream ends and finalized as a VOD playlist
+ * for replay.
+ *
+ * Standard latency writes classic HLS (4s MPEG-TS segments, viewers
+ * 15-20s behind). LHLS mode writes community LHLS through FFmpeg's DASH
+ * muxer: 2s CMAF segments flushed in 1/3s chunks while they are being
+ * encoded, with an #EXT-X-PREFETCH tag for the segment in progress. Only
+ * LHLS-aware players read that tag and get to a few seconds behind. It is
+ * not Apple LL-HLS (no EXT-X-PART parts, preload hints or blocking
+ * reloads), so hls.js and Safari ignore the prefetch tag and play it as
+ * ordinary HLS with 2s segments, about three segments (6-8s) behind.
+ * Live media playlists are cut to the show's DVR window when served; the
+ * files on disk keep the whole show for the replay.
  */
 
-import { spawn, ChildProcess } from 'child_process';
-import { existsSync, mkdirSync, rmSync } from 'fs';
+import { spawn, execFile, ChildProcess } from 'child_process';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
 import { join } from 'path';
+import { isPublishAuthorized } from './stream-keys';
+
+type LatencyMode = 'standard' | 'lhls';
 
 interface StreamConfig {
   showId: string;
   streamKey: string;
   inputUrl: string;
   outputDir: string;
-  qualities: StreamQuality[];
+  // Omit to pick rungs of DEFAULT_QUALITIES that fit the source resolution
+  qualities?: StreamQuality[];
   recordingEnabled: boolean;
+  latencyMode?: LatencyMode;
+  // How far back live viewers can rewind; 0 keeps them at the live edge.
+  // Omit to let them rewind to the start of the show.
+  dvrWindowSeconds?: number;
 }
 
 interface StreamQuality {
@@ -30,7 +51,11 @@ interface ActiveStream {
   process: ChildProcess;
   startedAt: Date;
   config: StreamConfig;
+  // The ladder actually encoded
+  qualities: StreamQuality[];
   stats: StreamStats;
+  health: StreamHealth | null;
+  healthTimer: NodeJS.Timeout;
 }
 
 interface StreamStats {
@@ -41,12 +66,85 @@ interface StreamStats {
   viewers: number;
 }
 
+interface SourceVideo {
+  width: number;
+  height: number;
+  fps?: number;
+}
+
+interface LatencyProfile {
+  segmentSeconds: number;
+  // Duration of the CMAF chunks a segment is flushed in while being encoded
+  chunkSeconds?: number;
+  keyframeSeconds: number;
+}
+
+interface SegmentSample {
+  durationSeconds: number;
+  bytes: number;
+}
+
+interface StreamHealthCheck {
+  metric: 'keyframe_drift_seconds' | 'bitrate_kbps';
+  value: number;
+  threshold: number;
+  status: 'healthy' | 'warning' | 'critical';
+}
+
+interface StreamHealth {
+  checkedAt: Date;
+  // Segments are cut on keyframes, so a late keyframe stretches the segment
+  // past the configured duration
+  keyframeIntervalSeconds: number;
+  keyframeDriftSeconds: number;
+  // Measured on the top rung
+  bitrateKbps: number;
+  targetBitrateKbps: number;
+  bitrateUnderrun: boolean;
+  status: 'healthy' | 'warning' | 'critical';
+  checks: StreamHealthCheck[];
+}
+
+type StreamHealthListener = (showId: string, health: StreamHealth) => void;
+
+const DEFAULT_OUTPUT_DIR = '/tmp/streams';
+
+export const LATENCY_PROFILES: Record<LatencyMode, LatencyProfile> = {
+  standard: { segmentSeconds: 4, keyframeSeconds: 2 },
+  lhls: { segmentSeconds: 2, chunkSeconds: 1 / 3, keyframeSeconds: 2 },
+};
+
+// Drift as a share of the segment duration
+const KEYFRAME_DRIFT_WARNING = 0.25;
+const KEYFRAME_DRIFT_CRITICAL = 0.5;
+// Measured bitrate as a share of the top rung's target
+const BITRATE_UNDERRUN_WARNING = 0.6;
+const BITRATE_UNDERRUN_CRITICAL = 0.3;
+
+const HEALTH_SAMPLE_INTERVAL_MS = 10000;
+const HEALTH_SAMPLE_SEGMENTS = 6;
+const PROBE_TIMEOUT_MS = 10000;
+
+const healthListeners: Set<StreamHealthListener> = new Set();
+
+/**
+ * Subscribe to stream health samples for all streams. Returns an
+ * unsubscribe function.
+ */
+export function onStreamHealth(listener: StreamHealthListener): () => void {
+  healthListeners.add(listener);
+  return () => healthListeners.delete(listener);
+}
+
 class RTMPIngestionService {
   private activeStreams: Map<string, ActiveStream> = new Map();
   private baseOutputDir: string;
   private rtmpPort: number;
 
-  constructor(baseOutputDir: string = '/tmp/streams', rtmpPort: number = 1935) {
+  // Streams whose source is still being probed
+  private startingStreams: Set<string> = new Set();
+
+  constructor(baseOutputDir: string = DEFAULT_OUTPUT_DIR, rtmpPort: number = 1935) {
     this.baseOutputDir = baseOutputDir;
     this.rtmpPort = rtmpPort;
     
@@ -62,7 +160,13 @@ class RTMPIngestionService {
    * Start ingesting an RTMP stream
    */
   public async startStream(config: StreamConfig): Promise<boolean> {
-    if (this.activeStreams.has(config.showId)) {
+    // Only a key the RTMP server let publish to this show
+    if (!(await isPublishAuthorized(config.showId, config.streamKey))) {
+      console.error(`[RTMP Ingestion] Stream key not authorized for ${config.showId}`);
+      return false;
+    }
+
+    if (this.activeStreams.has(config.showId) || this.startingStreams.has(config.showId)) {
       console.error(`[RTMP Ingestion] Stream already active: ${config.showId}`);
       return false;
     }
@@ -74,10 +178,19 @@ class RTMPIngestionService {
       mkdirSync(outputDir, { recursive: true });
     }
 
+    // Fit the ladder to the source unless the show chose one
+    this.startingStreams.add(config.showId);
+    let qualities: StreamQuality[];
+    try {
+      qualities = config.qualities ?? selectQualityLadder(await probeSourceVideo(config.inputUrl));
+    } finally {
+      this.startingStreams.delete(config.showId);
+    }
+
     // Build FFmpeg command for adaptive bitrate streaming
-    const ffmpegArgs = this.buildFFmpegArgs(config, outputDir);
+    const ffmpegArgs = this.buildFFmpegArgs({ ...config, qualities }, outputDir);
 
-    console.log(`[RTMP Ingestion] Starting stream ${config.showId}`);
+    console.log(`[RTMP Ingestion] Starting stream ${config.showId} (${config.latencyMode ?? 'standard'} mode, ${qualities.map(q => q.name).join('/')})`);
     console.log(`[RTMP Ingestion] Input: ${config.inputUrl}`);
     console.log(`[RTMP Ingestion] Output: ${outputDir}`);
 
@@ -102,7 +215,12 @@ class RTMPIngestionService {
 
     process.on('exit', (code) => {
       console.log(`[RTMP Ingestion] Process exited for ${config.showId} with code ${code}`);
-      this.activeStreams.delete(config.showId);
+      const stream = this.activeStreams.get(config.showId);
+      if (stream?.process === process) {
+        clearInterval(stream.healthTimer);
+        this.activeStreams.delete(config.showId);
+      }
+      this.finalizeReplay(config.showId);
     });
 
     // Store active stream
@@ -112,6 +230,7 @@ class RTMPIngestionService {
       process,
       startedAt: new Date(),
       config,
+      qualities,
       stats: {
         duration: 0,
         bitrate: 0,
@@ -119,6 +238,8 @@ class RTMPIngestionService {
         droppedFrames: 0,
         viewers: 0,
       },
+      health: null,
+      healthTimer: setInterval(() => this.sampleHealth(config.showId), HEALTH_SAMPLE_INTERVAL_MS),
     });
 
     return true;
@@ -137,6 +258,7 @@ class RTMPIngestionService {
     console.log(`[RTMP Ingestion] Stopping stream ${showId}`);
     
     // Kill FFmpeg process
+    clearInterval(stream.healthTimer);
     stream.process.kill('SIGTERM');
     
     // Wait for graceful shutdown, then force kill if needed
@@ -158,6 +280,37 @@ class RTMPIngestionService {
     return stream ? stream.stats : null;
   }
 
+  /**
+   * Latest health sample for a stream, null until the first segments exist
+   */
+  public getStreamHealth(showId: string): StreamHealth | null {
+    return this.activeStreams.get(showId)?.health ?? null;
+  }
+
+  /**
+   * Top rung's media playlist of an active stream
+   */
+  public getLivePlaylistPath(showId: string): string | null {
+    const stream = this.activeStreams.get(showId);
+    if (!stream) return null;
+    return join(this.baseOutputDir, showId, mediaPlaylistName(stream.config.latencyMode, 0));
+  }
+
+  /**
+   * A live media playlist cut to the stream's DVR window, or null when the
+   * file should be served as written
+   */
+  public getLivePlaylist(showId: string, file: string): string | null {
+    const stream = this.activeStreams.get(showId);
+    if (!stream || stream.config.dvrWindowSeconds === undefined || !MEDIA_PLAYLIST_PATTERN.test(file)) {
+      return null;
+    }
+
+    const path = join(this.baseOutputDir, showId, file);
+    if (!existsSync(path)) return null;
+    return toDvrPlaylist(readFileSync(path, 'utf8'), stream.config.dvrWindowSeconds);
+  }
+
   /**
    * Get all active streams
    */
@@ -165,6 +318,13 @@ class RTMPIngestionService {
     return Array.from(this.activeStreams.keys());
   }
 
+  /**
+   * Base directory for HLS output
+   */
+  public getOutputDir(): string {
+    return this.baseOutputDir;
+  }
+
   /**
    * Check if stream is active
    */
@@ -175,42 +335,75 @@ class RTMPIngestionService {
   /**
    * Build FFmpeg arguments for adaptive bitrate streaming
    */
-  private buildFFmpegArgs(config: StreamConfig, outputDir: string): string[] {
+  public buildFFmpegArgs(config: StreamConfig & { qualities: StreamQuality[] }, outputDir: string): string[] {
+    const latencyMode = config.latencyMode ?? 'standard';
+    const profile = LATENCY_PROFILES[latencyMode];
+
     const args: string[] = [
       '-i', config.inputUrl,
       '-c:a', 'aac',
       '-ar', '48000',
       '-b:a', '128k',
+      '-preset', 'veryfast',
+      '-sc_threshold', '0',
+      // Keyframes on the same clock in every rung, so segments line up
+      '-force_key_frames', `expr:gte(t,n_forced*${profile.keyframeSeconds})`,
     ];
 
     // Add video encoding settings for each quality
     config.qualities.forEach((quality, index) => {
+      const gop = Math.round(quality.fps * profile.keyframeSeconds).toString();
       args.push(
         '-map', '0:v',
-        '-map', '0:a',
         `-c:v:${index}`, 'libx264',
         `-b:v:${index}`, quality.bitrate,
         `-s:v:${index}`, `${quality.width}x${quality.height}`,
         `-r:v:${index}`, quality.fps.toString(),
-        `-maxrate:${index}`, quality.bitrate,
-        `-bufsize:${index}`, `${parseInt(quality.bitrate) * 2}k`,
-        `-preset`, 'veryfast',
-        `-g`, '48',
-        `-keyint_min`, '48',
-        `-sc_threshold`, '0'
+        `-maxrate:v:${index}`, quality.bitrate,
+        `-bufsize:v:${index}`, `${parseInt(quality.bitrate) * 2}k`,
+        `-g:v:${index}`, gop,
+        `-keyint_min:v:${index}`, gop
       );
+      // HLS variants each carry their own audio; DASH shares one track
+      if (latencyMode === 'standard') {
+        args.push('-map', '0:a');
+      }
     });
 
-    // HLS output settings
-    args.push(
-      '-f', 'hls',
-      '-hls_time', '4',
-      '-hls_playlist_type', 'event',
-      '-hls_segment_filename', join(outputDir, 'segment_%v_%03d.ts'),
-      '-master_pl_name', 'master.m3u8',
-      '-var_stream_map', this.buildStreamMap(config.qualities),
-      join(outputDir, 'stream_%v.m3u8')
-    );
+    if (latencyMode === 'lhls') {
+      args.push(
+        '-map', '0:a',
+        '-f', 'dash',
+        '-seg_duration', profile.segmentSeconds.toString(),
+        '-frag_type', 'duration',
+        '-frag_duration', profile.chunkSeconds!.toFixed(3),
+        '-streaming', '1',
+        '-ldash', '1',
+        '-lhls', '1',
+        '-hls_playlist', '1',
+        '-hls_master_name', 'master.m3u8',
+        // Keep every segment listed and on disk for the replay
+        '-window_size', '0',
+        '-use_template', '1',
+        '-use_timeline', '0',
+        '-adaptation_sets', 'id=0,streams=v id=1,streams=a',
+        '-init_seg_name', 'init_$RepresentationID$.m4s',
+        '-media_seg_name', 'chunk_$RepresentationID$_$Number%05d$.m4s',
+        join(outputDir, 'manifest.mpd')
+      );
+    } else {
+      // HLS output settings
+      args.push(
+        '-f', 'hls',
+        '-hls_time', profile.segmentSeconds.toString(),
+        '-hls_playlist_type', 'event',
+        '-hls_flags', 'independent_segments+program_date_time',
+        '-hls_segment_filename', join(outputDir, 'segment_%v_%03d.ts'),
+        '-master_pl_name', 'master.m3u8',
+        '-var_stream_map', this.buildStreamMap(config.qualities),
+        join(outputDir, 'stream_%v.m3u8')
+      );
+    }
 
     // Recording settings
     if (config.recordingEnabled) {
@@ -231,6 +424,44 @@ class RTMPIngestionService {
     return qualities.map((_, index) => `v:${index},a:${index}`).join(' ');
   }
 
+  /**
+   * Measure the top rung's recent segments and tell the health listeners
+   */
+  private sampleHealth(showId: string) {
+    const stream = this.activeStreams.get(showId);
+    const playlistPath = this.getLivePlaylistPath(showId);
+    if (!stream || !playlistPath || !existsSync(playlistPath)) return;
+
+    let samples: SegmentSample[];
+    try {
+      const dir = join(this.baseOutputDir, showId);
+      samples = parseMediaSegments(readFileSync(playlistPath, 'utf8'))
+        .slice(-HEALTH_SAMPLE_SEGMENTS)
+        .map(segment => ({
+          durationSeconds: segment.durationSeconds,
+          bytes: statSync(join(dir, segment.uri)).size,
+        }));
+    } catch (error) {
+      console.error(`[RTMP Ingestion] Health sample failed for ${showId}:`, error);
+      return;
+    }
+
+    const health = assessStreamHealth(samples, {
+      segmentSeconds: LATENCY_PROFILES[stream.config.latencyMode ?? 'standard'].segmentSeconds,
+      targetBitrateKbps: parseInt(stream.qualities[0].bitrate),
+    });
+    if (!health) return;
+
+    stream.health = health;
+    for (const listener of healthListeners) {
+      try {
+        listener(showId, health);
+      } catch (error) {
+        console.error('[RTMP Ingestion] Health listener failed:', error);
+      }
+    }
+  }
+
   /**
    * Parse FFmpeg output for statistics
    */
@@ -277,7 +508,45 @@ class RTMPIngestionService {
   }
 
   /**
-   * Clean up stream files
+   * Close the event playlists of an ended stream so they play back as VOD.
+   * Returns the replay playlist URL, or null if there is no HLS output.
+   */
+  public finalizeReplay(showId: string): string | null {
+    const outputDir = join(this.baseOutputDir, showId);
+    if (!existsSync(join(outputDir, 'master.m3u8'))) {
+      return null;
+    }
+
+    try {
+      for (const file of readdirSync(outputDir)) {
+        if (!MEDIA_PLAYLIST_PATTERN.test(file)) continue;
+        const path = join(outputDir, file);
+        writeFileSync(path, toVodPlaylist(readFileSync(path, 'utf8')));
+      }
+    } catch (error) {
+      console.error(`[RTMP Ingestion] Failed to finalize replay for ${showId}:`, error);
+      return null;
+    }
+
+    console.log(`[RTMP Ingestion] Replay ready for ${showId}`);
+    return this.getReplayUrl(showId);
+  }
+
+  /**
+   * Get HLS playlist URL for the replay of an ended stream
+   */
+  public getReplayUrl(showId: string): string | null {
+    if (this.isStreamActive(showId)) {
+      return null;
+    }
+    if (!existsSync(join(this.baseOutputDir, showId, 'master.m3u8'))) {
+      return null;
+    }
+    return `/streams/${showId}/master.m3u8`;
+  }
+
+  /**
+   * Clean up stream files (including the replay)
    */
   public cleanupStream(showId: string) {
     const outputDir = join(this.baseOutputDir, showId);
@@ -291,21 +560,245 @@ class RTMPIngestionService {
     }
   }
 
-  /**
-   * Generate stream key for a show
-   */
-  public static generateStreamKey(showId: string): string {
-    const random = Math.random().toString(36).substring(2, 15);
-    const timestamp = Date.now().toString(36);
-    return `${showId}_${timestamp}_${random}`;
+}
+
+/**
+ * Turn a live event playlist into a VOD playlist. FFmpeg only appends the
+ * end tag on a clean shutdown, so it is added here if missing.
+ */
+export function toVodPlaylist(playlist: string): string {
+  // LHLS prefetch tags point at segments that will never be written now
+  let lines = playlist
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .filter(line => !line.startsWith('#EXT-X-PREFETCH'));
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
   }
 
-  /**
-   * Validate stream key
-   */
-  public static validateStreamKey(streamKey: string, showId: string): boolean {
-    return streamKey.startsWith(`${showId}_`);
+  if (lines.some(line => line.startsWith('#EXT-X-PLAYLIST-TYPE:'))) {
+    lines = lines.map(line =>
+      line.startsWith('#EXT-X-PLAYLIST-TYPE:') ? '#EXT-X-PLAYLIST-TYPE:VOD' : line
+    );
+  } else {
+    const headerIndex = lines.indexOf('#EXTM3U');
+    lines.splice(headerIndex + 1, 0, '#EXT-X-PLAYLIST-TYPE:VOD');
+  }
+
+  if (!lines.includes('#EXT-X-ENDLIST')) {
+    lines.push('#EXT-X-ENDLIST');
   }
+
+  return lines.join('\n') + '\n';
+}
+
+// Media (not master) playlists: stream_N.m3u8 from HLS, media_N.m3u8 from DASH
+const MEDIA_PLAYLIST_PATTERN = /^(stream|media)_\d+\.m3u8$/;
+
+function mediaPlaylistName(latencyMode: LatencyMode = 'standard', index: number): string {
+  return latencyMode === 'lhls' ? `media_${index}.m3u8` : `stream_${index}.m3u8`;
+}
+
+/**
+ * Completed segments of a media playlist, oldest first
+ */
+export function parseMediaSegments(playlist: string): Array<{ uri: string; durationSeconds: number }> {
+  const segments: Array<{ uri: string; durationSeconds: number }> = [];
+  let duration: number | null = null;
+
+  for (const raw of playlist.split('\n')) {
+    const line = raw.trim();
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line && !line.startsWith('#') && duration !== null) {
+      segments.push({ uri: line, durationSeconds: duration });
+      duration = null;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Cut a live media playlist to the last windowSeconds (never less than
+ * three segments, the least a player needs to start). The media and
+ * discontinuity sequence numbers move on by what was cut, so players keep
+ * their place, and the EVENT type goes since the playlist now slides.
+ */
+export function toDvrPlaylist(playlist: string, windowSeconds: number): string {
+  const lines = playlist.replace(/\r\n/g, '\n').split('\n');
+
+  // Split into header, segments (their tags plus URI) and trailing tags
+  const header: string[] = [];
+  const segments: Array<{ lines: string[]; durationSeconds: number; discontinuity: boolean }> = [];
+  let pending: string[] = [];
+  for (const line of lines) {
+    if (line.startsWith('#EXTINF:') || line === '#EXT-X-DISCONTINUITY' || line.startsWith('#EXT-X-PROGRAM-DATE-TIME')) {
+      pending.push(line);
+    } else if (line && !line.startsWith('#') && pending.length > 0) {
+      const extinf = pending.find(tag => tag.startsWith('#EXTINF:'));
+      segments.push({
+        lines: [...pending, line],
+        durationSeconds: extinf ? parseFloat(extinf.slice('#EXTINF:'.length)) : 0,
+        discontinuity: pending.includes('#EXT-X-DISCONTINUITY'),
+      });
+      pending = [];
+    } else if (segments.length === 0 && pending.length === 0) {
+      header.push(line);
+    } else {
+      pending.push(line);
+    }
+  }
+  const trailer = pending;
+
+  let keep = 0;
+  let kept = 0;
+  while (keep < segments.length && (kept < windowSeconds || keep < 3)) {
+    kept += segments[segments.length - 1 - keep].durationSeconds;
+    keep++;
+  }
+  const dropped = segments.slice(0, segments.length - keep);
+  const droppedDiscontinuities = dropped.filter(segment => segment.discontinuity).length;
+
+  let hasDiscontinuitySequence = false;
+  const newHeader = header
+    .filter(line => !line.startsWith('#EXT-X-PLAYLIST-TYPE:'))
+    .map(line => {
+      if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+        return `#EXT-X-MEDIA-SEQUENCE:${parseInt(line.split(':')[1]) + dropped.length}`;
+      }
+      if (line.startsWith('#EXT-X-DISCONTINUITY-SEQUENCE:')) {
+        hasDiscontinuitySequence = true;
+        return `#EXT-X-DISCONTINUITY-SEQUENCE:${parseInt(line.split(':')[1]) + droppedDiscontinuities}`;
+      }
+      return line;
+    });
+  if (!newHeader.some(line => line.startsWith('#EXT-X-MEDIA-SEQUENCE:'))) {
+    newHeader.splice(newHeader.indexOf('#EXTM3U') + 1, 0, `#EXT-X-MEDIA-SEQUENCE:${dropped.length}`);
+  }
+  if (!hasDiscontinuitySequence && droppedDiscontinuities > 0) {
+    newHeader.splice(newHeader.indexOf('#EXTM3U') + 1, 0, `#EXT-X-DISCONTINUITY-SEQUENCE:${droppedDiscontinuities}`);
+  }
+
+  return [...newHeader, ...segments.slice(dropped.length).flatMap(segment => segment.lines), ...trailer].join('\n');
+}
+
+/**
+ * Rungs of the ladder the source can fill without upscaling, shaped to the
+ * source's aspect ratio (portrait included) and capped at its frame rate.
+ * A source smaller than every rung gets one rung at its own size. Without
+ * a probe result the whole ladder is used.
+ */
+export function selectQualityLadder(
+  source: SourceVideo | null,
+  qualities: StreamQuality[] = DEFAULT_QUALITIES
+): StreamQuality[] {
+  if (!source || source.width <= 0 || source.height <= 0) return qualities;
+
+  const even = (value: number) => Math.round(value / 2) * 2;
+  const shortSide = Math.min(source.width, source.height);
+  const portrait = source.height > source.width;
+  const byHeight = [...qualities].sort((a, b) => b.height - a.height);
+
+  const fitting = byHeight.filter(quality => quality.height <= shortSide);
+  const rungs = fitting.length > 0
+    ? fitting
+    : [{ ...byHeight[byHeight.length - 1], name: `${even(shortSide)}p`, height: even(shortSide) }];
+
+  return rungs.map(quality => {
+    const longSide = even(quality.height * Math.max(source.width, source.height) / shortSide);
+    return {
+      ...quality,
+      width: portrait ? quality.height : longSide,
+      height: portrait ? longSide : quality.height,
+      fps: source.fps ? Math.min(quality.fps, Math.round(source.fps)) : quality.fps,
+    };
+  });
+}
+
+/**
+ * Resolution and frame rate of the source's first video stream, or null if
+ * ffprobe can't read it in time
+ */
+export function probeSourceVideo(inputUrl: string): Promise<SourceVideo | null> {
+  return new Promise(resolve => {
+    execFile(
+      'ffprobe',
+      ['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=width,height,avg_frame_rate', '-of', 'json', inputUrl],
+      { timeout: PROBE_TIMEOUT_MS },
+      (error, stdout) => {
+        if (error) {
+          console.error(`[RTMP Ingestion] Source probe failed for ${inputUrl}: ${error.message}`);
+          resolve(null);
+          return;
+        }
+        resolve(parseProbeOutput(stdout));
+      }
+    );
+  });
+}
+
+export function parseProbeOutput(stdout: string): SourceVideo | null {
+  try {
+    const stream = JSON.parse(stdout).streams?.[0];
+    if (!stream?.width || !stream?.height) return null;
+    const [num, den] = String(stream.avg_frame_rate ?? '').split('/').map(Number);
+    const fps = num > 0 && den > 0 ? num / den : undefined;
+    return { width: stream.width, height: stream.height, fps };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Judge recent segments of the top rung: how far segment (keyframe)
+ * timing drifts from the configured duration, and whether the encoded
+ * bitrate has fallen well under the rung's target. Null without samples.
+ */
+export function assessStreamHealth(
+  samples: SegmentSample[],
+  expected: { segmentSeconds: number; targetBitrateKbps: number },
+  now: Date = new Date()
+): StreamHealth | null {
+  const measured = samples.filter(sample => sample.durationSeconds > 0);
+  if (measured.length === 0) return null;
+
+  const totalSeconds = measured.reduce((sum, sample) => sum + sample.durationSeconds, 0);
+  const totalBytes = measured.reduce((sum, sample) => sum + sample.bytes, 0);
+  const keyframeIntervalSeconds = totalSeconds / measured.length;
+  const keyframeDriftSeconds = Math.max(...measured.map(sample => Math.abs(sample.durationSeconds - expected.segmentSeconds)));
+  const bitrateKbps = (totalBytes * 8) / 1000 / totalSeconds;
+
+  const driftShare = keyframeDriftSeconds / expected.segmentSeconds;
+  const bitrateShare = bitrateKbps / expected.targetBitrateKbps;
+
+  const checks: StreamHealthCheck[] = [
+    {
+      metric: 'keyframe_drift_seconds',
+      value: keyframeDriftSeconds,
+      threshold: expected.segmentSeconds * KEYFRAME_DRIFT_WARNING,
+      status: driftShare > KEYFRAME_DRIFT_CRITICAL ? 'critical' : driftShare > KEYFRAME_DRIFT_WARNING ? 'warning' : 'healthy',
+    },
+    {
+      metric: 'bitrate_kbps',
+      value: bitrateKbps,
+      threshold: expected.targetBitrateKbps * BITRATE_UNDERRUN_WARNING,
+      status: bitrateShare < BITRATE_UNDERRUN_CRITICAL ? 'critical' : bitrateShare < BITRATE_UNDERRUN_WARNING ? 'warning' : 'healthy',
+    },
+  ];
+
+  return {
+    checkedAt: now,
+    keyframeIntervalSeconds,
+    keyframeDriftSeconds,
+    bitrateKbps,
+    targetBitrateKbps: expected.targetBitrateKbps,
+    bitrateUnderrun: checks[1].status !== 'healthy',
+    status: checks.some(check => check.status === 'critical')
+      ? 'critical'
+      : checks.some(check => check.status === 'warning') ? 'warning' : 'healthy',
+    checks,
+  };
 }
 
 // Default quality presets
@@ -357,4 +850,46 @@ export function getRTMPService() {
   return ingestionService;
 }
 
-export { RTMPIngestionService, StreamConfig, StreamQuality, ActiveStream, StreamStats };
+/**
+ * Replay playlist for a show, or null when ingestion is not running in this
+ * process or the show has no kept HLS output
+ */
+export function getReplayPlaylistUrl(showId: string): string | null {
+  return ingestionService ? ingestionService.getReplayUrl(showId) : null;
+}
+
+/**
+ * Where HLS output goes, whether or not ingestion runs in this process
+ */
+export function getHlsOutputDir(): string {
+  return ingestionService ? ingestionService.getOutputDir() : DEFAULT_OUTPUT_DIR;
+}
+
+export function isIngestActive(showId: string): boolean {
+  return ingestionService ? ingestionService.isStreamActive(showId) : false;
+}
+
+export function stopIngest(showId: string): boolean {
+  return ingestionService ? ingestionService.stopStream(showId) : false;
+}
+
+export function getLivePlaylistPath(showId: string): string | null {
+  return ingestionService ? ingestionService.getLivePlaylistPath(showId) : null;
+}
+
+export function getLivePlaylist(showId: string, file: string): string | null {
+  return ingestionService ? ingestionService.getLivePlaylist(showId, file) : null;
+}
+
+export {
+  RTMPIngestionService,
+  StreamConfig,
+  StreamQuality,
+  ActiveStream,
+  StreamStats,
+  LatencyMode,
+  SourceVideo,
+  SegmentSample,
+  StreamHealth,
+  StreamHealthCheck,
+};
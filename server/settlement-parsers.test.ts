@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import {
+  hashSettlementFile,
+  parseAmountCents,
+  parseCsv,
+  parseSettlementFile,
+} from "./settlement-parsers";
+
+const csv = (...rows: string[]) => rows.join("\n") + "\n";
+
+// Sum lines the way ReconciliationService.calculateExpectedAmount does
+function netOf(lines: { type: string; amount: string }[]): string {
+  const cents = lines.reduce((total, line) => {
+    const amount = Math.round(parseFloat(line.amount) * 100);
+    return line.type === "sale" || line.type === "adjustment" ? total + amount : total - amount;
+  }, 0);
+  return (cents / 100).toFixed(2);
+}
+
+describe("Settlement Parsers", () => {
+  describe("CSV", () => {
+    it("should handle quoted fields and report the line each record starts on", () => {
+      const records = parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\r\n\r\n1,2');
+
+      expect(records).toEqual([
+        { line: 1, fields: ["a", "b"] },
+        { line: 2, fields: ["x, y", 'say "hi"\nthere'] },
+        { line: 5, fields: ["1", "2"] },
+      ]);
+    });
+
+    it("should read amounts in the formats providers export", () => {
+      expect(parseAmountCents("1,234.56")).toBe(123456);
+      expect(parseAmountCents("-$0.29")).toBe(-29);
+      expect(parseAmountCents("(15.00)")).toBe(-1500);
+      expect(parseAmountCents("2500", true)).toBe(2500);
+      expect(parseAmountCents("n/a")).toBeNull();
+    });
+
+    it("should hash the same file identically regardless of line endings", () => {
+      expect(hashSettlementFile("\uFEFFa,b\r\n1,2\r\n")).toBe(hashSettlementFile("a,b\n1,2\n"));
+    });
+  });
+
+  describe("PayPal", () => {
+    const header = [
+      '"CH","Transaction ID","Invoice ID","PayPal Reference ID","PayPal Reference ID Type"',
+      '"Transaction Event Code","Transaction Initiation Date","Transaction Completion Date"',
+      '"Transaction Debit or Credit","Gross Transaction Amount","Gross Transaction Currency"',
+      '"Fee Debit or Credit","Fee Amount","Fee Currency"',
+    ].join(",");
+
+    it("should type STL rows by event code", () => {
+      const parsed = parseSettlementFile(
+        "paypal",
+        csv(
+          '"RH","2026/03/02 04:00:00 -0800","A","MERCHANT1",008',
+          '"SH","2026/03/01 00:00:00 -0800","2026/03/01 23:59:59 -0800","MERCHANT1",""',
+          header,
+          '"SB","TX1","INV-1","","","T0006","2026/03/01 10:00:00 -0800","2026/03/01 10:00:00 -0800","CR",10000,"USD","DR",320,"USD"',
+          '"SB","TX2","INV-2","TX0","TXN","T1107","2026/03/01 11:00:00 -0800","2026/03/01 11:00:00 -0800","DR",2500,"USD","CR",50,"USD"',
+          '"SB","TX3","","TX9","TXN","T1201","2026/03/01 12:00:00 -0800","2026/03/01 12:00:00 -0800","DR",4000,"USD","DR",2000,"USD"',
+          '"SB","TX4","","","","T0400","2026/03/01 13:00:00 -0800","2026/03/01 13:00:00 -0800","DR",5000,"USD","",0,"USD"',
+          '"SF",4'
+        )
+      );
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.format).toBe("paypal_stl");
+      expect(parsed.settlementId).toBe("paypal-MERCHANT1-2026-03-02");
+      expect(parsed.lines.map((line) => [line.type, line.amount, line.platformOrderId])).toEqual([
+        ["sale", "100.00", "TX1"],
+        ["fee", "3.20", "TX1"],
+        ["refund", "25.00", "TX0"],
+        ["adjustment", "0.50", "TX0"],
+        ["chargeback", "40.00", "TX9"],
+        ["fee", "20.00", "TX9"],
+      ]);
+      // Withdrawal to the bank is the payout, not a line
+      expect(parsed.totalAmount).toBe("12.30");
+    });
+  });
+
+  describe("Stripe", () => {
+    it("should split gross and fees and use the payout as the settlement", () => {
+      const parsed = parseSettlementFile(
+        "stripe",
+        csv(
+          "id,Type,Source,Amount,Fee,Net,Currency,Created (UTC),Description,order_id (metadata),Automatic Payout ID",
+          "txn_1,charge,ch_1,50.00,1.75,48.25,usd,2026-03-01 10:00:00,Order 1001,ord_1,po_9",
+          "txn_2,refund,re_1,-20.00,0.00,-20.00,usd,2026-03-01 11:00:00,Refund 1001,ord_1,po_9",
+          "txn_3,adjustment,du_1,-30.00,15.00,-45.00,usd,2026-03-01 12:00:00,Chargeback withdrawal for ch_2,,po_9",
+          "txn_4,stripe_fee,,-2.00,0.00,-2.00,usd,2026-03-01 13:00:00,Billing - Radar,,po_9",
+          "txn_5,payout,po_9,-0.00,0.00,-0.00,usd,2026-03-02 00:00:00,STRIPE PAYOUT,,"
+        )
+      );
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.settlementId).toBe("po_9");
+      expect(parsed.currency).toBe("USD");
+      expect(parsed.lines.map((line) => [line.type, line.amount])).toEqual([
+        ["sale", "50.00"],
+        ["fee", "1.75"],
+        ["refund", "20.00"],
+        ["chargeback", "30.00"],
+        ["fee", "15.00"],
+        ["fee", "2.00"],
+      ]);
+      expect(parsed.lines[0].platformOrderId).toBe("ord_1");
+      expect(parsed.totalAmount).toBe("-18.75");
+      expect(netOf(parsed.lines)).toBe(parsed.totalAmount);
+    });
+
+    it("should report bad rows by line and keep the rest", () => {
+      const parsed = parseSettlementFile(
+        "stripe",
+        csv(
+          "id,Type,Amount,Fee,Currency,Created (UTC)",
+          "txn_1,charge,50.00,1.75,usd,2026-03-01 10:00:00",
+          "txn_2,charge,fifty,0,usd,2026-03-01 10:00:00",
+          "txn_3,charge,10.00,0,eur,2026-03-01 10:00:00",
+          "txn_4,charge,10.00,0,usd,yesterday"
+        )
+      );
+
+      expect(parsed.errors).toEqual([
+        { line: 3, message: 'Invalid amount "fifty"' },
+        { line: 4, message: "Currency EUR does not match settlement currency USD" },
+        { line: 5, message: 'Invalid created "yesterday"' },
+      ]);
+      expect(parsed.lines).toHaveLength(2);
+    });
+
+    it("should reject a file without the required columns", () => {
+      const parsed = parseSettlementFile("stripe", csv("id,Amount", "txn_1,5.00"));
+
+      expect(parsed.errors).toEqual([
+        { line: 1, message: "Missing column(s): type, currency, created_utc" },
+      ]);
+      expect(parsed.lines).toEqual([]);
+    });
+  });
+
+  describe("Wise", () => {
+    it("should treat incoming transfers as sales and gross up fees", () => {
+      const parsed = parseSettlementFile(
+        "wise",
+        csv(
+          '"TransferWise ID",Date,Amount,Currency,Description,"Payment Reference","Running Balance","Total fees"',
+          "TRANSFER-1,01-03-2026,99.50,AUD,Received money from Buyer,ORD-1,99.50,0.50",
+          "TRANSFER-2,02-03-2026,-10.00,AUD,Refund to Buyer,ORD-1,89.50,0.00",
+          "TRANSFER-3,03-03-2026,-80.00,AUD,Sent money to Business Account,,9.50,0.00"
+        )
+      );
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.settlementId).toBe("wise-AUD-2026-03-01-2026-03-03");
+      expect(parsed.lines.map((line) => [line.type, line.amount])).toEqual([
+        ["sale", "100.00"],
+        ["fee", "0.50"],
+        ["refund", "10.00"],
+        ["adjustment", "-80.00"],
+      ]);
+      expect(parsed.totalAmount).toBe("9.50");
+    });
+  });
+
+  describe("TikTok Shop", () => {
+    it("should add up to each row's settled total", () => {
+      const parsed = parseSettlementFile(
+        "tiktok_shop",
+        csv(
+          "Statement ID,Type,Order/adjustment ID,Order settled time,Currency,Total settlement amount,Total Revenue,Total Fees",
+          "ST1,Order,5761,2026/03/01,AUD,84.00,100.00,-16.00",
+          "ST1,Refund,5762,2026/03/01,AUD,-45.00,-50.00,6.00",
+          "ST1,Logistics reimbursement,5763,2026/03/01,AUD,4.00,,"
+        )
+      );
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.settlementId).toBe("tiktok-ST1");
+      expect(parsed.lines.map((line) => [line.type, line.amount])).toEqual([
+        ["sale", "100.00"],
+        ["fee", "16.00"],
+        ["refund", "50.00"],
+        ["adjustment", "6.00"],
+        ["adjustment", "-1.00"],
+        ["adjustment", "4.00"],
+      ]);
+      expect(parsed.totalAmount).toBe("43.00");
+      expect(netOf(parsed.lines)).toBe("43.00");
+    });
+  });
+});
@@ -0,0 +1,717 @@
+import { createHash } from "crypto";
+import type { SettlementImport, SettlementLine } from "./reconciliation";
+
+/**
+ * Live Shopping Network - Settlement File Parsers
+ * Turns the settlement reports each provider lets finance download into
+ * SettlementImport data for the reconciliation engine.
+ *
+ * Line amounts follow ReconciliationService conventions: sales, refunds,
+ * fees and chargebacks are positive magnitudes, adjustments are signed.
+ * Fee credits (e.g. fees returned on a refund) become positive adjustments.
+ */
+
+export type SettlementProvider = "paypal" | "stripe" | "wise" | "tiktok_shop";
+
+export const SETTLEMENT_PROVIDERS: SettlementProvider[] = ["paypal", "stripe", "wise", "tiktok_shop"];
+
+export interface SettlementParseError {
+  // 1-based line in the file; 0 for problems with the file as a whole
+  line: number;
+  message: string;
+}
+
+export interface ParsedSettlementFile
+  extends Omit<SettlementImport, "channelId" | "platform" | "rawData" | "fileHash"> {
+  provider: SettlementProvider;
+  format: string;
+  fileHash: string;
+  rowCount: number;
+  errors: SettlementParseError[];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Strip a byte-order mark and normalize line endings so the same report
+ * downloaded twice hashes the same
+ */
+function normalizeContent(content: string): string {
+  return content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+export function hashSettlementFile(content: string): string {
+  return createHash("sha256").update(normalizeContent(content)).digest("hex");
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, doubled quotes and
+ * newlines. Blank records are dropped.
+ */
+export function parseCsv(content: string): CsvRecord[] {
+  const text = normalizeContent(content);
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(current);
+    if (fields.some((field) => field.trim() !== "")) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    current = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else if (char === "\n") {
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      current += char;
+    }
+  }
+
+  if (current !== "" || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * "Order/adjustment ID" -> "order_adjustment_id"
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+type Row = Record<string, string>;
+
+function toRow(headers: string[], fields: string[]): Row {
+  const row: Row = {};
+  headers.forEach((header, i) => {
+    row[header] = (fields[i] ?? "").trim();
+  });
+  return row;
+}
+
+function pick(row: Row, ...columns: string[]): string {
+  for (const column of columns) {
+    if (row[column]) return row[column];
+  }
+  return "";
+}
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+/**
+ * Parse a money amount to cents. Accepts thousands separators, currency
+ * symbols and accounting-style parentheses. Returns null when unreadable.
+ */
+export function parseAmountCents(value: string, minorUnits = false): number | null {
+  let text = value.replace(/[^\d\-+().]/g, "");
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (!/^[-+]?\d+(\.\d+)?$/.test(text) && !/^[-+]?\.\d+$/.test(text)) {
+    return null;
+  }
+
+  const amount = Number(text);
+  const cents = minorUnits ? amount : Math.round(amount * 100);
+  if (!Number.isSafeInteger(cents)) return null;
+
+  return negative ? -cents : cents;
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Dates as providers write them: "2026-03-01 12:00:00", "2026/03/01 04:00:00 -0800",
+ * ISO 8601, or day-first "01-03-2026". Times without an offset are UTC.
+ */
+export function parseSettlementDate(value: string): Date | null {
+  const text = value.trim();
+
+  const dayFirst = text.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return validDate(`${year}-${month}-${day}T00:00:00Z`);
+  }
+
+  const match = text.match(
+    /^(\d{4})[-/](\d{2})[-/](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|UTC|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hour = "00", minute = "00", second = "00", zone] = match;
+  let offset = "Z";
+  if (zone && /^[+-]/.test(zone)) {
+    offset = zone.includes(":") ? zone : `${zone.slice(0, 3)}:${zone.slice(3)}`;
+  }
+
+  return validDate(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+}
+
+function validDate(iso: string): Date | null {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// BUILDER
+// ============================================================================
+
+/**
+ * Collects lines for one settlement. Rows in a different currency from the
+ * first accepted row are rejected, since a settlement has one currency.
+ */
+class SettlementBuilder {
+  lines: SettlementLine[] = [];
+  errors: SettlementParseError[] = [];
+  currency = "";
+  rowCount = 0;
+  netCents = 0;
+  firstDate: Date | null = null;
+  lastDate: Date | null = null;
+
+  error(line: number, message: string) {
+    this.errors.push({ line, message });
+  }
+
+  /**
+   * Start a data row; returns false (after recording an error) when the
+   * row's currency does not match the settlement
+   */
+  acceptRow(line: number, currency: string, date: Date): boolean {
+    const code = currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      this.error(line, `Invalid currency "${currency}"`);
+      return false;
+    }
+    if (this.currency && code !== this.currency) {
+      this.error(line, `Currency ${code} does not match settlement currency ${this.currency}`);
+      return false;
+    }
+
+    this.currency = code;
+    this.rowCount++;
+    if (!this.firstDate || date < this.firstDate) this.firstDate = date;
+    if (!this.lastDate || date > this.lastDate) this.lastDate = date;
+    return true;
+  }
+
+  add(
+    type: SettlementLine["type"],
+    cents: number,
+    details: Omit<SettlementLine, "type" | "amount"> & { line: number }
+  ) {
+    if (cents === 0) return;
+
+    const { line, metadata, ...rest } = details;
+    this.lines.push({
+      ...rest,
+      type,
+      amount: formatCents(type === "adjustment" ? cents : Math.abs(cents)),
+      metadata: { ...metadata, sourceLine: line },
+    });
+
+    // Same sign rules as ReconciliationService.calculateExpectedAmount
+    this.netCents += type === "sale" || type === "adjustment" ? cents : -Math.abs(cents);
+  }
+
+  /**
+   * Fee charged against a row: debits are fees, credits are adjustments
+   */
+  addFee(feeDebitCents: number, details: Omit<SettlementLine, "type" | "amount"> & { line: number }) {
+    if (feeDebitCents > 0) {
+      this.add("fee", feeDebitCents, details);
+    } else {
+      this.add("adjustment", -feeDebitCents, details);
+    }
+  }
+
+  build(
+    provider: SettlementProvider,
+    format: string,
+    content: string,
+    settlement: { settlementId?: string; settlementDate?: Date | null }
+  ): ParsedSettlementFile {
+    const errors = [...this.errors];
+    if (this.lines.length === 0 && errors.length === 0) {
+      errors.push({ line: 0, message: "No settlement lines found" });
+    }
+
+    const settlementDate = settlement.settlementDate || this.lastDate || new Date(0);
+    const settlementId =
+      settlement.settlementId ||
+      (this.firstDate && this.lastDate
+        ? `${provider}-${this.currency}-${formatDay(this.firstDate)}-${formatDay(this.lastDate)}`
+        : "");
+
+    return {
+      provider,
+      format,
+      settlementId,
+      settlementDate,
+      totalAmount: formatCents(this.netCents),
+      currency: this.currency,
+      lines: this.lines,
+      fileHash: hashSettlementFile(content),
+      rowCount: this.rowCount,
+      errors: errors.sort((a, b) => a.line - b.line),
+    };
+  }
+}
+
+/**
+ * Map the header record and check required columns are present
+ */
+function readHeaders(
+  record: CsvRecord | undefined,
+  required: string[][],
+  builder: SettlementBuilder
+): string[] | null {
+  if (!record) {
+    builder.error(0, "File is empty");
+    return null;
+  }
+
+  const headers = record.fields.map(normalizeHeader);
+  const missing = required.filter((alternatives) => !alternatives.some((c) => headers.includes(c)));
+  if (missing.length > 0) {
+    builder.error(
+      record.line,
+      `Missing column(s): ${missing.map((alternatives) => alternatives[0]).join(", ")}`
+    );
+    return null;
+  }
+
+  return headers;
+}
+
+function readAmount(
+  builder: SettlementBuilder,
+  line: number,
+  row: Row,
+  column: string,
+  options: { required?: boolean; minorUnits?: boolean } = {}
+): number | null {
+  const value = row[column] ?? "";
+  if (value === "") {
+    if (options.required) {
+      builder.error(line, `Missing ${column}`);
+      return null;
+    }
+    return 0;
+  }
+
+  const cents = parseAmountCents(value, options.minorUnits);
+  if (cents === null) {
+    builder.error(line, `Invalid ${column} "${value}"`);
+  }
+  return cents;
+}
+
+function readDate(builder: SettlementBuilder, line: number, value: string, column: string): Date | null {
+  const date = parseSettlementDate(value);
+  if (!date) {
+    builder.error(line, value ? `Invalid ${column} "${value}"` : `Missing ${column}`);
+  }
+  return date;
+}
+
+// ============================================================================
+// PAYPAL (STL / TRR)
+// ============================================================================
+
+/**
+ * PayPal Settlement (STL) and Transaction Detail (TRR) reports. Both are
+ * sectioned CSVs where the first field is a record type: RH report header,
+ * CH column header, SB section body, and header/footer rows we ignore.
+ * Amounts are in minor units with a separate CR/DR column.
+ */
+export function parsePayPalSettlement(content: string): ParsedSettlementFile {
+  const builder = new SettlementBuilder();
+  let headers: string[] | null = null;
+  let reportDate: Date | null = null;
+  let accountId = "";
+  let format = "paypal_stl";
+
+  for (const record of parseCsv(content)) {
+    const [recordType, ...fields] = record.fields;
+
+    switch (recordType.trim()) {
+      case "RH": {
+        reportDate = readDate(builder, record.line, fields[0] ?? "", "report date");
+        accountId = (fields[2] ?? "").trim();
+        break;
+      }
+      case "CH": {
+        headers = readHeaders(
+          { line: record.line, fields },
+          [
+            ["transaction_id"],
+            ["transaction_event_code"],
+            ["transaction_debit_or_credit"],
+            ["gross_transaction_amount"],
+            ["gross_transaction_currency"],
+          ],
+          builder
+        );
+        if (headers?.includes("transactional_status")) format = "paypal_trr";
+        break;
+      }
+      case "SB": {
+        if (!headers) {
+          builder.error(record.line, "Section body before column header");
+          break;
+        }
+        parsePayPalRow(builder, record.line, toRow(headers, fields));
+        break;
+      }
+    }
+  }
+
+  if (!reportDate) {
+    builder.error(0, "Missing RH report header");
+  }
+
+  return builder.build("paypal", format, content, {
+    settlementId: accountId && reportDate ? `paypal-${accountId}-${formatDay(reportDate)}` : undefined,
+    settlementDate: reportDate,
+  });
+}
+
+function parsePayPalRow(builder: SettlementBuilder, line: number, row: Row) {
+  // TRR lists pending and denied transactions too; only completed ones settle
+  if (row.transactional_status && row.transactional_status !== "S") return;
+
+  const eventCode = row.transaction_event_code;
+  const gross = readAmount(builder, line, row, "gross_transaction_amount", { required: true, minorUnits: true });
+  const fee = readAmount(builder, line, row, "fee_amount", { minorUnits: true });
+  const date = readDate(
+    builder,
+    line,
+    pick(row, "transaction_completion_date", "transaction_initiation_date"),
+    "transaction date"
+  );
+  if (gross === null || fee === null || !date) return;
+  if (!builder.acceptRow(line, row.gross_transaction_currency, date)) return;
+
+  const credit = row.transaction_debit_or_credit === "CR" ? gross : -gross;
+  const feeDebit = row.fee_debit_or_credit === "CR" ? -fee : fee;
+  const details = {
+    line,
+    // Refunds and reversals reference the original payment
+    platformOrderId: row.paypal_reference_id_type === "TXN" && row.paypal_reference_id
+      ? row.paypal_reference_id
+      : row.transaction_id,
+    description: row.transaction_subject || eventCode,
+    metadata: {
+      transactionId: row.transaction_id,
+      eventCode,
+      invoiceId: row.invoice_id || undefined,
+    },
+  };
+
+  // Withdrawals to the bank are the payout itself, not settlement activity
+  if (eventCode.startsWith("T04")) return;
+
+  if (eventCode.startsWith("T00") && credit > 0) {
+    builder.add("sale", credit, details);
+  } else if (eventCode === "T1107") {
+    builder.add("refund", credit, details);
+  } else if (eventCode === "T1106" || eventCode === "T1201") {
+    builder.add("chargeback", credit, details);
+  } else if (eventCode.startsWith("T01") && credit < 0) {
+    builder.add("fee", credit, details);
+  } else {
+    builder.add("adjustment", credit, details);
+  }
+
+  builder.addFee(feeDebit, { ...details, description: `Fee: ${details.description}` });
+}
+
+// ============================================================================
+// STRIPE
+// ============================================================================
+
+/**
+ * Stripe balance-transactions export (Dashboard "Balance" export or the
+ * itemized balance change / payout reconciliation reports). Amounts are in
+ * major units; Amount is gross and Fee is charged on top.
+ */
+export function parseStripeBalanceTransactions(content: string): ParsedSettlementFile {
+  const builder = new SettlementBuilder();
+  const [headerRecord, ...records] = parseCsv(content);
+  const headers = readHeaders(
+    headerRecord,
+    [
+      ["id", "balance_transaction_id"],
+      ["type", "reporting_category"],
+      ["amount", "gross"],
+      ["currency"],
+      ["created_utc", "created"],
+    ],
+    builder
+  );
+  const payoutIds = new Set<string>();
+
+  if (headers) {
+    for (const record of records) {
+      const row = toRow(headers, record.fields);
+      const payoutId = parseStripeRow(builder, record.line, row);
+      if (payoutId) payoutIds.add(payoutId);
+    }
+  }
+
+  // A payout reconciliation report covers exactly one payout
+  return builder.build("stripe", "stripe_balance_transactions", content, {
+    settlementId: payoutIds.size === 1 ? Array.from(payoutIds)[0] : undefined,
+  });
+}
+
+function parseStripeRow(builder: SettlementBuilder, line: number, row: Row): string | undefined {
+  const category = pick(row, "reporting_category", "type").toLowerCase();
+  const amountColumn = "amount" in row ? "amount" : "gross";
+  const amount = readAmount(builder, line, row, amountColumn, { required: true });
+  const fee = readAmount(builder, line, row, "fee");
+  const date = readDate(builder, line, pick(row, "created_utc", "created"), "created");
+  if (amount === null || fee === null || !date) return;
+
+  // Payout rows move the balance to the bank; their lines are the rest of the file
+  if (category === "payout") return;
+  if (!builder.acceptRow(line, row.currency, date)) return;
+
+  const id = pick(row, "id", "balance_transaction_id");
+  const details = {
+    line,
+    platformOrderId:
+      pick(row, "order_id_metadata", "payment_intent_id", "charge_id", "source_id", "source") || undefined,
+    description: row.description || category,
+    metadata: { balanceTransactionId: id, category },
+  };
+
+  const isDispute =
+    category === "dispute" || (category === "adjustment" && /chargeback|dispute/i.test(row.description || ""));
+
+  if (category === "charge" || category === "payment") {
+    builder.add("sale", amount, details);
+  } else if (category === "refund" || category === "payment_refund") {
+    builder.add("refund", amount, details);
+  } else if (isDispute && amount < 0) {
+    builder.add("chargeback", amount, details);
+  } else if (["fee", "stripe_fee", "application_fee", "tax"].includes(category) && amount < 0) {
+    builder.add("fee", amount, details);
+  } else {
+    builder.add("adjustment", amount, details);
+  }
+
+  builder.addFee(fee, { ...details, description: `Fee: ${details.description}` });
+
+  return row.automatic_payout_id || undefined;
+}
+
+// ============================================================================
+// WISE
+// ============================================================================
+
+/**
+ * Wise balance statement CSV (one currency per statement). Amount is the
+ * net balance movement; Total fees were taken out of it.
+ */
+export function parseWiseStatement(content: string): ParsedSettlementFile {
+  const builder = new SettlementBuilder();
+  const [headerRecord, ...records] = parseCsv(content);
+  const headers = readHeaders(
+    headerRecord,
+    [["transferwise_id", "id"], ["date"], ["amount"], ["currency"]],
+    builder
+  );
+
+  if (headers) {
+    for (const record of records) {
+      parseWiseRow(builder, record.line, toRow(headers, record.fields));
+    }
+  }
+
+  return builder.build("wise", "wise_statement", content, {});
+}
+
+function parseWiseRow(builder: SettlementBuilder, line: number, row: Row) {
+  const amount = readAmount(builder, line, row, "amount", { required: true });
+  const fees = readAmount(builder, line, row, "total_fees");
+  const date = readDate(builder, line, row.date, "date");
+  if (amount === null || fees === null || !date) return;
+  if (!builder.acceptRow(line, row.currency, date)) return;
+
+  const id = pick(row, "transferwise_id", "id");
+  const description = row.description || "";
+  const details = {
+    line,
+    platformOrderId: row.payment_reference || undefined,
+    description: description || id,
+    metadata: { wiseId: id, payerName: row.payer_name || undefined },
+  };
+
+  // Fees were deducted from Amount, so the principal is Amount plus fees
+  const principal = amount + Math.abs(fees);
+
+  if (id.startsWith("FEE-")) {
+    builder.addFee(-amount, details);
+    return;
+  }
+
+  // Incoming transfers are sales; conversions and payouts are adjustments
+  if (principal > 0 && id.startsWith("TRANSFER-") && !/refund|chargeback/i.test(description)) {
+    builder.add("sale", principal, details);
+  } else if (principal < 0 && /chargeback/i.test(description)) {
+    builder.add("chargeback", principal, details);
+  } else if (principal < 0 && /refund/i.test(description)) {
+    builder.add("refund", principal, details);
+  } else {
+    builder.add("adjustment", principal, details);
+  }
+
+  builder.addFee(Math.abs(fees), { ...details, description: `Fee: ${details.description}` });
+}
+
+// ============================================================================
+// TIKTOK SHOP
+// ============================================================================
+
+/**
+ * TikTok Shop Seller Center settlement export. Each row is an order or
+ * adjustment with its settled total, revenue, and fees (negative).
+ * Anything between revenue + fees and the settled total (shipping
+ * subsidies, taxes withheld) is kept as an adjustment so lines add up.
+ */
+export function parseTikTokShopSettlement(content: string): ParsedSettlementFile {
+  const builder = new SettlementBuilder();
+  const [headerRecord, ...records] = parseCsv(content);
+  const headers = readHeaders(
+    headerRecord,
+    [
+      ["order_adjustment_id"],
+      ["type"],
+      ["total_settlement_amount"],
+      ["currency"],
+      ["order_settled_time", "statement_date"],
+    ],
+    builder
+  );
+  const statementIds = new Set<string>();
+
+  if (headers) {
+    for (const record of records) {
+      const row = toRow(headers, record.fields);
+      if (parseTikTokRow(builder, record.line, row)) {
+        const statementId = pick(row, "statement_id", "payment_id");
+        if (statementId) statementIds.add(statementId);
+      }
+    }
+  }
+
+  return builder.build("tiktok_shop", "tiktok_shop_settlement", content, {
+    settlementId: statementIds.size === 1 ? `tiktok-${Array.from(statementIds)[0]}` : undefined,
+  });
+}
+
+function parseTikTokRow(builder: SettlementBuilder, line: number, row: Row): boolean {
+  const total = readAmount(builder, line, row, "total_settlement_amount", { required: true });
+  const revenue = readAmount(builder, line, row, "total_revenue");
+  const fees = readAmount(builder, line, row, "total_fees");
+  const date = readDate(builder, line, pick(row, "order_settled_time", "statement_date"), "settled time");
+  if (total === null || revenue === null || fees === null || !date) return false;
+  if (!builder.acceptRow(line, row.currency, date)) return false;
+
+  const type = row.type.toLowerCase();
+  const details = {
+    line,
+    platformOrderId: row.order_adjustment_id || undefined,
+    description: row.type,
+    metadata: { tiktokType: row.type },
+  };
+
+  if (/chargeback/.test(type)) {
+    builder.add("chargeback", total, details);
+    return true;
+  }
+
+  if (type === "order" || type === "refund") {
+    builder.add(type === "order" ? "sale" : "refund", revenue, details);
+    builder.addFee(-fees, { ...details, description: `Fee: ${row.type}` });
+    builder.add("adjustment", total - revenue - fees, {
+      ...details,
+      description: `Other settlement items: ${row.type}`,
+    });
+    return true;
+  }
+
+  builder.add("adjustment", total, details);
+  return true;
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+export function parseSettlementFile(provider: SettlementProvider, content: string): ParsedSettlementFile {
+  switch (provider) {
+    case "paypal":
+      return parsePayPalSettlement(content);
+    case "stripe":
+      return parseStripeBalanceTransactions(content);
+    case "wise":
+      return parseWiseStatement(content);
+    case "tiktok_shop":
+      return parseTikTokShopSettlement(content);
+    default:
+      throw new Error(`Unsupported settlement provider: ${provider}`);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Headless Signaling Client
+ * Speaks the WebRTC signaling protocol without a browser or media: joins in
+ * any role, trades placeholder SDP and ICE, and drives the co-host controls.
+ * Used by the tests; also handy against a dev server from a script.
+ */
+
+import type { GuestStage, PeerRole, StageLayout } from "./webrtc-signaling";
+import { TestSocket } from "./realtime-cluster";
+
+export class SignalingTestClient {
+  peerId: string | null = null;
+
+  private constructor(private socket: TestSocket) {}
+
+  static async connect(url: string): Promise<SignalingTestClient> {
+    return new SignalingTestClient(await TestSocket.connect(url));
+  }
+
+  /**
+   * Join a show's room as the user behind a session token; rejects with
+   * the server's error if refused
+   */
+  async join(
+    showId: string,
+    token: string | undefined,
+    role: PeerRole,
+    inviteToken?: string
+  ): Promise<{ peerId: string; stage?: GuestStage }> {
+    this.socket.send({ type: "join", showId, token, role, inviteToken });
+    const reply = await this.socket.next((message) => (message.type === "join" && message.showId) || message.type === "error");
+    if (reply.type === "error") throw new Error(reply.error);
+
+    this.peerId = reply.peerId;
+    return { peerId: reply.peerId, stage: reply.stage };
+  }
+
+  async invite(role: "guest" | "compositor" = "guest"): Promise<string> {
+    this.socket.send({ type: "invite", role });
+    return (await this.socket.next("invite")).inviteToken;
+  }
+
+  promote(peerId: string) {
+    this.socket.send({ type: "promote", peerId });
+  }
+
+  demote(peerId: string) {
+    this.socket.send({ type: "demote", peerId });
+  }
+
+  mute(peerId: string, kind: "audio" | "video", muted: boolean = true) {
+    this.socket.send({ type: "mute", peerId, kind, muted });
+  }
+
+  remove(peerId: string) {
+    this.socket.send({ type: "remove", peerId });
+  }
+
+  setLayout(layout: StageLayout, primaryPeerId?: string) {
+    this.socket.send({ type: "set-layout", layout, primaryPeerId });
+  }
+
+  offer(peerId: string) {
+    this.socket.send({ type: "offer", peerId, sdp: { type: "offer", sdp: `v=0 from ${this.peerId}` } });
+  }
+
+  answer(peerId: string) {
+    this.socket.send({ type: "answer", peerId, sdp: { type: "answer", sdp: `v=0 from ${this.peerId}` } });
+  }
+
+  iceCandidate(peerId: string) {
+    this.socket.send({ type: "ice-candidate", peerId, candidate: { candidate: "candidate:0 1 udp 1 127.0.0.1 9 typ host" } });
+  }
+
+  next(match: string | ((message: any) => boolean), timeoutMs?: number): Promise<any> {
+    return this.socket.next(match, timeoutMs);
+  }
+
+  close(): Promise<void> {
+    return this.socket.close();
+  }
+}
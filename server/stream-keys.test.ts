@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("./db", () => ({ getDb: vi.fn() }));
+
+import { getDb } from "./db";
+import {
+  PUBLISH_CLOSES_AFTER_MS,
+  PUBLISH_OPENS_BEFORE_MS,
+  authorizePublish,
+  endPublish,
+  generateStreamKey,
+  hashStreamKey,
+  isPublishAuthorized,
+  selectPublishShow,
+  verifyHookSecret,
+  type PublishCandidate,
+} from "./stream-keys";
+
+const now = new Date("2026-05-01T18:00:00Z");
+const minutes = (n: number) => new Date(now.getTime() + n * 60 * 1000);
+const show = (id: string, startsIn: number, status: PublishCandidate["status"] = "scheduled"): PublishCandidate => ({
+  id,
+  status,
+  scheduledStartAt: minutes(startsIn),
+});
+
+describe("Stream Keys", () => {
+  it("should issue unguessable keys and store only their hash", () => {
+    const key = generateStreamKey();
+    expect(key).toMatch(/^live_[0-9a-f]{48}$/);
+    expect(generateStreamKey()).not.toBe(key);
+    expect(hashStreamKey(key)).toHaveLength(64);
+    expect(hashStreamKey(key)).not.toContain(key.slice(5));
+  });
+
+  it("should only publish within the window around a scheduled show", () => {
+    const opensBefore = PUBLISH_OPENS_BEFORE_MS / 60000;
+    const closesAfter = PUBLISH_CLOSES_AFTER_MS / 60000;
+
+    expect(selectPublishShow([show("early", opensBefore + 1)], now)).toBeNull();
+    expect(selectPublishShow([show("soon", opensBefore)], now)?.id).toBe("soon");
+    expect(selectPublishShow([show("late", -closesAfter)], now)?.id).toBe("late");
+    expect(selectPublishShow([show("missed", -closesAfter - 1)], now)).toBeNull();
+
+    // Nearest scheduled start wins; a live show (reconnect) beats both
+    const shows = [show("next", 20), show("now", -5), show("old", -90)];
+    expect(selectPublishShow(shows, now)?.id).toBe("now");
+    expect(selectPublishShow([...shows, show("running", -600, "live")], now)?.id).toBe("running");
+    expect(selectPublishShow([show("gone", 0, "cancelled")], now)).toBeNull();
+  });
+
+  it("should require the hook secret and refuse unauthorized ingest", async () => {
+    expect(verifyHookSecret("s3cret", "s3cret")).toBe(true);
+    expect(verifyHookSecret("s3cre", "s3cret")).toBe(false);
+    expect(verifyHookSecret(undefined, "s3cret")).toBe(false);
+    expect(verifyHookSecret(["s3cret"], "s3cret")).toBe(false);
+
+    expect(await isPublishAuthorized("show_1", generateStreamKey())).toBe(false);
+  });
+
+  it("should let only one encoder publish on a key at a time", async () => {
+    const streamKey = generateStreamKey();
+    const key = { id: "key-1", creatorId: 7, status: "active" };
+    const shows = [show("show_1", -5)];
+    // The key lookup ends in limit(); the show lookup doesn't
+    vi.mocked(getDb).mockResolvedValue({
+      select: () => ({
+        from: () => ({ where: () => Object.assign(Promise.resolve(shows), { limit: async () => [key] }) }),
+      }),
+      update: () => ({ set: () => ({ where: async () => [{ affectedRows: 1 }] }) }),
+    } as unknown as Awaited<ReturnType<typeof getDb>>);
+
+    const decisions = await Promise.all([
+      authorizePublish(streamKey, "10.0.0.1", now),
+      authorizePublish(streamKey, "10.0.0.2", now),
+    ]);
+    expect(decisions.filter((decision) => decision.allowed)).toHaveLength(1);
+    expect(decisions.find((decision) => !decision.allowed)?.reason).toMatch(/^key already publishing/);
+
+    // Once the first publish ends the key is free again
+    await endPublish(streamKey);
+    expect(await authorizePublish(streamKey, "10.0.0.2", now)).toMatchObject({ allowed: true, showId: "show_1" });
+    expect(await isPublishAuthorized("show_1", streamKey)).toBe(true);
+    await endPublish(streamKey);
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Stream Keys
+ *
+ * Per-creator RTMP stream keys and the publish authorization our RTMP server
+ * asks for. A key is shown once when issued and stored only as a SHA-256
+ * hash. It publishes only inside a window around one of its creator's
+ * scheduled shows, and the RTMP server re-checks it on every update while
+ * the stream runs, so rotating or revoking a key cuts a live broadcast.
+ *
+ * The RTMP server calls the hooks (nginx-rtmp on_publish / on_update /
+ * on_publish_done, or anything speaking the same form fields) with the key
+ * as the stream name; a 2xx answer lets the publish through. Publishes it
+ * let through live on the realtime backplane, so any instance can answer a
+ * hook or cut a stream whichever instance runs its transcode.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { ulid } from "ulid";
+import { liveShows, streamKeys } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { getDb } from "./db";
+import { createBackplane, type Backplane } from "./realtime-backplane";
+
+// A key can publish from this long before a show's scheduled start...
+export const PUBLISH_OPENS_BEFORE_MS = 30 * 60 * 1000;
+// ...until this long after it if the show never went live
+export const PUBLISH_CLOSES_AFTER_MS = 2 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PublishCandidate {
+  id: string;
+  status: "scheduled" | "live" | "ended" | "cancelled";
+  scheduledStartAt: Date;
+}
+
+export interface PublishDecision {
+  allowed: boolean;
+  reason?: string;
+  showId?: string;
+  creatorId?: number;
+}
+
+export interface ActivePublish {
+  keyId: string;
+  creatorId: number;
+  showId: string;
+  clientAddr: string | null;
+  startedAt: Date;
+}
+
+export interface StreamKeySummary {
+  id: string;
+  keyPrefix: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export type RtmpHook = "on_publish" | "on_update" | "on_publish_done";
+
+// Publishes the RTMP server has let through, by key hash. Ingest and the
+// founder console read them; on_publish_done and revocation remove them.
+const ACTIVE_PUBLISHES_KEY = "stream-keys:publishes";
+// One publisher per key: the claim is taken atomically before a publish is
+// recorded, and released with it
+const PUBLISH_CLAIM_KEY_PREFIX = "stream-keys:claim:";
+// Ended publishes, so the instance running the transcode stops it
+const PUBLISH_ENDED_CHANNEL = "stream-keys:publish-ended";
+// on_update refreshes a publish (nginx-rtmp sends it every 30s by default);
+// one the RTMP server stopped reporting on drops out after this long
+const PUBLISH_TTL_MS = 5 * 60 * 1000;
+
+interface StoredPublish extends Omit<ActivePublish, "startedAt"> {
+  startedAt: string;
+  expiresAt: number;
+}
+
+let backplane: Backplane | null = null;
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export function generateStreamKey(): string {
+  return `live_${randomBytes(24).toString("hex")}`;
+}
+
+export function hashStreamKey(streamKey: string): string {
+  return createHash("sha256").update(streamKey).digest("hex");
+}
+
+/**
+ * The creator's active key, without the key itself
+ */
+export async function getStreamKeySummary(creatorId: number): Promise<StreamKeySummary | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [key] = await db
+    .select()
+    .from(streamKeys)
+    .where(and(eq(streamKeys.creatorId, creatorId), eq(streamKeys.status, "active")))
+    .orderBy(desc(streamKeys.createdAt))
+    .limit(1);
+
+  return key ? { id: key.id, keyPrefix: key.keyPrefix, createdAt: key.createdAt, lastUsedAt: key.lastUsedAt } : null;
+}
+
+/**
+ * Issue a new key for the creator, retiring the active one. The returned key
+ * is the only copy; a stream running on the old key is cut.
+ */
+export async function rotateStreamKey(creatorId: number): Promise<{ id: string; streamKey: string; keyPrefix: string }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const streamKey = generateStreamKey();
+  const id = ulid();
+  const keyPrefix = streamKey.slice(0, 12);
+
+  const retired = await db.transaction(async (tx) => {
+    const current = await tx
+      .select({ id: streamKeys.id, keyHash: streamKeys.keyHash })
+      .from(streamKeys)
+      .where(and(eq(streamKeys.creatorId, creatorId), eq(streamKeys.status, "active")))
+      .for("update");
+
+    if (current.length > 0) {
+      await tx
+        .update(streamKeys)
+        .set({ status: "rotated", revokedAt: new Date(), revokedBy: creatorId })
+        .where(inArray(streamKeys.id, current.map((key) => key.id)));
+    }
+
+    await tx.insert(streamKeys).values({
+      id,
+      creatorId,
+      keyHash: hashStreamKey(streamKey),
+      keyPrefix,
+      status: "active",
+    });
+
+    return current.map((key) => key.keyHash);
+  });
+
+  await Promise.all(retired.map((keyHash) => endPublishByHash(keyHash, "key rotated")));
+  return { id, streamKey, keyPrefix };
+}
+
+/**
+ * Revoke the creator's active key, stopping any stream on it now. The
+ * creator has no key until they rotate in a new one.
+ */
+export async function revokeStreamKey(params: {
+  creatorId: number;
+  revokedBy: number;
+  reason: string;
+}): Promise<{ revoked: number; stoppedShows: string[] }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const active = await db
+    .select({ id: streamKeys.id, keyHash: streamKeys.keyHash })
+    .from(streamKeys)
+    .where(and(eq(streamKeys.creatorId, params.creatorId), eq(streamKeys.status, "active")));
+
+  if (active.length === 0) {
+    return { revoked: 0, stoppedShows: [] };
+  }
+
+  await db
+    .update(streamKeys)
+    .set({ status: "revoked", revokedAt: new Date(), revokedBy: params.revokedBy, revokeReason: params.reason })
+    .where(inArray(streamKeys.id, active.map((key) => key.id)));
+
+  const stopped = await Promise.all(active.map((key) => endPublishByHash(key.keyHash, "key revoked")));
+  return { revoked: active.length, stoppedShows: stopped.filter((showId): showId is string => showId !== null) };
+}
+
+// ============================================================================
+// PUBLISH AUTHORIZATION
+// ============================================================================
+
+/**
+ * The show a publish belongs to: a show already live (the encoder
+ * reconnecting), otherwise the scheduled show whose window is open and
+ * whose start is nearest. Null when no show is in its window.
+ */
+export function selectPublishShow(shows: PublishCandidate[], now: Date = new Date()): PublishCandidate | null {
+  const live = shows.find((show) => show.status === "live");
+  if (live) return live;
+
+  const open = shows.filter((show) => {
+    if (show.status !== "scheduled") return false;
+    const start = show.scheduledStartAt.getTime();
+    return now.getTime() >= start - PUBLISH_OPENS_BEFORE_MS && now.getTime() <= start + PUBLISH_CLOSES_AFTER_MS;
+  });
+
+  open.sort(
+    (a, b) =>
+      Math.abs(a.scheduledStartAt.getTime() - now.getTime()) - Math.abs(b.scheduledStartAt.getTime() - now.getTime())
+  );
+  return open[0] ?? null;
+}
+
+/**
+ * Check a publish attempt and record it when allowed
+ */
+export async function authorizePublish(
+  streamKey: string,
+  clientAddr: string | null = null,
+  now: Date = new Date()
+): Promise<PublishDecision> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const keyHash = hashStreamKey(streamKey);
+  const [key] = await db.select().from(streamKeys).where(eq(streamKeys.keyHash, keyHash)).limit(1);
+  if (!key) return { allowed: false, reason: "unknown stream key" };
+  if (key.status !== "active") return { allowed: false, reason: `stream key ${key.status}`, creatorId: key.creatorId };
+
+  const shows = await db
+    .select({ id: liveShows.id, status: liveShows.status, scheduledStartAt: liveShows.scheduledStartAt })
+    .from(liveShows)
+    .where(and(eq(liveShows.hostId, key.creatorId), inArray(liveShows.status, ["scheduled", "live"])));
+
+  const show = selectPublishShow(shows, now);
+  if (!show) {
+    return { allowed: false, reason: "no show scheduled for this key right now", creatorId: key.creatorId };
+  }
+
+  // Of two encoders starting on one key at once, only one gets the claim
+  const claimed = await getBackplane().setIfAbsent(PUBLISH_CLAIM_KEY_PREFIX + keyHash, show.id, PUBLISH_TTL_MS);
+  if (!claimed) {
+    const existing = await getActivePublish(keyHash);
+    const target = existing ? ` to show ${existing.showId}` : "";
+    return { allowed: false, reason: `key already publishing${target}`, creatorId: key.creatorId };
+  }
+
+  await saveActivePublish(keyHash, {
+    keyId: key.id,
+    creatorId: key.creatorId,
+    showId: show.id,
+    clientAddr,
+    startedAt: now,
+  });
+  await db.update(streamKeys).set({ lastUsedAt: now }).where(eq(streamKeys.id, key.id));
+
+  return { allowed: true, showId: show.id, creatorId: key.creatorId };
+}
+
+/**
+ * Re-check a running publish: the key must still be active and its show
+ * not ended or cancelled
+ */
+export async function checkPublish(streamKey: string): Promise<PublishDecision> {
+  const keyHash = hashStreamKey(streamKey);
+  const publish = await getActivePublish(keyHash);
+  if (!publish) return { allowed: false, reason: "publish was not authorized" };
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [key] = await db
+    .select({ status: streamKeys.status })
+    .from(streamKeys)
+    .where(eq(streamKeys.id, publish.keyId))
+    .limit(1);
+  if (key?.status !== "active") {
+    await endPublishByHash(keyHash, "key no longer active");
+    return { allowed: false, reason: `stream key ${key?.status ?? "deleted"}`, creatorId: publish.creatorId };
+  }
+
+  const [show] = await db
+    .select({ status: liveShows.status })
+    .from(liveShows)
+    .where(eq(liveShows.id, publish.showId))
+    .limit(1);
+  if (!show || show.status === "ended" || show.status === "cancelled") {
+    await endPublishByHash(keyHash, "show over");
+    return { allowed: false, reason: `show ${publish.showId} is ${show?.status ?? "gone"}`, creatorId: publish.creatorId };
+  }
+
+  await saveActivePublish(keyHash, publish);
+  return { allowed: true, showId: publish.showId, creatorId: publish.creatorId };
+}
+
+export async function endPublish(streamKey: string, reason: string = "publisher disconnected"): Promise<string | null> {
+  return endPublishByHash(hashStreamKey(streamKey), reason);
+}
+
+/**
+ * Whether the RTMP server let this key publish to this show
+ */
+export async function isPublishAuthorized(showId: string, streamKey: string): Promise<boolean> {
+  return (await getActivePublish(hashStreamKey(streamKey)))?.showId === showId;
+}
+
+export async function listActivePublishes(now: number = Date.now()): Promise<ActivePublish[]> {
+  const entries = await getBackplane().hgetall(ACTIVE_PUBLISHES_KEY);
+  return Object.values(entries)
+    .map((raw) => readPublish(raw, now))
+    .filter((publish): publish is ActivePublish => publish !== null);
+}
+
+async function endPublishByHash(keyHash: string, reason: string): Promise<string | null> {
+  const publish = await getActivePublish(keyHash);
+  await getBackplane().del(PUBLISH_CLAIM_KEY_PREFIX + keyHash);
+  if (!publish) return null;
+  await getBackplane().hdel(ACTIVE_PUBLISHES_KEY, keyHash);
+
+  // Whichever instance runs the transcode stops it now; the RTMP server
+  // drops the publisher on its next update
+  await getBackplane().publish(PUBLISH_ENDED_CHANNEL, JSON.stringify({ showId: publish.showId, reason }));
+  return publish.showId;
+}
+
+async function getActivePublish(keyHash: string): Promise<ActivePublish | null> {
+  const entries = await getBackplane().hgetall(ACTIVE_PUBLISHES_KEY);
+  return entries[keyHash] ? readPublish(entries[keyHash]) : null;
+}
+
+async function saveActivePublish(keyHash: string, publish: ActivePublish) {
+  const stored: StoredPublish = {
+    ...publish,
+    startedAt: publish.startedAt.toISOString(),
+    expiresAt: Date.now() + PUBLISH_TTL_MS,
+  };
+  await getBackplane().hset(ACTIVE_PUBLISHES_KEY, keyHash, JSON.stringify(stored), PUBLISH_TTL_MS);
+  // The claim lives as long as the publish it guards
+  await getBackplane().set(PUBLISH_CLAIM_KEY_PREFIX + keyHash, publish.showId, PUBLISH_TTL_MS);
+}
+
+/**
+ * A stored publish, or null when it has expired or can't be read
+ */
+function readPublish(raw: string, now: number = Date.now()): ActivePublish | null {
+  try {
+    const { expiresAt, startedAt, ...publish } = JSON.parse(raw) as StoredPublish;
+    return expiresAt > now ? { ...publish, startedAt: new Date(startedAt) } : null;
+  } catch {
+    return null;
+  }
+}
+
+function getBackplane(): Backplane {
+  if (!backplane) {
+    backplane = createBackplane();
+    backplane
+      .subscribe(PUBLISH_ENDED_CHANNEL, (message) => void stopEndedIngest(message))
+      .catch((error) => console.error("[Stream Keys] Failed to subscribe to ended publishes:", error.message));
+  }
+  return backplane;
+}
+
+async function stopEndedIngest(message: string) {
+  try {
+    const { showId, reason } = JSON.parse(message) as { showId: string; reason: string };
+    const { stopIngest } = await import("./rtmp-ingestion");
+    if (stopIngest(showId)) {
+      console.log(`[Stream Keys] Stopped ingest for ${showId}: ${reason}`);
+    }
+  } catch (error) {
+    console.error("[Stream Keys] Failed to stop ended ingest:", error instanceof Error ? error.message : error);
+  }
+}
+
+// ============================================================================
+// RTMP SERVER HOOKS
+// ============================================================================
+
+/**
+ * Hooks must carry RTMP_HOOK_SECRET. Without one configured they are only
+ * accepted outside production.
+ */
+export function verifyHookSecret(provided: unknown, secret: string = ENV.rtmpHookSecret): boolean {
+  if (!secret) return !ENV.isProduction;
+  if (typeof provided !== "string") return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Answer one RTMP server hook. The stream name is the key.
+ */
+export async function handleRtmpHook(
+  hook: RtmpHook,
+  fields: { name?: string; addr?: string }
+): Promise<PublishDecision> {
+  const streamKey = fields.name?.trim();
+  if (!streamKey) return { allowed: false, reason: "missing stream name" };
+
+  switch (hook) {
+    case "on_publish":
+      return authorizePublish(streamKey, fields.addr ?? null);
+    case "on_update":
+      return checkPublish(streamKey);
+    case "on_publish_done":
+      await endPublish(streamKey);
+      return { allowed: true };
+  }
+}
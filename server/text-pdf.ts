@@ -0,0 +1,83 @@
+/**
+ * Text PDFs
+ *
+ * Renders plain monospaced text lines to a small PDF without any PDF
+ * library, for statements and dispute documents.
+ */
+
+// Lines per A4 page at 9pt Courier, and characters that fit across it
+const PDF_LINES_PER_PAGE = 64;
+export const PDF_LINE_WIDTH = 95;
+
+/**
+ * Break long lines at word boundaries so they don't run off the page
+ */
+export function wrapTextLines(textLines: string[], width = PDF_LINE_WIDTH): string[] {
+  const wrapped: string[] = [];
+  for (const line of textLines) {
+    let rest = line;
+    while (rest.length > width) {
+      const space = rest.lastIndexOf(" ", width);
+      const cut = space > 0 ? space : width;
+      wrapped.push(rest.slice(0, cut));
+      rest = rest.slice(cut).replace(/^ /, "");
+    }
+    wrapped.push(rest);
+  }
+  return wrapped;
+}
+
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * Minimal PDF 1.4 of monospaced text lines, paginated
+ */
+export function buildTextPdf(textLines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < textLines.length; i += PDF_LINES_PER_PAGE) {
+    pages.push(textLines.slice(i, i + PDF_LINES_PER_PAGE));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // 1 catalog, 2 page tree, 3 font, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>";
+
+  pages.forEach((lines, i) => {
+    const stream = [
+      "BT",
+      "/F1 9 Tf",
+      "11 TL",
+      "36 817 Td",
+      ...lines.map(line => `(${escapePdfText(line)}) '`),
+      "ET"
+    ].join("\n");
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
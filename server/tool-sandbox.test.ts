@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  auditEntryToEffect,
+  buildDryRunReport,
+  diffEffects,
+  getRecordedEffects,
+  summarizeEffects,
+} from "./business-os/tool-sandbox";
+
+const at = "2026-03-10T09:00:00.000Z";
+
+describe("Tool Sandbox", () => {
+  it("should collect simulated effects from the run trace", () => {
+    const trace = [
+      { timestamp: at, step: "create_po", status: "started", data: {} },
+      {
+        timestamp: at,
+        step: "create_po",
+        status: "simulated",
+        data: {
+          toolName: "purchasing",
+          operation: "create_po",
+          effects: [{ kind: "purchase_order", change: "create", data: { sku: "A1", qty: 50 } }],
+        },
+      },
+      {
+        timestamp: at,
+        step: "notify",
+        status: "simulated",
+        data: {
+          toolName: "email",
+          operation: "send",
+          effects: [{ kind: "email", change: "send", target: "supplier@example.com", data: { template: "po" } }],
+        },
+      },
+    ];
+
+    const effects = getRecordedEffects(trace);
+    expect(effects.map((e) => [e.stepId, e.toolName, e.kind])).toEqual([
+      ["create_po", "purchasing", "purchase_order"],
+      ["notify", "email", "email"],
+    ]);
+    expect(summarizeEffects(effects)).toEqual({ "purchase_order.create": 1, "email.send": 1 });
+  });
+
+  it("should diff what the dry run would write against what people did", () => {
+    const diff = diffEffects(
+      [
+        { kind: "price", change: "update", target: "sku_1", data: { price: 24.99 } },
+        { kind: "price", change: "update", target: "sku_2", data: { price: 9.99 } },
+        { kind: "email", change: "send", data: { template: "restock" } },
+      ],
+      [
+        { kind: "price", change: "update", target: "sku_1", data: { price: 22.99 } },
+        { kind: "price", change: "update", target: "sku_2", data: { price: 9.99 } },
+        { kind: "purchase_order", change: "create", target: "po_9", data: {} },
+      ]
+    );
+
+    expect(diff.matched.map((m) => [m.target, m.differences])).toEqual([
+      ["sku_1", [{ field: "price", wouldWrite: 24.99, actual: 22.99 }]],
+      ["sku_2", []],
+    ]);
+    expect(diff.extra.map((e) => e.kind)).toEqual(["email"]);
+    expect(diff.missed.map((e) => e.target)).toEqual(["po_9"]);
+    expect(diff.agreement).toBeCloseTo(1 / 4);
+  });
+
+  it("should read audited writes as effects and ignore other entries", () => {
+    expect(
+      auditEntryToEffect({ entityType: "order", entityId: "o1", action: "Created", changes: { total: 40 } })
+    ).toEqual({ kind: "order", change: "create", target: "o1", data: { total: 40 } });
+    expect(auditEntryToEffect({ entityType: "action", entityId: "a1", action: "execute" })).toBeNull();
+    expect(auditEntryToEffect({ entityType: "action", entityId: "a1", action: "toString" })).toBeNull();
+
+    const report = buildDryRunReport({ runId: "run_1", workflowId: "wf_1", status: "completed", trace: [] }, []);
+    expect(report.diff.agreement).toBe(1);
+    expect(report.effects).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { startLocalCluster, type LocalCluster } from "./realtime-cluster";
+import { SignalingTestClient } from "./signaling-test-client";
+import { buildStageState, canSignal } from "./webrtc-signaling";
+
+const stageUpdate = (predicate: (state: any) => boolean) => (m: any) => m.type === "stage-update" && predicate(m.state);
+
+// Session tokens of the test users; "host" hosts every show
+const users: Record<string, number> = { host: 1, rep: 2, someone: 3, fan: 4, mixer: 5 };
+const signaling = {
+  authenticate: async (_req: unknown, token?: string) => {
+    if (!token || !users[token]) throw new Error("Invalid session cookie");
+    return { id: users[token] };
+  },
+  getShowHostId: async () => users.host,
+};
+
+describe("WebRTC Signaling", () => {
+  describe("Co-host rules", () => {
+    it("should keep green room guests to the host until promoted", () => {
+      const host = { role: "host" as const };
+      const viewer = { role: "viewer" as const };
+      const compositor = { role: "compositor" as const };
+      const waiting = { role: "guest" as const, stage: "green_room" as const };
+      const onStage = { role: "guest" as const, stage: "on_stage" as const };
+
+      expect(canSignal(waiting, host)).toBe(true);
+      expect(canSignal(waiting, compositor)).toBe(false);
+      expect(canSignal(viewer, waiting)).toBe(false);
+      expect(canSignal(onStage, compositor)).toBe(true);
+      expect(canSignal(onStage, onStage)).toBe(true);
+      expect(canSignal(viewer, onStage)).toBe(false);
+      expect(canSignal(viewer, compositor)).toBe(true);
+    });
+
+    it("should show only the host until a guest is on stage", () => {
+      const record = (role: any, stage?: any) => ({ userId: role, role, stage, nodeId: "n", connectedAt: "", expiresAt: 0 });
+      const members = new Map([
+        ["g1", record("guest", "on_stage")],
+        ["h", record("host")],
+        ["g2", record("guest", "green_room")],
+      ]);
+
+      const state = buildStageState(members, { layout: "pip", primaryPeerId: "g1" });
+      expect(state.participants.map((p) => p.peerId)).toEqual(["h", "g1"]);
+      expect(state).toMatchObject({ layout: "pip", primaryPeerId: "g1" });
+
+      members.delete("g1");
+      expect(buildStageState(members, { layout: "pip", primaryPeerId: "g1" })).toMatchObject({
+        layout: "solo",
+        primaryPeerId: "h",
+      });
+    });
+  });
+
+  describe("Co-host session", () => {
+    let cluster: LocalCluster;
+    let clients: SignalingTestClient[];
+
+    const connect = async (node: number) => {
+      const client = await SignalingTestClient.connect(cluster.nodes[node].signalingUrl);
+      clients.push(client);
+      return client;
+    };
+
+    beforeEach(async () => {
+      cluster = await startLocalCluster(2, { signaling });
+      clients = [];
+    });
+
+    afterEach(async () => {
+      await Promise.all(clients.map((client) => client.close()));
+      await cluster.close();
+    });
+
+    it("should take a guest from invite through the stage to removal across nodes", async () => {
+      const host = await connect(0);
+      const { peerId: hostPeerId } = await host.join("show_co", "host", "host");
+
+      const compositor = await connect(0);
+      await compositor.join("show_co", "mixer", "compositor", await host.invite("compositor"));
+      await compositor.next(stageUpdate((state) => state.layout === "solo"));
+
+      // The guest is on the other node and starts in the green room
+      const token = await host.invite();
+      const guest = await connect(1);
+      const { peerId: guestPeerId, stage } = await guest.join("show_co", "rep", "guest", token);
+      expect(stage).toBe("green_room");
+      expect((await host.next("guest-waiting")).peerId).toBe(guestPeerId);
+
+      guest.offer(hostPeerId);
+      expect((await host.next("offer")).peerId).toBe(guestPeerId);
+      guest.offer(compositor.peerId!);
+      expect((await guest.next("error")).error).toBe("Not allowed to signal that peer");
+
+      host.promote(guestPeerId);
+      expect((await guest.next("stage")).stage).toBe("on_stage");
+      await compositor.next(stageUpdate((state) => state.participants.length === 2 && state.layout === "side-by-side"));
+      guest.offer(compositor.peerId!);
+      expect((await compositor.next("offer")).peerId).toBe(guestPeerId);
+
+      host.setLayout("pip", guestPeerId);
+      await compositor.next(stageUpdate((state) => state.layout === "pip" && state.primaryPeerId === guestPeerId));
+
+      host.mute(guestPeerId, "audio");
+      expect(await guest.next("mute")).toMatchObject({ kind: "audio", muted: true });
+      await compositor.next(stageUpdate((state) => state.participants[1]?.muted.audio === true));
+
+      host.remove(guestPeerId);
+      await guest.next("removed");
+      expect(await host.next("leave")).toMatchObject({ peerId: guestPeerId, role: "guest" });
+      await compositor.next(stageUpdate((state) => state.participants.length === 1));
+      expect((await cluster.nodes[1].signaling.getRoomStats("show_co"))?.guests).toEqual([]);
+
+      // The link dies with the removal
+      const again = await connect(1);
+      await expect(again.join("show_co", "rep", "guest", token)).rejects.toThrow("Invite is invalid or has expired");
+    });
+
+    it("should refuse invites that are reused, forged or used by non-hosts", async () => {
+      const host = await connect(0);
+      await host.join("show_inv", "host", "host");
+      const token = await host.invite();
+
+      const guest = await connect(1);
+      const { peerId: guestPeerId } = await guest.join("show_inv", "rep", "guest", token);
+
+      const other = await connect(1);
+      await expect(other.join("show_inv", "someone", "guest", token)).rejects.toThrow("Invite already used");
+      await expect(other.join("show_inv", "someone", "guest", "forged")).rejects.toThrow("Invite is invalid");
+      await expect(other.join("show_inv", "someone", "compositor", token)).rejects.toThrow("Invite is invalid");
+
+      const viewer = await connect(0);
+      await viewer.join("show_inv", "fan", "viewer");
+      viewer.promote(guestPeerId);
+      expect((await viewer.next("error")).error).toBe("Only the host can manage guests");
+      viewer.setLayout("pip");
+      expect((await viewer.next("error")).error).toBe("Only the host can change the layout");
+    });
+
+    it("should take identities from the session and only let the show's host host", async () => {
+      const impostor = await connect(0);
+      await expect(impostor.join("show_auth", "fan", "host")).rejects.toThrow("Only the show host can join as host");
+      await expect(impostor.join("show_auth", undefined, "host")).rejects.toThrow("Only the show host can join as host");
+
+      const host = await connect(0);
+      await host.join("show_auth", "host", "host");
+      const token = await host.invite();
+
+      const anonymous = await connect(1);
+      await expect(anonymous.join("show_auth", undefined, "guest", token)).rejects.toThrow("Sign in to join as a guest");
+      await anonymous.join("show_auth", undefined, "viewer");
+
+      const guest = await connect(1);
+      await guest.join("show_auth", "rep", "guest", token);
+      expect(await host.next("guest-waiting")).toMatchObject({ userId: "2" });
+    });
+  });
+});
@@ -1,47 +1,246 @@
 /**
  * WebRTC Signaling Server
  * Handles peer connection establishment, ICE candidate exchange, and session management
+ *
+ * Room membership lives on the realtime backplane, so a host and its viewers
+ * can be connected to different server instances; signaling messages for a
+ * peer on another instance are relayed to it.
+ *
+ * Co-hosting: the host invites a guest with a link carrying an invite token.
+ * The guest waits in the green room, where they can only reach the host,
+ * until the host brings them on stage. The compositor (joined with its own
+ * invite) mixes the host and on-stage guests and is told the stage layout
+ * and who is muted on every change. Stage changes to a guest are applied by
+ * the node the guest is connected to, which then announces the new stage.
+ *
+ * Peers are identified by the app session (the cookie on the upgrade
+ * request, or a token in the join), never by a user ID the client sends.
+ * Only the show's host can join as host; guests must be signed in so their
+ * invite binds to them. Viewers and the compositor may join anonymously.
  */
 
+import { randomBytes } from 'crypto';
 import { WebSocket, WebSocketServer } from 'ws';
 import { IncomingMessage } from 'http';
+import { eq } from 'drizzle-orm';
+import { getDb } from './db';
+import { liveShows, type User } from '../drizzle/schema';
+import { sdk } from './_core/sdk';
+import { createBackplane, type Backplane } from './realtime-backplane';
+
+type PeerRole = 'host' | 'viewer' | 'guest' | 'compositor';
+type GuestStage = 'green_room' | 'on_stage';
+type StageLayout = 'solo' | 'side-by-side' | 'pip';
+
+interface MuteState {
+  audio: boolean;
+  video: boolean;
+}
 
 interface SignalingMessage {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'join' | 'leave' | 'error';
+  type:
+    | 'offer' | 'answer' | 'ice-candidate' | 'join' | 'leave' | 'error'
+    // Host controls
+    | 'invite' | 'promote' | 'demote' | 'mute' | 'remove' | 'set-layout'
+    // Server notices
+    | 'guest-waiting' | 'stage' | 'stage-update' | 'removed';
   showId?: string;
   userId?: string;
   peerId?: string;
   sdp?: RTCSessionDescriptionInit;
   candidate?: RTCIceCandidateInit;
-  role?: 'host' | 'viewer';
+  role?: PeerRole;
   error?: string;
+  inviteToken?: string;
+  expiresAt?: string;
+  stage?: GuestStage;
+  kind?: 'audio' | 'video';
+  muted?: boolean;
+  layout?: StageLayout;
+  primaryPeerId?: string;
+  state?: StageState;
+  // Session token for clients that can't send the session cookie
+  token?: string;
 }
 
 interface Peer {
   id: string;
   userId: string;
   showId: string;
-  role: 'host' | 'viewer';
+  role: PeerRole;
   ws: WebSocket;
   connectedAt: Date;
+  stage?: GuestStage;
+  muted: MuteState;
+  inviteToken?: string;
+}
+
+// A room member as every node sees it
+interface PeerRecord {
+  userId: string;
+  role: PeerRole;
+  nodeId: string;
+  connectedAt: string;
+  expiresAt: number;
+  stage?: GuestStage;
+  muted?: MuteState;
+  inviteToken?: string;
 }
 
-interface Room {
+interface InviteRecord {
   showId: string;
-  host?: Peer;
-  viewers: Map<string, Peer>;
-  createdAt: Date;
+  role: 'guest' | 'compositor';
+  invitedBy: string;
+  // Bound to the first user who joins with it, so the link can't be passed on
+  userId: string | null;
+  expiresAt: number;
+}
+
+interface LayoutRecord {
+  layout: StageLayout;
+  primaryPeerId: string | null;
+}
+
+// What the compositor draws
+interface StageState {
+  layout: StageLayout;
+  primaryPeerId: string | null;
+  participants: Array<{ peerId: string; userId: string; role: 'host' | 'guest'; muted: MuteState }>;
+}
+
+type SignalingParty = { role: PeerRole; stage?: GuestStage };
+
+// Messages between nodes; each node ignores its own
+type SignalingRelay =
+  | { kind: 'peer'; peerId: string; showId: string; message: SignalingMessage }
+  | { kind: 'close'; showId: string };
+
+type SignalingRelayEnvelope = SignalingRelay & { origin: string };
+
+export interface SignalingServerOptions {
+  // Defaults to Redis when REDIS_URL is set, otherwise in-memory
+  backplane?: Backplane;
+  // Defaults to the app session; throws when the session is invalid
+  authenticate?: (req: IncomingMessage, token?: string) => Promise<Pick<User, 'id'>>;
+  // Defaults to live_shows.host_id
+  getShowHostId?: (showId: string) => Promise<number | null>;
+}
+
+const RELAY_CHANNEL = 'signaling:relay';
+const PEER_TTL = 90000; // 90 seconds, three refreshes
+const PEER_REFRESH_INTERVAL = 30000;
+const INVITE_TTL = 30 * 60 * 1000;
+const LAYOUT_TTL = 12 * 60 * 60 * 1000;
+const MAX_ON_STAGE_GUESTS = 3;
+const STAGE_LAYOUTS: StageLayout[] = ['solo', 'side-by-side', 'pip'];
+const NOT_MUTED: MuteState = { audio: false, video: false };
+
+const roomKey = (showId: string) => `signaling:room:${showId}`;
+const inviteKey = (token: string) => `signaling:invite:${token}`;
+const layoutKey = (showId: string) => `signaling:layout:${showId}`;
+
+/**
+ * Who may trade offers, answers and ICE with whom. The host reaches
+ * everyone; viewers watch the host or the compositor's mix; a guest in the
+ * green room only reaches the host, and on stage also the compositor and
+ * the other guests on stage.
+ */
+export function canSignal(from: SignalingParty, to: SignalingParty): boolean {
+  const allowed = (a: SignalingParty, b: SignalingParty) =>
+    a.role === 'host' ||
+    (a.role === 'compositor' && (b.role === 'viewer' || (b.role === 'guest' && b.stage === 'on_stage'))) ||
+    (a.role === 'guest' && a.stage === 'on_stage' && b.role === 'guest' && b.stage === 'on_stage');
+  return allowed(from, to) || allowed(to, from);
+}
+
+/**
+ * The host and on-stage guests in stage order, and the layout to draw them
+ * in. Without a guest on stage only the host is shown; a primary who left
+ * the stage falls back to the host.
+ */
+export function buildStageState(members: Map<string, PeerRecord>, layout: LayoutRecord | null): StageState {
+  const participants: StageState['participants'] = [];
+  members.forEach((member, peerId) => {
+    if (member.role === 'host' || (member.role === 'guest' && member.stage === 'on_stage')) {
+      participants.push({
+        peerId,
+        userId: member.userId,
+        role: member.role,
+        muted: member.muted ?? NOT_MUTED,
+      });
+    }
+  });
+  participants.sort((a, b) => (a.role === b.role ? 0 : a.role === 'host' ? -1 : 1));
+
+  const host = participants.find((participant) => participant.role === 'host');
+  const primary = participants.find((participant) => participant.peerId === layout?.primaryPeerId) ?? host;
+  const hasGuests = participants.some((participant) => participant.role === 'guest');
+
+  return {
+    layout: hasGuests ? layout?.layout ?? 'side-by-side' : 'solo',
+    primaryPeerId: primary?.peerId ?? null,
+    participants,
+  };
+}
+
+function authenticateSession(req: IncomingMessage, token?: string): Promise<User> {
+  return token ? sdk.authenticateSessionToken(token) : sdk.authenticateRequest(req);
+}
+
+async function findShowHostId(showId: string): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [show] = await db
+    .select({ hostId: liveShows.hostId })
+    .from(liveShows)
+    .where(eq(liveShows.id, showId))
+    .limit(1);
+
+  return show?.hostId ?? null;
 }
 
 class WebRTCSignalingServer {
+  readonly nodeId = `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Resolves with the listening port once the node is serving
+  readonly ready: Promise<number>;
   private wss: WebSocketServer;
-  private rooms: Map<string, Room> = new Map();
+  private backplane: Backplane;
+  private ownsBackplane: boolean;
+  private unsubscribeRelay: (() => Promise<void>) | null = null;
+  private refreshTimer: NodeJS.Timeout;
+  // Peers connected to this node
   private peers: Map<string, Peer> = new Map();
+  private authenticate: NonNullable<SignalingServerOptions['authenticate']>;
+  private getShowHostId: NonNullable<SignalingServerOptions['getShowHostId']>;
 
-  constructor(port: number = 8080) {
+  constructor(port: number = 8080, options: SignalingServerOptions = {}) {
     this.wss = new WebSocketServer({ port });
+    this.backplane = options.backplane ?? createBackplane();
+    this.ownsBackplane = !options.backplane;
+    this.authenticate = options.authenticate ?? authenticateSession;
+    this.getShowHostId = options.getShowHostId ?? findShowHostId;
     this.setupServer();
-    console.log(`[WebRTC Signaling] Server started on port ${port}`);
+
+    this.refreshTimer = setInterval(() => this.refreshPeers(), PEER_REFRESH_INTERVAL);
+
+    const relaying = this.backplane
+      .subscribe(RELAY_CHANNEL, (raw) => this.handleRelay(raw))
+      .then((unsubscribe) => {
+        this.unsubscribeRelay = unsubscribe;
+      })
+      .catch((error) => console.error('[WebRTC Signaling] Backplane subscribe failed:', error));
+
+    const listening = new Promise<number>((resolve) => {
+      this.wss.on('listening', () => {
+        const address = this.wss.address();
+        const listeningPort = typeof address === 'object' && address ? address.port : port;
+        console.log(`[WebRTC Signaling] Server started on port ${listeningPort}`);
+        resolve(listeningPort);
+      });
+    });
+
+    this.ready = Promise.all([listening, relaying]).then(([listeningPort]) => listeningPort);
   }
 
   private setupServer() {
@@ -49,18 +248,27 @@ class WebRTCSignalingServer {
       const peerId = this.generatePeerId();
       console.log(`[WebRTC Signaling] New connection: ${peerId}`);
 
+      // Handle one message at a time so an offer never overtakes its join
+      let queue: Promise<void> = Promise.resolve();
+
       ws.on('message', (data: string) => {
+        let message: SignalingMessage;
         try {
-          const message: SignalingMessage = JSON.parse(data.toString());
-          this.handleMessage(peerId, ws, message);
+          message = JSON.parse(data.toString());
         } catch (error) {
           console.error('[WebRTC Signaling] Invalid message:', error);
           this.sendError(ws, 'Invalid message format');
+          return;
         }
+        queue = queue
+          .then(() => this.handleMessage(peerId, ws, message, req))
+          .catch((error) => console.error(`[WebRTC Signaling] Failed to handle ${message.type}:`, error));
       });
 
       ws.on('close', () => {
-        this.handleDisconnect(peerId);
+        queue = queue
+          .then(() => this.handleDisconnect(peerId))
+          .catch((error) => console.error(`[WebRTC Signaling] Failed to clean up ${peerId}:`, error));
       });
 
       ws.on('error', (error) => {
@@ -69,74 +277,133 @@ class WebRTCSignalingServer {
     });
   }
 
-  private handleMessage(peerId: string, ws: WebSocket, message: SignalingMessage) {
+  private async handleMessage(peerId: string, ws: WebSocket, message: SignalingMessage, req: IncomingMessage) {
     switch (message.type) {
       case 'join':
-        this.handleJoin(peerId, ws, message);
+        await this.handleJoin(peerId, ws, message, req);
         break;
       case 'offer':
-        this.handleOffer(peerId, message);
+        await this.handleOffer(peerId, message);
         break;
       case 'answer':
-        this.handleAnswer(peerId, message);
+        await this.handleAnswer(peerId, message);
         break;
       case 'ice-candidate':
-        this.handleIceCandidate(peerId, message);
+        await this.handleIceCandidate(peerId, message);
         break;
       case 'leave':
-        this.handleLeave(peerId);
+        await this.handleLeave(peerId);
+        break;
+      case 'invite':
+        await this.handleInvite(peerId, ws, message);
+        break;
+      case 'promote':
+      case 'demote':
+      case 'mute':
+      case 'remove':
+        await this.handleGuestControl(peerId, ws, message);
+        break;
+      case 'set-layout':
+        await this.handleSetLayout(peerId, ws, message);
         break;
       default:
         this.sendError(ws, `Unknown message type: ${message.type}`);
     }
   }
 
-  private handleJoin(peerId: string, ws: WebSocket, message: SignalingMessage) {
-    if (!message.showId || !message.userId || !message.role) {
-      this.sendError(ws, 'Missing required fields: showId, userId, role');
+  private async handleJoin(peerId: string, ws: WebSocket, message: SignalingMessage, req: IncomingMessage) {
+    if (!message.showId || !message.role) {
+      this.sendError(ws, 'Missing required fields: showId, role');
+      return;
+    }
+
+    let user: Pick<User, 'id'> | null = null;
+    try {
+      user = await this.authenticate(req, message.token);
+    } catch {
+      user = null;
+    }
+
+    if (message.role === 'host' && (!user || (await this.getShowHostId(message.showId)) !== user.id)) {
+      this.sendError(ws, 'Only the show host can join as host');
+      return;
+    }
+    if (message.role === 'guest' && !user) {
+      this.sendError(ws, 'Sign in to join as a guest');
       return;
     }
+    const userId = user ? String(user.id) : `anonymous_${peerId}`;
+
+    const members = await this.getMembers(message.showId);
+    const host = Array.from(members.entries()).find(([, member]) => member.role === 'host');
+
+    if (message.role === 'host' && host) {
+      this.sendError(ws, 'Room already has a host');
+      return;
+    }
+
+    if (message.role === 'compositor' && Array.from(members.values()).some((member) => member.role === 'compositor')) {
+      this.sendError(ws, 'Room already has a compositor');
+      return;
+    }
+
+    // Guests and the compositor come in on the host's invite
+    if (message.role === 'guest' || message.role === 'compositor') {
+      const refusal = await this.redeemInvite(message.inviteToken, message.showId, message.role, userId);
+      if (refusal) {
+        this.sendError(ws, refusal);
+        return;
+      }
+    }
 
     const peer: Peer = {
       id: peerId,
-      userId: message.userId,
+      userId,
       showId: message.showId,
       role: message.role,
       ws,
       connectedAt: new Date(),
+      stage: message.role === 'guest' ? 'green_room' : undefined,
+      muted: { ...NOT_MUTED },
+      inviteToken: message.role === 'guest' ? message.inviteToken : undefined,
     };
 
     this.peers.set(peerId, peer);
-
-    // Get or create room
-    let room = this.rooms.get(message.showId);
-    if (!room) {
-      room = {
-        showId: message.showId,
-        viewers: new Map(),
-        createdAt: new Date(),
-      };
-      this.rooms.set(message.showId, room);
-    }
+    await this.saveMember(peer);
 
     if (message.role === 'host') {
-      if (room.host) {
-        this.sendError(ws, 'Room already has a host');
-        return;
-      }
-      room.host = peer;
       console.log(`[WebRTC Signaling] Host joined room ${message.showId}`);
+
+      // A host coming back finds its green room as it left it
+      members.forEach((member, memberId) => {
+        if (member.role === 'guest' && member.stage === 'green_room') {
+          this.send(ws, { type: 'guest-waiting', peerId: memberId, userId: member.userId });
+        }
+      });
+    } else if (message.role === 'guest') {
+      console.log(`[WebRTC Signaling] Guest ${userId} entered the green room of ${message.showId}`);
+      if (host) {
+        this.sendToPeer(host[0], message.showId, {
+          type: 'guest-waiting',
+          peerId,
+          userId,
+        });
+      }
     } else {
-      room.viewers.set(peerId, peer);
-      console.log(`[WebRTC Signaling] Viewer joined room ${message.showId} (${room.viewers.size} viewers)`);
+      if (message.role === 'viewer') {
+        const viewerCount = Array.from(members.values()).filter((member) => member.role === 'viewer').length + 1;
+        console.log(`[WebRTC Signaling] Viewer joined room ${message.showId} (${viewerCount} viewers)`);
+      } else {
+        console.log(`[WebRTC Signaling] Compositor joined room ${message.showId}`);
+      }
       
-      // Notify host of new viewer
-      if (room.host) {
-        this.send(room.host.ws, {
+      // Notify host of new viewer or compositor
+      if (host) {
+        this.sendToPeer(host[0], message.showId, {
           type: 'join',
           peerId,
-          userId: message.userId,
-          role: 'viewer',
+          userId,
+          role: message.role,
         });
       }
     }
@@ -146,26 +413,228 @@ class WebRTCSignalingServer {
       type: 'join',
       peerId,
       showId: message.showId,
+      stage: peer.stage,
     });
+
+    if (message.role === 'compositor') {
+      await this.announceStage(message.showId);
+    }
   }
 
-  private handleOffer(peerId: string, message: SignalingMessage) {
-    const peer = this.peers.get(peerId);
-    if (!peer) {
-      console.error(`[WebRTC Signaling] Peer not found: ${peerId}`);
+  /**
+   * Check an invite for this show and role, binding it to the user on first
+   * use. Returns why it was refused, or null.
+   */
+  private async redeemInvite(
+    token: string | undefined,
+    showId: string,
+    role: 'guest' | 'compositor',
+    userId: string
+  ): Promise<string | null> {
+    if (!token) return 'Invite required';
+
+    const raw = await this.backplane.get(inviteKey(token));
+    let invite: InviteRecord | null = null;
+    try {
+      invite = raw ? (JSON.parse(raw) as InviteRecord) : null;
+    } catch {
+      invite = null;
+    }
+    if (!invite || invite.showId !== showId || invite.role !== role || invite.expiresAt <= Date.now()) {
+      return 'Invite is invalid or has expired';
+    }
+    if (invite.userId && invite.userId !== userId) {
+      return 'Invite already used';
+    }
+
+    if (!invite.userId) {
+      invite.userId = userId;
+      await this.backplane.set(inviteKey(token), JSON.stringify(invite), invite.expiresAt - Date.now());
+    }
+    return null;
+  }
+
+  private async handleInvite(peerId: string, ws: WebSocket, message: SignalingMessage) {
+    const host = this.peers.get(peerId);
+    if (!host || host.role !== 'host') {
+      this.sendError(ws, 'Only the host can invite');
       return;
     }
 
-    const room = this.rooms.get(peer.showId);
-    if (!room) {
-      console.error(`[WebRTC Signaling] Room not found: ${peer.showId}`);
+    const role = message.role === 'compositor' ? 'compositor' : 'guest';
+    const token = randomBytes(24).toString('base64url');
+    const invite: InviteRecord = {
+      showId: host.showId,
+      role,
+      invitedBy: host.userId,
+      userId: null,
+      expiresAt: Date.now() + INVITE_TTL,
+    };
+    await this.backplane.set(inviteKey(token), JSON.stringify(invite), INVITE_TTL);
+
+    this.send(ws, {
+      type: 'invite',
+      showId: host.showId,
+      role,
+      inviteToken: token,
+      expiresAt: new Date(invite.expiresAt).toISOString(),
+    });
+  }
+
+  /**
+   * Promote, demote, mute or remove a guest. The control goes to the guest
+   * and is applied by the node holding the guest's connection.
+   */
+  private async handleGuestControl(peerId: string, ws: WebSocket, message: SignalingMessage) {
+    const host = this.peers.get(peerId);
+    if (!host || host.role !== 'host') {
+      this.sendError(ws, 'Only the host can manage guests');
+      return;
+    }
+    if (!message.peerId) {
+      this.sendError(ws, 'Missing required field: peerId');
+      return;
+    }
+
+    const members = await this.getMembers(host.showId);
+    const guest = members.get(message.peerId);
+    if (!guest || guest.role !== 'guest') {
+      this.sendError(ws, 'Guest not found');
+      return;
+    }
+
+    let control: SignalingMessage;
+    switch (message.type) {
+      case 'promote': {
+        const onStage = Array.from(members.values()).filter(
+          (member) => member.role === 'guest' && member.stage === 'on_stage'
+        ).length;
+        if (guest.stage !== 'on_stage' && onStage >= MAX_ON_STAGE_GUESTS) {
+          this.sendError(ws, `Stage is full (${MAX_ON_STAGE_GUESTS} guests)`);
+          return;
+        }
+        control = { type: 'stage', stage: 'on_stage' };
+        break;
+      }
+      case 'demote':
+        control = { type: 'stage', stage: 'green_room' };
+        break;
+      case 'mute':
+        if ((message.kind !== 'audio' && message.kind !== 'video') || typeof message.muted !== 'boolean') {
+          this.sendError(ws, 'Missing required fields: kind, muted');
+          return;
+        }
+        control = { type: 'mute', kind: message.kind, muted: message.muted };
+        break;
+      default:
+        control = { type: 'removed' };
+    }
+
+    this.sendToPeer(message.peerId, host.showId, { ...control, peerId: message.peerId });
+  }
+
+  private async handleSetLayout(peerId: string, ws: WebSocket, message: SignalingMessage) {
+    const host = this.peers.get(peerId);
+    if (!host || host.role !== 'host') {
+      this.sendError(ws, 'Only the host can change the layout');
+      return;
+    }
+    if (!message.layout || !STAGE_LAYOUTS.includes(message.layout)) {
+      this.sendError(ws, `Layout must be one of: ${STAGE_LAYOUTS.join(', ')}`);
+      return;
+    }
+
+    if (message.primaryPeerId) {
+      const members = await this.getMembers(host.showId);
+      const primary = members.get(message.primaryPeerId);
+      const onStage = primary && (primary.role === 'host' || (primary.role === 'guest' && primary.stage === 'on_stage'));
+      if (!onStage) {
+        this.sendError(ws, 'Primary must be the host or a guest on stage');
+        return;
+      }
+    }
+
+    const layout: LayoutRecord = { layout: message.layout, primaryPeerId: message.primaryPeerId ?? null };
+    await this.backplane.set(layoutKey(host.showId), JSON.stringify(layout), LAYOUT_TTL);
+    await this.announceStage(host.showId);
+  }
+
+  /**
+   * Apply a host's control to a guest connected here
+   */
+  private async applyGuestControl(peer: Peer, message: SignalingMessage) {
+    if (message.type === 'removed') {
+      this.peers.delete(peer.id);
+      await this.backplane.hdel(roomKey(peer.showId), peer.id);
+      if (peer.inviteToken) {
+        await this.backplane.del(inviteKey(peer.inviteToken));
+      }
+      peer.ws.close();
+      console.log(`[WebRTC Signaling] Guest ${peer.userId} removed from ${peer.showId}`);
+
+      const host = Array.from((await this.getMembers(peer.showId)).entries()).find(([, member]) => member.role === 'host');
+      if (host) {
+        this.sendToPeer(host[0], peer.showId, { type: 'leave', peerId: peer.id, role: 'guest' });
+      }
+    } else {
+      if (message.type === 'stage' && message.stage) {
+        peer.stage = message.stage;
+      } else if (message.type === 'mute' && message.kind) {
+        peer.muted = { ...peer.muted, [message.kind]: message.muted === true };
+      }
+      await this.saveMember(peer);
+    }
+
+    await this.announceStage(peer.showId);
+  }
+
+  /**
+   * Send the current stage to the host, the compositor and the guests on it
+   */
+  private async announceStage(showId: string) {
+    const [members, rawLayout] = await Promise.all([
+      this.getMembers(showId),
+      this.backplane.get(layoutKey(showId)),
+    ]);
+
+    let layout: LayoutRecord | null = null;
+    try {
+      layout = rawLayout ? (JSON.parse(rawLayout) as LayoutRecord) : null;
+    } catch {
+      layout = null;
+    }
+
+    const state = buildStageState(members, layout);
+    members.forEach((member, memberId) => {
+      const onStage = member.role === 'guest' && member.stage === 'on_stage';
+      if (member.role === 'host' || member.role === 'compositor' || onStage) {
+        this.sendToPeer(memberId, showId, { type: 'stage-update', showId, state });
+      }
+    });
+  }
+
+  /**
+   * Whether the peer may send offers, answers and ICE to the target
+   */
+  private async canReach(peer: Peer, targetPeerId: string): Promise<boolean> {
+    const target = (await this.getMembers(peer.showId)).get(targetPeerId);
+    return !!target && canSignal(peer, target);
+  }
+
+  private async handleOffer(peerId: string, message: SignalingMessage) {
+    const peer = this.peers.get(peerId);
+    if (!peer) {
+      console.error(`[WebRTC Signaling] Peer not found: ${peerId}`);
       return;
     }
 
     // Forward offer to target peer
-    const targetPeer = message.peerId ? this.peers.get(message.peerId) : null;
-    if (targetPeer) {
-      this.send(targetPeer.ws, {
+    if (message.peerId) {
+      if (!(await this.canReach(peer, message.peerId))) {
+        this.sendError(peer.ws, 'Not allowed to signal that peer');
+        return;
+      }
+      this.sendToPeer(message.peerId, peer.showId, {
         type: 'offer',
         peerId: peer.id,
         sdp: message.sdp,
@@ -173,7 +642,7 @@ class WebRTCSignalingServer {
     }
   }
 
-  private handleAnswer(peerId: string, message: SignalingMessage) {
+  private async handleAnswer(peerId: string, message: SignalingMessage) {
     const peer = this.peers.get(peerId);
     if (!peer) {
       console.error(`[WebRTC Signaling] Peer not found: ${peerId}`);
@@ -181,9 +650,12 @@ class WebRTCSignalingServer {
     }
 
     // Forward answer to target peer
-    const targetPeer = message.peerId ? this.peers.get(message.peerId) : null;
-    if (targetPeer) {
-      this.send(targetPeer.ws, {
+    if (message.peerId) {
+      if (!(await this.canReach(peer, message.peerId))) {
+        this.sendError(peer.ws, 'Not allowed to signal that peer');
+        return;
+      }
+      this.sendToPeer(message.peerId, peer.showId, {
         type: 'answer',
         peerId: peer.id,
         sdp: message.sdp,
@@ -191,7 +663,7 @@ class WebRTCSignalingServer {
     }
   }
 
-  private handleIceCandidate(peerId: string, message: SignalingMessage) {
+  private async handleIceCandidate(peerId: string, message: SignalingMessage) {
     const peer = this.peers.get(peerId);
     if (!peer) {
       console.error(`[WebRTC Signaling] Peer not found: ${peerId}`);
@@ -199,9 +671,12 @@ class WebRTCSignalingServer {
     }
 
     // Forward ICE candidate to target peer
-    const targetPeer = message.peerId ? this.peers.get(message.peerId) : null;
-    if (targetPeer) {
-      this.send(targetPeer.ws, {
+    if (message.peerId) {
+      if (!(await this.canReach(peer, message.peerId))) {
+        this.sendError(peer.ws, 'Not allowed to signal that peer');
+        return;
+      }
+      this.sendToPeer(message.peerId, peer.showId, {
         type: 'ice-candidate',
         peerId: peer.id,
         candidate: message.candidate,
@@ -209,43 +684,141 @@ class WebRTCSignalingServer {
     }
   }
 
-  private handleLeave(peerId: string) {
+  private async handleLeave(peerId: string) {
     const peer = this.peers.get(peerId);
     if (!peer) return;
 
-    const room = this.rooms.get(peer.showId);
-    if (!room) return;
+    this.peers.delete(peerId);
+    const members = await this.getMembers(peer.showId);
 
     if (peer.role === 'host') {
-      // Host left - notify all viewers and close room
-      room.viewers.forEach((viewer) => {
-        this.send(viewer.ws, {
+      // Host left - notify everyone else and close room
+      members.forEach((member, memberId) => {
+        if (member.role === 'host') return;
+        this.sendToPeer(memberId, peer.showId, {
           type: 'leave',
           peerId: peer.id,
           role: 'host',
         });
       });
-      this.rooms.delete(peer.showId);
+      await this.backplane.del(roomKey(peer.showId));
+      await this.backplane.del(layoutKey(peer.showId));
       console.log(`[WebRTC Signaling] Host left, room ${peer.showId} closed`);
     } else {
-      // Viewer left - remove from room and notify host
-      room.viewers.delete(peerId);
-      if (room.host) {
-        this.send(room.host.ws, {
+      // Viewer, guest or compositor left - remove from room and notify host
+      await this.backplane.hdel(roomKey(peer.showId), peerId);
+      members.delete(peerId);
+      const host = Array.from(members.entries()).find(([, member]) => member.role === 'host');
+      if (host) {
+        this.sendToPeer(host[0], peer.showId, {
           type: 'leave',
           peerId,
-          role: 'viewer',
+          role: peer.role,
         });
       }
-      console.log(`[WebRTC Signaling] Viewer left room ${peer.showId} (${room.viewers.size} viewers)`);
+      if (peer.role === 'viewer') {
+        const viewerCount = Array.from(members.values()).filter((member) => member.role === 'viewer').length;
+        console.log(`[WebRTC Signaling] Viewer left room ${peer.showId} (${viewerCount} viewers)`);
+      } else if (peer.stage === 'on_stage') {
+        await this.announceStage(peer.showId);
+      }
     }
-
-    this.peers.delete(peerId);
   }
 
   private handleDisconnect(peerId: string) {
     console.log(`[WebRTC Signaling] Connection closed: ${peerId}`);
-    this.handleLeave(peerId);
+    return this.handleLeave(peerId);
+  }
+
+  /**
+   * Everyone in a show's room, on any node, keyed by peer id
+   */
+  private async getMembers(showId: string): Promise<Map<string, PeerRecord>> {
+    const entries = await this.backplane.hgetall(roomKey(showId));
+    const now = Date.now();
+    const members = new Map<string, PeerRecord>();
+
+    for (const [peerId, raw] of Object.entries(entries)) {
+      try {
+        const record = JSON.parse(raw) as PeerRecord;
+        if (record.expiresAt > now) members.set(peerId, record);
+      } catch {
+        // Written by an incompatible node; ignore it
+      }
+    }
+
+    return members;
+  }
+
+  private saveMember(peer: Peer) {
+    const record: PeerRecord = {
+      userId: peer.userId,
+      role: peer.role,
+      nodeId: this.nodeId,
+      connectedAt: peer.connectedAt.toISOString(),
+      expiresAt: Date.now() + PEER_TTL,
+      stage: peer.stage,
+      muted: peer.muted,
+      inviteToken: peer.inviteToken,
+    };
+    return this.backplane.hset(roomKey(peer.showId), peer.id, JSON.stringify(record), PEER_TTL);
+  }
+
+  /**
+   * Keep this node's peers from expiring while they stay connected
+   */
+  private refreshPeers() {
+    this.peers.forEach((peer) => {
+      this.saveMember(peer).catch((error) =>
+        console.error(`[WebRTC Signaling] Refresh failed for ${peer.id}:`, error)
+      );
+    });
+  }
+
+  /**
+   * Send to a peer in the show, wherever it is connected
+   */
+  private sendToPeer(peerId: string, showId: string, message: SignalingMessage) {
+    if (this.deliverToPeer(peerId, showId, message)) return;
+    this.relay({ kind: 'peer', peerId, showId, message });
+  }
+
+  private deliverToPeer(peerId: string, showId: string, message: SignalingMessage): boolean {
+    const peer = this.peers.get(peerId);
+    if (!peer || peer.showId !== showId) return false;
+    this.send(peer.ws, message);
+
+    // Host controls take effect where the guest is connected
+    if (peer.role === 'guest' && (message.type === 'stage' || message.type === 'mute' || message.type === 'removed')) {
+      this.applyGuestControl(peer, message).catch((error) =>
+        console.error(`[WebRTC Signaling] Failed to apply ${message.type} to ${peerId}:`, error)
+      );
+    }
+    return true;
+  }
+
+  private relay(relay: SignalingRelay) {
+    const envelope: SignalingRelayEnvelope = { ...relay, origin: this.nodeId };
+    this.backplane
+      .publish(RELAY_CHANNEL, JSON.stringify(envelope))
+      .catch((error) => console.error(`[WebRTC Signaling] Relay of ${relay.kind} failed:`, error));
+  }
+
+  private handleRelay(raw: string) {
+    let envelope: SignalingRelayEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      console.error('[WebRTC Signaling] Unreadable relay message:', error);
+      return;
+    }
+    if (envelope.origin === this.nodeId) return;
+
+    if (envelope.kind === 'peer') {
+      this.deliverToPeer(envelope.peerId, envelope.showId, envelope.message);
+    } else {
+      this.closeLocalPeers(envelope.showId);
+    }
   }
 
   private send(ws: WebSocket, message: any) {
@@ -266,64 +839,94 @@ class WebRTCSignalingServer {
   }
 
   // Public API for monitoring
-  public getRoomStats(showId: string) {
-    const room = this.rooms.get(showId);
-    if (!room) return null;
+  public async getRoomStats(showId: string) {
+    const members = await this.getMembers(showId);
+    if (members.size === 0) return null;
+
+    const records = Array.from(members.entries());
+    const viewers = records.filter(([, member]) => member.role === 'viewer');
+    const guests = records.filter(([, member]) => member.role === 'guest');
 
     return {
-      showId: room.showId,
-      hasHost: !!room.host,
-      viewerCount: room.viewers.size,
-      createdAt: room.createdAt,
-      viewers: Array.from(room.viewers.values()).map(v => ({
-        peerId: v.id,
+      showId,
+      hasHost: records.some(([, member]) => member.role === 'host'),
+      hasCompositor: records.some(([, member]) => member.role === 'compositor'),
+      viewerCount: viewers.length,
+      createdAt: new Date(Math.min(...records.map(([, member]) => Date.parse(member.connectedAt)))),
+      viewers: viewers.map(([peerId, v]) => ({
+        peerId,
         userId: v.userId,
-        connectedAt: v.connectedAt,
+        connectedAt: new Date(v.connectedAt),
+      })),
+      guests: guests.map(([peerId, g]) => ({
+        peerId,
+        userId: g.userId,
+        stage: g.stage ?? 'green_room',
+        muted: g.muted ?? NOT_MUTED,
       })),
     };
   }
 
-  public getAllRooms() {
-    return Array.from(this.rooms.values()).map(room => ({
-      showId: room.showId,
-      hasHost: !!room.host,
-      viewerCount: room.viewers.size,
-      createdAt: room.createdAt,
-    }));
+  /**
+   * Rooms with peers on this node, with their counts across all nodes
+   */
+  public async getAllRooms() {
+    const showIds = Array.from(new Set(Array.from(this.peers.values()).map((peer) => peer.showId)));
+    const rooms = await Promise.all(showIds.map((showId) => this.getRoomStats(showId)));
+    return rooms
+      .filter((room): room is NonNullable<typeof room> => room !== null)
+      .map(({ viewers, guests, ...room }) => ({ ...room, guestCount: guests.length }));
   }
 
-  public closeRoom(showId: string) {
-    const room = this.rooms.get(showId);
-    if (!room) return false;
+  public async closeRoom(showId: string) {
+    const members = await this.getMembers(showId);
+    if (members.size === 0) return false;
 
-    // Notify all peers
-    if (room.host) {
-      this.send(room.host.ws, {
-        type: 'error',
-        error: 'Room closed by server',
-      });
-      room.host.ws.close();
+    this.closeLocalPeers(showId);
+    this.relay({ kind: 'close', showId });
+    await this.backplane.del(roomKey(showId));
+    await this.backplane.del(layoutKey(showId));
+    return true;
+  }
+
+  /**
+   * Stop serving; this node's peers leave their rooms. A backplane passed
+   * in through the options is left open.
+   */
+  public async close() {
+    clearInterval(this.refreshTimer);
+
+    const peers = Array.from(this.peers.values());
+    await Promise.all(peers.map((peer) => this.handleLeave(peer.id)));
+    peers.forEach((peer) => peer.ws.terminate());
+
+    await this.unsubscribeRelay?.();
+    if (this.ownsBackplane) {
+      await this.backplane.close();
     }
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+  }
 
-    room.viewers.forEach((viewer) => {
-      this.send(viewer.ws, {
+  private closeLocalPeers(showId: string) {
+    // Notify all peers
+    this.peers.forEach((peer, peerId) => {
+      if (peer.showId !== showId) return;
+      this.send(peer.ws, {
         type: 'error',
         error: 'Room closed by server',
       });
-      viewer.ws.close();
+      this.peers.delete(peerId);
+      peer.ws.close();
     });
-
-    this.rooms.delete(showId);
-    return true;
   }
 }
 
 // Singleton instance
 let signalingServer: WebRTCSignalingServer | null = null;
 
-export function initializeSignalingServer(port: number = 8080) {
+export function initializeSignalingServer(port: number = 8080, options: SignalingServerOptions = {}) {
   if (!signalingServer) {
-    signalingServer = new WebRTCSignalingServer(port);
+    signalingServer = new WebRTCSignalingServer(port, options);
   }
   return signalingServer;
 }
@@ -336,3 +939,4 @@ export function getSignalingServer() {
 }
 
 export { WebRTCSignalingServer };
+export type { PeerRole, GuestStage, StageLayout, StageState, SignalingMessage };
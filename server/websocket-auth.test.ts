@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { checkMessagePermission, needsShowRole, resolveShowRole } from "./websocket-auth";
+
+const viewer = { userId: 7, name: "Sam", isAdmin: false, creatorId: "creator-7" };
+const admin = { userId: 1, name: "Ops", isAdmin: true, creatorId: null };
+
+describe("WebSocket Authorization", () => {
+  it("should resolve the user's role in a show", () => {
+    expect(resolveShowRole(null, { creatorId: "creator-7" }, "host")).toBe("viewer");
+    expect(resolveShowRole(viewer, { creatorId: "creator-7" }, null)).toBe("host");
+    expect(resolveShowRole(viewer, { creatorId: "creator-3" }, "host")).toBe("host");
+    expect(resolveShowRole(viewer, { creatorId: "creator-3" }, "moderator")).toBe("moderator");
+    expect(resolveShowRole(viewer, { creatorId: "creator-3" }, "viewer")).toBe("viewer");
+    expect(resolveShowRole(viewer, null, null)).toBe("viewer");
+    expect(resolveShowRole(admin, { creatorId: "creator-3" }, null)).toBe("admin");
+  });
+
+  it("should not make a user without a creator profile host of a session without a creator", () => {
+    const fan = { ...viewer, creatorId: null };
+    expect(resolveShowRole(fan, { creatorId: null }, null)).toBe("viewer");
+  });
+
+  it("should let only show staff pin products or trigger price drops", () => {
+    expect(needsShowRole("pin_product")).toBe(true);
+    expect(needsShowRole("chat_message")).toBe(false);
+
+    for (const type of ["pin_product", "trigger_price_drop"]) {
+      expect(checkMessagePermission(type, viewer, "host")).toEqual({ allowed: true });
+      expect(checkMessagePermission(type, viewer, "moderator")).toEqual({ allowed: true });
+      expect(checkMessagePermission(type, admin, "admin")).toEqual({ allowed: true });
+      expect(checkMessagePermission(type, viewer, "viewer")).toMatchObject({ allowed: false });
+      expect(checkMessagePermission(type, null, "viewer")).toEqual({ allowed: false, reason: "Sign in required" });
+    }
+  });
+
+  it("should require sign-in to post and refuse unknown messages", () => {
+    expect(checkMessagePermission("join_room", null, "viewer")).toEqual({ allowed: true });
+    expect(checkMessagePermission("chat_message", null, "viewer")).toMatchObject({ allowed: false });
+    expect(checkMessagePermission("chat_message", viewer, "viewer")).toEqual({ allowed: true });
+    expect(checkMessagePermission("drop_table", admin, "admin")).toEqual({
+      allowed: false,
+      reason: "Unknown message type: drop_table",
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * WebSocket Authorization
+ *
+ * Who may send which websocket message. Identity comes from the app's
+ * session (see `sdk.authenticateRequest`); roles are per show, so the same
+ * user can host one show and watch another.
+ */
+
+import { SHOW_CHANNEL_MESSAGES } from "../shared/live-show-channel";
+
+export type ShowRole = "viewer" | "moderator" | "host" | "admin";
+
+export interface SocketIdentity {
+  userId: number;
+  name: string;
+  isAdmin: boolean;
+  // The user's creator profile; hosts the live sessions it created
+  creatorId: string | null;
+}
+
+export interface MessagePermission {
+  // Anonymous clients are turned away
+  authenticated: boolean;
+  // Roles allowed in the target show; any role when unset
+  roles?: ShowRole[];
+}
+
+const SHOW_STAFF: ShowRole[] = ["host", "moderator", "admin"];
+
+export const MESSAGE_PERMISSIONS: Record<string, MessagePermission> = {
+  auth: { authenticated: false },
+  resume: { authenticated: false },
+  join_room: { authenticated: false },
+  leave_room: { authenticated: false },
+  viewer_stats: { authenticated: false },
+  [SHOW_CHANNEL_MESSAGES.subscribe]: { authenticated: false },
+  [SHOW_CHANNEL_MESSAGES.unsubscribe]: { authenticated: false },
+  chat_message: { authenticated: true },
+  send_gift: { authenticated: true },
+  like_show: { authenticated: true },
+  pin_product: { authenticated: true, roles: SHOW_STAFF },
+  trigger_price_drop: { authenticated: true, roles: SHOW_STAFF },
+};
+
+/**
+ * `show` is the live session being acted on, the same record price drops
+ * and pins change
+ */
+export function resolveShowRole(
+  identity: SocketIdentity | null,
+  show: { creatorId: string | null } | null,
+  participantRole: "host" | "moderator" | "viewer" | null
+): ShowRole {
+  if (!identity) return "viewer";
+  if (identity.isAdmin) return "admin";
+  const createdShow = Boolean(show?.creatorId) && show?.creatorId === identity.creatorId;
+  if (createdShow || participantRole === "host") return "host";
+  if (participantRole === "moderator") return "moderator";
+  return "viewer";
+}
+
+export type PermissionDecision = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Unlisted message types are refused, so a new handler has to declare who
+ * may call it before anyone can
+ */
+export function checkMessagePermission(
+  type: string,
+  identity: SocketIdentity | null,
+  role: ShowRole
+): PermissionDecision {
+  const permission = MESSAGE_PERMISSIONS[type];
+  if (!permission) return { allowed: false, reason: `Unknown message type: ${type}` };
+  if (permission.authenticated && !identity) return { allowed: false, reason: "Sign in required" };
+  if (permission.roles && !permission.roles.includes(role)) {
+    return { allowed: false, reason: `${type} requires ${permission.roles.join(" or ")}` };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Whether a message needs the sender's role in a show resolved first
+ */
+export function needsShowRole(type: string): boolean {
+  return Boolean(MESSAGE_PERMISSIONS[type]?.roles);
+}
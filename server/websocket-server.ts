@@ -1,6 +1,29 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { createServer } from 'http';
+import { createServer, type IncomingMessage, type Server } from 'http';
 import { nanoid } from 'nanoid';
+import { and, eq } from 'drizzle-orm';
+import { COOKIE_NAME } from '@shared/const';
+import { getDb } from './db';
+import { liveSessions, liveShowParticipants, type User } from '../drizzle/schema';
+import { findCreatorIdByEmail } from './live-session-access';
+import { sdk } from './_core/sdk';
+import {
+  MESSAGE_PERMISSIONS,
+  checkMessagePermission,
+  needsShowRole,
+  resolveShowRole,
+  type ShowRole,
+  type SocketIdentity,
+} from './websocket-auth';
+import { showLifecycle, toRouterStatus, isOnAir, type ShowTransitionEvent } from './live-show-state-machine';
+import { onPriceDropEvent, type PriceDropEvent } from './live-price-drop-scheduler';
+import { showChannel, fromPriceDropEvent, type ShowChannelHub } from './live-show-channel';
+import { createBackplane, encodePresence, readPresence, type Backplane } from './realtime-backplane';
+import {
+  SHOW_CHANNEL_MESSAGES,
+  type ShowChannelEventFrame,
+  type ShowChannelSubscribePayload,
+} from '../shared/live-show-channel';
 
 /**
  * WebSocket Server for Real-Time Updates
@@ -17,13 +40,34 @@ import { nanoid } from 'nanoid';
  * - Auto-reconnection support
  * - Message queuing for offline clients
  * - Rate limiting per client
- * - Authentication via JWT tokens
+ * - Authentication via the app session (cookie or token), per-show roles
+ * - Show lifecycle transitions pushed to show rooms
+ * - Price drop countdowns, stock and end events pushed to show rooms
+ * - Typed per-show viewer channel with sequence numbers and resync on reconnect
+ * - Rooms shared across server instances through the realtime backplane;
+ *   a client can resume its session on whichever instance it reconnects to
  */
 
+export interface WebSocketManagerOptions {
+  port?: number;
+  // Defaults to Redis when REDIS_URL is set, otherwise in-memory
+  backplane?: Backplane;
+  // Several nodes in one process each need their own hub, and only one of
+  // them should listen to the process-wide show events
+  showChannel?: ShowChannelHub;
+  subscribeToShowEvents?: boolean;
+}
+
 interface Client {
   id: string;
   ws: WebSocket;
-  userId?: string;
+  // Secret handed to the client for picking the session up after a reconnect
+  resumeToken: string;
+  identity: SocketIdentity | null;
+  // Role in each show, resolved on first use and refreshed on join
+  showRoles: Map<string, ShowRole>;
+  // Messages are handled one at a time, after any pending sign-in
+  queue: Promise<void>;
   showId?: string;
   rooms: Set<string>;
   lastActivity: number;
@@ -41,15 +85,49 @@ interface Room {
   id: string;
   clients: Set<string>;
   metadata: {
-    showId?: string;
+    // Derived from the room id, never taken from the client
+    showId: string;
     hostId?: string;
+    // Across every node
     viewerCount: number;
     createdAt: number;
   };
 }
 
+// Messages between nodes; each node ignores its own
+type Relay =
+  | { kind: 'room'; roomId: string; message: Message; excludeClientId?: string }
+  | { kind: 'show'; showId: string; message: Message }
+  | { kind: 'frame'; frame: ShowChannelEventFrame }
+  | { kind: 'presence'; roomId: string };
+
+type RelayEnvelope = Relay & { origin: string };
+
+// Kept on the backplane after a disconnect, for resume
+interface DetachedSession {
+  rooms: Array<{ roomId: string }>;
+  queued: Message[];
+}
+
+const RELAY_CHANNEL = 'realtime:rooms';
+const SHOW_CHANNEL_ROOM_PREFIX = 'show-channel:';
+const PRESENCE_TTL = 90000; // 90 seconds, three heartbeats
+const SESSION_TTL = 120000; // 2 minutes
+
+const presenceKey = (roomId: string) => `realtime:presence:${roomId}`;
+const sessionKey = (resumeToken: string) => `realtime:session:${resumeToken}`;
+
 class WebSocketManager {
+  readonly nodeId = nanoid();
+  // Resolves with the listening port once the node is serving
+  readonly ready: Promise<number>;
+  private server: Server;
   private wss: WebSocketServer;
+  private backplane: Backplane;
+  private ownsBackplane: boolean;
+  private showChannel: ShowChannelHub;
+  private timers: NodeJS.Timeout[] = [];
+  private teardown: Array<() => unknown> = [];
   private clients: Map<string, Client> = new Map();
   private rooms: Map<string, Room> = new Map();
   private messageQueue: Map<string, Message[]> = new Map();
@@ -62,31 +140,65 @@ class WebSocketManager {
   private readonly HEARTBEAT_INTERVAL = 30000; // 30 seconds
   private readonly CLIENT_TIMEOUT = 60000; // 60 seconds
   
-  constructor(port: number = 8080) {
-    const server = createServer();
-    this.wss = new WebSocketServer({ server });
+  constructor(options: WebSocketManagerOptions = {}) {
+    this.server = createServer();
+    this.wss = new WebSocketServer({ server: this.server });
+    this.backplane = options.backplane ?? createBackplane();
+    this.ownsBackplane = !options.backplane;
+    this.showChannel = options.showChannel ?? showChannel;
     
     this.wss.on('connection', this.handleConnection.bind(this));
     
     // Start heartbeat interval
-    setInterval(() => this.checkHeartbeats(), this.HEARTBEAT_INTERVAL);
+    this.timers.push(setInterval(() => {
+      this.checkHeartbeats();
+      this.refreshPresence();
+    }, this.HEARTBEAT_INTERVAL));
     
     // Start cleanup interval
-    setInterval(() => this.cleanupInactiveClients(), 60000);
+    this.timers.push(setInterval(() => this.cleanupInactiveClients(), 60000));
+    
+    // Push show state changes to everyone watching the show
+    if (options.subscribeToShowEvents !== false) {
+      this.teardown.push(
+        showLifecycle.onTransition((event) => this.handleShowTransition(event)),
+        onPriceDropEvent((event) => this.handlePriceDropEvent(event)),
+      );
+    }
+    this.teardown.push(this.showChannel.onFrame((frame) => this.handleShowChannelFrame(frame)));
+    
+    // Hear what the other nodes broadcast
+    const relaying = this.backplane
+      .subscribe(RELAY_CHANNEL, (raw) => this.handleRelay(raw))
+      .then((unsubscribe) => {
+        this.teardown.push(unsubscribe);
+      })
+      .catch((error) => console.error('[WebSocket] Backplane subscribe failed:', error));
     
-    server.listen(port, () => {
-      console.log(`[WebSocket] Server listening on port ${port}`);
+    const listening = new Promise<number>((resolve) => {
+      this.server.listen(options.port ?? 8080, () => {
+        const address = this.server.address();
+        const port = typeof address === 'object' && address ? address.port : options.port ?? 8080;
+        console.log(`[WebSocket] Server listening on port ${port} (node ${this.nodeId})`);
+        resolve(port);
+      });
     });
+    
+    this.ready = Promise.all([listening, relaying]).then(([port]) => port);
   }
   
   /**
    * Handle new WebSocket connection
    */
-  private handleConnection(ws: WebSocket, req: any) {
+  private handleConnection(ws: WebSocket, req: IncomingMessage) {
     const clientId = nanoid();
     const client: Client = {
       id: clientId,
       ws,
+      resumeToken: nanoid(32),
+      identity: null,
+      showRoles: new Map(),
+      queue: Promise.resolve(),
       rooms: new Set(),
       lastActivity: Date.now(),
       messageCount: 0,
@@ -96,10 +208,15 @@ class WebSocketManager {
     this.clients.set(clientId, client);
     console.log(`[WebSocket] Client connected: ${clientId}`);
     
+    // Browsers send the session cookie with the upgrade request
+    if (req.headers.cookie?.includes(`${COOKIE_NAME}=`)) {
+      client.queue = this.authenticate(client, () => sdk.authenticateRequest(req)).then(() => undefined);
+    }
+    
     // Send welcome message
     this.sendToClient(clientId, {
       type: 'connected',
-      payload: { clientId },
+      payload: { clientId, resumeToken: client.resumeToken },
       timestamp: Date.now(),
     });
     
@@ -149,75 +266,199 @@ class WebSocketManager {
       return;
     }
     
+    let message: Message;
     try {
-      const message: Message = JSON.parse(data.toString());
-      
-      switch (message.type) {
-        case 'auth':
-          this.handleAuth(clientId, message.payload);
-          break;
-        case 'join_room':
-          this.handleJoinRoom(clientId, message.payload);
-          break;
-        case 'leave_room':
-          this.handleLeaveRoom(clientId, message.payload);
-          break;
-        case 'chat_message':
-          this.handleChatMessage(clientId, message.payload);
-          break;
-        case 'pin_product':
-          this.handlePinProduct(clientId, message.payload);
-          break;
-        case 'send_gift':
-          this.handleSendGift(clientId, message.payload);
-          break;
-        case 'like_show':
-          this.handleLikeShow(clientId, message.payload);
-          break;
-        case 'viewer_stats':
-          this.handleViewerStats(clientId, message.payload);
-          break;
-        default:
-          console.warn(`[WebSocket] Unknown message type: ${message.type}`);
-      }
+      message = JSON.parse(data.toString());
     } catch (error) {
       console.error(`[WebSocket] Error parsing message from ${clientId}:`, error);
+      this.sendError(clientId, 'Invalid message format');
+      return;
+    }
+    
+    client.queue = client.queue
+      .then(() => this.dispatchMessage(clientId, message))
+      .catch((error) => {
+        console.error(`[WebSocket] Error handling ${message.type} from ${clientId}:`, error);
+        this.sendError(clientId, 'Message failed');
+      });
+  }
+  
+  /**
+   * Authorize a message against the sender's identity and show role, then
+   * hand it to its handler
+   */
+  private async dispatchMessage(clientId: string, message: Message) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+    
+    const roomId: string | undefined = message.payload?.roomId;
+    
+    // Posting into a room needs membership, not just the room id
+    if (MESSAGE_PERMISSIONS[message.type]?.authenticated && roomId && !client.rooms.has(roomId)) {
+      this.sendError(clientId, 'Join the room first');
+      return;
+    }
+    
+    let role: ShowRole = resolveShowRole(client.identity, null, null);
+    let showId: string | undefined;
+    if (needsShowRole(message.type)) {
+      const room = roomId ? this.rooms.get(roomId) : undefined;
+      if (!room) {
+        this.sendError(clientId, 'Room not found');
+        return;
+      }
+      showId = room.metadata.showId;
+      role = await this.getShowRole(client, showId);
+    }
+    
+    const decision = checkMessagePermission(message.type, client.identity, role);
+    if (!decision.allowed) {
       this.sendToClient(clientId, {
-        type: 'error',
-        payload: { message: 'Invalid message format' },
+        type: 'forbidden',
+        payload: { messageType: message.type, reason: decision.reason },
         timestamp: Date.now(),
       });
+      return;
+    }
+    
+    switch (message.type) {
+      case 'auth':
+        await this.handleAuth(clientId, message.payload);
+        break;
+      case 'resume':
+        await this.handleResume(clientId, message.payload);
+        break;
+      case 'join_room':
+        await this.handleJoinRoom(clientId, message.payload);
+        break;
+      case 'leave_room':
+        await this.handleLeaveRoom(clientId, message.payload);
+        break;
+      case 'chat_message':
+        this.handleChatMessage(clientId, message.payload);
+        break;
+      case 'pin_product':
+        this.handlePinProduct(clientId, message.payload);
+        break;
+      case 'trigger_price_drop':
+        await this.handleTriggerPriceDrop(clientId, showId!, message.payload);
+        break;
+      case 'send_gift':
+        this.handleSendGift(clientId, message.payload);
+        break;
+      case 'like_show':
+        this.handleLikeShow(clientId, message.payload);
+        break;
+      case 'viewer_stats':
+        await this.handleViewerStats(clientId, message.payload);
+        break;
+      case SHOW_CHANNEL_MESSAGES.subscribe:
+        await this.handleSubscribeShow(clientId, message.payload);
+        break;
+      case SHOW_CHANNEL_MESSAGES.unsubscribe:
+        await this.removeClientFromRoom(clientId, this.showChannelRoomId(message.payload.showId));
+        break;
     }
   }
   
   /**
-   * Handle client authentication
+   * Handle client authentication with a session token, for clients that
+   * can't send the session cookie
    */
-  private handleAuth(clientId: string, payload: { token: string; userId: string }) {
+  private async handleAuth(clientId: string, payload: { token?: string }) {
     const client = this.clients.get(clientId);
     if (!client) return;
     
-    // TODO: Verify JWT token
-    // For now, just store userId
-    client.userId = payload.userId;
+    const identity = await this.authenticate(client, () => sdk.authenticateSessionToken(payload?.token));
+    if (!identity) {
+      this.sendToClient(clientId, {
+        type: 'auth_error',
+        payload: { message: 'Invalid or expired session' },
+        timestamp: Date.now(),
+      });
+      return;
+    }
     
     this.sendToClient(clientId, {
       type: 'auth_success',
-      payload: { userId: payload.userId },
+      payload: { userId: identity.userId, name: identity.name },
       timestamp: Date.now(),
     });
+  }
+  
+  /**
+   * Resolve the client's identity from the app session. A failed attempt
+   * leaves the client anonymous.
+   */
+  private async authenticate(client: Client, resolveUser: () => Promise<User>): Promise<SocketIdentity | null> {
+    try {
+      const user = await resolveUser();
+      client.identity = {
+        userId: user.id,
+        name: user.name || 'Viewer',
+        isAdmin: user.role === 'admin',
+        creatorId: await this.findCreatorId(user.email),
+      };
+      console.log(`[WebSocket] Client authenticated: ${client.id} -> ${user.id}`);
+    } catch (error) {
+      client.identity = null;
+    }
+    client.showRoles.clear();
+    return client.identity;
+  }
+  
+  /**
+   * The user's creator profile, or null (and no hosting) if it can't be read
+   */
+  private async findCreatorId(email: string | null): Promise<string | null> {
+    try {
+      return await findCreatorIdByEmail(email);
+    } catch (error) {
+      console.error('[WebSocket] Creator lookup failed:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * The client's role in a show: the live session's creator hosts it, a
+   * moderator may be assigned to it, anyone else is a viewer. Admins can
+   * act in every show.
+   */
+  private async getShowRole(client: Client, showId: string): Promise<ShowRole> {
+    const cached = client.showRoles.get(showId);
+    if (cached) return cached;
+    
+    let role = resolveShowRole(client.identity, null, null);
+    if (client.identity && role === 'viewer') {
+      const db = await getDb();
+      if (db) {
+        const [show] = await db
+          .select({ creatorId: liveSessions.creatorId })
+          .from(liveSessions)
+          .where(eq(liveSessions.id, showId))
+          .limit(1);
+        const [participant] = await db
+          .select({ role: liveShowParticipants.role })
+          .from(liveShowParticipants)
+          .where(and(eq(liveShowParticipants.showId, showId), eq(liveShowParticipants.userId, client.identity.userId)))
+          .limit(1);
+        role = resolveShowRole(client.identity, show ?? null, participant?.role ?? null);
+      }
+    }
     
-    console.log(`[WebSocket] Client authenticated: ${clientId} -> ${payload.userId}`);
+    client.showRoles.set(showId, role);
+    return role;
   }
   
   /**
    * Handle join room request
    */
-  private handleJoinRoom(clientId: string, payload: { roomId: string; showId?: string }) {
+  private async handleJoinRoom(clientId: string, payload: { roomId: string }) {
     const client = this.clients.get(clientId);
     if (!client) return;
     
-    const { roomId, showId } = payload;
+    const { roomId } = payload;
+    const showId = this.showIdForRoom(roomId);
     
     // Create room if it doesn't exist
     if (!this.rooms.has(roomId)) {
@@ -236,26 +477,28 @@ class WebSocketManager {
     room.clients.add(clientId);
     client.rooms.add(roomId);
     client.showId = showId;
+    client.showRoles.delete(showId);
     
     // Update viewer count
-    room.metadata.viewerCount = room.clients.size;
+    const viewerCount = await this.syncPresence(roomId);
     
     // Notify client
     this.sendToClient(clientId, {
       type: 'joined_room',
       payload: {
         roomId,
-        viewerCount: room.metadata.viewerCount,
+        viewerCount,
       },
       timestamp: Date.now(),
     });
     
-    // Broadcast viewer count update to room
-    this.broadcastToRoom(roomId, {
+    // Broadcast viewer count update to room; other nodes update their
+    // members when they hear about the presence change
+    this.deliverToRoom(roomId, {
       type: 'viewer_count_update',
       payload: {
         roomId,
-        viewerCount: room.metadata.viewerCount,
+        viewerCount,
       },
       timestamp: Date.now(),
     }, clientId);
@@ -267,7 +510,7 @@ class WebSocketManager {
    * Handle leave room request
    */
   private handleLeaveRoom(clientId: string, payload: { roomId: string }) {
-    this.removeClientFromRoom(clientId, payload.roomId);
+    return this.removeClientFromRoom(clientId, payload.roomId);
   }
   
   /**
@@ -276,7 +519,6 @@ class WebSocketManager {
   private handleChatMessage(clientId: string, payload: {
     roomId: string;
     message: string;
-    userName: string;
     userAvatar?: string;
   }) {
     const client = this.clients.get(clientId);
@@ -297,8 +539,8 @@ class WebSocketManager {
       type: 'chat_message',
       payload: {
         id: nanoid(),
-        userId: client.userId,
-        userName: payload.userName,
+        userId: client.identity?.userId,
+        userName: client.identity?.name,
         userAvatar: payload.userAvatar,
         message: payload.message,
         timestamp: Date.now(),
@@ -337,6 +579,34 @@ class WebSocketManager {
     console.log(`[WebSocket] Product pinned in room ${payload.roomId}`);
   }
   
+  /**
+   * Start a programmed countdown drop on the host's cue. The countdown
+   * itself reaches viewers through the price drop events.
+   */
+  private async handleTriggerPriceDrop(clientId: string, showId: string, payload: {
+    roomId: string;
+    programId: string;
+  }) {
+    const { priceDropScheduler, startPriceDropCountdown } = await import('./live-show-runner');
+    
+    const programmed = priceDropScheduler.getPrograms(showId).some(drop => drop.programId === payload.programId);
+    if (!programmed) {
+      this.sendError(clientId, 'Price drop is not programmed for this show');
+      return;
+    }
+    
+    try {
+      const startsAt = startPriceDropCountdown(payload.programId);
+      this.sendToClient(clientId, {
+        type: 'price_drop_triggered',
+        payload: { programId: payload.programId, startsAt: startsAt.toISOString() },
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      this.sendError(clientId, error instanceof Error ? error.message : 'Price drop failed');
+    }
+  }
+  
   /**
    * Handle send gift
    */
@@ -345,7 +615,6 @@ class WebSocketManager {
     giftId: string;
     giftName: string;
     giftIcon: string;
-    userName: string;
   }) {
     const client = this.clients.get(clientId);
     if (!client) return;
@@ -355,8 +624,8 @@ class WebSocketManager {
       type: 'gift_sent',
       payload: {
         id: nanoid(),
-        userId: client.userId,
-        userName: payload.userName,
+        userId: client.identity?.userId,
+        userName: client.identity?.name,
         giftId: payload.giftId,
         giftName: payload.giftName,
         giftIcon: payload.giftIcon,
@@ -382,7 +651,7 @@ class WebSocketManager {
     this.broadcastToRoom(payload.roomId, {
       type: 'show_liked',
       payload: {
-        userId: client.userId,
+        userId: client.identity?.userId,
         showId: payload.showId,
       },
       timestamp: Date.now(),
@@ -394,43 +663,221 @@ class WebSocketManager {
   /**
    * Handle viewer stats request
    */
-  private handleViewerStats(clientId: string, payload: { roomId: string }) {
+  private async handleViewerStats(clientId: string, payload: { roomId: string }) {
     const room = this.rooms.get(payload.roomId);
     if (!room) return;
     
+    let clients = Array.from(room.clients);
+    try {
+      clients = readPresence(await this.backplane.hgetall(presenceKey(payload.roomId))).clientIds;
+    } catch (error) {
+      console.error(`[WebSocket] Presence read failed for room ${payload.roomId}:`, error);
+    }
+    
     this.sendToClient(clientId, {
       type: 'viewer_stats',
       payload: {
         roomId: payload.roomId,
-        viewerCount: room.metadata.viewerCount,
-        clients: Array.from(room.clients),
+        viewerCount: clients.length,
+        clients,
+      },
+      timestamp: Date.now(),
+    });
+  }
+  
+  /**
+   * Broadcast a show lifecycle transition to the show's rooms
+   */
+  private handleShowTransition(event: ShowTransitionEvent) {
+    this.broadcastToShow(event.showId, {
+      type: 'show_state_changed',
+      payload: {
+        showId: event.showId,
+        from: event.from,
+        to: event.to,
+        trigger: event.trigger,
+        status: toRouterStatus(event.to),
+        isLive: isOnAir(event.to),
+        version: event.version,
       },
+      timestamp: event.timestamp.getTime(),
+    });
+    
+    this.showChannel.publish(event.showId, {
+      type: 'status_changed',
+      status: toRouterStatus(event.to),
+      isLive: isOnAir(event.to),
+    });
+    
+    console.log(`[WebSocket] Show ${event.showId} ${event.from} -> ${event.to}`);
+  }
+  
+  /**
+   * Broadcast a price drop state change to the show's rooms. serverTime
+   * lets viewers correct their countdown banner for clock drift.
+   */
+  private handlePriceDropEvent(event: PriceDropEvent) {
+    this.broadcastToShow(event.showId, {
+      type: 'price_drop',
+      payload: event,
+      timestamp: Date.parse(event.serverTime),
+    });
+    
+    const channelEvent = fromPriceDropEvent(event);
+    if (channelEvent) {
+      this.showChannel.publish(event.showId, channelEvent);
+    }
+  }
+  
+  /**
+   * Subscribe a viewer to a show's channel. The client is caught up first
+   * (missed events after lastSeq, or a snapshot) and only then joins the
+   * channel room, so live frames always follow the catch-up in order.
+   */
+  private async handleSubscribeShow(clientId: string, payload: ShowChannelSubscribePayload) {
+    if (!payload?.showId) {
+      this.sendToClient(clientId, {
+        type: 'error',
+        payload: { message: 'showId is required' },
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    
+    const resume = await this.showChannel.resume(payload.showId, payload.lastSeq, payload.lastEpoch);
+    if (!this.clients.has(clientId)) return;
+    
+    if (resume.snapshot) {
+      this.sendToClient(clientId, {
+        type: SHOW_CHANNEL_MESSAGES.snapshot,
+        payload: resume.snapshot,
+        timestamp: Date.parse(resume.snapshot.serverTime),
+      });
+    }
+    for (const frame of resume.events) {
+      this.sendToClient(clientId, {
+        type: SHOW_CHANNEL_MESSAGES.event,
+        payload: frame,
+        timestamp: Date.parse(frame.serverTime),
+      });
+    }
+    
+    await this.handleJoinRoom(clientId, {
+      roomId: this.showChannelRoomId(payload.showId),
+    });
+  }
+  
+  /**
+   * Deliver a channel frame to the show's channel room only; the generic
+   * show rooms keep receiving the untyped broadcasts above
+   */
+  private handleShowChannelFrame(frame: ShowChannelEventFrame) {
+    this.deliverShowChannelFrame(frame);
+    this.relay({ kind: 'frame', frame });
+  }
+  
+  private deliverShowChannelFrame(frame: ShowChannelEventFrame) {
+    this.deliverToRoom(this.showChannelRoomId(frame.showId), {
+      type: SHOW_CHANNEL_MESSAGES.event,
+      payload: frame,
+      timestamp: Date.parse(frame.serverTime),
+    });
+  }
+  
+  private showChannelRoomId(showId: string) {
+    return `${SHOW_CHANNEL_ROOM_PREFIX}${showId}`;
+  }
+  
+  /**
+   * The show a room belongs to, from its id alone: a show's room is named
+   * after the show, so a client can't bind a room to a show it picked
+   */
+  private showIdForRoom(roomId: string) {
+    return roomId.startsWith(SHOW_CHANNEL_ROOM_PREFIX) ? roomId.slice(SHOW_CHANNEL_ROOM_PREFIX.length) : roomId;
+  }
+  
+  /**
+   * Pick a session up after a reconnect, on this node or any other: rejoin
+   * its rooms and deliver what was queued for it. Show channel
+   * subscriptions catch up through subscribe_show with lastSeq instead.
+   */
+  private async handleResume(clientId: string, payload: { resumeToken?: string }) {
+    let session: DetachedSession | null = null;
+    if (payload?.resumeToken) {
+      const key = sessionKey(payload.resumeToken);
+      try {
+        const raw = await this.backplane.get(key);
+        if (raw) {
+          await this.backplane.del(key);
+          session = JSON.parse(raw);
+        }
+      } catch (error) {
+        console.error(`[WebSocket] Session lookup failed for ${clientId}:`, error);
+      }
+    }
+    
+    if (!session) {
+      this.sendToClient(clientId, {
+        type: 'resume_failed',
+        payload: { message: 'Session expired' },
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    
+    for (const room of session.rooms) {
+      await this.handleJoinRoom(clientId, room);
+    }
+    session.queued.forEach(message => this.sendToClient(clientId, message));
+    
+    this.sendToClient(clientId, {
+      type: 'resumed',
+      payload: { rooms: session.rooms.map(room => room.roomId) },
       timestamp: Date.now(),
     });
   }
   
+  /**
+   * Keep a disconnected client's rooms and undelivered messages on the
+   * backplane for SESSION_TTL, so it can resume on any node
+   */
+  private saveSession(client: Client, rooms: DetachedSession['rooms']) {
+    const queued = this.messageQueue.get(client.id) ?? [];
+    this.messageQueue.delete(client.id);
+    if (rooms.length === 0 && queued.length === 0) return Promise.resolve();
+    
+    const session: DetachedSession = { rooms, queued };
+    return this.backplane
+      .set(sessionKey(client.resumeToken), JSON.stringify(session), SESSION_TTL)
+      .catch(error => console.error(`[WebSocket] Saving session for ${client.id} failed:`, error));
+  }
+  
   /**
    * Handle client disconnect
    */
-  private handleDisconnect(clientId: string) {
+  private async handleDisconnect(clientId: string) {
     const client = this.clients.get(clientId);
     if (!client) return;
     
+    const rooms = Array.from(client.rooms)
+      .filter(roomId => !roomId.startsWith(SHOW_CHANNEL_ROOM_PREFIX))
+      .map(roomId => ({ roomId }));
+    
     // Remove from all rooms
-    client.rooms.forEach(roomId => {
-      this.removeClientFromRoom(clientId, roomId);
-    });
+    const leaving = Array.from(client.rooms).map(roomId => this.removeClientFromRoom(clientId, roomId));
     
     // Remove client
     this.clients.delete(clientId);
     
     console.log(`[WebSocket] Client disconnected: ${clientId}`);
+    
+    await Promise.all([...leaving, this.saveSession(client, rooms)]);
   }
   
   /**
    * Remove client from room
    */
-  private removeClientFromRoom(clientId: string, roomId: string) {
+  private async removeClientFromRoom(clientId: string, roomId: string) {
     const client = this.clients.get(clientId);
     const room = this.rooms.get(roomId);
     
@@ -439,26 +886,128 @@ class WebSocketManager {
     room.clients.delete(clientId);
     client.rooms.delete(roomId);
     
-    // Update viewer count
-    room.metadata.viewerCount = room.clients.size;
+    // Delete room if empty
+    if (room.clients.size === 0) {
+      this.rooms.delete(roomId);
+      console.log(`[WebSocket] Room deleted: ${roomId}`);
+    }
+    
+    console.log(`[WebSocket] Client ${clientId} left room ${roomId}`);
     
     // Broadcast viewer count update
-    this.broadcastToRoom(roomId, {
+    const viewerCount = await this.syncPresence(roomId);
+    this.deliverToRoom(roomId, {
       type: 'viewer_count_update',
       payload: {
         roomId,
-        viewerCount: room.metadata.viewerCount,
+        viewerCount,
       },
       timestamp: Date.now(),
     });
+  }
+  
+  /**
+   * Publish this node's members of a room and return the room's viewer
+   * count across every node
+   */
+  private async syncPresence(roomId: string): Promise<number> {
+    const room = this.rooms.get(roomId);
+    const key = presenceKey(roomId);
     
-    // Delete room if empty
-    if (room.clients.size === 0) {
-      this.rooms.delete(roomId);
-      console.log(`[WebSocket] Room deleted: ${roomId}`);
+    try {
+      if (room) {
+        await this.backplane.hset(key, this.nodeId, encodePresence(Array.from(room.clients), PRESENCE_TTL), PRESENCE_TTL);
+      } else {
+        await this.backplane.hdel(key, this.nodeId);
+      }
+      await this.relay({ kind: 'presence', roomId });
+      
+      const { count } = readPresence(await this.backplane.hgetall(key));
+      if (room) room.metadata.viewerCount = count;
+      return count;
+    } catch (error) {
+      console.error(`[WebSocket] Presence sync failed for room ${roomId}:`, error);
+      return room?.clients.size ?? 0;
     }
+  }
+  
+  /**
+   * Another node's members changed; tell ours the new count
+   */
+  private async refreshViewerCount(roomId: string) {
+    if (!this.rooms.has(roomId)) return;
     
-    console.log(`[WebSocket] Client ${clientId} left room ${roomId}`);
+    try {
+      const { count } = readPresence(await this.backplane.hgetall(presenceKey(roomId)));
+      const room = this.rooms.get(roomId);
+      if (!room) return;
+      
+      room.metadata.viewerCount = count;
+      this.deliverToRoom(roomId, {
+        type: 'viewer_count_update',
+        payload: { roomId, viewerCount: count },
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      console.error(`[WebSocket] Presence read failed for room ${roomId}:`, error);
+    }
+  }
+  
+  /**
+   * Rewrite this node's presence so it doesn't expire while clients stay
+   */
+  private refreshPresence() {
+    this.rooms.forEach(room => {
+      this.backplane
+        .hset(presenceKey(room.id), this.nodeId, encodePresence(Array.from(room.clients), PRESENCE_TTL), PRESENCE_TTL)
+        .catch(error => console.error(`[WebSocket] Presence refresh failed for room ${room.id}:`, error));
+    });
+  }
+  
+  private relay(relay: Relay): Promise<void> {
+    const envelope: RelayEnvelope = { ...relay, origin: this.nodeId };
+    return this.backplane
+      .publish(RELAY_CHANNEL, JSON.stringify(envelope))
+      .catch(error => console.error(`[WebSocket] Relay of ${relay.kind} failed:`, error));
+  }
+  
+  /**
+   * Deliver what another node broadcast to our own clients
+   */
+  private handleRelay(raw: string) {
+    let envelope: RelayEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      console.error('[WebSocket] Unreadable relay message:', error);
+      return;
+    }
+    if (envelope.origin === this.nodeId) return;
+    
+    switch (envelope.kind) {
+      case 'room':
+        this.deliverToRoom(envelope.roomId, envelope.message, envelope.excludeClientId);
+        break;
+      case 'show':
+        this.deliverToShow(envelope.showId, envelope.message);
+        break;
+      case 'frame':
+        if (this.showChannel.ingest(envelope.frame)) {
+          this.deliverShowChannelFrame(envelope.frame);
+        }
+        break;
+      case 'presence':
+        this.refreshViewerCount(envelope.roomId);
+        break;
+    }
+  }
+  
+  private sendError(clientId: string, message: string) {
+    this.sendToClient(clientId, {
+      type: 'error',
+      payload: { message },
+      timestamp: Date.now(),
+    });
   }
   
   /**
@@ -483,9 +1032,17 @@ class WebSocketManager {
   }
   
   /**
-   * Broadcast message to all clients in room
+   * Broadcast message to all clients in room, on every node
    */
   private broadcastToRoom(roomId: string, message: Message, excludeClientId?: string) {
+    this.deliverToRoom(roomId, message, excludeClientId);
+    this.relay({ kind: 'room', roomId, message, excludeClientId });
+  }
+  
+  /**
+   * Deliver message to this node's clients in room
+   */
+  private deliverToRoom(roomId: string, message: Message, excludeClientId?: string) {
     const room = this.rooms.get(roomId);
     if (!room) return;
     
@@ -496,6 +1053,24 @@ class WebSocketManager {
     });
   }
   
+  /**
+   * Broadcast message to every room attached to a show, on every node
+   */
+  public broadcastToShow(showId: string, message: Message) {
+    this.deliverToShow(showId, message);
+    this.relay({ kind: 'show', showId, message });
+  }
+  
+  private deliverToShow(showId: string, message: Message) {
+    const channelRoomId = this.showChannelRoomId(showId);
+    this.rooms.forEach(room => {
+      if (room.id === channelRoomId) return;
+      if (room.metadata.showId === showId) {
+        this.deliverToRoom(room.id, message);
+      }
+    });
+  }
+  
   /**
    * Broadcast message to all connected clients
    */
@@ -565,6 +1140,7 @@ class WebSocketManager {
    */
   public getStats() {
     return {
+      nodeId: this.nodeId,
       totalClients: this.clients.size,
       totalRooms: this.rooms.size,
       rooms: Array.from(this.rooms.values()).map(room => ({
@@ -574,12 +1150,47 @@ class WebSocketManager {
       })),
     };
   }
+  
+  /**
+   * Stop serving. Clients are disconnected with their sessions saved, so
+   * they can resume on another node; this node's presence is withdrawn.
+   * A backplane passed in through the options is left open.
+   */
+  public async close() {
+    this.timers.forEach(timer => clearInterval(timer));
+    
+    const clients = Array.from(this.clients.values());
+    await Promise.all(clients.map(client => this.handleDisconnect(client.id)));
+    clients.forEach(client => client.ws.terminate());
+    
+    await Promise.all(this.teardown.map(teardown => teardown()));
+    if (this.ownsBackplane) {
+      await this.backplane.close();
+    }
+    
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
 }
 
-// Export singleton instance
-export const websocketManager = new WebSocketManager(
-  parseInt(process.env.WEBSOCKET_PORT || '8080')
-);
+// Singleton instance
+let websocketManager: WebSocketManager | null = null;
+
+export function initializeWebSocketServer(options: WebSocketManagerOptions = {}) {
+  if (!websocketManager) {
+    websocketManager = new WebSocketManager({
+      port: parseInt(process.env.WEBSOCKET_PORT || '8080'),
+      ...options,
+    });
+  }
+  return websocketManager;
+}
+
+export function getWebSocketServer() {
+  if (!websocketManager) {
+    throw new Error('WebSocket server not initialized. Call initializeWebSocketServer() first.');
+  }
+  return websocketManager;
+}
 
-// Export for external use
-export default websocketManager;
+export { WebSocketManager };
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./business-os/db-wrapper", () => ({
+  db: {
+    query: {
+      workflows: { findFirst: vi.fn() },
+      workflowRuns: { findFirst: vi.fn(), findMany: vi.fn() },
+    },
+  },
+  getDb: vi.fn(),
+}));
+vi.mock("./business-os/governor", () => ({
+  governor: { requestApproval: vi.fn(), getApprovalState: vi.fn(), checkPolicy: vi.fn() },
+}));
+vi.mock("./business-os/tool-router", () => ({
+  toolRouter: { executeTool: vi.fn(), isRetryable: vi.fn() },
+}));
+
+import { db, getDb } from "./business-os/db-wrapper";
+import { governor } from "./business-os/governor";
+import { toolRouter } from "./business-os/tool-router";
+import { WorkflowEngine, type WorkflowDefinition } from "./business-os/workflow-engine";
+
+const definition: WorkflowDefinition = {
+  name: "reorder_stock",
+  description: "Raise a PO once a buyer signs off",
+  type: "purchasing",
+  orgUnitId: "org-1",
+  autonomyLevel: "a1_assisted",
+  triggerEvents: ["stock.low"],
+  steps: [
+    {
+      id: "draft_po",
+      name: "Draft PO",
+      type: "tool_call",
+      config: { toolName: "purchasing", operation: "draft_po", outputKey: "po" },
+      compensation: { toolName: "purchasing", operation: "void_po" },
+    },
+    { id: "buyer_signoff", name: "Buyer sign-off", type: "approval_gate", config: { action: "send_po" } },
+    {
+      id: "send_po",
+      name: "Send PO",
+      type: "tool_call",
+      config: { toolName: "purchasing", operation: "send_po" },
+    },
+  ],
+};
+
+const pausedRun = {
+  id: "run-1",
+  workflowId: "wf-1",
+  status: "paused",
+  pausedStepId: "buyer_signoff",
+  approvalId: "approval-1",
+  inputs: { sku: "SKU-1" },
+  outputs: { po: { id: "po-1" } },
+  trace: [
+    { timestamp: "2026-01-01T00:00:00.000Z", step: "draft_po", status: "started", data: {} },
+    { timestamp: "2026-01-01T00:00:00.000Z", step: "draft_po", status: "completed", data: {} },
+    { timestamp: "2026-01-01T00:00:00.000Z", step: "buyer_signoff", status: "paused", data: {} },
+  ],
+};
+
+// Updates report affectedRows like mysql2
+function useFakeDb(affectedRows = 1) {
+  const updates: Record<string, unknown>[] = [];
+
+  vi.mocked(getDb).mockResolvedValue({
+    update: () => ({
+      set: (values: Record<string, unknown>) => ({
+        where: async () => {
+          updates.push(values);
+          return [{ affectedRows }];
+        },
+      }),
+    }),
+    insert: () => ({ values: async () => undefined }),
+  } as unknown as Awaited<ReturnType<typeof getDb>>);
+  vi.mocked(db.query.workflows.findFirst).mockResolvedValue({
+    id: "wf-1",
+    name: definition.name,
+    spec: definition,
+  } as never);
+  vi.mocked(db.query.workflowRuns.findFirst).mockResolvedValue(pausedRun as never);
+
+  return updates;
+}
+
+const operations = () => vi.mocked(toolRouter.executeTool).mock.calls.map(([, operation]) => operation);
+
+describe("Workflow Engine", () => {
+  let engine: WorkflowEngine;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    engine = new WorkflowEngine();
+    vi.mocked(toolRouter.executeTool).mockResolvedValue({ success: true, result: { id: "po-1" } } as never);
+  });
+
+  describe("pause and resume", () => {
+    it("parks the run at an approval gate with its context", async () => {
+      const updates = useFakeDb();
+      vi.mocked(governor.requestApproval).mockResolvedValue("approval-1");
+
+      const result = await engine.executeWorkflow(definition, { sku: "SKU-1" });
+
+      expect(result).toMatchObject({ status: "paused", approvalId: "approval-1", pausedStepId: "buyer_signoff" });
+      expect(operations()).toEqual(["draft_po"]);
+      expect(updates).toEqual([
+        expect.objectContaining({
+          status: "paused",
+          pausedStepId: "buyer_signoff",
+          approvalId: "approval-1",
+          outputs: { po: { id: "po-1" } },
+        }),
+      ]);
+    });
+
+    it("continues past the gate once approved", async () => {
+      const updates = useFakeDb();
+      vi.mocked(governor.getApprovalState).mockResolvedValue("approved");
+
+      const result = await engine.resumeWorkflowRun("run-1");
+
+      expect(result).toEqual({ runId: "run-1", status: "completed" });
+      expect(operations()).toEqual(["send_po"]);
+      expect(updates[0]).toEqual({ status: "running", pausedStepId: null, approvalId: null, pausedAt: null });
+      expect(updates.at(-1)).toMatchObject({ status: "completed" });
+    });
+
+    it("leaves the run to whoever claimed it first", async () => {
+      const updates = useFakeDb(0);
+      vi.mocked(governor.getApprovalState).mockResolvedValue("approved");
+
+      const result = await engine.resumeWorkflowRun("run-1");
+
+      expect(result).toMatchObject({ status: "paused", approvalId: "approval-1" });
+      expect(operations()).toEqual([]);
+      expect(updates).toHaveLength(1);
+    });
+
+    it("fails a rejected run and undoes the steps before the gate", async () => {
+      const updates = useFakeDb();
+      vi.mocked(governor.getApprovalState).mockResolvedValue("rejected");
+
+      const result = await engine.resumeWorkflowRun("run-1");
+
+      expect(result).toMatchObject({ status: "failed", error: "Approval rejected: approval-1" });
+      expect(operations()).toEqual(["void_po"]);
+      expect(updates.at(-1)).toMatchObject({ status: "failed", errorMessage: "Approval rejected: approval-1" });
+    });
+
+    it("stays paused while the approval is pending", async () => {
+      const updates = useFakeDb();
+      vi.mocked(governor.getApprovalState).mockResolvedValue("pending");
+
+      const result = await engine.resumeWorkflowRun("run-1");
+
+      expect(result).toMatchObject({ status: "paused", pausedStepId: "buyer_signoff" });
+      expect(updates).toEqual([]);
+    });
+  });
+
+  describe("timeouts", () => {
+    const syncStock: WorkflowDefinition = {
+      ...definition,
+      autonomyLevel: "a3_autonomous",
+      steps: [
+        {
+          id: "sync_stock",
+          name: "Sync stock",
+          type: "tool_call",
+          config: { toolName: "inventory", operation: "sync" },
+          retryPolicy: { maxAttempts: 3, initialDelayMs: 0 },
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      useFakeDb();
+      vi.mocked(toolRouter.executeTool).mockResolvedValue({ success: false, error: "Tool execution timeout" } as never);
+    });
+
+    it("does not call a tool again when it may have landed", async () => {
+      vi.mocked(toolRouter.isRetryable).mockReturnValue(false);
+
+      await expect(engine.executeWorkflow(syncStock, {})).rejects.toThrow("Tool execution timeout");
+      expect(operations()).toEqual(["sync"]);
+    });
+
+    it("retries tools declared safe to repeat", async () => {
+      vi.mocked(toolRouter.isRetryable).mockReturnValue(true);
+
+      await expect(engine.executeWorkflow(syncStock, {})).rejects.toThrow("Tool execution timeout");
+      expect(operations()).toEqual(["sync", "sync", "sync"]);
+      expect(toolRouter.isRetryable).toHaveBeenCalledWith("inventory");
+    });
+  });
+});
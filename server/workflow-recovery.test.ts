@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyWorkflowError,
+  getPendingCompensations,
+  getRetryDelayMs,
+  getRetryPolicy,
+  shouldRetry,
+} from "./business-os/workflow-recovery";
+import type { WorkflowStep } from "./business-os/workflow-engine";
+
+const step = (id: string, compensate = true): WorkflowStep => ({
+  id,
+  name: id,
+  type: "tool_call",
+  config: {},
+  compensation: compensate ? { toolName: "purchasing", operation: `undo_${id}` } : undefined,
+});
+
+const traceEntry = (stepId: string, status: string) => ({
+  timestamp: new Date().toISOString(),
+  step: stepId,
+  status,
+  data: {},
+});
+
+describe("Workflow Recovery", () => {
+  it("should bound legacy retryable steps and not retry others", () => {
+    expect(getRetryPolicy({ retryable: true }).maxAttempts).toBe(3);
+    expect(getRetryPolicy({}).maxAttempts).toBe(1);
+    expect(getRetryPolicy({ retryable: true, retryPolicy: { maxAttempts: 5 } }).maxAttempts).toBe(5);
+  });
+
+  it("should only retry transient errors within the attempt limit", () => {
+    const policy = { maxAttempts: 3 };
+
+    expect(classifyWorkflowError("Tool execution timeout")).toBe("timeout");
+    expect(classifyWorkflowError("Agent a1 lacks permission for tool 'ledger'")).toBe("permission");
+    expect(classifyWorkflowError("Policy violation: margin below floor")).toBe("policy");
+    expect(classifyWorkflowError("Card declined")).toBe("tool_error");
+
+    expect(shouldRetry(policy, "timeout", 1)).toBe(true);
+    expect(shouldRetry(policy, "timeout", 3)).toBe(false);
+    expect(shouldRetry(policy, "permission", 1)).toBe(false);
+    expect(shouldRetry({ maxAttempts: 3, retryOn: ["timeout"] }, "tool_error", 1)).toBe(false);
+  });
+
+  it("should back off exponentially up to the cap", () => {
+    const policy = { maxAttempts: 6, backoff: "exponential" as const, initialDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect([1, 2, 3, 4].map((attempt) => getRetryDelayMs(policy, attempt))).toEqual([1000, 2000, 4000, 5000]);
+    expect(getRetryDelayMs({ maxAttempts: 3 }, 2)).toBe(1000);
+  });
+
+  it("should compensate completed steps in reverse order", () => {
+    const steps = [step("create_po"), step("charge_deposit"), step("notify_supplier", false)];
+    const trace = [
+      traceEntry("create_po", "started"),
+      traceEntry("create_po", "completed"),
+      traceEntry("charge_deposit", "started"),
+      traceEntry("charge_deposit", "completed"),
+      traceEntry("notify_supplier", "started"),
+      traceEntry("notify_supplier", "failed"),
+    ];
+
+    expect(getPendingCompensations(steps, trace).map((s) => s.id)).toEqual(["charge_deposit", "create_po"]);
+
+    trace.push(traceEntry("charge_deposit", "compensating"), traceEntry("charge_deposit", "compensated"));
+    expect(getPendingCompensations(steps, trace).map((s) => s.id)).toEqual(["create_po"]);
+  });
+});
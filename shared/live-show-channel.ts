@@ -0,0 +1,261 @@
+/**
+ * Live show channel protocol
+ *
+ * Typed per-show state pushed to viewers over the websocket server. Every
+ * event carries a per-show sequence number and the epoch it counts in; a
+ * client that sees a gap (or reconnects) re-subscribes with the last epoch
+ * and sequence it applied and receives either the missed events or a full
+ * snapshot. The epoch changes whenever the server starts the count over
+ * (e.g. after a restart), so sequence numbers from before never match.
+ *
+ * Shared by the server hub and the viewer so both fold events the same way.
+ */
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+export interface ShowChannelPinnedProduct {
+  productId: string;
+  name?: string;
+  imageUrl?: string;
+  displayPriceCents: number;
+  originalPriceCents: number;
+  sortOrder: number;
+  pinnedAt: string;
+}
+
+export interface ShowChannelPriceDrop {
+  dropId: string;
+  productId: string;
+  originalPriceCents?: number;
+  dropPriceCents?: number;
+  startsAt?: string;
+  endsAt?: string;
+  quantitySold: number;
+  remainingQuantity: number | null;
+}
+
+export interface ShowChannelCountdown {
+  programId: string;
+  productId: string;
+  dropPriceCents?: number;
+  firesAt: string;
+}
+
+export interface ShowChannelSegment {
+  segmentId: string;
+  type: string;
+  title: string;
+  startedAt: string;
+}
+
+export interface ShowChannelState {
+  showId: string;
+  status: string | null;
+  isLive: boolean;
+  viewerCount: number;
+  pinnedProducts: ShowChannelPinnedProduct[];
+  priceDrops: ShowChannelPriceDrop[];
+  countdowns: ShowChannelCountdown[];
+  stock: Record<string, number>;
+  segment: ShowChannelSegment | null;
+}
+
+// ============================================================================
+// EVENTS & FRAMES
+// ============================================================================
+
+export type ShowChannelEvent =
+  | { type: "status_changed"; status: string; isLive: boolean }
+  | { type: "product_pinned"; product: ShowChannelPinnedProduct }
+  | { type: "product_unpinned"; productId: string }
+  | { type: "price_drop_countdown"; countdown: ShowChannelCountdown }
+  | { type: "price_drop_canceled"; programId: string }
+  | { type: "price_drop_started"; drop: ShowChannelPriceDrop; programId?: string }
+  | { type: "price_drop_updated"; dropId: string; quantitySold: number; remainingQuantity: number | null }
+  | { type: "price_drop_ended"; dropId: string; productId: string; reason?: string }
+  | { type: "stock_changed"; productId: string; available: number }
+  | { type: "segment_changed"; segment: ShowChannelSegment | null }
+  | { type: "viewer_count"; viewerCount: number; delta: number };
+
+// Websocket message types used by the channel
+export const SHOW_CHANNEL_MESSAGES = {
+  subscribe: "subscribe_show",
+  unsubscribe: "unsubscribe_show",
+  event: "show_event",
+  snapshot: "show_snapshot",
+} as const;
+
+export interface ShowChannelEventFrame {
+  showId: string;
+  epoch: string;
+  seq: number;
+  event: ShowChannelEvent;
+  serverTime: string;
+}
+
+export interface ShowChannelSnapshotFrame {
+  showId: string;
+  epoch: string;
+  seq: number;
+  state: ShowChannelState;
+  serverTime: string;
+}
+
+export interface ShowChannelSubscribePayload {
+  showId: string;
+  // Last epoch and sequence the client applied; omitted on first subscribe
+  lastEpoch?: string;
+  lastSeq?: number;
+}
+
+// ============================================================================
+// REDUCERS
+// ============================================================================
+
+export function emptyShowChannelState(showId: string): ShowChannelState {
+  return {
+    showId,
+    status: null,
+    isLive: false,
+    viewerCount: 0,
+    pinnedProducts: [],
+    priceDrops: [],
+    countdowns: [],
+    stock: {},
+    segment: null,
+  };
+}
+
+/**
+ * Fold one event into the show state. Pure; returns a new state object.
+ */
+export function applyShowChannelEvent(
+  state: ShowChannelState,
+  event: ShowChannelEvent
+): ShowChannelState {
+  switch (event.type) {
+    case "status_changed":
+      return {
+        ...state,
+        status: event.status,
+        isLive: event.isLive,
+        ...(event.isLive ? {} : { priceDrops: [], countdowns: [] }),
+      };
+
+    case "product_pinned":
+      return {
+        ...state,
+        pinnedProducts: [
+          ...state.pinnedProducts.filter((p) => p.productId !== event.product.productId),
+          event.product,
+        ].sort((a, b) => b.sortOrder - a.sortOrder),
+      };
+
+    case "product_unpinned":
+      return {
+        ...state,
+        pinnedProducts: state.pinnedProducts.filter((p) => p.productId !== event.productId),
+      };
+
+    case "price_drop_countdown":
+      return {
+        ...state,
+        countdowns: [
+          ...state.countdowns.filter((c) => c.programId !== event.countdown.programId),
+          event.countdown,
+        ],
+      };
+
+    case "price_drop_canceled":
+      return {
+        ...state,
+        countdowns: state.countdowns.filter((c) => c.programId !== event.programId),
+      };
+
+    case "price_drop_started":
+      return {
+        ...state,
+        countdowns: state.countdowns.filter((c) => c.programId !== event.programId),
+        priceDrops: [
+          ...state.priceDrops.filter(
+            (d) => d.dropId !== event.drop.dropId && d.productId !== event.drop.productId
+          ),
+          event.drop,
+        ],
+      };
+
+    case "price_drop_updated":
+      return {
+        ...state,
+        priceDrops: state.priceDrops.map((d) =>
+          d.dropId === event.dropId
+            ? { ...d, quantitySold: event.quantitySold, remainingQuantity: event.remainingQuantity }
+            : d
+        ),
+      };
+
+    case "price_drop_ended":
+      return {
+        ...state,
+        priceDrops: state.priceDrops.filter((d) => d.dropId !== event.dropId),
+      };
+
+    case "stock_changed":
+      return {
+        ...state,
+        stock: { ...state.stock, [event.productId]: event.available },
+      };
+
+    case "segment_changed":
+      return { ...state, segment: event.segment };
+
+    case "viewer_count":
+      return { ...state, viewerCount: event.viewerCount };
+  }
+}
+
+export interface ShowChannelClientState {
+  epoch: string;
+  seq: number;
+  state: ShowChannelState;
+}
+
+/**
+ * Client-side frame handling. Duplicates are ignored; a gap in the sequence
+ * or an event from another epoch leaves the state untouched and asks the
+ * caller to re-subscribe with the last applied epoch and sequence.
+ */
+export function reduceShowChannelFrame(
+  current: ShowChannelClientState | null,
+  frame:
+    | { type: typeof SHOW_CHANNEL_MESSAGES.snapshot; payload: ShowChannelSnapshotFrame }
+    | { type: typeof SHOW_CHANNEL_MESSAGES.event; payload: ShowChannelEventFrame }
+): { next: ShowChannelClientState | null; needsResync: boolean } {
+  // A snapshot always wins: the server may have restarted and reset its sequence
+  if (frame.type === SHOW_CHANNEL_MESSAGES.snapshot) {
+    const { epoch, seq, state } = frame.payload;
+    return { next: { epoch, seq, state }, needsResync: false };
+  }
+
+  if (!current) {
+    return { next: null, needsResync: true };
+  }
+
+  const { epoch, seq, event } = frame.payload;
+  if (epoch !== current.epoch) {
+    return { next: current, needsResync: true };
+  }
+  if (seq <= current.seq) {
+    return { next: current, needsResync: false };
+  }
+  if (seq !== current.seq + 1) {
+    return { next: current, needsResync: true };
+  }
+
+  return {
+    next: { epoch, seq, state: applyShowChannelEvent(current.state, event) },
+    needsResync: false,
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Live show replay timeline
+ *
+ * After a show ends, its pins, price drops, segments and highlights are
+ * folded into a timeline keyed by seconds from the start of the recording.
+ * Replay viewers look up what was on screen at the playhead; purchases use
+ * the product's current price, with the price shown live kept for display.
+ *
+ * Shared by the server (which builds the timeline) and the replay player
+ * (which seeks through it).
+ */
+
+// ============================================================================
+// INPUTS
+// ============================================================================
+
+export interface ReplayPinInput {
+  productId: string;
+  pinnedAt: Date;
+  unpinnedAt?: Date | null;
+  // Price shown while no drop was running
+  displayPriceCents: number;
+  sortOrder: number;
+}
+
+export interface ReplayPriceDropInput {
+  dropId: string;
+  productId: string;
+  dropPriceCents: number;
+  startedAt: Date;
+  endsAt: Date;
+}
+
+export interface ReplaySegmentInput {
+  segmentId: string;
+  type: string;
+  title: string;
+  actualStartOffset?: number | null;
+  actualEndOffset?: number | null;
+}
+
+export interface ReplayHighlightInput {
+  highlightId: string;
+  type: string;
+  title: string;
+  timestampSeconds: number;
+  thumbnailUrl?: string | null;
+}
+
+export interface ReplayTimelineInput {
+  showStartedAt: Date;
+  durationSeconds: number;
+  pins: ReplayPinInput[];
+  priceDrops: ReplayPriceDropInput[];
+  segments: ReplaySegmentInput[];
+  highlights: ReplayHighlightInput[];
+}
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+export interface ReplayShownProduct {
+  productId: string;
+  // Price on screen at that moment in the show
+  shownPriceCents: number;
+  dropId: string | null;
+  sortOrder: number;
+}
+
+/**
+ * What was on screen from startSecond (inclusive) to endSecond (exclusive)
+ */
+export interface ReplayInterval {
+  startSecond: number;
+  endSecond: number;
+  products: ReplayShownProduct[];
+}
+
+export interface ReplayChapter {
+  kind: "SEGMENT" | "HIGHLIGHT";
+  id: string;
+  type: string;
+  title: string;
+  startSecond: number;
+  endSecond: number | null;
+  thumbnailUrl?: string;
+}
+
+export interface ReplayTimeline {
+  durationSeconds: number;
+  intervals: ReplayInterval[];
+  chapters: ReplayChapter[];
+}
+
+function toOffset(at: Date, input: ReplayTimelineInput): number {
+  const seconds = Math.floor((at.getTime() - input.showStartedAt.getTime()) / 1000);
+  return Math.min(Math.max(seconds, 0), input.durationSeconds);
+}
+
+/**
+ * Build the replay timeline. Intervals are contiguous from 0 to the show
+ * duration; a new interval starts whenever a pin or price changes.
+ */
+export function buildReplayTimeline(input: ReplayTimelineInput): ReplayTimeline {
+  const pins = input.pins.map((pin) => ({
+    ...pin,
+    start: toOffset(pin.pinnedAt, input),
+    end: pin.unpinnedAt ? toOffset(pin.unpinnedAt, input) : input.durationSeconds,
+  }));
+  const drops = input.priceDrops.map((drop) => ({
+    ...drop,
+    start: toOffset(drop.startedAt, input),
+    end: toOffset(drop.endsAt, input),
+  }));
+
+  const boundaries = new Set<number>([0, input.durationSeconds]);
+  for (const span of [...pins, ...drops]) {
+    boundaries.add(span.start);
+    boundaries.add(span.end);
+  }
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const intervals: ReplayInterval[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const startSecond = points[i];
+    const endSecond = points[i + 1];
+    if (endSecond <= startSecond) continue;
+
+    const products = pins
+      .filter((pin) => pin.start <= startSecond && pin.end > startSecond)
+      .map((pin) => {
+        const drop = drops.find(
+          (d) => d.productId === pin.productId && d.start <= startSecond && d.end > startSecond
+        );
+        return {
+          productId: pin.productId,
+          shownPriceCents: drop ? drop.dropPriceCents : pin.displayPriceCents,
+          dropId: drop ? drop.dropId : null,
+          sortOrder: pin.sortOrder,
+        };
+      })
+      .sort((a, b) => b.sortOrder - a.sortOrder);
+
+    // Merge with the previous interval when nothing on screen changed
+    const previous = intervals[intervals.length - 1];
+    if (previous && sameProducts(previous.products, products)) {
+      previous.endSecond = endSecond;
+    } else {
+      intervals.push({ startSecond, endSecond, products });
+    }
+  }
+
+  return {
+    durationSeconds: input.durationSeconds,
+    intervals,
+    chapters: buildReplayChapters(input),
+  };
+}
+
+/**
+ * Chapters from segments that actually ran and from highlights, in playback
+ * order
+ */
+export function buildReplayChapters(input: ReplayTimelineInput): ReplayChapter[] {
+  const chapters: ReplayChapter[] = [];
+
+  for (const segment of input.segments) {
+    if (segment.actualStartOffset == null) continue;
+    chapters.push({
+      kind: "SEGMENT",
+      id: segment.segmentId,
+      type: segment.type,
+      title: segment.title,
+      startSecond: segment.actualStartOffset,
+      endSecond: segment.actualEndOffset ?? null,
+    });
+  }
+
+  for (const highlight of input.highlights) {
+    chapters.push({
+      kind: "HIGHLIGHT",
+      id: highlight.highlightId,
+      type: highlight.type,
+      title: highlight.title,
+      startSecond: highlight.timestampSeconds,
+      endSecond: null,
+      thumbnailUrl: highlight.thumbnailUrl || undefined,
+    });
+  }
+
+  return chapters
+    .filter((chapter) => chapter.startSecond <= input.durationSeconds)
+    .sort((a, b) => a.startSecond - b.startSecond || (a.kind === "SEGMENT" ? -1 : 1));
+}
+
+/**
+ * Products on screen at a playhead position
+ */
+export function getReplayProductsAt(
+  timeline: ReplayTimeline,
+  second: number
+): ReplayShownProduct[] {
+  const { intervals } = timeline;
+  let low = 0;
+  let high = intervals.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const interval = intervals[mid];
+    if (second < interval.startSecond) {
+      high = mid - 1;
+    } else if (second >= interval.endSecond) {
+      low = mid + 1;
+    } else {
+      return interval.products;
+    }
+  }
+
+  return [];
+}
+
+function sameProducts(a: ReplayShownProduct[], b: ReplayShownProduct[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (product, i) =>
+        product.productId === b[i].productId &&
+        product.shownPriceCents === b[i].shownPriceCents &&
+        product.dropId === b[i].dropId
+    )
+  );
+}